@@ -11,9 +11,12 @@ import { MyBookings } from "@/pages/MyBookings";
 import { PrivacyPolicy } from "@/pages/PrivacyPolicy";
 import { BookingSuccess } from "@/pages/BookingSuccess";
 import { BookingCancelled } from "@/pages/BookingCancelled";
+import { RentalNotice } from "@/pages/RentalNotice";
+import { DriverInvite } from "@/pages/DriverInvite";
 import { ErrorFallback } from "@/components/layout";
 import { AuthCallback } from "./pages/AuthCallback";
 import { ScrollToTop } from "./utils/ScrollToTop";
+import { ReferralCapture } from "./utils/ReferralCapture";
 
 function App() {
   return (
@@ -46,6 +49,7 @@ function App() {
       <AuthProvider>
         <Router>
           <ScrollToTop />
+          <ReferralCapture />
           <Routes>
             <Route path="/" element={<Home />} />
             <Route path="/auth/callback" element={<AuthCallback />} />
@@ -56,6 +60,8 @@ function App() {
             <Route path="/privacy-policy" element={<PrivacyPolicy />} />
             <Route path="/booking-success" element={<BookingSuccess />} />
             <Route path="/booking-cancelled" element={<BookingCancelled />} />
+            <Route path="/rental-notice" element={<RentalNotice />} />
+            <Route path="/driver-invite" element={<DriverInvite />} />
           </Routes>
         </Router>
       </AuthProvider>
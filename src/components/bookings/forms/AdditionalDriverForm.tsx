@@ -2,6 +2,16 @@ import React, { useCallback, useMemo, useId } from "react";
 import { toBusinessDateString } from "@/utils/dates";
 import { Trash2, Plus } from "lucide-react";
 import { Card } from "@/components/ui";
+import { useBookingConfig, useDriverConfig } from "@/hooks/useConfig";
+import {
+  LICENSE_COUNTRIES,
+  licenseExpiryWarning,
+} from "@/services/drivers/driverEligibility";
+import type { DriverEligibility } from "@/services/drivers/driverEligibility";
+import { savedDriverFields } from "@/services/users/savedDriverService";
+import type { SavedDriver } from "@/types";
+import { DriverEligibilityNotice } from "./DriverEligibilityNotice";
+import { SavedDriverPicker } from "./SavedDriverPicker";
 
 // ============================================
 // TYPES
@@ -13,11 +23,17 @@ export interface AdditionalDriverData {
   phone: string;
   dateOfBirth: string;
   driversLicenseNumber: string;
+  /** Issuing country (ISO alpha-2, "OTHER" for unlisted ones) */
+  licenseCountry: string;
+  /** YYYY-MM-DD, optional; flagged when it's before the return date */
+  licenseExpiry: string;
   streetAddress: string;
   city: string;
   state: string;
   zipCode: string;
   sameAddressAsPrimary: boolean;
+  /** Email the driver a link to add their own license and address */
+  inviteByEmail: boolean;
 }
 
 interface AdditionalDriverFormProps {
@@ -29,12 +45,21 @@ interface AdditionalDriverFormProps {
     field: keyof AdditionalDriverData,
     value: string | boolean,
   ) => void;
+  /** Per-driver age and license checks at pickup, in the same order */
+  eligibility?: DriverEligibility[];
+  /** Rental return date, to flag a license that expires mid-rental */
+  returnDate?: string;
+  /** Drivers saved on the customer's account, for one-click autofill */
+  savedDrivers?: SavedDriver[];
   disabled?: boolean;
 }
 
 interface DriverCardProps {
   driver: AdditionalDriverData;
   index: number;
+  eligibility?: DriverEligibility;
+  returnDate: string;
+  savedDrivers: SavedDriver[];
   baseId: string;
   maxDateOfBirth: string;
   onRemove: (index: number) => void;
@@ -49,7 +74,6 @@ interface DriverCardProps {
 // ============================================
 // CONSTANTS
 // ============================================
-const ADDITIONAL_DRIVER_FEE = 50;
 const STATE_MAX_LENGTH = 2;
 const ZIP_MAX_LENGTH = 5;
 
@@ -62,6 +86,9 @@ const INPUT_BASE_CLASSES =
 const DriverCard: React.FC<DriverCardProps> = ({
   driver,
   index,
+  eligibility,
+  returnDate,
+  savedDrivers,
   baseId,
   maxDateOfBirth,
   onRemove,
@@ -72,6 +99,13 @@ const DriverCard: React.FC<DriverCardProps> = ({
   const cardId = `${baseId}-driver-${index}`;
   const headingId = `${cardId}-heading`;
   const sameAddressId = `${cardId}-same-address`;
+  const inviteId = `${cardId}-invite`;
+  const inviteHintId = `${cardId}-invite-hint`;
+
+  const licenseWarning = useMemo(
+    () => licenseExpiryWarning(driver.licenseExpiry, returnDate),
+    [driver.licenseExpiry, returnDate],
+  );
 
   // ============================================
   // HANDLERS
@@ -122,6 +156,36 @@ const DriverCard: React.FC<DriverCardProps> = ({
     [onChange, index],
   );
 
+  const handleLicenseCountryChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      onChange(index, "licenseCountry", e.target.value);
+    },
+    [onChange, index],
+  );
+
+  const handleLicenseExpiryChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      onChange(index, "licenseExpiry", e.target.value);
+    },
+    [onChange, index],
+  );
+
+  const handleSavedDriverSelect = useCallback(
+    (saved: SavedDriver) => {
+      savedDriverFields(saved).forEach(([field, value]) => {
+        onChange(index, field, value);
+      });
+    },
+    [onChange, index],
+  );
+
+  const handleInviteChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      onChange(index, "inviteByEmail", e.target.checked);
+    },
+    [onChange, index],
+  );
+
   const handleSameAddressChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       onChange(index, "sameAddressAsPrimary", e.target.checked);
@@ -181,6 +245,15 @@ const DriverCard: React.FC<DriverCardProps> = ({
         </button>
       </div>
 
+      {!driver.inviteByEmail && (
+        <SavedDriverPicker
+          drivers={savedDrivers}
+          selectedLicense={driver.driversLicenseNumber}
+          onSelect={handleSavedDriverSelect}
+          disabled={disabled}
+        />
+      )}
+
       {/* Name Fields */}
       <fieldset className="grid md:grid-cols-2 gap-4">
         <legend className="sr-only">Name for driver {driverNumber}</legend>
@@ -239,155 +312,228 @@ const DriverCard: React.FC<DriverCardProps> = ({
             required
           />
         </div>
-        <div>
-          <label htmlFor={`${cardId}-phone`} className="sr-only">
-            Phone
-          </label>
-          <input
-            id={`${cardId}-phone`}
-            type="tel"
-            value={driver.phone}
-            onChange={handlePhoneChange}
-            disabled={disabled}
-            className={INPUT_BASE_CLASSES}
-            placeholder="Phone"
-            autoComplete="tel"
-            required
-          />
-        </div>
+        {!driver.inviteByEmail && (
+          <div>
+            <label htmlFor={`${cardId}-phone`} className="sr-only">
+              Phone
+            </label>
+            <input
+              id={`${cardId}-phone`}
+              type="tel"
+              value={driver.phone}
+              onChange={handlePhoneChange}
+              disabled={disabled}
+              className={INPUT_BASE_CLASSES}
+              placeholder="Phone"
+              autoComplete="tel"
+              required
+            />
+          </div>
+        )}
       </fieldset>
 
-      {/* DOB & License */}
-      <fieldset className="grid md:grid-cols-2 gap-4">
-        <legend className="sr-only">
-          Date of birth and license for driver {driverNumber}
-        </legend>
-        <div>
-          <label htmlFor={`${cardId}-dob`} className="sr-only">
-            Date of Birth
-          </label>
+      {/* Invite Checkbox */}
+      <div>
+        <div className="flex items-center gap-2">
           <input
-            id={`${cardId}-dob`}
-            type="date"
-            value={driver.dateOfBirth}
-            onChange={handleDateOfBirthChange}
-            max={maxDateOfBirth}
+            type="checkbox"
+            id={inviteId}
+            checked={driver.inviteByEmail}
+            onChange={handleInviteChange}
             disabled={disabled}
-            className={INPUT_BASE_CLASSES}
-            autoComplete="bday"
-            required
+            aria-describedby={driver.inviteByEmail ? inviteHintId : undefined}
+            className="w-4 h-4 text-gray-900 border-gray-300 rounded focus:ring-gray-900 focus:ring-offset-0"
           />
-        </div>
-        <div>
-          <label htmlFor={`${cardId}-license`} className="sr-only">
-            Driver's License Number
+          <label
+            htmlFor={inviteId}
+            className="text-sm text-gray-700 cursor-pointer select-none"
+          >
+            Invite by email instead
           </label>
-          <input
-            id={`${cardId}-license`}
-            type="text"
-            value={driver.driversLicenseNumber}
-            onChange={handleLicenseNumberChange}
-            disabled={disabled}
-            className={`${INPUT_BASE_CLASSES} uppercase`}
-            placeholder="License Number"
-            autoComplete="off"
-            required
-          />
         </div>
-      </fieldset>
-
-      {/* Same Address Checkbox */}
-      <div className="flex items-center gap-2 py-2">
-        <input
-          type="checkbox"
-          id={sameAddressId}
-          checked={driver.sameAddressAsPrimary}
-          onChange={handleSameAddressChange}
-          disabled={disabled}
-          className="w-4 h-4 text-gray-900 border-gray-300 rounded focus:ring-gray-900 focus:ring-offset-0"
-        />
-        <label
-          htmlFor={sameAddressId}
-          className="text-sm text-gray-700 cursor-pointer select-none"
-        >
-          Same address as primary driver
-        </label>
+        {driver.inviteByEmail && (
+          <p id={inviteHintId} className="text-xs text-gray-500 mt-1 ml-6">
+            Once you've paid we'll email {driver.firstName || "this driver"} a
+            link to add their license and address, accept the rental terms and
+            verify their ID before pickup.
+          </p>
+        )}
       </div>
 
-      {/* Address Fields */}
-      <fieldset
-        className="space-y-4"
-        disabled={driver.sameAddressAsPrimary || disabled}
-      >
-        <legend className="sr-only">Address for driver {driverNumber}</legend>
-        <div>
-          <label htmlFor={`${cardId}-street`} className="sr-only">
-            Street Address
-          </label>
-          <input
-            id={`${cardId}-street`}
-            type="text"
-            value={driver.streetAddress}
-            onChange={handleStreetAddressChange}
-            className={INPUT_BASE_CLASSES}
-            placeholder="Street Address"
-            autoComplete="street-address"
-            required={!driver.sameAddressAsPrimary}
+      {!driver.inviteByEmail && (
+        <>
+          {/* DOB & License */}
+          <fieldset className="grid md:grid-cols-2 gap-4">
+            <legend className="sr-only">
+              Date of birth and license for driver {driverNumber}
+            </legend>
+            <div>
+              <label htmlFor={`${cardId}-dob`} className="sr-only">
+                Date of Birth
+              </label>
+              <input
+                id={`${cardId}-dob`}
+                type="date"
+                value={driver.dateOfBirth}
+                onChange={handleDateOfBirthChange}
+                max={maxDateOfBirth}
+                disabled={disabled}
+                className={INPUT_BASE_CLASSES}
+                autoComplete="bday"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor={`${cardId}-license`} className="sr-only">
+                Driver's License Number
+              </label>
+              <input
+                id={`${cardId}-license`}
+                type="text"
+                value={driver.driversLicenseNumber}
+                onChange={handleLicenseNumberChange}
+                disabled={disabled}
+                className={`${INPUT_BASE_CLASSES} uppercase`}
+                placeholder="License Number"
+                autoComplete="off"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor={`${cardId}-license-country`} className="sr-only">
+                License Issued In
+              </label>
+              <select
+                id={`${cardId}-license-country`}
+                value={driver.licenseCountry}
+                onChange={handleLicenseCountryChange}
+                disabled={disabled}
+                className={`${INPUT_BASE_CLASSES} bg-white`}
+              >
+                {LICENSE_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    License issued in {country.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`${cardId}-license-expiry`} className="sr-only">
+                License Expiry (optional)
+              </label>
+              <input
+                id={`${cardId}-license-expiry`}
+                type="date"
+                value={driver.licenseExpiry}
+                onChange={handleLicenseExpiryChange}
+                disabled={disabled}
+                className={INPUT_BASE_CLASSES}
+                title="License expiry (optional)"
+                autoComplete="off"
+              />
+            </div>
+          </fieldset>
+
+          <DriverEligibilityNotice
+            eligibility={eligibility}
+            hasDateOfBirth={driver.dateOfBirth !== ""}
+            licenseWarning={licenseWarning}
           />
-        </div>
 
-        <div className="grid md:grid-cols-3 gap-4">
-          <div>
-            <label htmlFor={`${cardId}-city`} className="sr-only">
-              City
-            </label>
-            <input
-              id={`${cardId}-city`}
-              type="text"
-              value={driver.city}
-              onChange={handleCityChange}
-              className={INPUT_BASE_CLASSES}
-              placeholder="City"
-              autoComplete="address-level2"
-              required={!driver.sameAddressAsPrimary}
-            />
-          </div>
-          <div>
-            <label htmlFor={`${cardId}-state`} className="sr-only">
-              State
-            </label>
+          {/* Same Address Checkbox */}
+          <div className="flex items-center gap-2 py-2">
             <input
-              id={`${cardId}-state`}
-              type="text"
-              value={driver.state}
-              onChange={handleStateChange}
-              className={`${INPUT_BASE_CLASSES} uppercase`}
-              placeholder="State"
-              maxLength={STATE_MAX_LENGTH}
-              autoComplete="address-level1"
-              required={!driver.sameAddressAsPrimary}
+              type="checkbox"
+              id={sameAddressId}
+              checked={driver.sameAddressAsPrimary}
+              onChange={handleSameAddressChange}
+              disabled={disabled}
+              className="w-4 h-4 text-gray-900 border-gray-300 rounded focus:ring-gray-900 focus:ring-offset-0"
             />
-          </div>
-          <div>
-            <label htmlFor={`${cardId}-zip`} className="sr-only">
-              ZIP Code
+            <label
+              htmlFor={sameAddressId}
+              className="text-sm text-gray-700 cursor-pointer select-none"
+            >
+              Same address as primary driver
             </label>
-            <input
-              id={`${cardId}-zip`}
-              type="text"
-              value={driver.zipCode}
-              onChange={handleZipCodeChange}
-              className={INPUT_BASE_CLASSES}
-              placeholder="ZIP Code"
-              maxLength={ZIP_MAX_LENGTH}
-              autoComplete="postal-code"
-              inputMode="numeric"
-              pattern="[0-9]*"
-              required={!driver.sameAddressAsPrimary}
-            />
           </div>
-        </div>
-      </fieldset>
+
+          {/* Address Fields */}
+          <fieldset
+            className="space-y-4"
+            disabled={driver.sameAddressAsPrimary || disabled}
+          >
+            <legend className="sr-only">Address for driver {driverNumber}</legend>
+            <div>
+              <label htmlFor={`${cardId}-street`} className="sr-only">
+                Street Address
+              </label>
+              <input
+                id={`${cardId}-street`}
+                type="text"
+                value={driver.streetAddress}
+                onChange={handleStreetAddressChange}
+                className={INPUT_BASE_CLASSES}
+                placeholder="Street Address"
+                autoComplete="street-address"
+                required={!driver.sameAddressAsPrimary}
+              />
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor={`${cardId}-city`} className="sr-only">
+                  City
+                </label>
+                <input
+                  id={`${cardId}-city`}
+                  type="text"
+                  value={driver.city}
+                  onChange={handleCityChange}
+                  className={INPUT_BASE_CLASSES}
+                  placeholder="City"
+                  autoComplete="address-level2"
+                  required={!driver.sameAddressAsPrimary}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${cardId}-state`} className="sr-only">
+                  State
+                </label>
+                <input
+                  id={`${cardId}-state`}
+                  type="text"
+                  value={driver.state}
+                  onChange={handleStateChange}
+                  className={`${INPUT_BASE_CLASSES} uppercase`}
+                  placeholder="State"
+                  maxLength={STATE_MAX_LENGTH}
+                  autoComplete="address-level1"
+                  required={!driver.sameAddressAsPrimary}
+                />
+              </div>
+              <div>
+                <label htmlFor={`${cardId}-zip`} className="sr-only">
+                  ZIP Code
+                </label>
+                <input
+                  id={`${cardId}-zip`}
+                  type="text"
+                  value={driver.zipCode}
+                  onChange={handleZipCodeChange}
+                  className={INPUT_BASE_CLASSES}
+                  placeholder="ZIP Code"
+                  maxLength={ZIP_MAX_LENGTH}
+                  autoComplete="postal-code"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  required={!driver.sameAddressAsPrimary}
+                />
+              </div>
+            </div>
+          </fieldset>
+        </>
+      )}
     </Card>
   );
 };
@@ -400,9 +546,15 @@ export const AdditionalDriverForm: React.FC<AdditionalDriverFormProps> = ({
   onAdd,
   onRemove,
   onChange,
+  eligibility,
+  returnDate = "",
+  savedDrivers = [],
   disabled = false,
 }) => {
   const baseId = useId();
+  const { additionalDriverFee } = useBookingConfig();
+  const { maxAdditionalDrivers } = useDriverConfig();
+  const atLimit = drivers.length >= maxAdditionalDrivers;
 
   // Memoize max date (today) for date of birth
   const maxDateOfBirth = useMemo(() => {
@@ -427,6 +579,9 @@ export const AdditionalDriverForm: React.FC<AdditionalDriverFormProps> = ({
               <DriverCard
                 driver={driver}
                 index={index}
+                eligibility={eligibility?.[index]}
+                returnDate={returnDate}
+                savedDrivers={savedDrivers}
                 baseId={baseId}
                 maxDateOfBirth={maxDateOfBirth}
                 onRemove={onRemove}
@@ -441,12 +596,16 @@ export const AdditionalDriverForm: React.FC<AdditionalDriverFormProps> = ({
       <button
         type="button"
         onClick={handleAdd}
-        disabled={disabled}
-        aria-label={`Add another driver for $${ADDITIONAL_DRIVER_FEE}`}
+        disabled={disabled || atLimit}
+        aria-label={`Add another driver for $${additionalDriverFee}`}
         className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-gray-600 hover:border-gray-400 hover:text-gray-700 transition-colors flex items-center justify-center gap-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         <Plus className="w-4 h-4" aria-hidden="true" />
-        <span>Add Another Driver (+${ADDITIONAL_DRIVER_FEE})</span>
+        <span>
+          {atLimit
+            ? `Up to ${maxAdditionalDrivers} additional drivers`
+            : `Add Another Driver (+$${additionalDriverFee})`}
+        </span>
       </button>
     </div>
   );
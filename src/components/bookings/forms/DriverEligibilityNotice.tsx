@@ -0,0 +1,100 @@
+import React from "react";
+import { AlertCircle, CalendarX, Info } from "lucide-react";
+import {
+  DATE_OF_BIRTH_REQUIRED_REASON,
+  YOUNG_DRIVER_TIER_LABELS,
+} from "@/services/drivers/driverEligibility";
+import type { DriverEligibility } from "@/services/drivers/driverEligibility";
+
+// ============================================
+// TYPES
+// ============================================
+interface DriverEligibilityNoticeProps {
+  eligibility: DriverEligibility | undefined;
+  /** Don't ask for a date of birth the customer hasn't reached yet */
+  hasDateOfBirth: boolean;
+  /** License runs out before the return date (licenseExpiryWarning) */
+  licenseWarning?: string | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Why a driver can't drive this rental, or the young driver surcharge they add
+ */
+export const DriverEligibilityNotice: React.FC<
+  DriverEligibilityNoticeProps
+> = ({ eligibility, hasDateOfBirth, licenseWarning }) => {
+  const expiryNotice = licenseWarning ? (
+    <div
+      className="flex items-start gap-2 bg-amber-50 text-amber-800 p-3 rounded-lg text-sm"
+      role="alert"
+    >
+      <CalendarX className="w-4 h-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+      <p>{licenseWarning}</p>
+    </div>
+  ) : null;
+
+  if (!eligibility) return expiryNotice;
+
+  const reasons = hasDateOfBirth
+    ? eligibility.reasons
+    : eligibility.reasons.filter(
+        (reason) => reason !== DATE_OF_BIRTH_REQUIRED_REASON
+      );
+
+  if (reasons.length > 0) {
+    return (
+      <>
+        <div
+          className="flex items-start gap-2 bg-red-50 text-red-700 p-3 rounded-lg text-sm"
+          role="alert"
+        >
+          <AlertCircle
+            className="w-4 h-4 flex-shrink-0 mt-0.5"
+            aria-hidden="true"
+          />
+          <ul className="space-y-1">
+            {reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        </div>
+        {expiryNotice}
+      </>
+    );
+  }
+
+  if (eligibility.tier && eligibility.fee > 0) {
+    const tierLabel = YOUNG_DRIVER_TIER_LABELS[eligibility.tier];
+
+    return (
+      <>
+        <div className="flex items-start gap-2 bg-amber-50 text-amber-800 p-3 rounded-lg text-sm">
+          <Info className="w-4 h-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <p>
+            Young driver surcharge ({tierLabel}):{" "}
+            {formatCurrency(eligibility.fee)} for this rental
+          </p>
+        </div>
+        {expiryNotice}
+      </>
+    );
+  }
+
+  return expiryNotice;
+};
+
+export default DriverEligibilityNotice;
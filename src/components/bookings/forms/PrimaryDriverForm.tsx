@@ -1,7 +1,24 @@
 import React, { useMemo, useCallback, useId } from "react";
 import { toBusinessDateString } from "@/utils/dates";
-import { User, Mail, Phone, Calendar, CreditCard, MapPin } from "lucide-react";
-import { Input } from "@/components/ui";
+import {
+  User,
+  Mail,
+  Phone,
+  Calendar,
+  CalendarClock,
+  CreditCard,
+  MapPin,
+} from "lucide-react";
+import { Input, Select } from "@/components/ui";
+import {
+  LICENSE_COUNTRIES,
+  licenseExpiryWarning,
+} from "@/services/drivers/driverEligibility";
+import type { DriverEligibility } from "@/services/drivers/driverEligibility";
+import { savedDriverFields } from "@/services/users/savedDriverService";
+import type { SavedDriver } from "@/types";
+import { DriverEligibilityNotice } from "./DriverEligibilityNotice";
+import { SavedDriverPicker } from "./SavedDriverPicker";
 
 // ============================================
 // TYPES
@@ -13,6 +30,10 @@ export interface PrimaryDriverData {
   phone: string;
   dateOfBirth: string;
   driversLicenseNumber: string;
+  /** Issuing country (ISO alpha-2, "OTHER" for unlisted ones) */
+  licenseCountry: string;
+  /** YYYY-MM-DD, optional; flagged when it's before the return date */
+  licenseExpiry: string;
   streetAddress: string;
   city: string;
   state: string;
@@ -22,6 +43,12 @@ export interface PrimaryDriverData {
 interface PrimaryDriverFormProps {
   data: PrimaryDriverData;
   onChange: (field: keyof PrimaryDriverData, value: string) => void;
+  /** Age and license check at pickup, from useDriverEligibility */
+  eligibility?: DriverEligibility;
+  /** Rental return date, to flag a license that expires mid-rental */
+  returnDate?: string;
+  /** Drivers saved on the customer's account, for one-click autofill */
+  savedDrivers?: SavedDriver[];
   disabled?: boolean;
 }
 
@@ -31,12 +58,20 @@ interface PrimaryDriverFormProps {
 const STATE_MAX_LENGTH = 2;
 const ZIP_MAX_LENGTH = 5;
 
+const LICENSE_COUNTRY_OPTIONS = LICENSE_COUNTRIES.map((country) => ({
+  value: country.code,
+  label: country.label,
+}));
+
 // ============================================
 // COMPONENT
 // ============================================
 export const PrimaryDriverForm: React.FC<PrimaryDriverFormProps> = ({
   data,
   onChange,
+  eligibility,
+  returnDate = "",
+  savedDrivers = [],
   disabled = false,
 }) => {
   // Generate unique IDs for accessibility
@@ -48,6 +83,11 @@ export const PrimaryDriverForm: React.FC<PrimaryDriverFormProps> = ({
     return toBusinessDateString();
   }, []);
 
+  const licenseWarning = useMemo(
+    () => licenseExpiryWarning(data.licenseExpiry, returnDate),
+    [data.licenseExpiry, returnDate],
+  );
+
   // ============================================
   // HANDLERS - Memoized to prevent unnecessary re-renders
   // ============================================
@@ -93,6 +133,29 @@ export const PrimaryDriverForm: React.FC<PrimaryDriverFormProps> = ({
     [onChange],
   );
 
+  const handleLicenseCountryChange = useCallback(
+    (value: string) => {
+      onChange("licenseCountry", value);
+    },
+    [onChange],
+  );
+
+  const handleLicenseExpiryChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      onChange("licenseExpiry", e.target.value);
+    },
+    [onChange],
+  );
+
+  const handleSavedDriverSelect = useCallback(
+    (driver: SavedDriver) => {
+      savedDriverFields(driver).forEach(([field, value]) => {
+        onChange(field, value);
+      });
+    },
+    [onChange],
+  );
+
   const handleStreetAddressChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       onChange("streetAddress", e.target.value);
@@ -130,6 +193,13 @@ export const PrimaryDriverForm: React.FC<PrimaryDriverFormProps> = ({
         Primary Driver Information
       </legend>
 
+      <SavedDriverPicker
+        drivers={savedDrivers}
+        selectedLicense={data.driversLicenseNumber}
+        onSelect={handleSavedDriverSelect}
+        disabled={disabled}
+      />
+
       {/* Name Fields */}
       <div className="grid md:grid-cols-2 gap-6">
         <Input
@@ -208,6 +278,31 @@ export const PrimaryDriverForm: React.FC<PrimaryDriverFormProps> = ({
         />
       </div>
 
+      <div className="grid md:grid-cols-2 gap-6">
+        <Select
+          label="License Issued In"
+          value={data.licenseCountry}
+          onChange={handleLicenseCountryChange}
+          options={LICENSE_COUNTRY_OPTIONS}
+          disabled={disabled}
+        />
+        <Input
+          type="date"
+          label="License Expiry (optional)"
+          icon={<CalendarClock className="w-5 h-5" aria-hidden="true" />}
+          value={data.licenseExpiry}
+          onChange={handleLicenseExpiryChange}
+          autoComplete="off"
+          disabled={disabled}
+        />
+      </div>
+
+      <DriverEligibilityNotice
+        eligibility={eligibility}
+        hasDateOfBirth={data.dateOfBirth !== ""}
+        licenseWarning={licenseWarning}
+      />
+
       {/* Address Section */}
       <div className="space-y-6">
         <Input
@@ -0,0 +1,63 @@
+import React from "react";
+import { BookUser } from "lucide-react";
+import type { SavedDriver } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface SavedDriverPickerProps {
+  drivers: SavedDriver[];
+  /** License number already in the form, to mark the matching driver */
+  selectedLicense?: string;
+  onSelect: (driver: SavedDriver) => void;
+  disabled?: boolean;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * One-click autofill from the drivers saved on the customer's account
+ */
+export const SavedDriverPicker: React.FC<SavedDriverPickerProps> = ({
+  drivers,
+  selectedLicense,
+  onSelect,
+  disabled = false,
+}) => {
+  if (drivers.length === 0) return null;
+
+  const selected = selectedLicense?.trim().toUpperCase();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-xs text-gray-500">
+        <BookUser className="w-4 h-4" aria-hidden="true" />
+        Saved drivers:
+      </span>
+      {drivers.map((driver) => {
+        const isSelected = driver.driversLicenseNumber === selected;
+
+        return (
+          <button
+            key={driver.id}
+            type="button"
+            onClick={() => onSelect(driver)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            className={`text-xs px-3 py-1 rounded-full border transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 focus-visible:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed ${
+              isSelected
+                ? "bg-gray-900 border-gray-900 text-white"
+                : "bg-white border-gray-200 text-gray-700 hover:border-gray-400"
+            }`}
+          >
+            {driver.firstName} {driver.lastName}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SavedDriverPicker;
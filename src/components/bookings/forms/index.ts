@@ -1,5 +1,7 @@
 export { PrimaryDriverForm } from "./PrimaryDriverForm";
 export { AdditionalDriverForm } from "./AdditionalDriverForm";
+export { DriverEligibilityNotice } from "./DriverEligibilityNotice";
+export { SavedDriverPicker } from "./SavedDriverPicker";
 
 export type { PrimaryDriverData } from "./PrimaryDriverForm";
 export type { AdditionalDriverData } from "./AdditionalDriverForm";
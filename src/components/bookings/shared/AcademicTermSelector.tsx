@@ -0,0 +1,227 @@
+import React, { useCallback, useId, useMemo, useState } from "react";
+import { CalendarRange, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui";
+import { useAcademicTerms } from "@/hooks/useAcademicTerms";
+import { useBookingConfig } from "@/hooks/useConfig";
+import type { AcademicTerm, VehicleTermAvailability } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface AcademicTermSelectorProps {
+  vehicleId: string;
+  selectedTermId: string | null;
+  /** Called with the chosen term, or null to pick dates by hand */
+  onSelect: (term: AcademicTerm | null) => void;
+}
+
+interface TermButtonProps {
+  term: VehicleTermAvailability;
+  isSelected: boolean;
+  /** Date booking opens, when the term starts past the advance window */
+  opensOn: string | null;
+  onSelect: () => void;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function formatDisplayDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * First day the term can be booked, or null if it already can
+ */
+function getBookingOpensOn(
+  startDate: string,
+  maxAdvanceDays: number
+): string | null {
+  const opens = new Date(`${startDate}T00:00:00`);
+  opens.setDate(opens.getDate() - maxAdvanceDays);
+  return opens > new Date() ? opens.toISOString().split("T")[0] : null;
+}
+
+function getTermHint(
+  term: VehicleTermAvailability,
+  opensOn: string | null
+): string {
+  if (!term.available) return "Not available for this vehicle";
+  if (opensOn) return `Booking opens ${formatDisplayDate(opensOn)}`;
+  return `${formatDisplayDate(term.startDate)} → ${formatDisplayDate(
+    term.endDate
+  )}`;
+}
+
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+const TermButton: React.FC<TermButtonProps> = ({
+  term,
+  isSelected,
+  opensOn,
+  onSelect,
+}) => (
+  <button
+    type="button"
+    role="radio"
+    aria-checked={isSelected}
+    onClick={onSelect}
+    disabled={!term.available || !!opensOn}
+    className={`w-full p-3 rounded-xl border-2 transition-all text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+      isSelected
+        ? "border-gray-900 bg-gray-50"
+        : "border-gray-200 hover:border-gray-300"
+    }`}
+  >
+    <p
+      className={`font-medium text-sm ${
+        isSelected ? "text-gray-900" : "text-gray-600"
+      }`}
+    >
+      {term.name}
+    </p>
+    <p className="text-xs text-gray-500 mt-0.5">
+      {getTermHint(term, opensOn)}
+    </p>
+  </button>
+);
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+export const AcademicTermSelector: React.FC<AcademicTermSelectorProps> = ({
+  vehicleId,
+  selectedTermId,
+  onSelect,
+}) => {
+  const baseId = useId();
+  const labelId = `${baseId}-label`;
+
+  const { terms, loading, error } = useAcademicTerms(vehicleId);
+  const { maxAdvanceDays } = useBookingConfig();
+
+  const schools = useMemo(
+    () => Array.from(new Set(terms.map((term) => term.schoolName))).sort(),
+    [terms]
+  );
+
+  const [school, setSchool] = useState("");
+  const selectedSchool =
+    terms.find((term) => term.id === selectedTermId)?.schoolName ||
+    school ||
+    schools[0] ||
+    "";
+
+  const schoolTerms = useMemo(
+    () => terms.filter((term) => term.schoolName === selectedSchool),
+    [terms, selectedSchool]
+  );
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleSchoolChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setSchool(e.target.value);
+      onSelect(null);
+    },
+    [onSelect]
+  );
+
+  const renderTerms = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading semester dates...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <p className="text-sm text-red-600 py-2" role="alert">
+          {error}
+        </p>
+      );
+    }
+
+    if (terms.length === 0) {
+      return (
+        <p className="text-sm text-gray-500 py-2">
+          No upcoming terms are open for booking. Choose your own dates below.
+        </p>
+      );
+    }
+
+    return (
+      <>
+        {schools.length > 1 && (
+          <select
+            value={selectedSchool}
+            onChange={handleSchoolChange}
+            aria-label="School"
+            className="w-full px-3 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent bg-white text-sm"
+          >
+            {schools.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        <div
+          role="radiogroup"
+          aria-labelledby={labelId}
+          className="grid sm:grid-cols-2 gap-3"
+        >
+          {schoolTerms.map((term) => (
+            <TermButton
+              key={term.id}
+              term={term}
+              isSelected={selectedTermId === term.id}
+              opensOn={getBookingOpensOn(term.startDate, maxAdvanceDays)}
+              onSelect={() => onSelect(term)}
+            />
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <Card variant="default" padding="md">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-blue-600" aria-hidden="true" />
+          <h4 id={labelId} className="font-medium text-gray-900">
+            Rent for a semester
+          </h4>
+        </div>
+        <p className="text-sm text-gray-500">
+          Pick your school's term and we'll set pickup and return to its first
+          and last day.
+        </p>
+
+        {renderTerms()}
+
+        {selectedTermId && (
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="text-xs text-gray-600 underline hover:text-gray-900"
+          >
+            Choose my own dates instead
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default AcademicTermSelector;
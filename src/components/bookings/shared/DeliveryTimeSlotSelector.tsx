@@ -1,146 +1,176 @@
 import React, { useCallback, useId } from "react";
-import { Clock, Sun, Sunset, Moon } from "lucide-react";
+import { Clock, Loader2 } from "lucide-react";
+import { useDeliverySlots } from "@/hooks/useDeliverySlots";
+import type { DeliveryTimeSlot } from "@/types";
 
 // ============================================
 // TYPES
 // ============================================
-export type DeliveryTimeSlot = "morning" | "afternoon" | "evening";
-
-interface TimeSlotOption {
-  id: DeliveryTimeSlot;
-  icon: React.FC<{ className?: string }>;
-  label: string;
-  timeRange: string;
-}
-
 interface DeliveryTimeSlotSelectorProps {
+  locationId: string;
+  /** Pickup date, YYYY-MM-DD or datetime-local (empty until chosen) */
+  date: string;
   selectedSlot: string | null;
   onSelect: (slot: string) => void;
   disabled?: boolean;
+  /** Heading, e.g. for a vehicle collection rather than a delivery */
+  label?: string;
 }
 
 interface SlotButtonProps {
-  option: TimeSlotOption;
+  slot: DeliveryTimeSlot;
   isSelected: boolean;
   onSelect: () => void;
   disabled?: boolean;
 }
 
 // ============================================
-// CONSTANTS
+// HELPERS
 // ============================================
-const TIME_SLOT_OPTIONS: TimeSlotOption[] = [
-  {
-    id: "morning",
-    icon: Sun,
-    label: "Morning",
-    timeRange: "9:00 AM - 12:00 PM",
-  },
-  {
-    id: "afternoon",
-    icon: Sunset,
-    label: "Afternoon",
-    timeRange: "12:00 PM - 5:00 PM",
-  },
-  {
-    id: "evening",
-    icon: Moon,
-    label: "Evening",
-    timeRange: "5:00 PM - 8:00 PM",
-  },
-] as const;
+function getSlotHint(slot: DeliveryTimeSlot): string {
+  if (!slot.available) {
+    return slot.reason === "Fully booked" ? "Full" : "Unavailable";
+  }
+  return slot.remaining === 1 ? "1 spot left" : `${slot.remaining} spots left`;
+}
 
 // ============================================
 // SUB-COMPONENTS
 // ============================================
 const SlotButton: React.FC<SlotButtonProps> = ({
-  option,
+  slot,
   isSelected,
   onSelect,
   disabled = false,
-}) => {
-  const Icon = option.icon;
-
-  return (
-    <button
-      type="button"
-      role="radio"
-      aria-checked={isSelected}
-      onClick={onSelect}
-      disabled={disabled}
-      className={`p-3 rounded-xl border-2 transition-all text-center focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
-        isSelected
-          ? "border-gray-900 bg-gray-50"
-          : "border-gray-200 hover:border-gray-300"
+}) => (
+  <button
+    type="button"
+    role="radio"
+    aria-checked={isSelected}
+    aria-label={`${slot.label}, ${slot.reason || getSlotHint(slot)}`}
+    onClick={onSelect}
+    disabled={disabled || !slot.available}
+    title={slot.reason}
+    className={`p-3 rounded-xl border-2 transition-all text-center focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+      isSelected
+        ? "border-gray-900 bg-gray-50"
+        : "border-gray-200 hover:border-gray-300"
+    }`}
+  >
+    <p
+      className={`font-medium text-sm ${
+        isSelected ? "text-gray-900" : "text-gray-600"
       }`}
     >
-      <Icon
-        className={`w-5 h-5 mx-auto mb-1.5 ${
-          isSelected ? "text-gray-900" : "text-gray-400"
-        }`}
-        aria-hidden="true"
-      />
-      <p
-        className={`font-medium text-sm ${
-          isSelected ? "text-gray-900" : "text-gray-600"
-        }`}
-      >
-        {option.label}
-      </p>
-      <p className="text-xs text-gray-500 mt-0.5">{option.timeRange}</p>
-    </button>
-  );
-};
+      {slot.label}
+    </p>
+    <p className="text-xs text-gray-500 mt-0.5">{getSlotHint(slot)}</p>
+  </button>
+);
 
 // ============================================
 // MAIN COMPONENT
 // ============================================
 export const DeliveryTimeSlotSelector: React.FC<
   DeliveryTimeSlotSelectorProps
-> = ({ selectedSlot, onSelect, disabled = false }) => {
+> = ({
+  locationId,
+  date,
+  selectedSlot,
+  onSelect,
+  disabled = false,
+  label = "Preferred Delivery Time",
+}) => {
   const baseId = useId();
   const labelId = `${baseId}-label`;
   const hintId = `${baseId}-hint`;
 
+  const { slots, unavailableReason, loading, error } = useDeliverySlots(
+    locationId,
+    date
+  );
+
   // ============================================
   // HANDLERS
   // ============================================
   const handleSelect = useCallback(
-    (slotId: DeliveryTimeSlot) => {
-      onSelect(slotId);
+    (slot: DeliveryTimeSlot) => {
+      if (slot.available) {
+        onSelect(slot.time);
+      }
     },
     [onSelect]
   );
 
-  return (
-    <div>
-      <div className="flex items-center gap-2 mb-3">
-        <Clock className="w-4 h-4 text-gray-500" aria-hidden="true" />
-        <label id={labelId} className="block text-sm font-medium text-gray-600">
-          Preferred Delivery Time
-        </label>
-      </div>
+  const renderSlots = () => {
+    if (!date) {
+      return (
+        <p className="text-sm text-gray-500 py-2">
+          Select your pickup date to see available delivery times.
+        </p>
+      );
+    }
 
+    if (loading) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-gray-500 py-2">
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading delivery times...
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <p className="text-sm text-red-600 py-2" role="alert">
+          {error}
+        </p>
+      );
+    }
+
+    if (unavailableReason || slots.length === 0) {
+      return (
+        <p className="text-sm text-amber-600 py-2" role="alert">
+          {unavailableReason || "No delivery times are offered on this date."}{" "}
+          Please choose another pickup date.
+        </p>
+      );
+    }
+
+    return (
       <div
         role="radiogroup"
         aria-labelledby={labelId}
         aria-describedby={hintId}
         className="grid grid-cols-3 gap-3"
       >
-        {TIME_SLOT_OPTIONS.map((option) => (
+        {slots.map((slot) => (
           <SlotButton
-            key={option.id}
-            option={option}
-            isSelected={selectedSlot === option.id}
-            onSelect={() => handleSelect(option.id)}
+            key={slot.time}
+            slot={slot}
+            isSelected={selectedSlot === slot.time}
+            onSelect={() => handleSelect(slot)}
             disabled={disabled}
           />
         ))}
       </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <Clock className="w-4 h-4 text-gray-500" aria-hidden="true" />
+        <label id={labelId} className="block text-sm font-medium text-gray-600">
+          {label}
+        </label>
+      </div>
+
+      {renderSlots()}
 
       <p id={hintId} className="text-xs text-gray-500 mt-2">
-        We'll contact you to confirm the exact delivery time within your
-        selected window.
+        Times shown are the start of each delivery window. We'll contact you
+        to confirm the exact arrival time.
       </p>
     </div>
   );
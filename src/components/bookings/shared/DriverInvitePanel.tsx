@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertCircle, CheckCircle, Loader2, ScanFace } from "lucide-react";
+import { Button, Checkbox, Input, Select } from "@/components/ui";
+import { useDriverInvite } from "@/hooks/useDriverInvite";
+import { LICENSE_COUNTRIES } from "@/services/drivers/driverEligibility";
+import { formatCurrency, formatDate } from "@/utils/formatters";
+import { toBusinessDateString } from "@/utils/dates";
+import type {
+  DriverInvite,
+  DriverInviteDetails,
+  IdentityVerificationStatus,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface DriverInvitePanelProps {
+  /** Invite token from the emailed link */
+  token: string;
+  /** Back from Stripe's ID + selfie page */
+  verificationSubmitted?: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const RENTAL_TERMS = [
+  "Only drivers named on the booking may drive the vehicle.",
+  "Bring the same valid driver's license to pickup.",
+  "No smoking, pets or off-road driving.",
+  "The account holder pays for fuel, tolls, tickets and damage, and may recover them from the deposit.",
+];
+
+const LICENSE_COUNTRY_OPTIONS = LICENSE_COUNTRIES.map((country) => ({
+  value: country.code,
+  label: country.label,
+}));
+
+const VERIFY_LABELS: Partial<Record<IdentityVerificationStatus, string>> = {
+  not_started: "Verify Now",
+  pending: "Continue",
+};
+
+const STATE_MAX_LENGTH = 2;
+const ZIP_MAX_LENGTH = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+function verificationMessage(invite: DriverInvite): string {
+  const { verification } = invite;
+
+  if (verification.previouslyVerified) {
+    return "Your ID was verified on an earlier rental, nothing else to do.";
+  }
+  switch (verification.status) {
+    case "verified":
+      return "Your ID is verified. Bring the same license to pickup.";
+    case "processing":
+      return "Stripe is checking your photos. This usually takes a few minutes.";
+    case "failed":
+      return verification.errorReason
+        ? `${verification.errorReason}. Please try again.`
+        : "We couldn't verify your ID. Please try again.";
+    default:
+      return "Take a photo of your license and a selfie so pickup is faster.";
+  }
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+/**
+ * Invited additional driver's details, rental terms and ID check
+ */
+export const DriverInvitePanel: React.FC<DriverInvitePanelProps> = ({
+  token,
+  verificationSubmitted = false,
+}) => {
+  const {
+    invite,
+    loading,
+    submitting,
+    verifying,
+    error,
+    ineligibleReasons,
+    submit,
+    verify,
+  } = useDriverInvite(token);
+
+  const [details, setDetails] = useState<DriverInviteDetails | null>(null);
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  // Start the form from whatever the driver saved before
+  useEffect(() => {
+    if (invite) {
+      setDetails(invite.details);
+      setAcceptTerms(invite.termsAcceptedAt !== null);
+    }
+  }, [invite]);
+
+  const handleFieldChange = useCallback(
+    (field: keyof DriverInviteDetails) =>
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value =
+          field === "state" || field === "driversLicenseNumber"
+            ? e.target.value.toUpperCase()
+            : e.target.value;
+        setDetails((prev) => (prev ? { ...prev, [field]: value } : prev));
+      },
+    []
+  );
+
+  const handleCountryChange = useCallback((value: string) => {
+    setDetails((prev) => (prev ? { ...prev, licenseCountry: value } : prev));
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!details) return;
+
+      const saved = await submit(details, acceptTerms);
+      if (saved) setEditing(false);
+    },
+    [details, acceptTerms, submit]
+  );
+
+  const handleEdit = useCallback(() => {
+    setEditing(true);
+  }, []);
+
+  if (loading && !invite) {
+    return (
+      <div
+        className="flex items-center gap-2 text-sm text-gray-500 px-3 py-2"
+        role="status"
+      >
+        <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+        Loading your invite...
+      </div>
+    );
+  }
+
+  if (!invite || !details) {
+    return error ? (
+      <div
+        className="flex items-center gap-2 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+        role="alert"
+      >
+        <AlertCircle className="w-4 h-4" aria-hidden="true" />
+        <span>{error}</span>
+      </div>
+    ) : null;
+  }
+
+  const submitted = invite.inviteStatus === "submitted";
+  const showForm = invite.canEdit && (!submitted || editing);
+  const verified = invite.verification.status === "verified";
+  const canVerify =
+    invite.canEdit &&
+    submitted &&
+    !verified &&
+    invite.verification.status !== "processing";
+
+  return (
+    <div className="space-y-6">
+      {/* Booking */}
+      <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700 space-y-1">
+        <p>
+          <span className="font-medium text-gray-900">
+            {invite.booking.accountHolderName || "The renter"}
+          </span>{" "}
+          added you, {invite.firstName}, as a driver
+          {invite.booking.vehicleName
+            ? ` on their ${invite.booking.vehicleName} rental`
+            : ""}
+          .
+        </p>
+        <p>
+          {formatDate(invite.booking.pickupDate)} –{" "}
+          {formatDate(invite.booking.returnDate)}
+          {invite.booking.bookingNumber &&
+            ` · Booking ${invite.booking.bookingNumber}`}
+        </p>
+      </div>
+
+      {verificationSubmitted && !verified && (
+        <div
+          className="flex items-center gap-2 text-sm text-green-700 bg-green-50 px-3 py-2 rounded-lg"
+          role="status"
+        >
+          <CheckCircle className="w-4 h-4" aria-hidden="true" />
+          <span>Thanks! Your ID photos are in and being checked.</span>
+        </div>
+      )}
+
+      {/* Details */}
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          <h2 className="text-lg font-semibold text-gray-900">Your details</h2>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <Input
+              label="Phone"
+              type="tel"
+              value={details.phone}
+              onChange={handleFieldChange("phone")}
+              autoComplete="tel"
+              required
+            />
+            <Input
+              label="Date of Birth"
+              type="date"
+              value={details.dateOfBirth}
+              onChange={handleFieldChange("dateOfBirth")}
+              max={toBusinessDateString()}
+              autoComplete="bday"
+              required
+            />
+            <Input
+              label="Driver's License Number"
+              value={details.driversLicenseNumber}
+              onChange={handleFieldChange("driversLicenseNumber")}
+              autoComplete="off"
+              required
+            />
+            <Select
+              label="License Issued In"
+              value={details.licenseCountry}
+              onChange={handleCountryChange}
+              options={LICENSE_COUNTRY_OPTIONS}
+            />
+          </div>
+
+          <Input
+            label="Street Address"
+            value={details.streetAddress}
+            onChange={handleFieldChange("streetAddress")}
+            autoComplete="street-address"
+            required
+          />
+          <div className="grid md:grid-cols-3 gap-4">
+            <Input
+              label="City"
+              value={details.city}
+              onChange={handleFieldChange("city")}
+              autoComplete="address-level2"
+              required
+            />
+            <Input
+              label="State"
+              value={details.state}
+              onChange={handleFieldChange("state")}
+              maxLength={STATE_MAX_LENGTH}
+              autoComplete="address-level1"
+              required
+            />
+            <Input
+              label="ZIP Code"
+              value={details.zipCode}
+              onChange={handleFieldChange("zipCode")}
+              maxLength={ZIP_MAX_LENGTH}
+              autoComplete="postal-code"
+              inputMode="numeric"
+              required
+            />
+          </div>
+
+          {/* Terms */}
+          <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <h3 className="text-sm font-semibold text-gray-900">
+              Rental terms
+            </h3>
+            <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+              {RENTAL_TERMS.map((term) => (
+                <li key={term}>{term}</li>
+              ))}
+            </ul>
+            <Checkbox
+              checked={acceptTerms}
+              onChange={setAcceptTerms}
+              label="I accept the rental terms"
+            />
+          </div>
+
+          {ineligibleReasons.length > 0 && (
+            <div
+              className="text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+              role="alert"
+            >
+              <p className="font-medium">You can't drive this rental:</p>
+              <ul className="list-disc pl-5 mt-1">
+                {ineligibleReasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+
+          <Button
+            type="submit"
+            fullWidth
+            loading={submitting}
+            disabled={!acceptTerms}
+          >
+            Save My Details
+          </Button>
+        </form>
+      ) : (
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-2">
+            <CheckCircle
+              className="w-5 h-5 text-green-600 flex-shrink-0"
+              aria-hidden="true"
+            />
+            <div className="text-sm text-gray-700">
+              <p className="font-medium text-gray-900">
+                {submitted ? "Details saved" : "This invite has closed"}
+              </p>
+              {submitted && (
+                <p>
+                  License {details.driversLicenseNumber} · Rental terms
+                  accepted
+                </p>
+              )}
+              {invite.youngDriverFee > 0 && (
+                <p className="mt-1">
+                  A {formatCurrency(invite.youngDriverFee)} young driver
+                  surcharge applies and is collected at pickup.
+                </p>
+              )}
+            </div>
+          </div>
+          {submitted && invite.canEdit && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={handleEdit}
+            >
+              Edit
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Identity verification */}
+      {submitted && (
+        <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <ScanFace className="w-5 h-5 text-blue-600" aria-hidden="true" />
+            <h2 className="font-medium text-gray-900">Verify your ID</h2>
+          </div>
+          <p className="text-sm text-gray-600">{verificationMessage(invite)}</p>
+          {!showForm && error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+          {canVerify && (
+            <Button type="button" onClick={verify} loading={verifying}>
+              {VERIFY_LABELS[invite.verification.status] || "Try Again"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DriverInvitePanel;
@@ -0,0 +1,198 @@
+import React from "react";
+import { Loader2, ScanFace } from "lucide-react";
+import { Badge, Button, Card } from "@/components/ui";
+import type { BadgeVariant } from "@/components/ui";
+import { useIdentityVerification } from "@/hooks/useIdentityVerification";
+import type {
+  DriverIdentityVerification,
+  IdentityVerificationStatus,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface IdentityVerificationCardProps {
+  bookingId: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const STATUS_BADGES: Record<
+  IdentityVerificationStatus,
+  { label: string; variant: BadgeVariant }
+> = {
+  not_started: { label: "Not started", variant: "default" },
+  pending: { label: "In progress", variant: "pending" },
+  processing: { label: "Reviewing", variant: "info" },
+  verified: { label: "Verified", variant: "success" },
+  failed: { label: "Needs attention", variant: "error" },
+  canceled: { label: "Not finished", variant: "warning" },
+};
+
+const INVITE_PENDING_BADGE: { label: string; variant: BadgeVariant } = {
+  label: "Waiting for details",
+  variant: "pending",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function statusDetail(driver: DriverIdentityVerification): string | null {
+  if (driver.inviteStatus === "pending") {
+    return "Invited by email to add their license and verify their ID.";
+  }
+  if (driver.previouslyVerified) {
+    return "Verified on an earlier rental, nothing else to do.";
+  }
+  if (driver.status === "failed") {
+    return driver.errorReason
+      ? `${driver.errorReason}. Please try again.`
+      : "We couldn't verify this ID. Please try again.";
+  }
+  if (driver.status === "processing") {
+    return "Stripe is checking the photos. This usually takes a few minutes.";
+  }
+  return null;
+}
+
+function actionLabel(status: IdentityVerificationStatus): string {
+  if (status === "pending") return "Continue";
+  if (status === "failed" || status === "canceled") return "Try again";
+  return "Verify now";
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+/**
+ * ID + selfie verification status for each driver on a booking, with a link
+ * to finish it before pickup
+ */
+export const IdentityVerificationCard: React.FC<
+  IdentityVerificationCardProps
+> = ({ bookingId }) => {
+  // Stripe sends the customer back with a full page load, which reloads this
+  const {
+    verification,
+    loading,
+    startingDriverId,
+    error,
+    start,
+    resendingDriverId,
+    resentDriverIds,
+    resendInvite,
+  } = useIdentityVerification(bookingId);
+
+  if (loading && !verification) {
+    return (
+      <Card variant="default" padding="md">
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading identity verification...
+        </div>
+      </Card>
+    );
+  }
+
+  if (!verification || verification.drivers.length === 0) return null;
+
+  const allVerified = verification.drivers.every(
+    (driver) => driver.status === "verified"
+  );
+
+  // Nothing left to show once the rental has started
+  if (!verification.canVerify && !allVerified) return null;
+
+  return (
+    <Card variant="default" padding="md">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <ScanFace className="w-5 h-5 text-blue-600" aria-hidden="true" />
+          <h4 className="font-medium text-gray-900">Identity verification</h4>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {allVerified
+            ? "All drivers are verified. Bring the same licenses to pickup."
+            : "Verify each driver's license and a selfie now so pickup is faster."}
+        </p>
+
+        <ul className="divide-y divide-gray-100">
+          {verification.drivers.map((driver) => {
+            const invitePending = driver.inviteStatus === "pending";
+            const badge = invitePending
+              ? INVITE_PENDING_BADGE
+              : STATUS_BADGES[driver.status];
+            const detail = statusDetail(driver);
+            const resent = resentDriverIds.includes(driver.driverId);
+            // Invited drivers verify from their own invite link
+            const canStart =
+              verification.canVerify &&
+              !invitePending &&
+              driver.status !== "verified" &&
+              driver.status !== "processing";
+
+            return (
+              <li
+                key={driver.driverId}
+                className="flex items-start justify-between gap-3 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {driver.firstName} {driver.lastName}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {driver.driverType === "primary"
+                      ? "Primary driver"
+                      : "Additional driver"}
+                  </p>
+                  {detail && (
+                    <p className="text-xs text-gray-600 mt-1">{detail}</p>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                  <Badge variant={badge.variant} size="sm">
+                    {badge.label}
+                  </Badge>
+                  {canStart && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => start(driver)}
+                      loading={startingDriverId === driver.driverId}
+                      disabled={startingDriverId !== null}
+                    >
+                      {actionLabel(driver.status)}
+                    </Button>
+                  )}
+                  {invitePending && verification.canVerify && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resendInvite(driver)}
+                      loading={resendingDriverId === driver.driverId}
+                      disabled={resent || resendingDriverId !== null}
+                    >
+                      {resent ? "Invite sent" : "Resend invite"}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600">
+            {error}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default IdentityVerificationCard;
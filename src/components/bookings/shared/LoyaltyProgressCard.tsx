@@ -0,0 +1,113 @@
+import React from "react";
+import { Award } from "lucide-react";
+import { Card } from "@/components/ui";
+import { useLoyaltyStatus } from "@/hooks/useLoyaltyStatus";
+import { loyaltyBenefitLabels } from "@/services/users/loyaltyService";
+import { formatCurrency } from "@/utils/formatters";
+
+// ============================================
+// HELPERS
+// ============================================
+function remainingText(
+  remainingDays: number | null,
+  remainingSpend: number | null
+): string {
+  const parts: string[] = [];
+
+  if (remainingDays !== null) {
+    parts.push(
+      `${remainingDays} more rental day${remainingDays === 1 ? "" : "s"}`
+    );
+  }
+  if (remainingSpend !== null) {
+    parts.push(`${formatCurrency(remainingSpend)} more in rentals`);
+  }
+
+  return parts.join(" or ");
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * The customer's loyalty tier, its benefits and progress towards the next
+ * tier. Only completed rentals count.
+ */
+export const LoyaltyProgressCard: React.FC = () => {
+  const { status, progress, remainingDays, remainingSpend, loading } =
+    useLoyaltyStatus();
+
+  if (loading || !status) return null;
+
+  const { tier, nextTier } = status;
+  const benefits = tier ? loyaltyBenefitLabels(tier) : [];
+  const nextBenefits = nextTier ? loyaltyBenefitLabels(nextTier) : [];
+  const percent = Math.round(progress * 100);
+
+  return (
+    <Card variant="default" padding="md">
+      <section className="space-y-3" aria-labelledby="loyalty-heading">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Award className="w-5 h-5 text-amber-500" aria-hidden="true" />
+            <h2
+              id="loyalty-heading"
+              className="text-base font-semibold text-gray-900"
+            >
+              {tier ? `${tier.name} Member` : "Loyalty Rewards"}
+            </h2>
+          </div>
+          <p className="text-sm text-gray-500 text-right">
+            {status.completedRentals} completed rental
+            {status.completedRentals === 1 ? "" : "s"} ·{" "}
+            {status.completedDays} day{status.completedDays === 1 ? "" : "s"}
+          </p>
+        </div>
+
+        {benefits.length > 0 && (
+          <p className="text-sm text-gray-600">
+            Your benefits: {benefits.join(", ")}. Applied automatically at
+            checkout.
+          </p>
+        )}
+
+        {nextTier ? (
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Progress to {nextTier.name}</span>
+              <span className="font-medium text-gray-900">{percent}%</span>
+            </div>
+            <div
+              className="h-2 rounded-full bg-gray-100 overflow-hidden"
+              role="progressbar"
+              aria-valuenow={percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`Progress to ${nextTier.name}`}
+            >
+              <div
+                className="h-full rounded-full bg-amber-500 transition-all"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              {remainingText(remainingDays, remainingSpend)} to reach{" "}
+              {nextTier.name}
+              {nextBenefits.length > 0 &&
+                `: ${nextBenefits.join(", ").toLowerCase()}`}
+            </p>
+          </div>
+        ) : (
+          tier && (
+            <p className="text-xs text-gray-500">
+              You've reached our top tier. Thanks for renting with us!
+            </p>
+          )
+        )}
+      </section>
+    </Card>
+  );
+};
+
+export default LoyaltyProgressCard;
@@ -0,0 +1,202 @@
+import React, { useCallback } from "react";
+import {
+  AlertCircle,
+  CalendarClock,
+  CheckCircle,
+  CreditCard,
+  Loader2,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useMonthlyNotice } from "@/hooks/useMonthlyNotice";
+import type { MonthlyNotice, MonthlyNoticeResponse } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface MonthlyNoticePanelProps {
+  /** Notice response token */
+  token: string;
+  source: "email" | "portal";
+  /** Answer picked in the email; highlighted, never sent automatically */
+  preferredResponse?: MonthlyNoticeResponse | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function getStatusMessage(notice: MonthlyNotice): string {
+  switch (notice.status) {
+    case "renewed":
+      return "Your rental has been renewed for another period. Thank you!";
+    case "returning":
+      return `Thanks for letting us know. Please return the vehicle by ${formatDate(notice.periodEnd)}.`;
+    case "fined":
+      return `We didn't receive your answer in time, so a ${formatCurrency(notice.fineAmount)} late notice fine applies. Please return the vehicle by ${formatDate(notice.periodEnd)}.`;
+    case "cancelled":
+      return "This notice no longer applies to your rental.";
+    case "continuing":
+      return notice.responseSource === "system"
+        ? "We didn't hear back from you, so your rental is set to continue. Please pay for the next period before your current one ends."
+        : "Please pay for the next period before your current one ends.";
+    default:
+      return notice.canContinue
+        ? `Your current period ends ${formatDate(notice.periodEnd)}. Please let us know by ${formatDate(notice.replyDeadline)} whether you're continuing.`
+        : "The reply deadline has passed. We'll update your rental shortly.";
+  }
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+export const MonthlyNoticePanel: React.FC<MonthlyNoticePanelProps> = ({
+  token,
+  source,
+  preferredResponse = null,
+}) => {
+  const { notice, loading, submitting, error, respond } = useMonthlyNotice(
+    token,
+    source
+  );
+
+  const handleContinue = useCallback(() => {
+    respond("continue");
+  }, [respond]);
+
+  const handleReturn = useCallback(() => {
+    respond("return");
+  }, [respond]);
+
+  if (loading) {
+    return (
+      <div
+        className="flex items-center gap-2 text-sm text-gray-500 px-3 py-2"
+        role="status"
+      >
+        <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+        Loading rental notice...
+      </div>
+    );
+  }
+
+  if (!notice) {
+    return error ? (
+      <div
+        className="flex items-center gap-2 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+        role="alert"
+      >
+        <AlertCircle className="w-4 h-4" aria-hidden="true" />
+        <span>{error}</span>
+      </div>
+    ) : null;
+  }
+
+  const isOpen = notice.status === "pending" || notice.status === "continuing";
+  const showPayLink = notice.status === "continuing" && !!notice.checkoutUrl;
+  const showContinue = notice.canContinue && !showPayLink;
+
+  return (
+    <div
+      className={`rounded-lg border p-4 space-y-3 ${
+        isOpen ? "bg-amber-50 border-amber-200" : "bg-gray-50 border-gray-200"
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        {isOpen ? (
+          <CalendarClock
+            className="w-5 h-5 text-amber-700 flex-shrink-0"
+            aria-hidden="true"
+          />
+        ) : (
+          <CheckCircle
+            className="w-5 h-5 text-gray-600 flex-shrink-0"
+            aria-hidden="true"
+          />
+        )}
+        <div>
+          <p className="text-sm font-semibold text-gray-900">
+            {isOpen ? "Are you keeping your rental?" : "Rental notice"}
+          </p>
+          <p className="text-sm text-gray-700 mt-1">
+            {getStatusMessage(notice)}
+          </p>
+          {isOpen &&
+            notice.renewalAmount !== null &&
+            notice.renewalDays !== null && (
+              <p className="text-sm text-gray-700 mt-1">
+                Next period: {notice.renewalDays} days for{" "}
+                <span className="font-semibold">
+                  {formatCurrency(notice.renewalAmount)}
+                </span>
+              </p>
+            )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {(showPayLink || showContinue || notice.canReturn) && (
+        <div className="flex flex-wrap gap-3">
+          {showPayLink && (
+            <a
+              href={notice.checkoutUrl!}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors"
+            >
+              <CreditCard className="w-4 h-4" aria-hidden="true" />
+              Pay for Next Period
+            </a>
+          )}
+
+          {showContinue && (
+            <Button
+              variant={preferredResponse === "return" ? "outline" : "primary"}
+              size="sm"
+              onClick={handleContinue}
+              loading={submitting}
+              loadingText="Preparing payment..."
+            >
+              <CreditCard className="w-4 h-4 mr-1" />
+              {notice.status === "continuing"
+                ? "Get Payment Link"
+                : "Continue My Rental"}
+            </Button>
+          )}
+
+          {notice.canReturn && (
+            <Button
+              variant={preferredResponse === "return" ? "primary" : "outline"}
+              size="sm"
+              onClick={handleReturn}
+              disabled={submitting}
+            >
+              <Undo2 className="w-4 h-4 mr-1" />
+              I'm Returning the Vehicle
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonthlyNoticePanel;
@@ -3,6 +3,7 @@ import { Info, AlertCircle } from "lucide-react";
 import { BookingTotal } from "@/types";
 import { Card } from "@/components/ui";
 import { Loader } from "@/components/ui/Loader";
+import { YOUNG_DRIVER_TIER_LABELS } from "@/services/drivers/driverEligibility";
 
 // ============================================
 // TYPES
@@ -49,7 +50,9 @@ function getRentalDescription(pricing: BookingTotal): string {
   const { rentalDays, rentalType, pricingMethod } = pricing;
 
   if (rentalType === "semester") {
-    return `${rentalDays} days - Semester pricing`;
+    return pricing.termName
+      ? `${pricing.termName} - Semester pricing`
+      : `${rentalDays} days - Semester pricing`;
   }
 
   if (pricingMethod === "monthly") {
@@ -74,8 +77,13 @@ function getRentalDescription(pricing: BookingTotal): string {
   return `${fullWeeks} week${fullWeeks > 1 ? "s" : ""}`;
 }
 
-function getDepositDescription(rentalType: string): string {
-  if (rentalType === "weekly") {
+function getDepositDescription(pricing: BookingTotal): string {
+  if (pricing.loyalty?.depositDiscount) {
+    return `Refundable, ${formatCurrency(
+      pricing.loyalty.depositDiscount,
+    )} off for ${pricing.loyalty.tierName} members`;
+  }
+  if (pricing.rentalType === "weekly") {
     return "Fixed weekly deposit (refundable)";
   }
   return "1 month's rent (refundable)";
@@ -172,6 +180,16 @@ const StudentDiscountBadge: React.FC = () => (
   </div>
 );
 
+const MemberBenefitsBadge: React.FC<{
+  tierName: string;
+  savings: number;
+}> = ({ tierName, savings }) => (
+  <div className="flex items-center justify-between gap-2 bg-amber-50 text-amber-800 px-3 py-2 rounded-lg text-sm">
+    <span className="font-medium">⭐ {tierName} Member Benefits</span>
+    <span>You save {formatCurrency(savings)}</span>
+  </div>
+);
+
 const LoadingPricing: React.FC = () => (
   <Card variant="default" padding="md">
     <div className="flex items-center justify-center py-8" role="status">
@@ -232,6 +250,16 @@ export const PricingSummary: React.FC<PricingSummaryProps> = ({
         </div>
       )}
 
+      {/* Loyalty tier benefits */}
+      {pricing.loyalty && (
+        <div className="mb-3">
+          <MemberBenefitsBadge
+            tierName={pricing.loyalty.tierName}
+            savings={pricing.loyalty.totalSavings}
+          />
+        </div>
+      )}
+
       <dl className="space-y-3 text-sm" aria-labelledby={headingId}>
         {/* Duration */}
         <LineItem
@@ -271,6 +299,16 @@ export const PricingSummary: React.FC<PricingSummaryProps> = ({
           />
         )}
 
+        {!!pricing.loyalty?.deliveryFeeWaived && (
+          <LineItem
+            label="Delivery Fee"
+            value="Free"
+            description={`${formatCurrency(
+              pricing.loyalty.deliveryFeeWaived,
+            )} waived for ${pricing.loyalty.tierName} members`}
+          />
+        )}
+
         {/* Additional drivers */}
         {pricing.additionalDriverFee > 0 && (
           <LineItem
@@ -280,6 +318,28 @@ export const PricingSummary: React.FC<PricingSummaryProps> = ({
           />
         )}
 
+        {!!pricing.loyalty?.additionalDriverFeeWaived && (
+          <LineItem
+            label="Additional Drivers"
+            value="Free"
+            description={`${formatCurrency(
+              pricing.loyalty.additionalDriverFeeWaived,
+            )} waived for ${pricing.loyalty.tierName} members`}
+          />
+        )}
+
+        {/* Young driver surcharge, one line per driver */}
+        {pricing.youngDriverFees?.map((fee) => (
+          <LineItem
+            key={fee.driverLabel}
+            label="Young Driver Surcharge"
+            value={formatCurrency(fee.amount, true)}
+            description={`${fee.driverLabel} - ${
+              YOUNG_DRIVER_TIER_LABELS[fee.tier]
+            } (age ${fee.age} at pickup)`}
+          />
+        ))}
+
         {/* Subtotal */}
         <LineItem label="Subtotal" value={formatCurrency(pricing.subtotal)} />
 
@@ -288,7 +348,7 @@ export const PricingSummary: React.FC<PricingSummaryProps> = ({
           <LineItem
             label="Security Deposit"
             value={formatCurrency(pricing.securityDeposit, true)}
-            description={getDepositDescription(pricing.rentalType)}
+            description={getDepositDescription(pricing)}
             isDeposit
           />
         )}
@@ -0,0 +1,146 @@
+import React, { useCallback, useState } from "react";
+import { Check, Copy, Gift, Loader2 } from "lucide-react";
+import { useAccountCredits } from "@/hooks/useAccountCredits";
+import { useReferrals } from "@/hooks/useReferrals";
+import { useReferralConfig } from "@/hooks/useConfig";
+import { formatCurrency, formatDate } from "@/utils/formatters";
+import type { AccountCreditEntryType } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+const HISTORY_LIMIT = 5;
+const COPIED_RESET_MS = 2000;
+
+const ENTRY_LABELS: Record<AccountCreditEntryType, string> = {
+  referral_reward: "Referral reward",
+  booking_applied: "Used on a booking",
+  booking_restored: "Returned to your account",
+  adjustment: "Adjustment",
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * The customer's referral link, their credit balance and recent credit
+ * activity. Credit is offered at checkout.
+ */
+export const ReferralCreditsPanel: React.FC = () => {
+  const { link, pendingCount, creditedCount, loading } = useReferrals();
+  const { balance, entries, loading: creditsLoading } = useAccountCredits();
+  const { creditAmount } = useReferralConfig();
+
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = useCallback(() => {
+    if (!link) return;
+
+    navigator.clipboard
+      .writeText(link)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), COPIED_RESET_MS);
+      })
+      .catch(() => {
+        // The link stays selectable in the field
+      });
+  }, [link]);
+
+  return (
+    <section className="space-y-3" aria-labelledby="referrals-heading">
+      <div className="flex items-center justify-between">
+        <h3
+          id="referrals-heading"
+          className="text-sm font-medium text-gray-600"
+        >
+          Referrals & Credit
+        </h3>
+        <span className="text-sm font-semibold text-gray-900">
+          {creditsLoading ? "..." : `${formatCurrency(balance)} credit`}
+        </span>
+      </div>
+
+      <p className="flex items-start gap-2 text-sm text-gray-500">
+        <Gift className="w-4 h-4 mt-0.5 flex-shrink-0" aria-hidden="true" />
+        {creditAmount > 0
+          ? `Share your link. You get ${formatCurrency(creditAmount)} credit when a friend signs up with it and completes their first rental.`
+          : "Share your link with friends who need a car."}
+      </p>
+
+      {loading && !link ? (
+        <div
+          className="flex items-center gap-2 text-sm text-gray-500"
+          role="status"
+        >
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading your referral link...
+        </div>
+      ) : (
+        link && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={link}
+              readOnly
+              aria-label="Your referral link"
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium py-2 px-2 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            >
+              {copied ? (
+                <Check className="w-4 h-4" aria-hidden="true" />
+              ) : (
+                <Copy className="w-4 h-4" aria-hidden="true" />
+              )}
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+        )
+      )}
+
+      {(pendingCount > 0 || creditedCount > 0) && (
+        <p className="text-sm text-gray-600">
+          {creditedCount} rewarded
+          {pendingCount > 0 &&
+            `, ${pendingCount} waiting on a first rental`}
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {entries.slice(0, HISTORY_LIMIT).map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center justify-between gap-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-gray-900">
+                  {ENTRY_LABELS[entry.entryType] || entry.description}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(entry.createdAt)}
+                </p>
+              </div>
+              <span
+                className={`font-medium flex-shrink-0 ${
+                  entry.amount > 0 ? "text-green-700" : "text-gray-700"
+                }`}
+              >
+                {entry.amount > 0 ? "+" : "-"}
+                {formatCurrency(Math.abs(entry.amount))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ReferralCreditsPanel;
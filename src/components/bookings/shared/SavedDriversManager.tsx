@@ -0,0 +1,355 @@
+import React, { useCallback, useState } from "react";
+import { AlertCircle, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button, Checkbox, Input, Select } from "@/components/ui";
+import { useSavedDrivers } from "@/hooks/useSavedDrivers";
+import {
+  DEFAULT_LICENSE_COUNTRY,
+  LICENSE_COUNTRIES,
+} from "@/services/drivers/driverEligibility";
+import { formatDate } from "@/utils/formatters";
+import { toBusinessDateString } from "@/utils/dates";
+import type { SavedDriver, SavedDriverInput } from "@/types";
+
+// ============================================
+// CONSTANTS
+// ============================================
+const EMPTY_DRIVER: SavedDriverInput = {
+  isPrimary: false,
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  dateOfBirth: "",
+  driversLicenseNumber: "",
+  licenseCountry: DEFAULT_LICENSE_COUNTRY,
+  licenseState: "",
+  licenseExpiry: "",
+  streetAddress: "",
+  city: "",
+  state: "",
+  zipCode: "",
+};
+
+const LICENSE_COUNTRY_OPTIONS = LICENSE_COUNTRIES.map((country) => ({
+  value: country.code,
+  label: country.label,
+}));
+
+const STATE_MAX_LENGTH = 2;
+const ZIP_MAX_LENGTH = 5;
+
+/** Form fields typed in capitals */
+const UPPERCASE_FIELDS: (keyof SavedDriverInput)[] = [
+  "driversLicenseNumber",
+  "licenseState",
+  "state",
+];
+
+// ============================================
+// HELPERS
+// ============================================
+function licenseSummary(driver: SavedDriver): string {
+  const issuedIn = [driver.licenseState, driver.licenseCountry]
+    .filter(Boolean)
+    .join(", ");
+  return `${driver.driversLicenseNumber} (${issuedIn})`;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Drivers saved on the account: the customer and people who often drive
+ * with them. The booking forms fill in from these in one click.
+ */
+export const SavedDriversManager: React.FC = () => {
+  const { drivers, loading, saving, error, save, remove } = useSavedDrivers();
+
+  const [form, setForm] = useState<SavedDriverInput | null>(null);
+  const [editingId, setEditingId] = useState<string | undefined>();
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const today = toBusinessDateString();
+
+  const handleAdd = useCallback(() => {
+    setEditingId(undefined);
+    setForm({ ...EMPTY_DRIVER, isPrimary: drivers.length === 0 });
+  }, [drivers.length]);
+
+  const handleEdit = useCallback((driver: SavedDriver) => {
+    setEditingId(driver.id);
+    setForm(driver);
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setEditingId(undefined);
+    setForm(null);
+  }, []);
+
+  const handleRemove = useCallback(
+    async (id: string) => {
+      setRemovingId(id);
+      await remove(id);
+      setRemovingId(null);
+    },
+    [remove]
+  );
+
+  const handleFieldChange = useCallback(
+    (field: keyof SavedDriverInput) =>
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = UPPERCASE_FIELDS.includes(field)
+          ? e.target.value.toUpperCase()
+          : e.target.value;
+        setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+      },
+    []
+  );
+
+  const handleCountryChange = useCallback((value: string) => {
+    setForm((prev) => (prev ? { ...prev, licenseCountry: value } : prev));
+  }, []);
+
+  const handlePrimaryChange = useCallback((checked: boolean) => {
+    setForm((prev) => (prev ? { ...prev, isPrimary: checked } : prev));
+  }, []);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!form) return;
+
+      const saved = await save(form, editingId);
+      if (saved) handleCancel();
+    },
+    [form, editingId, save, handleCancel]
+  );
+
+  return (
+    <section className="space-y-3" aria-labelledby="saved-drivers-heading">
+      <div className="flex items-center justify-between">
+        <h3
+          id="saved-drivers-heading"
+          className="text-sm font-medium text-gray-600"
+        >
+          Saved Drivers
+        </h3>
+        {!form && (
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 py-1 px-2 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+          >
+            <Plus className="w-4 h-4" aria-hidden="true" />
+            Add Driver
+          </button>
+        )}
+      </div>
+
+      {loading && drivers.length === 0 && (
+        <div
+          className="flex items-center gap-2 text-sm text-gray-500"
+          role="status"
+        >
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading saved drivers...
+        </div>
+      )}
+
+      {!loading && drivers.length === 0 && !form && (
+        <p className="text-sm text-gray-500">
+          Drivers you book with are saved here so you can fill in their
+          details in one click next time.
+        </p>
+      )}
+
+      {drivers.length > 0 && (
+        <ul className="space-y-2">
+          {drivers.map((driver) => {
+            const expired =
+              driver.licenseExpiry !== "" && driver.licenseExpiry < today;
+
+            return (
+              <li
+                key={driver.id}
+                className="flex items-start justify-between gap-3 rounded-lg border border-gray-200 p-3"
+              >
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium text-gray-900">
+                    {driver.firstName} {driver.lastName}
+                    {driver.isPrimary && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        (You)
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-gray-600 break-all">
+                    {licenseSummary(driver)}
+                  </p>
+                  {driver.licenseExpiry && (
+                    <p className={expired ? "text-red-700" : "text-gray-500"}>
+                      {expired ? "Expired" : "Expires"}{" "}
+                      {formatDate(`${driver.licenseExpiry}T00:00:00`)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(driver)}
+                    aria-label={`Edit ${driver.firstName} ${driver.lastName}`}
+                    className="text-gray-500 hover:text-gray-700 p-1 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+                  >
+                    <Pencil className="w-4 h-4" aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(driver.id)}
+                    disabled={removingId === driver.id}
+                    aria-label={`Remove ${driver.firstName} ${driver.lastName}`}
+                    className="text-red-600 hover:text-red-700 p-1 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="w-4 h-4" aria-hidden="true" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div
+          className="flex items-center gap-2 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+          role="alert"
+        >
+          <AlertCircle className="w-4 h-4" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {form && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg border border-gray-200 p-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="First Name"
+              value={form.firstName}
+              onChange={handleFieldChange("firstName")}
+              autoComplete="off"
+              required
+            />
+            <Input
+              label="Last Name"
+              value={form.lastName}
+              onChange={handleFieldChange("lastName")}
+              autoComplete="off"
+              required
+            />
+          </div>
+          <Input
+            label="Email"
+            type="email"
+            value={form.email}
+            onChange={handleFieldChange("email")}
+            autoComplete="off"
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Phone"
+              type="tel"
+              value={form.phone}
+              onChange={handleFieldChange("phone")}
+              autoComplete="off"
+            />
+            <Input
+              label="Date of Birth"
+              type="date"
+              value={form.dateOfBirth}
+              onChange={handleFieldChange("dateOfBirth")}
+              max={today}
+              autoComplete="off"
+            />
+          </div>
+          <Input
+            label="Driver's License Number"
+            value={form.driversLicenseNumber}
+            onChange={handleFieldChange("driversLicenseNumber")}
+            autoComplete="off"
+            required
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="License Issued In"
+              value={form.licenseCountry}
+              onChange={handleCountryChange}
+              options={LICENSE_COUNTRY_OPTIONS}
+            />
+            <Input
+              label="License State"
+              value={form.licenseState}
+              onChange={handleFieldChange("licenseState")}
+              maxLength={STATE_MAX_LENGTH}
+              placeholder="TX"
+              autoComplete="off"
+            />
+          </div>
+          <Input
+            label="License Expiry"
+            type="date"
+            value={form.licenseExpiry}
+            onChange={handleFieldChange("licenseExpiry")}
+            autoComplete="off"
+          />
+          <Input
+            label="Street Address"
+            value={form.streetAddress}
+            onChange={handleFieldChange("streetAddress")}
+            autoComplete="off"
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="City"
+              value={form.city}
+              onChange={handleFieldChange("city")}
+              autoComplete="off"
+            />
+            <Input
+              label="State"
+              value={form.state}
+              onChange={handleFieldChange("state")}
+              maxLength={STATE_MAX_LENGTH}
+              autoComplete="off"
+            />
+            <Input
+              label="ZIP Code"
+              value={form.zipCode}
+              onChange={handleFieldChange("zipCode")}
+              maxLength={ZIP_MAX_LENGTH}
+              inputMode="numeric"
+              autoComplete="off"
+            />
+          </div>
+          <Checkbox
+            checked={form.isPrimary}
+            onChange={handlePrimaryChange}
+            label="These are my own details"
+          />
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={saving} loadingText="Saving...">
+              {editingId ? "Save Changes" : "Save Driver"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default SavedDriversManager;
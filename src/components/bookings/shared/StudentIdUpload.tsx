@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useId, useState } from "react";
+import {
+  CheckCircle,
+  Clock,
+  GraduationCap,
+  Loader2,
+  Mail,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Button, Card, Input } from "@/components/ui";
+import { useStudentVerification } from "@/hooks/useStudentVerification";
+import {
+  EDU_EMAIL_CODE_LENGTH,
+  STUDENT_ID_ALLOWED_TYPES,
+  studentIdCoversRental,
+} from "@/services/students/studentRules";
+import type { StudentVerification } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface StudentIdUploadProps {
+  /** Last day of the rental (YYYY-MM-DD or datetime-local, empty until chosen) */
+  returnDate: string;
+  /** Called with the ID backing student pricing, or null when none qualifies */
+  onVerificationChange: (verificationId: string | null) => void;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_FILE_SIZE_MB = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+function formatDisplayDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function uploadPrompt(
+  verification: StudentVerification | null,
+  lastDay: string
+): string {
+  if (verification?.status === "rejected") {
+    return `Your last student ID wasn't accepted${
+      verification.rejectionReason ? `: ${verification.rejectionReason}` : ""
+    }. Please upload a new one.`;
+  }
+  if (verification && lastDay && verification.expiresOn < lastDay) {
+    return `Your student ID on file ends ${formatDisplayDate(
+      verification.expiresOn
+    )}, before this rental does. Please upload a current one.`;
+  }
+  return "Upload a photo of your student ID. Our team reviews it before pickup.";
+}
+
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+const VerificationStatus: React.FC<{ verification: StudentVerification }> = ({
+  verification,
+}) => {
+  const approved = verification.status === "approved";
+
+  return (
+    <div className="flex items-start gap-2">
+      {approved ? (
+        <CheckCircle
+          className="w-5 h-5 text-green-600 flex-shrink-0"
+          aria-hidden="true"
+        />
+      ) : (
+        <Clock
+          className="w-5 h-5 text-amber-600 flex-shrink-0"
+          aria-hidden="true"
+        />
+      )}
+      <div>
+        <p className="text-sm font-medium text-gray-900">
+          {approved ? "Student ID verified" : "Student ID under review"}
+        </p>
+        <p className="text-xs text-gray-500">
+          {verification.schoolName ? `${verification.schoolName} · ` : ""}
+          Valid through {formatDisplayDate(verification.expiresOn)}
+          {approved
+            ? ""
+            : ". If it isn't accepted, your booking moves to standard pricing."}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const EduEmailForm: React.FC<{
+  verification: StudentVerification;
+  submitting: boolean;
+  onSendCode: (email: string) => Promise<string | null>;
+  onVerifyCode: (code: string) => Promise<boolean>;
+}> = ({ verification, submitting, onSendCode, onVerifyCode }) => {
+  const baseId = useId();
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+
+  const handleSend = useCallback(async () => {
+    const expiresAt = await onSendCode(email);
+    if (expiresAt) setCodeSent(true);
+  }, [email, onSendCode]);
+
+  const handleVerify = useCallback(async () => {
+    if (await onVerifyCode(code)) {
+      setCode("");
+      setCodeSent(false);
+    }
+  }, [code, onVerifyCode]);
+
+  if (verification.eduEmailVerifiedAt) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-green-700">
+        <Mail className="w-4 h-4" aria-hidden="true" />
+        School email verified: {verification.eduEmail}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border-t border-gray-100 pt-3">
+      <p className="text-xs text-gray-500">
+        Optional: confirm your school email (.edu) to speed up the review.
+      </p>
+      {!codeSent ? (
+        <div className="flex gap-2">
+          <Input
+            id={`${baseId}-email`}
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@school.edu"
+            aria-label="School email"
+            fullWidth
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSend}
+            loading={submitting}
+            disabled={!email}
+          >
+            Send code
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            id={`${baseId}-code`}
+            inputMode="numeric"
+            maxLength={EDU_EMAIL_CODE_LENGTH}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            placeholder={`${EDU_EMAIL_CODE_LENGTH}-digit code`}
+            aria-label="Verification code"
+            fullWidth
+          />
+          <Button
+            type="button"
+            onClick={handleVerify}
+            loading={submitting}
+            disabled={code.length !== EDU_EMAIL_CODE_LENGTH}
+          >
+            Verify
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+export const StudentIdUpload: React.FC<StudentIdUploadProps> = ({
+  returnDate,
+  onVerificationChange,
+}) => {
+  const baseId = useId();
+  const {
+    verification,
+    loading,
+    submitting,
+    error,
+    upload,
+    sendEmailCode,
+    verifyEmailCode,
+  } = useStudentVerification();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [schoolName, setSchoolName] = useState("");
+  const [replacing, setReplacing] = useState(false);
+
+  const lastDay = returnDate.split("T")[0];
+  const covers =
+    !!verification &&
+    !!lastDay &&
+    studentIdCoversRental(verification, lastDay);
+
+  useEffect(() => {
+    onVerificationChange(covers && verification ? verification.id : null);
+  }, [covers, verification, onVerificationChange]);
+
+  const handleUpload = useCallback(async () => {
+    if (!file) return;
+    if (await upload(file, expiresOn, schoolName)) {
+      setFile(null);
+      setReplacing(false);
+    }
+  }, [file, expiresOn, schoolName, upload]);
+
+  if (loading) {
+    return (
+      <Card variant="default" padding="md">
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+          Loading your student ID...
+        </div>
+      </Card>
+    );
+  }
+
+  const showForm = !covers || replacing;
+
+  return (
+    <Card variant="default" padding="md">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="w-5 h-5 text-blue-600" aria-hidden="true" />
+          <h4 className="font-medium text-gray-900">Student ID</h4>
+        </div>
+
+        {covers && verification && !replacing && (
+          <>
+            <VerificationStatus verification={verification} />
+            <EduEmailForm
+              verification={verification}
+              submitting={submitting}
+              onSendCode={sendEmailCode}
+              onVerifyCode={verifyEmailCode}
+            />
+            <button
+              type="button"
+              onClick={() => setReplacing(true)}
+              className="text-xs text-gray-600 underline hover:text-gray-900"
+            >
+              Upload a different ID
+            </button>
+          </>
+        )}
+
+        {showForm && (
+          <>
+            <p className="flex items-start gap-2 text-sm text-gray-600">
+              {verification?.status === "rejected" && (
+                <XCircle
+                  className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5"
+                  aria-hidden="true"
+                />
+              )}
+              {uploadPrompt(verification, lastDay)}
+            </p>
+
+            <label
+              htmlFor={`${baseId}-file`}
+              className="flex items-center gap-2 border-2 border-dashed border-gray-200 hover:border-gray-300 rounded-xl p-4 cursor-pointer text-sm text-gray-600"
+            >
+              <Upload className="w-5 h-5 text-gray-400" aria-hidden="true" />
+              {file ? file.name : "Choose a photo or PDF of your student ID"}
+            </label>
+            <input
+              id={`${baseId}-file`}
+              type="file"
+              accept={STUDENT_ID_ALLOWED_TYPES.join(",")}
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={submitting}
+              className="hidden"
+            />
+            <p className="text-xs text-gray-500">
+              PDF, JPEG, PNG, or WebP (max {MAX_FILE_SIZE_MB}MB)
+            </p>
+
+            <Input
+              id={`${baseId}-expires`}
+              type="date"
+              label="ID expiry or end of term"
+              value={expiresOn}
+              min={lastDay || undefined}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              helperText="Student pricing applies to rentals that end on or before this date"
+              fullWidth
+            />
+            <Input
+              id={`${baseId}-school`}
+              label="School (optional)"
+              value={schoolName}
+              onChange={(e) => setSchoolName(e.target.value)}
+              maxLength={120}
+              fullWidth
+            />
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                onClick={handleUpload}
+                loading={submitting}
+                loadingText="Uploading..."
+                disabled={!file || !expiresOn}
+              >
+                Upload student ID
+              </Button>
+              {replacing && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setReplacing(false)}
+                  disabled={submitting}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600">
+            {error}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default StudentIdUpload;
@@ -3,3 +3,11 @@ export { ProgressSteps } from "./ProgressSteps";
 export { PickupTypeSelector } from "./PickupTypeSelector";
 export { PricingSummary } from "./PricingSummary";
 export { DeliveryTimeSlotSelector } from "./DeliveryTimeSlotSelector";
+export { MonthlyNoticePanel } from "./MonthlyNoticePanel";
+export { StudentIdUpload } from "./StudentIdUpload";
+export { AcademicTermSelector } from "./AcademicTermSelector";
+export { IdentityVerificationCard } from "./IdentityVerificationCard";
+export { DriverInvitePanel } from "./DriverInvitePanel";
+export { SavedDriversManager } from "./SavedDriversManager";
+export { ReferralCreditsPanel } from "./ReferralCreditsPanel";
+export { LoyaltyProgressCard } from "./LoyaltyProgressCard";
@@ -1,8 +1,16 @@
-import React, { useMemo, useCallback, useId } from "react";
-import { CreditCard, Info, CheckCircle, GraduationCap } from "lucide-react";
+import React, { useMemo, useCallback, useId, useState } from "react";
+import {
+  CreditCard,
+  Info,
+  CheckCircle,
+  GraduationCap,
+  Tag,
+  X,
+} from "lucide-react";
 import { Vehicle, BookingTotal } from "@/types";
-import { Button, Card } from "@/components/ui";
+import { Button, Card, Checkbox, Input } from "@/components/ui";
 import { PrimaryDriverData, AdditionalDriverData } from "../forms";
+import { YOUNG_DRIVER_TIER_LABELS } from "@/services/drivers/driverEligibility";
 
 // ============================================
 // TYPES
@@ -18,9 +26,29 @@ interface BookingConfirmationStepProps {
   primaryDriver: PrimaryDriverData;
   additionalDrivers: AdditionalDriverData[];
   loading: boolean;
+  /** Code entered by the customer; pricing carries the discount once valid */
+  promoCode: string | null;
+  promoLoading?: boolean;
+  promoError?: string | null;
+  onApplyPromo: (code: string) => void;
+  onRemovePromo: () => void;
+  /** Account credit available (referral rewards) */
+  creditBalance?: number;
+  useAccountCredit?: boolean;
+  onUseAccountCreditChange?: (use: boolean) => void;
   onSubmit: () => void;
 }
 
+interface PromoCodeFieldProps {
+  pricing: BookingTotal;
+  promoCode: string | null;
+  loading: boolean;
+  error: string | null;
+  disabled: boolean;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
 interface InfoBoxProps {
   variant: "info" | "success" | "student";
   title: string;
@@ -38,6 +66,7 @@ interface SummaryLineItemProps {
 // CONSTANTS
 // ============================================
 const REFUND_BUSINESS_DAYS = "5-7";
+const PROMO_CODE_MAX_LENGTH = 50;
 
 // ============================================
 // HELPER FUNCTIONS
@@ -90,7 +119,9 @@ function getDurationDescription(pricing: BookingTotal): string {
   const { rentalDays, rentalType, pricingMethod } = pricing;
 
   if (rentalType === "semester") {
-    return `${rentalDays} days (Semester rate)`;
+    return pricing.termName
+      ? `${rentalDays} days (${pricing.termName}, Semester rate)`
+      : `${rentalDays} days (Semester rate)`;
   }
 
   if (pricingMethod === "monthly") {
@@ -220,6 +251,93 @@ const SummaryLineItem: React.FC<SummaryLineItemProps> = ({
   </div>
 );
 
+const PromoCodeField: React.FC<PromoCodeFieldProps> = ({
+  pricing,
+  promoCode,
+  loading,
+  error,
+  disabled,
+  onApply,
+  onRemove,
+}) => {
+  const [code, setCode] = useState(promoCode || "");
+
+  const handleApply = useCallback(() => {
+    if (code.trim()) onApply(code.trim().toUpperCase());
+  }, [code, onApply]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // Enter applies the code instead of submitting the booking form
+      if (e.key === "Enter") {
+        e.preventDefault();
+        handleApply();
+      }
+    },
+    [handleApply]
+  );
+
+  const handleRemove = useCallback(() => {
+    setCode("");
+    onRemove();
+  }, [onRemove]);
+
+  if (pricing.promo) {
+    return (
+      <div
+        className="flex items-center justify-between gap-3 bg-green-50 border border-green-200 px-4 py-3 rounded-xl text-sm"
+        role="status"
+      >
+        <div className="flex items-center gap-2 text-green-800">
+          <Tag className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>
+            <strong>{pricing.promo.code}</strong> applied
+            {pricing.promo.description && ` - ${pricing.promo.description}`}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleRemove}
+          disabled={disabled}
+          aria-label={`Remove promo code ${pricing.promo.code}`}
+          className="text-green-700 hover:text-green-900 p-1 rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2">
+      <div className="flex-1">
+        <Input
+          aria-label="Promo code"
+          placeholder="Promo code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={handleKeyDown}
+          maxLength={PROMO_CODE_MAX_LENGTH}
+          icon={<Tag className="w-4 h-4" aria-hidden="true" />}
+          error={error || undefined}
+          disabled={disabled}
+          autoComplete="off"
+        />
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleApply}
+        disabled={disabled || !code.trim()}
+        loading={loading}
+        loadingText="Checking..."
+      >
+        Apply
+      </Button>
+    </div>
+  );
+};
+
 const DetailSection: React.FC<{
   title: string;
   titleId: string;
@@ -259,6 +377,14 @@ export const BookingConfirmationStep: React.FC<
   primaryDriver,
   additionalDrivers,
   loading,
+  promoCode,
+  promoLoading = false,
+  promoError = null,
+  onApplyPromo,
+  onRemovePromo,
+  creditBalance = 0,
+  useAccountCredit = false,
+  onUseAccountCreditChange,
   onSubmit,
 }) => {
   const baseId = useId();
@@ -302,6 +428,7 @@ export const BookingConfirmationStep: React.FC<
       primary: `${baseId}-primary`,
       additional: `${baseId}-additional`,
       pricing: `${baseId}-pricing`,
+      promo: `${baseId}-promo`,
     }),
     [baseId]
   );
@@ -383,10 +510,17 @@ export const BookingConfirmationStep: React.FC<
                       <dt className="sr-only">Email</dt>
                       <dd>{driver.email}</dd>
                     </div>
-                    <div className="flex gap-1">
-                      <dt>License:</dt>
-                      <dd>{driver.driversLicenseNumber}</dd>
-                    </div>
+                    {driver.inviteByEmail ? (
+                      <div>
+                        <dt className="sr-only">Details</dt>
+                        <dd>Invite emailed after payment</dd>
+                      </div>
+                    ) : (
+                      <div className="flex gap-1">
+                        <dt>License:</dt>
+                        <dd>{driver.driversLicenseNumber}</dd>
+                      </div>
+                    )}
                   </dl>
                 </li>
               ))}
@@ -394,6 +528,37 @@ export const BookingConfirmationStep: React.FC<
           </section>
         )}
 
+        {/* Promo Code */}
+        <section
+          className="border-t border-gray-200 pt-4"
+          aria-labelledby={sectionIds.promo}
+        >
+          <h4 id={sectionIds.promo} className="font-medium text-gray-900 mb-2">
+            {creditBalance > 0 ? "Promo Code & Credit" : "Promo Code"}
+          </h4>
+          <PromoCodeField
+            pricing={pricing}
+            promoCode={promoCode}
+            loading={promoLoading}
+            error={promoError}
+            disabled={loading}
+            onApply={onApplyPromo}
+            onRemove={onRemovePromo}
+          />
+          {creditBalance > 0 && onUseAccountCreditChange && (
+            <div className="mt-3">
+              <Checkbox
+                checked={useAccountCredit}
+                onChange={onUseAccountCreditChange}
+                disabled={loading}
+                label={`Use my account credit (${formatCurrency(
+                  creditBalance
+                )} available)`}
+              />
+            </div>
+          )}
+        </section>
+
         {/* Pricing Summary */}
         <section
           className="border-t border-gray-200 pt-4"
@@ -455,6 +620,38 @@ export const BookingConfirmationStep: React.FC<
               />
             )}
 
+            {pricing.youngDriverFees?.map((fee) => (
+              <SummaryLineItem
+                key={fee.driverLabel}
+                label={`Young Driver Surcharge (${fee.driverLabel}):`}
+                value={formatCurrency(fee.amount, true)}
+                description={YOUNG_DRIVER_TIER_LABELS[fee.tier]}
+              />
+            ))}
+
+            {pricing.promo && !!pricing.discountAmount && (
+              <SummaryLineItem
+                label={`Promo ${pricing.promo.code}:`}
+                value={`-${formatCurrency(pricing.discountAmount)}`}
+                description={pricing.promo.description || undefined}
+              />
+            )}
+
+            {!!pricing.accountCreditApplied && (
+              <SummaryLineItem
+                label="Account Credit:"
+                value={`-${formatCurrency(pricing.accountCreditApplied)}`}
+              />
+            )}
+
+            {pricing.loyalty && (
+              <SummaryLineItem
+                label={`${pricing.loyalty.tierName} Member Benefits:`}
+                value={`${formatCurrency(pricing.loyalty.totalSavings)} saved`}
+                description="Waived fees and deposit discount, already included"
+              />
+            )}
+
             <SummaryLineItem
               label="Security Deposit (Refundable):"
               value={formatCurrency(pricing.securityDeposit, true)}
@@ -494,6 +691,24 @@ export const BookingConfirmationStep: React.FC<
               {formatCurrency(pricing.additionalDriverFee)}
             </li>
           )}
+          {!!pricing.youngDriverFee && (
+            <li>
+              <strong>Young Driver Surcharge:</strong>{" "}
+              {formatCurrency(pricing.youngDriverFee)}
+            </li>
+          )}
+          {pricing.promo && !!pricing.discountAmount && (
+            <li>
+              <strong>Promo {pricing.promo.code}:</strong> -
+              {formatCurrency(pricing.discountAmount)}
+            </li>
+          )}
+          {!!pricing.accountCreditApplied && (
+            <li>
+              <strong>Account Credit:</strong> -
+              {formatCurrency(pricing.accountCreditApplied)}
+            </li>
+          )}
           <li>
             <strong>Security Deposit:</strong>{" "}
             {formatCurrency(pricing.securityDeposit)} (refundable)
@@ -11,7 +11,7 @@ import {
   Info,
   AlertTriangle,
 } from "lucide-react";
-import { Vehicle, BookingTotal, RentalType } from "@/types";
+import { Vehicle, BookingTotal, RentalType, AcademicTerm } from "@/types";
 import { Button, Card } from "@/components/ui";
 import { Loader } from "@/components/ui/Loader";
 import { PickupTypeSelector } from "../shared";
@@ -22,6 +22,8 @@ import {
 } from "@/services/deliveryLocations/deliveryLocationService";
 import { useBookingConfig } from "@/hooks";
 import { DeliveryTimeSlotSelector } from "../shared";
+import { StudentIdUpload } from "../shared";
+import { AcademicTermSelector } from "../shared";
 
 // ============================================
 // TYPES
@@ -57,6 +59,11 @@ interface DateSelectionStepProps {
   onPickupDateChange: (date: string) => void;
   onReturnDateChange: (date: string) => void;
   onIsStudentChange: (isStudent: boolean) => void;
+  /** Omit to hide the student ID upload (e.g. when modifying a booking) */
+  onStudentVerificationChange?: (verificationId: string | null) => void;
+  /** Semester rental term; omit the handler to hide the term picker */
+  academicTermId?: string | null;
+  onAcademicTermChange?: (term: AcademicTerm | null) => void;
   onPickupTypeChange: (type: PickupType) => void;
   // Validation
   dateValidation: DateValidationResult;
@@ -339,8 +346,9 @@ const StudentCheckbox: React.FC<{
             <span className="font-medium text-gray-900">I am a student</span>
           </div>
           <p className="text-sm text-gray-500 mt-1">
-            Get special semester pricing when you verify your student status at
-            pickup. You'll need to show a valid student ID.
+            Get special semester pricing for a whole school term with a valid
+            student ID. Upload it here and our team will review it before
+            pickup.
           </p>
         </div>
       </label>
@@ -403,6 +411,9 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
   onPickupDateChange,
   onReturnDateChange,
   onIsStudentChange,
+  onStudentVerificationChange,
+  academicTermId = null,
+  onAcademicTermChange,
   onPickupTypeChange,
   // Validation
   dateValidation,
@@ -715,6 +726,8 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
           {/* Delivery Time Slot - Show after location is selected */}
           {selectedLocation && (
             <DeliveryTimeSlotSelector
+              locationId={selectedLocation.id}
+              date={pickupDate}
               selectedSlot={deliveryTimeSlot}
               onSelect={onDeliveryTimeSlotChange}
             />
@@ -722,6 +735,22 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
         </fieldset>
       )}
 
+      {/* Student Checkbox */}
+      <StudentCheckbox
+        isStudent={isStudent}
+        onChange={onIsStudentChange}
+        id={ids.studentCheckbox}
+      />
+
+      {/* Academic term (sets both dates) */}
+      {isStudent && onAcademicTermChange && (
+        <AcademicTermSelector
+          vehicleId={vehicle.id}
+          selectedTermId={academicTermId}
+          onSelect={onAcademicTermChange}
+        />
+      )}
+
       {/* Date Selection */}
       <fieldset className="grid md:grid-cols-2 gap-6">
         <legend className="sr-only">Pickup and return dates</legend>
@@ -746,7 +775,8 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
               onChange={handlePickupDateChange}
               min={minPickupDate}
               max={maxPickupDate}
-              className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent ${
+              disabled={!!academicTermId}
+              className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed ${
                 pickupDateBlocked
                   ? "border-amber-300 bg-amber-50"
                   : "border-gray-200"
@@ -756,7 +786,9 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
             />
           </div>
           <p id={ids.pickupDateHint} className="text-xs text-gray-500 mt-1">
-            Earliest pickup: {minLeadTimeHours} hours from now
+            {academicTermId
+              ? "Set by the selected term"
+              : `Earliest pickup: ${minLeadTimeHours} hours from now`}
           </p>
           {pickupDateBlocked && (
             <div className="mt-2">
@@ -784,7 +816,7 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
               value={returnDate}
               onChange={handleReturnDateChange}
               min={minReturnDate}
-              disabled={!pickupDate}
+              disabled={!pickupDate || !!academicTermId}
               className={`w-full pl-10 pr-4 py-3 border rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100 disabled:cursor-not-allowed ${
                 returnDateBlocked
                   ? "border-amber-300 bg-amber-50"
@@ -798,6 +830,10 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
             <p id={ids.returnDateHint} className="text-xs text-gray-500 mt-1">
               Select pickup date first
             </p>
+          ) : academicTermId ? (
+            <p id={ids.returnDateHint} className="text-xs text-gray-500 mt-1">
+              Set by the selected term
+            </p>
           ) : (
             <MinRentalDaysInfo minDays={minRentalDays} />
           )}
@@ -832,16 +868,17 @@ export const DateSelectionStep: React.FC<DateSelectionStepProps> = ({
           pickupDate={pickupDate}
           returnDate={returnDate}
           rentalDays={dateValidation.rentalDays}
-          rentalType={dateValidation.rentalType}
+          rentalType={academicTermId ? "semester" : dateValidation.rentalType}
         />
       )}
 
-      {/* Student Checkbox */}
-      <StudentCheckbox
-        isStudent={isStudent}
-        onChange={onIsStudentChange}
-        id={ids.studentCheckbox}
-      />
+      {/* Student ID (required for student pricing) */}
+      {isStudent && onStudentVerificationChange && (
+        <StudentIdUpload
+          returnDate={returnDate}
+          onVerificationChange={onStudentVerificationChange}
+        />
+      )}
 
       {/* Pricing Summary */}
       {dateValidation.isValid && (
@@ -2,6 +2,8 @@ import React, { useCallback, useId, useMemo } from "react";
 import { Plus, Minus } from "lucide-react";
 import { Button } from "@/components/ui";
 import { useBookingConfig } from "@/hooks";
+import type { DriverEligibility } from "@/services/drivers/driverEligibility";
+import type { SavedDriver } from "@/types";
 import {
   PrimaryDriverForm,
   AdditionalDriverForm,
@@ -16,6 +18,12 @@ interface DriverInformationStepProps {
   primaryDriver: PrimaryDriverData;
   additionalDrivers: AdditionalDriverData[];
   showAdditionalDriver: boolean;
+  /** Age and license checks at pickup, primary first (useDriverEligibility) */
+  driverEligibility?: DriverEligibility[];
+  /** Rental return date, to flag licenses that expire mid-rental */
+  returnDate?: string;
+  /** Drivers saved on the customer's account, for one-click autofill */
+  savedDrivers?: SavedDriver[];
   onPrimaryDriverChange: (
     field: keyof PrimaryDriverData,
     value: string
@@ -47,6 +55,9 @@ export const DriverInformationStep: React.FC<DriverInformationStepProps> = ({
   primaryDriver,
   additionalDrivers,
   showAdditionalDriver,
+  driverEligibility,
+  returnDate,
+  savedDrivers,
   onPrimaryDriverChange,
   onAdditionalDriverChange,
   onAddDriver,
@@ -144,6 +155,9 @@ export const DriverInformationStep: React.FC<DriverInformationStepProps> = ({
       <PrimaryDriverForm
         data={primaryDriver}
         onChange={handlePrimaryDriverChange}
+        eligibility={driverEligibility?.[0]}
+        returnDate={returnDate}
+        savedDrivers={savedDrivers}
         disabled={disabled}
       />
 
@@ -206,6 +220,9 @@ export const DriverInformationStep: React.FC<DriverInformationStepProps> = ({
               onAdd={handleAddDriver}
               onRemove={handleRemoveDriver}
               onChange={handleAdditionalDriverChange}
+              eligibility={driverEligibility?.slice(1)}
+              returnDate={returnDate}
+              savedDrivers={savedDrivers}
               disabled={disabled}
             />
           )}
@@ -226,7 +243,8 @@ export const DriverInformationStep: React.FC<DriverInformationStepProps> = ({
       {/* Hidden validation hint for screen readers */}
       {!isValid && (
         <p id={ids.validationHint} className="sr-only">
-          Please complete all required driver information fields to continue
+          Please complete all required driver information fields and resolve
+          any driver eligibility issues to continue
         </p>
       )}
     </div>
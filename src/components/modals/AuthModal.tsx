@@ -1,7 +1,11 @@
 import React, { useState, useCallback, useEffect, useRef } from "react";
-import { X, Mail, Lock, User, Eye, EyeOff } from "lucide-react";
+import { X, Mail, Lock, User, Eye, EyeOff, Gift } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/Button";
+import {
+  clearStoredReferralCode,
+  getStoredReferralCode,
+} from "@/services/users/referralService";
 import * as Sentry from "@sentry/react";
 
 // ============================================
@@ -54,6 +58,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
   const [oauthLoading, setOauthLoading] = useState<OAuthProvider | null>(null);
   const [error, setError] = useState("");
   const [formData, setFormData] = useState<FormData>(INITIAL_FORM_DATA);
+  const [referralCode, setReferralCode] = useState<string | null>(null);
 
   // Auth context
   const { login, register, loginWithOAuth } = useAuth();
@@ -70,6 +75,11 @@ export const AuthModal: React.FC<AuthModalProps> = ({
     setMode(initialMode);
   }, [initialMode]);
 
+  // Pick up a referral code kept from a landing link
+  useEffect(() => {
+    if (isOpen) setReferralCode(getStoredReferralCode());
+  }, [isOpen]);
+
   // Focus management - focus close button when modal opens
   useEffect(() => {
     if (isOpen && closeButtonRef.current) {
@@ -198,11 +208,13 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             formData.email,
             formData.password,
             formData.firstName,
-            formData.lastName
+            formData.lastName,
+            referralCode
           );
 
           // If we get here, registration was successful
           // Check if email confirmation is required
+          clearStoredReferralCode();
           onClose();
         } else {
           // Login
@@ -215,6 +227,9 @@ export const AuthModal: React.FC<AuthModalProps> = ({
         // Handle specific error types
         if (err instanceof Error) {
           if (err.message === "CONFIRMATION_REQUIRED") {
+            // The account exists; the referral went with the sign-up
+            clearStoredReferralCode();
+            setReferralCode(null);
             setError(
               "Account created! Please check your email to verify your account before logging in."
             );
@@ -240,7 +255,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
         setLoading(false);
       }
     },
-    [mode, formData, login, register, onClose]
+    [mode, formData, referralCode, login, register, onClose]
   );
 
   // ============================================
@@ -552,6 +567,19 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             </div>
           )}
 
+          {/* Referral from a friend's link */}
+          {mode === "register" && referralCode && (
+            <div
+              className="flex items-center gap-2 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg font-body text-sm"
+              role="note"
+            >
+              <Gift className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+              <span>
+                Signing up with referral code <strong>{referralCode}</strong>
+              </span>
+            </div>
+          )}
+
           {/* Submit Button */}
           <Button
             type="submit"
@@ -7,13 +7,16 @@ import React, {
   useRef,
 } from "react";
 import { X, ArrowLeft } from "lucide-react";
-import { Vehicle, BookingTotal } from "@/types";
+import { Vehicle, BookingTotal, AcademicTerm } from "@/types";
 import { useAuth } from "@/hooks/useAuth";
 import {
   usePricing,
   useDateValidation,
   useBookingConfig,
   useAvailability,
+  useDriverEligibility,
+  useSavedDrivers,
+  useAccountCredits,
 } from "@/hooks";
 import {
   deliveryLocationService,
@@ -21,6 +24,12 @@ import {
   CityOption,
 } from "@/services/deliveryLocations/deliveryLocationService";
 import { userProfileService } from "@/services/users/userProfileService";
+import {
+  savedDriverService,
+  savedDriverFields,
+} from "@/services/users/savedDriverService";
+import { getTermDateTimes } from "@/services/students/academicTermService";
+import { DEFAULT_LICENSE_COUNTRY } from "@/services/drivers/driverEligibility";
 import * as Sentry from "@sentry/react";
 
 // Booking Components
@@ -49,7 +58,8 @@ interface BookingData {
   pickupDate: string;
   returnDate: string;
   isStudent: boolean;
-  studentIdUrl: string | null;
+  studentVerificationId: string | null;
+  academicTermId: string | null;
   pickupType: "store" | "delivery";
   pickupLocation: string;
   deliveryTimeSlot: string | null;
@@ -58,6 +68,8 @@ interface BookingData {
   deliveryFee: number;
   primaryDriver: PrimaryDriverData;
   additionalDrivers: AdditionalDriverData[];
+  promoCode: string | null;
+  useAccountCredit: boolean;
 }
 
 // ============================================
@@ -74,6 +86,8 @@ const INITIAL_PRIMARY_DRIVER: PrimaryDriverData = {
   phone: "",
   dateOfBirth: "",
   driversLicenseNumber: "",
+  licenseCountry: DEFAULT_LICENSE_COUNTRY,
+  licenseExpiry: "",
   streetAddress: "",
   city: "",
   state: "",
@@ -84,7 +98,8 @@ const createInitialBookingData = (email: string): BookingData => ({
   pickupDate: "",
   returnDate: "",
   isStudent: false,
-  studentIdUrl: null,
+  studentVerificationId: null,
+  academicTermId: null,
   pickupType: "store",
   pickupLocation: STORE_LOCATION,
   deliveryTimeSlot: null,
@@ -96,6 +111,8 @@ const createInitialBookingData = (email: string): BookingData => ({
     email,
   },
   additionalDrivers: [],
+  promoCode: null,
+  useAccountCredit: false,
 });
 
 // ============================================
@@ -154,6 +171,7 @@ function saveDriverInfoToStorage(driver: PrimaryDriverData): void {
       phone: driver.phone,
       dateOfBirth: driver.dateOfBirth,
       driversLicenseNumber: driver.driversLicenseNumber,
+      licenseExpiry: driver.licenseExpiry,
       streetAddress: driver.streetAddress,
       city: driver.city,
       state: driver.state,
@@ -232,6 +250,7 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     isDateBlocked,
     getBlockedReason,
     loading: availabilityLoading,
+    refetch: refetchAvailability,
   } = useAvailability({
     vehicleId: vehicle?.id || null,
     enabled: isOpen,
@@ -245,6 +264,36 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     returnDate: bookingData.returnDate || null,
   });
 
+  // ============================================
+  // DRIVER ELIGIBILITY (age at pickup, license country)
+  // ============================================
+  // Invited drivers are checked once they add their own details
+  const eligibilityDrivers = useMemo(
+    () =>
+      bookingData.additionalDrivers.map((driver) =>
+        driver.inviteByEmail ? { ...driver, pending: true } : driver,
+      ),
+    [bookingData.additionalDrivers],
+  );
+
+  const driverEligibility = useDriverEligibility(
+    bookingData.primaryDriver,
+    eligibilityDrivers,
+    bookingData.pickupDate,
+  );
+
+  // ============================================
+  // SAVED DRIVERS (account address book)
+  // ============================================
+  const { drivers: savedDrivers, primary: savedPrimaryDriver } =
+    useSavedDrivers(isOpen);
+
+  // ============================================
+  // ACCOUNT CREDIT (referral rewards)
+  // ============================================
+  const { balance: creditBalance, refetch: refetchCredits } =
+    useAccountCredits(isOpen);
+
   // ============================================
   // PRICING (from database)
   // ============================================
@@ -253,13 +302,19 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     breakdown,
     loading: pricingLoading,
     error: pricingError,
+    promoLoading,
+    promoError,
   } = usePricing({
     vehicleId: vehicle?.id || null,
     pickupDate: bookingData.pickupDate || null,
     returnDate: bookingData.returnDate || null,
     isStudent: bookingData.isStudent,
+    academicTermId: bookingData.academicTermId,
     deliveryFee: bookingData.deliveryFee,
     additionalDrivers: bookingData.additionalDrivers.length,
+    youngDriverFees: driverEligibility.youngDriverFees,
+    promoCode: bookingData.promoCode,
+    accountCredit: bookingData.useAccountCredit ? creditBalance : 0,
     enabled: dateValidation.isValid,
   });
 
@@ -316,6 +371,11 @@ export const BookingModal: React.FC<BookingModalProps> = ({
       }
     }
 
+    // Student pricing needs a student ID valid through the return date
+    if (bookingData.isStudent && !bookingData.studentVerificationId) {
+      return false;
+    }
+
     // For delivery, need city, location, AND time slot selected
     if (bookingData.pickupType === "delivery") {
       return (
@@ -331,6 +391,8 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     pricing,
     bookingData.pickupDate,
     bookingData.returnDate,
+    bookingData.isStudent,
+    bookingData.studentVerificationId,
     bookingData.pickupType,
     bookingData.selectedCity,
     bookingData.deliveryLocationId,
@@ -351,9 +413,10 @@ export const BookingModal: React.FC<BookingModalProps> = ({
       primaryDriver.streetAddress.trim() !== "" &&
       primaryDriver.city.trim() !== "" &&
       primaryDriver.state.trim() !== "" &&
-      primaryDriver.zipCode.trim() !== ""
+      primaryDriver.zipCode.trim() !== "" &&
+      driverEligibility.eligible
     );
-  }, [bookingData]);
+  }, [bookingData, driverEligibility.eligible]);
 
   // ============================================
   // DATA FETCHING
@@ -412,6 +475,8 @@ export const BookingModal: React.FC<BookingModalProps> = ({
             driversLicenseNumber:
               profile.driversLicenseNumber ||
               prev.primaryDriver.driversLicenseNumber,
+            licenseCountry: prev.primaryDriver.licenseCountry,
+            licenseExpiry: prev.primaryDriver.licenseExpiry,
             streetAddress:
               profile.streetAddress || prev.primaryDriver.streetAddress,
             city: profile.city || prev.primaryDriver.city,
@@ -453,6 +518,30 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     fetchUserProfile();
   }, [isOpen, fetchAvailableCities, fetchUserProfile, currentUser?.email]);
 
+  // Fill in the primary driver from the account holder's saved details,
+  // unless the form already holds a different license
+  useEffect(() => {
+    if (!isOpen || !savedPrimaryDriver) return;
+
+    setBookingData((prev) => {
+      const license = prev.primaryDriver.driversLicenseNumber
+        .trim()
+        .toUpperCase();
+      if (license && license !== savedPrimaryDriver.driversLicenseNumber) {
+        return prev;
+      }
+
+      const primaryDriver = { ...prev.primaryDriver };
+      savedDriverFields(savedPrimaryDriver).forEach(([field, value]) => {
+        if (!primaryDriver[field] || (!license && field === "licenseCountry")) {
+          primaryDriver[field] = value;
+        }
+      });
+
+      return { ...prev, primaryDriver };
+    });
+  }, [isOpen, savedPrimaryDriver]);
+
   // Fetch locations when city changes
   useEffect(() => {
     if (bookingData.selectedCity) {
@@ -512,7 +601,15 @@ export const BookingModal: React.FC<BookingModalProps> = ({
   }, []);
 
   const handlePickupDateChange = useCallback((date: string) => {
-    setBookingData((prev) => ({ ...prev, pickupDate: date }));
+    setBookingData((prev) => ({
+      ...prev,
+      pickupDate: date,
+      // Delivery slots differ per day
+      deliveryTimeSlot:
+        prev.pickupDate.split("T")[0] === date.split("T")[0]
+          ? prev.deliveryTimeSlot
+          : null,
+    }));
   }, []);
 
   const handleReturnDateChange = useCallback((date: string) => {
@@ -523,11 +620,54 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     setBookingData((prev) => ({
       ...prev,
       isStudent,
-      // Clear student ID if unchecked
-      studentIdUrl: isStudent ? prev.studentIdUrl : null,
+      // Clear student ID and term if unchecked
+      studentVerificationId: isStudent ? prev.studentVerificationId : null,
+      academicTermId: isStudent ? prev.academicTermId : null,
     }));
   }, []);
 
+  const handleStudentVerificationChange = useCallback(
+    (verificationId: string | null) => {
+      setBookingData((prev) =>
+        prev.studentVerificationId === verificationId
+          ? prev
+          : { ...prev, studentVerificationId: verificationId }
+      );
+    },
+    []
+  );
+
+  const handleAcademicTermChange = useCallback((term: AcademicTerm | null) => {
+    setBookingData((prev) => {
+      if (!term) return { ...prev, academicTermId: null };
+
+      const { pickupDate, returnDate } = getTermDateTimes(term);
+      return {
+        ...prev,
+        academicTermId: term.id,
+        pickupDate,
+        returnDate,
+        // Delivery slots differ per day
+        deliveryTimeSlot:
+          prev.pickupDate.split("T")[0] === term.startDate
+            ? prev.deliveryTimeSlot
+            : null,
+      };
+    });
+  }, []);
+
+  const handleApplyPromo = useCallback((code: string) => {
+    setBookingData((prev) => ({ ...prev, promoCode: code }));
+  }, []);
+
+  const handleRemovePromo = useCallback(() => {
+    setBookingData((prev) => ({ ...prev, promoCode: null }));
+  }, []);
+
+  const handleUseAccountCreditChange = useCallback((use: boolean) => {
+    setBookingData((prev) => ({ ...prev, useAccountCredit: use }));
+  }, []);
+
   const handlePickupTypeChange = useCallback((type: "store" | "delivery") => {
     setBookingData((prev) => ({
       ...prev,
@@ -610,11 +750,14 @@ export const BookingModal: React.FC<BookingModalProps> = ({
           phone: "",
           dateOfBirth: "",
           driversLicenseNumber: "",
+          licenseCountry: DEFAULT_LICENSE_COUNTRY,
+          licenseExpiry: "",
           streetAddress: "",
           city: "",
           state: "",
           zipCode: "",
           sameAddressAsPrimary: false,
+          inviteByEmail: false,
         },
       ],
     }));
@@ -686,7 +829,7 @@ export const BookingModal: React.FC<BookingModalProps> = ({
     try {
       logInfo("Starting booking submission");
 
-      // Step 1: Save profile (with timeout, non-blocking)
+      // Step 1: Save profile and drivers (with timeout, non-blocking)
       try {
         const profileSavePromise = userProfileService.upsertProfile(
           currentUser.id,
@@ -704,6 +847,20 @@ export const BookingModal: React.FC<BookingModalProps> = ({
           },
         );
 
+        const driversSavePromise = savedDriverService.rememberDrivers(
+          currentUser.id,
+          [
+            { ...bookingData.primaryDriver, isPrimary: true, licenseState: "" },
+            ...bookingData.additionalDrivers
+              .filter((driver) => !driver.inviteByEmail)
+              .map((driver) => ({
+                ...driver,
+                isPrimary: false,
+                licenseState: "",
+              })),
+          ],
+        );
+
         const timeoutPromise = new Promise<never>((_, reject) =>
           setTimeout(
             () => reject(new Error("Profile save timeout")),
@@ -711,8 +868,11 @@ export const BookingModal: React.FC<BookingModalProps> = ({
           ),
         );
 
-        await Promise.race([profileSavePromise, timeoutPromise]);
-        logInfo("Profile saved successfully");
+        await Promise.race([
+          Promise.all([profileSavePromise, driversSavePromise]),
+          timeoutPromise,
+        ]);
+        logInfo("Profile and drivers saved successfully");
       } catch (profileError) {
         logWarning("Profile save failed (continuing anyway)", profileError);
       }
@@ -758,10 +918,17 @@ export const BookingModal: React.FC<BookingModalProps> = ({
         rentalAmount: pricing.rentalAmount,
         securityDeposit: pricing.securityDeposit,
         additionalDriverFee: pricing.additionalDriverFee,
+        youngDriverFee: pricing.youngDriverFee || 0,
+        discountAmount: pricing.discountAmount || 0,
         totalAmount: pricing.totalDueNow,
+        // Only a code that checked out; the server applies it again
+        promoCode: pricing.promo?.code || null,
+        useAccountCredit: !!pricing.accountCreditApplied,
+        accountCreditApplied: pricing.accountCreditApplied || 0,
         // Student info
         isStudentBooking: bookingData.isStudent,
-        studentIdUrl: bookingData.studentIdUrl,
+        studentVerificationId: bookingData.studentVerificationId,
+        academicTermId: bookingData.academicTermId,
         // Customer info
         customerEmail: bookingData.primaryDriver.email,
         primaryDriver: {
@@ -769,8 +936,16 @@ export const BookingModal: React.FC<BookingModalProps> = ({
           isAccountHolder: true,
         },
         additionalDrivers: bookingData.additionalDrivers.map((driver) => {
-          const { sameAddressAsPrimary, ...driverData } = driver;
-          return driverData;
+          const { sameAddressAsPrimary, inviteByEmail, ...driverData } =
+            driver;
+          return inviteByEmail
+            ? {
+                firstName: driver.firstName,
+                lastName: driver.lastName,
+                email: driver.email,
+                invite: true,
+              }
+            : driverData;
         }),
       };
 
@@ -804,6 +979,53 @@ export const BookingModal: React.FC<BookingModalProps> = ({
           status: response.status,
           errorText,
         });
+
+        let errorBody: { error?: string; code?: string } = {};
+        try {
+          errorBody = JSON.parse(errorText) as typeof errorBody;
+        } catch {
+          errorBody = {};
+        }
+        const code = errorBody.code;
+
+        // A driver fails the age or license rules (server lists the reasons)
+        if (code === "DRIVER_INELIGIBLE" && errorBody.error) {
+          throw new Error(errorBody.error);
+        }
+
+        // Credit was spent elsewhere since the balance was shown
+        if (code === "CREDIT_UNAVAILABLE") {
+          refetchCredits();
+          throw new Error(
+            errorBody.error ||
+              "Your account credit balance changed. Please review your booking.",
+          );
+        }
+
+        // The promo code expired or ran out since it was applied
+        if (code === "PROMO_INVALID") {
+          setBookingData((prev) => ({ ...prev, promoCode: null }));
+          throw new Error(
+            errorBody.error || "This promo code is no longer available.",
+          );
+        }
+
+        if (response.status === 409) {
+          // The delivery slot filled up or closed since it was shown
+          if (code === "SLOT_UNAVAILABLE") {
+            setBookingData((prev) => ({ ...prev, deliveryTimeSlot: null }));
+            throw new Error(
+              "That delivery time is no longer available. Please choose another time.",
+            );
+          }
+
+          // Another customer is checking out or booked these dates meanwhile
+          refetchAvailability();
+          throw new Error(
+            "These dates were just reserved by another customer. Please choose different dates.",
+          );
+        }
+
         throw new Error("Failed to create booking. Please try again.");
       }
 
@@ -827,7 +1049,14 @@ export const BookingModal: React.FC<BookingModalProps> = ({
       logError("handleSubmit", err);
       setLoading(false);
     }
-  }, [vehicle, currentUser, bookingData, pricing]);
+  }, [
+    vehicle,
+    currentUser,
+    bookingData,
+    pricing,
+    refetchAvailability,
+    refetchCredits,
+  ]);
 
   // ============================================
   // RENDER
@@ -939,6 +1168,9 @@ export const BookingModal: React.FC<BookingModalProps> = ({
               onPickupDateChange={handlePickupDateChange}
               onReturnDateChange={handleReturnDateChange}
               onIsStudentChange={handleIsStudentChange}
+              onStudentVerificationChange={handleStudentVerificationChange}
+              academicTermId={bookingData.academicTermId}
+              onAcademicTermChange={handleAcademicTermChange}
               onPickupTypeChange={handlePickupTypeChange}
               // Validation
               dateValidation={dateValidation}
@@ -963,6 +1195,9 @@ export const BookingModal: React.FC<BookingModalProps> = ({
               primaryDriver={bookingData.primaryDriver}
               additionalDrivers={bookingData.additionalDrivers}
               showAdditionalDriver={showAdditionalDriver}
+              driverEligibility={driverEligibility.drivers}
+              returnDate={bookingData.returnDate}
+              savedDrivers={savedDrivers}
               onPrimaryDriverChange={handlePrimaryDriverChange}
               onAdditionalDriverChange={handleUpdateAdditionalDriver}
               onAddDriver={handleAddAdditionalDriver}
@@ -988,6 +1223,14 @@ export const BookingModal: React.FC<BookingModalProps> = ({
               primaryDriver={bookingData.primaryDriver}
               additionalDrivers={bookingData.additionalDrivers}
               loading={loading}
+              promoCode={bookingData.promoCode}
+              promoLoading={promoLoading}
+              promoError={promoError}
+              onApplyPromo={handleApplyPromo}
+              onRemovePromo={handleRemovePromo}
+              creditBalance={creditBalance}
+              useAccountCredit={bookingData.useAccountCredit}
+              onUseAccountCreditChange={handleUseAccountCreditChange}
               onSubmit={handleSubmit}
             />
           )}
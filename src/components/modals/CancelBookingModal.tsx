@@ -0,0 +1,335 @@
+import React, { useState, useCallback, useEffect } from "react";
+import { X, AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { bookingService } from "@/services/bookings/bookingService";
+import { Booking, CancellationPreview } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface CancelBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Booking;
+  onSuccess?: () => void;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_REASON_LENGTH = 500;
+
+// ============================================
+// HELPERS
+// ============================================
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+export const CancelBookingModal: React.FC<CancelBookingModalProps> = ({
+  isOpen,
+  onClose,
+  booking,
+  onSuccess,
+}) => {
+  const [preview, setPreview] = useState<CancellationPreview | null>(null);
+  const [reason, setReason] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  // ============================================
+  // LOAD REFUND PREVIEW
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setChecking(true);
+      setError(null);
+      setPreview(null);
+
+      try {
+        const result = await bookingService.previewCancellation(booking.id);
+        if (!cancelled) setPreview(result);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to calculate your refund.",
+          );
+        }
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking.id]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleClose = useCallback(() => {
+    if (loading) return;
+    setReason("");
+    setError(null);
+    setPreview(null);
+    if (success) onSuccess?.();
+    setSuccess(false);
+    onClose();
+  }, [loading, success, onClose, onSuccess]);
+
+  const handleConfirm = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await bookingService.cancelBooking(
+        booking.id,
+        reason.trim() || undefined,
+      );
+      setPreview(result);
+      setSuccess(true);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred. Please try again.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [booking.id, reason]);
+
+  // ============================================
+  // KEYBOARD HANDLER
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) {
+        handleClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, loading, handleClose]);
+
+  // Prevent body scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="presentation"
+      onClick={handleClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="cancel-booking-modal-title"
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2
+              id="cancel-booking-modal-title"
+              className="text-xl font-semibold text-gray-900"
+            >
+              Cancel Booking
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {booking.vehicle?.name ? `${booking.vehicle.name} • ` : ""}
+              {booking.bookingNumber || booking.id.slice(0, 8).toUpperCase()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Success State */}
+        {success ? (
+          <div className="p-8 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Booking cancelled
+            </h3>
+            <p className="text-gray-600 text-sm">
+              {preview && preview.totalRefund > 0
+                ? `A refund of ${formatCurrency(preview.totalRefund)} is on its way to your original payment method. Refunds usually appear within 5–10 business days.`
+                : "Your booking has been cancelled."}
+            </p>
+          </div>
+        ) : checking ? (
+          <div className="p-8 flex justify-center" role="status">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-5">
+            {/* Error Display */}
+            {error && (
+              <div
+                role="alert"
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2"
+              >
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Refund Preview */}
+            {preview && (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                  Refund Preview
+                </h3>
+                {preview.paid ? (
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Rental charges paid</span>
+                      <span className="text-gray-900">
+                        {formatCurrency(preview.rentCharged)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Cancellation fee</span>
+                      <span className="text-red-600">
+                        -{formatCurrency(preview.cancellationFee)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Rental refund</span>
+                      <span className="text-gray-900">
+                        {formatCurrency(preview.rentRefund)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">
+                        Security deposit refund
+                      </span>
+                      <span className="text-gray-900">
+                        {formatCurrency(preview.depositRefund)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between pt-2 border-t border-gray-200">
+                      <span className="font-semibold text-gray-900">
+                        Total refund
+                      </span>
+                      <span className="font-bold text-green-600 text-base">
+                        {formatCurrency(preview.totalRefund)}
+                      </span>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    No payment has been taken for this booking, so there is
+                    nothing to refund and no cancellation fee.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {preview && (
+              <p className="text-xs text-gray-500">
+                Bookings can be cancelled online up to {preview.cutoffHours}{" "}
+                hours before pickup. Cancelling can't be undone.
+              </p>
+            )}
+
+            {/* Reason */}
+            {preview && (
+              <div>
+                <label
+                  htmlFor="cancellationReason"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Reason (optional)
+                </label>
+                <textarea
+                  id="cancellationReason"
+                  value={reason}
+                  onChange={(e) =>
+                    setReason(e.target.value.slice(0, MAX_REASON_LENGTH))
+                  }
+                  rows={3}
+                  disabled={loading}
+                  className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+                />
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                fullWidth
+                onClick={handleClose}
+                disabled={loading}
+              >
+                Keep Booking
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                fullWidth
+                onClick={handleConfirm}
+                disabled={loading || !preview}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Cancelling...
+                  </>
+                ) : (
+                  "Confirm Cancellation"
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CancelBookingModal;
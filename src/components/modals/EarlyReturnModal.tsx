@@ -0,0 +1,636 @@
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  X,
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  Calendar,
+  Clock,
+  CreditCard,
+} from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { DeliveryTimeSlotSelector } from "@/components/bookings/shared";
+import { useStoreHours } from "@/hooks/useConfig";
+import { bookingService } from "@/services/bookings/bookingService";
+import { businessNow, toBusinessDateString } from "@/utils/dates";
+import { Booking, EarlyReturnQuote, EarlyReturnRequest } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface EarlyReturnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Booking;
+  onSuccess?: () => void;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split("T")[0]}T00:00:00`).toLocaleDateString(
+    "en-US",
+    { weekday: "short", month: "short", day: "numeric", year: "numeric" }
+  );
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/** Hourly drop-off times from opening until an hour before closing */
+function getStoreTimes(open: string, close: string): string[] {
+  const openHour = parseInt(open, 10);
+  const closeHour = parseInt(close, 10);
+  if (!Number.isFinite(openHour) || !Number.isFinite(closeHour)) return [];
+
+  const times: string[] = [];
+  for (let hour = openHour; hour < closeHour; hour++) {
+    times.push(`${String(hour).padStart(2, "0")}:00`);
+  }
+  return times;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+export const EarlyReturnModal: React.FC<EarlyReturnModalProps> = ({
+  isOpen,
+  onClose,
+  booking,
+  onSuccess,
+}) => {
+  const [existingRequest, setExistingRequest] =
+    useState<EarlyReturnRequest | null>(null);
+  const [returnDate, setReturnDate] = useState("");
+  const [returnTime, setReturnTime] = useState<string | null>(null);
+  const [quote, setQuote] = useState<EarlyReturnQuote | null>(null);
+  const [loadingRequest, setLoadingRequest] = useState(false);
+  const [quoting, setQuoting] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const storeHours = useStoreHours();
+  const isDelivery =
+    booking.pickupType === "delivery" && !!booking.deliveryLocationId;
+
+  // Earliest: today (and after pickup). Latest: the day before the return.
+  const dateLimits = useMemo(() => {
+    const today = businessNow().toISODate() as string;
+    const dayAfterPickup = addDays(
+      toBusinessDateString(new Date(booking.pickupDate)),
+      1
+    );
+    return {
+      min: today > dayAfterPickup ? today : dayAfterPickup,
+      max: addDays(toBusinessDateString(new Date(booking.returnDate)), -1),
+    };
+  }, [booking.pickupDate, booking.returnDate]);
+
+  const storeTimes = useMemo(() => {
+    if (!returnDate) return [];
+    const isSunday = new Date(`${returnDate}T00:00:00Z`).getUTCDay() === 0;
+    return isSunday
+      ? getStoreTimes(storeHours.sundayOpen, storeHours.sundayClose)
+      : getStoreTimes(storeHours.weekdayOpen, storeHours.weekdayClose);
+  }, [returnDate, storeHours]);
+
+  // ============================================
+  // LOAD EXISTING REQUEST
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoadingRequest(true);
+      setError(null);
+
+      try {
+        const request = await bookingService.getEarlyReturnRequest(booking.id);
+        if (!cancelled) setExistingRequest(request);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to load your early return request."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoadingRequest(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking.id]);
+
+  // ============================================
+  // QUOTE FOR THE CHOSEN DATE
+  // ============================================
+  useEffect(() => {
+    if (!isOpen || !returnDate) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setQuoting(true);
+      setError(null);
+      setQuote(null);
+
+      try {
+        const result = await bookingService.previewEarlyReturn(
+          booking.id,
+          returnDate
+        );
+        if (!cancelled) setQuote(result);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to calculate your early return."
+          );
+        }
+      } finally {
+        if (!cancelled) setQuoting(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking.id, returnDate]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleClose = useCallback(() => {
+    if (loading) return;
+    setReturnDate("");
+    setReturnTime(null);
+    setQuote(null);
+    setError(null);
+    setExistingRequest(null);
+    if (success) onSuccess?.();
+    setSuccess(false);
+    onClose();
+  }, [loading, success, onClose, onSuccess]);
+
+  const handleDateChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setReturnDate(e.target.value);
+      // Slots differ per day
+      setReturnTime(null);
+    },
+    []
+  );
+
+  const handleSubmit = useCallback(async () => {
+    if (!returnDate || !returnTime) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await bookingService.requestEarlyReturn(
+        booking.id,
+        returnDate,
+        returnTime
+      );
+      setQuote(result);
+      setSuccess(true);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred. Please try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [booking.id, returnDate, returnTime]);
+
+  const handleWithdraw = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await bookingService.cancelEarlyReturn(booking.id);
+      setExistingRequest(null);
+      onSuccess?.();
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred. Please try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [booking.id, onSuccess]);
+
+  // ============================================
+  // KEYBOARD HANDLER
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) {
+        handleClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, loading, handleClose]);
+
+  // Prevent body scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const hasDates = dateLimits.min <= dateLimits.max;
+
+  const renderExistingRequest = (request: EarlyReturnRequest) => (
+    <div className="p-6 space-y-5">
+      <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Return date</span>
+          <span className="text-gray-900">
+            {formatDate(
+              toBusinessDateString(new Date(request.requestedReturnDate))
+            )}
+            {request.returnTime ? ` • ${formatTime(request.returnTime)}` : ""}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Early return fee</span>
+          <span className="text-gray-900">
+            {formatCurrency(request.earlyReturnFee)}
+          </span>
+        </div>
+        {request.additionalCharge > 0 ? (
+          <div className="flex justify-between pt-2 border-t border-gray-200">
+            <span className="font-semibold text-gray-900">Amount due</span>
+            <span className="font-bold text-gray-900 text-base">
+              {formatCurrency(request.additionalCharge)}
+            </span>
+          </div>
+        ) : (
+          <div className="flex justify-between pt-2 border-t border-gray-200">
+            <span className="font-semibold text-gray-900">Refund</span>
+            <span className="font-bold text-green-600 text-base">
+              {formatCurrency(request.refundAmount)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {request.status === "requested" && (
+        <>
+          <p className="text-sm text-gray-600">
+            We've received your request. The final amount is confirmed when
+            our team checks the vehicle back in.
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            fullWidth
+            onClick={handleWithdraw}
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Withdrawing...
+              </>
+            ) : (
+              "Withdraw Request"
+            )}
+          </Button>
+        </>
+      )}
+
+      {request.status === "awaiting_payment" && (
+        <>
+          <p className="text-sm text-gray-600">
+            Your return has been confirmed. Please pay the remaining balance
+            for the shorter rental.
+          </p>
+          {request.checkoutUrl ? (
+            <a
+              href={request.checkoutUrl}
+              className="flex items-center justify-center gap-2 w-full px-4 py-3 bg-gray-900 text-white rounded-xl font-medium hover:bg-gray-800 transition-colors"
+            >
+              <CreditCard className="w-4 h-4" />
+              Pay {formatCurrency(request.additionalCharge)}
+            </a>
+          ) : (
+            <p className="text-sm text-amber-600">
+              Your payment link has expired. Please contact us for a new one.
+            </p>
+          )}
+        </>
+      )}
+
+      {request.status === "completed" && (
+        <p className="text-sm text-gray-600">
+          Your early return is complete.
+          {request.refundAmount > 0 &&
+            " Refunds usually appear within 5–10 business days."}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="presentation"
+      onClick={handleClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="early-return-modal-title"
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2
+              id="early-return-modal-title"
+              className="text-xl font-semibold text-gray-900"
+            >
+              Return Early
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {booking.vehicle?.name ? `${booking.vehicle.name} • ` : ""}
+              {booking.bookingNumber || booking.id.slice(0, 8).toUpperCase()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="px-6 pt-6">
+            <div
+              role="alert"
+              className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2"
+            >
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Success State */}
+        {success && quote ? (
+          <div className="p-8 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Early return requested
+            </h3>
+            <p className="text-gray-600 text-sm">
+              {quote.refundAmount > 0
+                ? `Once we've checked the vehicle back in on ${formatDate(quote.returnDate)}, ${formatCurrency(quote.refundAmount)} will be refunded to your original payment method.`
+                : quote.additionalCharge > 0
+                  ? `Once we've checked the vehicle back in on ${formatDate(quote.returnDate)}, we'll send you a link to pay the ${formatCurrency(quote.additionalCharge)} balance.`
+                  : `We'll see you on ${formatDate(quote.returnDate)}.`}
+            </p>
+          </div>
+        ) : loadingRequest ? (
+          <div className="p-8 flex justify-center" role="status">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : existingRequest ? (
+          renderExistingRequest(existingRequest)
+        ) : !hasDates ? (
+          <div className="p-6">
+            <p className="text-sm text-gray-600">
+              Your rental ends soon, so it can't be shortened online. Please
+              contact us if you need to return the vehicle today.
+            </p>
+          </div>
+        ) : (
+          <div className="p-6 space-y-5">
+            {/* Return Date */}
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Calendar className="w-4 h-4 text-gray-500" aria-hidden="true" />
+                <label
+                  htmlFor="earlyReturnDate"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  New return date
+                </label>
+              </div>
+              <input
+                id="earlyReturnDate"
+                type="date"
+                value={returnDate}
+                min={dateLimits.min}
+                max={dateLimits.max}
+                onChange={handleDateChange}
+                disabled={loading}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Currently due back {formatDate(booking.returnDate)}
+              </p>
+            </div>
+
+            {/* Return Time */}
+            {returnDate &&
+              (isDelivery ? (
+                <DeliveryTimeSlotSelector
+                  locationId={booking.deliveryLocationId as string}
+                  date={returnDate}
+                  selectedSlot={returnTime}
+                  onSelect={setReturnTime}
+                  disabled={loading}
+                  label="Collection Time"
+                />
+              ) : (
+                <div>
+                  <div className="flex items-center gap-2 mb-2">
+                    <Clock
+                      className="w-4 h-4 text-gray-500"
+                      aria-hidden="true"
+                    />
+                    <label
+                      htmlFor="earlyReturnTime"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Drop-off time at the store
+                    </label>
+                  </div>
+                  <select
+                    id="earlyReturnTime"
+                    value={returnTime || ""}
+                    onChange={(e) => setReturnTime(e.target.value || null)}
+                    disabled={loading || storeTimes.length === 0}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+                  >
+                    <option value="">Select a time</option>
+                    {storeTimes.map((time) => (
+                      <option key={time} value={time}>
+                        {formatTime(time)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+            {/* Quote */}
+            {quoting && (
+              <div className="flex justify-center py-2" role="status">
+                <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+              </div>
+            )}
+
+            {quote && !quoting && (
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                  Your Quote
+                </h3>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      Rent paid ({quote.originalDays} days)
+                    </span>
+                    <span className="text-gray-900">
+                      {formatCurrency(quote.originalAmount)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      Rent for {quote.billedDays} days
+                    </span>
+                    <span className="text-gray-900">
+                      -{formatCurrency(quote.usedAmount)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Early return fee</span>
+                    <span className="text-red-600">
+                      -{formatCurrency(quote.earlyReturnFee)}
+                    </span>
+                  </div>
+                  {quote.additionalCharge > 0 ? (
+                    <div className="flex justify-between pt-2 border-t border-gray-200">
+                      <span className="font-semibold text-gray-900">
+                        You'll owe
+                      </span>
+                      <span className="font-bold text-gray-900 text-base">
+                        {formatCurrency(quote.additionalCharge)}
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between pt-2 border-t border-gray-200">
+                      <span className="font-semibold text-gray-900">
+                        Estimated refund
+                      </span>
+                      <span className="font-bold text-green-600 text-base">
+                        {formatCurrency(quote.refundAmount)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                {quote.billedDays > quote.actualDays && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Rentals are billed for at least {quote.billedDays} days.
+                  </p>
+                )}
+                {quote.additionalCharge > 0 && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Shorter rentals use a higher daily price, so returning on
+                    this date costs more than your current booking.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                fullWidth
+                onClick={handleClose}
+                disabled={loading}
+              >
+                Keep Current Dates
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                fullWidth
+                onClick={handleSubmit}
+                disabled={loading || quoting || !quote || !returnTime}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Requesting...
+                  </>
+                ) : (
+                  "Request Early Return"
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EarlyReturnModal;
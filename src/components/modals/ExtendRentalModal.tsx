@@ -13,6 +13,7 @@ import {
 import { Booking } from "@/types";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
+import { useExtensionConfig } from "@/hooks/useConfig";
 import {
   extensionService,
   ExtensionEligibility,
@@ -67,16 +68,19 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
   const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
   const [pricing, setPricing] = useState<ExtensionPricing | null>(null);
 
+  // Extension rules from system config (shared with extend-booking)
+  const { rules } = useExtensionConfig();
+
   // Check eligibility
   const eligibility: ExtensionEligibility = useMemo(
-    () => extensionService.checkEligibility(booking),
-    [booking]
+    () => extensionService.checkEligibility(booking, rules),
+    [booking, rules]
   );
 
   // Date limits
   const dateLimits = useMemo(
-    () => extensionService.getExtensionDateLimits(booking),
-    [booking]
+    () => extensionService.getExtensionDateLimits(booking, rules),
+    [booking, rules]
   );
 
   // Reset state when modal opens
@@ -103,6 +107,19 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
         const newReturnDateTime = `${newReturnDate}T${
           booking.returnDate.split("T")[1] || "10:00:00"
         }`;
+
+        const dateError = extensionService.validateNewReturnDate(
+          booking,
+          newReturnDateTime,
+          rules
+        );
+        if (dateError) {
+          setPricing(null);
+          setIsAvailable(false);
+          setError(dateError.message);
+          return;
+        }
+
         const pricingResult = extensionService.calculateExtensionPricing(
           booking,
           newReturnDateTime
@@ -113,8 +130,7 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
         const availability = await extensionService.checkAvailability(
           booking.vehicleId,
           booking.returnDate,
-          newReturnDateTime,
-          booking.id
+          newReturnDateTime
         );
 
         setIsAvailable(availability.available);
@@ -135,7 +151,7 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
     };
 
     checkAvailability();
-  }, [newReturnDate, booking, isOpen]);
+  }, [newReturnDate, booking, isOpen, rules]);
 
   // Handlers
   const handleClose = useCallback(() => {
@@ -292,9 +308,17 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
                 <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
                 <div>
                   <p className="font-medium text-red-800">Cannot Extend</p>
-                  <p className="text-sm text-red-700 mt-1">
-                    {eligibility.reason}
-                  </p>
+                  {eligibility.reasons.length > 1 ? (
+                    <ul className="text-sm text-red-700 mt-1 list-disc pl-4 space-y-1">
+                      {eligibility.reasons.map((reason) => (
+                        <li key={reason.code}>{reason.message}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-red-700 mt-1">
+                      {eligibility.reason}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -369,7 +393,8 @@ export const ExtendRentalModal: React.FC<ExtendRentalModalProps> = ({
                   />
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  Minimum extension: 7 days • Maximum extension: 90 days
+                  Minimum extension: {eligibility.minExtensionDays} days •
+                  Maximum extension: {eligibility.maxExtensionDays} days
                 </p>
               </div>
 
@@ -0,0 +1,862 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { X, ArrowLeft, AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import * as Sentry from "@sentry/react";
+import { Button } from "@/components/ui/Button";
+import { Loader } from "@/components/ui/Loader";
+import {
+  usePricing,
+  useDateValidation,
+  useAvailability,
+  useSavedDrivers,
+} from "@/hooks";
+import { bookingService } from "@/services/bookings/bookingService";
+import { vehicleService } from "@/services/vehicles/vehicleService";
+import { DEFAULT_LICENSE_COUNTRY } from "@/services/drivers/driverEligibility";
+import {
+  deliveryLocationService,
+  DeliveryLocation,
+  CityOption,
+} from "@/services/deliveryLocations/deliveryLocationService";
+import {
+  Booking,
+  Vehicle,
+  ModifyBookingInput,
+  ModificationPreview,
+  ModificationResult,
+} from "@/types";
+import { ProgressSteps } from "@/components/bookings/shared";
+import {
+  DateSelectionStep,
+  DriverInformationStep,
+} from "@/components/bookings/steps";
+import {
+  PrimaryDriverData,
+  AdditionalDriverData,
+} from "@/components/bookings/forms";
+
+// ============================================
+// TYPES
+// ============================================
+interface ModifyBookingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Booking;
+  onSuccess?: () => void;
+}
+
+interface ModificationData {
+  pickupDate: string;
+  returnDate: string;
+  pickupType: "store" | "delivery";
+  pickupLocation: string;
+  deliveryTimeSlot: string | null;
+  selectedCity: string;
+  deliveryLocationId: string;
+  deliveryFee: number;
+  primaryDriver: PrimaryDriverData;
+  additionalDrivers: AdditionalDriverData[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const STORE_LOCATION = "Denton, Texas";
+
+// ============================================
+// HELPERS
+// ============================================
+function logError(context: string, error: unknown): void {
+  if (import.meta.env.PROD) {
+    Sentry.captureException(error, {
+      tags: { component: "ModifyBookingModal", context },
+    });
+  } else {
+    console.error(`[ModifyBookingModal] ${context}:`, error);
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+/**
+ * Convert a stored ISO timestamp to a local datetime-local input value
+ */
+function toDateTimeInputValue(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function createInitialData(booking: Booking): ModificationData {
+  const primary = booking.primaryDriver;
+
+  return {
+    pickupDate: toDateTimeInputValue(booking.pickupDate),
+    returnDate: toDateTimeInputValue(booking.returnDate),
+    pickupType: booking.pickupType === "delivery" ? "delivery" : "store",
+    pickupLocation: booking.pickupLocation || STORE_LOCATION,
+    deliveryTimeSlot: booking.deliveryTimeSlot,
+    selectedCity: "",
+    deliveryLocationId: booking.deliveryLocationId || "",
+    deliveryFee: booking.deliveryFee || 0,
+    primaryDriver: {
+      firstName: primary?.firstName || "",
+      lastName: primary?.lastName || "",
+      email: primary?.email || "",
+      phone: primary?.phone || "",
+      dateOfBirth: primary?.dateOfBirth || "",
+      driversLicenseNumber: primary?.driversLicense || "",
+      licenseCountry: primary?.licenseCountry || DEFAULT_LICENSE_COUNTRY,
+      licenseExpiry: "",
+      streetAddress: primary?.streetAddress || "",
+      city: primary?.city || "",
+      state: primary?.state || "",
+      zipCode: primary?.zipCode || "",
+    },
+    additionalDrivers: (booking.additionalDrivers || []).map((driver) => ({
+      firstName: driver.firstName,
+      lastName: driver.lastName,
+      email: driver.email,
+      phone: driver.phone,
+      dateOfBirth: driver.dateOfBirth,
+      driversLicenseNumber: driver.driversLicense,
+      licenseCountry: driver.licenseCountry,
+      licenseExpiry: "",
+      streetAddress: driver.streetAddress,
+      city: driver.city,
+      state: driver.state,
+      zipCode: driver.zipCode,
+      sameAddressAsPrimary: false,
+      inviteByEmail: driver.inviteStatus === "pending",
+    })),
+  };
+}
+
+function toModifyInput(data: ModificationData): ModifyBookingInput {
+  return {
+    pickupDate: new Date(data.pickupDate).toISOString(),
+    returnDate: new Date(data.returnDate).toISOString(),
+    pickupType: data.pickupType,
+    pickupLocation: data.pickupLocation,
+    deliveryLocationId:
+      data.pickupType === "delivery" ? data.deliveryLocationId : null,
+    deliveryTimeSlot:
+      data.pickupType === "delivery" ? data.deliveryTimeSlot : null,
+    primaryDriver: data.primaryDriver,
+    additionalDrivers: data.additionalDrivers.map((driver) => ({
+      firstName: driver.firstName,
+      lastName: driver.lastName,
+      email: driver.email,
+      invite: driver.inviteByEmail || undefined,
+      phone: driver.phone,
+      dateOfBirth: driver.dateOfBirth,
+      driversLicenseNumber: driver.driversLicenseNumber,
+      licenseCountry: driver.licenseCountry,
+      streetAddress: driver.streetAddress,
+      city: driver.city,
+      state: driver.state,
+      zipCode: driver.zipCode,
+    })),
+  };
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+export const ModifyBookingModal: React.FC<ModifyBookingModalProps> = ({
+  isOpen,
+  onClose,
+  booking,
+  onSuccess,
+}) => {
+  const [step, setStep] = useState(1);
+  const [data, setData] = useState<ModificationData>(() =>
+    createInitialData(booking),
+  );
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [showAdditionalDriver, setShowAdditionalDriver] = useState(
+    (booking.additionalDrivers || []).length > 0,
+  );
+  const [preview, setPreview] = useState<ModificationPreview | null>(null);
+  const [result, setResult] = useState<ModificationResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Delivery location state (two-step selection)
+  const [availableCities, setAvailableCities] = useState<CityOption[]>([]);
+  const [loadingCities, setLoadingCities] = useState(false);
+  const [cityLocations, setCityLocations] = useState<DeliveryLocation[]>([]);
+  const [loadingCityLocations, setLoadingCityLocations] = useState(false);
+
+  // Saved drivers on the account, for one-click autofill
+  const { drivers: savedDrivers } = useSavedDrivers(isOpen);
+
+  // ============================================
+  // AVAILABILITY (this booking's own dates stay selectable)
+  // ============================================
+  const {
+    isDateBlocked,
+    getBlockedReason,
+    loading: availabilityLoading,
+  } = useAvailability({
+    vehicleId: booking.vehicleId,
+    enabled: isOpen,
+    excludeRange: {
+      pickupDate: booking.pickupDate,
+      returnDate: booking.returnDate,
+    },
+  });
+
+  const dateValidation = useDateValidation({
+    pickupDate: data.pickupDate || null,
+    returnDate: data.returnDate || null,
+  });
+
+  const { pricing, loading: pricingLoading } = usePricing({
+    vehicleId: booking.vehicleId,
+    pickupDate: data.pickupDate || null,
+    returnDate: data.returnDate || null,
+    isStudent: booking.isStudentBooking,
+    deliveryFee: data.deliveryFee,
+    additionalDrivers: data.additionalDrivers.length,
+    enabled: isOpen && dateValidation.isValid,
+  });
+
+  // ============================================
+  // VALIDATION
+  // ============================================
+  const isStep1Valid = useMemo(() => {
+    if (!dateValidation.isValid || !pricing) return false;
+
+    if (data.pickupDate && isDateBlocked(data.pickupDate)) return false;
+    if (data.returnDate && isDateBlocked(data.returnDate)) return false;
+
+    // Only booking conflicts block the range; closed days mid-rental are fine
+    if (data.pickupDate && data.returnDate) {
+      const current = new Date(data.pickupDate);
+      const end = new Date(data.returnDate);
+
+      while (current <= end) {
+        const reason = getBlockedReason(current);
+        if (reason && reason.toLowerCase().includes("already booked")) {
+          return false;
+        }
+        current.setDate(current.getDate() + 1);
+      }
+    }
+
+    if (data.pickupType === "delivery") {
+      return (
+        data.deliveryLocationId !== "" && data.deliveryTimeSlot !== null
+      );
+    }
+
+    return true;
+  }, [dateValidation.isValid, pricing, data, isDateBlocked, getBlockedReason]);
+
+  const isStep2Valid = useMemo(() => {
+    const { primaryDriver } = data;
+    return Object.values(primaryDriver).every(
+      (value) => value.trim() !== "",
+    );
+  }, [data]);
+
+  // ============================================
+  // DATA FETCHING
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoadingCities(true);
+        const [vehicleResult, cities, currentLocation] = await Promise.all([
+          vehicleService.getVehicle(booking.vehicleId),
+          deliveryLocationService.getAvailableCities(),
+          booking.deliveryLocationId
+            ? deliveryLocationService.getLocation(booking.deliveryLocationId)
+            : Promise.resolve(null),
+        ]);
+
+        if (cancelled) return;
+
+        setVehicle(vehicleResult);
+        setAvailableCities(cities);
+        if (currentLocation) {
+          setData((prev) => ({ ...prev, selectedCity: currentLocation.city }));
+        }
+      } catch (err) {
+        logError("load", err);
+        if (!cancelled) {
+          setError("Failed to load booking options. Please try again.");
+        }
+      } finally {
+        if (!cancelled) setLoadingCities(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking.vehicleId, booking.deliveryLocationId]);
+
+  useEffect(() => {
+    if (!data.selectedCity) {
+      setCityLocations([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadLocations = async () => {
+      try {
+        setLoadingCityLocations(true);
+        const locations = await deliveryLocationService.getLocationsByCity(
+          data.selectedCity,
+        );
+        if (!cancelled) setCityLocations(locations);
+      } catch (err) {
+        logError("loadLocations", err);
+        if (!cancelled) setCityLocations([]);
+      } finally {
+        if (!cancelled) setLoadingCityLocations(false);
+      }
+    };
+
+    loadLocations();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data.selectedCity]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleClose = useCallback(() => {
+    if (loading) return;
+    const applied = result?.applied;
+    setStep(1);
+    setError(null);
+    setPreview(null);
+    setResult(null);
+    setData(createInitialData(booking));
+    if (applied) onSuccess?.();
+    onClose();
+  }, [loading, result, booking, onClose, onSuccess]);
+
+  const handlePickupTypeChange = useCallback((type: "store" | "delivery") => {
+    setData((prev) => ({
+      ...prev,
+      pickupType: type,
+      pickupLocation: type === "store" ? STORE_LOCATION : "",
+      deliveryTimeSlot: null,
+      selectedCity: type === "store" ? "" : prev.selectedCity,
+      deliveryLocationId: type === "store" ? "" : prev.deliveryLocationId,
+      deliveryFee: type === "store" ? 0 : prev.deliveryFee,
+    }));
+  }, []);
+
+  const handleCityChange = useCallback((city: string) => {
+    setData((prev) => ({
+      ...prev,
+      selectedCity: city,
+      deliveryLocationId: "",
+      deliveryFee: 0,
+      pickupLocation: "",
+      deliveryTimeSlot: null,
+    }));
+  }, []);
+
+  const handleDeliveryLocationChange = useCallback(
+    (locationId: string) => {
+      const location = cityLocations.find((loc) => loc.id === locationId);
+      setData((prev) => ({
+        ...prev,
+        deliveryLocationId: location ? locationId : "",
+        deliveryFee: location ? location.deliveryFee : 0,
+        pickupLocation: location
+          ? `${location.address}, ${location.city}, ${location.state} ${location.zipCode}`
+          : "",
+      }));
+    },
+    [cityLocations],
+  );
+
+  const handlePrimaryDriverChange = useCallback(
+    (field: keyof PrimaryDriverData, value: string) => {
+      setData((prev) => ({
+        ...prev,
+        primaryDriver: { ...prev.primaryDriver, [field]: value },
+      }));
+    },
+    [],
+  );
+
+  const handleAddAdditionalDriver = useCallback(() => {
+    setData((prev) => ({
+      ...prev,
+      additionalDrivers: [
+        ...prev.additionalDrivers,
+        {
+          firstName: "",
+          lastName: "",
+          email: "",
+          phone: "",
+          dateOfBirth: "",
+          driversLicenseNumber: "",
+          licenseCountry: DEFAULT_LICENSE_COUNTRY,
+          licenseExpiry: "",
+          streetAddress: "",
+          city: "",
+          state: "",
+          zipCode: "",
+          sameAddressAsPrimary: false,
+          inviteByEmail: false,
+        },
+      ],
+    }));
+  }, []);
+
+  const handleRemoveAdditionalDriver = useCallback((index: number) => {
+    setData((prev) => ({
+      ...prev,
+      additionalDrivers: prev.additionalDrivers.filter((_, i) => i !== index),
+    }));
+  }, []);
+
+  const handleUpdateAdditionalDriver = useCallback(
+    (
+      index: number,
+      field: keyof AdditionalDriverData,
+      value: string | boolean,
+    ) => {
+      setData((prev) => ({
+        ...prev,
+        additionalDrivers: prev.additionalDrivers.map((driver, i) => {
+          if (i !== index) return driver;
+
+          if (field === "sameAddressAsPrimary" && value === true) {
+            return {
+              ...driver,
+              sameAddressAsPrimary: true,
+              streetAddress: prev.primaryDriver.streetAddress,
+              city: prev.primaryDriver.city,
+              state: prev.primaryDriver.state,
+              zipCode: prev.primaryDriver.zipCode,
+            };
+          }
+
+          const addressFields = ["streetAddress", "city", "state", "zipCode"];
+          if (addressFields.includes(field) && driver.sameAddressAsPrimary) {
+            return { ...driver, [field]: value, sameAddressAsPrimary: false };
+          }
+
+          return { ...driver, [field]: value };
+        }),
+      }));
+    },
+    [],
+  );
+
+  const handleReview = useCallback(async () => {
+    setStep(3);
+    setChecking(true);
+    setError(null);
+    setPreview(null);
+
+    try {
+      const previewResult = await bookingService.previewModification(
+        booking.id,
+        toModifyInput(data),
+      );
+      setPreview(previewResult);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Unable to price your changes.",
+      );
+    } finally {
+      setChecking(false);
+    }
+  }, [booking.id, data]);
+
+  const handleConfirm = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const modification = await bookingService.modifyBooking(
+        booking.id,
+        toModifyInput(data),
+      );
+
+      if (modification.url) {
+        // Price went up: pay the difference, the webhook applies the change
+        window.location.href = modification.url;
+        return;
+      }
+
+      setResult(modification);
+      setLoading(false);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred. Please try again.",
+      );
+      setLoading(false);
+    }
+  }, [booking.id, data]);
+
+  // ============================================
+  // KEYBOARD HANDLER
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) {
+        handleClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, loading, handleClose]);
+
+  // Prevent body scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="presentation"
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="modify-booking-modal-title"
+        className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <header className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              {step > 1 && !result && (
+                <button
+                  type="button"
+                  onClick={() => setStep((prev) => prev - 1)}
+                  aria-label="Go back to previous step"
+                  className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-200 rounded-lg p-1"
+                  disabled={loading}
+                >
+                  <ArrowLeft className="w-5 h-5" aria-hidden="true" />
+                </button>
+              )}
+              <div>
+                <h2
+                  id="modify-booking-modal-title"
+                  className="text-xl font-semibold text-gray-900"
+                >
+                  Modify Booking
+                </h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {booking.vehicle?.name ? `${booking.vehicle.name} • ` : ""}
+                  {booking.bookingNumber ||
+                    booking.id.slice(0, 8).toUpperCase()}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={loading}
+              className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+              aria-label="Close modal"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {!result && (
+            <nav aria-label="Modification progress">
+              <ProgressSteps currentStep={step} />
+            </nav>
+          )}
+        </header>
+
+        {/* Success State */}
+        {result ? (
+          <div className="p-8 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Booking updated
+            </h3>
+            <p className="text-gray-600 text-sm">
+              {result.refundAmount > 0
+                ? `A refund of ${formatCurrency(result.refundAmount)} is on its way to your original payment method. Refunds usually appear within 5–10 business days.`
+                : "Your changes have been saved."}
+            </p>
+          </div>
+        ) : !vehicle ? (
+          <div className="p-8 flex justify-center" role="status">
+            <Loader />
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => e.preventDefault()}
+            className="p-6"
+            noValidate
+          >
+            {/* Error Display */}
+            {error && (
+              <div
+                role="alert"
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 text-sm flex items-start gap-2"
+              >
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Step 1: Dates & Pickup */}
+            {step === 1 && (
+              <DateSelectionStep
+                vehicle={vehicle}
+                pickupDate={data.pickupDate}
+                returnDate={data.returnDate}
+                isStudent={booking.isStudentBooking}
+                pickupType={data.pickupType}
+                pickupLocation={data.pickupLocation}
+                availableCities={availableCities}
+                loadingCities={loadingCities}
+                selectedCity={data.selectedCity}
+                onCityChange={handleCityChange}
+                cityLocations={cityLocations}
+                loadingCityLocations={loadingCityLocations}
+                deliveryLocationId={data.deliveryLocationId}
+                deliveryFee={data.deliveryFee}
+                onDeliveryLocationChange={handleDeliveryLocationChange}
+                deliveryTimeSlot={data.deliveryTimeSlot}
+                onDeliveryTimeSlotChange={(slot) =>
+                  setData((prev) => ({ ...prev, deliveryTimeSlot: slot }))
+                }
+                onPickupDateChange={(date) =>
+                  setData((prev) => ({
+                    ...prev,
+                    pickupDate: date,
+                    // Delivery slots differ per day
+                    deliveryTimeSlot:
+                      prev.pickupDate.split("T")[0] === date.split("T")[0]
+                        ? prev.deliveryTimeSlot
+                        : null,
+                  }))
+                }
+                onReturnDateChange={(date) =>
+                  setData((prev) => ({ ...prev, returnDate: date }))
+                }
+                // Student pricing is fixed at booking time
+                onIsStudentChange={() => undefined}
+                onPickupTypeChange={handlePickupTypeChange}
+                dateValidation={dateValidation}
+                isDateBlocked={isDateBlocked}
+                getBlockedReason={getBlockedReason}
+                availabilityLoading={availabilityLoading}
+                pricing={pricing}
+                pricingLoading={pricingLoading}
+                additionalDriverCount={data.additionalDrivers.length}
+                onContinue={() => setStep(2)}
+                isValid={isStep1Valid}
+              />
+            )}
+
+            {/* Step 2: Drivers */}
+            {step === 2 && (
+              <DriverInformationStep
+                primaryDriver={data.primaryDriver}
+                additionalDrivers={data.additionalDrivers}
+                showAdditionalDriver={showAdditionalDriver}
+                returnDate={data.returnDate}
+                savedDrivers={savedDrivers}
+                onPrimaryDriverChange={handlePrimaryDriverChange}
+                onAdditionalDriverChange={handleUpdateAdditionalDriver}
+                onAddDriver={handleAddAdditionalDriver}
+                onRemoveDriver={handleRemoveAdditionalDriver}
+                onToggleAdditionalDriverSection={() =>
+                  setShowAdditionalDriver((prev) => !prev)
+                }
+                onContinue={handleReview}
+                isValid={isStep2Valid}
+              />
+            )}
+
+            {/* Step 3: Price Difference */}
+            {step === 3 &&
+              (checking ? (
+                <div className="py-8 flex justify-center" role="status">
+                  <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+                </div>
+              ) : (
+                <div className="space-y-5">
+                  {preview && (
+                    <div className="bg-gray-50 rounded-lg p-4">
+                      <h3 className="text-sm font-semibold text-gray-900 mb-3">
+                        Price Difference
+                      </h3>
+                      <div className="space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Current total</span>
+                          <span className="text-gray-900">
+                            {formatCurrency(preview.currentTotal)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">
+                            New total ({preview.rentalDays} days)
+                          </span>
+                          <span className="text-gray-900">
+                            {formatCurrency(preview.newTotal)}
+                          </span>
+                        </div>
+                        {preview.depositDifference !== 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">
+                              Security deposit change
+                            </span>
+                            <span className="text-gray-900">
+                              {formatCurrency(preview.depositDifference)}
+                            </span>
+                          </div>
+                        )}
+                        {preview.youngDriverFee > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">
+                              Young driver surcharge (included)
+                            </span>
+                            <span className="text-gray-900">
+                              {formatCurrency(preview.youngDriverFee)}
+                            </span>
+                          </div>
+                        )}
+                        {preview.promoCode && preview.promoDiscount > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">
+                              Promo code {preview.promoCode} (included)
+                            </span>
+                            <span className="text-green-700">
+                              -{formatCurrency(preview.promoDiscount)}
+                            </span>
+                          </div>
+                        )}
+                        {preview.promoError && (
+                          <p className="text-xs text-amber-700">
+                            Your promo code no longer applies to these dates:{" "}
+                            {preview.promoError}
+                          </p>
+                        )}
+                        {preview.loyaltySavings > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">
+                              Member benefits (included)
+                            </span>
+                            <span className="text-green-700">
+                              -{formatCurrency(preview.loyaltySavings)}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex justify-between pt-2 border-t border-gray-200">
+                          <span className="font-semibold text-gray-900">
+                            {preview.amountDue > 0
+                              ? "Amount due"
+                              : "Refund to you"}
+                          </span>
+                          <span
+                            className={`font-bold text-base ${
+                              preview.amountDue > 0
+                                ? "text-gray-900"
+                                : "text-green-600"
+                            }`}
+                          >
+                            {formatCurrency(
+                              preview.amountDue > 0
+                                ? preview.amountDue
+                                : preview.refundAmount,
+                            )}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {preview && (
+                    <p className="text-xs text-gray-500">
+                      {preview.amountDue > 0
+                        ? "You'll be taken to a secure checkout to pay the difference. Your booking is updated once payment completes."
+                        : "Your booking is updated immediately."}{" "}
+                      Bookings can be modified online up to{" "}
+                      {preview.cutoffHours} hours before pickup.
+                    </p>
+                  )}
+
+                  <div className="flex gap-3">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      fullWidth
+                      onClick={handleClose}
+                      disabled={loading}
+                    >
+                      Keep Current Booking
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="primary"
+                      fullWidth
+                      onClick={handleConfirm}
+                      disabled={loading || !preview}
+                    >
+                      {loading ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Saving...
+                        </>
+                      ) : preview && preview.amountDue > 0 ? (
+                        "Pay & Confirm Changes"
+                      ) : (
+                        "Confirm Changes"
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModifyBookingModal;
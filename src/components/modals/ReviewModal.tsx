@@ -0,0 +1,396 @@
+import React, { useState, useCallback, useEffect } from "react";
+import { X, Star, AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { reviewService } from "@/services/reviews/reviewService";
+import { Booking, ReviewEligibility } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface ReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Booking;
+  onSuccess?: () => void;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_COMMENT_LENGTH = 2000;
+const RATING_LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Public display name: first name + last initial
+ */
+function getReviewerName(booking: Booking): string {
+  const firstName =
+    booking.primaryDriver?.firstName || booking.customerInfo?.firstName || "";
+  const lastName =
+    booking.primaryDriver?.lastName || booking.customerInfo?.lastName || "";
+
+  if (!firstName) return "Customer";
+  return lastName ? `${firstName} ${lastName.charAt(0)}.` : firstName;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+export const ReviewModal: React.FC<ReviewModalProps> = ({
+  isOpen,
+  onClose,
+  booking,
+  onSuccess,
+}) => {
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(
+    null,
+  );
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const vehicleId = booking.vehicle?.id || booking.vehicleId;
+  const existingReview = eligibility?.existingReview || null;
+  const isEditing = Boolean(existingReview);
+
+  // ============================================
+  // LOAD ELIGIBILITY
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setChecking(true);
+      setError(null);
+
+      try {
+        const result = await reviewService.getBookingReviewEligibility({
+          id: booking.id,
+          vehicleId,
+          status: booking.status,
+        });
+
+        if (cancelled) return;
+
+        setEligibility(result);
+        if (result.existingReview) {
+          setRating(result.existingReview.rating);
+          setComment(result.existingReview.comment || "");
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "Unable to load your review.",
+          );
+        }
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking.id, booking.status, vehicleId]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleClose = useCallback(() => {
+    if (loading) return;
+    setRating(0);
+    setHoverRating(0);
+    setComment("");
+    setError(null);
+    setSuccess(false);
+    setEligibility(null);
+    onClose();
+  }, [loading, onClose]);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+
+      if (rating < 1) {
+        setError("Please select a star rating");
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        if (existingReview) {
+          await reviewService.updateReview(existingReview.id, {
+            rating,
+            comment: comment.trim() || undefined,
+          });
+        } else {
+          await reviewService.createReview(booking.userId, {
+            vehicleId,
+            reservationId: booking.id,
+            rating,
+            comment: comment.trim() || undefined,
+            reviewerName: getReviewerName(booking),
+          });
+        }
+
+        setSuccess(true);
+        onSuccess?.();
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred. Please try again.",
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [rating, comment, existingReview, booking, vehicleId, onSuccess],
+  );
+
+  // ============================================
+  // KEYBOARD HANDLER
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) {
+        handleClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, loading, handleClose]);
+
+  // Prevent body scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const canSubmit = eligibility?.canReview || eligibility?.canEdit;
+  const displayRating = hoverRating || rating;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="presentation"
+      onClick={handleClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="review-modal-title"
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2
+              id="review-modal-title"
+              className="text-xl font-semibold text-gray-900"
+            >
+              {isEditing ? "Edit Your Review" : "Write a Review"}
+            </h2>
+            {booking.vehicle?.name && (
+              <p className="text-sm text-gray-500 mt-1">
+                {booking.vehicle.name}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Success State */}
+        {success ? (
+          <div className="p-8 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Thanks for your review!
+            </h3>
+            <p className="text-gray-600 text-sm">
+              Your review will appear on the vehicle page once it has been
+              approved by our team.
+            </p>
+          </div>
+        ) : checking ? (
+          <div className="p-8 flex justify-center" role="status">
+            <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-5">
+            {/* Error Display */}
+            {error && (
+              <div
+                role="alert"
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2"
+              >
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Moderation status of an existing review */}
+            {existingReview && (
+              <div className="bg-gray-50 border border-gray-100 rounded-lg p-4 text-sm text-gray-700">
+                <p>
+                  Status:{" "}
+                  <span className="font-medium capitalize">
+                    {existingReview.moderationStatus}
+                  </span>
+                </p>
+                {existingReview.moderationNote && (
+                  <p className="mt-1 text-gray-500">
+                    {existingReview.moderationNote}
+                  </p>
+                )}
+                {eligibility?.editableUntil && (
+                  <p className="mt-1 text-gray-500">
+                    {eligibility.canEdit
+                      ? `You can edit this review until ${formatDate(eligibility.editableUntil)}.`
+                      : "The edit window for this review has closed."}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {eligibility && !canSubmit && !existingReview && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                {eligibility.reason ||
+                  "This booking is not eligible for a review."}
+              </div>
+            )}
+
+            {/* Star Rating */}
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">
+                Rating <span className="text-red-500">*</span>
+              </p>
+              <div
+                className="flex items-center gap-1"
+                role="radiogroup"
+                aria-label="Rating"
+                onMouseLeave={() => setHoverRating(0)}
+              >
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={rating === value}
+                    aria-label={`${value} star${value !== 1 ? "s" : ""}`}
+                    disabled={loading || !canSubmit}
+                    onClick={() => setRating(value)}
+                    onMouseEnter={() => setHoverRating(value)}
+                    className="p-1 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900 disabled:cursor-not-allowed"
+                  >
+                    <Star
+                      className={`w-7 h-7 ${
+                        value <= displayRating
+                          ? "text-amber-400 fill-current"
+                          : "text-gray-300"
+                      }`}
+                    />
+                  </button>
+                ))}
+                {displayRating > 0 && (
+                  <span className="ml-2 text-sm text-gray-600">
+                    {RATING_LABELS[displayRating]}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Comment */}
+            <div>
+              <label
+                htmlFor="reviewComment"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Comments
+              </label>
+              <textarea
+                id="reviewComment"
+                value={comment}
+                onChange={(e) =>
+                  setComment(e.target.value.slice(0, MAX_COMMENT_LENGTH))
+                }
+                rows={4}
+                placeholder="How was the vehicle and your rental experience?"
+                disabled={loading || !canSubmit}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+              />
+              <p className="text-xs text-gray-500 mt-1 text-right">
+                {comment.length}/{MAX_COMMENT_LENGTH}
+              </p>
+            </div>
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              variant="primary"
+              fullWidth
+              disabled={loading || !canSubmit || rating < 1}
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : isEditing ? (
+                "Update Review"
+              ) : (
+                "Submit Review"
+              )}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewModal;
@@ -0,0 +1,343 @@
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import {
+  X,
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  Calendar,
+  Clock,
+} from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { DeliveryTimeSlotSelector } from "@/components/bookings/shared";
+import { useStoreHours } from "@/hooks/useConfig";
+import { bookingService } from "@/services/bookings/bookingService";
+import { businessNow } from "@/utils/dates";
+import { Booking } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface ScheduleReturnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  booking: Booking;
+  onSuccess?: () => void;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_SCHEDULE_DAYS = 3; // Mirrors schedule-return
+
+// ============================================
+// HELPERS
+// ============================================
+function formatDate(dateString: string): string {
+  return new Date(`${dateString.split("T")[0]}T00:00:00`).toLocaleDateString(
+    "en-US",
+    { weekday: "short", month: "short", day: "numeric", year: "numeric" }
+  );
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+/** Hourly drop-off times from opening until an hour before closing */
+function getStoreTimes(open: string, close: string): string[] {
+  const openHour = parseInt(open, 10);
+  const closeHour = parseInt(close, 10);
+  if (!Number.isFinite(openHour) || !Number.isFinite(closeHour)) return [];
+
+  const times: string[] = [];
+  for (let hour = openHour; hour < closeHour; hour++) {
+    times.push(`${String(hour).padStart(2, "0")}:00`);
+  }
+  return times;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+export const ScheduleReturnModal: React.FC<ScheduleReturnModalProps> = ({
+  isOpen,
+  onClose,
+  booking,
+  onSuccess,
+}) => {
+  const [returnDate, setReturnDate] = useState("");
+  const [returnTime, setReturnTime] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const storeHours = useStoreHours();
+  const isDelivery =
+    booking.pickupType === "delivery" && !!booking.deliveryLocationId;
+
+  // Today through the next few days
+  const dateLimits = useMemo(() => {
+    const today = businessNow();
+    return {
+      min: today.toISODate() as string,
+      max: today.plus({ days: MAX_SCHEDULE_DAYS }).toISODate() as string,
+    };
+  }, []);
+
+  const storeTimes = useMemo(() => {
+    if (!returnDate) return [];
+    const isSunday = new Date(`${returnDate}T00:00:00Z`).getUTCDay() === 0;
+    return isSunday
+      ? getStoreTimes(storeHours.sundayOpen, storeHours.sundayClose)
+      : getStoreTimes(storeHours.weekdayOpen, storeHours.weekdayClose);
+  }, [returnDate, storeHours]);
+
+  // ============================================
+  // HANDLERS
+  // ============================================
+  const handleClose = useCallback(() => {
+    if (loading) return;
+    setReturnDate("");
+    setReturnTime(null);
+    setError(null);
+    if (success) onSuccess?.();
+    setSuccess(false);
+    onClose();
+  }, [loading, success, onClose, onSuccess]);
+
+  const handleDateChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setReturnDate(e.target.value);
+      // Slots differ per day
+      setReturnTime(null);
+    },
+    []
+  );
+
+  const handleSubmit = useCallback(async () => {
+    if (!returnDate || !returnTime) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      await bookingService.scheduleReturn(booking.id, returnDate, returnTime);
+      setSuccess(true);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred. Please try again."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [booking.id, returnDate, returnTime]);
+
+  // ============================================
+  // KEYBOARD HANDLER
+  // ============================================
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !loading) {
+        handleClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEscape);
+    return () => document.removeEventListener("keydown", handleEscape);
+  }, [isOpen, loading, handleClose]);
+
+  // Prevent body scroll
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = "hidden";
+    } else {
+      document.body.style.overflow = "";
+    }
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      role="presentation"
+      onClick={handleClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="schedule-return-modal-title"
+        className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2
+              id="schedule-return-modal-title"
+              className="text-xl font-semibold text-gray-900"
+            >
+              Schedule Your Return
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {booking.vehicle?.name ? `${booking.vehicle.name} • ` : ""}
+              {booking.bookingNumber || booking.id.slice(0, 8).toUpperCase()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-900"
+            aria-label="Close modal"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="px-6 pt-6">
+            <div
+              role="alert"
+              className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2"
+            >
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Success State */}
+        {success ? (
+          <div className="p-8 text-center">
+            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle className="w-8 h-8 text-green-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Return scheduled
+            </h3>
+            <p className="text-gray-600 text-sm">
+              We'll see you on {formatDate(returnDate)}
+              {returnTime ? ` at ${formatTime(returnTime)}` : ""}. Overdue
+              charges stop once the vehicle is checked back in.
+            </p>
+          </div>
+        ) : (
+          <div className="p-6 space-y-5">
+            <p className="text-sm text-gray-600">
+              Your rental was due back {formatDate(booking.returnDate)}. Let us
+              know when you'll return the vehicle. Each day until then is
+              charged at your daily rate.
+            </p>
+
+            {/* Return Date */}
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Calendar className="w-4 h-4 text-gray-500" aria-hidden="true" />
+                <label
+                  htmlFor="scheduledReturnDate"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Return date
+                </label>
+              </div>
+              <input
+                id="scheduledReturnDate"
+                type="date"
+                value={returnDate}
+                min={dateLimits.min}
+                max={dateLimits.max}
+                onChange={handleDateChange}
+                disabled={loading}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+              />
+            </div>
+
+            {/* Return Time */}
+            {returnDate &&
+              (isDelivery ? (
+                <DeliveryTimeSlotSelector
+                  locationId={booking.deliveryLocationId as string}
+                  date={returnDate}
+                  selectedSlot={returnTime}
+                  onSelect={setReturnTime}
+                  disabled={loading}
+                  label="Collection Time"
+                />
+              ) : (
+                <div>
+                  <div className="flex items-center gap-2 mb-2">
+                    <Clock
+                      className="w-4 h-4 text-gray-500"
+                      aria-hidden="true"
+                    />
+                    <label
+                      htmlFor="scheduledReturnTime"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Drop-off time at the store
+                    </label>
+                  </div>
+                  <select
+                    id="scheduledReturnTime"
+                    value={returnTime || ""}
+                    onChange={(e) => setReturnTime(e.target.value || null)}
+                    disabled={loading || storeTimes.length === 0}
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent disabled:bg-gray-100"
+                  >
+                    <option value="">Select a time</option>
+                    {storeTimes.map((time) => (
+                      <option key={time} value={time}>
+                        {formatTime(time)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                fullWidth
+                onClick={handleClose}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                fullWidth
+                onClick={handleSubmit}
+                disabled={loading || !returnDate || !returnTime}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Scheduling...
+                  </>
+                ) : (
+                  "Schedule Return"
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleReturnModal;
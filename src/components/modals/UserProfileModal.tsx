@@ -3,6 +3,10 @@ import React, { useEffect, useCallback, useRef } from "react";
 import { X, User, Mail, Calendar } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/Button";
+import {
+  ReferralCreditsPanel,
+  SavedDriversManager,
+} from "@/components/bookings/shared";
 
 // ============================================
 // TYPES
@@ -269,6 +273,16 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
               </div>
             </div>
           </dl>
+
+          {/* Referrals & Credit */}
+          <div className="mt-6 pt-6 border-t border-gray-100">
+            <ReferralCreditsPanel />
+          </div>
+
+          {/* Saved Drivers */}
+          <div className="mt-6 pt-6 border-t border-gray-100">
+            <SavedDriversManager />
+          </div>
         </div>
 
         {/* Footer */}
@@ -4,3 +4,8 @@ export { UserProfileModal } from "./UserProfileModal";
 export { VehicleDetailsModal } from "./VehicleDetailsModal";
 export { InsuranceUploadModal } from "./InsuranceUploadModal";
 export { ExtendRentalModal } from "./ExtendRentalModal";
+export { ReviewModal } from "./ReviewModal";
+export { CancelBookingModal } from "./CancelBookingModal";
+export { ModifyBookingModal } from "./ModifyBookingModal";
+export { EarlyReturnModal } from "./EarlyReturnModal";
+export { ScheduleReturnModal } from "./ScheduleReturnModal";
@@ -5,6 +5,16 @@ import { baseStyles, colors } from "../styles/printStyles";
 // ============================================
 // TYPES
 // ============================================
+export interface BookingReceiptDeposit {
+  /** Refund status label, e.g. "Awaiting release" */
+  status: string;
+  /** Expected (or actual) release date */
+  releaseDate: string | null;
+  deductions: { description: string; amount: number; photoCount: number }[];
+  refundable: number;
+  returned: number;
+}
+
 export interface BookingReceiptData {
   id: string;
   bookingNumber: string | null;
@@ -37,9 +47,17 @@ export interface BookingReceiptData {
   rentalAmount: number;
   deliveryFee: number;
   additionalDriverFee: number;
+  promoCode: string | null;
+  discountAmount: number;
+  accountCreditApplied: number;
+  loyaltySavings: number;
   securityDeposit: number;
   totalPrice: number;
 
+  // Security deposit
+  depositReleaseBusinessDays: number;
+  deposit: BookingReceiptDeposit | null;
+
   // Status
   paymentStatus: string;
   isStudentBooking: boolean;
@@ -304,6 +322,34 @@ export const BookingReceiptPrint: React.FC<BookingReceiptProps> = ({
                 </td>
               </tr>
             )}
+            {data.discountAmount > 0 && (
+              <tr style={baseStyles.tableRow}>
+                <td style={baseStyles.tableCell}>
+                  Promo {data.promoCode || "discount"}
+                </td>
+                <td style={baseStyles.tableCellRight}>
+                  -{formatCurrency(data.discountAmount)}
+                </td>
+              </tr>
+            )}
+            {data.accountCreditApplied > 0 && (
+              <tr style={baseStyles.tableRow}>
+                <td style={baseStyles.tableCell}>Account Credit</td>
+                <td style={baseStyles.tableCellRight}>
+                  -{formatCurrency(data.accountCreditApplied)}
+                </td>
+              </tr>
+            )}
+            {data.loyaltySavings > 0 && (
+              <tr style={baseStyles.tableRow}>
+                <td style={baseStyles.tableCell}>
+                  Loyalty Member Savings (included)
+                </td>
+                <td style={baseStyles.tableCellRight}>
+                  {formatCurrency(data.loyaltySavings)}
+                </td>
+              </tr>
+            )}
             <tr style={baseStyles.tableRow}>
               <td style={baseStyles.tableCell}>
                 Security Deposit (Refundable)
@@ -322,11 +368,69 @@ export const BookingReceiptPrint: React.FC<BookingReceiptProps> = ({
         </table>
         <div style={baseStyles.noteBox}>
           <strong>Note:</strong> Your security deposit of{" "}
-          {formatCurrency(data.securityDeposit)} will be fully refunded within
-          5-7 business days after the vehicle is returned in good condition.
+          {formatCurrency(data.securityDeposit)} is refunded{" "}
+          {data.depositReleaseBusinessDays} business days after the vehicle is
+          returned, less any itemized deductions.
         </div>
       </div>
 
+      {/* Security Deposit Statement */}
+      {data.deposit && (
+        <div style={baseStyles.section}>
+          <div style={baseStyles.sectionTitle}>Security Deposit</div>
+          <div style={baseStyles.grid2}>
+            <div style={baseStyles.field}>
+              <div style={baseStyles.fieldLabel}>Status</div>
+              <div style={baseStyles.fieldValue}>{data.deposit.status}</div>
+            </div>
+            <div style={baseStyles.field}>
+              <div style={baseStyles.fieldLabel}>Release Date</div>
+              <div style={baseStyles.fieldValue}>
+                {data.deposit.releaseDate
+                  ? formatShortDate(data.deposit.releaseDate)
+                  : "After return"}
+              </div>
+            </div>
+          </div>
+          <table style={baseStyles.table}>
+            <tbody>
+              <tr style={baseStyles.tableRow}>
+                <td style={baseStyles.tableCell}>Deposit Held</td>
+                <td style={baseStyles.tableCellRight}>
+                  {formatCurrency(data.securityDeposit)}
+                </td>
+              </tr>
+              {data.deposit.deductions.map((deduction, index) => (
+                <tr key={index} style={baseStyles.tableRow}>
+                  <td style={baseStyles.tableCell}>
+                    {deduction.description}
+                    {deduction.photoCount > 0 &&
+                      ` (${deduction.photoCount} photo${
+                        deduction.photoCount > 1 ? "s" : ""
+                      })`}
+                  </td>
+                  <td style={baseStyles.tableCellRight}>
+                    -{formatCurrency(deduction.amount)}
+                  </td>
+                </tr>
+              ))}
+              <tr style={baseStyles.tableTotalRow}>
+                <td style={baseStyles.tableTotalCell}>
+                  {data.deposit.returned > 0 ? "Refunded" : "To Be Refunded"}
+                </td>
+                <td style={baseStyles.tableTotalCellRight}>
+                  {formatCurrency(
+                    data.deposit.returned > 0
+                      ? data.deposit.returned
+                      : data.deposit.refundable
+                  )}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Payment Status */}
       <div
         style={{
@@ -1,5 +1,8 @@
 export { BookingReceiptPrint } from "./BookingReceipt";
-export type { BookingReceiptData } from "./BookingReceipt";
+export type {
+  BookingReceiptData,
+  BookingReceiptDeposit,
+} from "./BookingReceipt";
 
 export { VehicleDetailsPrint } from "./VehicleDetails";
 export type { VehiclePrintData } from "./VehicleDetails";
@@ -1,7 +1,7 @@
 import React, { useMemo, useCallback } from "react";
 import styled from "styled-components";
 import { Star, Users, Gauge, Fuel, Calendar, CheckCircle } from "lucide-react";
-import { Vehicle } from "@/types";
+import { Vehicle, VehicleAvailability } from "@/types";
 import { Button } from "@/components/ui/Button";
 
 // ============================================
@@ -18,6 +18,8 @@ interface VehicleCardProps {
   displayPrice?: number;
   /** Optional price unit label (overrides default "/mo") */
   priceUnit?: PriceUnit;
+  /** Availability for searched dates (overrides the current status) */
+  availability?: VehicleAvailability | null;
 }
 
 interface SpecItemProps {
@@ -76,16 +78,22 @@ const StarRating: React.FC<{ rating: number }> = ({ rating }) => (
   </div>
 );
 
-const BookedBadge: React.FC = () => (
-  <div
-    className="bookedBadge"
-    role="status"
-    aria-label="This vehicle is currently booked"
-  >
-    <span className="bookedText">Booked</span>
+const BookedBadge: React.FC<{ label?: string; ariaLabel?: string }> = ({
+  label = "Booked",
+  ariaLabel = "This vehicle is currently booked",
+}) => (
+  <div className="bookedBadge" role="status" aria-label={ariaLabel}>
+    <span className="bookedText">{label}</span>
   </div>
 );
 
+function formatAvailableFrom(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
+
 // ============================================
 // MAIN COMPONENT
 // ============================================
@@ -96,13 +104,35 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
   isAuthenticated,
   displayPrice,
   priceUnit = "month",
+  availability,
 }) => {
-  // Check if vehicle is booked (reserved or rented)
+  // Check if vehicle is booked (reserved or rented, or taken for the
+  // searched dates when a date search is active)
   const isBooked = useMemo(
-    () => BOOKED_STATUSES.includes(vehicle.status),
-    [vehicle.status],
+    () =>
+      availability
+        ? !availability.available
+        : BOOKED_STATUSES.includes(vehicle.status),
+    [availability, vehicle.status],
   );
 
+  const badge = useMemo(() => {
+    if (!availability) {
+      return { label: "Booked", ariaLabel: "This vehicle is currently booked" };
+    }
+    if (availability.nextAvailableDate) {
+      const from = formatAvailableFrom(availability.nextAvailableDate);
+      return {
+        label: `Free from ${from}`,
+        ariaLabel: `Not available for your dates. Next available from ${from}`,
+      };
+    }
+    return {
+      label: "Unavailable",
+      ariaLabel: "Not available for your dates",
+    };
+  }, [availability]);
+
   // Use displayPrice if provided, otherwise fall back to vehicle.price
   const price = useMemo(
     () => displayPrice ?? vehicle.price,
@@ -153,14 +183,14 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
 
   // Button text changes based on booking status and auth
   const buttonText = useMemo(() => {
-    if (isBooked) return "Booked";
+    if (isBooked) return availability ? "Unavailable" : "Booked";
     return isAuthenticated ? "Book Now" : "Sign In";
-  }, [isBooked, isAuthenticated]);
+  }, [isBooked, availability, isAuthenticated]);
 
   const cardAriaLabel = useMemo(() => {
-    const bookedStatus = isBooked ? " Currently booked." : "";
+    const bookedStatus = isBooked ? ` ${badge.ariaLabel}.` : "";
     return `${vehicle.name}, $${price} ${priceLabel}.${bookedStatus} Click to view details.`;
-  }, [vehicle.name, price, priceLabel, isBooked]);
+  }, [vehicle.name, price, priceLabel, isBooked, badge]);
 
   // Handlers
   const handleCardClick = useCallback(() => onCardClick(), [onCardClick]);
@@ -200,7 +230,9 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
         {/* IMAGE */}
         <div className="imageWrap">
           <img className="image" src={imageUrl} alt={imageAlt} loading="lazy" />
-          {isBooked && <BookedBadge />}
+          {isBooked && (
+            <BookedBadge label={badge.label} ariaLabel={badge.ariaLabel} />
+          )}
         </div>
 
         {/* CONTENT */}
@@ -239,7 +271,7 @@ export const VehicleCard: React.FC<VehicleCardProps> = ({
               disabled={isBooked}
               aria-label={
                 isBooked
-                  ? "This vehicle is currently booked"
+                  ? badge.ariaLabel
                   : isAuthenticated
                     ? `Book ${vehicle.name}`
                     : "Sign in to book"
@@ -109,6 +109,17 @@ export async function fetchCachedData<T>(
   }
 }
 
+// Row shape of academic_terms served by /terms and /vehicles/:id/terms
+interface AcademicTermRow {
+  id: string;
+  school_name: string;
+  season: "fall" | "spring" | "summer";
+  academic_year: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
 /**
  * Type-safe cached data fetchers for common endpoints
  */
@@ -128,6 +139,33 @@ export const cachedApi = {
       fetchCachedData<Record<string, number>>("/vehicles/category-counts"),
     categoryPricing: () =>
       fetchCachedData<Record<string, number>>("/vehicles/category-pricing"),
+    availability: (pickup: string, returnDate: string) =>
+      fetchCachedData<{
+        pickupDate: string;
+        returnDate: string;
+        closedDates: string[];
+        vehicles: {
+          vehicleId: string;
+          available: boolean;
+          nextAvailableDate: string | null;
+        }[];
+      }>("/vehicles/availability", {
+        params: { pickup, return: returnDate },
+      }),
+    availabilityWindow: (id: string, start: string, end: string) =>
+      fetchCachedData<{
+        vehicleId: string;
+        start: string;
+        end: string;
+        bufferDays: number;
+        blockedRanges: { start: string; end: string }[];
+        closedDates: {
+          date: string;
+          reason: string;
+          type: "holiday" | "maintenance" | "closed";
+        }[];
+        deliveryBlackouts: string[];
+      }>(`/vehicles/${id}/availability`, { params: { start, end } }),
     rates: (id: string) =>
       fetchCachedData<{
         dailyRate: number;
@@ -135,6 +173,11 @@ export const cachedApi = {
         monthlyRate: number;
         semesterRate: number;
       }>(`/vehicles/${id}/rates`),
+    terms: (id: string) =>
+      fetchCachedData<{
+        vehicleId: string;
+        terms: (AcademicTermRow & { available: boolean })[];
+      }>(`/vehicles/${id}/terms`),
     reviews: (id: string, limit = 10, offset = 0) =>
       fetchCachedData<unknown[]>(`/vehicles/${id}/reviews`, {
         params: { limit, offset },
@@ -143,6 +186,7 @@ export const cachedApi = {
       fetchCachedData<{
         averageRating: number | null;
         reviewCount: number;
+        ratingDistribution?: Record<1 | 2 | 3 | 4 | 5, number>;
       }>(`/vehicles/${id}/review-stats`),
   },
 
@@ -159,6 +203,24 @@ export const cachedApi = {
     extensions: () =>
       fetchCachedData<Record<string, unknown>>("/config/extensions"),
     drivers: () => fetchCachedData<Record<string, unknown>>("/config/drivers"),
+    entries: () =>
+      fetchCachedData<
+        {
+          key: string;
+          value: string | null;
+          data_type: string;
+          category: string;
+          min_value: number | string | null;
+          max_value: number | string | null;
+        }[]
+      >("/config/entries"),
+    byCategory: (category: string) =>
+      fetchCachedData<Record<string, unknown>>(`/config/category/${category}`),
+    closures: (start: string, end: string) =>
+      fetchCachedData<{ start: string; end: string; closedDates: string[] }>(
+        "/config/closures",
+        { params: { start, end } },
+      ),
   },
 
   // Delivery Locations
@@ -174,5 +236,25 @@ export const cachedApi = {
       fetchCachedData<unknown>(`/delivery-locations/${id}`),
     fee: (id: string) =>
       fetchCachedData<{ fee: number }>(`/delivery-locations/${id}/fee`),
+    slots: (id: string, date: string) =>
+      fetchCachedData<{
+        locationId: string;
+        date: string;
+        deliveryAvailable: boolean;
+        reason: string | null;
+        slots: {
+          time: string;
+          label: string;
+          available: boolean;
+          capacity: number;
+          remaining: number;
+          reason?: string;
+        }[];
+      }>(`/delivery-locations/${id}/slots`, { params: { date } }),
+  },
+
+  // Academic Terms (semester rentals)
+  terms: {
+    list: () => fetchCachedData<AcademicTermRow[]>("/terms"),
   },
 };
@@ -257,12 +257,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       email: string,
       password: string,
       firstName: string,
-      lastName: string
+      lastName: string,
+      referralCode?: string | null
     ): Promise<void> => {
       setLoading(true);
 
       const { data: registeredUser, error: registerError } =
-        await registerWithEmail(email, password, firstName, lastName);
+        await registerWithEmail(
+          email,
+          password,
+          firstName,
+          lastName,
+          referralCode
+        );
 
       if (registerError) {
         setLoading(false);
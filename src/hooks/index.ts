@@ -5,9 +5,22 @@
 
 export { useAuth } from "./useAuth";
 export { useBookings, useBooking, useBookingStats } from "./useBookings";
-export { useVehicles } from "./useVehicles";
+export { useVehicles, useFleetAvailability } from "./useVehicles";
 export { useDrivers } from "./useDrivers";
 export { useAvailability } from "./useAvailability";
+export { useDeliverySlots } from "./useDeliverySlots";
+export { useMonthlyNotice } from "./useMonthlyNotice";
+export { useInsuranceDeadline } from "./useInsuranceDeadline";
+export { useDepositTimeline } from "./useDepositTimeline";
+export { useStudentVerification } from "./useStudentVerification";
+export { useAcademicTerms } from "./useAcademicTerms";
+export { useDriverEligibility } from "./useDriverEligibility";
+export { useIdentityVerification } from "./useIdentityVerification";
+export { useDriverInvite } from "./useDriverInvite";
+export { useSavedDrivers } from "./useSavedDrivers";
+export { useAccountCredits } from "./useAccountCredits";
+export { useReferrals } from "./useReferrals";
+export { useLoyaltyStatus } from "./useLoyaltyStatus";
 
 // Config hooks
 export {
@@ -15,6 +28,9 @@ export {
   useBookingConfig,
   useDriverConfig,
   useExtensionConfig,
+  useInsuranceConfig,
+  useDepositConfig,
+  useReferralConfig,
   useStoreHours,
   useDeliveryConfig,
 } from "./useConfig";
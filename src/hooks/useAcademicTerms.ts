@@ -0,0 +1,72 @@
+import { useState, useEffect } from "react";
+import { academicTermService } from "@/services/students/academicTermService";
+import type { VehicleTermAvailability } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseAcademicTermsResult {
+  terms: VehicleTermAvailability[];
+  loading: boolean;
+  error: string | null;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Upcoming academic terms a vehicle can be rented for as a semester rental
+ * @param vehicleId - vehicle to check (null to disable)
+ * @param enabled - load only when the customer is booking as a student
+ */
+export function useAcademicTerms(
+  vehicleId: string | null,
+  enabled = true
+): UseAcademicTermsResult {
+  const [terms, setTerms] = useState<VehicleTermAvailability[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !vehicleId) {
+      setTerms([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await academicTermService.getVehicleTerms(vehicleId);
+
+        if (!cancelled) setTerms(result);
+      } catch (err) {
+        if (!cancelled) {
+          setTerms([]);
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to load semester dates. Please try again."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vehicleId, enabled]);
+
+  return { terms, loading, error };
+}
+
+export default useAcademicTerms;
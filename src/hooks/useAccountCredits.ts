@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { referralService } from "@/services/users/referralService";
+import type { AccountCreditEntry } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseAccountCreditsResult {
+  balance: number;
+  /** Ledger, newest first */
+  entries: AccountCreditEntry[];
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Signed-in user's account credit (referral rewards) and its history
+ * @param enabled - skip loading, e.g. while a modal is closed
+ */
+export function useAccountCredits(enabled = true): UseAccountCreditsResult {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id || null;
+
+  const [balance, setBalance] = useState(0);
+  const [entries, setEntries] = useState<AccountCreditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refetch = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    const credits = await referralService.getAccountCredits(userId);
+    setBalance(credits.balance);
+    setEntries(credits.entries);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setBalance(0);
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const credits = await referralService.getAccountCredits(userId);
+      if (!cancelled) {
+        setBalance(credits.balance);
+        setEntries(credits.entries);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  return { balance, entries, loading, refetch };
+}
+
+export default useAccountCredits;
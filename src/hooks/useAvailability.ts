@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { supabase } from "@/config/supabase";
+import { vehicleService } from "@/services/vehicles/vehicleService";
+import type { AvailabilityRange } from "@/types";
 
 // ============================================
 // TYPES
@@ -13,36 +14,22 @@ interface BlockedDate {
 interface UseAvailabilityOptions {
   vehicleId: string | null;
   enabled?: boolean;
+  /** Booking dates that should not count as booked (when modifying it) */
+  excludeRange?: { pickupDate: string; returnDate: string } | null;
 }
 
 interface UseAvailabilityReturn {
   blockedDates: BlockedDate[];
+  deliveryBlackouts: string[];
+  bufferDays: number;
   loading: boolean;
   error: string | null;
   isDateBlocked: (date: Date | string) => boolean;
+  isDeliveryBlackout: (date: Date | string) => boolean;
   getBlockedReason: (date: Date | string) => string | null;
   refetch: () => Promise<void>;
 }
 
-// Matches actual business_calendar schema
-interface BusinessCalendarRow {
-  id: string;
-  calendar_date: string;
-  date_type: string; // 'holiday', 'closed', 'special_hours', etc.
-  title: string | null;
-  description: string | null;
-  customer_note: string | null;
-  open_time: string | null;
-  close_time: string | null;
-  delivery_available: boolean;
-}
-
-interface BookingRow {
-  pickup_date: string;
-  return_date: string;
-  status: string;
-}
-
 // ============================================
 // CONSTANTS
 // ============================================
@@ -51,9 +38,6 @@ const isDev = import.meta.env.DEV;
 // How many months ahead to fetch
 const MONTHS_AHEAD = 6;
 
-// Date types that indicate business is closed
-const CLOSED_DATE_TYPES = ["holiday", "closed", "maintenance"];
-
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -80,28 +64,21 @@ function toDateString(date: Date | string): string {
 }
 
 /**
- * Get all dates between two dates (inclusive) - timezone safe
+ * Shift a YYYY-MM-DD string by a number of days - timezone safe
  */
-function getDatesBetween(startDate: Date, endDate: Date): string[] {
-  const dates: string[] = [];
-
-  // Create new dates using local components to avoid timezone issues
-  const current = new Date(
-    startDate.getFullYear(),
-    startDate.getMonth(),
-    startDate.getDate()
-  );
-  const end = new Date(
-    endDate.getFullYear(),
-    endDate.getMonth(),
-    endDate.getDate()
-  );
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+}
 
-  while (current <= end) {
-    dates.push(toDateString(current));
-    current.setDate(current.getDate() + 1);
+/**
+ * Get all dates between two YYYY-MM-DD strings (inclusive)
+ */
+function getDatesBetween(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let current = start; current <= end; current = addDays(current, 1)) {
+    dates.push(current);
   }
-
   return dates;
 }
 
@@ -122,39 +99,19 @@ function getDateRange(): { startDate: string; endDate: string } {
 }
 
 /**
- * Check if a calendar entry indicates the business is closed
- */
-function isBusinessClosed(row: BusinessCalendarRow): boolean {
-  // Check if date_type indicates closed
-  if (CLOSED_DATE_TYPES.includes(row.date_type?.toLowerCase())) {
-    return true;
-  }
-
-  // If no open_time is set, business is closed
-  if (row.open_time === null && row.date_type) {
-    return true;
-  }
-
-  return false;
-}
-
-/**
- * Get display reason for blocked date
+ * Drop the first range matching the excluded booking's dates
  */
-function getBlockedReason(row: BusinessCalendarRow): string {
-  if (row.customer_note) {
-    return row.customer_note;
-  }
-  if (row.title) {
-    return row.title;
-  }
-  if (row.date_type === "holiday") {
-    return "Holiday - Business Closed";
-  }
-  if (row.date_type === "maintenance") {
-    return "Maintenance Day";
-  }
-  return "Business Closed";
+function withoutRange(
+  ranges: AvailabilityRange[],
+  exclude: AvailabilityRange | null
+): AvailabilityRange[] {
+  if (!exclude) return ranges;
+  const index = ranges.findIndex(
+    (range) => range.start === exclude.start && range.end === exclude.end
+  );
+  return index === -1
+    ? ranges
+    : [...ranges.slice(0, index), ...ranges.slice(index + 1)];
 }
 
 // ============================================
@@ -163,103 +120,87 @@ function getBlockedReason(row: BusinessCalendarRow): string {
 export function useAvailability(
   options: UseAvailabilityOptions
 ): UseAvailabilityReturn {
-  const { vehicleId, enabled = true } = options;
+  const { vehicleId, enabled = true, excludeRange = null } = options;
 
   const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
+  const [deliveryBlackouts, setDeliveryBlackouts] = useState<string[]>([]);
+  const [bufferDays, setBufferDays] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Primitive deps so callers can pass an inline object
+  const excludeStart = excludeRange
+    ? toDateString(new Date(excludeRange.pickupDate))
+    : null;
+  const excludeEnd = excludeRange
+    ? toDateString(new Date(excludeRange.returnDate))
+    : null;
+
   // Fetch blocked dates
   const fetchBlockedDates = useCallback(async () => {
-    if (!enabled) return;
+    if (!enabled || !vehicleId) return;
 
     setLoading(true);
     setError(null);
 
     try {
       const { startDate, endDate } = getDateRange();
-      const allBlockedDates: BlockedDate[] = [];
 
       log("Fetching availability", { vehicleId, startDate, endDate });
 
-      // 1. Fetch closed dates from business_calendar
-      try {
-        const { data: calendarDates, error: calendarError } = await supabase
-          .from("business_calendar")
-          .select(
-            "id, calendar_date, date_type, title, description, customer_note, open_time, close_time, delivery_available"
-          )
-          .gte("calendar_date", startDate)
-          .lte("calendar_date", endDate);
-
-        if (calendarError) {
-          log("Error fetching business calendar", calendarError);
-          // Continue without calendar data - don't block the booking flow
-        } else if (calendarDates && calendarDates.length > 0) {
-          calendarDates.forEach((row: BusinessCalendarRow) => {
-            if (isBusinessClosed(row)) {
-              allBlockedDates.push({
-                date: row.calendar_date,
-                reason: getBlockedReason(row),
-                type:
-                  row.date_type === "holiday"
-                    ? "holiday"
-                    : row.date_type === "maintenance"
-                    ? "maintenance"
-                    : "closed",
-              });
-            }
-          });
-          log(
-            `Found ${allBlockedDates.length} closed dates from business calendar`
+      const availability = await vehicleService.getAvailabilityWindow(
+        vehicleId,
+        startDate,
+        endDate
+      );
+
+      // 1. Store closures
+      const allBlockedDates: BlockedDate[] = [...availability.closedDates];
+      const seen = new Set(allBlockedDates.map((b) => b.date));
+
+      // 2. Booked days, then turnaround days either side of each booking
+      const ranges = withoutRange(
+        availability.blockedRanges,
+        excludeStart && excludeEnd
+          ? { start: excludeStart, end: excludeEnd }
+          : null
+      );
+
+      const addBlocked = (date: string, reason: string) => {
+        if (seen.has(date)) return;
+        seen.add(date);
+        allBlockedDates.push({ date, reason, type: "booking" });
+      };
+
+      ranges.forEach((range) => {
+        getDatesBetween(range.start, range.end).forEach((date) =>
+          addBlocked(date, "Vehicle already booked")
+        );
+      });
+
+      if (availability.bufferDays > 0) {
+        ranges.forEach((range) => {
+          [
+            ...getDatesBetween(
+              addDays(range.start, -availability.bufferDays),
+              addDays(range.start, -1)
+            ),
+            ...getDatesBetween(
+              addDays(range.end, 1),
+              addDays(range.end, availability.bufferDays)
+            ),
+          ].forEach((date) =>
+            addBlocked(date, "Vehicle being prepared between rentals")
           );
-        }
-      } catch (err) {
-        log("business_calendar query failed, continuing without it", err);
-      }
-
-      // 2. Fetch existing bookings for this vehicle
-      if (vehicleId) {
-        try {
-          const { data: bookings, error: bookingError } = await supabase
-            .from("bookings")
-            .select("pickup_date, return_date, status")
-            .eq("vehicle_id", vehicleId)
-            .in("status", ["confirmed", "active", "pending"])
-            .gte("return_date", startDate)
-            .lte("pickup_date", endDate);
-
-          if (bookingError) {
-            log("Error fetching bookings", bookingError);
-            // Continue without bookings - don't block the booking flow
-          } else if (bookings && bookings.length > 0) {
-            bookings.forEach((booking: BookingRow) => {
-              const pickupDate = new Date(booking.pickup_date);
-              const returnDate = new Date(booking.return_date);
-
-              // Get all dates in the booking range
-              const bookedDates = getDatesBetween(pickupDate, returnDate);
-
-              bookedDates.forEach((date) => {
-                // Check if date already blocked
-                if (!allBlockedDates.some((b) => b.date === date)) {
-                  allBlockedDates.push({
-                    date,
-                    reason: "Vehicle already booked",
-                    type: "booking",
-                  });
-                }
-              });
-            });
-            log(`Found ${bookings.length} existing bookings`);
-          }
-        } catch (err) {
-          log("bookings query failed, continuing without it", err);
-        }
+        });
       }
 
       setBlockedDates(allBlockedDates);
-      log(`Total blocked dates: ${allBlockedDates.length}`);
+      setDeliveryBlackouts(availability.deliveryBlackouts);
+      setBufferDays(availability.bufferDays);
+      log(
+        `Total blocked dates: ${allBlockedDates.length} (${ranges.length} bookings)`
+      );
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "Failed to check availability";
@@ -268,7 +209,7 @@ export function useAvailability(
     } finally {
       setLoading(false);
     }
-  }, [vehicleId, enabled]);
+  }, [vehicleId, enabled, excludeStart, excludeEnd]);
 
   // Fetch on mount and when dependencies change
   useEffect(() => {
@@ -308,11 +249,28 @@ export function useAvailability(
     [blockedDateMap]
   );
 
+  const deliveryBlackoutSet = useMemo(
+    () => new Set(deliveryBlackouts),
+    [deliveryBlackouts]
+  );
+
+  /**
+   * Check if delivery is unavailable on a specific date
+   */
+  const isDeliveryBlackout = useCallback(
+    (date: Date | string): boolean =>
+      deliveryBlackoutSet.has(toDateString(date)),
+    [deliveryBlackoutSet]
+  );
+
   return {
     blockedDates,
+    deliveryBlackouts,
+    bufferDays,
     loading,
     error,
     isDateBlocked,
+    isDeliveryBlackout,
     getBlockedReason: getBlockedReasonFn,
     refetch: fetchBlockedDates,
   };
@@ -3,11 +3,18 @@
  * React hook for accessing system configuration
  */
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   configService,
   clearConfigCache,
+  subscribeToConfigChanges,
 } from "@/services/config/configService";
+import { extensionRulesFromConfig } from "@/services/extensions/extensionRules";
+import { depositRulesFromConfig } from "@/services/bookings/depositRules";
+import { insuranceRulesFromConfig } from "@/services/insurance/insuranceRules";
+import {
+  driverEligibilityRulesFromConfig,
+} from "@/services/drivers/driverEligibility";
 import type { ParsedConfigMap, ConfigKey } from "@/types";
 
 // ============================================
@@ -18,6 +25,8 @@ interface UseConfigReturn {
   config: ParsedConfigMap | null;
   loading: boolean;
   error: string | null;
+  // True when the API was unreachable and bundled defaults are in use
+  usingFallback: boolean;
 
   // Typed getters
   getInt: (key: ConfigKey) => number;
@@ -64,11 +73,13 @@ const DEFAULT_CONFIG: Partial<ParsedConfigMap> = {
 
   // Overdue
   overdue_escalation_days: 7,
+  overdue_reminder_days: "0,1,3",
 
   // Delivery
   delivery_wait_minutes: 30,
   delivery_first_slot_offset_hours: 1,
   delivery_slot_interval_hours: 3,
+  delivery_slot_capacity: 2,
 
   // Extensions
   extension_min_rental_days: 30,
@@ -81,11 +92,14 @@ const DEFAULT_CONFIG: Partial<ParsedConfigMap> = {
   max_additional_drivers: 3,
   us_license_only: true,
   young_driver_fee_enabled: false,
+  young_driver_fee_under_21: 100,
+  young_driver_fee_under_25: 50,
   first_booking_verification_only: true,
 
   // Payment
   cash_advance_booking_allowed: false,
   cash_delivery_allowed: false,
+  referral_credit_amount: 25,
 
   // Store Hours
   store_hours_weekday_open: "09:00",
@@ -95,6 +109,7 @@ const DEFAULT_CONFIG: Partial<ParsedConfigMap> = {
 
   // System
   booking_id_prefix: "4AR",
+  review_edit_window_days: 14,
 };
 
 // ============================================
@@ -105,28 +120,52 @@ export function useConfig(): UseConfigReturn {
   const [config, setConfig] = useState<ParsedConfigMap | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [usingFallback, setUsingFallback] = useState(false);
+
+  const isMountedRef = useRef(true);
+  const fetchIdRef = useRef(0);
 
   // Fetch configs
   const fetchConfig = useCallback(async () => {
+    const currentFetchId = ++fetchIdRef.current;
     setLoading(true);
     setError(null);
 
     try {
       const data = await configService.getAllConfigs();
-      setConfig(data);
+      if (isMountedRef.current && fetchIdRef.current === currentFetchId) {
+        setConfig(data);
+        setUsingFallback(configService.isUsingFallback());
+      }
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "Failed to load configuration";
-      setError(message);
+      if (isMountedRef.current && fetchIdRef.current === currentFetchId) {
+        setError(message);
+      }
       console.error("[useConfig] Error:", message);
     } finally {
-      setLoading(false);
+      if (isMountedRef.current && fetchIdRef.current === currentFetchId) {
+        setLoading(false);
+      }
     }
   }, []);
 
   // Initial fetch
   useEffect(() => {
+    isMountedRef.current = true;
     fetchConfig();
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [fetchConfig]);
+
+  // Reload when config is invalidated (cached-data broadcast or clearCache)
+  useEffect(() => {
+    return subscribeToConfigChanges(() => {
+      fetchConfig();
+    });
   }, [fetchConfig]);
 
   // Typed getters with fallback to defaults
@@ -178,7 +217,7 @@ export function useConfig(): UseConfigReturn {
     [config]
   );
 
-  // Refetch
+  // Refetch (clearing the cache notifies every subscriber, including this one)
   const refetch = useCallback(async () => {
     clearConfigCache();
     await fetchConfig();
@@ -193,6 +232,7 @@ export function useConfig(): UseConfigReturn {
     config,
     loading,
     error,
+    usingFallback,
     getInt,
     getDecimal,
     getBool,
@@ -235,20 +275,37 @@ export function useBookingConfig() {
  * Hook for driver-related config values
  */
 export function useDriverConfig() {
-  const { getInt, getBool, loading, error } = useConfig();
+  const { getInt, getDecimal, getBool, loading, error } = useConfig();
 
-  return useMemo(
-    () => ({
+  return useMemo(() => {
+    const minAge = getInt("min_driver_age");
+    const maxAdditionalDrivers = getInt("max_additional_drivers");
+    const usLicenseOnly = getBool("us_license_only");
+    const youngDriverFeeEnabled = getBool("young_driver_fee_enabled");
+    const youngDriverFeeUnder21 = getDecimal("young_driver_fee_under_21");
+    const youngDriverFeeUnder25 = getDecimal("young_driver_fee_under_25");
+
+    return {
       loading,
       error,
-      minAge: getInt("min_driver_age"),
-      maxAdditionalDrivers: getInt("max_additional_drivers"),
-      usLicenseOnly: getBool("us_license_only"),
-      youngDriverFeeEnabled: getBool("young_driver_fee_enabled"),
+      minAge,
+      maxAdditionalDrivers,
+      usLicenseOnly,
+      youngDriverFeeEnabled,
+      youngDriverFeeUnder21,
+      youngDriverFeeUnder25,
       firstBookingVerificationOnly: getBool("first_booking_verification_only"),
-    }),
-    [getInt, getBool, loading, error]
-  );
+      // Rules for the shared driver eligibility engine
+      rules: driverEligibilityRulesFromConfig({
+        min_driver_age: minAge,
+        max_additional_drivers: maxAdditionalDrivers,
+        us_license_only: usLicenseOnly,
+        young_driver_fee_enabled: youngDriverFeeEnabled,
+        young_driver_fee_under_21: youngDriverFeeUnder21,
+        young_driver_fee_under_25: youngDriverFeeUnder25,
+      }),
+    };
+  }, [getInt, getDecimal, getBool, loading, error]);
 }
 
 /**
@@ -257,16 +314,91 @@ export function useDriverConfig() {
 export function useExtensionConfig() {
   const { getInt, loading, error } = useConfig();
 
+  return useMemo(() => {
+    const minRentalDays = getInt("extension_min_rental_days");
+    const minDurationDays = getInt("extension_min_duration_days");
+    const cutoffDays = getInt("extension_cutoff_days");
+    const maxExtensions = getInt("max_extensions");
+
+    return {
+      loading,
+      error,
+      minRentalDays,
+      minDurationDays,
+      cutoffDays,
+      maxExtensions,
+      // Rules for the shared extension eligibility engine
+      rules: extensionRulesFromConfig({
+        extension_min_rental_days: minRentalDays,
+        extension_min_duration_days: minDurationDays,
+        extension_cutoff_days: cutoffDays,
+        max_extensions: maxExtensions,
+      }),
+    };
+  }, [getInt, loading, error]);
+}
+
+/**
+ * Hook for insurance deadline config values
+ */
+export function useInsuranceConfig() {
+  const { getInt, getDecimal, loading, error } = useConfig();
+
+  return useMemo(() => {
+    const deadlineHours = getInt("insurance_deadline_hours");
+    const gracePeriodHours = getInt("insurance_grace_period_hours");
+    const lateFeeDaily = getDecimal("insurance_late_fee_daily");
+
+    return {
+      loading,
+      error,
+      deadlineHours,
+      gracePeriodHours,
+      lateFeeDaily,
+      // Rules for the shared insurance deadline engine
+      rules: insuranceRulesFromConfig({
+        insurance_deadline_hours: deadlineHours,
+        insurance_grace_period_hours: gracePeriodHours,
+        insurance_late_fee_daily: lateFeeDaily,
+      }),
+    };
+  }, [getInt, getDecimal, loading, error]);
+}
+
+/**
+ * Hook for security deposit release config values
+ */
+export function useDepositConfig() {
+  const { getInt, loading, error } = useConfig();
+
+  return useMemo(() => {
+    const releaseBusinessDays = getInt("deposit_release_business_days");
+
+    return {
+      loading,
+      error,
+      releaseBusinessDays,
+      // Rules for the shared deposit release engine
+      rules: depositRulesFromConfig({
+        deposit_release_business_days: releaseBusinessDays,
+      }),
+    };
+  }, [getInt, loading, error]);
+}
+
+/**
+ * Hook for the referral reward
+ */
+export function useReferralConfig() {
+  const { getDecimal, loading, error } = useConfig();
+
   return useMemo(
     () => ({
       loading,
       error,
-      minRentalDays: getInt("extension_min_rental_days"),
-      minDurationDays: getInt("extension_min_duration_days"),
-      cutoffDays: getInt("extension_cutoff_days"),
-      maxExtensions: getInt("max_extensions"),
+      creditAmount: getDecimal("referral_credit_amount"),
     }),
-    [getInt, loading, error]
+    [getDecimal, loading, error]
   );
 }
 
@@ -302,6 +434,7 @@ export function useDeliveryConfig() {
       waitMinutes: getInt("delivery_wait_minutes"),
       firstSlotOffsetHours: getInt("delivery_first_slot_offset_hours"),
       slotIntervalHours: getInt("delivery_slot_interval_hours"),
+      slotCapacity: getInt("delivery_slot_capacity"),
     }),
     [getInt, loading, error]
   );
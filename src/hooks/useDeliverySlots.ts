@@ -0,0 +1,87 @@
+import { useState, useEffect } from "react";
+import { deliveryLocationService } from "@/services/deliveryLocations/deliveryLocationService";
+import type { DeliveryTimeSlot } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseDeliverySlotsResult {
+  slots: DeliveryTimeSlot[];
+  /** Why nothing can be booked on this date, if so */
+  unavailableReason: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Delivery time slots for a location and date, with remaining capacity
+ * @param locationId - delivery location (null to disable)
+ * @param date - YYYY-MM-DD or datetime-local string (empty to disable)
+ */
+export function useDeliverySlots(
+  locationId: string | null,
+  date: string
+): UseDeliverySlotsResult {
+  const [slots, setSlots] = useState<DeliveryTimeSlot[]>([]);
+  const [unavailableReason, setUnavailableReason] = useState<string | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dateOnly = date ? date.split("T")[0] : "";
+
+  useEffect(() => {
+    if (!locationId || !dateOnly) {
+      setSlots([]);
+      setUnavailableReason(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await deliveryLocationService.getDeliverySlots(
+          locationId,
+          dateOnly
+        );
+
+        if (!cancelled) {
+          setSlots(result.slots);
+          setUnavailableReason(result.deliveryAvailable ? null : result.reason);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setSlots([]);
+          setUnavailableReason(null);
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to load delivery times. Please try again."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locationId, dateOnly]);
+
+  return { slots, unavailableReason, loading, error };
+}
+
+export default useDeliverySlots;
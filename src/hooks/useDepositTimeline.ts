@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from "react";
+import { bookingService } from "@/services/bookings/bookingService";
+import { configService } from "@/services/config/configService";
+import {
+  depositReleaseDate,
+  evaluateDeposit,
+} from "@/services/bookings/depositRules";
+import type { DepositStatus } from "@/services/bookings/depositRules";
+import { toBusinessDateString } from "@/utils/dates";
+import { useDepositConfig } from "./useConfig";
+import type { Booking, DepositStatement } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseDepositTimelineResult {
+  deposit: DepositStatus;
+  /** Itemized deductions and deposit refunds (null until loaded) */
+  statement: DepositStatement | null;
+  /** deposit_release_business_days */
+  releaseBusinessDays: number;
+  loading: boolean;
+  error: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Calendar days of closures to load past the return (covers long closures) */
+const CLOSURE_LOOKAHEAD_DAYS = 60;
+
+// ============================================
+// HELPERS
+// ============================================
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Security deposit timeline for a booking: release date (business days after
+ * the return, skipping store closures), deductions and refund status
+ * @param booking - booking to track
+ */
+export function useDepositTimeline(
+  booking: Booking
+): UseDepositTimelineResult {
+  const { rules } = useDepositConfig();
+  const [closedDates, setClosedDates] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const [statement, setStatement] = useState<DepositStatement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasDeposit = booking.securityDeposit > 0;
+  const returnDay =
+    booking.status === "completed"
+      ? toBusinessDateString(
+          new Date(booking.actualReturnDate || booking.returnDate)
+        )
+      : null;
+
+  // Store closures between the return and the release date
+  useEffect(() => {
+    if (!hasDeposit || !returnDay) return;
+
+    let cancelled = false;
+
+    configService
+      .getClosedDates(
+        returnDay,
+        addDays(returnDay, rules.releaseBusinessDays + CLOSURE_LOOKAHEAD_DAYS)
+      )
+      .then((dates) => {
+        if (!cancelled) setClosedDates(new Set(dates));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasDeposit, returnDay, rules.releaseBusinessDays]);
+
+  // Deductions and refunds (reloaded when staff settle the deposit)
+  useEffect(() => {
+    if (!hasDeposit) {
+      setStatement(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await bookingService.getDepositStatement(booking.id);
+        if (!cancelled) setStatement(result);
+      } catch (err) {
+        if (!cancelled) {
+          setStatement(null);
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to load your deposit statement."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    booking.id,
+    hasDeposit,
+    booking.securityDepositDeduction,
+    booking.securityDepositReturned,
+  ]);
+
+  const deposit = useMemo(
+    () =>
+      evaluateDeposit(
+        booking,
+        returnDay ? depositReleaseDate(returnDay, rules, closedDates) : null,
+        toBusinessDateString()
+      ),
+    [booking, returnDay, rules, closedDates]
+  );
+
+  return {
+    deposit,
+    statement,
+    releaseBusinessDays: rules.releaseBusinessDays,
+    loading,
+    error,
+  };
+}
+
+export default useDepositTimeline;
@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import { useDriverConfig } from "@/hooks/useConfig";
+import { toBusinessDateString } from "@/utils/dates";
+import {
+  driverLabel,
+  evaluateDriversEligibility,
+} from "@/services/drivers/driverEligibility";
+import type {
+  DriverEligibilityInput,
+  DriversEligibility,
+} from "@/services/drivers/driverEligibility";
+import type { YoungDriverFeeLine } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseDriverEligibilityResult extends DriversEligibility {
+  /** Surcharge lines for usePricing, one per young driver */
+  youngDriverFees: YoungDriverFeeLine[];
+  loading: boolean;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Evaluates every driver on a booking against the driver config
+ * @param primaryDriver - the primary driver's date of birth and license
+ * @param additionalDrivers - additional drivers, in form order
+ * @param pickupDate - datetime-local or YYYY-MM-DD (empty means today)
+ */
+export function useDriverEligibility(
+  primaryDriver: DriverEligibilityInput,
+  additionalDrivers: DriverEligibilityInput[],
+  pickupDate: string
+): UseDriverEligibilityResult {
+  const { rules, loading } = useDriverConfig();
+
+  const pickupDay = pickupDate.split("T")[0] || toBusinessDateString();
+
+  return useMemo(() => {
+    const result = evaluateDriversEligibility(
+      [primaryDriver, ...additionalDrivers],
+      pickupDay,
+      rules
+    );
+
+    const youngDriverFees = result.drivers.flatMap((driver, index) =>
+      driver.tier && driver.age !== null && driver.fee > 0
+        ? [
+            {
+              driverLabel: driverLabel(index),
+              tier: driver.tier,
+              age: driver.age,
+              amount: driver.fee,
+            },
+          ]
+        : []
+    );
+
+    return { ...result, youngDriverFees, loading };
+  }, [primaryDriver, additionalDrivers, pickupDay, rules, loading]);
+}
+
+export default useDriverEligibility;
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from "react";
+import { driverInviteService } from "@/services/drivers/driverInviteService";
+import type { DriverInvite, DriverInviteDetails } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseDriverInviteResult {
+  invite: DriverInvite | null;
+  loading: boolean;
+  submitting: boolean;
+  verifying: boolean;
+  error: string | null;
+  /** Why the driver can't drive this rental, after a rejected submit */
+  ineligibleReasons: string[];
+  /** Saves the driver's details; resolves true when they were accepted */
+  submit: (
+    details: DriverInviteDetails,
+    acceptTerms: boolean
+  ) => Promise<boolean>;
+  /** Sends the driver to Stripe's ID + selfie page */
+  verify: () => Promise<void>;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Additional driver invite by link token, with details and ID check
+ * @param token - invite token from the emailed link (null to disable)
+ */
+export function useDriverInvite(token: string | null): UseDriverInviteResult {
+  const [invite, setInvite] = useState<DriverInvite | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ineligibleReasons, setIneligibleReasons] = useState<string[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!token) {
+      setInvite(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await driverInviteService.getInvite(token);
+      if (!cancelled) {
+        setInvite(result.invite || null);
+        setError(result.success ? null : result.error || null);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, refreshKey]);
+
+  const submit = useCallback(
+    async (details: DriverInviteDetails, acceptTerms: boolean) => {
+      if (!token) return false;
+
+      setSubmitting(true);
+      setError(null);
+      setIneligibleReasons([]);
+
+      const result = await driverInviteService.submitDetails(
+        token,
+        details,
+        acceptTerms
+      );
+
+      setSubmitting(false);
+
+      if (!result.success) {
+        if (result.code === "DRIVER_INELIGIBLE") {
+          setIneligibleReasons(result.reasons || []);
+        } else {
+          setError(result.error || "Unable to save your details.");
+        }
+        return false;
+      }
+
+      setInvite(result.invite || null);
+      return true;
+    },
+    [token]
+  );
+
+  const verify = useCallback(async () => {
+    if (!token) return;
+
+    setVerifying(true);
+    setError(null);
+
+    const result = await driverInviteService.startVerification(token);
+
+    if (!result.success) {
+      setVerifying(false);
+      setError(result.error || "Unable to start verification right now.");
+      return;
+    }
+
+    if (result.url) {
+      // Stripe returns the driver to this invite page when they're done
+      window.location.href = result.url;
+      return;
+    }
+
+    setVerifying(false);
+    setRefreshKey((key) => key + 1);
+  }, [token]);
+
+  return {
+    invite,
+    loading,
+    submitting,
+    verifying,
+    error,
+    ineligibleReasons,
+    submit,
+    verify,
+  };
+}
+
+export default useDriverInvite;
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from "react";
+import { identityVerificationService } from "@/services/drivers/identityVerificationService";
+import { driverInviteService } from "@/services/drivers/driverInviteService";
+import type {
+  BookingIdentityVerification,
+  DriverIdentityVerification,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseIdentityVerificationResult {
+  /** Per-driver status (null until loaded or if unavailable) */
+  verification: BookingIdentityVerification | null;
+  loading: boolean;
+  /** Driver whose verification is being opened */
+  startingDriverId: string | null;
+  error: string | null;
+  /** Sends the customer to Stripe's ID + selfie page for this driver */
+  start: (driver: DriverIdentityVerification) => Promise<void>;
+  /** Invited driver whose invite email is being resent */
+  resendingDriverId: string | null;
+  /** Invited drivers emailed again from here */
+  resentDriverIds: string[];
+  /** Emails an invited driver their /driver-invite link again */
+  resendInvite: (driver: DriverIdentityVerification) => Promise<void>;
+  refetch: () => void;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Identity verification for the drivers on one of the user's bookings
+ * @param bookingId - booking to check (nothing loads while undefined)
+ * @param enabled - skip loading, e.g. for past bookings
+ */
+export function useIdentityVerification(
+  bookingId: string | undefined,
+  enabled = true
+): UseIdentityVerificationResult {
+  const [verification, setVerification] =
+    useState<BookingIdentityVerification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [startingDriverId, setStartingDriverId] = useState<string | null>(
+    null
+  );
+  const [resendingDriverId, setResendingDriverId] = useState<string | null>(
+    null
+  );
+  const [resentDriverIds, setResentDriverIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!enabled || !bookingId) {
+      setVerification(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const result =
+        await identityVerificationService.getBookingVerification(bookingId);
+      if (!cancelled) {
+        setVerification(result);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, bookingId, refreshKey]);
+
+  const refetch = useCallback(() => {
+    setRefreshKey((key) => key + 1);
+  }, []);
+
+  const start = useCallback(
+    async (driver: DriverIdentityVerification) => {
+      if (!bookingId) return;
+
+      setStartingDriverId(driver.driverId);
+      setError(null);
+
+      const result = await identityVerificationService.startVerification(
+        bookingId,
+        driver.driverType,
+        driver.driverId
+      );
+
+      if (!result.success) {
+        setStartingDriverId(null);
+        setError(result.error || "Unable to start verification right now.");
+        return;
+      }
+
+      if (result.url) {
+        // Stripe returns the customer to My Bookings when they're done
+        window.location.href = result.url;
+        return;
+      }
+
+      setStartingDriverId(null);
+      refetch();
+    },
+    [bookingId, refetch]
+  );
+
+  const resendInvite = useCallback(
+    async (driver: DriverIdentityVerification) => {
+      if (!bookingId) return;
+
+      setResendingDriverId(driver.driverId);
+      setError(null);
+
+      const result = await driverInviteService.resendInvite(
+        bookingId,
+        driver.driverId
+      );
+
+      setResendingDriverId(null);
+
+      if (!result.success) {
+        setError(result.error || "Unable to resend the invite right now.");
+        return;
+      }
+
+      setResentDriverIds((ids) => [...ids, driver.driverId]);
+    },
+    [bookingId]
+  );
+
+  return {
+    verification,
+    loading,
+    startingDriverId,
+    error,
+    start,
+    resendingDriverId,
+    resentDriverIds,
+    resendInvite,
+    refetch,
+  };
+}
+
+export default useIdentityVerification;
@@ -0,0 +1,83 @@
+import { useState, useEffect, useMemo } from "react";
+import { bookingService } from "@/services/bookings/bookingService";
+import { evaluateInsuranceDeadline } from "@/services/insurance/insuranceRules";
+import type { InsuranceDeadlineResult } from "@/services/insurance/insuranceRules";
+import { useInsuranceConfig } from "./useConfig";
+import type { Booking } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseInsuranceDeadlineResult {
+  deadline: InsuranceDeadlineResult;
+  /** Late fees charged so far (booking_charges ledger) */
+  lateFeeTotal: number;
+  lateFeeDaily: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Live insurance deadline countdown and accrued late fees for a booking
+ * @param booking - booking to track
+ */
+export function useInsuranceDeadline(
+  booking: Booking
+): UseInsuranceDeadlineResult {
+  const { rules } = useInsuranceConfig();
+  const [now, setNow] = useState(() => new Date());
+  const [lateFeeTotal, setLateFeeTotal] = useState(0);
+
+  const deadline = useMemo(
+    () => evaluateInsuranceDeadline(booking, rules, now),
+    [booking, rules, now]
+  );
+
+  const isCounting =
+    deadline.stage === "due" ||
+    deadline.stage === "grace" ||
+    deadline.stage === "accruing";
+
+  // Tick the countdown while the clock is running
+  useEffect(() => {
+    if (!isCounting) return;
+
+    const timer = setInterval(() => setNow(new Date()), TICK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isCounting]);
+
+  // Reload the ledger total when another fee day starts
+  useEffect(() => {
+    if (booking.status !== "active") {
+      setLateFeeTotal(0);
+      return;
+    }
+
+    let cancelled = false;
+
+    bookingService
+      .getChargeSummary(booking.id, "insurance_late_fee")
+      .then((fees) => {
+        if (!cancelled) setLateFeeTotal(fees.total);
+      })
+      .catch(() => {
+        // Countdown still works without the ledger total
+        if (!cancelled) setLateFeeTotal(0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, booking.status, deadline.accruedDays]);
+
+  return { deadline, lateFeeTotal, lateFeeDaily: rules.lateFeeDaily };
+}
+
+export default useInsuranceDeadline;
@@ -0,0 +1,94 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "./useAuth";
+import { loyaltyService } from "@/services/users/loyaltyService";
+import type { LoyaltyStatus } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseLoyaltyStatusResult {
+  status: LoyaltyStatus | null;
+  /** 0-1 towards the next tier by the closer threshold; 1 at the top */
+  progress: number;
+  /** Rental days still needed for the next tier (null if days don't count) */
+  remainingDays: number | null;
+  /** Spend still needed for the next tier (null if spend doesn't count) */
+  remainingSpend: number | null;
+  loading: boolean;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Signed-in user's loyalty tier and progress towards the next one
+ * @param enabled - skip loading, e.g. while a modal is closed
+ */
+export function useLoyaltyStatus(enabled = true): UseLoyaltyStatusResult {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id || null;
+
+  const [status, setStatus] = useState<LoyaltyStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const loyaltyStatus = await loyaltyService.getLoyaltyStatus();
+      if (!cancelled) {
+        setStatus(loyaltyStatus);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  return useMemo(() => {
+    const nextTier = status?.nextTier;
+
+    if (!status || !nextTier) {
+      return {
+        status,
+        progress: status ? 1 : 0,
+        remainingDays: null,
+        remainingSpend: null,
+        loading,
+      };
+    }
+
+    const { minCompletedDays, minCompletedSpend } = nextTier;
+    const dayProgress = minCompletedDays
+      ? status.completedDays / minCompletedDays
+      : 0;
+    const spendProgress = minCompletedSpend
+      ? status.completedSpend / minCompletedSpend
+      : 0;
+
+    return {
+      status,
+      progress: Math.min(Math.max(dayProgress, spendProgress), 1),
+      remainingDays: minCompletedDays
+        ? Math.max(minCompletedDays - status.completedDays, 0)
+        : null,
+      remainingSpend: minCompletedSpend
+        ? Math.max(minCompletedSpend - status.completedSpend, 0)
+        : null,
+      loading,
+    };
+  }, [status, loading]);
+}
+
+export default useLoyaltyStatus;
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from "react";
+import { bookingService } from "@/services/bookings/bookingService";
+import type { MonthlyNotice, MonthlyNoticeResponse } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseMonthlyNoticeResult {
+  notice: MonthlyNotice | null;
+  loading: boolean;
+  submitting: boolean;
+  error: string | null;
+  /** Answer the notice; continuing redirects to the renewal checkout */
+  respond: (response: MonthlyNoticeResponse) => Promise<void>;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Monthly rental notice by response token, with reply handling
+ * @param token - notice response token (null to disable)
+ * @param source - where the customer is answering from
+ */
+export function useMonthlyNotice(
+  token: string | null,
+  source: "email" | "portal"
+): UseMonthlyNoticeResult {
+  const [notice, setNotice] = useState<MonthlyNotice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setNotice(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await bookingService.getMonthlyNotice(token);
+        if (!cancelled) setNotice(result);
+      } catch (err) {
+        if (!cancelled) {
+          setNotice(null);
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to load your rental notice. Please try again."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const respond = useCallback(
+    async (response: MonthlyNoticeResponse) => {
+      if (!token) return;
+
+      try {
+        setSubmitting(true);
+        setError(null);
+
+        const result = await bookingService.respondToMonthlyNotice(
+          token,
+          response,
+          source
+        );
+
+        if (result.url) {
+          window.location.href = result.url;
+          return;
+        }
+
+        setNotice(result);
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Unable to save your answer. Please try again."
+        );
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [token, source]
+  );
+
+  return { notice, loading, submitting, error, respond };
+}
+
+export default useMonthlyNotice;
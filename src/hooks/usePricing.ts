@@ -14,6 +14,9 @@ import type {
   PricingBreakdown,
   PricingBreakdownLine,
   RentalType,
+  YoungDriverFeeLine,
+  PromoDiscount,
+  LoyaltyBenefits,
 } from "@/types";
 
 // ============================================
@@ -25,8 +28,12 @@ interface UsePricingOptions {
   pickupDate: Date | string | null;
   returnDate: Date | string | null;
   isStudent?: boolean;
+  academicTermId?: string | null; // Semester rental: price the whole term
   deliveryFee?: number;
   additionalDrivers?: number;
+  youngDriverFees?: YoungDriverFeeLine[]; // From useDriverEligibility
+  promoCode?: string | null; // Checked against the rental once priced
+  accountCredit?: number; // Credit the customer chose to use (up to balance)
   enabled?: boolean; // Set to false to disable auto-fetching
 }
 
@@ -35,6 +42,8 @@ interface UsePricingReturn {
   breakdown: PricingBreakdown | null;
   loading: boolean;
   error: string | null;
+  promoLoading: boolean;
+  promoError: string | null;
   refetch: () => Promise<void>;
 }
 
@@ -81,7 +90,9 @@ function generateBreakdown(pricing: BookingTotal): PricingBreakdown {
   } else if (pricing.pricingMethod === "monthly") {
     rentalDescription = `${pricing.rentalDays} days at monthly rate`;
   } else if (pricing.pricingMethod === "semester") {
-    rentalDescription = "Semester rate (student)";
+    rentalDescription = pricing.termName
+      ? `${pricing.termName} semester rate (student)`
+      : "Semester rate (student)";
   }
 
   lines.push({
@@ -108,6 +119,49 @@ function generateBreakdown(pricing: BookingTotal): PricingBreakdown {
     });
   }
 
+  // Fees the loyalty tier waives (already left out of the amounts above)
+  if (pricing.loyalty?.deliveryFeeWaived) {
+    lines.push({
+      label: "Delivery Fee",
+      description: `Waived for ${pricing.loyalty.tierName} members`,
+      amount: 0,
+    });
+  }
+
+  if (pricing.loyalty?.additionalDriverFeeWaived) {
+    lines.push({
+      label: "Additional Drivers",
+      description: `Waived for ${pricing.loyalty.tierName} members`,
+      amount: 0,
+    });
+  }
+
+  // Young driver surcharge, one line per driver
+  for (const fee of pricing.youngDriverFees || []) {
+    lines.push({
+      label: "Young Driver Surcharge",
+      description: `${fee.driverLabel} (age ${fee.age})`,
+      amount: fee.amount,
+    });
+  }
+
+  // Promo code discount
+  if (pricing.promo && pricing.discountAmount) {
+    lines.push({
+      label: `Promo ${pricing.promo.code}`,
+      description: pricing.promo.description || undefined,
+      amount: -pricing.discountAmount,
+    });
+  }
+
+  // Account credit
+  if (pricing.accountCreditApplied) {
+    lines.push({
+      label: "Account Credit",
+      amount: -pricing.accountCreditApplied,
+    });
+  }
+
   // Subtotal
   lines.push({
     label: "Subtotal",
@@ -118,8 +172,11 @@ function generateBreakdown(pricing: BookingTotal): PricingBreakdown {
   // Security deposit
   lines.push({
     label: "Security Deposit",
-    description:
-      pricing.rentalType === "weekly" ? "Refundable" : "1 month (refundable)",
+    description: pricing.loyalty?.depositDiscount
+      ? `Refundable, ${pricing.loyalty.tierName} member discount applied`
+      : pricing.rentalType === "weekly"
+        ? "Refundable"
+        : "1 month (refundable)",
     amount: pricing.securityDeposit,
     isDeposit: true,
   });
@@ -139,6 +196,112 @@ function generateBreakdown(pricing: BookingTotal): PricingBreakdown {
   };
 }
 
+/**
+ * Take the loyalty tier's waived fees and deposit discount off database
+ * pricing. The rental amount is untouched, so promos and credit still
+ * apply to all of it.
+ */
+function applyLoyaltyBenefits(
+  pricing: BookingTotal,
+  loyalty: LoyaltyBenefits | null
+): BookingTotal {
+  if (!loyalty) return pricing;
+
+  // The benefits may lag a repricing by a moment; never waive more than
+  // the current fees
+  const deliveryFeeWaived = Math.min(
+    loyalty.deliveryFeeWaived,
+    pricing.deliveryFee
+  );
+  const additionalDriverFeeWaived = Math.min(
+    loyalty.additionalDriverFeeWaived,
+    pricing.additionalDriverFee
+  );
+  const depositDiscount = Math.min(
+    loyalty.depositDiscount,
+    pricing.securityDeposit
+  );
+  const feesWaived = deliveryFeeWaived + additionalDriverFeeWaived;
+
+  return {
+    ...pricing,
+    deliveryFee: pricing.deliveryFee - deliveryFeeWaived,
+    additionalDriverFee:
+      pricing.additionalDriverFee - additionalDriverFeeWaived,
+    securityDeposit: pricing.securityDeposit - depositDiscount,
+    subtotal: pricing.subtotal - feesWaived,
+    totalDueNow: pricing.totalDueNow - feesWaived - depositDiscount,
+    loyalty: {
+      ...loyalty,
+      deliveryFeeWaived,
+      additionalDriverFeeWaived,
+      depositDiscount,
+      totalSavings: feesWaived + depositDiscount,
+    },
+  };
+}
+
+/**
+ * Add the young driver surcharge to database pricing. The fee is flat per
+ * driver, so it goes into the subtotal like the additional driver fee.
+ */
+function applyYoungDriverFees(
+  pricing: BookingTotal,
+  fees: YoungDriverFeeLine[]
+): BookingTotal {
+  const youngDriverFee = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+  return {
+    ...pricing,
+    subtotal: pricing.subtotal + youngDriverFee,
+    totalDueNow: pricing.totalDueNow + youngDriverFee,
+    youngDriverFee,
+    youngDriverFees: fees,
+  };
+}
+
+/**
+ * Take a promo code off the rental amount. The discount never exceeds the
+ * rental, so fees and the deposit are always paid in full.
+ */
+function applyPromoDiscount(
+  pricing: BookingTotal,
+  promo: PromoDiscount | null
+): BookingTotal {
+  if (!promo) return pricing;
+
+  const discountAmount = Math.min(promo.amount, pricing.rentalAmount);
+
+  return {
+    ...pricing,
+    subtotal: pricing.subtotal - discountAmount,
+    totalDueNow: pricing.totalDueNow - discountAmount,
+    discountAmount,
+    promo,
+  };
+}
+
+/**
+ * Spend account credit on what's left of the rental after the promo code
+ */
+function applyAccountCredit(
+  pricing: BookingTotal,
+  credit: number
+): BookingTotal {
+  const remainingRental = pricing.rentalAmount - (pricing.discountAmount || 0);
+  const accountCreditApplied =
+    Math.round(Math.min(credit, Math.max(remainingRental, 0)) * 100) / 100;
+
+  if (accountCreditApplied <= 0) return pricing;
+
+  return {
+    ...pricing,
+    subtotal: pricing.subtotal - accountCreditApplied,
+    totalDueNow: pricing.totalDueNow - accountCreditApplied,
+    accountCreditApplied,
+  };
+}
+
 /**
  * Calculate rental days between two dates
  */
@@ -180,14 +343,22 @@ export function usePricing(options: UsePricingOptions): UsePricingReturn {
     pickupDate,
     returnDate,
     isStudent = false,
+    academicTermId = null,
     deliveryFee = 0,
     additionalDrivers = 0,
+    youngDriverFees,
+    promoCode = null,
+    accountCredit = 0,
     enabled = true,
   } = options;
 
-  const [pricing, setPricing] = useState<BookingTotal | null>(null);
+  const [basePricing, setPricing] = useState<BookingTotal | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [promo, setPromo] = useState<PromoDiscount | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [loyalty, setLoyalty] = useState<LoyaltyBenefits | null>(null);
 
   // Check if we have all required inputs
   const hasRequiredInputs = Boolean(vehicleId && pickupDate && returnDate);
@@ -203,14 +374,21 @@ export function usePricing(options: UsePricingOptions): UsePricingReturn {
     setError(null);
 
     try {
-      const result = await pricingService.calculateBookingTotal(
-        vehicleId,
-        pickupDate,
-        returnDate,
-        isStudent,
-        deliveryFee,
-        additionalDrivers
-      );
+      const result = academicTermId
+        ? await pricingService.calculateTermTotal(
+            vehicleId,
+            academicTermId,
+            deliveryFee,
+            additionalDrivers
+          )
+        : await pricingService.calculateBookingTotal(
+            vehicleId,
+            pickupDate,
+            returnDate,
+            isStudent,
+            deliveryFee,
+            additionalDrivers
+          );
 
       setPricing(result);
     } catch (err) {
@@ -227,6 +405,7 @@ export function usePricing(options: UsePricingOptions): UsePricingReturn {
     pickupDate,
     returnDate,
     isStudent,
+    academicTermId,
     deliveryFee,
     additionalDrivers,
   ]);
@@ -241,6 +420,78 @@ export function usePricing(options: UsePricingOptions): UsePricingReturn {
     }
   }, [enabled, hasRequiredInputs, fetchPricing]);
 
+  // Re-check the promo code whenever the rental it discounts is repriced
+  useEffect(() => {
+    const code = promoCode?.trim();
+
+    if (!code || !vehicleId || !basePricing) {
+      setPromo(null);
+      setPromoError(null);
+      setPromoLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setPromoLoading(true);
+
+    pricingService
+      .applyPromoCode(
+        code,
+        vehicleId,
+        basePricing.rentalType,
+        basePricing.rentalDays,
+        basePricing.rentalAmount
+      )
+      .then(({ discount, error: checkError }) => {
+        if (cancelled) return;
+        setPromo(discount);
+        setPromoError(checkError);
+        setPromoLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [promoCode, vehicleId, basePricing]);
+
+  // Loyalty tier benefits for the fees and deposit just priced
+  useEffect(() => {
+    if (!basePricing) {
+      setLoyalty(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    pricingService
+      .calculateLoyaltyBenefits(
+        basePricing.deliveryFee,
+        basePricing.additionalDriverFee,
+        basePricing.securityDeposit
+      )
+      .then((benefits) => {
+        if (!cancelled) setLoyalty(benefits);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [basePricing]);
+
+  const pricing = useMemo(() => {
+    if (!basePricing) return null;
+    return applyAccountCredit(
+      applyPromoDiscount(
+        applyYoungDriverFees(
+          applyLoyaltyBenefits(basePricing, loyalty),
+          youngDriverFees || []
+        ),
+        promo
+      ),
+      accountCredit
+    );
+  }, [basePricing, loyalty, youngDriverFees, promo, accountCredit]);
+
   // Generate breakdown
   const breakdown = useMemo(() => {
     if (!pricing) return null;
@@ -252,6 +503,8 @@ export function usePricing(options: UsePricingOptions): UsePricingReturn {
     breakdown,
     loading,
     error,
+    promoLoading,
+    promoError,
     refetch: fetchPricing,
   };
 }
@@ -0,0 +1,87 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "./useAuth";
+import {
+  referralService,
+  referralLink,
+} from "@/services/users/referralService";
+import type { Referral } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseReferralsResult {
+  /** The customer's own code, created on first load */
+  code: string | null;
+  /** Landing link to share */
+  link: string | null;
+  /** People who signed up with the code, newest first */
+  referrals: Referral[];
+  /** Referrals still waiting on a first completed rental */
+  pendingCount: number;
+  creditedCount: number;
+  loading: boolean;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Signed-in user's referral code and the sign-ups it brought in
+ * @param enabled - skip loading, e.g. while a modal is closed
+ */
+export function useReferrals(enabled = true): UseReferralsResult {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id || null;
+
+  const [code, setCode] = useState<string | null>(null);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setCode(null);
+      setReferrals([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const [ownCode, ownReferrals] = await Promise.all([
+        referralService.getReferralCode(),
+        referralService.getReferrals(userId),
+      ]);
+      if (!cancelled) {
+        setCode(ownCode);
+        setReferrals(ownReferrals);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  const link = useMemo(() => (code ? referralLink(code) : null), [code]);
+
+  const creditedCount = useMemo(
+    () => referrals.filter((referral) => referral.status === "credited").length,
+    [referrals]
+  );
+
+  return {
+    code,
+    link,
+    referrals,
+    pendingCount: referrals.length - creditedCount,
+    creditedCount,
+    loading,
+  };
+}
+
+export default useReferrals;
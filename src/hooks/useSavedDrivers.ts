@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useAuth } from "./useAuth";
+import { savedDriverService } from "@/services/users/savedDriverService";
+import type { SavedDriver, SavedDriverInput } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseSavedDriversResult {
+  /** Every saved driver, account holder first */
+  drivers: SavedDriver[];
+  /** The account holder's own saved details, if any */
+  primary: SavedDriver | null;
+  /** Saved drivers other than the account holder */
+  others: SavedDriver[];
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  /** Add a driver, or update one when `id` is given */
+  save: (driver: SavedDriverInput, id?: string) => Promise<boolean>;
+  remove: (id: string) => Promise<boolean>;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Signed-in user's saved drivers (address book for the booking forms)
+ * @param enabled - skip loading, e.g. while a modal is closed
+ */
+export function useSavedDrivers(enabled = true): UseSavedDriversResult {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id || null;
+
+  const [drivers, setDrivers] = useState<SavedDriver[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setDrivers([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const result = await savedDriverService.getSavedDrivers(userId);
+      if (!cancelled) {
+        setDrivers(result);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  const save = useCallback(
+    async (driver: SavedDriverInput, id?: string) => {
+      if (!userId) return false;
+
+      setSaving(true);
+      setError(null);
+
+      const result = await savedDriverService.saveDriver(userId, driver, id);
+
+      setSaving(false);
+
+      if (!result.success || !result.driver) {
+        setError(result.error || "Unable to save this driver.");
+        return false;
+      }
+
+      const saved = result.driver;
+      setDrivers((prev) => [
+        saved,
+        ...prev
+          .filter((item) => item.id !== saved.id)
+          .map((item) =>
+            saved.isPrimary ? { ...item, isPrimary: false } : item
+          ),
+      ]);
+      return true;
+    },
+    [userId]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (!userId) return false;
+
+      setError(null);
+
+      const removed = await savedDriverService.deleteDriver(userId, id);
+      if (!removed) {
+        setError("Unable to remove this driver. Please try again.");
+        return false;
+      }
+
+      setDrivers((prev) => prev.filter((item) => item.id !== id));
+      return true;
+    },
+    [userId]
+  );
+
+  const primary = useMemo(
+    () => drivers.find((driver) => driver.isPrimary) || null,
+    [drivers]
+  );
+
+  const others = useMemo(
+    () => drivers.filter((driver) => !driver.isPrimary),
+    [drivers]
+  );
+
+  return { drivers, primary, others, loading, saving, error, save, remove };
+}
+
+export default useSavedDrivers;
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "./useAuth";
+import { studentVerificationService } from "@/services/students/studentVerificationService";
+import type { StudentVerification } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface UseStudentVerificationResult {
+  /** Latest student ID on file (null if none yet) */
+  verification: StudentVerification | null;
+  loading: boolean;
+  /** An upload or email request is in flight */
+  submitting: boolean;
+  error: string | null;
+  upload: (
+    file: File,
+    expiresOn: string,
+    schoolName?: string
+  ) => Promise<boolean>;
+  /** Email a code to a .edu address; resolves to the code's expiry */
+  sendEmailCode: (email: string) => Promise<string | null>;
+  verifyEmailCode: (code: string) => Promise<boolean>;
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Signed-in user's student ID: load, upload a new one and (optionally)
+ * confirm a school email by one-time code
+ */
+export function useStudentVerification(
+  enabled = true
+): UseStudentVerificationResult {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id || null;
+
+  const [verification, setVerification] =
+    useState<StudentVerification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      setVerification(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const result =
+        await studentVerificationService.getCurrentVerification(userId);
+      if (!cancelled) {
+        setVerification(result);
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId]);
+
+  const upload = useCallback(
+    async (file: File, expiresOn: string, schoolName?: string) => {
+      if (!userId) return false;
+
+      setSubmitting(true);
+      setError(null);
+
+      const result = await studentVerificationService.uploadStudentId({
+        userId,
+        file,
+        expiresOn,
+        schoolName,
+      });
+
+      setSubmitting(false);
+
+      if (!result.success || !result.verification) {
+        setError(result.error || "Failed to upload your student ID.");
+        return false;
+      }
+
+      setVerification(result.verification);
+      return true;
+    },
+    [userId]
+  );
+
+  const sendEmailCode = useCallback(
+    async (email: string) => {
+      if (!verification) return null;
+
+      setSubmitting(true);
+      setError(null);
+
+      const result = await studentVerificationService.sendEduEmailCode(
+        verification.id,
+        email
+      );
+
+      setSubmitting(false);
+
+      if (!result.success) {
+        setError(result.error || "Unable to send a code right now.");
+        return null;
+      }
+
+      return result.expiresAt || null;
+    },
+    [verification]
+  );
+
+  const verifyEmailCode = useCallback(
+    async (code: string) => {
+      if (!verification || !userId) return false;
+
+      setSubmitting(true);
+      setError(null);
+
+      const result = await studentVerificationService.verifyEduEmailCode(
+        verification.id,
+        code
+      );
+
+      if (!result.success) {
+        setSubmitting(false);
+        setError(result.error || "Unable to verify your email right now.");
+        return false;
+      }
+
+      const refreshed =
+        await studentVerificationService.getCurrentVerification(userId);
+      setSubmitting(false);
+      if (refreshed) setVerification(refreshed);
+      return true;
+    },
+    [verification, userId]
+  );
+
+  return {
+    verification,
+    loading,
+    submitting,
+    error,
+    upload,
+    sendEmailCode,
+    verifyEmailCode,
+  };
+}
+
+export default useStudentVerification;
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import * as Sentry from "@sentry/react";
 import { vehicleService } from "@/services/vehicles/vehicleService";
-import { Vehicle } from "@/types";
+import { Vehicle, VehicleAvailability } from "@/types";
 
 // ============================================
 // TYPES
@@ -151,4 +151,83 @@ export function useVehicles(
     }),
     [vehicles, loading, error, refetch, hasVehicles, totalCount]
   );
-}
\ No newline at end of file
+}
+// ============================================
+// FLEET AVAILABILITY (date search)
+// ============================================
+interface UseFleetAvailabilityResult {
+  /** Availability keyed by vehicle ID, or null when no dates are set */
+  availability: Map<string, VehicleAvailability> | null;
+  /** Requested pickup/return days the business is closed */
+  closedDates: string[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Availability of every vehicle for a pickup/return date range
+ * @param pickupDate - YYYY-MM-DD (empty to disable)
+ * @param returnDate - YYYY-MM-DD (empty to disable)
+ */
+export function useFleetAvailability(
+  pickupDate: string,
+  returnDate: string
+): UseFleetAvailabilityResult {
+  const [availability, setAvailability] = useState<Map<
+    string,
+    VehicleAvailability
+  > | null>(null);
+  const [closedDates, setClosedDates] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pickupDate || !returnDate || returnDate <= pickupDate) {
+      setAvailability(null);
+      setClosedDates([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await vehicleService.getFleetAvailability(
+          pickupDate,
+          returnDate
+        );
+
+        if (!cancelled) {
+          setAvailability(
+            new Map(result.vehicles.map((v) => [v.vehicleId, v]))
+          );
+          setClosedDates(result.closedDates);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setAvailability(null);
+          setClosedDates([]);
+          setError(
+            err instanceof Error
+              ? err.message
+              : "Unable to check availability for those dates."
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pickupDate, returnDate]);
+
+  return { availability, closedDates, loading, error };
+}
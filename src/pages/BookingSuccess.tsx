@@ -24,6 +24,8 @@ import {
 import * as Sentry from "@sentry/react";
 import { supabase } from "@/config/supabase";
 import { Navbar, Footer } from "@/components/layout";
+import { useDepositConfig } from "@/hooks";
+import { IdentityVerificationCard } from "@/components/bookings/shared";
 import {
   PrintButton,
   BookingReceiptPrint,
@@ -51,6 +53,10 @@ interface BookingDetails {
   security_deposit: string;
   additional_driver_fee: string;
   delivery_fee: string;
+  promo_code: string | null;
+  discount_amount: string | null;
+  account_credit_applied: string | null;
+  loyalty_savings: string | null;
   total_price: string;
   pickup_type: "store" | "delivery";
   pickup_location: string;
@@ -172,7 +178,8 @@ function getCustomerInfo(booking: BookingDetails): CustomerInfo | null {
 function mapToReceiptData(
   booking: BookingDetails,
   vehicle: VehicleDetails | null,
-  customer: CustomerInfo | null
+  customer: CustomerInfo | null,
+  depositReleaseBusinessDays: number
 ): BookingReceiptData {
   const vehicleImage = vehicle?.image
     ? Array.isArray(vehicle.image)
@@ -202,8 +209,15 @@ function mapToReceiptData(
     rentalAmount: parseFloat(booking.rental_amount) || 0,
     deliveryFee: parseFloat(booking.delivery_fee) || 0,
     additionalDriverFee: parseFloat(booking.additional_driver_fee) || 0,
+    promoCode: booking.promo_code,
+    discountAmount: parseFloat(booking.discount_amount || "0") || 0,
+    accountCreditApplied:
+      parseFloat(booking.account_credit_applied || "0") || 0,
+    loyaltySavings: parseFloat(booking.loyalty_savings || "0") || 0,
     securityDeposit: parseFloat(booking.security_deposit) || 0,
     totalPrice: parseFloat(booking.total_price) || 0,
+    depositReleaseBusinessDays,
+    deposit: null,
     paymentStatus: booking.payment_status || "pending",
     isStudentBooking: booking.is_student_booking || false,
   };
@@ -320,10 +334,16 @@ export const BookingSuccess: React.FC = () => {
   }, [bookingDetails?.booking_number]);
 
   // Memoized receipt data for printing
+  const { releaseBusinessDays } = useDepositConfig();
   const receiptData = useMemo(() => {
     if (!bookingDetails) return null;
-    return mapToReceiptData(bookingDetails, vehicleDetails, customerInfo);
-  }, [bookingDetails, vehicleDetails, customerInfo]);
+    return mapToReceiptData(
+      bookingDetails,
+      vehicleDetails,
+      customerInfo,
+      releaseBusinessDays
+    );
+  }, [bookingDetails, vehicleDetails, customerInfo, releaseBusinessDays]);
 
   useEffect(() => {
     if (hasRun.current) return;
@@ -465,6 +485,11 @@ export const BookingSuccess: React.FC = () => {
   const hasDeliveryFee = parseFloat(bookingDetails.delivery_fee || "0") > 0;
   const hasAdditionalDriverFee =
     parseFloat(bookingDetails.additional_driver_fee || "0") > 0;
+  const hasDiscount = parseFloat(bookingDetails.discount_amount || "0") > 0;
+  const hasAccountCredit =
+    parseFloat(bookingDetails.account_credit_applied || "0") > 0;
+  const hasLoyaltySavings =
+    parseFloat(bookingDetails.loyalty_savings || "0") > 0;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -635,6 +660,26 @@ export const BookingSuccess: React.FC = () => {
                     value={formatCurrency(bookingDetails.additional_driver_fee)}
                   />
                 )}
+                {hasDiscount && (
+                  <InfoRow
+                    label={`Promo ${bookingDetails.promo_code || "discount"}`}
+                    value={`-${formatCurrency(bookingDetails.discount_amount || 0)}`}
+                  />
+                )}
+                {hasAccountCredit && (
+                  <InfoRow
+                    label="Account Credit"
+                    value={`-${formatCurrency(
+                      bookingDetails.account_credit_applied || 0
+                    )}`}
+                  />
+                )}
+                {hasLoyaltySavings && (
+                  <InfoRow
+                    label="Loyalty Member Savings (included)"
+                    value={formatCurrency(bookingDetails.loyalty_savings || 0)}
+                  />
+                )}
                 <InfoRow
                   label="Security Deposit (Refundable)"
                   value={formatCurrency(bookingDetails.security_deposit)}
@@ -696,6 +741,11 @@ export const BookingSuccess: React.FC = () => {
           </div>
         </div>
 
+        {/* Identity Verification (optional, speeds up pickup) */}
+        <div className="mb-6">
+          <IdentityVerificationCard bookingId={bookingDetails.id} />
+        </div>
+
         {/* What's Next */}
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-6 mb-6">
           <h3 className="font-semibold text-blue-900 mb-3">What's Next?</h3>
@@ -0,0 +1,98 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+// DriverInvite.tsx
+import React, { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { AlertCircle, UserPlus } from "lucide-react";
+import { Navbar, Footer } from "@/components/layout";
+import { DriverInvitePanel } from "@/components/bookings/shared";
+
+/**
+ * Landing page for additional driver invite emails
+ * (/driver-invite?token=...). Works without an account: the invited driver
+ * adds their license and address, accepts the rental terms and verifies
+ * their ID here.
+ */
+export const DriverInvite: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const verificationSubmitted =
+    searchParams.get("verification") === "submitted";
+
+  // Stable handler references
+  const handleAuthModalOpen = useCallback((_mode: "login" | "register") => {
+    // Auth modal not needed on the invite page
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Helmet>
+        <title>Add Your Driver Details</title>
+        <meta
+          name="description"
+          content="Add your details as an additional driver on a 4A Rentals booking."
+        />
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <Navbar onAuthModalOpen={handleAuthModalOpen} />
+
+      <main id="main-content" className="max-w-2xl mx-auto px-4 py-16">
+        <div className="bg-white rounded-2xl shadow-sm p-8">
+          {/* Icon */}
+          <div
+            className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-6"
+            aria-hidden="true"
+          >
+            <UserPlus className="w-12 h-12 text-blue-600" />
+          </div>
+
+          {/* Content */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-3">
+              You're an Additional Driver
+            </h1>
+            <p className="text-gray-600">
+              Add your license and address, accept the rental terms and verify
+              your ID before pickup.
+            </p>
+          </div>
+
+          {/* Invite */}
+          {token ? (
+            <DriverInvitePanel
+              token={token}
+              verificationSubmitted={verificationSubmitted}
+            />
+          ) : (
+            <div
+              className="flex items-center gap-2 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+              role="alert"
+            >
+              <AlertCircle className="w-4 h-4" aria-hidden="true" />
+              <span>
+                This link is incomplete. Please use the link from your invite
+                email.
+              </span>
+            </div>
+          )}
+
+          {/* Help Text */}
+          <div className="mt-8 pt-6 border-t border-gray-100 text-center">
+            <p className="text-sm text-gray-600">
+              Need help? Contact us at{" "}
+              <a
+                href="mailto:support@4arentals.com"
+                className="text-gray-900 font-medium hover:underline"
+              >
+                support@4arentals.com
+              </a>
+            </p>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
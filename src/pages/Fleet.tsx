@@ -17,7 +17,7 @@ import {
   ChevronUp,
 } from "lucide-react";
 import { Navbar, Footer } from "@/components/layout";
-import { useVehicles } from "@/hooks/useVehicles";
+import { useVehicles, useFleetAvailability } from "@/hooks/useVehicles";
 import { useAuth } from "@/hooks/useAuth";
 import { Vehicle } from "@/types";
 import { Loader, Button, Input, Checkbox, Select } from "@/components/ui";
@@ -48,6 +48,8 @@ interface FilterState {
   pricingMode: PricingMode;
   search: string;
   sort: SortOption;
+  pickupDate: string;
+  returnDate: string;
 }
 
 // ============================================
@@ -125,6 +127,17 @@ const parseCategories = (param: string | null): string[] => {
   return param.split(",").filter(Boolean);
 };
 
+const parseDateParam = (param: string | null): string => {
+  return param && /^\d{4}-\d{2}-\d{2}$/.test(param) ? param : "";
+};
+
+const formatDateLabel = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -149,11 +162,23 @@ export const Fleet: React.FC = () => {
     pricingMode: (searchParams.get("priceMode") as PricingMode) || "monthly",
     search: searchParams.get("search") || "",
     sort: (searchParams.get("sort") as SortOption) || "recommended",
+    pickupDate: parseDateParam(searchParams.get("pickup")),
+    returnDate: parseDateParam(searchParams.get("return")),
   }));
 
   // Fetch all vehicles (we'll filter client-side for flexibility)
   const { vehicles: allVehicles, loading, error, refetch } = useVehicles();
 
+  // Availability for the selected dates (server-side, across the fleet)
+  const {
+    availability,
+    closedDates,
+    loading: availabilityLoading,
+    error: availabilityError,
+  } = useFleetAvailability(filters.pickupDate, filters.returnDate);
+
+  const today = useMemo(() => new Date().toLocaleDateString("en-CA"), []);
+
   // ============================================
   // URL SYNC
   // ============================================
@@ -178,6 +203,12 @@ export const Fleet: React.FC = () => {
     if (filters.sort !== "recommended") {
       params.set("sort", filters.sort);
     }
+    if (filters.pickupDate) {
+      params.set("pickup", filters.pickupDate);
+    }
+    if (filters.returnDate) {
+      params.set("return", filters.returnDate);
+    }
 
     setSearchParams(params, { replace: true });
   }, [filters, setSearchParams]);
@@ -251,8 +282,24 @@ export const Fleet: React.FC = () => {
         break;
     }
 
+    // With dates selected, vehicles free for those dates come first
+    // (unavailable ones stay listed with their next-available date)
+    if (availability) {
+      result.sort(
+        (a, b) =>
+          Number(availability.get(b.id)?.available ?? false) -
+          Number(availability.get(a.id)?.available ?? false)
+      );
+    }
+
     return result;
-  }, [allVehicles, filters]);
+  }, [allVehicles, filters, availability]);
+
+  const availableCount = useMemo(() => {
+    if (!availability) return null;
+    return filteredVehicles.filter((v) => availability.get(v.id)?.available)
+      .length;
+  }, [filteredVehicles, availability]);
 
   // ============================================
   // HANDLERS
@@ -300,6 +347,29 @@ export const Fleet: React.FC = () => {
     setFilters((prev) => ({ ...prev, sort: value as SortOption }));
   }, []);
 
+  const handlePickupDateChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const pickupDate = e.target.value;
+      setFilters((prev) => ({
+        ...prev,
+        pickupDate,
+        // Keep the range valid
+        returnDate:
+          prev.returnDate && prev.returnDate <= pickupDate
+            ? ""
+            : prev.returnDate,
+      }));
+    },
+    []
+  );
+
+  const handleReturnDateChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setFilters((prev) => ({ ...prev, returnDate: e.target.value }));
+    },
+    []
+  );
+
   const handleClearFilters = useCallback(() => {
     setFilters({
       categories: [],
@@ -308,6 +378,8 @@ export const Fleet: React.FC = () => {
       pricingMode: "monthly",
       search: "",
       sort: "recommended",
+      pickupDate: "",
+      returnDate: "",
     });
   }, []);
 
@@ -356,7 +428,9 @@ export const Fleet: React.FC = () => {
       filters.minPrice !== "" ||
       filters.maxPrice !== "" ||
       filters.pricingMode !== "monthly" ||
-      filters.search !== ""
+      filters.search !== "" ||
+      filters.pickupDate !== "" ||
+      filters.returnDate !== ""
     );
   }, [filters]);
 
@@ -365,6 +439,30 @@ export const Fleet: React.FC = () => {
   // ============================================
   const renderFilters = () => (
     <div className="space-y-6">
+      {/* Dates */}
+      <div>
+        <h3 className="text-sm font-semibold text-text-100 mb-3 uppercase tracking-wide">
+          Dates
+        </h3>
+        <div className="space-y-2">
+          <Input
+            type="date"
+            label="Pickup"
+            value={filters.pickupDate}
+            min={today}
+            onChange={handlePickupDateChange}
+          />
+          <Input
+            type="date"
+            label="Return"
+            value={filters.returnDate}
+            min={filters.pickupDate || today}
+            onChange={handleReturnDateChange}
+            disabled={!filters.pickupDate}
+          />
+        </div>
+      </div>
+
       {/* Car Type */}
       <div>
         <h3 className="text-sm font-semibold text-text-100 mb-3 uppercase tracking-wide">
@@ -587,10 +685,29 @@ export const Fleet: React.FC = () => {
                 </div>
               ) : (
                 <>
+                  {/* Date availability notices */}
+                  {availabilityError && (
+                    <p className="text-sm text-red-600 mb-2" role="alert">
+                      {availabilityError}
+                    </p>
+                  )}
+                  {closedDates.length > 0 && (
+                    <p className="text-sm text-amber-700 mb-2" role="status">
+                      We're closed on{" "}
+                      {closedDates.map(formatDateLabel).join(" and ")}. Choose
+                      a different pickup or return day.
+                    </p>
+                  )}
+
                   {/* Results Count */}
-                  <p className="text-sm text-text-200 mb-4">
-                    {filteredVehicles.length} vehicle
-                    {filteredVehicles.length !== 1 ? "s" : ""} found
+                  <p className="text-sm text-text-200 mb-4" aria-live="polite">
+                    {availabilityLoading
+                      ? "Checking availability..."
+                      : availableCount !== null
+                        ? `${availableCount} of ${filteredVehicles.length} vehicles available ${formatDateLabel(filters.pickupDate)} – ${formatDateLabel(filters.returnDate)}`
+                        : `${filteredVehicles.length} vehicle${
+                            filteredVehicles.length !== 1 ? "s" : ""
+                          } found`}
                   </p>
 
                   {/* Grid */}
@@ -610,6 +727,7 @@ export const Fleet: React.FC = () => {
                           getVehiclePrice(vehicle, filters.pricingMode)
                         )}
                         priceUnit={PRICING_MODE_TO_UNIT[filters.pricingMode]}
+                        availability={availability?.get(vehicle.id) ?? null}
                       />
                     ))}
                   </div>
@@ -23,20 +23,66 @@ import {
   Moon,
   Upload,
   X,
+  Star,
+  Pencil,
+  Undo2,
+  CalendarClock,
+  UserX,
+  Wallet,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { useBookings } from "@/hooks";
-import { Booking, RentalType, PaymentStatus, PickupType } from "@/types";
+import {
+  useBookings,
+  useExtensionConfig,
+  useInsuranceDeadline,
+  useDepositTimeline,
+} from "@/hooks";
+import {
+  Booking,
+  DepositRefund,
+  DepositStatement,
+  OutstandingBookingCharge,
+  RentalType,
+  PaymentStatus,
+  PickupType,
+  canExtend as isExtendable,
+  isCancellableBooking,
+  isModifiableBooking,
+  canReturnEarly,
+  isCompletedBooking,
+} from "@/types";
 import { Loader } from "@/components/ui/Loader";
 import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { Navbar, Footer } from "@/components/layout";
+import {
+  IdentityVerificationCard,
+  LoyaltyProgressCard,
+  MonthlyNoticePanel,
+} from "@/components/bookings/shared";
+import { bookingService } from "@/services/bookings/bookingService";
+import {
+  evaluateOverdue,
+  overdueDailyRate,
+} from "@/services/bookings/overdueRules";
+import type {
+  DepositStage,
+  DepositStatus,
+} from "@/services/bookings/depositRules";
 import {
   PrintButton,
   BookingReceiptPrint,
   BookingReceiptData,
 } from "@/components/print";
-import { InsuranceUploadModal, ExtendRentalModal } from "@/components/modals";
+import {
+  InsuranceUploadModal,
+  ExtendRentalModal,
+  ReviewModal,
+  CancelBookingModal,
+  ModifyBookingModal,
+  EarlyReturnModal,
+  ScheduleReturnModal,
+} from "@/components/modals";
 
 // ============================================
 // CONSTANTS
@@ -52,6 +98,11 @@ const FILTER_TABS = [
 
 type FilterValue = (typeof FILTER_TABS)[number]["value"];
 
+const REFUND_STATUS_LABELS: Partial<Record<DepositRefund["status"], string>> = {
+  succeeded: "completed",
+  requires_action: "action needed",
+};
+
 // ============================================
 // STATUS BADGE CONFIGURATION
 // ============================================
@@ -99,6 +150,12 @@ const STATUS_BADGES: Record<Booking["status"], StatusBadgeConfig> = {
     icon: <XCircle className="w-4 h-4" aria-hidden="true" />,
     label: "Cancelled",
   },
+  no_show: {
+    bg: "bg-red-100",
+    text: "text-red-800",
+    icon: <UserX className="w-4 h-4" aria-hidden="true" />,
+    label: "No-Show",
+  },
 };
 
 const PAYMENT_STATUS_BADGES: Record<
@@ -122,6 +179,15 @@ const RENTAL_TYPE_BADGES: Record<
   semester: { bg: "bg-purple-100", text: "text-purple-800", label: "Semester" },
 };
 
+const DEPOSIT_STAGE_LABELS: Record<DepositStage, string> = {
+  none: "No deposit",
+  held: "Held during rental",
+  awaiting_release: "Awaiting release",
+  on_hold: "On hold for review",
+  processing: "Refund processing",
+  released: "Released",
+};
+
 const TIME_SLOT_CONFIG: Record<
   string,
   { icon: React.ReactNode; label: string }
@@ -143,6 +209,27 @@ const TIME_SLOT_CONFIG: Record<
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
+
+/**
+ * Legacy bookings store a named window; newer ones store the slot start (HH:MM)
+ */
+function getTimeSlotInfo(
+  timeSlot: string
+): { icon: React.ReactNode; label: string } | null {
+  if (TIME_SLOT_CONFIG[timeSlot]) return TIME_SLOT_CONFIG[timeSlot];
+
+  const match = /^(\d{2}):(\d{2})$/.exec(timeSlot);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  return {
+    icon: <Clock className="w-4 h-4" />,
+    label: `Delivery from ${hours % 12 || 12}:${match[2]} ${
+      hours >= 12 ? "PM" : "AM"
+    }`,
+  };
+}
+
 function formatCurrency(amount: number): string {
   return `$${amount.toLocaleString("en-US", {
     minimumFractionDigits: 2,
@@ -165,6 +252,18 @@ function formatTime(dateString: string): string {
   });
 }
 
+/** "2d 4h", "5h 20m", "12m" */
+function formatCountdown(ms: number): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / (60 * 1000)));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
 function getDurationText(
   rentalDays: number | null,
   rentalType: RentalType
@@ -192,7 +291,17 @@ function getDurationText(
   return `${days} days (${weeks} week${weeks > 1 ? "s" : ""})`;
 }
 
-function mapBookingToReceiptData(booking: Booking): BookingReceiptData {
+/** Business dates (YYYY-MM-DD) are shown as that local calendar day */
+function fromBusinessDate(date: string): string {
+  return `${date}T00:00:00`;
+}
+
+function mapBookingToReceiptData(
+  booking: Booking,
+  deposit: DepositStatus,
+  statement: DepositStatement | null,
+  releaseBusinessDays: number
+): BookingReceiptData {
   const vehicleImage = booking.vehicle?.image
     ? Array.isArray(booking.vehicle.image)
       ? booking.vehicle.image[0]
@@ -221,8 +330,30 @@ function mapBookingToReceiptData(booking: Booking): BookingReceiptData {
     rentalAmount: booking.rentalAmount || 0,
     deliveryFee: booking.deliveryFee || 0,
     additionalDriverFee: booking.additionalDriverFee || 0,
+    promoCode: booking.promoCode,
+    discountAmount: booking.discountAmount || 0,
+    accountCreditApplied: booking.accountCreditApplied || 0,
+    loyaltySavings: booking.loyaltySavings || 0,
     securityDeposit: booking.securityDeposit || 0,
     totalPrice: booking.totalPrice || 0,
+    depositReleaseBusinessDays: releaseBusinessDays,
+    deposit:
+      deposit.stage === "none"
+        ? null
+        : {
+            status: DEPOSIT_STAGE_LABELS[deposit.stage],
+            releaseDate:
+              deposit.stage === "released"
+                ? booking.securityDepositReturnDate
+                : deposit.releaseDate && fromBusinessDate(deposit.releaseDate),
+            deductions: (statement?.deductions || []).map((deduction) => ({
+              description: deduction.description,
+              amount: deduction.amount,
+              photoCount: deduction.photoUrls.length,
+            })),
+            refundable: deposit.refundable,
+            returned: deposit.returned,
+          },
     paymentStatus: booking.paymentStatus || "pending",
     isStudentBooking: booking.isStudentBooking || false,
   };
@@ -318,7 +449,7 @@ const PickupTypeDisplay: React.FC<{
   timeSlot?: string | null;
 }> = ({ pickupType, location, timeSlot }) => {
   const isDelivery = pickupType === "delivery";
-  const timeSlotInfo = timeSlot ? TIME_SLOT_CONFIG[timeSlot] : null;
+  const timeSlotInfo = timeSlot ? getTimeSlotInfo(timeSlot) : null;
 
   return (
     <div className="flex items-start gap-3 text-sm">
@@ -349,44 +480,72 @@ const PickupTypeDisplay: React.FC<{
   );
 };
 
-/** Insurance Status Display */
+/** Insurance Status Display (deadline countdown and accrued late fees) */
 const InsuranceStatus: React.FC<{
-  uploaded: boolean;
-  verified: boolean;
-  status: Booking["status"];
+  booking: Booking;
   onUploadClick: () => void;
-}> = ({ uploaded, verified, status, onUploadClick }) => {
-  // Don't show for completed/cancelled
-  if (status === "completed" || status === "cancelled") return null;
+}> = ({ booking, onUploadClick }) => {
+  const { deadline, lateFeeTotal, lateFeeDaily } =
+    useInsuranceDeadline(booking);
+
+  // Don't show for completed/cancelled/no-show
+  if (isCompletedBooking(booking)) {
+    return null;
+  }
+
+  const feesNote =
+    lateFeeTotal > 0 ? ` · Late fees: ${formatCurrency(lateFeeTotal)}` : "";
 
-  if (verified) {
+  if (deadline.stage === "verified") {
     return (
       <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 px-3 py-2 rounded-lg">
         <CheckCircle className="w-4 h-4" aria-hidden="true" />
-        <span>Insurance Verified</span>
+        <span>Insurance Verified{feesNote}</span>
       </div>
     );
   }
 
-  if (uploaded) {
+  if (booking.insuranceUploaded) {
     return (
       <div className="flex items-center gap-2 text-sm text-blue-700 bg-blue-50 px-3 py-2 rounded-lg">
         <Clock className="w-4 h-4" aria-hidden="true" />
-        <span>Insurance Under Review</span>
+        <span>
+          Insurance Under Review
+          {lateFeeTotal > 0 &&
+            ` · Late fees paused at ${formatCurrency(lateFeeTotal)}`}
+        </span>
       </div>
     );
   }
 
+  let message = "Insurance Required";
+  let tone = "text-amber-700 bg-amber-50";
+
+  if (deadline.stage === "due") {
+    message = `Insurance due in ${formatCountdown(deadline.msUntilDeadline)}`;
+  } else if (deadline.stage === "grace") {
+    message =
+      lateFeeDaily > 0
+        ? `Insurance overdue · ${formatCurrency(lateFeeDaily)}/day late fee starts in ${formatCountdown(deadline.msUntilFees)}`
+        : "Insurance overdue";
+    tone = "text-red-700 bg-red-50";
+  } else if (deadline.stage === "accruing") {
+    message = `Insurance overdue · Late fees: ${formatCurrency(lateFeeTotal)} (${formatCurrency(lateFeeDaily)}/day)`;
+    tone = "text-red-700 bg-red-50";
+  }
+
   return (
-    <div className="flex items-center justify-between gap-2 text-sm text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">
+    <div
+      className={`flex items-center justify-between gap-2 text-sm px-3 py-2 rounded-lg ${tone}`}
+    >
       <div className="flex items-center gap-2">
         <AlertCircle className="w-4 h-4" aria-hidden="true" />
-        <span>Insurance Required</span>
+        <span>{message}</span>
       </div>
       <button
         type="button"
         onClick={onUploadClick}
-        className="text-xs font-medium text-amber-800 hover:text-amber-900 underline"
+        className="text-xs font-medium underline hover:opacity-80"
       >
         Upload Now
       </button>
@@ -394,6 +553,203 @@ const InsuranceStatus: React.FC<{
   );
 };
 
+/** Overdue rental banner (days late, charges so far, extend or schedule return) */
+const OverdueBanner: React.FC<{
+  booking: Booking;
+  canExtend: boolean;
+  onExtendClick: () => void;
+  onScheduleReturnClick: () => void;
+}> = ({ booking, canExtend, onExtendClick, onScheduleReturnClick }) => {
+  const [chargesTotal, setChargesTotal] = useState(0);
+
+  const overdue = useMemo(() => evaluateOverdue(booking), [booking]);
+  const dailyRate = overdueDailyRate(booking);
+
+  // Reload the ledger total when another overdue day starts
+  useEffect(() => {
+    if (!overdue.isOverdue) return;
+
+    let cancelled = false;
+
+    bookingService
+      .getChargeSummary(booking.id, "overdue_rental")
+      .then((charges) => {
+        if (!cancelled) setChargesTotal(charges.total);
+      })
+      .catch(() => {
+        // Banner still works without the ledger total
+        if (!cancelled) setChargesTotal(0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, overdue.isOverdue, overdue.daysOverdue]);
+
+  if (!overdue.isOverdue) return null;
+
+  const dayLabel = overdue.daysOverdue === 1 ? "day" : "days";
+
+  return (
+    <div
+      role="alert"
+      className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 space-y-3"
+    >
+      <div className="flex items-start gap-2 text-sm text-red-700">
+        <AlertCircle
+          className="w-4 h-4 mt-0.5 flex-shrink-0"
+          aria-hidden="true"
+        />
+        <div className="space-y-1">
+          <p className="font-medium">
+            Your rental is {overdue.daysOverdue} {dayLabel} overdue (due back{" "}
+            {formatDate(booking.returnDate)} at {formatTime(booking.returnDate)})
+          </p>
+          <p>
+            {dailyRate > 0 &&
+              `Overdue days are charged at ${formatCurrency(dailyRate)}/day. `}
+            {chargesTotal > 0 &&
+              `Charges so far: ${formatCurrency(chargesTotal)}. `}
+            Extend your rental or let us know when you'll bring it back.
+          </p>
+          {booking.scheduledReturnAt && (
+            <p className="text-red-800">
+              Return scheduled for {formatDate(booking.scheduledReturnAt)} at{" "}
+              {formatTime(booking.scheduledReturnAt)}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {canExtend && (
+          <Button variant="primary" size="sm" onClick={onExtendClick}>
+            <Calendar className="w-4 h-4 mr-1" />
+            Extend Rental
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={onScheduleReturnClick}>
+          <CalendarClock className="w-4 h-4 mr-1" />
+          {booking.scheduledReturnAt ? "Reschedule Return" : "Schedule Return"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/** Student pricing status: ID review, or the price adjustment after rejection */
+const StudentStatus: React.FC<{ booking: Booking }> = ({ booking }) => {
+  const [charges, setCharges] = useState<OutstandingBookingCharge[]>([]);
+
+  const rejected = !!booking.studentRejectedAt;
+
+  useEffect(() => {
+    if (!rejected) return;
+
+    let cancelled = false;
+
+    bookingService
+      .getOutstandingCharges(booking.id, "student_price_adjustment")
+      .then((result) => {
+        if (!cancelled) setCharges(result);
+      })
+      .catch(() => {
+        // The rejection email still has the pay link
+        if (!cancelled) setCharges([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.id, rejected]);
+
+  if (rejected) {
+    const amountDue = charges.reduce((sum, charge) => sum + charge.amount, 0);
+    const payLink = charges.find((charge) => charge.checkoutUrl)?.checkoutUrl;
+
+    return (
+      <div
+        role="alert"
+        className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 space-y-2 text-sm text-red-700"
+      >
+        <div className="flex items-start gap-2">
+          <GraduationCap
+            className="w-4 h-4 mt-0.5 flex-shrink-0"
+            aria-hidden="true"
+          />
+          <div className="space-y-1">
+            <p className="font-medium">
+              Your student ID wasn't accepted, so this booking now uses our
+              standard rates.
+            </p>
+            {booking.studentRejectionReason && (
+              <p>Reason: {booking.studentRejectionReason}</p>
+            )}
+            {amountDue > 0 && (
+              <p>
+                Price difference due: {formatCurrency(amountDue)}. Anything left
+                unpaid is taken from your security deposit.
+              </p>
+            )}
+          </div>
+        </div>
+        {amountDue > 0 && payLink && (
+          <a
+            href={payLink}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-gray-900 text-white text-sm font-medium hover:bg-gray-800"
+          >
+            <CreditCard className="w-4 h-4" aria-hidden="true" />
+            Pay {formatCurrency(amountDue)}
+          </a>
+        )}
+      </div>
+    );
+  }
+
+  if (!booking.isStudentBooking) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-purple-700 bg-purple-50 px-3 py-2 rounded-lg">
+      <GraduationCap className="w-4 h-4" aria-hidden="true" />
+      <span>
+        {booking.studentVerified
+          ? "Student discount verified"
+          : booking.studentVerificationId
+          ? "Student ID under review. We'll confirm it before pickup."
+          : "Student ID verification required at pickup"}
+      </span>
+    </div>
+  );
+};
+
+/** Open monthly rental notice ("are you continuing?"), if any */
+const MonthlyNoticeBanner: React.FC<{ bookingId: string }> = ({
+  bookingId,
+}) => {
+  const [token, setToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    bookingService
+      .getMonthlyNoticeToken(bookingId)
+      .then((result) => {
+        if (!cancelled) setToken(result);
+      })
+      .catch(() => {
+        // Banner is optional; the notice email still has the links
+        if (!cancelled) setToken(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingId]);
+
+  if (!token) return null;
+
+  return <MonthlyNoticePanel token={token} source="portal" />;
+};
+
 /** Payment Summary Section */
 const PaymentSummary: React.FC<{
   booking: Booking;
@@ -445,26 +801,233 @@ const PaymentSummary: React.FC<{
           </span>
         </div>
       </div>
-      {booking.status === "completed" && (
-        <div className="mt-3 pt-3 border-t border-gray-200">
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-600">Security Deposit Refund</span>
-            <span
-              className={
-                booking.securityDepositReturned
-                  ? "text-green-600"
-                  : "text-amber-600"
-              }
-            >
-              {booking.securityDepositReturned
-                ? `Refunded ${formatCurrency(
-                    booking.securityDepositAmountReturned
-                  )}`
-                : "Pending"}
+      {booking.status === "cancelled" && booking.cancelledAt && (
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-2 text-sm">
+          {booking.cancellationFeeApplied > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Cancellation Fee</span>
+              <span className="text-gray-900">
+                {formatCurrency(booking.cancellationFeeApplied)}
+              </span>
+            </div>
+          )}
+          {booking.rentalRefundAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Rental Refund</span>
+              <span className="text-green-600">
+                {formatCurrency(booking.rentalRefundAmount)}
+              </span>
+            </div>
+          )}
+          {booking.securityDepositAmountReturned > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Security Deposit Refund</span>
+              <span className="text-green-600">
+                {formatCurrency(booking.securityDepositAmountReturned)}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      {booking.status === "no_show" && (
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-2 text-sm">
+          {booking.noShowFeeApplied > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">No-Show Fee</span>
+              <span className="text-gray-900">
+                {formatCurrency(booking.noShowFeeApplied)}
+              </span>
+            </div>
+          )}
+          {booking.rentalRefundAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Rental Refund</span>
+              <span className="text-green-600">
+                {formatCurrency(booking.rentalRefundAmount)}
+              </span>
+            </div>
+          )}
+          {booking.securityDepositAmountReturned > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Security Deposit Refund</span>
+              <span className="text-green-600">
+                {formatCurrency(booking.securityDepositAmountReturned)}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Security deposit timeline: release date, itemized deductions and refunds */
+const DepositTimeline: React.FC<{
+  booking: Booking;
+  deposit: DepositStatus;
+  statement: DepositStatement | null;
+  releaseBusinessDays: number;
+}> = ({ booking, deposit, statement, releaseBusinessDays }) => {
+  if (deposit.stage === "none") return null;
+
+  const deductions = statement?.deductions || [];
+  const refunds = statement?.refunds || [];
+  const isReleased = deposit.stage === "released";
+  const isReturned = booking.status === "completed";
+  // Cancelled and no-show bookings settle the deposit when they close
+  const showReturnSteps =
+    booking.status !== "cancelled" && booking.status !== "no_show";
+
+  const releaseDateText = deposit.releaseDate
+    ? formatDate(fromBusinessDate(deposit.releaseDate))
+    : `${releaseBusinessDays} business days after return`;
+
+  const steps = [
+    {
+      label: "Deposit held",
+      detail: formatCurrency(deposit.deposit),
+      done: true,
+    },
+    ...(showReturnSteps
+      ? [
+          {
+            label: "Vehicle returned",
+            detail: isReturned
+              ? formatDate(booking.actualReturnDate || booking.returnDate)
+              : "Pending",
+            done: isReturned,
+          },
+          {
+            label: "Release date",
+            detail: releaseDateText,
+            done: isReleased || deposit.stage === "processing",
+          },
+        ]
+      : []),
+    {
+      label: isReleased ? "Refunded" : "To be refunded",
+      detail: formatCurrency(isReleased ? deposit.returned : deposit.refundable),
+      done: isReleased,
+    },
+  ];
+
+  const stageMessages: Partial<Record<DepositStage, string>> = {
+    held: `Refunded ${releaseBusinessDays} business days after you return the vehicle (store closures don't count).`,
+    awaiting_release: `Scheduled for release on ${releaseDateText}.`,
+    on_hold:
+      "The release is paused while we review your rental. We'll contact you if anything is deducted.",
+    processing: "Your release date has arrived and the refund is on its way.",
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="text-sm font-semibold text-gray-900 mb-3 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-gray-600" aria-hidden="true" />
+          Security Deposit
+        </span>
+        <span
+          className={`text-xs font-medium ${
+            isReleased
+              ? "text-green-700"
+              : deposit.stage === "on_hold"
+                ? "text-amber-700"
+                : "text-gray-600"
+          }`}
+        >
+          {DEPOSIT_STAGE_LABELS[deposit.stage]}
+        </span>
+      </h4>
+
+      <ol className="space-y-2 text-sm">
+        {steps.map((step) => (
+          <li key={step.label} className="flex items-center justify-between">
+            <span className="flex items-center gap-2 text-gray-600">
+              {step.done ? (
+                <CheckCircle
+                  className="w-4 h-4 text-green-600"
+                  aria-hidden="true"
+                />
+              ) : (
+                <Clock className="w-4 h-4 text-gray-400" aria-hidden="true" />
+              )}
+              {step.label}
+            </span>
+            <span className="text-gray-900">{step.detail}</span>
+          </li>
+        ))}
+      </ol>
+
+      {stageMessages[deposit.stage] && (
+        <p className="mt-3 text-xs text-gray-600">
+          {stageMessages[deposit.stage]}
+        </p>
+      )}
+
+      {deductions.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-3 text-sm">
+          <p className="font-medium text-gray-900">Deductions</p>
+          {deductions.map((deduction) => (
+            <div key={deduction.id}>
+              <div className="flex justify-between gap-3">
+                <span className="text-gray-600">{deduction.description}</span>
+                <span className="text-red-600 whitespace-nowrap">
+                  -{formatCurrency(deduction.amount)}
+                </span>
+              </div>
+              {deduction.photoUrls.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {deduction.photoUrls.map((url, index) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <img
+                        src={url}
+                        alt={`${deduction.description} photo ${index + 1}`}
+                        className="w-16 h-16 object-cover rounded-md border border-gray-200 hover:opacity-80"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          <div className="flex justify-between pt-2 border-t border-gray-200">
+            <span className="font-semibold text-gray-900">Total Deducted</span>
+            <span className="font-semibold text-red-600">
+              -{formatCurrency(deposit.deducted)}
             </span>
           </div>
         </div>
       )}
+
+      {refunds.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-2 text-sm">
+          <p className="font-medium text-gray-900">Refunds</p>
+          {refunds.map((refund) => (
+            <div key={refund.id} className="flex justify-between gap-3">
+              <span className="text-gray-600">
+                {formatDate(refund.createdAt)} ·{" "}
+                <span className="capitalize">
+                  {REFUND_STATUS_LABELS[refund.status] || refund.status}
+                </span>
+              </span>
+              <span
+                className={
+                  refund.status === "succeeded"
+                    ? "text-green-600"
+                    : "text-gray-900"
+                }
+              >
+                {formatCurrency(refund.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -510,6 +1073,18 @@ const StatusMessage: React.FC<{ status: Booking["status"] }> = ({ status }) => {
         </>
       ),
     },
+    no_show: {
+      bg: "bg-red-50",
+      border: "border-red-200",
+      text: "text-red-800",
+      content: (
+        <>
+          <strong>Missed Pickup:</strong> This booking wasn't picked up and has
+          been closed as a no-show. The no-show fee was kept and the rest of
+          your payment refunded.
+        </>
+      ),
+    },
   };
 
   const message = messages[status];
@@ -533,14 +1108,32 @@ interface BookingCardProps {
 const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
   const [showInsuranceModal, setShowInsuranceModal] = useState(false);
   const [showExtendModal, setShowExtendModal] = useState(false);
+  const [showReviewModal, setShowReviewModal] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showModifyModal, setShowModifyModal] = useState(false);
+  const [showEarlyReturnModal, setShowEarlyReturnModal] = useState(false);
+  const [showScheduleReturnModal, setShowScheduleReturnModal] =
+    useState(false);
 
   const vehicle = booking.vehicle;
   const durationText = getDurationText(booking.rentalDays, booking.rentalType);
 
+  const {
+    deposit,
+    statement: depositStatement,
+    releaseBusinessDays,
+  } = useDepositTimeline(booking);
+
   // Print receipt data
   const receiptData = useMemo(
-    () => mapBookingToReceiptData(booking),
-    [booking]
+    () =>
+      mapBookingToReceiptData(
+        booking,
+        deposit,
+        depositStatement,
+        releaseBusinessDays
+      ),
+    [booking, deposit, depositStatement, releaseBusinessDays]
   );
 
   const handleInsuranceUploadClick = useCallback(() => {
@@ -559,19 +1152,57 @@ const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
     setShowExtendModal(false);
   }, []);
 
+  const handleReviewClick = useCallback(() => {
+    setShowReviewModal(true);
+  }, []);
+
+  const handleReviewModalClose = useCallback(() => {
+    setShowReviewModal(false);
+  }, []);
+
+  const handleCancelClick = useCallback(() => {
+    setShowCancelModal(true);
+  }, []);
+
+  const handleCancelModalClose = useCallback(() => {
+    setShowCancelModal(false);
+  }, []);
+
+  const handleModifyClick = useCallback(() => {
+    setShowModifyModal(true);
+  }, []);
+
+  const handleModifyModalClose = useCallback(() => {
+    setShowModifyModal(false);
+  }, []);
+
+  const handleEarlyReturnClick = useCallback(() => {
+    setShowEarlyReturnModal(true);
+  }, []);
+
+  const handleEarlyReturnModalClose = useCallback(() => {
+    setShowEarlyReturnModal(false);
+  }, []);
+
+  const handleScheduleReturnClick = useCallback(() => {
+    setShowScheduleReturnModal(true);
+  }, []);
+
+  const handleScheduleReturnModalClose = useCallback(() => {
+    setShowScheduleReturnModal(false);
+  }, []);
+
   const handleInsuranceSuccess = useCallback(() => {
     setShowInsuranceModal(false);
     onRefresh?.();
   }, [onRefresh]);
 
-  // Check if extension is allowed
-  const canExtend = useMemo(() => {
-    return (
-      (booking.status === "confirmed" || booking.status === "active") &&
-      booking.rentalType === "monthly" &&
-      (booking.extensionCount || 0) < 5
-    );
-  }, [booking]);
+  // Check if extension is allowed (shared rules, config-driven)
+  const { rules: extensionRules } = useExtensionConfig();
+  const canExtend = useMemo(
+    () => isExtendable(booking, extensionRules),
+    [booking, extensionRules]
+  );
 
   return (
     <>
@@ -692,28 +1323,48 @@ const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
               />
 
               {/* Student Notice */}
-              {booking.isStudentBooking && (
-                <div className="flex items-center gap-2 text-sm text-purple-700 bg-purple-50 px-3 py-2 rounded-lg">
-                  <GraduationCap className="w-4 h-4" aria-hidden="true" />
-                  <span>
-                    {booking.studentVerified
-                      ? "Student discount verified"
-                      : "Student ID verification required at pickup"}
-                  </span>
-                </div>
-              )}
+              <StudentStatus booking={booking} />
+
+              {/* Identity Verification (paid bookings before pickup) */}
+              {(booking.status === "pending" ||
+                booking.status === "confirmed") &&
+                booking.paymentStatus === "paid" && (
+                  <IdentityVerificationCard bookingId={booking.id} />
+                )}
+
+              {/* Overdue Banner (active rentals past their return date) */}
+              <OverdueBanner
+                booking={booking}
+                canExtend={canExtend}
+                onExtendClick={handleExtendClick}
+                onScheduleReturnClick={handleScheduleReturnClick}
+              />
 
               {/* Insurance Status */}
               <InsuranceStatus
-                uploaded={booking.insuranceUploaded}
-                verified={booking.insuranceVerified}
-                status={booking.status}
+                booking={booking}
                 onUploadClick={handleInsuranceUploadClick}
               />
 
+              {/* Monthly Rental Notice (active non-semester rentals) */}
+              {booking.status === "active" &&
+                booking.rentalType !== "semester" && (
+                  <MonthlyNoticeBanner bookingId={booking.id} />
+                )}
+
               {/* Payment Summary */}
               <PaymentSummary booking={booking} />
 
+              {/* Security Deposit (paid bookings through release) */}
+              {booking.status !== "pending" && (
+                <DepositTimeline
+                  booking={booking}
+                  deposit={deposit}
+                  statement={depositStatement}
+                  releaseBusinessDays={releaseBusinessDays}
+                />
+              )}
+
               {/* Status Message */}
               <StatusMessage status={booking.status} />
 
@@ -732,8 +1383,7 @@ const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
 
                 {/* Upload Insurance Button (if not uploaded) */}
                 {!booking.insuranceUploaded &&
-                  booking.status !== "completed" &&
-                  booking.status !== "cancelled" && (
+                  !isCompletedBooking(booking) && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -755,6 +1405,54 @@ const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
                     Extend Rental
                   </Button>
                 )}
+
+                {/* Return Early Button (active rentals only) */}
+                {canReturnEarly(booking) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleEarlyReturnClick}
+                  >
+                    <Undo2 className="w-4 h-4 mr-1" />
+                    Return Early
+                  </Button>
+                )}
+
+                {/* Review Button (completed rentals only) */}
+                {booking.status === "completed" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleReviewClick}
+                  >
+                    <Star className="w-4 h-4 mr-1" />
+                    Review Vehicle
+                  </Button>
+                )}
+
+                {/* Modify Button (paid pending/confirmed only) */}
+                {isModifiableBooking(booking) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleModifyClick}
+                  >
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Modify Booking
+                  </Button>
+                )}
+
+                {/* Cancel Button (pending/confirmed only) */}
+                {isCancellableBooking(booking) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCancelClick}
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Cancel Booking
+                  </Button>
+                )}
               </div>
             </div>
           </article>
@@ -777,6 +1475,55 @@ const BookingCard: React.FC<BookingCardProps> = ({ booking, onRefresh }) => {
         onClose={handleExtendModalClose}
         booking={booking}
       />
+
+      {/* Early Return Modal */}
+      {canReturnEarly(booking) && showEarlyReturnModal && (
+        <EarlyReturnModal
+          isOpen={showEarlyReturnModal}
+          onClose={handleEarlyReturnModalClose}
+          booking={booking}
+          onSuccess={onRefresh}
+        />
+      )}
+
+      {/* Schedule Return Modal (overdue rentals) */}
+      {showScheduleReturnModal && (
+        <ScheduleReturnModal
+          isOpen={showScheduleReturnModal}
+          onClose={handleScheduleReturnModalClose}
+          booking={booking}
+          onSuccess={onRefresh}
+        />
+      )}
+
+      {/* Review Modal */}
+      {booking.status === "completed" && (
+        <ReviewModal
+          isOpen={showReviewModal}
+          onClose={handleReviewModalClose}
+          booking={booking}
+        />
+      )}
+
+      {/* Cancel Booking Modal */}
+      {isCancellableBooking(booking) && (
+        <CancelBookingModal
+          isOpen={showCancelModal}
+          onClose={handleCancelModalClose}
+          booking={booking}
+          onSuccess={onRefresh}
+        />
+      )}
+
+      {/* Modify Booking Modal */}
+      {isModifiableBooking(booking) && showModifyModal && (
+        <ModifyBookingModal
+          isOpen={showModifyModal}
+          onClose={handleModifyModalClose}
+          booking={booking}
+          onSuccess={onRefresh}
+        />
+      )}
     </>
   );
 };
@@ -816,9 +1563,13 @@ export const MyBookings: React.FC = () => {
 
   const { bookings, loading: bookingsLoading, error, refetch } = useBookings();
 
-  // Handle extension success/cancel from URL params
+  // Handle extension/modification/early return success/cancel from URL params
   useEffect(() => {
     const extensionStatus = searchParams.get("extension");
+    const modificationStatus = searchParams.get("modification");
+    const earlyReturnStatus = searchParams.get("early_return");
+    const chargeStatus = searchParams.get("charge");
+    const verificationStatus = searchParams.get("verification");
     const bookingId = searchParams.get("booking_id");
 
     if (extensionStatus === "success" && bookingId) {
@@ -834,6 +1585,33 @@ export const MyBookings: React.FC = () => {
       console.log("[MyBookings] Extension cancelled");
       // Clear the URL params
       setSearchParams({});
+    } else if (modificationStatus === "success" && bookingId) {
+      // The webhook applies the change once payment completes
+      setSuccessMessage(
+        "Payment received! Your booking changes will appear shortly."
+      );
+      setSearchParams({});
+      refetch();
+    } else if (modificationStatus === "cancelled") {
+      setSearchParams({});
+    } else if (earlyReturnStatus === "success" && bookingId) {
+      setSuccessMessage("Payment received! Your early return is now complete.");
+      setSearchParams({});
+      refetch();
+    } else if (earlyReturnStatus === "cancelled") {
+      setSearchParams({});
+    } else if (chargeStatus === "success" && bookingId) {
+      setSuccessMessage("Payment received! Thank you.");
+      setSearchParams({});
+      refetch();
+    } else if (chargeStatus === "cancelled") {
+      setSearchParams({});
+    } else if (verificationStatus === "submitted" && bookingId) {
+      // Stripe Identity: the webhook records the result shortly after
+      setSuccessMessage(
+        "Thanks! We're checking your ID and will update the booking shortly."
+      );
+      setSearchParams({});
     }
   }, [searchParams, setSearchParams, refetch]);
 
@@ -954,6 +1732,11 @@ export const MyBookings: React.FC = () => {
               </div>
             )}
 
+            {/* Loyalty tier progress */}
+            <div className="mb-8">
+              <LoyaltyProgressCard />
+            </div>
+
             {/* Filter Tabs */}
             <nav className="mb-8 overflow-x-auto" aria-label="Filter bookings">
               <div
@@ -0,0 +1,121 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+// RentalNotice.tsx
+import React, { useCallback } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Helmet } from "react-helmet-async";
+import { AlertCircle, ArrowLeft, CalendarClock } from "lucide-react";
+import { Navbar, Footer } from "@/components/layout";
+import { MonthlyNoticePanel } from "@/components/bookings/shared";
+import type { MonthlyNoticeResponse } from "@/types";
+
+const RESPONSES: MonthlyNoticeResponse[] = ["continue", "return"];
+
+/**
+ * Landing page for the monthly rental notice email links
+ * (/rental-notice?token=...&response=continue|return). Works without
+ * logging in; the answer is only sent when the customer confirms here.
+ */
+export const RentalNotice: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get("token");
+  const responseParam = searchParams.get("response");
+  const preferredResponse = RESPONSES.includes(
+    responseParam as MonthlyNoticeResponse
+  )
+    ? (responseParam as MonthlyNoticeResponse)
+    : null;
+
+  // Stable handler references
+  const handleAuthModalOpen = useCallback((_mode: "login" | "register") => {
+    // Auth modal not needed on the notice page
+  }, []);
+
+  const handleGoToBookings = useCallback(() => {
+    navigate("/my-bookings");
+  }, [navigate]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Helmet>
+        <title>Your Rental Notice</title>
+        <meta
+          name="description"
+          content="Let us know whether you're continuing your monthly rental."
+        />
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <Navbar onAuthModalOpen={handleAuthModalOpen} />
+
+      <main id="main-content" className="max-w-2xl mx-auto px-4 py-16">
+        <div className="bg-white rounded-2xl shadow-sm p-8">
+          {/* Icon */}
+          <div
+            className="w-20 h-20 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-6"
+            aria-hidden="true"
+          >
+            <CalendarClock className="w-12 h-12 text-amber-600" />
+          </div>
+
+          {/* Content */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-3">
+              Your Monthly Rental
+            </h1>
+            <p className="text-gray-600">
+              Your current rental period is ending. Tell us whether you're
+              continuing for another period or returning the vehicle.
+            </p>
+          </div>
+
+          {/* Notice */}
+          {token ? (
+            <MonthlyNoticePanel
+              token={token}
+              source="email"
+              preferredResponse={preferredResponse}
+            />
+          ) : (
+            <div
+              className="flex items-center gap-2 text-sm text-red-700 bg-red-50 px-3 py-2 rounded-lg"
+              role="alert"
+            >
+              <AlertCircle className="w-4 h-4" aria-hidden="true" />
+              <span>
+                This link is incomplete. Please use the link from your latest
+                email.
+              </span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="mt-8">
+            <button
+              onClick={handleGoToBookings}
+              className="w-full bg-white border border-gray-300 text-gray-700 py-3 px-6 rounded-xl hover:bg-gray-50 transition-colors font-medium flex items-center justify-center gap-2"
+            >
+              <ArrowLeft className="w-5 h-5" aria-hidden="true" />
+              Go to My Bookings
+            </button>
+          </div>
+
+          {/* Help Text */}
+          <div className="mt-8 pt-6 border-t border-gray-100 text-center">
+            <p className="text-sm text-gray-600">
+              Need help? Contact us at{" "}
+              <a
+                href="mailto:support@4arentals.com"
+                className="text-gray-900 font-medium hover:underline"
+              >
+                support@4arentals.com
+              </a>
+            </p>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
@@ -225,13 +225,15 @@ export async function loginWithOAuth(
 }
 
 /**
- * Email/Password Registration
+ * Email/Password Registration. A referral code from a landing link is
+ * stored with the sign-up; the database links the referrer from it.
  */
 export async function registerWithEmail(
   email: string,
   password: string,
   firstName: string,
-  lastName: string
+  lastName: string,
+  referralCode?: string | null
 ): Promise<AuthResult> {
   try {
     // Validate input
@@ -251,6 +253,7 @@ export async function registerWithEmail(
         data: {
           first_name: validated.firstName,
           last_name: validated.lastName,
+          ...(referralCode ? { referral_code: referralCode } : {}),
         },
       },
     });
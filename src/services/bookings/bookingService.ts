@@ -3,10 +3,30 @@
 import { supabase } from "@/config/supabase";
 import type {
   Booking,
+  BookingChargeSummary,
+  BookingChargeType,
   BookingStatus,
+  OutstandingBookingCharge,
+  CancellationPreview,
+  DepositDeduction,
+  DepositDeductionCategory,
+  DepositRefund,
+  DepositStatement,
+  CancellationResult,
+  EarlyReturnQuote,
+  EarlyReturnRequest,
+  EarlyReturnResult,
+  EarlyReturnStatus,
+  ModificationPreview,
+  ModificationResult,
+  ModifyBookingInput,
+  MonthlyNotice,
+  MonthlyNoticeResponse,
+  MonthlyNoticeResult,
   PaymentStatus,
   PickupPhotos,
 } from "@/types";
+import { DEFAULT_LICENSE_COUNTRY } from "@/services/drivers/driverEligibility";
 import { z } from "zod";
 import * as Sentry from "@sentry/react";
 
@@ -15,6 +35,23 @@ import * as Sentry from "@sentry/react";
 // ============================================
 const uuidSchema = z.string().uuid("Invalid ID format");
 
+const cancelReasonSchema = z.string().max(500).trim().optional();
+
+const earlyReturnSchema = z.object({
+  returnDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid return date"),
+  returnTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid return time")
+    .optional(),
+});
+
+const scheduleReturnSchema = z.object({
+  returnDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid return date"),
+  returnTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Invalid return time"),
+});
+
 const customerInfoSchema = z.object({
   firstName: z.string().min(1).max(50).trim(),
   lastName: z.string().min(1).max(50).trim(),
@@ -185,6 +222,8 @@ function mapBookingFromDB(row: any): Booking {
         email: row.primary_drivers.email,
         phone: row.primary_drivers.phone,
         driversLicense: row.primary_drivers.drivers_license,
+        licenseCountry:
+          row.primary_drivers.license_country || DEFAULT_LICENSE_COUNTRY,
         dateOfBirth: row.primary_drivers.date_of_birth,
         streetAddress: row.primary_drivers.street_address || "",
         city: row.primary_drivers.city || "",
@@ -209,9 +248,10 @@ function mapBookingFromDB(row: any): Booking {
       firstName: driver.first_name,
       lastName: driver.last_name,
       email: driver.email,
-      phone: driver.phone,
-      driversLicense: driver.drivers_license,
-      dateOfBirth: driver.date_of_birth,
+      phone: driver.phone || "",
+      driversLicense: driver.drivers_license || "",
+      licenseCountry: driver.license_country || DEFAULT_LICENSE_COUNTRY,
+      dateOfBirth: driver.date_of_birth || "",
       streetAddress: driver.street_address || "",
       city: driver.city || "",
       state: driver.state || "",
@@ -220,6 +260,7 @@ function mapBookingFromDB(row: any): Booking {
       verifiedBy: driver.verified_by,
       verifiedAt: driver.verified_at,
       notes: driver.notes || "",
+      inviteStatus: driver.invite_status || null,
       createdAt: new Date(driver.created_at),
       updatedAt: new Date(driver.updated_at),
     })) || [];
@@ -274,6 +315,11 @@ function mapBookingFromDB(row: any): Booking {
     // Pricing
     rentalAmount: parseNumber(row.rental_amount),
     additionalDriverFee: parseNumber(row.additional_driver_fee),
+    youngDriverFee: parseNumber(row.young_driver_fee),
+    promoCode: row.promo_code || null,
+    discountAmount: parseNumber(row.discount_amount),
+    accountCreditApplied: parseNumber(row.account_credit_applied),
+    loyaltySavings: parseNumber(row.loyalty_savings),
     securityDeposit: parseNumber(row.security_deposit),
     totalPrice: parseNumber(row.total_price),
 
@@ -291,6 +337,10 @@ function mapBookingFromDB(row: any): Booking {
     studentVerified: row.student_verified || false,
     studentVerifiedBy: row.student_verified_by || null,
     studentVerifiedAt: row.student_verified_at || null,
+    studentVerificationId: row.student_verification_id || null,
+    studentRejectedAt: row.student_rejected_at || null,
+    studentRejectionReason: row.student_rejection_reason || null,
+    academicTermId: row.academic_term_id || null,
 
     // Insurance
     insuranceUploaded: row.insurance_uploaded || false,
@@ -306,6 +356,7 @@ function mapBookingFromDB(row: any): Booking {
     parentBookingId: row.parent_booking_id || null,
     extensionNumber: row.extension_number || 0,
     extensionCount: row.extension_count || 0,
+    revisionCount: row.revision_count || 0,
 
     // Actual dates and mileage
     actualPickupDate: row.actual_pickup_date || null,
@@ -313,6 +364,12 @@ function mapBookingFromDB(row: any): Booking {
     pickupMileage: row.pickup_mileage || null,
     returnMileage: row.return_mileage || null,
 
+    // Overdue
+    isOverdue: row.is_overdue || false,
+    overdueSince: row.overdue_since || null,
+    overdueEscalatedAt: row.overdue_escalated_at || null,
+    scheduledReturnAt: row.scheduled_return_at || null,
+
     // Photos and notes
     pickupPhotos: parsePickupPhotos(row.pickup_photos),
     adminNotes: row.admin_notes || "",
@@ -325,12 +382,18 @@ function mapBookingFromDB(row: any): Booking {
     securityDepositReturned: row.security_deposit_returned || false,
     securityDepositReturnDate: row.security_deposit_return_date || null,
     deductionReason: row.deduction_reason || "",
+    depositHold: row.deposit_hold || false,
 
     // Cancellation
     cancelledAt: row.cancelled_at || null,
     cancelledBy: row.cancelled_by || null,
     cancellationReason: row.cancellation_reason || null,
     cancellationFeeApplied: parseNumber(row.cancellation_fee_applied),
+    rentalRefundAmount: parseNumber(row.rental_refund_amount),
+
+    // No-show
+    noShowAt: row.no_show_at || null,
+    noShowFeeApplied: parseNumber(row.no_show_fee_applied),
 
     // Payment
     stripePaymentIntentId: row.stripe_payment_intent_id || null,
@@ -386,6 +449,64 @@ function createUserError(context: string): Error {
     bookingNotFound: "Booking not found.",
     alreadyCancelled: "This booking has already been cancelled.",
     cannotCancel: "This booking cannot be cancelled.",
+    pastCancellationCutoff:
+      "This booking is too close to pickup and cannot be cancelled online. Please contact us to cancel.",
+    refundUnavailable:
+      "Unable to process your refund automatically. Please contact us to cancel.",
+    paymentProcessing:
+      "Your payment is still being processed. Please try again in a few minutes.",
+    previewCancellation: "Unable to calculate your refund. Please try again.",
+    modifyBooking: "Unable to update booking. Please try again.",
+    previewModification: "Unable to price your changes. Please try again.",
+    cannotModify: "This booking cannot be modified online.",
+    modificationNotPaid:
+      "This booking cannot be modified until payment is complete.",
+    pastModificationCutoff:
+      "This booking is too close to pickup and cannot be modified online. Please contact us to make changes.",
+    newPickupTooSoon:
+      "The new pickup time is too soon and cannot be booked online. Please choose a later pickup.",
+    semesterDatesFixed: "Semester rental dates cannot be changed.",
+    datesUnavailable: "The vehicle is not available for the selected dates.",
+    deliverySlotUnavailable:
+      "That delivery time is not available. Please choose another time.",
+    driversIneligible:
+      "A driver doesn't meet our age or license requirements on the new pickup date.",
+    modificationRefundUnavailable:
+      "Unable to process your refund automatically. Please contact us to change this booking.",
+    previewEarlyReturn:
+      "Unable to calculate your early return. Please try again.",
+    requestEarlyReturn: "Unable to request an early return. Please try again.",
+    cancelEarlyReturn:
+      "Unable to cancel your early return request. Please try again.",
+    getEarlyReturnRequest: "Unable to load your early return request.",
+    cannotReturnEarly: "This rental cannot be returned early online.",
+    earlyReturnNotPaid:
+      "This booking cannot be returned early online while a payment is outstanding. Please contact us.",
+    invalidEarlyReturnDate:
+      "That return date cannot be used. Please choose a date before your current return date.",
+    returnTimeUnavailable:
+      "That return time is not available. Please choose another time.",
+    earlyReturnExists:
+      "An early return has already been requested for this booking.",
+    noEarlyReturnRequest: "Unable to find an early return request to cancel.",
+    getMonthlyNotice: "Unable to load your rental notice. Please try again.",
+    respondToMonthlyNotice: "Unable to save your answer. Please try again.",
+    monthlyNoticeNotFound:
+      "Rental notice not found. Please use the link from your latest email.",
+    monthlyNoticeAnswered: "This notice has already been answered.",
+    monthlyNoticeDeadlinePassed:
+      "The reply deadline has passed, so this notice cannot be answered online. Please contact us.",
+    renewalNotAvailable:
+      "A renewal is not available for this rental online. Please contact us.",
+    scheduleReturn: "Unable to schedule your return. Please try again.",
+    notOverdue:
+      "This rental is not overdue, so a return cannot be scheduled here.",
+    invalidScheduledReturn:
+      "That return time cannot be used. Please choose a time within the next few days.",
+    getChargeSummary: "Unable to load charges for this booking.",
+    getOutstandingCharges: "Unable to load charges for this booking.",
+    getDepositStatement: "Unable to load your deposit statement.",
+    rateLimited: "Too many requests. Please try again later.",
     timeout: "Request timed out. Please try again.",
   };
   return new Error(messages[context] || "An unexpected error occurred.");
@@ -403,6 +524,8 @@ function isUserError(error: unknown): boolean {
       error.message.includes("not found") ||
       error.message.includes("cannot be") ||
       error.message.includes("already been") ||
+      error.message.includes("Too many") ||
+      error.message.includes("not available") ||
       error.message.includes("timed out"))
   );
 }
@@ -440,6 +563,145 @@ async function getSessionUser(): Promise<{ id: string; email: string } | null> {
   }
 }
 
+/**
+ * Call a booking Edge Function (cancel-booking, modify-booking) with the
+ * user's access token. Server error codes are mapped to user-friendly errors.
+ * `allowAnonymous` falls back to the anon key for token-authorized functions.
+ */
+async function invokeBookingFunction<T>(
+  functionName: string,
+  body: Record<string, unknown>,
+  errorByCode: Record<string, string>,
+  fallbackContext: string,
+  allowAnonymous = false
+): Promise<T> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim() || "";
+  const accessToken = session?.access_token || (allowAnonymous && anonKey);
+
+  if (!accessToken) {
+    throw createUserError("notAuthenticated");
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+        ...(allowAnonymous ? { apikey: anonKey } : {}),
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    logError(functionName, { status: response.status, data });
+
+    if (data?.code && errorByCode[data.code]) {
+      throw createUserError(errorByCode[data.code]);
+    }
+    if (response.status === 401) throw createUserError("notAuthenticated");
+    if (response.status === 404) throw createUserError("bookingNotFound");
+    if (response.status === 429) throw createUserError("rateLimited");
+
+    throw createUserError(fallbackContext);
+  }
+
+  return data as T;
+}
+
+const CANCEL_ERROR_CODES: Record<string, string> = {
+  ALREADY_CANCELLED: "alreadyCancelled",
+  INVALID_STATUS: "cannotCancel",
+  PAST_CUTOFF: "pastCancellationCutoff",
+  REFUND_UNAVAILABLE: "refundUnavailable",
+  PAYMENT_PROCESSING: "paymentProcessing",
+};
+
+const MODIFY_ERROR_CODES: Record<string, string> = {
+  INVALID_STATUS: "cannotModify",
+  NOT_PAID: "modificationNotPaid",
+  PAST_CUTOFF: "pastModificationCutoff",
+  NEW_PICKUP_TOO_SOON: "newPickupTooSoon",
+  SEMESTER_FIXED_DATES: "semesterDatesFixed",
+  DATES_UNAVAILABLE: "datesUnavailable",
+  SLOT_UNAVAILABLE: "deliverySlotUnavailable",
+  DRIVER_INELIGIBLE: "driversIneligible",
+  REFUND_UNAVAILABLE: "modificationRefundUnavailable",
+};
+
+const EARLY_RETURN_ERROR_CODES: Record<string, string> = {
+  INVALID_STATUS: "cannotReturnEarly",
+  SEMESTER_FIXED_DATES: "semesterDatesFixed",
+  NOT_PAID: "earlyReturnNotPaid",
+  INVALID_RETURN_DATE: "invalidEarlyReturnDate",
+  SLOT_UNAVAILABLE: "returnTimeUnavailable",
+  REQUEST_EXISTS: "earlyReturnExists",
+  NO_OPEN_REQUEST: "noEarlyReturnRequest",
+};
+
+const MONTHLY_NOTICE_ERROR_CODES: Record<string, string> = {
+  NOTICE_NOT_FOUND: "monthlyNoticeNotFound",
+  ALREADY_RESOLVED: "monthlyNoticeAnswered",
+  DEADLINE_PASSED: "monthlyNoticeDeadlinePassed",
+  NOT_EXTENDABLE: "renewalNotAvailable",
+  DATES_UNAVAILABLE: "datesUnavailable",
+};
+
+const SCHEDULE_RETURN_ERROR_CODES: Record<string, string> = {
+  NOT_OVERDUE: "notOverdue",
+  INVALID_RETURN_DATE: "invalidScheduledReturn",
+  SLOT_UNAVAILABLE: "returnTimeUnavailable",
+};
+
+function mapEarlyReturnRequest(row: any): EarlyReturnRequest {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    status: row.status as EarlyReturnStatus,
+    requestedReturnDate: row.requested_return_date,
+    returnTime: row.return_time,
+    refundAmount: parseNumber(row.refund_amount),
+    additionalCharge: parseNumber(row.additional_charge),
+    earlyReturnFee: parseNumber(row.early_return_fee),
+    checkoutUrl: row.stripe_checkout_url,
+    createdAt: row.created_at,
+    confirmedAt: row.confirmed_at,
+    completedAt: row.completed_at,
+  };
+}
+
+const DEDUCTION_PHOTOS_BUCKET = "deposit-deductions";
+const DEDUCTION_PHOTO_URL_TTL = 60 * 60; // 1 hour
+
+/**
+ * Signed URLs for deduction photos (private bucket); photos that fail to sign
+ * are left out rather than failing the statement
+ */
+async function getDeductionPhotoUrls(paths: string[]): Promise<string[]> {
+  if (paths.length === 0) return [];
+
+  const { data, error } = await supabase.storage
+    .from(DEDUCTION_PHOTOS_BUCKET)
+    .createSignedUrls(paths, DEDUCTION_PHOTO_URL_TTL);
+
+  if (error) {
+    logError("getDeductionPhotoUrls", error);
+    return [];
+  }
+
+  return (data || [])
+    .map((item) => item.signedUrl)
+    .filter((url): url is string => !!url);
+}
+
 // ============================================
 // BOOKING SERVICE (CUSTOMER PORTAL)
 // ============================================
@@ -458,15 +720,32 @@ export const bookingService = {
       | "actualPickupDate"
       | "actualReturnDate"
       | "extensionCount"
+      | "revisionCount"
       | "pickupMileage"
       | "returnMileage"
       | "pickupPhotos"
+      | "isOverdue"
+      | "overdueSince"
+      | "overdueEscalatedAt"
+      | "scheduledReturnAt"
+      | "noShowAt"
+      | "noShowFeeApplied"
       | "adminNotes"
       | "securityDepositDeduction"
       | "securityDepositAmountReturned"
       | "securityDepositReturned"
       | "securityDepositReturnDate"
       | "deductionReason"
+      | "depositHold"
+      | "studentVerificationId"
+      | "studentRejectedAt"
+      | "studentRejectionReason"
+      | "academicTermId"
+      | "youngDriverFee"
+      | "promoCode"
+      | "discountAmount"
+      | "accountCreditApplied"
+      | "loyaltySavings"
       | "primaryDriver"
       | "additionalDrivers"
     >
@@ -698,84 +977,529 @@ export const bookingService = {
     }
   },
 
+  /**
+   * Preview the refund for cancelling a booking.
+   * Calculated by the cancel-booking Edge Function, so the amounts shown are
+   * exactly what a confirmed cancellation will refund.
+   */
+  async previewCancellation(id: string): Promise<CancellationPreview> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      return await invokeBookingFunction<CancellationPreview>(
+        "cancel-booking",
+        { bookingId: validatedId, preview: true },
+        CANCEL_ERROR_CODES,
+        "previewCancellation"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("bookingNotFound");
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("previewCancellation", error);
+      throw createUserError("previewCancellation");
+    }
+  },
+
   /**
    * Cancel a booking
-   * Requires authentication and ownership verification
-   * Only pending or confirmed bookings can be cancelled
+   * Requires authentication and ownership verification (enforced server-side).
+   * Only pending or confirmed bookings outside the modification cutoff can be
+   * cancelled; paid bookings are refunded minus the cancellation fee.
    */
-  async cancelBooking(id: string): Promise<void> {
+  async cancelBooking(id: string, reason?: string): Promise<CancellationResult> {
     try {
       const validatedId = uuidSchema.parse(id);
+      const validatedReason = cancelReasonSchema.parse(reason);
 
-      const sessionUser = await getSessionUser();
-      if (!sessionUser) {
-        throw createUserError("notAuthenticated");
+      logInfo(`Cancelling booking: ${validatedId}`);
+
+      const result = await invokeBookingFunction<CancellationResult>(
+        "cancel-booking",
+        { bookingId: validatedId, reason: validatedReason },
+        CANCEL_ERROR_CODES,
+        "cancelBooking"
+      );
+
+      logInfo(`Booking cancelled: ${validatedId}`);
+      return result;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("bookingNotFound");
+      }
+      if (isUserError(error)) {
+        throw error;
       }
+      logError("cancelBooking", error);
+      throw createUserError("cancelBooking");
+    }
+  },
 
-      logInfo(`Cancelling booking: ${validatedId}`);
+  /**
+   * Preview the price difference for changing a booking.
+   * Re-priced server-side through calculate_booking_total.
+   */
+  async previewModification(
+    id: string,
+    changes: ModifyBookingInput
+  ): Promise<ModificationPreview> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      return await invokeBookingFunction<ModificationPreview>(
+        "modify-booking",
+        { bookingId: validatedId, preview: true, ...changes },
+        MODIFY_ERROR_CODES,
+        "previewModification"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("bookingNotFound");
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("previewModification", error);
+      throw createUserError("previewModification");
+    }
+  },
 
-      // Get booking and verify ownership (RLS will enforce this)
-      const { data: booking, error: fetchError } = await supabase
-        .from("bookings")
-        .select("user_id, status")
-        .eq("id", validatedId)
-        .single();
+  /**
+   * Modify a booking's dates, pickup type or drivers.
+   * When the new price is higher the result carries a Stripe checkout `url`
+   * for the difference and the change applies once paid; otherwise it is
+   * applied immediately and any difference refunded.
+   */
+  async modifyBooking(
+    id: string,
+    changes: ModifyBookingInput
+  ): Promise<ModificationResult> {
+    try {
+      const validatedId = uuidSchema.parse(id);
 
-      if (fetchError) {
-        if (fetchError.code === "PGRST116") {
-          throw createUserError("bookingNotFound");
-        }
-        logError("cancelBooking - fetch", fetchError);
-        throw createUserError("cancelBooking");
+      logInfo(`Modifying booking: ${validatedId}`);
+
+      const result = await invokeBookingFunction<ModificationResult>(
+        "modify-booking",
+        { bookingId: validatedId, ...changes },
+        MODIFY_ERROR_CODES,
+        "modifyBooking"
+      );
+
+      logInfo(
+        `Booking modification ${result.applied ? "applied" : "awaiting payment"}: ${validatedId}`
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("bookingNotFound");
+      }
+      if (isUserError(error)) {
+        throw error;
       }
+      logError("modifyBooking", error);
+      throw createUserError("modifyBooking");
+    }
+  },
 
-      if (!booking) {
+  /**
+   * Quote returning an active rental early: the shorter term re-priced with
+   * the booking's rates, minus the early return fee.
+   */
+  async previewEarlyReturn(
+    id: string,
+    returnDate: string
+  ): Promise<EarlyReturnQuote> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      const validated = earlyReturnSchema.parse({ returnDate });
+      return await invokeBookingFunction<EarlyReturnQuote>(
+        "early-return",
+        { action: "preview", bookingId: validatedId, ...validated },
+        EARLY_RETURN_ERROR_CODES,
+        "previewEarlyReturn"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("invalidEarlyReturnDate");
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("previewEarlyReturn", error);
+      throw createUserError("previewEarlyReturn");
+    }
+  },
+
+  /**
+   * Request an early return for a date and time (delivery slot or store
+   * drop-off). Staff confirm it when the vehicle is back, then the refund is
+   * issued or a payment link is sent for any extra charge.
+   */
+  async requestEarlyReturn(
+    id: string,
+    returnDate: string,
+    returnTime: string
+  ): Promise<EarlyReturnResult> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      const validated = earlyReturnSchema.parse({ returnDate, returnTime });
+
+      logInfo(`Requesting early return: ${validatedId}`);
+
+      const result = await invokeBookingFunction<EarlyReturnResult>(
+        "early-return",
+        { action: "request", bookingId: validatedId, ...validated },
+        EARLY_RETURN_ERROR_CODES,
+        "requestEarlyReturn"
+      );
+
+      logInfo(`Early return requested: ${result.requestId}`);
+      return result;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("invalidEarlyReturnDate");
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("requestEarlyReturn", error);
+      throw createUserError("requestEarlyReturn");
+    }
+  },
+
+  /**
+   * Withdraw an early return request staff have not confirmed yet
+   */
+  async cancelEarlyReturn(id: string): Promise<void> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      await invokeBookingFunction<{ cancelled: boolean }>(
+        "early-return",
+        { action: "cancel", bookingId: validatedId },
+        EARLY_RETURN_ERROR_CODES,
+        "cancelEarlyReturn"
+      );
+      logInfo(`Early return request cancelled: ${validatedId}`);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
         throw createUserError("bookingNotFound");
       }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("cancelEarlyReturn", error);
+      throw createUserError("cancelEarlyReturn");
+    }
+  },
 
-      // Verify ownership
-      if (booking.user_id !== sessionUser.id) {
-        logError("cancelBooking - unauthorized", {
-          bookingUserId: booking.user_id,
-          currentUserId: sessionUser.id,
-        });
-        throw createUserError("unauthorized");
+  /**
+   * Latest early return request for a booking (RLS: own bookings only)
+   */
+  async getEarlyReturnRequest(id: string): Promise<EarlyReturnRequest | null> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+
+      const { data, error } = await supabase
+        .from("early_return_requests")
+        .select("*")
+        .eq("booking_id", validatedId)
+        .neq("status", "cancelled")
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        logError("getEarlyReturnRequest", error);
+        throw createUserError("getEarlyReturnRequest");
+      }
+
+      return data ? mapEarlyReturnRequest(data) : null;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return null;
+      }
+      if (isUserError(error)) {
+        throw error;
       }
+      logError("getEarlyReturnRequest", error);
+      throw createUserError("getEarlyReturnRequest");
+    }
+  },
 
-      // Check if booking can be cancelled
-      if (booking.status === "cancelled") {
-        throw createUserError("alreadyCancelled");
+  /**
+   * Monthly rental notice by its response token (from the email link or
+   * getMonthlyNoticeToken). Works without logging in.
+   */
+  async getMonthlyNotice(token: string): Promise<MonthlyNotice> {
+    try {
+      const validatedToken = uuidSchema.parse(token);
+      return await invokeBookingFunction<MonthlyNotice>(
+        "monthly-notice-response",
+        { action: "view", token: validatedToken },
+        MONTHLY_NOTICE_ERROR_CODES,
+        "getMonthlyNotice",
+        true
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("monthlyNoticeNotFound");
       }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("getMonthlyNotice", error);
+      throw createUserError("getMonthlyNotice");
+    }
+  },
+
+  /**
+   * Answer a monthly rental notice. Continuing returns a renewal checkout
+   * URL; returning ends the rental on the current return date.
+   */
+  async respondToMonthlyNotice(
+    token: string,
+    response: MonthlyNoticeResponse,
+    source: "email" | "portal"
+  ): Promise<MonthlyNoticeResult> {
+    try {
+      const validatedToken = uuidSchema.parse(token);
+
+      logInfo(`Answering monthly notice: ${response}`);
 
-      if (!["pending", "confirmed"].includes(booking.status)) {
-        throw createUserError("cannotCancel");
+      return await invokeBookingFunction<MonthlyNoticeResult>(
+        "monthly-notice-response",
+        { action: response, token: validatedToken, source },
+        MONTHLY_NOTICE_ERROR_CODES,
+        "respondToMonthlyNotice",
+        true
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("monthlyNoticeNotFound");
       }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("respondToMonthlyNotice", error);
+      throw createUserError("respondToMonthlyNotice");
+    }
+  },
 
-      // Update booking status
-      const { error: updateError } = await supabase
-        .from("bookings")
-        .update({ status: "cancelled" })
-        .eq("id", validatedId)
-        .eq("user_id", sessionUser.id); // Extra safety
+  /**
+   * Response token of a booking's open monthly notice (RLS: own bookings only)
+   */
+  async getMonthlyNoticeToken(id: string): Promise<string | null> {
+    try {
+      const validatedId = uuidSchema.parse(id);
 
-      if (updateError) {
-        logError("cancelBooking - update", updateError);
-        if (updateError.code === "42501") {
-          throw createUserError("unauthorized");
-        }
-        throw createUserError("cancelBooking");
+      const { data, error } = await supabase
+        .from("monthly_rental_notices")
+        .select("response_token")
+        .eq("booking_id", validatedId)
+        .in("status", ["pending", "continuing"])
+        .not("notice_sent_at", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        logError("getMonthlyNoticeToken", error);
+        throw createUserError("getMonthlyNotice");
       }
 
-      logInfo(`Booking cancelled: ${validatedId}`);
+      return data?.response_token ?? null;
     } catch (error) {
       if (error instanceof z.ZodError) {
-        throw createUserError("bookingNotFound");
+        return null;
       }
       if (isUserError(error)) {
         throw error;
       }
-      logError("cancelBooking", error);
-      throw createUserError("cancelBooking");
+      logError("getMonthlyNoticeToken", error);
+      throw createUserError("getMonthlyNotice");
+    }
+  },
+
+  /**
+   * Tell us when an overdue rental will be back (delivery collection slot or
+   * store drop-off). Overdue charges continue until the vehicle is returned.
+   */
+  async scheduleReturn(
+    id: string,
+    returnDate: string,
+    returnTime: string
+  ): Promise<{ scheduledReturnAt: string }> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+      const validated = scheduleReturnSchema.parse({ returnDate, returnTime });
+
+      logInfo(`Scheduling return: ${validatedId}`);
+
+      return await invokeBookingFunction<{ scheduledReturnAt: string }>(
+        "schedule-return",
+        { bookingId: validatedId, ...validated },
+        SCHEDULE_RETURN_ERROR_CODES,
+        "scheduleReturn"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw createUserError("invalidScheduledReturn");
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("scheduleReturn", error);
+      throw createUserError("scheduleReturn");
+    }
+  },
+
+  /**
+   * Total of a booking's charges of one type, e.g. overdue days or
+   * insurance late fees (RLS: own bookings only)
+   */
+  async getChargeSummary(
+    id: string,
+    chargeType: BookingChargeType
+  ): Promise<BookingChargeSummary> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+
+      const { data, error } = await supabase
+        .from("booking_charges")
+        .select("amount")
+        .eq("booking_id", validatedId)
+        .eq("charge_type", chargeType)
+        .neq("status", "waived");
+
+      if (error) {
+        logError("getChargeSummary", error);
+        throw createUserError("getChargeSummary");
+      }
+
+      const rows = data || [];
+      return {
+        total: rows.reduce((sum, row) => sum + parseNumber(row.amount), 0),
+        count: rows.length,
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { total: 0, count: 0 };
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("getChargeSummary", error);
+      throw createUserError("getChargeSummary");
+    }
+  },
+
+  /**
+   * Unpaid charges of one type with their pay links, e.g. the student price
+   * adjustment after a rejected student ID (RLS: own bookings only)
+   */
+  async getOutstandingCharges(
+    id: string,
+    chargeType: BookingChargeType
+  ): Promise<OutstandingBookingCharge[]> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+
+      const { data, error } = await supabase
+        .from("booking_charges")
+        .select("id, charge_type, amount, description, checkout_url, created_at")
+        .eq("booking_id", validatedId)
+        .eq("charge_type", chargeType)
+        .eq("status", "outstanding")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        logError("getOutstandingCharges", error);
+        throw createUserError("getOutstandingCharges");
+      }
+
+      return (data || []).map((row) => ({
+        id: row.id,
+        chargeType: row.charge_type as BookingChargeType,
+        amount: parseNumber(row.amount),
+        description: row.description || null,
+        checkoutUrl: row.checkout_url || null,
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return [];
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("getOutstandingCharges", error);
+      throw createUserError("getOutstandingCharges");
+    }
+  },
+
+  /**
+   * Itemized deposit deductions (with signed photo URLs) and deposit refunds
+   * for a booking (RLS: own bookings only)
+   */
+  async getDepositStatement(id: string): Promise<DepositStatement> {
+    try {
+      const validatedId = uuidSchema.parse(id);
+
+      const [deductionsResult, refundsResult] = await Promise.all([
+        supabase
+          .from("booking_deposit_deductions")
+          .select("id, category, description, amount, photo_paths, created_at")
+          .eq("booking_id", validatedId)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("booking_refunds")
+          .select("id, amount, reason, status, created_at")
+          .eq("booking_id", validatedId)
+          .eq("refund_type", "deposit")
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (deductionsResult.error || refundsResult.error) {
+        logError(
+          "getDepositStatement",
+          deductionsResult.error || refundsResult.error
+        );
+        throw createUserError("getDepositStatement");
+      }
+
+      const deductions: DepositDeduction[] = await Promise.all(
+        (deductionsResult.data || []).map(async (row) => ({
+          id: row.id,
+          category: row.category as DepositDeductionCategory,
+          description: row.description,
+          amount: parseNumber(row.amount),
+          photoUrls: await getDeductionPhotoUrls(row.photo_paths || []),
+          createdAt: row.created_at,
+        }))
+      );
+
+      const refunds: DepositRefund[] = (refundsResult.data || []).map(
+        (row) => ({
+          id: row.id,
+          amount: parseNumber(row.amount),
+          reason: row.reason,
+          status: row.status as DepositRefund["status"],
+          createdAt: row.created_at,
+        })
+      );
+
+      return { deductions, refunds };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return { deductions: [], refunds: [] };
+      }
+      if (isUserError(error)) {
+        throw error;
+      }
+      logError("getDepositStatement", error);
+      throw createUserError("getDepositStatement");
     }
   },
 
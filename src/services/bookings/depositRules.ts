@@ -0,0 +1,5 @@
+// services/bookings/depositRules.ts
+// Re-exports the security deposit release rules shared with the
+// process-deposit-releases Edge Function, so the timeline in the portal shows
+// the same release date the scheduled job refunds on.
+export * from "../../../supabase/functions/_shared/depositRules.ts";
@@ -0,0 +1,4 @@
+// services/bookings/overdueRules.ts
+// Re-exports the overdue rental rules shared with the process-overdue-rentals
+// Edge Function, so the portal's overdue banner matches what is charged.
+export * from "../../../supabase/functions/_shared/overdueRules.ts";
@@ -1,5 +1,11 @@
-import type { ConfigKey, ParsedConfigMap } from "@/types";
+import type { ConfigDataType, ConfigKey, ParsedConfigMap } from "@/types";
+import { cachedApi } from "@/config/api";
+import { supabase } from "@/config/supabase";
+import * as Sentry from "@sentry/react";
 
+// ============================================
+// DEFAULTS (offline fallback only)
+// ============================================
 const DEFAULT_CONFIG: ParsedConfigMap = {
   cancellation_fee: 50,
   no_show_fee: 50,
@@ -21,9 +27,11 @@ const DEFAULT_CONFIG: ParsedConfigMap = {
   insurance_deadline_hours: 24,
   insurance_grace_period_hours: 48,
   overdue_escalation_days: 7,
+  overdue_reminder_days: "0,1,3",
   delivery_wait_minutes: 30,
   delivery_first_slot_offset_hours: 1,
   delivery_slot_interval_hours: 3,
+  delivery_slot_capacity: 2,
   extension_min_rental_days: 30,
   extension_min_duration_days: 7,
   extension_cutoff_days: 5,
@@ -32,35 +40,243 @@ const DEFAULT_CONFIG: ParsedConfigMap = {
   max_additional_drivers: 3,
   us_license_only: true,
   young_driver_fee_enabled: false,
+  young_driver_fee_under_21: 100,
+  young_driver_fee_under_25: 50,
   first_booking_verification_only: true,
   cash_advance_booking_allowed: false,
   cash_delivery_allowed: false,
+  referral_credit_amount: 25,
   store_hours_weekday_open: "09:00",
   store_hours_weekday_close: "19:00",
   store_hours_sunday_open: "09:00",
   store_hours_sunday_close: "17:00",
   booking_id_prefix: "4AR",
+  review_edit_window_days: 14,
 } as ParsedConfigMap;
 
+
+// ============================================
+// CACHE STATE
+// ============================================
+const CONFIG_TTL_MS = 5 * 60 * 1000;
+const FALLBACK_RETRY_MS = 30 * 1000;
+const CONFIG_BROADCAST_CHANNEL = "system-config";
+
+interface RawConfigEntry {
+  key: string;
+  value: string | null;
+  data_type: string;
+  category: string;
+  min_value: number | string | null;
+  max_value: number | string | null;
+}
+
+let cachedConfig: ParsedConfigMap | null = null;
+let lastGoodConfig: ParsedConfigMap | null = null;
+let cachedAt = 0;
+let cacheTtlMs = CONFIG_TTL_MS;
+let usingFallback = false;
+let inflight: Promise<ParsedConfigMap> | null = null;
+
+type ConfigListener = () => void;
+const listeners = new Set<ConfigListener>();
+let realtimeChannel: ReturnType<typeof supabase.channel> | null = null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function logError(context: string, error: unknown): void {
+  if (import.meta.env.DEV) {
+    console.error(`[configService] ${context}:`, error);
+  } else {
+    Sentry.captureException(error, {
+      tags: { service: "configService", context },
+    });
+  }
+}
+
+function logWarning(message: string): void {
+  if (import.meta.env.DEV) {
+    console.warn(`[configService] ${message}`);
+  }
+}
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a raw config value by its declared data type.
+ * Returns undefined when the value is malformed or outside min/max,
+ * so the caller keeps the default for that key.
+ */
+function parseConfigValue(entry: RawConfigEntry): unknown {
+  const raw = entry.value === null ? "" : String(entry.value).trim();
+  const dataType = entry.data_type as ConfigDataType;
+
+  switch (dataType) {
+    case "integer":
+    case "decimal": {
+      const parsed =
+        dataType === "integer" ? Number.parseInt(raw, 10) : Number(raw);
+      if (raw === "" || !Number.isFinite(parsed)) return undefined;
+      if (dataType === "integer" && !/^-?\d+$/.test(raw)) return undefined;
+
+      const min = toNumberOrNull(entry.min_value);
+      const max = toNumberOrNull(entry.max_value);
+      if ((min !== null && parsed < min) || (max !== null && parsed > max)) {
+        logWarning(
+          `${entry.key}=${raw} is outside [${min ?? "-inf"}, ${max ?? "inf"}]`,
+        );
+        return undefined;
+      }
+      return parsed;
+    }
+
+    case "boolean": {
+      const lowered = raw.toLowerCase();
+      if (["true", "1", "yes"].includes(lowered)) return true;
+      if (["false", "0", "no"].includes(lowered)) return false;
+      return undefined;
+    }
+
+    case "time":
+      return /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(raw)
+        ? raw.slice(0, 5)
+        : undefined;
+
+    case "json":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return undefined;
+      }
+
+    case "string":
+      return raw;
+
+    default:
+      return undefined;
+  }
+}
+
+function buildConfigMap(entries: RawConfigEntry[]): ParsedConfigMap {
+  const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+
+  for (const entry of entries) {
+    const parsed = parseConfigValue(entry);
+    if (parsed === undefined) {
+      logWarning(`Invalid value for ${entry.key}, using default`);
+      continue;
+    }
+    config[entry.key] = parsed;
+  }
+
+  return config as unknown as ParsedConfigMap;
+}
+
+function isCacheFresh(): boolean {
+  return cachedConfig !== null && Date.now() - cachedAt < cacheTtlMs;
+}
+
+async function loadConfig(): Promise<ParsedConfigMap> {
+  try {
+    const entries = await cachedApi.config.entries();
+    cachedConfig = buildConfigMap(entries);
+    lastGoodConfig = cachedConfig;
+    cacheTtlMs = CONFIG_TTL_MS;
+    usingFallback = false;
+  } catch (error) {
+    logError("loadConfig", error);
+
+    // Keep the last good values if we have them; defaults otherwise
+    cachedConfig = lastGoodConfig ?? DEFAULT_CONFIG;
+    usingFallback = lastGoodConfig === null;
+    cacheTtlMs = FALLBACK_RETRY_MS;
+  }
+
+  cachedAt = Date.now();
+  return cachedConfig;
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      logError("notifyListeners", error);
+    }
+  });
+}
+
+/**
+ * Listen for the cached-data invalidate route clearing the config prefix
+ */
+function ensureRealtimeSubscription(): void {
+  if (realtimeChannel) return;
+
+  realtimeChannel = supabase
+    .channel(CONFIG_BROADCAST_CHANNEL)
+    .on("broadcast", { event: "invalidated" }, () => {
+      clearConfigCache();
+    })
+    .subscribe();
+}
+
+function teardownRealtimeSubscription(): void {
+  if (!realtimeChannel) return;
+  supabase.removeChannel(realtimeChannel);
+  realtimeChannel = null;
+}
+
+// ============================================
+// SERVICE
+// ============================================
 export const configService = {
+  /**
+   * All configs, parsed by data type. Served from memory for CONFIG_TTL_MS;
+   * falls back to DEFAULT_CONFIG only when the API is unreachable.
+   */
   async getAllConfigs(): Promise<ParsedConfigMap> {
-    return DEFAULT_CONFIG;
+    if (isCacheFresh() && cachedConfig) {
+      return cachedConfig;
+    }
+
+    if (!inflight) {
+      inflight = loadConfig().finally(() => {
+        inflight = null;
+      });
+    }
+
+    return inflight;
   },
 
   async getConfig<K extends ConfigKey>(key: K): Promise<ParsedConfigMap[K]> {
-    return DEFAULT_CONFIG[key];
+    const config = await this.getAllConfigs();
+    return config[key];
   },
 
   async getConfigs<K extends ConfigKey>(
     keys: K[],
   ): Promise<Pick<ParsedConfigMap, K>> {
+    const config = await this.getAllConfigs();
     const result: Partial<Pick<ParsedConfigMap, K>> = {};
     for (const key of keys) {
-      result[key] = DEFAULT_CONFIG[key];
+      result[key] = config[key];
     }
     return result as Pick<ParsedConfigMap, K>;
   },
 
+  /**
+   * True when the last load failed and defaults are being served
+   */
+  isUsingFallback(): boolean {
+    return usingFallback;
+  },
+
   async getFeeConfigs() {
     return this.getConfigs([
       "cancellation_fee",
@@ -100,6 +316,8 @@ export const configService = {
       "max_additional_drivers",
       "us_license_only",
       "young_driver_fee_enabled",
+      "young_driver_fee_under_21",
+      "young_driver_fee_under_25",
       "first_booking_verification_only",
     ]);
   },
@@ -118,10 +336,45 @@ export const configService = {
       "delivery_wait_minutes",
       "delivery_first_slot_offset_hours",
       "delivery_slot_interval_hours",
+      "delivery_slot_capacity",
     ]);
   },
+
+  /**
+   * Dates the business is closed (business_calendar) between two dates
+   * (YYYY-MM-DD, inclusive). Empty when the calendar can't be loaded.
+   */
+  async getClosedDates(start: string, end: string): Promise<string[]> {
+    try {
+      const result = await cachedApi.config.closures(start, end);
+      return result.closedDates;
+    } catch (error) {
+      logError("getClosedDates", error);
+      return [];
+    }
+  },
 };
 
+/**
+ * Drop the in-memory config and notify subscribers so they refetch
+ */
 export function clearConfigCache(): void {
-  // No-op - using static defaults
+  cachedConfig = null;
+  cachedAt = 0;
+  notifyListeners();
+}
+
+/**
+ * Subscribe to config invalidation. Returns an unsubscribe function.
+ */
+export function subscribeToConfigChanges(listener: ConfigListener): () => void {
+  listeners.add(listener);
+  ensureRealtimeSubscription();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      teardownRealtimeSubscription();
+    }
+  };
 }
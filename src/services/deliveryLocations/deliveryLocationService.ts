@@ -1,3 +1,8 @@
+import { cachedApi } from "@/config/api";
+import type { DeliverySlotAvailability } from "@/types";
+import { z } from "zod";
+import * as Sentry from "@sentry/react";
+
 export interface DeliveryLocation {
   id: string;
   name: string;
@@ -19,32 +24,211 @@ export interface CityOption {
   minFee: number;
 }
 
+const uuidSchema = z.string().uuid("Invalid delivery location ID format");
+const citySchema = z.string().min(1).max(100).trim();
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format");
+
+function logError(context: string, error: unknown): void {
+  if (import.meta.env.DEV) {
+    console.error(`[deliveryLocationService] ${context}:`, error);
+  } else {
+    Sentry.captureException(error, {
+      tags: { service: "deliveryLocationService", context },
+    });
+  }
+}
+
+function createUserError(context: string): Error {
+  const messages: Record<string, string> = {
+    getAvailableCities: "Unable to load delivery cities. Please try again.",
+    getLocationsByCity: "Unable to load delivery locations for this city.",
+    getLocation: "Unable to load delivery location details.",
+    getDeliveryFee: "Unable to load the delivery fee.",
+    getDeliverySlots: "Unable to load delivery times. Please try again.",
+  };
+  return new Error(messages[context] || "An unexpected error occurred.");
+}
+
+function mapLocationFromDB(row: Record<string, unknown>): DeliveryLocation {
+  return {
+    id: row.id as string,
+    name: (row.name as string) || "",
+    address: (row.address as string) || "",
+    city: (row.city as string) || "",
+    state: (row.state as string) || "",
+    zipCode: (row.zip_code as string) || "",
+    deliveryFee: Number(row.delivery_fee) || 0,
+    isActive: row.is_active !== false,
+    notes: (row.notes as string | null) ?? undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+/**
+ * Matches the slug format used by the cached-data city routes
+ */
+function toCitySlug(city: string): string {
+  return city.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { status?: number }).status === 404
+  );
+}
+
 export const deliveryLocationService = {
+  /**
+   * Cities with at least one active delivery location, grouped from the
+   * cached location list so each option carries its count and cheapest fee
+   */
   async getAvailableCities(): Promise<CityOption[]> {
-    return [];
+    try {
+      const rows = await cachedApi.deliveryLocations.all();
+      const byCity = new Map<string, CityOption>();
+
+      (rows as Record<string, unknown>[])
+        .map(mapLocationFromDB)
+        .filter((location) => location.isActive && location.city)
+        .forEach((location) => {
+          const key = toCitySlug(location.city);
+          const existing = byCity.get(key);
+
+          if (existing) {
+            existing.locationCount += 1;
+            existing.minFee = Math.min(existing.minFee, location.deliveryFee);
+          } else {
+            byCity.set(key, {
+              city: location.city,
+              state: location.state,
+              locationCount: 1,
+              minFee: location.deliveryFee,
+            });
+          }
+        });
+
+      return Array.from(byCity.values()).sort((a, b) =>
+        a.city.localeCompare(b.city),
+      );
+    } catch (error) {
+      logError("getAvailableCities", error);
+      throw createUserError("getAvailableCities");
+    }
+  },
+
+  async getLocationsByCity(city: string): Promise<DeliveryLocation[]> {
+    const validated = citySchema.safeParse(city);
+    if (!validated.success) {
+      return [];
+    }
+
+    try {
+      const rows = await cachedApi.deliveryLocations.byCity(
+        encodeURIComponent(toCitySlug(validated.data)),
+      );
+
+      return (rows as Record<string, unknown>[]).map(mapLocationFromDB);
+    } catch (error) {
+      logError("getLocationsByCity", error);
+      throw createUserError("getLocationsByCity");
+    }
   },
 
-  async getLocationsByCity(_city: string): Promise<DeliveryLocation[]> {
-    return [];
+  async getLocation(id: string): Promise<DeliveryLocation | null> {
+    const validated = uuidSchema.safeParse(id);
+    if (!validated.success) {
+      return null;
+    }
+
+    try {
+      const row = await cachedApi.deliveryLocations.single(validated.data);
+      return row ? mapLocationFromDB(row as Record<string, unknown>) : null;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      logError("getLocation", error);
+      throw createUserError("getLocation");
+    }
   },
 
-  async getLocation(_id: string): Promise<DeliveryLocation | null> {
-    return null;
+  /**
+   * Display-only fee. The checkout function re-reads the fee server-side,
+   * so this value is never trusted for the amount charged.
+   */
+  async getDeliveryFee(locationId: string): Promise<number> {
+    const validated = uuidSchema.safeParse(locationId);
+    if (!validated.success) {
+      return 0;
+    }
+
+    try {
+      const { fee } = await cachedApi.deliveryLocations.fee(validated.data);
+      return Number(fee) || 0;
+    } catch (error) {
+      logError("getDeliveryFee", error);
+      throw createUserError("getDeliveryFee");
+    }
   },
 
-  async getDeliveryFee(_locationId: string): Promise<number> {
-    return 0;
+  /**
+   * Delivery time slots for a location on a date (YYYY-MM-DD), with the
+   * capacity left in each. Checkout re-validates the chosen slot.
+   */
+  async getDeliverySlots(
+    locationId: string,
+    date: string,
+  ): Promise<DeliverySlotAvailability> {
+    try {
+      const id = uuidSchema.parse(locationId);
+      const validDate = dateOnlySchema.parse(date);
+
+      return await cachedApi.deliveryLocations.slots(id, validDate);
+    } catch (error) {
+      logError("getDeliverySlots", error);
+      throw createUserError("getDeliverySlots");
+    }
   },
 
-  async validateLocation(_locationId: string): Promise<{
+  async validateLocation(locationId: string): Promise<{
     valid: boolean;
     location: DeliveryLocation | null;
     error?: string;
   }> {
-    return {
-      valid: false,
-      location: null,
-      error: "Delivery locations are not configured.",
-    };
+    if (!uuidSchema.safeParse(locationId).success) {
+      return {
+        valid: false,
+        location: null,
+        error: "Please select a delivery location.",
+      };
+    }
+
+    try {
+      const location = await this.getLocation(locationId);
+
+      if (!location || !location.isActive) {
+        return {
+          valid: false,
+          location: null,
+          error: "This delivery location is no longer available.",
+        };
+      }
+
+      return { valid: true, location };
+    } catch (error) {
+      return {
+        valid: false,
+        location: null,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Unable to verify the delivery location.",
+      };
+    }
   },
 };
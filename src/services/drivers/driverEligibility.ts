@@ -0,0 +1,5 @@
+// services/drivers/driverEligibility.ts
+// Re-exports the driver eligibility rules shared with create-checkout-session
+// and complete-pos-booking, so the driver forms turn away the same drivers and
+// quote the same young driver surcharge the server charges.
+export * from "../../../supabase/functions/_shared/driverEligibility.ts";
@@ -0,0 +1,195 @@
+import { supabase } from "@/config/supabase";
+import type { DriverInvite, DriverInviteDetails } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+export interface DriverInviteResult {
+  success: boolean;
+  invite?: DriverInvite;
+  error?: string;
+  /** Server error code (DRIVER_INELIGIBLE, INVITE_CLOSED, ...) */
+  code?: string;
+  /** Age and license problems when the code is DRIVER_INELIGIBLE */
+  reasons?: string[];
+}
+
+export interface DriverInviteVerificationResult {
+  success: boolean;
+  /** Stripe-hosted ID + selfie page to send the driver to */
+  url?: string;
+  /** Nothing to do: verified on this or an earlier rental */
+  alreadyVerified?: boolean;
+  error?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const INVITE_FUNCTION = "driver-invite";
+
+const GENERIC_ERROR = "Something went wrong. Please try again.";
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[DriverInviteService] ${message}`, data ?? "");
+  }
+}
+
+/**
+ * Call driver-invite. Invite links work without an account, so this falls
+ * back to the anon key when nobody is signed in (the token authorizes).
+ */
+async function invokeInviteFunction(
+  body: Record<string, unknown>
+): Promise<{ ok: boolean; data: Record<string, unknown> }> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim() || "";
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${INVITE_FUNCTION}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session?.access_token || anonKey}`,
+        apikey: anonKey,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
+
+function toInviteResult(
+  ok: boolean,
+  data: Record<string, unknown>
+): DriverInviteResult {
+  if (!ok) {
+    return {
+      success: false,
+      error: (data.error as string | undefined) || GENERIC_ERROR,
+      code: data.code as string | undefined,
+      reasons: data.reasons as string[] | undefined,
+    };
+  }
+
+  return { success: true, invite: data as unknown as DriverInvite };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const driverInviteService = {
+  /**
+   * Load the invite behind an emailed /driver-invite link
+   */
+  async getInvite(token: string): Promise<DriverInviteResult> {
+    try {
+      const { ok, data } = await invokeInviteFunction({
+        action: "view",
+        token,
+      });
+
+      if (!ok) log("Failed to load invite", data);
+      return toInviteResult(ok, data);
+    } catch (err) {
+      log("Error loading invite", err);
+      return { success: false, error: GENERIC_ERROR };
+    }
+  },
+
+  /**
+   * Save the invited driver's license and address and accept the terms
+   */
+  async submitDetails(
+    token: string,
+    details: DriverInviteDetails,
+    acceptTerms: boolean
+  ): Promise<DriverInviteResult> {
+    try {
+      const { ok, data } = await invokeInviteFunction({
+        action: "submit",
+        token,
+        details,
+        acceptTerms,
+      });
+
+      if (!ok) log("Failed to submit details", data);
+      return toInviteResult(ok, data);
+    } catch (err) {
+      log("Error submitting details", err);
+      return { success: false, error: GENERIC_ERROR };
+    }
+  },
+
+  /**
+   * Open (or resume) the invited driver's ID + selfie check
+   */
+  async startVerification(
+    token: string
+  ): Promise<DriverInviteVerificationResult> {
+    try {
+      const { ok, data } = await invokeInviteFunction({
+        action: "verify",
+        token,
+      });
+
+      if (!ok) {
+        log("Failed to start verification", data);
+        return {
+          success: false,
+          error: (data.error as string | undefined) || GENERIC_ERROR,
+        };
+      }
+
+      if (data.alreadyVerified) {
+        return { success: true, alreadyVerified: true };
+      }
+
+      return { success: true, url: data.url as string };
+    } catch (err) {
+      log("Error starting verification", err);
+      return { success: false, error: GENERIC_ERROR };
+    }
+  },
+
+  /**
+   * Email the invite link again (account holder, from My Bookings)
+   */
+  async resendInvite(
+    bookingId: string,
+    driverId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { ok, data } = await invokeInviteFunction({
+        action: "resend",
+        bookingId,
+        driverId,
+      });
+
+      if (!ok) {
+        log("Failed to resend invite", data);
+        return {
+          success: false,
+          error: (data.error as string | undefined) || GENERIC_ERROR,
+        };
+      }
+
+      return { success: true };
+    } catch (err) {
+      log("Error resending invite", err);
+      return { success: false, error: GENERIC_ERROR };
+    }
+  },
+};
+
+export default driverInviteService;
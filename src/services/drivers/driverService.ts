@@ -2,7 +2,8 @@
 import { supabase } from "@/config/supabase";
 import { z } from "zod";
 import * as Sentry from "@sentry/react";
-import { PrimaryDriver, AdditionalDriver } from "@/types";
+import { PrimaryDriver, AdditionalDriver, InviteStatus } from "@/types";
+import { DEFAULT_LICENSE_COUNTRY } from "./driverEligibility";
 
 // ============================================
 // TYPES
@@ -16,6 +17,7 @@ interface PrimaryDriverRow {
   email: string;
   phone: string;
   drivers_license: string;
+  license_country: string | null;
   date_of_birth: string;
   street_address: string;
   city: string;
@@ -37,17 +39,20 @@ interface AdditionalDriverRow {
   first_name: string;
   last_name: string;
   email: string;
-  phone: string;
-  drivers_license: string;
-  date_of_birth: string;
-  street_address: string;
-  city: string;
-  state: string;
-  zip_code: string;
+  // Null until an invited driver adds their own details
+  phone: string | null;
+  drivers_license: string | null;
+  license_country: string | null;
+  date_of_birth: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
   is_verified: boolean;
   verified_by: string | null;
   verified_at: string | null;
   notes: string | null;
+  invite_status: InviteStatus | null;
   created_at: string;
   updated_at: string;
 }
@@ -168,6 +173,7 @@ function mapPrimaryDriverFromDB(row: PrimaryDriverRow): PrimaryDriver {
     email: row.email,
     phone: row.phone,
     driversLicense: row.drivers_license,
+    licenseCountry: row.license_country || DEFAULT_LICENSE_COUNTRY,
     dateOfBirth: row.date_of_birth,
     streetAddress: row.street_address,
     city: row.city,
@@ -194,17 +200,19 @@ function mapAdditionalDriverFromDB(row: AdditionalDriverRow): AdditionalDriver {
     firstName: row.first_name,
     lastName: row.last_name,
     email: row.email,
-    phone: row.phone,
-    driversLicense: row.drivers_license,
-    dateOfBirth: row.date_of_birth,
-    streetAddress: row.street_address,
-    city: row.city,
-    state: row.state,
-    zipCode: row.zip_code,
+    phone: row.phone || "",
+    driversLicense: row.drivers_license || "",
+    licenseCountry: row.license_country || DEFAULT_LICENSE_COUNTRY,
+    dateOfBirth: row.date_of_birth || "",
+    streetAddress: row.street_address || "",
+    city: row.city || "",
+    state: row.state || "",
+    zipCode: row.zip_code || "",
     isVerified: row.is_verified,
     verifiedBy: row.verified_by,
     verifiedAt: row.verified_at,
     notes: row.notes ?? undefined,
+    inviteStatus: row.invite_status,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
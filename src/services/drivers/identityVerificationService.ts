@@ -0,0 +1,129 @@
+import { supabase } from "@/config/supabase";
+import type { BookingIdentityVerification } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+export interface StartIdentityVerificationResult {
+  success: boolean;
+  /** Stripe-hosted ID + selfie page to send the customer to */
+  url?: string;
+  /** Nothing to do: verified on this or an earlier rental */
+  alreadyVerified?: boolean;
+  error?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const VERIFICATION_FUNCTION = "customer-identity-verification";
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[IdentityVerificationService] ${message}`, data ?? "");
+  }
+}
+
+/**
+ * Call customer-identity-verification with the user's access token
+ */
+async function invokeVerificationFunction(
+  body: Record<string, unknown>
+): Promise<{ ok: boolean; data: Record<string, unknown> }> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    return { ok: false, data: { error: "Please sign in to continue." } };
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${VERIFICATION_FUNCTION}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const identityVerificationService = {
+  /**
+   * Verification status of every driver on one of the user's bookings
+   */
+  async getBookingVerification(
+    bookingId: string
+  ): Promise<BookingIdentityVerification | null> {
+    try {
+      const { ok, data } = await invokeVerificationFunction({
+        action: "status",
+        bookingId,
+      });
+
+      if (!ok) {
+        log("Failed to load verification status", data);
+        return null;
+      }
+
+      return data as unknown as BookingIdentityVerification;
+    } catch (err) {
+      log("Error loading verification status", err);
+      return null;
+    }
+  },
+
+  /**
+   * Open (or resume) an ID + selfie check for one driver on the booking
+   */
+  async startVerification(
+    bookingId: string,
+    driverType: "primary" | "additional",
+    driverId: string
+  ): Promise<StartIdentityVerificationResult> {
+    try {
+      const { ok, data } = await invokeVerificationFunction({
+        action: "start",
+        bookingId,
+        driverType,
+        driverId,
+      });
+
+      if (!ok) {
+        log("Failed to start verification", data);
+        return {
+          success: false,
+          error:
+            (data.error as string | undefined) ||
+            "Unable to start verification right now. Please try again.",
+        };
+      }
+
+      if (data.alreadyVerified) {
+        return { success: true, alreadyVerified: true };
+      }
+
+      return { success: true, url: data.url as string };
+    } catch (err) {
+      log("Error starting verification", err);
+      return {
+        success: false,
+        error: "Unable to start verification right now. Please try again.",
+      };
+    }
+  },
+};
+
+export default identityVerificationService;
@@ -0,0 +1,4 @@
+// services/extensions/extensionRules.ts
+// Re-exports the extension rules shared with the extend-booking Edge Function,
+// so the portal and the server evaluate eligibility with the same code.
+export * from "../../../supabase/functions/_shared/extensionRules.ts";
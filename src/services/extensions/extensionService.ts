@@ -1,14 +1,26 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { supabase } from "@/config/supabase";
 import { Booking, RentalType } from "@/types";
 import { toBusinessDateString } from "@/utils/dates";
+import { configService } from "@/services/config/configService";
+import { vehicleService } from "@/services/vehicles/vehicleService";
+import {
+  DEFAULT_EXTENSION_RULES,
+  evaluateExtensionEligibility,
+  extensionRulesFromConfig,
+  validateExtensionDates,
+  ExtensionReason,
+  ExtensionRules,
+} from "./extensionRules";
 
 // ============================================
 // TYPES
 // ============================================
 export interface ExtensionEligibility {
   canExtend: boolean;
+  // First failing rule, for single-line display
   reason?: string;
+  reasons: ExtensionReason[];
+  minExtensionDays: number;
   maxExtensionDays: number;
   daysRemaining: number;
   extensionsUsed: number;
@@ -34,14 +46,6 @@ export interface ExtensionAvailability {
   };
 }
 
-// ============================================
-// CONSTANTS
-// ============================================
-const MAX_EXTENSIONS = 5;
-const MIN_DAYS_REMAINING_TO_EXTEND = 5;
-const MIN_EXTENSION_DAYS = 7;
-const MAX_EXTENSION_DAYS = 90;
-
 const isDev = import.meta.env.DEV;
 
 // ============================================
@@ -53,14 +57,6 @@ function log(message: string, data?: unknown): void {
   }
 }
 
-function getDaysRemaining(returnDate: string): number {
-  const now = new Date();
-  const returnDateTime = new Date(returnDate);
-  const diffTime = returnDateTime.getTime() - now.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return Math.max(0, diffDays);
-}
-
 function addDays(dateString: string, days: number): string {
   const date = new Date(dateString);
   date.setDate(date.getDate() + days);
@@ -79,80 +75,50 @@ function calculateDaysBetween(startDate: string, endDate: string): number {
 // ============================================
 export const extensionService = {
   /**
-   * Check if a booking is eligible for extension
+   * Load extension rules from system config (defaults if unavailable)
    */
-  checkEligibility(booking: Booking): ExtensionEligibility {
-    const daysRemaining = getDaysRemaining(booking.returnDate);
-
-    // Check rental type - only monthly can extend
-    if (booking.rentalType === "weekly") {
-      return {
-        canExtend: false,
-        reason:
-          "Weekly rentals cannot be extended. Please create a new booking.",
-        maxExtensionDays: 0,
-        daysRemaining,
-        extensionsUsed: booking.extensionCount,
-        maxExtensions: MAX_EXTENSIONS,
-      };
-    }
-
-    if (booking.rentalType === "semester") {
-      return {
-        canExtend: false,
-        reason: "Semester rentals have fixed dates and cannot be extended.",
-        maxExtensionDays: 0,
-        daysRemaining,
-        extensionsUsed: booking.extensionCount,
-        maxExtensions: MAX_EXTENSIONS,
-      };
-    }
-
-    // Check status - must be confirmed or active
-    if (booking.status !== "confirmed" && booking.status !== "active") {
-      return {
-        canExtend: false,
-        reason: `Booking must be confirmed or active to extend. Current status: ${booking.status}`,
-        maxExtensionDays: 0,
-        daysRemaining,
-        extensionsUsed: booking.extensionCount,
-        maxExtensions: MAX_EXTENSIONS,
-      };
-    }
-
-    // Check extension limit
-    if (booking.extensionCount >= MAX_EXTENSIONS) {
-      return {
-        canExtend: false,
-        reason: `Maximum of ${MAX_EXTENSIONS} extensions reached. Please create a new booking.`,
-        maxExtensionDays: 0,
-        daysRemaining,
-        extensionsUsed: booking.extensionCount,
-        maxExtensions: MAX_EXTENSIONS,
-      };
+  async getRules(): Promise<ExtensionRules> {
+    try {
+      const config = await configService.getExtensionConfigs();
+      return extensionRulesFromConfig(config);
+    } catch (err) {
+      log("Falling back to default extension rules", err);
+      return DEFAULT_EXTENSION_RULES;
     }
+  },
 
-    // Check days remaining
-    if (daysRemaining < MIN_DAYS_REMAINING_TO_EXTEND) {
-      return {
-        canExtend: false,
-        reason: `Extensions must be requested at least ${MIN_DAYS_REMAINING_TO_EXTEND} days before return date.`,
-        maxExtensionDays: 0,
-        daysRemaining,
-        extensionsUsed: booking.extensionCount,
-        maxExtensions: MAX_EXTENSIONS,
-      };
-    }
+  /**
+   * Check if a booking is eligible for extension
+   */
+  checkEligibility(
+    booking: Booking,
+    rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+  ): ExtensionEligibility {
+    const result = evaluateExtensionEligibility(booking, rules);
 
     return {
-      canExtend: true,
-      maxExtensionDays: MAX_EXTENSION_DAYS,
-      daysRemaining,
-      extensionsUsed: booking.extensionCount,
-      maxExtensions: MAX_EXTENSIONS,
+      canExtend: result.eligible,
+      reason: result.reasons[0]?.message,
+      reasons: result.reasons,
+      minExtensionDays: result.eligible ? result.minExtensionDays : 0,
+      maxExtensionDays: result.eligible ? result.maxExtensionDays : 0,
+      daysRemaining: result.daysRemaining,
+      extensionsUsed: result.extensionsUsed,
+      maxExtensions: result.maxExtensions,
     };
   },
 
+  /**
+   * Validate a requested return date (same rule the server applies)
+   */
+  validateNewReturnDate(
+    booking: Booking,
+    newReturnDate: string,
+    rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+  ): ExtensionReason | null {
+    return validateExtensionDates(booking.returnDate, newReturnDate, rules);
+  },
+
   /**
    * Check if vehicle is available for extension dates
    */
@@ -160,7 +126,6 @@ export const extensionService = {
     vehicleId: string,
     currentReturnDate: string,
     newReturnDate: string,
-    currentBookingId: string,
   ): Promise<ExtensionAvailability> {
     log("Checking availability", {
       vehicleId,
@@ -169,57 +134,43 @@ export const extensionService = {
     });
 
     try {
-      // Find any bookings that overlap with the extension period
-      const { data: conflictingBookings, error } = await supabase
-        .from("bookings")
-        .select("id, pickup_date, return_date")
-        .eq("vehicle_id", vehicleId)
-        .neq("id", currentBookingId) // Exclude current booking
-        .in("status", ["confirmed", "active", "pending"])
-        .lt("pickup_date", newReturnDate) // Booking starts before our new end
-        .gt("return_date", currentReturnDate); // Booking ends after our current end
+      const currentReturnStr = toBusinessDateString(new Date(currentReturnDate));
+      const newReturnStr = toBusinessDateString(new Date(newReturnDate));
 
-      if (error) {
-        log("Error checking availability", error);
-        throw new Error("Failed to check vehicle availability");
-      }
+      const availability = await vehicleService.getAvailabilityWindow(
+        vehicleId,
+        currentReturnStr,
+        newReturnStr,
+      );
+
+      // Any booking that starts before our new end and ends after our
+      // current end. Our own booking ends on currentReturnStr, so it never
+      // matches.
+      const conflict = availability.blockedRanges.find(
+        (range) => range.start < newReturnStr && range.end > currentReturnStr,
+      );
 
-      if (conflictingBookings && conflictingBookings.length > 0) {
-        const conflict = conflictingBookings[0];
+      if (conflict) {
         return {
           available: false,
           conflictingBooking: {
-            pickupDate: conflict.pickup_date,
-            returnDate: conflict.return_date,
+            pickupDate: conflict.start,
+            returnDate: conflict.end,
           },
         };
       }
 
-      // Also check business calendar for blocked dates
-      const { data: blockedDates, error: calendarError } = await supabase
-        .from("business_calendar")
-        .select("calendar_date, title, date_type")
-        .gte("calendar_date", currentReturnDate.split("T")[0])
-        .lte("calendar_date", newReturnDate.split("T")[0])
-        .in("date_type", ["holiday", "closed", "maintenance"]);
-
-      if (calendarError) {
-        log("Error checking calendar", calendarError);
-        // Don't fail - just continue without calendar check
-      }
-
       // We don't block for holidays in the middle, only for return date
-      const newReturnDateStr = newReturnDate.split("T")[0];
-      const returnDateBlocked = blockedDates?.find(
-        (d) => d.calendar_date === newReturnDateStr,
+      const returnDateBlocked = availability.closedDates.find(
+        (d) => d.date === newReturnStr,
       );
 
       if (returnDateBlocked) {
         return {
           available: false,
           conflictingBooking: {
-            pickupDate: returnDateBlocked.calendar_date,
-            returnDate: returnDateBlocked.calendar_date,
+            pickupDate: returnDateBlocked.date,
+            returnDate: returnDateBlocked.date,
           },
         };
       }
@@ -293,23 +244,20 @@ export const extensionService = {
   /**
    * Get minimum and maximum extension dates
    */
-  getExtensionDateLimits(booking: Booking): {
+  getExtensionDateLimits(
+    booking: Booking,
+    rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+  ): {
     minDate: string;
     maxDate: string;
   } {
-    const currentReturn = new Date(booking.returnDate);
-
-    // Minimum: current return + 7 days
-    const minDate = new Date(currentReturn);
-    minDate.setDate(minDate.getDate() + MIN_EXTENSION_DAYS);
-
-    // Maximum: current return + 90 days
-    const maxDate = new Date(currentReturn);
-    maxDate.setDate(maxDate.getDate() + MAX_EXTENSION_DAYS);
+    const minDate = addDays(booking.returnDate, rules.minDurationDays);
+    // Overdue rentals: the new return date can't be in the past
+    const tomorrow = addDays(new Date().toISOString(), 1);
 
     return {
-      minDate: toBusinessDateString(minDate),
-      maxDate: toBusinessDateString(maxDate),
+      minDate: minDate > tomorrow ? minDate : tomorrow,
+      maxDate: addDays(booking.returnDate, rules.maxDurationDays),
     };
   },
 };
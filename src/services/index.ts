@@ -6,3 +6,16 @@ export * from "./config/configService";
 export * from "./pricing/pricingService";
 export * from "./extensions/extensionService";
 export * from "./insurance/insuranceService";
+export * from "./deliveryLocations/deliveryLocationService";
+export * from "./reviews/reviewService";
+export * from "./students/studentVerificationService";
+export * from "./students/academicTermService";
+export * from "./users/savedDriverService";
+export * from "./extensions/extensionRules";
+export * from "./insurance/insuranceRules";
+export * from "./bookings/overdueRules";
+export * from "./bookings/depositRules";
+export * from "./students/studentRules";
+export * from "./drivers/driverEligibility";
+export * from "./drivers/identityVerificationService";
+export * from "./drivers/driverInviteService";
@@ -0,0 +1,5 @@
+// services/insurance/insuranceRules.ts
+// Re-exports the insurance deadline rules shared with the
+// process-insurance-deadlines Edge Function, so the countdown in the portal
+// matches what the scheduled job enforces.
+export * from "../../../supabase/functions/_shared/insuranceRules.ts";
@@ -5,6 +5,8 @@ import type {
   ExtensionPricing,
   RentalType,
   PricingMethod,
+  PromoDiscount,
+  LoyaltyBenefits,
 } from "@/types";
 import * as Sentry from "@sentry/react";
 import { toBusinessDateString } from "@/utils/dates";
@@ -42,6 +44,31 @@ interface RawBookingTotal {
   total_due_now: number | null;
 }
 
+interface RawTermTotal extends RawBookingTotal {
+  academic_term_id: string;
+  term_name: string;
+  semester_rate: number | null;
+}
+
+interface RawPromoCheck {
+  promo_code_id: string | null;
+  code: string | null;
+  description: string | null;
+  discount_type: string | null;
+  discount_value: number | null;
+  discount_amount: number | null;
+  error: string | null;
+}
+
+interface RawLoyaltyBenefits {
+  loyalty_tier_id: string | null;
+  tier_name: string | null;
+  delivery_fee_waived: number | null;
+  additional_driver_fee_waived: number | null;
+  deposit_discount: number | null;
+  total_savings: number | null;
+}
+
 interface RawExtensionPricing {
   extension_days: number;
   rental_type: string;
@@ -118,6 +145,37 @@ function mapBookingTotal(raw: RawBookingTotal): BookingTotal {
   };
 }
 
+function mapTermTotal(raw: RawTermTotal): BookingTotal {
+  return {
+    ...mapBookingTotal(raw),
+    academicTermId: raw.academic_term_id,
+    termName: raw.term_name,
+    semesterRate: raw.semester_rate ?? 0,
+  };
+}
+
+function mapPromoDiscount(raw: RawPromoCheck): PromoDiscount {
+  return {
+    promoCodeId: raw.promo_code_id ?? "",
+    code: raw.code ?? "",
+    description: raw.description,
+    discountType: raw.discount_type === "fixed" ? "fixed" : "percentage",
+    discountValue: Number(raw.discount_value) || 0,
+    amount: Number(raw.discount_amount) || 0,
+  };
+}
+
+function mapLoyaltyBenefits(raw: RawLoyaltyBenefits): LoyaltyBenefits {
+  return {
+    tierId: raw.loyalty_tier_id ?? "",
+    tierName: raw.tier_name ?? "",
+    deliveryFeeWaived: Number(raw.delivery_fee_waived) || 0,
+    additionalDriverFeeWaived: Number(raw.additional_driver_fee_waived) || 0,
+    depositDiscount: Number(raw.deposit_discount) || 0,
+    totalSavings: Number(raw.total_savings) || 0,
+  };
+}
+
 function mapExtensionPricing(raw: RawExtensionPricing): ExtensionPricing {
   return {
     extensionDays: raw.extension_days,
@@ -248,6 +306,124 @@ export const pricingService = {
     }
   },
 
+  /**
+   * Semester price for a whole academic term (the term fixes the dates)
+   */
+  async calculateTermTotal(
+    vehicleId: string,
+    academicTermId: string,
+    deliveryFee: number = 0,
+    additionalDrivers: number = 0,
+  ): Promise<BookingTotal> {
+    logInfo(`Calculating term total for vehicle ${vehicleId}`);
+
+    try {
+      const { data, error } = await supabase.rpc("calculate_term_price", {
+        p_vehicle_id: vehicleId,
+        p_term_id: academicTermId,
+        p_delivery_fee: deliveryFee,
+        p_additional_drivers: additionalDrivers,
+      });
+
+      if (error) {
+        logError("calculateTermTotal", error);
+        throw new Error(error.message || "Failed to calculate semester price");
+      }
+
+      if (!data || data.length === 0) {
+        throw new Error("No pricing data returned");
+      }
+
+      const result = data[0] as RawTermTotal;
+      logInfo(`Term total calculated: $${result.total_due_now}`);
+
+      return mapTermTotal(result);
+    } catch (error) {
+      logError("calculateTermTotal", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Check a promo code against the rental. The discount shown here is a
+   * preview; checkout applies the code again against the server price.
+   */
+  async applyPromoCode(
+    code: string,
+    vehicleId: string,
+    rentalType: RentalType,
+    rentalDays: number,
+    rentalAmount: number,
+  ): Promise<{ discount: PromoDiscount | null; error: string | null }> {
+    logInfo(`Applying promo code for vehicle ${vehicleId}`);
+
+    try {
+      const { data, error } = await supabase.rpc("apply_promo_code", {
+        p_code: code.trim(),
+        p_vehicle_id: vehicleId,
+        p_rental_type: rentalType,
+        p_rental_days: rentalDays,
+        p_rental_amount: rentalAmount,
+      });
+
+      if (error) {
+        logError("applyPromoCode", error);
+        return { discount: null, error: "Couldn't check this promo code" };
+      }
+
+      const result = (data as RawPromoCheck[] | null)?.[0];
+      if (!result || result.error || !result.promo_code_id) {
+        return {
+          discount: null,
+          error: result?.error || "This promo code isn't valid.",
+        };
+      }
+
+      logInfo(`Promo code applied: -$${result.discount_amount}`);
+      return { discount: mapPromoDiscount(result), error: null };
+    } catch (error) {
+      logError("applyPromoCode", error);
+      return { discount: null, error: "Couldn't check this promo code" };
+    }
+  },
+
+  /**
+   * The signed-in customer's loyalty tier applied to the fees and deposit.
+   * Null without a tier or any savings; checkout applies the tier again.
+   */
+  async calculateLoyaltyBenefits(
+    deliveryFee: number,
+    additionalDriverFee: number,
+    securityDeposit: number,
+  ): Promise<LoyaltyBenefits | null> {
+    try {
+      const { data, error } = await supabase.rpc(
+        "calculate_loyalty_benefits",
+        {
+          p_delivery_fee: deliveryFee,
+          p_additional_driver_fee: additionalDriverFee,
+          p_security_deposit: securityDeposit,
+        },
+      );
+
+      if (error) {
+        logError("calculateLoyaltyBenefits", error);
+        return null;
+      }
+
+      const result = (data as RawLoyaltyBenefits[] | null)?.[0];
+      if (!result?.loyalty_tier_id || !Number(result.total_savings)) {
+        return null;
+      }
+
+      logInfo(`Loyalty benefits applied: -$${result.total_savings}`);
+      return mapLoyaltyBenefits(result);
+    } catch (error) {
+      logError("calculateLoyaltyBenefits", error);
+      return null;
+    }
+  },
+
   async calculateExtensionPrice(
     vehicleId: string,
     currentReturnDate: Date | string,
@@ -1,32 +1,421 @@
-import { Review, ReviewStats, CreateReviewInput } from "@/types";
+import { supabase } from "@/config/supabase";
+import { cachedApi } from "@/config/api";
+import { configService } from "@/services/config/configService";
+import type {
+  Review,
+  ReviewStats,
+  ReviewEligibility,
+  ReviewModerationStatus,
+  CreateReviewInput,
+  UpdateReviewInput,
+} from "@/types";
+import { z } from "zod";
+import * as Sentry from "@sentry/react";
+
+// ============================================
+// INPUT VALIDATION SCHEMAS
+// ============================================
+const uuidSchema = z.string().uuid("Invalid ID format");
+
+const ratingSchema = z.number().int().min(1).max(5);
+
+const createReviewSchema = z.object({
+  vehicleId: z.string().uuid(),
+  reservationId: z.string().uuid(),
+  rating: ratingSchema,
+  comment: z.string().max(2000).trim().optional(),
+  reviewerName: z.string().min(1).max(100).trim(),
+});
+
+const updateReviewSchema = z.object({
+  rating: ratingSchema,
+  comment: z.string().max(2000).trim().optional(),
+});
+
+const DEFAULT_EDIT_WINDOW_DAYS = 14;
+
+const EMPTY_DISTRIBUTION: ReviewStats["ratingDistribution"] = {
+  5: 0,
+  4: 0,
+  3: 0,
+  2: 0,
+  1: 0,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function logError(context: string, error: unknown): void {
+  if (import.meta.env.DEV) {
+    console.error(`[reviewService] ${context}:`, error);
+  } else {
+    Sentry.captureException(error, {
+      tags: { service: "reviewService", context },
+    });
+  }
+}
+
+function createUserError(context: string): Error {
+  const messages: Record<string, string> = {
+    getVehicleReviews: "Unable to load reviews.",
+    getVehicleReviewStats: "Unable to load review summary.",
+    createReview: "Unable to submit your review. Please try again.",
+    updateReview: "Unable to update your review. Please try again.",
+    getMyReviews: "Unable to load your reviews.",
+    checkEligibility: "Unable to check review eligibility.",
+    notAuthenticated: "Please log in to continue.",
+    unauthorized: "You are not authorized to perform this action.",
+    duplicate: "You have already reviewed this booking.",
+    notEligible: "A completed booking is required to review this vehicle.",
+    editWindowClosed: "The edit window for this review has closed.",
+    reviewNotFound: "Review not found.",
+  };
+  return new Error(messages[context] || "An unexpected error occurred.");
+}
+
+function isUserError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message.includes("Unable to") ||
+      error.message.includes("Please log in") ||
+      error.message.includes("not authorized") ||
+      error.message.includes("already reviewed") ||
+      error.message.includes("completed booking is required") ||
+      error.message.includes("edit window") ||
+      error.message.includes("not found"))
+  );
+}
+
+/**
+ * Map database trigger/constraint errors to user-facing errors
+ */
+function mapWriteError(
+  error: { code?: string; message?: string },
+  fallback: string,
+): Error {
+  if (error.code === "23505") return createUserError("duplicate");
+
+  const message = error.message || "";
+  if (message.includes("completed booking is required")) {
+    return createUserError("notEligible");
+  }
+  if (message.includes("edit window")) {
+    return createUserError("editWindowClosed");
+  }
+  if (error.code === "42501") return createUserError("unauthorized");
+
+  return createUserError(fallback);
+}
+
+async function getSessionUser(): Promise<{ id: string } | null> {
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    return session?.user ? { id: session.user.id } : null;
+  } catch (error) {
+    logError("getSessionUser", error);
+    return null;
+  }
+}
+
+async function getEditWindowDays(): Promise<number> {
+  try {
+    const days = await configService.getConfig("review_edit_window_days");
+    return Number.isFinite(days) ? days : DEFAULT_EDIT_WINDOW_DAYS;
+  } catch {
+    return DEFAULT_EDIT_WINDOW_DAYS;
+  }
+}
+
+function getEditableUntil(review: Review, windowDays: number): Date {
+  return new Date(
+    review.createdAt.getTime() + windowDays * 24 * 60 * 60 * 1000,
+  );
+}
+
+function mapReviewFromDB(row: Record<string, unknown>): Review {
+  return {
+    id: row.id as string,
+    vehicleId: row.vehicle_id as string,
+    userId: (row.user_id as string) || "",
+    reservationId: (row.reservation_id as string | null) ?? null,
+    rating: Number(row.rating) || 0,
+    comment: (row.comment as string | null) ?? null,
+    reviewerName: (row.reviewer_name as string) || "Customer",
+    isVerified: Boolean(row.is_verified),
+    moderationStatus:
+      (row.moderation_status as ReviewModerationStatus) || "approved",
+    moderationNote: (row.moderation_note as string | null) ?? null,
+    editedAt: row.edited_at ? new Date(row.edited_at as string) : null,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
 
 export const reviewService = {
+  /**
+   * Approved reviews for a vehicle (served from cache)
+   */
   async getVehicleReviews(
-    _vehicleId: string,
-    _limit: number = 10,
+    vehicleId: string,
+    limit: number = 10,
   ): Promise<Review[]> {
-    return [];
+    if (!uuidSchema.safeParse(vehicleId).success) return [];
+
+    try {
+      const rows = await cachedApi.vehicles.reviews(vehicleId, limit);
+      return (rows as Record<string, unknown>[]).map(mapReviewFromDB);
+    } catch (error) {
+      logError("getVehicleReviews", error);
+      throw createUserError("getVehicleReviews");
+    }
+  },
+
+  async getVehicleReviewStats(vehicleId: string): Promise<ReviewStats> {
+    if (!uuidSchema.safeParse(vehicleId).success) {
+      return {
+        averageRating: null,
+        totalReviews: 0,
+        ratingDistribution: { ...EMPTY_DISTRIBUTION },
+      };
+    }
+
+    try {
+      const stats = await cachedApi.vehicles.reviewStats(vehicleId);
+
+      return {
+        averageRating: stats?.averageRating ?? null,
+        totalReviews: stats?.reviewCount ?? 0,
+        ratingDistribution: {
+          ...EMPTY_DISTRIBUTION,
+          ...(stats?.ratingDistribution || {}),
+        },
+      };
+    } catch (error) {
+      logError("getVehicleReviewStats", error);
+      throw createUserError("getVehicleReviewStats");
+    }
+  },
+
+  /**
+   * Submit a review for a completed booking. The database verifies the
+   * booking and holds the review as pending until it is moderated.
+   */
+  async createReview(userId: string, input: CreateReviewInput): Promise<Review> {
+    try {
+      const user = await getSessionUser();
+      if (!user) throw createUserError("notAuthenticated");
+      if (user.id !== userId) throw createUserError("unauthorized");
+
+      const validated = createReviewSchema.parse(input);
+
+      const { data, error } = await supabase
+        .from("reviews")
+        .insert({
+          user_id: user.id,
+          vehicle_id: validated.vehicleId,
+          reservation_id: validated.reservationId,
+          rating: validated.rating,
+          comment: validated.comment || null,
+          reviewer_name: validated.reviewerName,
+        })
+        .select("*")
+        .single();
+
+      if (error) {
+        logError("createReview", error);
+        throw mapWriteError(error, "createReview");
+      }
+
+      return mapReviewFromDB(data as Record<string, unknown>);
+    } catch (error) {
+      if (isUserError(error)) throw error;
+      logError("createReview", error);
+      throw createUserError("createReview");
+    }
   },
 
-  async getVehicleReviewStats(_vehicleId: string): Promise<ReviewStats> {
-    return {
-      averageRating: null,
-      totalReviews: 0,
-      ratingDistribution: { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 },
-    };
+  /**
+   * Edit rating/comment within the edit window (resubmits for moderation)
+   */
+  async updateReview(reviewId: string, input: UpdateReviewInput): Promise<Review> {
+    try {
+      const user = await getSessionUser();
+      if (!user) throw createUserError("notAuthenticated");
+
+      const validId = uuidSchema.parse(reviewId);
+      const validated = updateReviewSchema.parse(input);
+
+      const { data, error } = await supabase
+        .from("reviews")
+        .update({
+          rating: validated.rating,
+          comment: validated.comment || null,
+        })
+        .eq("id", validId)
+        .eq("user_id", user.id)
+        .select("*")
+        .maybeSingle();
+
+      if (error) {
+        logError("updateReview", error);
+        throw mapWriteError(error, "updateReview");
+      }
+
+      if (!data) throw createUserError("reviewNotFound");
+
+      return mapReviewFromDB(data as Record<string, unknown>);
+    } catch (error) {
+      if (isUserError(error)) throw error;
+      logError("updateReview", error);
+      throw createUserError("updateReview");
+    }
   },
 
-  async createReview(
-    _userId: string,
-    _input: CreateReviewInput,
-  ): Promise<Review> {
-    throw new Error("Reviews are not configured.");
+  /**
+   * All reviews written by the current user, including pending/rejected
+   */
+  async getMyReviews(): Promise<Review[]> {
+    try {
+      const user = await getSessionUser();
+      if (!user) throw createUserError("notAuthenticated");
+
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        logError("getMyReviews", error);
+        throw createUserError("getMyReviews");
+      }
+
+      return (data || []).map((r) =>
+        mapReviewFromDB(r as Record<string, unknown>),
+      );
+    } catch (error) {
+      if (isUserError(error)) throw error;
+      logError("getMyReviews", error);
+      throw createUserError("getMyReviews");
+    }
   },
 
+  /**
+   * Whether the current user can write (or still edit) a review for a booking
+   */
+  async getBookingReviewEligibility(booking: {
+    id: string;
+    vehicleId: string;
+    status: string;
+  }): Promise<ReviewEligibility> {
+    if (booking.status !== "completed") {
+      return {
+        canReview: false,
+        canEdit: false,
+        reason: "Reviews open once your rental is completed.",
+      };
+    }
+
+    try {
+      const user = await getSessionUser();
+      if (!user) {
+        return { canReview: false, canEdit: false, reason: "Please log in." };
+      }
+
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*")
+        .eq("reservation_id", booking.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        logError("getBookingReviewEligibility", error);
+        throw createUserError("checkEligibility");
+      }
+
+      if (!data) {
+        return {
+          canReview: true,
+          reservationId: booking.id,
+          existingReview: null,
+          canEdit: false,
+        };
+      }
+
+      const existingReview = mapReviewFromDB(data as Record<string, unknown>);
+      const editableUntil = getEditableUntil(
+        existingReview,
+        await getEditWindowDays(),
+      );
+
+      return {
+        canReview: false,
+        reservationId: booking.id,
+        existingReview,
+        canEdit: new Date() <= editableUntil,
+        editableUntil,
+      };
+    } catch (error) {
+      if (isUserError(error)) throw error;
+      logError("getBookingReviewEligibility", error);
+      throw createUserError("checkEligibility");
+    }
+  },
+
+  /**
+   * Find a completed, not-yet-reviewed booking of this vehicle for the user
+   */
   async canUserReview(
-    _userId: string,
-    _vehicleId: string,
+    userId: string,
+    vehicleId: string,
   ): Promise<{ canReview: boolean; reservationId?: string }> {
-    return { canReview: false };
+    if (
+      !uuidSchema.safeParse(userId).success ||
+      !uuidSchema.safeParse(vehicleId).success
+    ) {
+      return { canReview: false };
+    }
+
+    try {
+      const [bookingsResult, reviewsResult] = await Promise.all([
+        supabase
+          .from("bookings")
+          .select("id, return_date")
+          .eq("user_id", userId)
+          .eq("vehicle_id", vehicleId)
+          .eq("status", "completed")
+          .order("return_date", { ascending: false }),
+        supabase
+          .from("reviews")
+          .select("reservation_id")
+          .eq("user_id", userId)
+          .eq("vehicle_id", vehicleId),
+      ]);
+
+      if (bookingsResult.error) throw bookingsResult.error;
+      if (reviewsResult.error) throw reviewsResult.error;
+
+      const reviewed = new Set(
+        (reviewsResult.data || []).map((r) => r.reservation_id as string),
+      );
+      const unreviewed = (bookingsResult.data || []).find(
+        (b) => !reviewed.has(b.id as string),
+      );
+
+      return unreviewed
+        ? { canReview: true, reservationId: unreviewed.id as string }
+        : { canReview: false };
+    } catch (error) {
+      logError("canUserReview", error);
+      return { canReview: false };
+    }
   },
 };
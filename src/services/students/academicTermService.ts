@@ -0,0 +1,110 @@
+import { cachedApi } from "@/config/api";
+import type {
+  AcademicTerm,
+  AcademicTermSeason,
+  VehicleTermAvailability,
+} from "@/types";
+import { z } from "zod";
+import * as Sentry from "@sentry/react";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Pickup and return time used for term rentals (business local time) */
+export const TERM_HANDOVER_TIME = "10:00";
+
+const uuidSchema = z.string().uuid("Invalid vehicle ID format");
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function logError(context: string, error: unknown): void {
+  if (import.meta.env.DEV) {
+    console.error(`[academicTermService] ${context}:`, error);
+  } else {
+    Sentry.captureException(error, {
+      tags: { service: "academicTermService", context },
+    });
+  }
+}
+
+function createUserError(context: string): Error {
+  const messages: Record<string, string> = {
+    getTerms: "Unable to load academic terms. Please try again.",
+    getVehicleTerms: "Unable to load semester dates for this vehicle.",
+  };
+  return new Error(messages[context] || "An unexpected error occurred.");
+}
+
+function mapTerm(row: {
+  id: string;
+  school_name: string;
+  season: string;
+  academic_year: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}): AcademicTerm {
+  return {
+    id: row.id,
+    schoolName: row.school_name,
+    season: row.season as AcademicTermSeason,
+    academicYear: row.academic_year,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  };
+}
+
+/**
+ * datetime-local values (pickup / return) for a term, as used by the
+ * booking date inputs
+ */
+export function getTermDateTimes(term: AcademicTerm): {
+  pickupDate: string;
+  returnDate: string;
+} {
+  return {
+    pickupDate: `${term.startDate}T${TERM_HANDOVER_TIME}`,
+    returnDate: `${term.endDate}T${TERM_HANDOVER_TIME}`,
+  };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const academicTermService = {
+  /**
+   * Upcoming academic terms across all schools, soonest first
+   */
+  async getTerms(): Promise<AcademicTerm[]> {
+    try {
+      const rows = await cachedApi.terms.list();
+      return rows.map(mapTerm);
+    } catch (error) {
+      logError("getTerms", error);
+      throw createUserError("getTerms");
+    }
+  },
+
+  /**
+   * Upcoming terms with whether the vehicle is free for the whole term
+   */
+  async getVehicleTerms(vehicleId: string): Promise<VehicleTermAvailability[]> {
+    try {
+      const id = uuidSchema.parse(vehicleId);
+      const result = await cachedApi.vehicles.terms(id);
+
+      return result.terms.map((row) => ({
+        ...mapTerm(row),
+        available: row.available,
+      }));
+    } catch (error) {
+      logError("getVehicleTerms", error);
+      throw createUserError("getVehicleTerms");
+    }
+  },
+};
+
+export default academicTermService;
@@ -0,0 +1,5 @@
+// services/students/studentRules.ts
+// Re-exports the student ID rules shared with create-checkout-session and the
+// student ID Edge Functions, so the booking modal accepts the same IDs and
+// .edu addresses the server does.
+export * from "../../../supabase/functions/_shared/studentRules.ts";
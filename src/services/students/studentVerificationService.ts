@@ -0,0 +1,324 @@
+import { supabase } from "@/config/supabase";
+import type { StudentVerification, StudentVerificationStatus } from "@/types";
+import {
+  STUDENT_ID_ALLOWED_TYPES,
+  STUDENT_ID_MAX_FILE_SIZE,
+  isEduEmail,
+} from "./studentRules";
+
+// ============================================
+// TYPES
+// ============================================
+export interface StudentIdUploadData {
+  userId: string;
+  file: File;
+  /** YYYY-MM-DD: card expiry / end of term */
+  expiresOn: string;
+  schoolName?: string;
+}
+
+export interface StudentIdUploadResult {
+  success: boolean;
+  verification?: StudentVerification;
+  error?: string;
+}
+
+export interface EduEmailResult {
+  success: boolean;
+  /** When the code expires (send) */
+  expiresAt?: string;
+  error?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BUCKET_NAME = "student-ids";
+const SIGNED_URL_TTL = 60 * 60; // 1 hour
+const OTP_FUNCTION = "student-email-otp";
+
+const VERIFICATION_COLUMNS =
+  "id, document_path, school_name, expires_on, edu_email, edu_email_verified_at, status, rejection_reason, created_at";
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[StudentVerificationService] ${message}`, data ?? "");
+  }
+}
+
+function validateFile(file: File): { valid: boolean; error?: string } {
+  if (file.size > STUDENT_ID_MAX_FILE_SIZE) {
+    return {
+      valid: false,
+      error: `File size exceeds 5MB limit. Your file is ${(
+        file.size /
+        1024 /
+        1024
+      ).toFixed(2)}MB`,
+    };
+  }
+
+  if (!STUDENT_ID_ALLOWED_TYPES.includes(file.type)) {
+    return {
+      valid: false,
+      error: "Invalid file type. Please upload a PDF, JPEG, PNG, or WebP file.",
+    };
+  }
+
+  return { valid: true };
+}
+
+function generateFileName(userId: string, originalName: string): string {
+  const extension = originalName.split(".").pop()?.toLowerCase() || "pdf";
+  const timestamp = Date.now();
+  return `${userId}/${timestamp}.${extension}`;
+}
+
+function mapVerification(row: Record<string, unknown>): StudentVerification {
+  return {
+    id: row.id as string,
+    documentPath: row.document_path as string,
+    schoolName: (row.school_name as string | null) || null,
+    expiresOn: row.expires_on as string,
+    eduEmail: (row.edu_email as string | null) || null,
+    eduEmailVerifiedAt: (row.edu_email_verified_at as string | null) || null,
+    status: row.status as StudentVerificationStatus,
+    rejectionReason: (row.rejection_reason as string | null) || null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Call student-email-otp with the user's access token
+ */
+async function invokeOtpFunction(
+  body: Record<string, unknown>
+): Promise<{ ok: boolean; data: Record<string, unknown> }> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    return { ok: false, data: { error: "Please sign in to continue." } };
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${OTP_FUNCTION}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const studentVerificationService = {
+  /**
+   * Most recent student ID the user submitted (any status), or null
+   */
+  async getCurrentVerification(
+    userId: string
+  ): Promise<StudentVerification | null> {
+    try {
+      const { data, error } = await supabase
+        .from("student_verifications")
+        .select(VERIFICATION_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        log("Failed to load verification", error);
+        return null;
+      }
+
+      return data ? mapVerification(data) : null;
+    } catch (err) {
+      log("Error loading verification", err);
+      return null;
+    }
+  },
+
+  /**
+   * Upload a student ID for review. Staff approve or reject it before pickup.
+   */
+  async uploadStudentId(
+    data: StudentIdUploadData
+  ): Promise<StudentIdUploadResult> {
+    const { userId, file, expiresOn, schoolName } = data;
+
+    log("Starting student ID upload", { fileName: file.name, expiresOn });
+
+    // Validate file
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expiresOn)) {
+      return {
+        success: false,
+        error: "Please enter the date your student ID or term ends.",
+      };
+    }
+
+    try {
+      const filePath = generateFileName(userId, file.name);
+      log("Generated file path", filePath);
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .upload(filePath, file, {
+          cacheControl: "3600",
+          upsert: false,
+        });
+
+      if (uploadError) {
+        log("Upload error", uploadError);
+        return {
+          success: false,
+          error: `Failed to upload file: ${uploadError.message}`,
+        };
+      }
+
+      const { data: row, error: insertError } = await supabase
+        .from("student_verifications")
+        .insert({
+          user_id: userId,
+          document_path: filePath,
+          school_name: schoolName?.trim() || null,
+          expires_on: expiresOn,
+        })
+        .select(VERIFICATION_COLUMNS)
+        .single();
+
+      if (insertError || !row) {
+        log("Verification insert error", insertError);
+        // Uploads can't be removed by customers; staff clean up orphans
+        return {
+          success: false,
+          error: "Failed to save your student ID. Please try again.",
+        };
+      }
+
+      log("Student ID upload completed successfully");
+      return { success: true, verification: mapVerification(row) };
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      log("Student ID upload failed", err);
+      return { success: false, error: message };
+    }
+  },
+
+  /**
+   * Get signed URL for viewing a student ID (private bucket)
+   */
+  async getStudentIdUrl(filePath: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(BUCKET_NAME)
+        .createSignedUrl(filePath, SIGNED_URL_TTL);
+
+      if (error) {
+        log("Failed to get signed URL", error);
+        return null;
+      }
+
+      return data.signedUrl;
+    } catch (err) {
+      log("Error getting student ID URL", err);
+      return null;
+    }
+  },
+
+  /**
+   * Email a one-time code to a school (.edu) address
+   */
+  async sendEduEmailCode(
+    verificationId: string,
+    email: string
+  ): Promise<EduEmailResult> {
+    if (!isEduEmail(email)) {
+      return {
+        success: false,
+        error: "Please enter your school email address (ending in .edu).",
+      };
+    }
+
+    try {
+      const { ok, data } = await invokeOtpFunction({
+        action: "send",
+        verificationId,
+        email: email.trim(),
+      });
+
+      if (!ok) {
+        log("Failed to send code", data);
+        return {
+          success: false,
+          error:
+            (data.error as string | undefined) ||
+            "Unable to send a code right now. Please try again.",
+        };
+      }
+
+      return { success: true, expiresAt: data.expiresAt as string };
+    } catch (err) {
+      log("Error sending code", err);
+      return {
+        success: false,
+        error: "Unable to send a code right now. Please try again.",
+      };
+    }
+  },
+
+  /**
+   * Confirm the school email with the code we sent
+   */
+  async verifyEduEmailCode(
+    verificationId: string,
+    code: string
+  ): Promise<EduEmailResult> {
+    try {
+      const { ok, data } = await invokeOtpFunction({
+        action: "verify",
+        verificationId,
+        code: code.trim(),
+      });
+
+      if (!ok) {
+        log("Failed to verify code", data);
+        return {
+          success: false,
+          error:
+            (data.error as string | undefined) ||
+            "Unable to verify your email right now. Please try again.",
+        };
+      }
+
+      return { success: true };
+    } catch (err) {
+      log("Error verifying code", err);
+      return {
+        success: false,
+        error: "Unable to verify your email right now. Please try again.",
+      };
+    }
+  },
+};
+
+export default studentVerificationService;
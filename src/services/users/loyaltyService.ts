@@ -0,0 +1,130 @@
+// services/users/loyaltyService.ts
+import { supabase } from "@/config/supabase";
+import type { LoyaltyStatus, LoyaltyTier } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+interface LoyaltyTierRow {
+  id: string;
+  name: string;
+  description: string | null;
+  rank: number;
+  min_completed_days: number | null;
+  min_completed_spend: string | number | null;
+  waive_additional_driver_fee: boolean;
+  free_delivery: boolean;
+  deposit_discount_percent: string | number;
+}
+
+interface LoyaltyStatusRow {
+  completed_rentals: number | null;
+  completed_days: number | null;
+  completed_spend: string | number | null;
+  tier_id: string | null;
+  next_tier_id: string | null;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[LoyaltyService] ${message}`, data ?? "");
+  }
+}
+
+function mapLoyaltyTier(row: LoyaltyTierRow): LoyaltyTier {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    rank: row.rank,
+    minCompletedDays: row.min_completed_days,
+    minCompletedSpend:
+      row.min_completed_spend === null ? null : Number(row.min_completed_spend),
+    waiveAdditionalDriverFee: row.waive_additional_driver_fee,
+    freeDelivery: row.free_delivery,
+    depositDiscountPercent: Number(row.deposit_discount_percent) || 0,
+  };
+}
+
+/** Plain-language list of what a tier gets the customer */
+export function loyaltyBenefitLabels(tier: LoyaltyTier): string[] {
+  const labels: string[] = [];
+
+  if (tier.waiveAdditionalDriverFee) labels.push("Free additional drivers");
+  if (tier.freeDelivery) labels.push("Free delivery");
+  if (tier.depositDiscountPercent > 0) {
+    labels.push(`${tier.depositDiscountPercent}% off the security deposit`);
+  }
+
+  return labels;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const loyaltyService = {
+  /**
+   * Active tiers, lowest first
+   */
+  async getTiers(): Promise<LoyaltyTier[]> {
+    try {
+      const { data, error } = await supabase
+        .from("loyalty_tiers")
+        .select(
+          "id, name, description, rank, min_completed_days, min_completed_spend, waive_additional_driver_fee, free_delivery, deposit_discount_percent"
+        )
+        .eq("is_active", true)
+        .order("rank", { ascending: true });
+
+      if (error) {
+        log("Failed to load loyalty tiers", error);
+        return [];
+      }
+
+      return (data || []).map((row) => mapLoyaltyTier(row as LoyaltyTierRow));
+    } catch (err) {
+      log("Error loading loyalty tiers", err);
+      return [];
+    }
+  },
+
+  /**
+   * The signed-in customer's completed rental history, current tier and
+   * the next one up
+   */
+  async getLoyaltyStatus(): Promise<LoyaltyStatus | null> {
+    try {
+      const [statusResult, tiers] = await Promise.all([
+        supabase.rpc("get_loyalty_status"),
+        loyaltyService.getTiers(),
+      ]);
+
+      if (statusResult.error) {
+        log("Failed to load loyalty status", statusResult.error);
+        return null;
+      }
+
+      const row = (statusResult.data as LoyaltyStatusRow[] | null)?.[0];
+      if (!row) return null;
+
+      const findTier = (id: string | null) =>
+        tiers.find((tier) => tier.id === id) || null;
+
+      return {
+        completedRentals: row.completed_rentals ?? 0,
+        completedDays: row.completed_days ?? 0,
+        completedSpend: Number(row.completed_spend) || 0,
+        tier: findTier(row.tier_id),
+        nextTier: findTier(row.next_tier_id),
+      };
+    } catch (err) {
+      log("Error loading loyalty status", err);
+      return null;
+    }
+  },
+};
+
+export default loyaltyService;
@@ -0,0 +1,191 @@
+// services/users/referralService.ts
+import { supabase } from "@/config/supabase";
+import type {
+  AccountCreditEntry,
+  AccountCreditEntryType,
+  Referral,
+  ReferralStatus,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+export interface AccountCredits {
+  balance: number;
+  /** Newest first */
+  entries: AccountCreditEntry[];
+}
+
+interface ReferralRow {
+  id: string;
+  status: string;
+  created_at: string;
+  credited_at: string | null;
+}
+
+interface AccountCreditRow {
+  id: string;
+  amount: string | number;
+  entry_type: string;
+  description: string | null;
+  booking_id: string | null;
+  created_at: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+/** Query parameter on referral landing links (`/?ref=<code>`) */
+export const REFERRAL_PARAM = "ref";
+
+const STORAGE_KEY = "referral_code";
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9]{4,20}$/;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[ReferralService] ${message}`, data ?? "");
+  }
+}
+
+function mapReferral(row: ReferralRow): Referral {
+  return {
+    id: row.id,
+    status: row.status as ReferralStatus,
+    createdAt: row.created_at,
+    creditedAt: row.credited_at,
+  };
+}
+
+function mapAccountCredit(row: AccountCreditRow): AccountCreditEntry {
+  return {
+    id: row.id,
+    amount: Number(row.amount) || 0,
+    entryType: row.entry_type as AccountCreditEntryType,
+    description: row.description,
+    bookingId: row.booking_id,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Remember the referral code from a landing link until the visitor signs
+ * up. The latest link wins.
+ */
+export function captureReferralCode(search: string): void {
+  const code = new URLSearchParams(search)
+    .get(REFERRAL_PARAM)
+    ?.trim()
+    .toUpperCase();
+  if (!code || !REFERRAL_CODE_PATTERN.test(code)) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, code);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+export function getStoredReferralCode(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function clearStoredReferralCode(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/** Landing link that credits the customer when a friend signs up */
+export function referralLink(code: string): string {
+  return `${window.location.origin}/?${REFERRAL_PARAM}=${encodeURIComponent(code)}`;
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const referralService = {
+  /**
+   * The signed-in customer's referral code, created on first use
+   */
+  async getReferralCode(): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc("get_my_referral_code");
+
+      if (error) {
+        log("Failed to load referral code", error);
+        return null;
+      }
+
+      return (data as string) || null;
+    } catch (err) {
+      log("Error loading referral code", err);
+      return null;
+    }
+  },
+
+  /**
+   * People who signed up with the customer's code, newest first
+   */
+  async getReferrals(userId: string): Promise<Referral[]> {
+    try {
+      const { data, error } = await supabase
+        .from("referrals")
+        .select("id, status, created_at, credited_at")
+        .eq("referrer_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        log("Failed to load referrals", error);
+        return [];
+      }
+
+      return (data || []).map((row) => mapReferral(row as ReferralRow));
+    } catch (err) {
+      log("Error loading referrals", err);
+      return [];
+    }
+  },
+
+  /**
+   * Credit balance and ledger. Checkout reads the balance again
+   * server-side before applying any of it.
+   */
+  async getAccountCredits(userId: string): Promise<AccountCredits> {
+    try {
+      const { data, error } = await supabase
+        .from("account_credits")
+        .select("id, amount, entry_type, description, booking_id, created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        log("Failed to load account credits", error);
+        return { balance: 0, entries: [] };
+      }
+
+      const entries = (data || []).map((row) =>
+        mapAccountCredit(row as AccountCreditRow)
+      );
+      const cents = entries.reduce(
+        (sum, entry) => sum + Math.round(entry.amount * 100),
+        0
+      );
+
+      return { balance: cents / 100, entries };
+    } catch (err) {
+      log("Error loading account credits", err);
+      return { balance: 0, entries: [] };
+    }
+  },
+};
+
+export default referralService;
@@ -0,0 +1,321 @@
+// services/users/savedDriverService.ts
+import { supabase } from "@/config/supabase";
+import { z } from "zod";
+import { DEFAULT_LICENSE_COUNTRY } from "@/services/drivers/driverEligibility";
+import type { SavedDriver, SavedDriverInput } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+/** Booking form fields a saved driver fills in */
+export type SavedDriverField = keyof Omit<
+  SavedDriverInput,
+  "isPrimary" | "licenseState"
+>;
+
+export interface SavedDriverResult {
+  success: boolean;
+  driver?: SavedDriver;
+  error?: string;
+}
+
+interface SavedDriverRow {
+  id: string;
+  is_primary: boolean;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  phone: string | null;
+  date_of_birth: string | null;
+  drivers_license: string;
+  license_country: string | null;
+  license_state: string | null;
+  license_expiry: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  updated_at: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const SAVED_DRIVER_COLUMNS =
+  "id, is_primary, first_name, last_name, email, phone, date_of_birth, drivers_license, license_country, license_state, license_expiry, street_address, city, state, zip_code, updated_at";
+
+const optionalDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format (YYYY-MM-DD)")
+  .or(z.literal(""));
+
+const savedDriverSchema = z.object({
+  isPrimary: z.boolean(),
+  firstName: z
+    .string()
+    .trim()
+    .min(1, "First name is required")
+    .max(50, "First name is too long"),
+  lastName: z
+    .string()
+    .trim()
+    .min(1, "Last name is required")
+    .max(50, "Last name is too long"),
+  email: z.string().trim().email("Invalid email").or(z.literal("")),
+  phone: z.string().trim().max(20, "Phone number is too long"),
+  dateOfBirth: optionalDate,
+  driversLicenseNumber: z
+    .string()
+    .trim()
+    .min(1, "License number is required")
+    .max(50, "License number is too long"),
+  licenseCountry: z.string().trim().max(5),
+  licenseState: z.string().trim().max(2, "Use the two-letter state code"),
+  licenseExpiry: optionalDate,
+  streetAddress: z.string().trim().max(200, "Address is too long"),
+  city: z.string().trim().max(100, "City name is too long"),
+  state: z.string().trim().max(50, "State name is too long"),
+  zipCode: z.string().trim().max(20, "ZIP code is too long"),
+});
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+function log(message: string, data?: unknown): void {
+  if (import.meta.env.DEV) {
+    console.log(`[SavedDriverService] ${message}`, data ?? "");
+  }
+}
+
+function mapSavedDriver(row: SavedDriverRow): SavedDriver {
+  return {
+    id: row.id,
+    isPrimary: row.is_primary,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    email: row.email || "",
+    phone: row.phone || "",
+    dateOfBirth: row.date_of_birth || "",
+    driversLicenseNumber: row.drivers_license,
+    licenseCountry: row.license_country || DEFAULT_LICENSE_COUNTRY,
+    licenseState: row.license_state || "",
+    licenseExpiry: row.license_expiry || "",
+    streetAddress: row.street_address || "",
+    city: row.city || "",
+    state: row.state || "",
+    zipCode: row.zip_code || "",
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Database row for a validated driver. With `keepLicenseDetails`, blank
+ * license state and expiry are left out so saving from a booking form
+ * doesn't wipe what the customer entered on their profile.
+ */
+function toRow(
+  userId: string,
+  driver: z.infer<typeof savedDriverSchema>,
+  keepLicenseDetails = false
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {
+    user_id: userId,
+    is_primary: driver.isPrimary,
+    first_name: driver.firstName,
+    last_name: driver.lastName,
+    email: driver.email.toLowerCase() || null,
+    phone: driver.phone || null,
+    date_of_birth: driver.dateOfBirth || null,
+    drivers_license: driver.driversLicenseNumber.toUpperCase(),
+    license_country: driver.licenseCountry || DEFAULT_LICENSE_COUNTRY,
+    license_state: driver.licenseState.toUpperCase() || null,
+    license_expiry: driver.licenseExpiry || null,
+    street_address: driver.streetAddress || null,
+    city: driver.city || null,
+    state: driver.state || null,
+    zip_code: driver.zipCode || null,
+  };
+
+  if (keepLicenseDetails) {
+    if (!row.license_state) delete row.license_state;
+    if (!row.license_expiry) delete row.license_expiry;
+  }
+
+  return row;
+}
+
+/**
+ * Only one saved driver per account can be the account holder
+ */
+async function clearPrimary(userId: string, exceptId?: string) {
+  let query = supabase
+    .from("saved_drivers")
+    .update({ is_primary: false })
+    .eq("user_id", userId)
+    .eq("is_primary", true);
+
+  if (exceptId) query = query.neq("id", exceptId);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * Booking form values for a saved driver. Blank values are left out so
+ * autofill doesn't wipe what the customer has already typed.
+ */
+export function savedDriverFields(
+  driver: SavedDriver
+): [SavedDriverField, string][] {
+  const fields: [SavedDriverField, string][] = [
+    ["firstName", driver.firstName],
+    ["lastName", driver.lastName],
+    ["email", driver.email],
+    ["phone", driver.phone],
+    ["dateOfBirth", driver.dateOfBirth],
+    ["driversLicenseNumber", driver.driversLicenseNumber],
+    ["licenseCountry", driver.licenseCountry],
+    ["licenseExpiry", driver.licenseExpiry],
+    ["streetAddress", driver.streetAddress],
+    ["city", driver.city],
+    ["state", driver.state],
+    ["zipCode", driver.zipCode],
+  ];
+
+  return fields.filter(([, value]) => value !== "");
+}
+
+// ============================================
+// SERVICE
+// ============================================
+export const savedDriverService = {
+  /**
+   * The account's saved drivers, account holder first
+   */
+  async getSavedDrivers(userId: string): Promise<SavedDriver[]> {
+    try {
+      const { data, error } = await supabase
+        .from("saved_drivers")
+        .select(SAVED_DRIVER_COLUMNS)
+        .eq("user_id", userId)
+        .order("is_primary", { ascending: false })
+        .order("updated_at", { ascending: false });
+
+      if (error) {
+        log("Failed to load saved drivers", error);
+        return [];
+      }
+
+      return (data || []).map((row) => mapSavedDriver(row as SavedDriverRow));
+    } catch (err) {
+      log("Error loading saved drivers", err);
+      return [];
+    }
+  },
+
+  /**
+   * Add a driver, or update one by id (editing on the profile)
+   */
+  async saveDriver(
+    userId: string,
+    driver: SavedDriverInput,
+    id?: string
+  ): Promise<SavedDriverResult> {
+    try {
+      const parsed = savedDriverSchema.safeParse(driver);
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: parsed.error.issues[0]?.message || "Invalid driver details",
+        };
+      }
+
+      if (parsed.data.isPrimary) await clearPrimary(userId, id);
+
+      const row = toRow(userId, parsed.data);
+      const { data, error } = id
+        ? await supabase
+            .from("saved_drivers")
+            .update(row)
+            .eq("id", id)
+            .eq("user_id", userId)
+            .select(SAVED_DRIVER_COLUMNS)
+            .single()
+        : await supabase
+            .from("saved_drivers")
+            .insert(row)
+            .select(SAVED_DRIVER_COLUMNS)
+            .single();
+
+      if (error) {
+        log("Failed to save driver", error);
+        return {
+          success: false,
+          error:
+            error.code === "23505"
+              ? "A saved driver already has this license number."
+              : "Unable to save this driver. Please try again.",
+        };
+      }
+
+      return { success: true, driver: mapSavedDriver(data as SavedDriverRow) };
+    } catch (err) {
+      log("Error saving driver", err);
+      return {
+        success: false,
+        error: "Unable to save this driver. Please try again.",
+      };
+    }
+  },
+
+  /**
+   * Save the drivers used on a booking, matched by license number. Drivers
+   * with incomplete details are skipped.
+   */
+  async rememberDrivers(
+    userId: string,
+    drivers: SavedDriverInput[]
+  ): Promise<void> {
+    for (const driver of drivers) {
+      const parsed = savedDriverSchema.safeParse(driver);
+      if (!parsed.success) continue;
+
+      if (parsed.data.isPrimary) {
+        await clearPrimary(userId);
+      }
+
+      const { error } = await supabase
+        .from("saved_drivers")
+        .upsert(toRow(userId, parsed.data, true), {
+          onConflict: "user_id,drivers_license",
+        });
+
+      if (error) log("Failed to remember driver", error);
+    }
+  },
+
+  /**
+   * Remove a saved driver
+   */
+  async deleteDriver(userId: string, id: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("saved_drivers")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (error) {
+        log("Failed to delete driver", error);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      log("Error deleting driver", err);
+      return false;
+    }
+  },
+};
+
+export default savedDriverService;
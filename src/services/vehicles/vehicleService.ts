@@ -1,5 +1,6 @@
 import { supabase } from "@/config/supabase";
-import { Vehicle } from "@/types";
+import { cachedApi } from "@/config/api";
+import { Vehicle, FleetAvailability, VehicleAvailabilityWindow } from "@/types";
 import { z } from "zod";
 import * as Sentry from "@sentry/react";
 
@@ -7,6 +8,9 @@ const uuidSchema = z.string().uuid("Invalid vehicle ID format");
 const categorySchema = z.string().min(1).max(50).trim();
 const searchQuerySchema = z.string().min(1).max(100).trim();
 const limitSchema = z.number().min(1).max(50);
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format");
 
 function mapVehicleFromDB(vehicle: Record<string, unknown>): Vehicle {
   const rawImage = vehicle.image;
@@ -84,6 +88,8 @@ function createUserError(context: string): Error {
     searchVehicles: "Search failed. Please try again.",
     getFeaturedVehicles: "Unable to load featured vehicles.",
     isVehicleAvailable: "Unable to check vehicle availability.",
+    getFleetAvailability: "Unable to check availability for those dates.",
+    getAvailabilityWindow: "Unable to load availability for this vehicle.",
     getCategoryPricing: "Unable to load pricing information.",
   };
   return new Error(messages[context] || "An unexpected error occurred.");
@@ -307,6 +313,46 @@ export const vehicleService = {
     }
   },
 
+  /**
+   * Availability of the whole fleet for a date range (YYYY-MM-DD).
+   * Served by cached-data, which only exposes dates, never other bookings.
+   */
+  async getFleetAvailability(
+    pickupDate: string,
+    returnDate: string,
+  ): Promise<FleetAvailability> {
+    try {
+      const pickup = dateOnlySchema.parse(pickupDate);
+      const ret = dateOnlySchema.parse(returnDate);
+
+      return await cachedApi.vehicles.availability(pickup, ret);
+    } catch (error) {
+      logError("getFleetAvailability", error);
+      throw createUserError("getFleetAvailability");
+    }
+  },
+
+  /**
+   * Booked ranges, store closures, delivery blackouts and buffer days for
+   * one vehicle between two dates (YYYY-MM-DD, inclusive)
+   */
+  async getAvailabilityWindow(
+    vehicleId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<VehicleAvailabilityWindow> {
+    try {
+      const id = uuidSchema.parse(vehicleId);
+      const start = dateOnlySchema.parse(startDate);
+      const end = dateOnlySchema.parse(endDate);
+
+      return await cachedApi.vehicles.availabilityWindow(id, start, end);
+    } catch (error) {
+      logError("getAvailabilityWindow", error);
+      throw createUserError("getAvailabilityWindow");
+    }
+  },
+
   async getVehiclesByPriceRange(
     minPrice: number,
     maxPrice: number,
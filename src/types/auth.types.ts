@@ -23,7 +23,8 @@ export interface AuthContextType {
     email: string,
     password: string,
     firstName: string,
-    lastName: string
+    lastName: string,
+    referralCode?: string | null
   ) => Promise<void>;
   logout: () => Promise<void>;
 }
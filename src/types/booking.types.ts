@@ -5,6 +5,13 @@
  * Updated to match database schema with new columns
  */
 
+import {
+  DEFAULT_EXTENSION_RULES,
+  evaluateExtensionEligibility,
+  type ExtensionRules,
+} from "@/services/extensions/extensionRules";
+import type { EarlyReturnCalculation } from "./pricing.types";
+
 // ============================================
 // DRIVER TYPES
 // ============================================
@@ -18,6 +25,8 @@ export interface PrimaryDriver {
   email: string;
   phone: string;
   driversLicense: string;
+  /** Issuing country (ISO alpha-2), "US" for older records */
+  licenseCountry: string;
   dateOfBirth: string;
   streetAddress: string;
   city: string;
@@ -32,6 +41,9 @@ export interface PrimaryDriver {
   updatedAt: Date;
 }
 
+/** Additional driver invited by email: "pending" until they add details */
+export type InviteStatus = "pending" | "submitted";
+
 export interface AdditionalDriver {
   id: string;
   bookingId: string;
@@ -41,6 +53,8 @@ export interface AdditionalDriver {
   email: string;
   phone: string;
   driversLicense: string;
+  /** Issuing country (ISO alpha-2), "US" for older records */
+  licenseCountry: string;
   dateOfBirth: string;
   streetAddress: string;
   city: string;
@@ -50,6 +64,8 @@ export interface AdditionalDriver {
   verifiedBy?: string | null;
   verifiedAt?: string | null;
   notes?: string;
+  /** Set when invited by email; details stay empty until "submitted" */
+  inviteStatus?: InviteStatus | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -76,7 +92,8 @@ export type BookingStatus =
   | "active"
   | "inspection"
   | "completed"
-  | "cancelled";
+  | "cancelled"
+  | "no_show";
 
 export type PaymentStatus =
   | "unpaid"
@@ -134,6 +151,15 @@ export interface Booking {
   rentalAmount: number;
   securityDeposit: number;
   additionalDriverFee: number;
+  /** Young driver surcharge, summed over drivers under 25 at pickup */
+  youngDriverFee: number;
+  /** Promo code used at checkout and what it took off the rental */
+  promoCode: string | null;
+  discountAmount: number;
+  /** Account credit (referral rewards) spent on the rental at checkout */
+  accountCreditApplied: number;
+  /** Fees and deposit waived by the loyalty tier (amounts above are net) */
+  loyaltySavings: number;
   totalPrice: number;
 
   // ============================================
@@ -142,6 +168,7 @@ export interface Booking {
   parentBookingId: string | null;
   extensionNumber: number;
   extensionCount: number;
+  revisionCount: number;
 
   // ============================================
   // NEW: Student Verification
@@ -151,6 +178,13 @@ export interface Booking {
   studentVerified: boolean;
   studentVerifiedBy: string | null;
   studentVerifiedAt: string | null;
+  /** Student ID backing the student price (student_verifications) */
+  studentVerificationId: string | null;
+  /** Staff rejected the ID and the booking moved to standard pricing */
+  studentRejectedAt: string | null;
+  studentRejectionReason: string | null;
+  /** Academic term of a semester rental (dates match the term) */
+  academicTermId: string | null;
 
   // ============================================
   // NEW: Insurance Tracking
@@ -171,6 +205,11 @@ export interface Booking {
   cancelledBy: string | null;
   cancellationReason: string | null;
   cancellationFeeApplied: number;
+  rentalRefundAmount: number;
+
+  // No-show (process-no-shows / mark-no-show)
+  noShowAt: string | null;
+  noShowFeeApplied: number;
 
   // ============================================
   // NEW: Config Snapshot
@@ -217,6 +256,12 @@ export interface Booking {
   returnMileage: number | null;
   pickupPhotos: PickupPhotos | null;
 
+  // Overdue tracking (process-overdue-rentals / schedule-return)
+  isOverdue: boolean;
+  overdueSince: string | null;
+  overdueEscalatedAt: string | null;
+  scheduledReturnAt: string | null;
+
   // Admin fields
   adminNotes: string;
 
@@ -226,6 +271,8 @@ export interface Booking {
   securityDepositReturned: boolean;
   securityDepositReturnDate: string | null;
   deductionReason: string;
+  /** Staff paused the automatic release (process-deposit-releases) */
+  depositHold: boolean;
 
   // Stripe fields
   stripeSessionId?: string | null;
@@ -280,6 +327,323 @@ export interface CreateExtensionInput {
   rentalAmount: number;
 }
 
+// ============================================
+// CANCELLATION
+// ============================================
+
+/**
+ * Refund breakdown returned by the cancel-booking Edge Function.
+ * The same shape is returned for a preview and for the actual cancellation.
+ */
+export interface CancellationPreview {
+  paid: boolean;
+  rentCharged: number;
+  cancellationFee: number;
+  rentRefund: number;
+  depositRefund: number;
+  totalRefund: number;
+  hoursUntilPickup: number;
+  cutoffHours: number;
+}
+
+export interface CancellationResult extends CancellationPreview {
+  cancelledAt: string;
+  refundIds: string[];
+}
+
+// ============================================
+// MODIFICATION
+// ============================================
+
+export interface ModificationDriverInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  dateOfBirth: string;
+  driversLicenseNumber: string;
+  licenseCountry?: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  /** Invited by email: only the name and email are sent */
+  invite?: boolean;
+}
+
+export interface ModifyBookingInput {
+  pickupDate: string;
+  returnDate: string;
+  pickupType: PickupType;
+  pickupLocation: string;
+  deliveryLocationId?: string | null;
+  deliveryTimeSlot?: string | null;
+  primaryDriver: ModificationDriverInput;
+  additionalDrivers: ModificationDriverInput[];
+}
+
+/**
+ * Re-priced booking returned by the modify-booking Edge Function.
+ * Differences are new minus current (positive = customer pays).
+ */
+export interface ModificationPreview {
+  currentTotal: number;
+  newTotal: number;
+  rentDifference: number;
+  depositDifference: number;
+  amountDue: number;
+  refundAmount: number;
+  rentalDays: number;
+  rentalType: RentalType;
+  rentalAmount: number;
+  securityDeposit: number;
+  deliveryFee: number;
+  additionalDriverFee: number;
+  youngDriverFee: number; // Surcharge for drivers under 25 on the new pickup date
+  promoCode: string | null; // Booking's promo code, if it still applies
+  promoDiscount: number; // Promo discount recalculated for the new rental
+  promoError: string | null; // Why the booking's promo code no longer applies
+  loyaltySavings: number; // Fees and deposit waived by the loyalty tier
+  cutoffHours: number;
+}
+
+export interface ModificationResult extends ModificationPreview {
+  revisionId: string;
+  applied: boolean;
+  /** Stripe checkout URL when the customer owes a difference */
+  url: string | null;
+  refundIds: string[];
+}
+
+// ============================================
+// EARLY RETURN
+// ============================================
+
+export type EarlyReturnStatus =
+  | "requested"
+  | "awaiting_payment"
+  | "completed"
+  | "cancelled";
+
+/**
+ * Early-return quote from the early-return Edge Function.
+ * `billedDays` is the days kept, at least the minimum rental length.
+ */
+export interface EarlyReturnQuote extends EarlyReturnCalculation {
+  billedDays: number;
+  returnDate: string;
+  returnTime: string | null;
+  currentReturnDate: string;
+}
+
+export interface EarlyReturnResult extends EarlyReturnQuote {
+  requestId: string;
+  status: EarlyReturnStatus;
+  /** Stripe checkout URL once staff confirm a return that costs more */
+  url: string | null;
+}
+
+export interface EarlyReturnRequest {
+  id: string;
+  bookingId: string;
+  status: EarlyReturnStatus;
+  requestedReturnDate: string;
+  returnTime: string | null;
+  refundAmount: number;
+  additionalCharge: number;
+  earlyReturnFee: number;
+  checkoutUrl: string | null;
+  createdAt: string;
+  confirmedAt: string | null;
+  completedAt: string | null;
+}
+
+// ============================================
+// MONTHLY RENTAL NOTICES
+// ============================================
+
+export type MonthlyNoticeStatus =
+  | "pending"
+  | "continuing"
+  | "renewed"
+  | "returning"
+  | "fined"
+  | "cancelled";
+
+export type MonthlyNoticeResponse = "continue" | "return";
+
+/**
+ * "Are you continuing?" notice sent before a monthly period ends.
+ * `renewalAmount` is a live quote while pending, then the amount charged.
+ */
+export interface MonthlyNotice {
+  id: string;
+  bookingId: string | null;
+  bookingNumber: string | null;
+  vehicleName: string | null;
+  status: MonthlyNoticeStatus;
+  periodEnd: string;
+  replyDeadline: string;
+  /** 'system' when nobody replied before the deadline */
+  responseSource: "email" | "portal" | "system" | null;
+  respondedAt: string | null;
+  canContinue: boolean;
+  canReturn: boolean;
+  renewalDays: number | null;
+  renewalAmount: number | null;
+  checkoutUrl: string | null;
+  fineAmount: number;
+}
+
+export interface MonthlyNoticeResult extends MonthlyNotice {
+  /** Renewal checkout URL after choosing to continue */
+  url: string | null;
+}
+
+// ============================================
+// BOOKING CHARGES
+// ============================================
+
+/** Fees charged against a booking after checkout (booking_charges) */
+export type BookingChargeType =
+  | "insurance_late_fee"
+  | "overdue_rental"
+  | "student_price_adjustment"
+  | "young_driver_fee";
+
+export interface BookingChargeSummary {
+  /** Total charged, excluding waived charges */
+  total: number;
+  /** Number of charges (one per day for daily fees) */
+  count: number;
+}
+
+/** Unpaid one-off charge the customer can pay online */
+export interface OutstandingBookingCharge {
+  id: string;
+  chargeType: BookingChargeType;
+  amount: number;
+  description: string | null;
+  /** Stripe pay link (null once expired; unpaid charges come out of the deposit) */
+  checkoutUrl: string | null;
+  createdAt: string;
+}
+
+// ============================================
+// DEPOSIT STATEMENT
+// ============================================
+
+export type DepositDeductionCategory =
+  | "damage"
+  | "cleaning"
+  | "fuel"
+  | "late_fee"
+  | "overdue"
+  | "monthly_fine"
+  | "other";
+
+/** Itemized deduction from the security deposit (booking_deposit_deductions) */
+export interface DepositDeduction {
+  id: string;
+  category: DepositDeductionCategory;
+  description: string;
+  amount: number;
+  /** Signed URLs for the evidence photos (private bucket) */
+  photoUrls: string[];
+  createdAt: string;
+}
+
+export interface DepositRefund {
+  id: string;
+  amount: number;
+  reason: string;
+  status: "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+  createdAt: string;
+}
+
+export interface DepositStatement {
+  deductions: DepositDeduction[];
+  refunds: DepositRefund[];
+}
+
+// ============================================
+// IDENTITY VERIFICATION
+// ============================================
+
+export type IdentityVerificationStatus =
+  | "not_started"
+  | "pending"
+  | "processing"
+  | "verified"
+  | "failed"
+  | "canceled";
+
+/** Where one driver stands with Stripe Identity (ID + selfie) */
+export interface DriverIdentityVerification {
+  driverType: "primary" | "additional";
+  driverId: string;
+  firstName: string;
+  lastName: string;
+  status: IdentityVerificationStatus;
+  /** Verified on an earlier rental, nothing to do for this one */
+  previouslyVerified: boolean;
+  /** Why the last attempt failed, if it did */
+  errorReason: string | null;
+  verifiedAt: string | null;
+  /** Invited additional drivers only */
+  inviteStatus: InviteStatus | null;
+}
+
+export interface BookingIdentityVerification {
+  /** False once the rental has started or ended */
+  canVerify: boolean;
+  drivers: DriverIdentityVerification[];
+}
+
+// ============================================
+// DRIVER INVITES
+// ============================================
+
+/** Details an invited driver fills in on /driver-invite */
+export interface DriverInviteDetails {
+  phone: string;
+  /** YYYY-MM-DD */
+  dateOfBirth: string;
+  driversLicenseNumber: string;
+  /** Issuing country (ISO alpha-2) */
+  licenseCountry: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+/** An invite as the invited driver sees it (authorized by the link token) */
+export interface DriverInvite {
+  firstName: string;
+  lastName: string;
+  email: string;
+  inviteStatus: InviteStatus | null;
+  termsAcceptedAt: string | null;
+  /** False once the rental starts or the driver's ID is verified */
+  canEdit: boolean;
+  details: DriverInviteDetails;
+  verification: {
+    status: IdentityVerificationStatus;
+    previouslyVerified: boolean;
+    errorReason: string | null;
+  };
+  /** Young driver surcharge added for this driver, collected at pickup */
+  youngDriverFee: number;
+  booking: {
+    bookingNumber: string | null;
+    vehicleName: string | null;
+    pickupDate: string;
+    returnDate: string;
+    accountHolderName: string;
+  };
+}
+
 // ============================================
 // TYPE GUARDS
 // ============================================
@@ -296,31 +660,42 @@ export const isCancellableBooking = (booking: Booking): boolean => {
   return booking.status === "pending" || booking.status === "confirmed";
 };
 
+export const canReturnEarly = (booking: Booking): boolean => {
+  return (
+    booking.status === "active" &&
+    booking.paymentStatus === "paid" &&
+    booking.rentalType !== "semester"
+  );
+};
+
+export const isModifiableBooking = (booking: Booking): boolean => {
+  return (
+    (booking.status === "pending" || booking.status === "confirmed") &&
+    booking.paymentStatus === "paid"
+  );
+};
+
 export const isCompletedBooking = (booking: Booking): boolean => {
-  return booking.status === "completed" || booking.status === "cancelled";
+  return (
+    booking.status === "completed" ||
+    booking.status === "cancelled" ||
+    booking.status === "no_show"
+  );
 };
 
 export const isExtension = (booking: Booking): boolean => {
   return booking.parentBookingId !== null && booking.extensionNumber > 0;
 };
 
-export const canExtend = (booking: Booking, daysRemaining: number): boolean => {
-  // Only monthly+ rentals can extend
-  if (booking.rentalType === "weekly") return false;
-
-  // Semester rentals cannot extend
-  if (booking.rentalType === "semester") return false;
-
-  // Must be active
-  if (booking.status !== "active") return false;
-
-  // Max 5 extensions
-  if (booking.extensionCount >= 5) return false;
-
-  // Must have more than 5 days remaining (cutoff)
-  if (daysRemaining <= 5) return false;
-
-  return true;
+/**
+ * Delegates to the shared extension rules (same engine as extend-booking).
+ * Pass config-derived rules where available; defaults mirror system_config.
+ */
+export const canExtend = (
+  booking: Booking,
+  rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+): boolean => {
+  return evaluateExtensionEligibility(booking, rules).eligible;
 };
 
 export const needsInsurance = (booking: Booking): boolean => {
@@ -74,4 +74,39 @@ export interface DeliveryTimeSlot {
   time: string; // HH:MM format
   label: string; // Display label like "10:00 AM"
   available: boolean;
+  capacity: number; // Deliveries the slot can take
+  remaining: number; // Deliveries left before the slot is full
+  reason?: string; // Why the slot is unavailable
+}
+
+// ============================================
+// DELIVERY SLOTS FOR A DATE
+// ============================================
+
+export interface DeliverySlotAvailability {
+  locationId: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  deliveryAvailable: boolean;
+  reason: string | null; // Why no slot can be booked on this date
+  slots: DeliveryTimeSlot[];
+}
+
+// ============================================
+// ACADEMIC TERM (semester rentals)
+// ============================================
+
+export type AcademicTermSeason = "fall" | "spring" | "summer";
+
+export interface AcademicTerm {
+  id: string;
+  schoolName: string;
+  season: AcademicTermSeason;
+  academicYear: number;
+  name: string; // Display name like "Fall 2026"
+  startDate: string; // ISO date string (YYYY-MM-DD) - pickup day
+  endDate: string; // ISO date string (YYYY-MM-DD) - return day
+}
+
+export interface VehicleTermAvailability extends AcademicTerm {
+  available: boolean; // Vehicle is free for the whole term
 }
@@ -80,10 +80,12 @@ export type ConfigKey =
   | "insurance_grace_period_hours"
   // Overdue
   | "overdue_escalation_days"
+  | "overdue_reminder_days"
   // Delivery
   | "delivery_wait_minutes"
   | "delivery_first_slot_offset_hours"
   | "delivery_slot_interval_hours"
+  | "delivery_slot_capacity"
   // Extensions
   | "extension_min_rental_days"
   | "extension_min_duration_days"
@@ -94,17 +96,21 @@ export type ConfigKey =
   | "max_additional_drivers"
   | "us_license_only"
   | "young_driver_fee_enabled"
+  | "young_driver_fee_under_21"
+  | "young_driver_fee_under_25"
   | "first_booking_verification_only"
   // Payment
   | "cash_advance_booking_allowed"
   | "cash_delivery_allowed"
+  | "referral_credit_amount"
   // Store Hours
   | "store_hours_weekday_open"
   | "store_hours_weekday_close"
   | "store_hours_sunday_open"
   | "store_hours_sunday_close"
   // System
-  | "booking_id_prefix";
+  | "booking_id_prefix"
+  | "review_edit_window_days";
 
 // ============================================
 // PARSED CONFIG MAP
@@ -138,13 +144,15 @@ export interface ParsedConfigMap {
   insurance_deadline_hours: number;
   insurance_grace_period_hours: number;
 
-  // Overdue (integer)
+  // Overdue (integer, comma-separated days)
   overdue_escalation_days: number;
+  overdue_reminder_days: string;
 
   // Delivery (integer)
   delivery_wait_minutes: number;
   delivery_first_slot_offset_hours: number;
   delivery_slot_interval_hours: number;
+  delivery_slot_capacity: number;
 
   // Extensions (integer)
   extension_min_rental_days: number;
@@ -152,16 +160,19 @@ export interface ParsedConfigMap {
   extension_cutoff_days: number;
   max_extensions: number;
 
-  // Drivers (integer/boolean)
+  // Drivers (integer/boolean/decimal)
   min_driver_age: number;
   max_additional_drivers: number;
   us_license_only: boolean;
   young_driver_fee_enabled: boolean;
+  young_driver_fee_under_21: number;
+  young_driver_fee_under_25: number;
   first_booking_verification_only: boolean;
 
-  // Payment (boolean)
+  // Payment (boolean/decimal)
   cash_advance_booking_allowed: boolean;
   cash_delivery_allowed: boolean;
+  referral_credit_amount: number;
 
   // Store Hours (string - time format)
   store_hours_weekday_open: string;
@@ -169,8 +180,9 @@ export interface ParsedConfigMap {
   store_hours_sunday_open: string;
   store_hours_sunday_close: string;
 
-  // System (string)
+  // System (string/integer)
   booking_id_prefix: string;
+  review_edit_window_days: number;
 }
 
 // ============================================
@@ -31,7 +31,20 @@ export * from "./review.types";
 // ============================================
 
 // User types
-export type { User, UserProfile } from "./user.types";
+export type {
+  User,
+  UserProfile,
+  StudentVerification,
+  StudentVerificationStatus,
+  SavedDriver,
+  SavedDriverInput,
+  Referral,
+  ReferralStatus,
+  AccountCreditEntry,
+  AccountCreditEntryType,
+  LoyaltyTier,
+  LoyaltyStatus,
+} from "./user.types";
 
 // Auth types
 export type {
@@ -47,6 +60,11 @@ export type {
   VehicleCategory,
   VehicleInspection,
   VehicleMaintenance,
+  VehicleAvailability,
+  FleetAvailability,
+  AvailabilityRange,
+  ClosedDate,
+  VehicleAvailabilityWindow,
 } from "./vehicle.types";
 
 // Booking types
@@ -62,6 +80,33 @@ export type {
   PricingMethod,
   CreateBookingInput,
   CreateExtensionInput,
+  CancellationPreview,
+  CancellationResult,
+  ModificationDriverInput,
+  ModifyBookingInput,
+  ModificationPreview,
+  ModificationResult,
+  EarlyReturnStatus,
+  EarlyReturnQuote,
+  EarlyReturnResult,
+  EarlyReturnRequest,
+  MonthlyNoticeStatus,
+  MonthlyNoticeResponse,
+  MonthlyNotice,
+  MonthlyNoticeResult,
+  BookingChargeType,
+  BookingChargeSummary,
+  OutstandingBookingCharge,
+  DepositDeductionCategory,
+  DepositDeduction,
+  DepositRefund,
+  DepositStatement,
+  IdentityVerificationStatus,
+  DriverIdentityVerification,
+  BookingIdentityVerification,
+  InviteStatus,
+  DriverInviteDetails,
+  DriverInvite,
 } from "./booking.types";
 
 // Config types (NEW)
@@ -82,6 +127,10 @@ export type {
   BlockedDate,
   UnavailableDateRange,
   DeliveryTimeSlot,
+  DeliverySlotAvailability,
+  AcademicTerm,
+  AcademicTermSeason,
+  VehicleTermAvailability,
 } from "./calendar.types";
 
 // Pricing types (NEW)
@@ -92,4 +141,18 @@ export type {
   EarlyReturnCalculation,
   PricingBreakdown,
   PricingBreakdownLine,
+  YoungDriverTier,
+  YoungDriverFeeLine,
+  PromoDiscount,
+  LoyaltyBenefits,
 } from "./pricing.types";
+
+// Review types
+export type {
+  Review,
+  ReviewStats,
+  ReviewModerationStatus,
+  ReviewEligibility,
+  CreateReviewInput,
+  UpdateReviewInput,
+} from "./review.types";
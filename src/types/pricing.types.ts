@@ -41,6 +41,36 @@ export interface PricingResult {
 // BOOKING TOTAL (with all fees)
 // ============================================
 
+export type YoungDriverTier = "under_21" | "under_25";
+
+/** One driver's young driver surcharge */
+export interface YoungDriverFeeLine {
+  driverLabel: string; // "Primary driver", "Additional driver 1"
+  tier: YoungDriverTier;
+  age: number; // on the pickup date
+  amount: number;
+}
+
+/** A promo code checked against the rental (from apply_promo_code) */
+export interface PromoDiscount {
+  promoCodeId: string;
+  code: string;
+  description: string | null;
+  discountType: "percentage" | "fixed";
+  discountValue: number; // percent off, or dollars off
+  amount: number; // dollars off the rental amount
+}
+
+/** Loyalty tier benefits on the fees and deposit (calculate_loyalty_benefits) */
+export interface LoyaltyBenefits {
+  tierId: string;
+  tierName: string;
+  deliveryFeeWaived: number;
+  additionalDriverFeeWaived: number;
+  depositDiscount: number;
+  totalSavings: number;
+}
+
 export interface BookingTotal {
   rentalDays: number;
   rentalType: RentalType;
@@ -58,8 +88,27 @@ export interface BookingTotal {
   additionalDriverFee: number;
 
   // Totals
-  subtotal: number; // rentalAmount + deliveryFee + driverFee
+  subtotal: number; // rentalAmount + fees - discountAmount - accountCreditApplied
   totalDueNow: number; // subtotal + securityDeposit
+
+  // Young driver surcharge (added client-side from the eligibility rules)
+  youngDriverFee?: number;
+  youngDriverFees?: YoungDriverFeeLine[];
+
+  // Promo code (rental amount only; checkout re-checks it server-side)
+  discountAmount?: number;
+  promo?: PromoDiscount;
+
+  // Account credit (rental left after the promo; checkout re-reads the balance)
+  accountCreditApplied?: number;
+
+  // Loyalty tier (fees and deposit above are already net of it)
+  loyalty?: LoyaltyBenefits;
+
+  // Academic term (semester rentals priced by calculate_term_price)
+  academicTermId?: string;
+  termName?: string;
+  semesterRate?: number;
 }
 
 // ============================================
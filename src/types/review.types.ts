@@ -2,6 +2,8 @@
  * Review-related type definitions
  */
 
+export type ReviewModerationStatus = "pending" | "approved" | "rejected";
+
 export interface Review {
   id: string;
   vehicleId: string;
@@ -11,6 +13,9 @@ export interface Review {
   comment?: string | null;
   reviewerName: string;
   isVerified: boolean;
+  moderationStatus: ReviewModerationStatus;
+  moderationNote?: string | null;
+  editedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,8 +34,22 @@ export interface ReviewStats {
 
 export interface CreateReviewInput {
   vehicleId: string;
-  reservationId?: string;
+  reservationId: string;
   rating: number;
   comment?: string;
   reviewerName: string;
 }
+
+export interface UpdateReviewInput {
+  rating: number;
+  comment?: string;
+}
+
+export interface ReviewEligibility {
+  canReview: boolean;
+  reservationId?: string;
+  existingReview?: Review | null;
+  canEdit: boolean;
+  editableUntil?: Date | null;
+  reason?: string;
+}
@@ -19,4 +19,101 @@ export interface UserProfile {
   email?: string;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+export type StudentVerificationStatus = "pending" | "approved" | "rejected";
+
+/** Student ID on file for student pricing (student_verifications) */
+export interface StudentVerification {
+  id: string;
+  /** Path in the private 'student-ids' bucket */
+  documentPath: string;
+  schoolName: string | null;
+  /** YYYY-MM-DD: card expiry / end of term */
+  expiresOn: string;
+  eduEmail: string | null;
+  eduEmailVerifiedAt: string | null;
+  status: StudentVerificationStatus;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+/** Driver in the account's address book (saved_drivers) */
+export interface SavedDriver {
+  id: string;
+  /** The account holder themselves (at most one per account) */
+  isPrimary: boolean;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  /** YYYY-MM-DD */
+  dateOfBirth: string;
+  driversLicenseNumber: string;
+  /** Issuing country (ISO alpha-2) */
+  licenseCountry: string;
+  /** Issuing state (two letters) for U.S. licenses */
+  licenseState: string;
+  /** YYYY-MM-DD, empty when unknown */
+  licenseExpiry: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  updatedAt: string;
+}
+
+export type SavedDriverInput = Omit<SavedDriver, "id" | "updatedAt">;
+
+export type ReferralStatus = "pending" | "credited";
+
+/** Someone who signed up with the customer's referral code (referrals) */
+export interface Referral {
+  id: string;
+  status: ReferralStatus;
+  createdAt: string;
+  creditedAt: string | null;
+}
+
+export type AccountCreditEntryType =
+  | "referral_reward"
+  | "booking_applied"
+  | "booking_restored"
+  | "adjustment";
+
+/** One row of the account credit ledger (account_credits) */
+export interface AccountCreditEntry {
+  id: string;
+  /** Positive adds credit, negative spends it */
+  amount: number;
+  entryType: AccountCreditEntryType;
+  description: string | null;
+  bookingId: string | null;
+  createdAt: string;
+}
+
+/** A loyalty tier reached through completed rentals (loyalty_tiers) */
+export interface LoyaltyTier {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Higher ranks outrank lower ones */
+  rank: number;
+  /** Either threshold reaches the tier; null means it doesn't count */
+  minCompletedDays: number | null;
+  minCompletedSpend: number | null;
+  waiveAdditionalDriverFee: boolean;
+  freeDelivery: boolean;
+  /** Percent off the security deposit */
+  depositDiscountPercent: number;
+}
+
+/** The customer's completed rental history and tier (get_loyalty_status) */
+export interface LoyaltyStatus {
+  completedRentals: number;
+  completedDays: number;
+  /** Rent paid on completed bookings, net of promo codes */
+  completedSpend: number;
+  tier: LoyaltyTier | null;
+  /** Null at the top tier */
+  nextTier: LoyaltyTier | null;
+}
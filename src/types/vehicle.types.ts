@@ -96,6 +96,50 @@ export interface VehicleMaintenance {
   updatedAt: Date;
 }
 
+// Fleet date search (cached-data /vehicles/availability)
+export interface VehicleAvailability {
+  vehicleId: string;
+  available: boolean;
+  /** Next pickup date (YYYY-MM-DD) that fits the same rental length */
+  nextAvailableDate: string | null;
+}
+
+export interface FleetAvailability {
+  pickupDate: string;
+  returnDate: string;
+  /** Requested pickup/return days the business is closed */
+  closedDates: string[];
+  vehicles: VehicleAvailability[];
+}
+
+export interface AvailabilityRange {
+  /** YYYY-MM-DD, inclusive */
+  start: string;
+  /** YYYY-MM-DD, inclusive */
+  end: string;
+}
+
+export interface ClosedDate {
+  date: string;
+  reason: string;
+  type: "holiday" | "maintenance" | "closed";
+}
+
+/**
+ * Availability of one vehicle over a date window. Booked ranges are
+ * unpadded; bufferDays of turnaround apply on either side of each.
+ */
+export interface VehicleAvailabilityWindow {
+  vehicleId: string;
+  start: string;
+  end: string;
+  bufferDays: number;
+  blockedRanges: AvailabilityRange[];
+  closedDates: ClosedDate[];
+  /** Days the business is open but delivery is unavailable */
+  deliveryBlackouts: string[];
+}
+
 // Type aliases
 export type VehicleStatus = Vehicle["status"];
 export type VehicleCategory = Vehicle["category"];
@@ -0,0 +1,16 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
+import { captureReferralCode } from "@/services/users/referralService";
+
+/**
+ * Keeps the code from a referral landing link (`?ref=<code>`) for sign-up
+ */
+export const ReferralCapture: React.FC = () => {
+  const { search } = useLocation();
+
+  useEffect(() => {
+    captureReferralCode(search);
+  }, [search]);
+
+  return null;
+};
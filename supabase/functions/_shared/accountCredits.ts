@@ -0,0 +1,62 @@
+// supabase/functions/_shared/accountCredits.ts
+// Account credit (referral rewards) spent on bookings. Applied by
+// create-checkout-session, given back by stripe-webhook and cancel-booking.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// BALANCE
+// ============================================
+
+/** Sum of the customer's credit ledger */
+export async function getAccountCreditBalance(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<number> {
+  const { data, error } = await supabase.rpc("get_account_credit_balance", {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+// ============================================
+// APPLY / RESTORE
+// ============================================
+
+/**
+ * Spend credit on a booking, re-checking the balance under lock. Returns
+ * false when the balance dropped below `amount` in the meantime.
+ */
+export async function applyAccountCredit(
+  supabase: SupabaseClient,
+  credit: { userId: string; bookingId: string; amount: number },
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("apply_account_credit", {
+    p_user_id: credit.userId,
+    p_booking_id: credit.bookingId,
+    p_amount: credit.amount,
+  });
+
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Give a booking's credit back (checkout expired or booking cancelled).
+ * Safe to call more than once; returns the amount restored this time.
+ */
+export async function restoreAccountCredit(
+  supabase: SupabaseClient,
+  bookingId: string,
+  description: string,
+): Promise<number> {
+  const { data, error } = await supabase.rpc("restore_account_credit", {
+    p_booking_id: bookingId,
+    p_description: description,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
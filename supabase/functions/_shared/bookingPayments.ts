@@ -0,0 +1,104 @@
+// supabase/functions/_shared/bookingPayments.ts
+// The Stripe payments behind a booking: the original checkout plus the
+// top-up paid for each applied modification. Refunds are split across them
+// by cancel-booking, modify-booking, early-return, process-deposit-releases
+// and the no-show handlers.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type Stripe from "npm:stripe@13.10.0";
+
+// ============================================
+// TYPES
+// ============================================
+export interface BookingPayment {
+  paymentIntentId: string;
+  /** Received on the payment less anything already refunded from it */
+  refundableCents: number;
+}
+
+export interface RefundAllocation {
+  paymentIntentId: string;
+  cents: number;
+}
+
+// ============================================
+// PAYMENTS
+// ============================================
+
+/**
+ * Every payment intent paid towards the booking, oldest first, with what
+ * can still be refunded from each
+ */
+export async function getBookingPayments(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: { id: string; stripe_payment_intent_id: string | null },
+): Promise<BookingPayment[]> {
+  const { data: revisions, error } = await supabase
+    .from("booking_revisions")
+    .select("stripe_payment_intent_id")
+    .eq("booking_id", booking.id)
+    .eq("status", "applied")
+    .not("stripe_payment_intent_id", "is", null)
+    .order("revision_number", { ascending: true });
+
+  if (error) throw error;
+
+  const paymentIntentIds = [
+    booking.stripe_payment_intent_id,
+    ...(revisions || []).map((revision) => revision.stripe_payment_intent_id),
+  ].filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+
+  const payments: BookingPayment[] = [];
+  for (const paymentIntentId of paymentIntentIds) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(
+      paymentIntentId,
+      { expand: ["latest_charge"] },
+    );
+    const latestCharge = paymentIntent.latest_charge as Stripe.Charge | null;
+
+    payments.push({
+      paymentIntentId,
+      refundableCents: Math.max(
+        paymentIntent.amount_received - (latestCharge?.amount_refunded || 0),
+        0,
+      ),
+    });
+  }
+
+  return payments;
+}
+
+export function refundableTotal(payments: BookingPayment[]): number {
+  return payments.reduce((sum, payment) => sum + payment.refundableCents, 0);
+}
+
+// ============================================
+// ALLOCATION
+// ============================================
+
+/**
+ * Split a refund across the payments, newest first. Balances are consumed
+ * in place, so the rent and deposit portions of one refund can be allocated
+ * one after the other. Check `refundableTotal` first; any amount beyond it
+ * is left unallocated.
+ */
+export function allocateRefund(
+  payments: BookingPayment[],
+  cents: number,
+): RefundAllocation[] {
+  const allocations: RefundAllocation[] = [];
+  let remaining = cents;
+
+  for (let i = payments.length - 1; i >= 0 && remaining > 0; i--) {
+    const payment = payments[i];
+    const amount = Math.min(payment.refundableCents, remaining);
+    if (amount <= 0) continue;
+
+    payment.refundableCents -= amount;
+    remaining -= amount;
+    allocations.push({ paymentIntentId: payment.paymentIntentId, cents: amount });
+  }
+
+  return allocations;
+}
@@ -0,0 +1,446 @@
+// supabase/functions/_shared/bookingRevisions.ts
+// Booking modification revisions shared by the modify-booking Edge Function
+// (immediate changes and refunds) and stripe-webhook (paid changes).
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { sendPendingDriverInvites } from "./driverInvites.ts";
+import { updatePromoRedemption } from "./promoCodes.ts";
+import {
+  convertVehicleHold,
+  isVehicleAvailable,
+  releaseVehicleHold,
+} from "./vehicleHolds.ts";
+
+// ============================================
+// TYPES
+// ============================================
+export interface DriverSnapshot {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  drivers_license: string;
+  /** Missing on snapshots taken before license countries were recorded */
+  license_country?: string;
+  date_of_birth: string;
+  street_address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  /** Invited driver yet to add their own details (those stay empty) */
+  invite?: boolean;
+}
+
+/**
+ * Booking columns a modification may change, plus the drivers.
+ * Previous snapshots also carry the rates' config_snapshot for auditing.
+ */
+export interface BookingRevisionValues {
+  pickup_date: string;
+  return_date: string;
+  pickup_type: string;
+  pickup_location: string;
+  delivery_location_id: string | null;
+  delivery_fee: number;
+  delivery_time_slot: string | null;
+  rental_type: string;
+  rental_days: number;
+  pricing_method: string;
+  daily_rate: number;
+  weekly_rate: number;
+  monthly_rate: number;
+  rental_amount: number;
+  security_deposit: number;
+  additional_driver_fee: number;
+  young_driver_fee: number;
+  promo_code_id: string | null;
+  promo_code: string | null;
+  discount_amount: number;
+  loyalty_tier_id: string | null;
+  loyalty_savings: number;
+  total_price: number;
+  config_snapshot?: Record<string, string> | null;
+  primary_driver: DriverSnapshot | null;
+  additional_drivers: DriverSnapshot[];
+}
+
+export interface ApplyRevisionResult {
+  applied: boolean;
+  reason?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const MODIFIABLE_STATUSES = ["pending", "confirmed"];
+
+const BOOKING_COLUMNS = [
+  "pickup_date",
+  "return_date",
+  "pickup_type",
+  "pickup_location",
+  "delivery_location_id",
+  "delivery_fee",
+  "delivery_time_slot",
+  "rental_type",
+  "rental_days",
+  "pricing_method",
+  "daily_rate",
+  "weekly_rate",
+  "monthly_rate",
+  "rental_amount",
+  "security_deposit",
+  "additional_driver_fee",
+  "young_driver_fee",
+  "promo_code_id",
+  "promo_code",
+  "discount_amount",
+  "loyalty_tier_id",
+  "loyalty_savings",
+  "total_price",
+] as const;
+
+const DRIVER_COLUMNS = [
+  "first_name",
+  "last_name",
+  "email",
+  "phone",
+  "drivers_license",
+  "license_country",
+  "date_of_birth",
+  "street_address",
+  "city",
+  "state",
+  "zip_code",
+] as const;
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+function toNumber(value: unknown): number {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function toDriverSnapshot(row: Record<string, unknown>): DriverSnapshot {
+  const snapshot = Object.fromEntries(
+    DRIVER_COLUMNS.map((column) => [column, String(row[column] ?? "")]),
+  ) as unknown as DriverSnapshot;
+
+  return row.invite_status === "pending"
+    ? { ...snapshot, invite: true }
+    : snapshot;
+}
+
+/**
+ * Snapshot the current state of a booking row and its drivers
+ */
+export function snapshotBooking(
+  booking: Record<string, unknown>,
+  primaryDriver: Record<string, unknown> | null,
+  additionalDrivers: Record<string, unknown>[],
+): BookingRevisionValues {
+  return {
+    pickup_date: booking.pickup_date as string,
+    return_date: booking.return_date as string,
+    pickup_type: (booking.pickup_type as string) || "store",
+    pickup_location: (booking.pickup_location as string) || "",
+    delivery_location_id: (booking.delivery_location_id as string | null) ?? null,
+    delivery_fee: toNumber(booking.delivery_fee),
+    delivery_time_slot: (booking.delivery_time_slot as string | null) ?? null,
+    rental_type: (booking.rental_type as string) || "weekly",
+    rental_days: toNumber(booking.rental_days),
+    pricing_method: (booking.pricing_method as string) || "weekly",
+    daily_rate: toNumber(booking.daily_rate),
+    weekly_rate: toNumber(booking.weekly_rate),
+    monthly_rate: toNumber(booking.monthly_rate),
+    rental_amount: toNumber(booking.rental_amount),
+    security_deposit: toNumber(booking.security_deposit),
+    additional_driver_fee: toNumber(booking.additional_driver_fee),
+    young_driver_fee: toNumber(booking.young_driver_fee),
+    promo_code_id: (booking.promo_code_id as string | null) ?? null,
+    promo_code: (booking.promo_code as string | null) ?? null,
+    discount_amount: toNumber(booking.discount_amount),
+    loyalty_tier_id: (booking.loyalty_tier_id as string | null) ?? null,
+    loyalty_savings: toNumber(booking.loyalty_savings),
+    total_price: toNumber(booking.total_price),
+    config_snapshot:
+      (booking.config_snapshot as Record<string, string> | null) ?? null,
+    primary_driver: primaryDriver ? toDriverSnapshot(primaryDriver) : null,
+    additional_drivers: additionalDrivers.map(toDriverSnapshot),
+  };
+}
+
+// ============================================
+// DRIVER SYNC
+// ============================================
+async function syncDrivers(
+  supabase: SupabaseClient,
+  bookingId: string,
+  values: BookingRevisionValues,
+): Promise<void> {
+  // Primary driver: update in place; identity changes need re-verification
+  if (values.primary_driver) {
+    const { data: current } = await supabase
+      .from("primary_drivers")
+      .select("id, drivers_license, date_of_birth")
+      .eq("booking_id", bookingId)
+      .maybeSingle();
+
+    if (current) {
+      const identityChanged =
+        current.drivers_license !== values.primary_driver.drivers_license ||
+        current.date_of_birth !== values.primary_driver.date_of_birth;
+
+      const { error } = await supabase
+        .from("primary_drivers")
+        .update({
+          ...values.primary_driver,
+          ...(identityChanged ? { is_verified: false } : {}),
+        })
+        .eq("id", current.id);
+
+      if (error) throw error;
+    }
+  }
+
+  // Additional drivers: keep rows matched by email, drop removed, add new.
+  // Invited drivers own their details, so only their name is synced.
+  const { data: existingRows, error: existingError } = await supabase
+    .from("additional_drivers")
+    .select("id, email, drivers_license, date_of_birth, invite_status")
+    .eq("booking_id", bookingId);
+
+  if (existingError) throw existingError;
+
+  const existingByEmail = new Map(
+    (existingRows || []).map((row) => [String(row.email).toLowerCase(), row]),
+  );
+  const keptIds = new Set<string>();
+  let invitedNewDriver = false;
+
+  for (const { invite, ...driver } of values.additional_drivers) {
+    const existing = existingByEmail.get(driver.email.toLowerCase());
+
+    if (existing) {
+      keptIds.add(existing.id);
+
+      if (invite) {
+        const { error } = await supabase
+          .from("additional_drivers")
+          .update({
+            first_name: driver.first_name,
+            last_name: driver.last_name,
+          })
+          .eq("id", existing.id);
+
+        if (error) throw error;
+        continue;
+      }
+
+      const identityChanged =
+        existing.drivers_license !== driver.drivers_license ||
+        existing.date_of_birth !== driver.date_of_birth;
+
+      const { error } = await supabase
+        .from("additional_drivers")
+        .update({
+          ...driver,
+          ...(identityChanged ? { is_verified: false } : {}),
+          // The renter filled in an invited driver's details themselves
+          ...(existing.invite_status === "pending"
+            ? { invite_status: null }
+            : {}),
+        })
+        .eq("id", existing.id);
+
+      if (error) throw error;
+    } else if (invite) {
+      const { error } = await supabase.from("additional_drivers").insert({
+        booking_id: bookingId,
+        user_id: null,
+        first_name: driver.first_name,
+        last_name: driver.last_name,
+        email: driver.email,
+        is_verified: false,
+        invite_status: "pending",
+        invite_token: crypto.randomUUID(),
+      });
+
+      if (error) throw error;
+      invitedNewDriver = true;
+    } else {
+      const { error } = await supabase.from("additional_drivers").insert({
+        ...driver,
+        booking_id: bookingId,
+        user_id: null,
+        is_verified: false,
+      });
+
+      if (error) throw error;
+    }
+  }
+
+  const removedIds = (existingRows || [])
+    .map((row) => row.id as string)
+    .filter((id) => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from("additional_drivers")
+      .delete()
+      .in("id", removedIds);
+
+    if (error) throw error;
+  }
+
+  if (invitedNewDriver) {
+    try {
+      await sendPendingDriverInvites(supabase, bookingId);
+    } catch (inviteError) {
+      console.error("Driver invites failed:", inviteError);
+    }
+  }
+}
+
+/** Cancel a revision that can no longer be applied and free its hold */
+async function cancelRevision(
+  supabase: SupabaseClient,
+  revisionId: string,
+  bookingId: string,
+): Promise<void> {
+  await supabase
+    .from("booking_revisions")
+    .update({ status: "cancelled" })
+    .eq("id", revisionId);
+
+  try {
+    await releaseVehicleHold(supabase, { bookingId });
+  } catch (holdError) {
+    console.error("Hold release failed:", holdError);
+  }
+}
+
+// ============================================
+// APPLY
+// ============================================
+
+/**
+ * Apply a pending revision to its booking. Idempotent: an already applied
+ * revision returns `applied: true` without writing again. The new dates are
+ * re-checked first; a revision whose dates were taken is cancelled.
+ */
+export async function applyBookingRevision(
+  supabase: SupabaseClient,
+  revisionId: string,
+  paymentIntentId: string | null = null,
+): Promise<ApplyRevisionResult> {
+  const { data: revision, error: revisionError } = await supabase
+    .from("booking_revisions")
+    .select("id, booking_id, status, new_values")
+    .eq("id", revisionId)
+    .single();
+
+  if (revisionError || !revision) {
+    return { applied: false, reason: "Revision not found" };
+  }
+
+  if (revision.status === "applied") {
+    return { applied: true };
+  }
+
+  if (revision.status !== "pending") {
+    return { applied: false, reason: `Revision is ${revision.status}` };
+  }
+
+  const { data: booking, error: bookingError } = await supabase
+    .from("bookings")
+    .select("id, vehicle_id, status, revision_count")
+    .eq("id", revision.booking_id)
+    .single();
+
+  if (bookingError || !booking) {
+    return { applied: false, reason: "Booking not found" };
+  }
+
+  if (!MODIFIABLE_STATUSES.includes(booking.status)) {
+    await cancelRevision(supabase, revisionId, booking.id);
+    return {
+      applied: false,
+      reason: `Booking is ${booking.status} and can no longer be modified`,
+    };
+  }
+
+  const values = revision.new_values as BookingRevisionValues;
+
+  // The revision's own checkout hold belongs to the booking, so only other
+  // bookings and holds count
+  const available = await isVehicleAvailable(supabase, {
+    vehicleId: booking.vehicle_id,
+    pickupDate: values.pickup_date,
+    returnDate: values.return_date,
+    excludeBookingId: booking.id,
+  });
+
+  if (!available) {
+    await cancelRevision(supabase, revisionId, booking.id);
+    return {
+      applied: false,
+      reason: "The new dates are no longer available",
+    };
+  }
+  const bookingUpdate: Record<string, unknown> = Object.fromEntries(
+    BOOKING_COLUMNS.map((column) => [column, values[column]]),
+  );
+
+  if (values.primary_driver) {
+    bookingUpdate.customer_info = JSON.stringify({
+      firstName: values.primary_driver.first_name,
+      lastName: values.primary_driver.last_name,
+      email: values.primary_driver.email,
+      phone: values.primary_driver.phone,
+    });
+  }
+
+  const { error: updateError } = await supabase
+    .from("bookings")
+    .update({
+      ...bookingUpdate,
+      revision_count: (booking.revision_count || 0) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", booking.id);
+
+  if (updateError) throw updateError;
+
+  await syncDrivers(supabase, booking.id, values);
+
+  const { error: markError } = await supabase
+    .from("booking_revisions")
+    .update({
+      status: "applied",
+      applied_at: new Date().toISOString(),
+      ...(paymentIntentId ? { stripe_payment_intent_id: paymentIntentId } : {}),
+    })
+    .eq("id", revisionId);
+
+  if (markError) throw markError;
+
+  // The code's use follows the re-checked discount
+  if (typeof values.discount_amount === "number") {
+    try {
+      await updatePromoRedemption(supabase, booking.id, values.discount_amount);
+    } catch (promoError) {
+      console.error("Promo redemption update failed:", promoError);
+    }
+  }
+
+  // The booking row now covers the new dates
+  try {
+    await convertVehicleHold(supabase, booking.id);
+  } catch (holdError) {
+    console.error("Hold conversion failed:", holdError);
+  }
+
+  return { applied: true };
+}
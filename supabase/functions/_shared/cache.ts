@@ -32,6 +32,10 @@ export const CACHE_TTL = {
   DELIVERY_LOCATIONS: 3600, // 1 hour - rarely changes
   SYSTEM_CONFIG: 3600, // 1 hour - pricing, settings
   BUSINESS_CALENDAR: 3600, // 1 hour - business hours
+  FLEET_AVAILABILITY: 60, // 1 min - date search across the fleet
+  VEHICLE_AVAILABILITY: 300, // 5 min - cleared per vehicle on booking writes
+  DELIVERY_SLOTS: 60, // 1 min - remaining capacity per delivery slot
+  ACADEMIC_TERMS: 3600, // 1 hour - cleared when staff edit terms
 
   // Workers Portal
   VEHICLE_COUNTS: 30, // 30 sec - sidebar counts
@@ -47,6 +51,7 @@ export const CACHE_PREFIX = {
   CUSTOMERS: "customers",
   CONFIG: "config",
   STATS: "stats",
+  TERMS: "terms",
 } as const;
 
 // ============================================
@@ -13,3 +13,7 @@ export function toBusinessDateString(date: Date = new Date(), timeZone: string =
 export function businessNow() {
   return DateTime.now().setZone(BUSINESS_TIMEZONE);
 }
+
+export function fromBusinessDateTime(date: string, time: string, timeZone: string = BUSINESS_TIMEZONE): string {
+  return DateTime.fromISO(`${date}T${time}`, { zone: timeZone }).toUTC().toISO();
+}
@@ -0,0 +1,391 @@
+// supabase/functions/_shared/deliverySlots.ts
+// Delivery time slots for a location and date, generated from store hours,
+// delivery config and the business calendar. Served by cached-data and
+// re-checked by create-checkout-session / modify-booking / early-return.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { businessNow, toBusinessDateString } from "./dates.ts";
+
+// ============================================
+// TYPES
+// ============================================
+export interface DeliverySlot {
+  time: string; // HH:MM
+  label: string; // "10:00 AM"
+  available: boolean;
+  capacity: number;
+  remaining: number;
+  reason?: string;
+}
+
+export interface DeliverySlotsResult {
+  locationId: string;
+  date: string;
+  deliveryAvailable: boolean;
+  reason: string | null;
+  slots: DeliverySlot[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const ACTIVE_BOOKING_STATUSES = ["pending", "confirmed", "active"];
+const CLOSED_DATE_TYPES = ["holiday", "closed", "maintenance"];
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)/;
+
+const SLOT_CONFIG_DEFAULTS: Record<string, string> = {
+  store_hours_weekday_open: "09:00",
+  store_hours_weekday_close: "19:00",
+  store_hours_sunday_open: "09:00",
+  store_hours_sunday_close: "17:00",
+  delivery_first_slot_offset_hours: "1",
+  delivery_slot_interval_hours: "3",
+  delivery_slot_capacity: "2",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function toMinutes(time: string | null | undefined): number | null {
+  const match = time ? TIME_REGEX.exec(time) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function fromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(mins).padStart(2, "0")}`;
+}
+
+export function formatSlotLabel(time: string): string {
+  const minutes = toMinutes(time) ?? 0;
+  const hours = Math.floor(minutes / 60);
+  const mins = String(minutes % 60).padStart(2, "0");
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${mins} ${suffix}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function positiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function unavailable(
+  locationId: string,
+  date: string,
+  reason: string,
+): DeliverySlotsResult {
+  return { locationId, date, deliveryAvailable: false, reason, slots: [] };
+}
+
+// ============================================
+// SLOTS
+// ============================================
+
+/**
+ * Slots for one delivery location on one business date (YYYY-MM-DD).
+ * A slot fills up once `capacity` active deliveries use it; the capacity
+ * comes from the location, falling back to `delivery_slot_capacity`.
+ */
+export async function getDeliverySlots(
+  supabase: SupabaseClient,
+  locationId: string,
+  date: string,
+  options: { excludeBookingId?: string | null } = {},
+): Promise<DeliverySlotsResult> {
+  const [configResult, calendarResult, locationResult] = await Promise.all([
+    supabase
+      .from("system_config")
+      .select("key, value")
+      .in("key", Object.keys(SLOT_CONFIG_DEFAULTS)),
+    supabase
+      .from("business_calendar")
+      .select(
+        "date_type, title, customer_note, open_time, close_time, delivery_available, custom_delivery_slots",
+      )
+      .eq("calendar_date", date)
+      .maybeSingle(),
+    supabase
+      .from("delivery_locations")
+      .select(
+        "id, is_active, delivery_window_start, delivery_window_end, delivery_slot_capacity",
+      )
+      .eq("id", locationId)
+      .maybeSingle(),
+  ]);
+
+  if (configResult.error) throw configResult.error;
+  if (calendarResult.error) throw calendarResult.error;
+  if (locationResult.error) throw locationResult.error;
+
+  const location = locationResult.data;
+  if (!location || location.is_active === false) {
+    return unavailable(
+      locationId,
+      date,
+      "This delivery location is unavailable",
+    );
+  }
+
+  const config = { ...SLOT_CONFIG_DEFAULTS };
+  for (const row of configResult.data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  // 1. Business calendar: closures and delivery blackouts
+  const calendar = calendarResult.data;
+  if (calendar) {
+    const dateType = String(calendar.date_type || "").toLowerCase();
+    const closed =
+      CLOSED_DATE_TYPES.includes(dateType) ||
+      (calendar.open_time === null && !!calendar.date_type);
+
+    if (closed) {
+      return unavailable(
+        locationId,
+        date,
+        calendar.customer_note || calendar.title || "Business Closed",
+      );
+    }
+    if (
+      calendar.delivery_available === false ||
+      dateType === "delivery_blackout"
+    ) {
+      return unavailable(
+        locationId,
+        date,
+        calendar.customer_note || "Delivery is not available on this date",
+      );
+    }
+  }
+
+  // 2. Store hours: calendar override, else weekday/Sunday config
+  const isSunday = new Date(`${date}T00:00:00Z`).getUTCDay() === 0;
+  const openMinutes =
+    toMinutes(calendar?.open_time) ??
+    toMinutes(
+      config[isSunday ? "store_hours_sunday_open" : "store_hours_weekday_open"],
+    );
+  const closeMinutes =
+    toMinutes(calendar?.close_time) ??
+    toMinutes(
+      config[
+        isSunday ? "store_hours_sunday_close" : "store_hours_weekday_close"
+      ],
+    );
+
+  if (openMinutes === null || closeMinutes === null) {
+    return unavailable(locationId, date, "Delivery hours are not set");
+  }
+
+  // 3. Slot times: custom calendar slots win over generated ones
+  let times: string[];
+  const customSlots =
+    (calendar?.custom_delivery_slots as string[] | null) || [];
+
+  if (customSlots.length > 0) {
+    times = customSlots
+      .map((slot) => toMinutes(slot))
+      .filter((minutes): minutes is number => minutes !== null)
+      .sort((a, b) => a - b)
+      .map(fromMinutes);
+  } else {
+    const offset = positiveInt(config.delivery_first_slot_offset_hours, 1) * 60;
+    const interval = positiveInt(config.delivery_slot_interval_hours, 3) * 60;
+    times = [];
+    for (
+      let minutes = openMinutes + offset;
+      minutes < closeMinutes;
+      minutes += interval
+    ) {
+      times.push(fromMinutes(minutes));
+    }
+  }
+
+  times = [...new Set(times)];
+
+  // 4. Deliveries already booked into each slot. A location with its own
+  // capacity only counts its own deliveries; otherwise capacity is shared
+  // by every location
+  const hasOwnCapacity = positiveInt(location.delivery_slot_capacity, 0) > 0;
+
+  let bookingsQuery = supabase
+    .from("bookings")
+    .select("id, pickup_date, delivery_time_slot")
+    .eq("pickup_type", "delivery")
+    .in("status", ACTIVE_BOOKING_STATUSES)
+    .in("delivery_time_slot", times.length > 0 ? times : [""])
+    .gte("pickup_date", addDays(date, -1))
+    .lt("pickup_date", addDays(date, 2));
+
+  if (hasOwnCapacity) {
+    bookingsQuery = bookingsQuery.eq("delivery_location_id", locationId);
+  }
+
+  const { data: bookings, error: bookingsError } = await bookingsQuery;
+
+  if (bookingsError) throw bookingsError;
+
+  const bookedBySlot = new Map<string, number>();
+  for (const booking of bookings || []) {
+    if (booking.id === options.excludeBookingId) continue;
+    if (toBusinessDateString(new Date(booking.pickup_date)) !== date) continue;
+    bookedBySlot.set(
+      booking.delivery_time_slot,
+      (bookedBySlot.get(booking.delivery_time_slot) || 0) + 1,
+    );
+  }
+
+  // 5. Per-location window, capacity and slots already past today
+  const capacity = positiveInt(
+    location.delivery_slot_capacity,
+    positiveInt(config.delivery_slot_capacity, 2),
+  );
+  const windowStart = toMinutes(location.delivery_window_start);
+  const windowEnd = toMinutes(location.delivery_window_end);
+  const now = businessNow();
+  const nowMinutes =
+    now.toISODate() === date ? now.hour * 60 + now.minute : null;
+
+  const slots = times.map((time): DeliverySlot => {
+    const minutes = toMinutes(time) as number;
+    const booked = bookedBySlot.get(time) || 0;
+    const remaining = Math.max(capacity - booked, 0);
+
+    let reason: string | undefined;
+    if (nowMinutes !== null && minutes <= nowMinutes) {
+      reason = "This time has passed";
+    } else if (
+      (windowStart !== null && minutes < windowStart) ||
+      (windowEnd !== null && minutes > windowEnd)
+    ) {
+      reason = "Not offered at this location";
+    } else if (remaining === 0) {
+      reason = "Fully booked";
+    }
+
+    return {
+      time,
+      label: formatSlotLabel(time),
+      available: !reason,
+      capacity,
+      remaining,
+      ...(reason ? { reason } : {}),
+    };
+  });
+
+  const anyAvailable = slots.some((slot) => slot.available);
+
+  return {
+    locationId,
+    date,
+    deliveryAvailable: anyAvailable,
+    reason: anyAvailable ? null : "No delivery times left on this date",
+    slots,
+  };
+}
+
+/**
+ * Re-check a requested slot at checkout. Returns an error message, or null
+ * when the slot can be booked.
+ */
+export async function validateDeliverySlot(
+  supabase: SupabaseClient,
+  locationId: string,
+  date: string,
+  time: string | null | undefined,
+  options: { excludeBookingId?: string | null } = {},
+): Promise<string | null> {
+  if (!time) {
+    return "Please select a delivery time";
+  }
+
+  const result = await getDeliverySlots(supabase, locationId, date, options);
+  const slot = result.slots.find((s) => s.time === time);
+
+  if (!slot) {
+    return (
+      result.reason || "Selected delivery time is not offered on this date"
+    );
+  }
+  if (!slot.available) {
+    return `Selected delivery time is unavailable: ${slot.reason}`;
+  }
+  return null;
+}
+
+/**
+ * Check a store drop-off time (HH:MM) against the business calendar and
+ * store hours. Returns an error message, or null when the store is open.
+ */
+export async function validateStoreTime(
+  supabase: SupabaseClient,
+  date: string,
+  time: string | null | undefined,
+): Promise<string | null> {
+  const minutes = toMinutes(time);
+  if (minutes === null) {
+    return "Please select a return time";
+  }
+
+  const [configResult, calendarResult] = await Promise.all([
+    supabase
+      .from("system_config")
+      .select("key, value")
+      .like("key", "store_hours_%"),
+    supabase
+      .from("business_calendar")
+      .select("date_type, title, customer_note, open_time, close_time")
+      .eq("calendar_date", date)
+      .maybeSingle(),
+  ]);
+
+  if (configResult.error) throw configResult.error;
+  if (calendarResult.error) throw calendarResult.error;
+
+  const config = { ...SLOT_CONFIG_DEFAULTS };
+  for (const row of configResult.data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  const calendar = calendarResult.data;
+  if (calendar) {
+    const dateType = String(calendar.date_type || "").toLowerCase();
+    if (
+      CLOSED_DATE_TYPES.includes(dateType) ||
+      (calendar.open_time === null && !!calendar.date_type)
+    ) {
+      return calendar.customer_note || calendar.title || "Business Closed";
+    }
+  }
+
+  const isSunday = new Date(`${date}T00:00:00Z`).getUTCDay() === 0;
+  const openMinutes =
+    toMinutes(calendar?.open_time) ??
+    toMinutes(
+      config[isSunday ? "store_hours_sunday_open" : "store_hours_weekday_open"],
+    );
+  const closeMinutes =
+    toMinutes(calendar?.close_time) ??
+    toMinutes(
+      config[
+        isSunday ? "store_hours_sunday_close" : "store_hours_weekday_close"
+      ],
+    );
+
+  if (
+    openMinutes === null ||
+    closeMinutes === null ||
+    minutes < openMinutes ||
+    minutes >= closeMinutes
+  ) {
+    return "The store is closed at the selected time";
+  }
+  return null;
+}
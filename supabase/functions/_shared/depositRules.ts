@@ -0,0 +1,173 @@
+// supabase/functions/_shared/depositRules.ts
+// Security deposit release rules shared by the customer portal
+// (src/services/bookings) and the process-deposit-releases Edge Function.
+// Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export interface DepositRules {
+  releaseBusinessDays: number; // deposit_release_business_days
+}
+
+/**
+ * - none: no deposit was taken
+ * - held: the rental hasn't ended yet
+ * - awaiting_release: returned, waiting out the release period
+ * - on_hold: staff paused the release (e.g. a damage claim under review)
+ * - processing: release date reached, refund not issued yet
+ * - released: refund issued, or the whole deposit went to deductions
+ */
+export type DepositStage =
+  | "none"
+  | "held"
+  | "awaiting_release"
+  | "on_hold"
+  | "processing"
+  | "released";
+
+export interface DepositRulesInput {
+  status: string;
+  securityDeposit: number;
+  securityDepositDeduction: number;
+  securityDepositReturned: boolean;
+  securityDepositAmountReturned: number;
+  securityDepositReturnDate: string | null;
+  depositHold: boolean;
+}
+
+export interface DepositStatus {
+  stage: DepositStage;
+  /** YYYY-MM-DD business date the refund is due (completed rentals only) */
+  releaseDate: string | null;
+  deposit: number;
+  deducted: number;
+  /** What's left to refund after deductions */
+  refundable: number;
+  returned: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Used when system_config is unreachable. Mirrors the seeded config values.
+ */
+export const DEFAULT_DEPOSIT_RULES: DepositRules = {
+  releaseBusinessDays: 7,
+};
+
+/** Rentals still holding the deposit */
+const HELD_STATUSES = ["pending", "confirmed", "active", "inspection"];
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// ============================================
+// HELPERS
+// ============================================
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build rules from a config map (parsed values or raw system_config strings)
+ */
+export function depositRulesFromConfig(
+  config: Record<string, unknown>,
+): DepositRules {
+  const parsed = Number.parseInt(
+    String(config.deposit_release_business_days ?? ""),
+    10,
+  );
+
+  return {
+    releaseBusinessDays:
+      Number.isFinite(parsed) && parsed >= 0
+        ? parsed
+        : DEFAULT_DEPOSIT_RULES.releaseBusinessDays,
+  };
+}
+
+/**
+ * Count `days` business days forward from `startDate` (YYYY-MM-DD), skipping
+ * dates the business is closed (business_calendar closures)
+ */
+export function addBusinessDays(
+  startDate: string,
+  days: number,
+  closedDates: ReadonlySet<string>,
+): string {
+  let time = new Date(`${startDate}T00:00:00Z`).getTime();
+  let remaining = days;
+
+  while (remaining > 0) {
+    time += MS_PER_DAY;
+    const date = new Date(time).toISOString().split("T")[0];
+    if (!closedDates.has(date)) remaining--;
+  }
+
+  return new Date(time).toISOString().split("T")[0];
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Business date the remaining deposit is refunded for a rental returned on
+ * `returnDay` (YYYY-MM-DD, business timezone)
+ */
+export function depositReleaseDate(
+  returnDay: string,
+  rules: DepositRules = DEFAULT_DEPOSIT_RULES,
+  closedDates: ReadonlySet<string> = new Set(),
+): string {
+  return addBusinessDays(returnDay, rules.releaseBusinessDays, closedDates);
+}
+
+/**
+ * Where a booking's deposit stands on `today` (YYYY-MM-DD, business timezone).
+ * `releaseDate` comes from depositReleaseDate once the rental is completed.
+ */
+export function evaluateDeposit(
+  booking: DepositRulesInput,
+  releaseDate: string | null,
+  today: string,
+): DepositStatus {
+  const deposit = roundCurrency(Math.max(booking.securityDeposit, 0));
+  const deducted = roundCurrency(
+    Math.min(Math.max(booking.securityDepositDeduction, 0), deposit),
+  );
+  const returned = roundCurrency(
+    Math.max(booking.securityDepositAmountReturned, 0),
+  );
+
+  const status = (stage: DepositStage): DepositStatus => ({
+    stage,
+    releaseDate: booking.status === "completed" ? releaseDate : null,
+    deposit,
+    deducted,
+    refundable: roundCurrency(deposit - deducted),
+    returned,
+  });
+
+  if (deposit <= 0) return status("none");
+
+  // Settled: refunded (cancellation, no-show or release) or fully deducted
+  if (booking.securityDepositReturned || booking.securityDepositReturnDate) {
+    return status("released");
+  }
+
+  if (HELD_STATUSES.includes(booking.status)) return status("held");
+
+  // Cancelled / no-show bookings refund the deposit when they close (above);
+  // unpaid ones never took it
+  if (booking.status !== "completed") return status("none");
+
+  if (booking.depositHold) return status("on_hold");
+
+  if (!releaseDate || today < releaseDate) return status("awaiting_release");
+
+  return status("processing");
+}
@@ -0,0 +1,280 @@
+// supabase/functions/_shared/driverEligibility.ts
+// Driver eligibility rules shared by the booking forms (src/services/drivers),
+// create-checkout-session, complete-pos-booking and modify-booking. Age is
+// judged on the pickup date; drivers under 25 may owe a flat young driver
+// surcharge.
+// Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export type YoungDriverTier = "under_21" | "under_25";
+
+export interface DriverEligibilityRules {
+  minDriverAge: number; // min_driver_age
+  maxAdditionalDrivers: number; // max_additional_drivers
+  usLicenseOnly: boolean; // us_license_only
+  youngDriverFeeEnabled: boolean; // young_driver_fee_enabled
+  youngDriverFeeUnder21: number; // young_driver_fee_under_21 (per rental)
+  youngDriverFeeUnder25: number; // young_driver_fee_under_25 (per rental)
+}
+
+export interface DriverEligibilityInput {
+  /** YYYY-MM-DD */
+  dateOfBirth: string;
+  /** ISO 3166 alpha-2 code of the issuing country; missing means US */
+  licenseCountry?: string | null;
+  /** Invited driver yet to enter their details (judged once they do) */
+  pending?: boolean;
+}
+
+export interface DriverEligibility {
+  eligible: boolean;
+  /** Why the driver can't drive this rental (empty when eligible) */
+  reasons: string[];
+  /** Age on the pickup date, null until a valid date of birth is given */
+  age: number | null;
+  tier: YoungDriverTier | null;
+  fee: number;
+}
+
+export interface DriversEligibility {
+  /** Primary driver first, then additional drivers in order */
+  drivers: DriverEligibility[];
+  eligible: boolean;
+  /** Every reason, prefixed with the driver it applies to */
+  reasons: string[];
+  /** Sum of the young driver surcharges */
+  youngDriverFee: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const DEFAULT_LICENSE_COUNTRY = "US";
+
+/** Countries offered by the booking forms; any other code is also accepted */
+export const LICENSE_COUNTRIES: { code: string; label: string }[] = [
+  { code: "US", label: "United States" },
+  { code: "CA", label: "Canada" },
+  { code: "MX", label: "Mexico" },
+  { code: "OTHER", label: "Another country" },
+];
+
+export const YOUNG_DRIVER_TIER_LABELS: Record<YoungDriverTier, string> = {
+  under_21: "Under 21",
+  under_25: "Ages 21-24",
+};
+
+/**
+ * Used when system_config is unreachable. Mirrors the seeded config values.
+ */
+export const DEFAULT_DRIVER_ELIGIBILITY_RULES: DriverEligibilityRules = {
+  minDriverAge: 18,
+  maxAdditionalDrivers: 3,
+  usLicenseOnly: true,
+  youngDriverFeeEnabled: false,
+  youngDriverFeeUnder21: 100,
+  youngDriverFeeUnder25: 50,
+};
+
+/** Reason given until a driver's date of birth is filled in */
+export const DATE_OF_BIRTH_REQUIRED_REASON = "A valid date of birth is required";
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})/;
+
+// ============================================
+// HELPERS
+// ============================================
+function parseBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return fallback;
+}
+
+function parseAmount(value: unknown, fallback: number): number {
+  const parsed =
+    typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function parseCount(value: unknown, fallback: number): number {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Build rules from a config map (parsed values or raw system_config strings)
+ */
+export function driverEligibilityRulesFromConfig(
+  config: Record<string, unknown>,
+): DriverEligibilityRules {
+  const defaults = DEFAULT_DRIVER_ELIGIBILITY_RULES;
+
+  return {
+    minDriverAge: parseCount(config.min_driver_age, defaults.minDriverAge),
+    maxAdditionalDrivers: parseCount(
+      config.max_additional_drivers,
+      defaults.maxAdditionalDrivers,
+    ),
+    usLicenseOnly: parseBoolean(config.us_license_only, defaults.usLicenseOnly),
+    youngDriverFeeEnabled: parseBoolean(
+      config.young_driver_fee_enabled,
+      defaults.youngDriverFeeEnabled,
+    ),
+    youngDriverFeeUnder21: parseAmount(
+      config.young_driver_fee_under_21,
+      defaults.youngDriverFeeUnder21,
+    ),
+    youngDriverFeeUnder25: parseAmount(
+      config.young_driver_fee_under_25,
+      defaults.youngDriverFeeUnder25,
+    ),
+  };
+}
+
+/**
+ * Whole years between a date of birth and `onDate` (both YYYY-MM-DD, any
+ * time part is ignored), or null if either date is malformed
+ */
+export function ageOnDate(dateOfBirth: string, onDate: string): number | null {
+  const birth = DATE_REGEX.exec(dateOfBirth || "");
+  const on = DATE_REGEX.exec(onDate || "");
+  if (!birth || !on) return null;
+
+  const [, birthYear, birthMonth, birthDay] = birth.map(Number);
+  const [, year, month, day] = on.map(Number);
+
+  const hadBirthday =
+    month > birthMonth || (month === birthMonth && day >= birthDay);
+  const age = year - birthYear - (hadBirthday ? 0 : 1);
+
+  return age >= 0 ? age : null;
+}
+
+/**
+ * Upper-case country code as stored on driver records, "US" when missing
+ */
+export function normalizeLicenseCountry(
+  value: string | null | undefined,
+): string {
+  const code = (value || "").trim().toUpperCase().slice(0, 5);
+  return code || DEFAULT_LICENSE_COUNTRY;
+}
+
+/**
+ * Warning when a license expires before `returnDate` (both YYYY-MM-DD, any
+ * time part is ignored), null when it's valid for the whole rental or the
+ * expiry is unknown
+ */
+export function licenseExpiryWarning(
+  licenseExpiry: string | null | undefined,
+  returnDate: string,
+): string | null {
+  const expiry = DATE_REGEX.exec(licenseExpiry || "");
+  const until = DATE_REGEX.exec(returnDate || "");
+  if (!expiry || !until) return null;
+
+  return expiry[0] < until[0]
+    ? "This license expires before the return date. Please renew it or use another driver."
+    : null;
+}
+
+/**
+ * "Primary driver" or "Additional driver 2", matching the booking forms
+ */
+export function driverLabel(index: number): string {
+  return index === 0 ? "Primary driver" : `Additional driver ${index}`;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Surcharge tier for a driver of `age`, or null when none applies
+ */
+export function youngDriverTier(age: number): YoungDriverTier | null {
+  if (age < 21) return "under_21";
+  if (age < 25) return "under_25";
+  return null;
+}
+
+/**
+ * Whether one driver may drive a rental that starts on `pickupDate`
+ * (YYYY-MM-DD), and the young driver surcharge they add
+ */
+export function evaluateDriverEligibility(
+  driver: DriverEligibilityInput,
+  pickupDate: string,
+  rules: DriverEligibilityRules = DEFAULT_DRIVER_ELIGIBILITY_RULES,
+): DriverEligibility {
+  if (driver.pending) {
+    return { eligible: true, reasons: [], age: null, tier: null, fee: 0 };
+  }
+
+  const reasons: string[] = [];
+  const age = ageOnDate(driver.dateOfBirth, pickupDate);
+
+  if (age === null) {
+    reasons.push(DATE_OF_BIRTH_REQUIRED_REASON);
+  } else if (age < rules.minDriverAge) {
+    reasons.push(
+      `Must be at least ${rules.minDriverAge} years old on the pickup date`,
+    );
+  }
+
+  const country = normalizeLicenseCountry(driver.licenseCountry);
+  if (rules.usLicenseOnly && country !== DEFAULT_LICENSE_COUNTRY) {
+    reasons.push("Only U.S. driver's licenses are accepted");
+  }
+
+  const tier =
+    age !== null && rules.youngDriverFeeEnabled ? youngDriverTier(age) : null;
+  const fee =
+    tier === "under_21"
+      ? rules.youngDriverFeeUnder21
+      : tier === "under_25"
+        ? rules.youngDriverFeeUnder25
+        : 0;
+
+  return {
+    eligible: reasons.length === 0,
+    reasons,
+    age,
+    tier,
+    fee,
+  };
+}
+
+/**
+ * Eligibility of every driver on a booking, primary first. Also enforces the
+ * additional driver limit.
+ */
+export function evaluateDriversEligibility(
+  drivers: DriverEligibilityInput[],
+  pickupDate: string,
+  rules: DriverEligibilityRules = DEFAULT_DRIVER_ELIGIBILITY_RULES,
+): DriversEligibility {
+  const results = drivers.map((driver) =>
+    evaluateDriverEligibility(driver, pickupDate, rules),
+  );
+
+  const reasons = results.flatMap((result, index) =>
+    result.reasons.map((reason) => `${driverLabel(index)}: ${reason}`),
+  );
+
+  if (drivers.length - 1 > rules.maxAdditionalDrivers) {
+    reasons.push(
+      `No more than ${rules.maxAdditionalDrivers} additional drivers are allowed`,
+    );
+  }
+
+  return {
+    drivers: results,
+    eligible: reasons.length === 0,
+    reasons,
+    youngDriverFee: results.reduce((sum, result) => sum + result.fee, 0),
+  };
+}
@@ -0,0 +1,160 @@
+// supabase/functions/_shared/driverInvites.ts
+// Additional driver invites: the account holder gives a name and email at
+// checkout and the driver adds their own license, address and ID check from
+// the emailed /driver-invite link. Used by stripe-webhook (first email once
+// the booking is paid) and driver-invite (resends).
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { sendTemplateEmail } from "./emailTemplates.ts";
+
+// ============================================
+// CONFIG
+// ============================================
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// TYPES
+// ============================================
+export type InviteStatus = "pending" | "submitted";
+
+interface InviteDriverRow {
+  id: string;
+  first_name: string;
+  email: string;
+  invite_status: InviteStatus | null;
+  invite_token: string | null;
+  bookings: {
+    id: string;
+    booking_number: string | null;
+    status: string;
+    pickup_date: string;
+    return_date: string;
+    customer_info: Record<string, string> | string | null;
+    vehicles: { name: string } | null;
+  } | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+/** Invites can be answered until the rental starts */
+export const INVITABLE_BOOKING_STATUSES = ["pending", "confirmed"];
+
+const INVITE_COLUMNS = `id, first_name, email, invite_status, invite_token,
+  bookings(id, booking_number, status, pickup_date, return_date,
+    customer_info, vehicles(name))`;
+
+// ============================================
+// HELPERS
+// ============================================
+export function driverInviteUrl(token: string): string {
+  return `${CUSTOMER_PORTAL_URL}/driver-invite?token=${token}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function accountHolderName(
+  customerInfo: Record<string, string> | string | null,
+): string {
+  const info =
+    typeof customerInfo === "string"
+      ? JSON.parse(customerInfo)
+      : customerInfo || {};
+  return (
+    `${info.firstName || ""} ${info.lastName || ""}`.trim() || "The renter"
+  );
+}
+
+// ============================================
+// SEND
+// ============================================
+
+/**
+ * Email (or re-email) the invite link to one invited additional driver.
+ * Keeps an existing token so earlier emails still work, and moves the link's
+ * expiry to the booking's current pickup time.
+ */
+export async function sendDriverInvite(
+  supabase: SupabaseClient,
+  driverId: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("additional_drivers")
+    .select(INVITE_COLUMNS)
+    .eq("id", driverId)
+    .single();
+
+  if (error) throw error;
+
+  const driver = data as unknown as InviteDriverRow;
+  const booking = driver.bookings;
+
+  if (driver.invite_status !== "pending" || !booking) {
+    throw new Error("Driver has no outstanding invite");
+  }
+
+  const token = driver.invite_token || crypto.randomUUID();
+
+  const { error: updateError } = await supabase
+    .from("additional_drivers")
+    .update({
+      invite_token: token,
+      invite_sent_at: new Date().toISOString(),
+      invite_expires_at: booking.pickup_date,
+    })
+    .eq("id", driver.id);
+
+  if (updateError) throw updateError;
+
+  await sendTemplateEmail({
+    to: driver.email,
+    subject: `Add your driver details - ${booking.vehicles?.name || "4A Rentals"}`,
+    template: "driver_invite",
+    data: {
+      customerName: driver.first_name,
+      bookingNumber: booking.booking_number || undefined,
+      vehicleName: booking.vehicles?.name,
+      pickupDate: formatDate(booking.pickup_date),
+      returnDate: formatDate(booking.return_date),
+      customMessage: `${accountHolderName(
+        booking.customer_info,
+      )} added you as an additional driver on their 4A Rentals booking.`,
+      replyDeadline: formatDate(booking.pickup_date),
+      actionUrl: driverInviteUrl(token),
+    },
+  });
+}
+
+/**
+ * Email every invited driver on a booking who hasn't been emailed yet.
+ * Failures are logged; the account holder can resend from My Bookings.
+ */
+export async function sendPendingDriverInvites(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { data: drivers, error } = await supabase
+    .from("additional_drivers")
+    .select("id")
+    .eq("booking_id", bookingId)
+    .eq("invite_status", "pending")
+    .is("invite_sent_at", null);
+
+  if (error) throw error;
+
+  for (const driver of drivers || []) {
+    try {
+      await sendDriverInvite(supabase, driver.id);
+      console.log("✅ Driver invite sent:", driver.id);
+    } catch (inviteError) {
+      console.error("❌ Driver invite failed:", driver.id, inviteError);
+    }
+  }
+}
@@ -0,0 +1,269 @@
+// supabase/functions/_shared/earlyReturn.ts
+// Early-return quote for an active booking: the shorter term re-priced with the
+// booking's frozen rates and discounts, minus the early return fee. Used by
+// early-return.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { toBusinessDateString } from "./dates.ts";
+
+// ============================================
+// TYPES
+// ============================================
+export interface EarlyReturnConfig {
+  earlyReturnFee: number;
+  monthlyThresholdDays: number;
+  minRentalDays: number;
+}
+
+/**
+ * Mirrors `EarlyReturnCalculation` in the customer portal's pricing types.
+ * `refundAmount` and `additionalCharge` are never both non-zero.
+ */
+export interface EarlyReturnQuote {
+  originalDays: number;
+  actualDays: number;
+  daysUnused: number;
+  billedDays: number;
+  originalAmount: number;
+  usedAmount: number;
+  earlyReturnFee: number;
+  refundAmount: number;
+  additionalCharge: number;
+}
+
+interface BookingRates {
+  daily_rate: number | string | null;
+  weekly_rate: number | string | null;
+  monthly_rate: number | string | null;
+}
+
+interface BookingRent {
+  rental_amount: number | string | null;
+  discount_amount?: number | string | null;
+  account_credit_applied?: number | string | null;
+}
+
+/** The booking's rent columns re-priced for the billed days */
+export interface EarlyReturnRentValues {
+  rental_amount: number;
+  discount_amount: number;
+  account_credit_applied: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 30;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  early_return_fee: "50",
+  monthly_rental_threshold_days: "30",
+  min_rental_days: "7",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function toNumber(value: unknown): number {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function positiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  const start = new Date(`${startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * Promo discount and account credit taken off the rent at checkout (capped
+ * at the rent), and the part of each kept on `billedRent`: scaled down with
+ * the rent, never above what was applied
+ */
+function rentDiscounts(
+  booking: BookingRent,
+  billedRent: number,
+): {
+  paidRent: number;
+  keptPromo: number;
+  keptCredit: number;
+} {
+  const rent = roundCurrency(toNumber(booking.rental_amount));
+  const promo = Math.min(
+    roundCurrency(Math.max(toNumber(booking.discount_amount), 0)),
+    rent,
+  );
+  const credit = Math.min(
+    roundCurrency(Math.max(toNumber(booking.account_credit_applied), 0)),
+    roundCurrency(rent - promo),
+  );
+  const share = rent > 0 ? Math.min(billedRent / rent, 1) : 0;
+
+  return {
+    paidRent: roundCurrency(rent - promo - credit),
+    keptPromo: roundCurrency(promo * share),
+    keptCredit: roundCurrency(credit * share),
+  };
+}
+
+// ============================================
+// CONFIG
+// ============================================
+export async function getEarlyReturnConfig(
+  supabase: SupabaseClient,
+): Promise<EarlyReturnConfig> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  return {
+    earlyReturnFee: Math.max(toNumber(config.early_return_fee), 0),
+    monthlyThresholdDays: positiveInt(
+      config.monthly_rental_threshold_days,
+      DAYS_PER_MONTH,
+    ),
+    minRentalDays: positiveInt(config.min_rental_days, DAYS_PER_WEEK),
+  };
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * Rent for a number of days, using the same tiers as calculate_rental_price:
+ * monthly from the threshold (months, then weeks, then days), otherwise
+ * weeks plus overflow days.
+ */
+export function priceRentalDays(
+  days: number,
+  rates: BookingRates,
+  monthlyThresholdDays: number,
+): { amount: number; pricingMethod: "weekly" | "monthly" } {
+  const dailyRate = toNumber(rates.daily_rate);
+  const weeklyRate = toNumber(rates.weekly_rate);
+  const monthlyRate = toNumber(rates.monthly_rate);
+
+  if (days >= monthlyThresholdDays) {
+    const fullMonths = Math.floor(days / DAYS_PER_MONTH);
+    const remainingDays = days % DAYS_PER_MONTH;
+    const fullWeeks = Math.floor(remainingDays / DAYS_PER_WEEK);
+    const overflowDays = remainingDays % DAYS_PER_WEEK;
+
+    return {
+      amount: roundCurrency(
+        fullMonths * monthlyRate +
+          fullWeeks * weeklyRate +
+          overflowDays * dailyRate,
+      ),
+      pricingMethod: "monthly",
+    };
+  }
+
+  const fullWeeks = Math.floor(days / DAYS_PER_WEEK);
+  const overflowDays = days % DAYS_PER_WEEK;
+
+  return {
+    amount: roundCurrency(fullWeeks * weeklyRate + overflowDays * dailyRate),
+    pricingMethod: "weekly",
+  };
+}
+
+/**
+ * Quote returning a booking on `returnDate` (business date, YYYY-MM-DD).
+ * Days kept are billed at no less than `min_rental_days`. Amounts are rent
+ * actually paid: the promo discount and account credit are scaled down with
+ * the days billed, so neither comes back as cash.
+ */
+export function calculateEarlyReturn(
+  booking: BookingRates &
+    BookingRent & {
+      pickup_date: string;
+      return_date: string;
+      rental_days: number | null;
+    },
+  returnDate: string,
+  config: EarlyReturnConfig,
+): EarlyReturnQuote {
+  const pickupDay = toBusinessDateString(new Date(booking.pickup_date));
+  const originalReturnDay = toBusinessDateString(new Date(booking.return_date));
+
+  const originalDays =
+    booking.rental_days || daysBetween(pickupDay, originalReturnDay);
+  const actualDays = Math.max(daysBetween(pickupDay, returnDate), 1);
+  const billedDays = Math.min(
+    Math.max(actualDays, config.minRentalDays),
+    originalDays,
+  );
+
+  const { amount: billedRent } = priceRentalDays(
+    billedDays,
+    booking,
+    config.monthlyThresholdDays,
+  );
+
+  const { paidRent, keptPromo, keptCredit } = rentDiscounts(
+    booking,
+    billedRent,
+  );
+  const originalAmount = paidRent;
+  const usedAmount = roundCurrency(billedRent - keptPromo - keptCredit);
+  const earlyReturnFee = roundCurrency(config.earlyReturnFee);
+  const net = roundCurrency(originalAmount - usedAmount - earlyReturnFee);
+
+  return {
+    originalDays,
+    actualDays,
+    daysUnused: Math.max(originalDays - actualDays, 0),
+    billedDays,
+    originalAmount,
+    usedAmount,
+    earlyReturnFee,
+    refundAmount: net > 0 ? net : 0,
+    additionalCharge: net < 0 ? -net : 0,
+  };
+}
+
+/**
+ * Rent columns for the booking once returned early: the billed days' rent
+ * before discounts, with the promo discount and account credit kept on it
+ * as in `calculateEarlyReturn`
+ */
+export function earlyReturnRentValues(
+  booking: BookingRates & BookingRent,
+  billedDays: number,
+  config: EarlyReturnConfig,
+): EarlyReturnRentValues {
+  const { amount: billedRent } = priceRentalDays(
+    billedDays,
+    booking,
+    config.monthlyThresholdDays,
+  );
+
+  const { keptPromo, keptCredit } = rentDiscounts(booking, billedRent);
+
+  return {
+    rental_amount: billedRent,
+    discount_amount: keptPromo,
+    account_credit_applied: keptCredit,
+  };
+}
@@ -0,0 +1,503 @@
+// supabase/functions/_shared/emailTemplates.ts
+// Pre-defined booking email templates (send-booking-email) and the Resend
+// sender used by scheduled jobs that email customers directly.
+
+// ============================================
+// CONFIG
+// ============================================
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const EMAIL_FROM = "4A Rentals <bookings@4arentals.com>";
+
+// ============================================
+// EMAIL TEMPLATES (Pre-defined, secure)
+// ============================================
+export type EmailTemplate =
+  | "booking_confirmation"
+  | "booking_reminder"
+  | "booking_cancelled"
+  | "payment_received"
+  | "extension_confirmed"
+  | "return_reminder"
+  | "monthly_notice" // System only: continue or return before period end
+  | "monthly_renewal" // System only: renewal payment link
+  | "monthly_notice_fine" // System only: no reply before the deadline
+  | "insurance_reminder" // System only: proof of insurance due / overdue
+  | "insurance_late_fee" // System only: insurance late fees accruing
+  | "overdue_reminder" // System only: vehicle not returned on time
+  | "overdue_escalation" // System only: staff alert for long-overdue rentals
+  | "booking_no_show" // System only: missed pickup, fee kept and rest refunded
+  | "deposit_released" // System only: remaining security deposit refunded
+  | "student_email_code" // System only: .edu email verification code
+  | "student_id_rejected" // System only: student ID rejected, price adjusted
+  | "driver_invite" // System only: additional driver asked to add their details
+  | "custom"; // Only for workers with specific use cases
+
+export interface EmailTemplateData {
+  customerName: string;
+  bookingNumber?: string;
+  vehicleName?: string;
+  pickupDate?: string;
+  returnDate?: string;
+  totalAmount?: string;
+  customMessage?: string;
+  replyDeadline?: string;
+  actionUrl?: string;
+  secondaryActionUrl?: string;
+}
+
+export function generateEmailHtml(
+  template: EmailTemplate,
+  data: EmailTemplateData,
+): string {
+  const {
+    customerName,
+    bookingNumber,
+    vehicleName,
+    pickupDate,
+    returnDate,
+    totalAmount,
+    customMessage,
+    replyDeadline,
+    actionUrl,
+    secondaryActionUrl,
+  } = data;
+
+  const baseStyles = `
+    <style>
+      body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+      .header { border-bottom: 3px solid #FFD700; padding-bottom: 10px; margin-bottom: 20px; }
+      .info-box { background: #f5f5f5; padding: 15px; border-radius: 8px; margin: 15px 0; }
+      .button { display: inline-block; background: #FFD700; color: #000; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold; margin: 5px 5px 5px 0; }
+      .button-secondary { background: #f5f5f5; border: 1px solid #ccc; }
+      .footer { color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 15px; }
+    </style>
+  `;
+
+  switch (template) {
+    case "booking_confirmation":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Booking Confirmed! 🎉</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your booking has been confirmed. Here are your details:</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Pickup:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
+            <p><strong>Return:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Total:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>Please bring a valid driver's license and the payment card used for booking.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "booking_reminder":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Pickup Reminder 🚗</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>This is a reminder that your vehicle pickup is coming up!</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Pickup Date:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
+          </div>
+          <p>Don't forget to bring your driver's license!</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "return_reminder":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Return Reminder ⏰</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your rental is due for return soon!</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Return Date:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+          </div>
+          <p>Need more time? You can extend your rental from your account.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "monthly_notice":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Are You Keeping Your Rental? 📅</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your current rental period ends soon. Please let us know whether you're continuing for another month or returning the vehicle.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Period Ends:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Reply By:</strong> ${sanitizeHtml(replyDeadline || "N/A")}</p>
+          </div>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Continue My Rental</a>
+            <a class="button button-secondary" href="${sanitizeHtml(secondaryActionUrl || "")}">I'm Returning the Vehicle</a>
+          </p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "monthly_renewal":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Your Next Rental Period 🔁</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your rental is continuing. Please complete the payment for the next period before your current period ends.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>New Return Date:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Amount Due:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Pay for Next Period</a>
+          </p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "monthly_notice_fine":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Notice Not Received</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>We didn't hear back about your rental in time, so a late notice fine has been applied under our monthly rental terms.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Return Date:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Fine:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "insurance_reminder":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Proof of Insurance Needed 🛡️</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>We still need proof of insurance for your rental. Please upload it from My Bookings.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Upload By:</strong> ${sanitizeHtml(replyDeadline || "N/A")}</p>
+          </div>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Upload Insurance</a>
+          </p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "insurance_late_fee":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Insurance Late Fees Applied</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>We haven't received proof of insurance for your rental, so daily late fees now apply under our rental terms. Fees stop as soon as you upload it.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Late Fees So Far:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Upload Insurance</a>
+          </p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "overdue_reminder":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Your Rental Is Overdue ⏰</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your vehicle was due back and hasn't been returned yet. Overdue days are charged at your daily rate until the vehicle is back with us.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Was Due Back:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Overdue Charges So Far:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Extend or Schedule Return</a>
+          </p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "overdue_escalation":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Overdue Rental Escalated</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>A rental is still overdue after the escalation period and needs follow-up.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Was Due Back:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Overdue Charges So Far:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+        </div>
+      `;
+
+    case "booking_no_show":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>We Missed You at Pickup</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Your booking wasn't picked up on the scheduled day, so it has been closed as a no-show and the vehicle has been released.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Pickup Was:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
+            <p><strong>No-Show Fee:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">View My Bookings</a>
+          </p>
+          <p>If you think this is a mistake, just reply to this email.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "deposit_released":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Your Security Deposit Has Been Released 💳</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Thanks for renting with us! The release period after your return has ended and your security deposit has been settled.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Returned:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+            <p><strong>Amount Refunded:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">View Deposit Statement</a>
+          </p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "student_email_code":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Verify Your School Email</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Enter this code in the booking form to confirm your school email address for student pricing:</p>
+          <div class="info-box">
+            <p style="font-size: 28px; letter-spacing: 6px; font-weight: bold; margin: 0;">${sanitizeHtml(customMessage || "")}</p>
+          </div>
+          <p>The code expires at ${sanitizeHtml(replyDeadline || "N/A")}. If you didn't ask for it, you can ignore this email.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "student_id_rejected":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>We Couldn't Verify Your Student ID</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>Our team reviewed the student ID on your booking and couldn't accept it, so your booking has been moved to our standard rates.</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Pickup Date:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
+            <p><strong>Price Difference:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
+          </div>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Pay the Difference</a>
+            <a class="button button-secondary" href="${sanitizeHtml(secondaryActionUrl || "")}">View My Bookings</a>
+          </p>
+          <p>Anything left unpaid is taken from your security deposit when it's released. If you think this is a mistake, just reply to this email.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "driver_invite":
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>You've Been Added as a Driver</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <p>${sanitizeHtml(customMessage || "")}</p>
+          <div class="info-box">
+            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
+            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
+            <p><strong>Pickup Date:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
+            <p><strong>Return Date:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
+          </div>
+          <p>Before pickup, please add your driver's license and address, accept the rental terms and verify your ID with a quick selfie.</p>
+          <p>
+            <a class="button" href="${sanitizeHtml(actionUrl || "")}">Add My Details</a>
+          </p>
+          <p>This link is personal to you and works until ${sanitizeHtml(replyDeadline || "pickup")}.</p>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    case "custom":
+      // Only allow pre-sanitized custom messages from workers
+      return `
+        ${baseStyles}
+        <div class="container">
+          <div class="header">
+            <h2>Message from 4A Rentals</h2>
+          </div>
+          <p>Hi ${sanitizeHtml(customerName)},</p>
+          <div class="info-box">
+            ${sanitizeHtml(customMessage || "").replace(/\n/g, "<br>")}
+          </div>
+          <div class="footer">
+            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
+          </div>
+        </div>
+      `;
+
+    default:
+      throw new Error("Invalid email template");
+  }
+}
+
+export function sanitizeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+// ============================================
+// SEND
+// ============================================
+
+/**
+ * Render a template and send it through Resend. Returns the message id.
+ * Throws when the email service is not configured or the send fails.
+ */
+export async function sendTemplateEmail(email: {
+  to: string;
+  subject: string;
+  template: EmailTemplate;
+  data: EmailTemplateData;
+}): Promise<string> {
+  if (!RESEND_API_KEY) {
+    throw new Error("RESEND_API_KEY not configured");
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${RESEND_API_KEY}`,
+    },
+    body: JSON.stringify({
+      from: EMAIL_FROM,
+      to: [email.to.toLowerCase()],
+      subject: sanitizeHtml(email.subject),
+      html: generateEmailHtml(email.template, email.data),
+    }),
+  });
+
+  const responseData = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error("Failed to send email:", responseData);
+    throw new Error("Failed to send email");
+  }
+
+  return responseData.id;
+}
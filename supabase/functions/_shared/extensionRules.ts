@@ -0,0 +1,229 @@
+// supabase/functions/_shared/extensionRules.ts
+// Rental extension eligibility rules shared by the customer portal
+// (src/services/extensions) and the extend-booking Edge Function.
+// Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export interface ExtensionRules {
+  maxExtensions: number; // max_extensions
+  cutoffDays: number; // extension_cutoff_days
+  minDurationDays: number; // extension_min_duration_days
+  minRentalDays: number; // extension_min_rental_days
+  maxDurationDays: number;
+}
+
+export type ExtensionReasonCode =
+  | "RENTAL_TYPE_NOT_EXTENDABLE"
+  | "SEMESTER_FIXED_DATES"
+  | "INVALID_STATUS"
+  | "RENTAL_TOO_SHORT"
+  | "MAX_EXTENSIONS_REACHED"
+  | "PAST_CUTOFF"
+  | "INVALID_DATE"
+  | "DATE_NOT_AFTER_RETURN"
+  | "EXTENSION_TOO_SHORT"
+  | "EXTENSION_TOO_LONG";
+
+export interface ExtensionReason {
+  code: ExtensionReasonCode;
+  message: string;
+}
+
+export interface ExtensionRulesInput {
+  status: string;
+  rentalType: string | null;
+  rentalDays: number | null;
+  extensionCount: number | null;
+  returnDate: string;
+}
+
+export interface ExtensionEligibilityResult {
+  eligible: boolean;
+  reasons: ExtensionReason[];
+  daysRemaining: number;
+  extensionsUsed: number;
+  maxExtensions: number;
+  minExtensionDays: number;
+  maxExtensionDays: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const EXTENDABLE_STATUSES = ["confirmed", "active"] as const;
+
+/**
+ * Used when system_config is unreachable. Mirrors the seeded config values.
+ */
+export const DEFAULT_EXTENSION_RULES: ExtensionRules = {
+  maxExtensions: 5,
+  cutoffDays: 5,
+  minDurationDays: 7,
+  minRentalDays: 30,
+  maxDurationDays: 90,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// ============================================
+// HELPERS
+// ============================================
+function toInt(value: unknown, fallback: number): number {
+  const parsed =
+    typeof value === "number" ? value : Number.parseInt(String(value), 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : fallback;
+}
+
+/**
+ * Build rules from a config map (parsed values or raw system_config strings)
+ */
+export function extensionRulesFromConfig(
+  config: Record<string, unknown>,
+): ExtensionRules {
+  return {
+    maxExtensions: toInt(
+      config.max_extensions,
+      DEFAULT_EXTENSION_RULES.maxExtensions,
+    ),
+    cutoffDays: toInt(
+      config.extension_cutoff_days,
+      DEFAULT_EXTENSION_RULES.cutoffDays,
+    ),
+    minDurationDays: toInt(
+      config.extension_min_duration_days,
+      DEFAULT_EXTENSION_RULES.minDurationDays,
+    ),
+    minRentalDays: toInt(
+      config.extension_min_rental_days,
+      DEFAULT_EXTENSION_RULES.minRentalDays,
+    ),
+    maxDurationDays: DEFAULT_EXTENSION_RULES.maxDurationDays,
+  };
+}
+
+export function getDaysRemaining(returnDate: string, now: Date = new Date()): number {
+  const diffTime = new Date(returnDate).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(diffTime / MS_PER_DAY));
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  const start = new Date(startDate.split("T")[0]);
+  const end = new Date(endDate.split("T")[0]);
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Evaluate whether a booking may be extended. Returns every failing rule,
+ * most fundamental first, so callers can show reasons[0] or all of them.
+ */
+export function evaluateExtensionEligibility(
+  booking: ExtensionRulesInput,
+  rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+  now: Date = new Date(),
+): ExtensionEligibilityResult {
+  const reasons: ExtensionReason[] = [];
+  const daysRemaining = getDaysRemaining(booking.returnDate, now);
+  const extensionsUsed = booking.extensionCount || 0;
+
+  if (booking.rentalType === "weekly") {
+    reasons.push({
+      code: "RENTAL_TYPE_NOT_EXTENDABLE",
+      message:
+        "Weekly rentals cannot be extended. Please create a new booking.",
+    });
+  } else if (booking.rentalType === "semester") {
+    reasons.push({
+      code: "SEMESTER_FIXED_DATES",
+      message: "Semester rentals have fixed dates and cannot be extended.",
+    });
+  }
+
+  if (
+    !(EXTENDABLE_STATUSES as readonly string[]).includes(booking.status)
+  ) {
+    reasons.push({
+      code: "INVALID_STATUS",
+      message: `Booking must be confirmed or active to extend. Current status: ${booking.status}`,
+    });
+  }
+
+  if ((booking.rentalDays || 0) < rules.minRentalDays) {
+    reasons.push({
+      code: "RENTAL_TOO_SHORT",
+      message: `Only rentals of ${rules.minRentalDays} days or more can be extended.`,
+    });
+  }
+
+  if (extensionsUsed >= rules.maxExtensions) {
+    reasons.push({
+      code: "MAX_EXTENSIONS_REACHED",
+      message: `Maximum of ${rules.maxExtensions} extensions reached. Please create a new booking.`,
+    });
+  }
+
+  // Overdue rentals may still extend, so the extra days are billed as rent
+  const isOverdue =
+    booking.status === "active" &&
+    new Date(booking.returnDate).getTime() < now.getTime();
+
+  if (daysRemaining < rules.cutoffDays && !isOverdue) {
+    reasons.push({
+      code: "PAST_CUTOFF",
+      message: `Extensions must be requested at least ${rules.cutoffDays} days before return date.`,
+    });
+  }
+
+  return {
+    eligible: reasons.length === 0,
+    reasons,
+    daysRemaining,
+    extensionsUsed,
+    maxExtensions: rules.maxExtensions,
+    minExtensionDays: rules.minDurationDays,
+    maxExtensionDays: rules.maxDurationDays,
+  };
+}
+
+/**
+ * Validate a requested new return date against the current one
+ */
+export function validateExtensionDates(
+  currentReturnDate: string,
+  newReturnDate: string,
+  rules: ExtensionRules = DEFAULT_EXTENSION_RULES,
+): ExtensionReason | null {
+  if (Number.isNaN(new Date(newReturnDate).getTime())) {
+    return { code: "INVALID_DATE", message: "Invalid return date" };
+  }
+
+  const additionalDays = daysBetween(currentReturnDate, newReturnDate);
+
+  if (additionalDays <= 0) {
+    return {
+      code: "DATE_NOT_AFTER_RETURN",
+      message: "New return date must be after the current return date",
+    };
+  }
+
+  if (additionalDays < rules.minDurationDays) {
+    return {
+      code: "EXTENSION_TOO_SHORT",
+      message: `Extensions must be at least ${rules.minDurationDays} days.`,
+    };
+  }
+
+  if (additionalDays > rules.maxDurationDays) {
+    return {
+      code: "EXTENSION_TOO_LONG",
+      message: `Extensions cannot exceed ${rules.maxDurationDays} days.`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,266 @@
+// supabase/functions/_shared/identitySessions.ts
+// Customer-side Stripe Identity sessions (hosted ID + selfie page), shared by
+// customer-identity-verification (account holders) and driver-invite (invited
+// additional drivers). stripe-webhook records the outcome on
+// driver_verifications either way.
+
+import type Stripe from "npm:stripe@14";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// TYPES
+// ============================================
+export type DriverType = "primary" | "additional";
+
+export interface IdentityDriver {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  date_of_birth: string | null;
+  drivers_license: string | null;
+}
+
+export interface StartIdentitySessionParams {
+  bookingId: string;
+  driverType: DriverType;
+  driver: IdentityDriver;
+  /** Where Stripe sends the driver once they finish */
+  returnUrl: string;
+  /** Extra metadata (who started it) */
+  metadata?: Record<string, string>;
+}
+
+export type StartIdentitySessionResult =
+  | { processing: true }
+  | { processing: false; url: string; verificationId: string };
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const VERIFICATION_FLOW_ID = "vf_1Sq4XHQMoDBKzv4abfxy0Eh9";
+
+// ============================================
+// HELPERS
+// ============================================
+function driverColumn(driverType: DriverType): string {
+  return driverType === "primary" ? "primary_driver_id" : "additional_driver_id";
+}
+
+function normalizeName(value: string | null | undefined): string {
+  return (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Whether a verification from an earlier rental covers this one
+ * (first_booking_verification_only)
+ */
+export async function isFirstBookingVerificationOnly(
+  supabase: SupabaseClient,
+): Promise<boolean> {
+  const { data } = await supabase
+    .from("system_config")
+    .select("value")
+    .eq("key", "first_booking_verification_only")
+    .maybeSingle();
+
+  // Seeded as true; keep that behaviour if the row is missing
+  return data ? String(data.value) !== "false" : true;
+}
+
+/**
+ * Valid verification on file for this license from any booking, if any
+ */
+async function findExistingVerification(
+  supabase: SupabaseClient,
+  licenseNumber: string | null,
+): Promise<{ verified_at: string | null } | null> {
+  if (!licenseNumber) return null;
+
+  const { data } = await supabase.rpc("check_existing_verification", {
+    p_license_number: licenseNumber,
+  });
+
+  return data && data.length > 0 ? data[0] : null;
+}
+
+/**
+ * Valid verification on file for this driver from an earlier booking, if
+ * any. A matching license number alone isn't enough: the verified record
+ * must also carry the driver's name and date of birth, or come from a
+ * booking on the same account (`accountUserId`).
+ */
+export async function findMatchingVerification(
+  supabase: SupabaseClient,
+  driver: Pick<
+    IdentityDriver,
+    "first_name" | "last_name" | "date_of_birth" | "drivers_license"
+  >,
+  accountUserId: string | null,
+): Promise<{ verified_at: string | null } | null> {
+  if (!(await findExistingVerification(supabase, driver.drivers_license))) {
+    return null;
+  }
+
+  const { data: verifications } = await supabase
+    .from("driver_verifications")
+    .select(
+      "verified_first_name, verified_last_name, verified_dob, verified_at, bookings(user_id)",
+    )
+    .eq("status", "verified")
+    .eq("provided_license_number", driver.drivers_license)
+    .order("verified_at", { ascending: false })
+    .limit(20);
+
+  const match = (verifications || []).find((verification) => {
+    const owner = Array.isArray(verification.bookings)
+      ? verification.bookings[0]
+      : verification.bookings;
+    if (accountUserId && owner?.user_id === accountUserId) return true;
+
+    return (
+      normalizeName(verification.verified_first_name) ===
+        normalizeName(driver.first_name) &&
+      normalizeName(verification.verified_last_name) ===
+        normalizeName(driver.last_name) &&
+      !!driver.date_of_birth &&
+      verification.verified_dob?.slice(0, 10) ===
+        driver.date_of_birth.slice(0, 10)
+    );
+  });
+
+  return match ? { verified_at: match.verified_at } : null;
+}
+
+/**
+ * Latest verification attempt for a driver on a booking
+ */
+export async function getLatestVerification(
+  supabase: SupabaseClient,
+  bookingId: string,
+  driverType: DriverType,
+  driverId: string,
+): Promise<{
+  status: string;
+  error_reason: string | null;
+  verified_at: string | null;
+} | null> {
+  const { data } = await supabase
+    .from("driver_verifications")
+    .select("status, error_reason, verified_at")
+    .eq(driverColumn(driverType), driverId)
+    .eq("booking_id", bookingId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data;
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+/**
+ * Resume the driver's open Stripe Identity session or create a new one and
+ * record it on driver_verifications. Resolves to `processing` while Stripe is
+ * still checking an earlier submission.
+ */
+export async function startIdentitySession(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  params: StartIdentitySessionParams,
+): Promise<StartIdentitySessionResult> {
+  const { bookingId, driverType, driver, returnUrl, metadata = {} } = params;
+
+  // Reuse an open session so the driver picks up where they left off
+  const { data: pendingVerification } = await supabase
+    .from("driver_verifications")
+    .select("id, stripe_session_id")
+    .eq(driverColumn(driverType), driver.id)
+    .eq("booking_id", bookingId)
+    .in("status", ["pending", "processing"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (pendingVerification?.stripe_session_id) {
+    try {
+      const existingSession =
+        await stripe.identity.verificationSessions.retrieve(
+          pendingVerification.stripe_session_id,
+        );
+
+      if (existingSession.status === "processing") {
+        return { processing: true };
+      }
+
+      if (
+        existingSession.status === "requires_input" &&
+        existingSession.url
+      ) {
+        console.log(
+          `♻️ Reusing existing verification session: ${existingSession.id}`,
+        );
+        return {
+          processing: false,
+          url: existingSession.url,
+          verificationId: pendingVerification.id,
+        };
+      }
+    } catch {
+      console.log("Previous session not reusable, creating new one");
+    }
+  }
+
+  const verificationSession = await stripe.identity.verificationSessions.create(
+    {
+      verification_flow: VERIFICATION_FLOW_ID,
+      provided_details: {
+        email: driver.email,
+      },
+      return_url: returnUrl,
+      metadata: {
+        ...metadata,
+        driver_type: driverType,
+        driver_id: driver.id,
+        booking_id: bookingId,
+        provided_first_name: driver.first_name,
+        provided_last_name: driver.last_name,
+        provided_license_number: driver.drivers_license || "",
+      },
+    },
+  );
+
+  console.log(`✅ Stripe session created: ${verificationSession.id}`);
+
+  const { data: dbVerification, error: dbError } = await supabase
+    .from("driver_verifications")
+    .insert({
+      driver_type: driverType,
+      primary_driver_id: driverType === "primary" ? driver.id : null,
+      additional_driver_id: driverType === "additional" ? driver.id : null,
+      booking_id: bookingId,
+      stripe_session_id: verificationSession.id,
+      status: "pending",
+      provided_first_name: driver.first_name,
+      provided_last_name: driver.last_name,
+      provided_dob: driver.date_of_birth,
+      provided_license_number: driver.drivers_license,
+      created_by: null,
+    })
+    .select("id")
+    .single();
+
+  if (dbError || !dbVerification || !verificationSession.url) {
+    // Cancel the Stripe session since we couldn't save it
+    await stripe.identity.verificationSessions.cancel(verificationSession.id);
+    throw dbError || new Error("Verification session has no URL");
+  }
+
+  return {
+    processing: false,
+    url: verificationSession.url,
+    verificationId: dbVerification.id,
+  };
+}
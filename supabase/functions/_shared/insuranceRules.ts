@@ -0,0 +1,204 @@
+// supabase/functions/_shared/insuranceRules.ts
+// Proof-of-insurance deadline and late-fee rules shared by the customer portal
+// (src/services/insurance) and the process-insurance-deadlines Edge Function.
+// Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export interface InsuranceRules {
+  deadlineHours: number; // insurance_deadline_hours
+  gracePeriodHours: number; // insurance_grace_period_hours
+  lateFeeDaily: number; // insurance_late_fee_daily
+}
+
+/**
+ * - not_started: the vehicle hasn't been picked up yet (no clock running)
+ * - due: before the deadline
+ * - grace: deadline passed, fees not accruing yet
+ * - accruing: grace period over, one late fee per started day
+ * - review: uploaded and waiting for staff; accrual is paused
+ * - verified: accrual stopped for good
+ */
+export type InsuranceStage =
+  | "not_started"
+  | "due"
+  | "grace"
+  | "accruing"
+  | "review"
+  | "verified";
+
+export interface InsuranceRulesInput {
+  status: string;
+  insuranceUploaded: boolean;
+  insuranceUploadedAt: string | null;
+  insuranceVerified: boolean;
+  pickupDate: string;
+  actualPickupDate: string | null;
+}
+
+export interface InsuranceDeadlineResult {
+  stage: InsuranceStage;
+  deadline: string | null;
+  feesStartAt: string | null;
+  /** Negative once the deadline has passed */
+  msUntilDeadline: number;
+  /** Negative once fees are accruing */
+  msUntilFees: number;
+  /** Late fee days owed so far (excluding paused review time) */
+  accruedDays: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Used when system_config is unreachable. Mirrors the seeded config values.
+ */
+export const DEFAULT_INSURANCE_RULES: InsuranceRules = {
+  deadlineHours: 24,
+  gracePeriodHours: 48,
+  lateFeeDaily: 50,
+};
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+// ============================================
+// HELPERS
+// ============================================
+function toNonNegative(value: unknown, fallback: number): number {
+  const parsed =
+    typeof value === "number" ? value : Number.parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Build rules from a config map (parsed values or raw system_config strings)
+ */
+export function insuranceRulesFromConfig(
+  config: Record<string, unknown>,
+): InsuranceRules {
+  return {
+    deadlineHours: Math.floor(
+      toNonNegative(
+        config.insurance_deadline_hours,
+        DEFAULT_INSURANCE_RULES.deadlineHours,
+      ),
+    ),
+    gracePeriodHours: Math.floor(
+      toNonNegative(
+        config.insurance_grace_period_hours,
+        DEFAULT_INSURANCE_RULES.gracePeriodHours,
+      ),
+    ),
+    lateFeeDaily:
+      Math.round(
+        toNonNegative(
+          config.insurance_late_fee_daily,
+          DEFAULT_INSURANCE_RULES.lateFeeDaily,
+        ) * 100,
+      ) / 100,
+  };
+}
+
+/**
+ * The clock starts when the vehicle is handed over
+ */
+function insuranceClockStart(input: InsuranceRulesInput): number {
+  return new Date(input.actualPickupDate || input.pickupDate).getTime();
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Where a booking stands against the insurance deadline at `now`
+ */
+export function evaluateInsuranceDeadline(
+  input: InsuranceRulesInput,
+  rules: InsuranceRules = DEFAULT_INSURANCE_RULES,
+  now: Date = new Date(),
+): InsuranceDeadlineResult {
+  const start = insuranceClockStart(input);
+  const deadline = start + rules.deadlineHours * MS_PER_HOUR;
+  const feesStart = deadline + rules.gracePeriodHours * MS_PER_HOUR;
+  const dates = {
+    deadline: new Date(deadline).toISOString(),
+    feesStartAt: new Date(feesStart).toISOString(),
+    msUntilDeadline: deadline - now.getTime(),
+    msUntilFees: feesStart - now.getTime(),
+  };
+
+  if (input.insuranceVerified) {
+    return { stage: "verified", ...dates, accruedDays: 0 };
+  }
+
+  if (input.status !== "active" || !Number.isFinite(start)) {
+    return {
+      stage: "not_started",
+      deadline: null,
+      feesStartAt: null,
+      msUntilDeadline: 0,
+      msUntilFees: 0,
+      accruedDays: 0,
+    };
+  }
+
+  const accruedDays = lateFeeAccrualDates(input, rules, now).length;
+
+  if (input.insuranceUploaded) {
+    return { stage: "review", ...dates, accruedDays };
+  }
+
+  const stage: InsuranceStage =
+    dates.msUntilDeadline > 0
+      ? "due"
+      : dates.msUntilFees > 0
+        ? "grace"
+        : "accruing";
+
+  return { stage, ...dates, accruedDays };
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD, UTC) of every late fee owed up to `now`: one per
+ * started day after the grace period. Accrual pauses from the moment proof is
+ * uploaded; if the upload is rejected the paused days are owed again.
+ * Dates are stable across runs, so they double as the ledger's idempotency key.
+ */
+export function lateFeeAccrualDates(
+  input: InsuranceRulesInput,
+  rules: InsuranceRules = DEFAULT_INSURANCE_RULES,
+  now: Date = new Date(),
+): string[] {
+  if (
+    input.insuranceVerified ||
+    input.status !== "active" ||
+    rules.lateFeeDaily <= 0
+  ) {
+    return [];
+  }
+
+  const start = insuranceClockStart(input);
+  if (!Number.isFinite(start)) return [];
+
+  const feesStart =
+    start + (rules.deadlineHours + rules.gracePeriodHours) * MS_PER_HOUR;
+
+  let accrueUntil = now.getTime();
+  if (input.insuranceUploaded) {
+    const uploadedAt = new Date(input.insuranceUploadedAt || "").getTime();
+    if (!Number.isFinite(uploadedAt)) return [];
+    accrueUntil = Math.min(uploadedAt, accrueUntil);
+  }
+
+  if (accrueUntil < feesStart) return [];
+
+  const days = Math.floor((accrueUntil - feesStart) / MS_PER_DAY) + 1;
+  return Array.from({ length: days }, (_, i) =>
+    new Date(feesStart + i * MS_PER_DAY).toISOString().split("T")[0],
+  );
+}
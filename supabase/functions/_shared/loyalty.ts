@@ -0,0 +1,67 @@
+// supabase/functions/_shared/loyalty.ts
+// Loyalty tier benefits (waived fees, lower deposit) applied to server
+// pricing by create-checkout-session and modify-booking.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// TYPES
+// ============================================
+export interface LoyaltyPricing {
+  tierId: string | null;
+  tierName: string | null;
+  deliveryFee: number;
+  additionalDriverFee: number;
+  securityDeposit: number;
+  /** Fees and deposit waived by the tier */
+  savings: number;
+}
+
+// ============================================
+// BENEFITS
+// ============================================
+
+/**
+ * Apply the customer's current tier to the fees and deposit from
+ * calculate_booking_total / calculate_term_price. Without a tier the
+ * amounts come back unchanged.
+ */
+export async function applyLoyaltyBenefits(
+  supabase: SupabaseClient,
+  input: {
+    userId: string;
+    deliveryFee: number;
+    additionalDriverFee: number;
+    securityDeposit: number;
+  },
+): Promise<LoyaltyPricing> {
+  const { data, error } = await supabase.rpc("calculate_loyalty_benefits", {
+    p_delivery_fee: input.deliveryFee,
+    p_additional_driver_fee: input.additionalDriverFee,
+    p_security_deposit: input.securityDeposit,
+    p_user_id: input.userId,
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : null;
+  if (!row || !row.loyalty_tier_id) {
+    return {
+      tierId: null,
+      tierName: null,
+      deliveryFee: input.deliveryFee,
+      additionalDriverFee: input.additionalDriverFee,
+      securityDeposit: input.securityDeposit,
+      savings: 0,
+    };
+  }
+
+  return {
+    tierId: row.loyalty_tier_id,
+    tierName: row.tier_name,
+    deliveryFee: Number(row.delivery_fee) || 0,
+    additionalDriverFee: Number(row.additional_driver_fee) || 0,
+    securityDeposit: Number(row.security_deposit) || 0,
+    savings: Number(row.total_savings) || 0,
+  };
+}
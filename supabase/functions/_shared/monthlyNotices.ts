@@ -0,0 +1,330 @@
+// supabase/functions/_shared/monthlyNotices.ts
+// Monthly rental notices: config, the "is this a monthly booking" rule and the
+// renewal quote and checkout. Used by process-monthly-notices and
+// monthly-notice-response.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type Stripe from "npm:stripe@13.10.0";
+import {
+  evaluateExtensionEligibility,
+  extensionRulesFromConfig,
+  type ExtensionRules,
+} from "./extensionRules.ts";
+
+// ============================================
+// TYPES
+// ============================================
+export interface MonthlyNoticeConfig {
+  noticeDays: number; // monthly_notice_days
+  replyDays: number; // monthly_notice_reply_days
+  periodDays: number; // monthly_rental_threshold_days
+  noNoticeFine: number; // monthly_no_notice_fine
+  extensionRules: ExtensionRules;
+}
+
+export interface NoticeBooking {
+  id: string;
+  user_id: string;
+  vehicle_id: string;
+  status: string;
+  rental_type: string | null;
+  rental_days: number | null;
+  extension_count: number | null;
+  return_date: string;
+  customer_info: unknown;
+  vehicles?: { name?: string | null } | null;
+}
+
+export interface RenewalQuote {
+  amount: number;
+  days: number;
+  newReturnDate: string;
+  pricingMethod: string;
+}
+
+export type RenewalQuoteResult =
+  | ({ ok: true } & RenewalQuote)
+  | {
+      ok: false;
+      code: "NOT_EXTENDABLE" | "DATES_UNAVAILABLE";
+      message: string;
+    };
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MIN_CHARGE_CENTS = 50; // Stripe minimum
+const RENEWAL_SESSION_HOURS = 23; // Stripe allows up to 24
+
+/** Statuses that still hold the vehicle's dates */
+const BLOCKING_STATUSES = ["confirmed", "active", "pending"];
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  monthly_notice_days: "7",
+  monthly_notice_reply_days: "1",
+  monthly_rental_threshold_days: "30",
+  monthly_no_notice_fine: "50",
+  max_extensions: "5",
+  extension_cutoff_days: "5",
+  extension_min_duration_days: "7",
+  extension_min_rental_days: "30",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function positiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function addDaysIso(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString();
+}
+
+export function customerContact(
+  booking: Pick<NoticeBooking, "customer_info">,
+): {
+  email: string | undefined;
+  name: string;
+} {
+  try {
+    const info =
+      typeof booking.customer_info === "string"
+        ? JSON.parse(booking.customer_info)
+        : (booking.customer_info as Record<string, string> | null);
+
+    return {
+      email: info?.email || undefined,
+      name:
+        `${info?.firstName || ""} ${info?.lastName || ""}`.trim() ||
+        "Valued Customer",
+    };
+  } catch {
+    return { email: undefined, name: "Valued Customer" };
+  }
+}
+
+// ============================================
+// CONFIG
+// ============================================
+export async function getMonthlyNoticeConfig(
+  supabase: SupabaseClient,
+): Promise<MonthlyNoticeConfig> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  const fine = Number.parseFloat(config.monthly_no_notice_fine);
+
+  return {
+    noticeDays: positiveInt(config.monthly_notice_days, 7),
+    replyDays: positiveInt(config.monthly_notice_reply_days, 1),
+    periodDays: positiveInt(config.monthly_rental_threshold_days, 30),
+    noNoticeFine: Number.isFinite(fine) && fine > 0 ? roundCurrency(fine) : 0,
+    extensionRules: extensionRulesFromConfig(config),
+  };
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Monthly bookings get notices; semester rentals have fixed dates
+ */
+export function isMonthlyBooking(
+  booking: Pick<NoticeBooking, "rental_type" | "rental_days">,
+  periodDays: number,
+): boolean {
+  if (booking.rental_type === "semester") return false;
+  return (
+    booking.rental_type === "monthly" ||
+    (booking.rental_days || 0) >= periodDays
+  );
+}
+
+/**
+ * Replies are due `replyDays` after the notice, and never after the period end
+ */
+export function replyDeadlineFor(
+  periodEnd: string,
+  replyDays: number,
+  now: Date = new Date(),
+): string {
+  const deadline = Math.min(
+    now.getTime() + replyDays * MS_PER_DAY,
+    new Date(periodEnd).getTime(),
+  );
+  return new Date(deadline).toISOString();
+}
+
+// ============================================
+// RENEWAL
+// ============================================
+
+/**
+ * Price one more period, if the booking can still be extended and the
+ * vehicle is free for it
+ */
+export async function quoteRenewal(
+  supabase: SupabaseClient,
+  booking: NoticeBooking,
+  config: MonthlyNoticeConfig,
+): Promise<RenewalQuoteResult> {
+  const eligibility = evaluateExtensionEligibility(
+    {
+      status: booking.status,
+      rentalType: booking.rental_type,
+      rentalDays: booking.rental_days,
+      extensionCount: booking.extension_count,
+      returnDate: booking.return_date,
+    },
+    config.extensionRules,
+  );
+
+  if (!eligibility.eligible) {
+    return {
+      ok: false,
+      code: "NOT_EXTENDABLE",
+      message: eligibility.reasons[0].message,
+    };
+  }
+
+  const newReturnDate = addDaysIso(booking.return_date, config.periodDays);
+
+  // Same overlap rule as extend-booking, plus live checkout holds
+  const { data: conflicts, error: conflictError } = await supabase
+    .from("bookings")
+    .select("id")
+    .eq("vehicle_id", booking.vehicle_id)
+    .neq("id", booking.id)
+    .in("status", BLOCKING_STATUSES)
+    .lt("pickup_date", newReturnDate)
+    .gt("return_date", booking.return_date);
+
+  if (conflictError) throw conflictError;
+
+  const { data: holds, error: holdError } = await supabase
+    .from("vehicle_holds")
+    .select("id")
+    .eq("vehicle_id", booking.vehicle_id)
+    .eq("status", "active")
+    .gt("expires_at", new Date().toISOString())
+    .lt("pickup_date", newReturnDate)
+    .gt("return_date", booking.return_date);
+
+  if (holdError) throw holdError;
+
+  if ((conflicts && conflicts.length > 0) || (holds && holds.length > 0)) {
+    return {
+      ok: false,
+      code: "DATES_UNAVAILABLE",
+      message: "The vehicle is booked after your current period.",
+    };
+  }
+
+  const { data: priceData, error: priceError } = await supabase.rpc(
+    "calculate_extension_price",
+    {
+      p_vehicle_id: booking.vehicle_id,
+      p_current_return_date: booking.return_date.split("T")[0],
+      p_new_return_date: newReturnDate.split("T")[0],
+    },
+  );
+
+  if (priceError || !priceData || priceData.length === 0) {
+    throw priceError || new Error("Failed to calculate renewal price");
+  }
+
+  const pricing = priceData[0];
+
+  return {
+    ok: true,
+    amount: roundCurrency(Number(pricing.rental_amount) || 0),
+    days: Number(pricing.extension_days) || config.periodDays,
+    newReturnDate,
+    pricingMethod: pricing.pricing_method,
+  };
+}
+
+/**
+ * Stripe checkout for a renewal quote. Payment goes through the regular
+ * `booking_extension` webhook path; `notice_id` ties it back to the notice.
+ * Expires `previousSessionId` so only one link can be paid.
+ */
+export async function createRenewalCheckout(
+  stripe: Stripe,
+  booking: NoticeBooking,
+  notice: { id: string; previousSessionId?: string | null },
+  quote: RenewalQuote,
+  portalUrl: string,
+): Promise<{ url: string; sessionId: string }> {
+  if (notice.previousSessionId) {
+    try {
+      await stripe.checkout.sessions.expire(notice.previousSessionId);
+    } catch (expireError) {
+      // Already completed or expired sessions cannot be expired
+      console.warn(
+        "[monthlyNotices] Could not expire session:",
+        notice.previousSessionId,
+        expireError,
+      );
+    }
+  }
+
+  const vehicleName = booking.vehicles?.name || "Vehicle";
+
+  const session = await stripe.checkout.sessions.create({
+    payment_method_types: ["card"],
+    mode: "payment",
+    customer_email: customerContact(booking).email,
+    client_reference_id: `renewal_${notice.id}`,
+    metadata: {
+      type: "booking_extension",
+      booking_id: booking.id,
+      user_id: booking.user_id,
+      notice_id: notice.id,
+      new_return_date: quote.newReturnDate,
+      additional_days: quote.days.toString(),
+      extension_amount: quote.amount.toFixed(2),
+      original_return_date: booking.return_date,
+      pricing_method: quote.pricingMethod,
+    },
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: `Monthly Renewal - ${vehicleName}`,
+            description: `Continue your rental for ${quote.days} more days`,
+          },
+          unit_amount: Math.max(
+            Math.round(quote.amount * 100),
+            MIN_CHARGE_CENTS,
+          ),
+        },
+        quantity: 1,
+      },
+    ],
+    success_url: `${portalUrl}/my-bookings?extension=success&booking_id=${booking.id}`,
+    cancel_url: `${portalUrl}/my-bookings?extension=cancelled&booking_id=${booking.id}`,
+    expires_at:
+      Math.floor(Date.now() / 1000) + RENEWAL_SESSION_HOURS * 60 * 60,
+  });
+
+  return { url: session.url || "", sessionId: session.id };
+}
@@ -0,0 +1,416 @@
+// supabase/functions/_shared/noShow.ts
+// No-show handling for confirmed bookings the customer never picked up: when
+// a booking counts as a no-show, the fee / refund split, and applying it
+// (Stripe refunds, booking status, vehicle release, customer email).
+// Used by process-no-shows (scheduled sweep) and mark-no-show (workers).
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type Stripe from "npm:stripe@13.10.0";
+import {
+  allocateRefund,
+  getBookingPayments,
+  refundableTotal,
+} from "./bookingPayments.ts";
+import { fromBusinessDateTime, toBusinessDateString } from "./dates.ts";
+import { sendTemplateEmail } from "./emailTemplates.ts";
+import { customerContact } from "./monthlyNotices.ts";
+import { releaseVehicle } from "./vehicleStatus.ts";
+
+// ============================================
+// TYPES
+// ============================================
+export interface NoShowConfig {
+  noShowFee: number;
+  deliveryWaitMinutes: number;
+  storeCloseWeekday: string;
+  storeCloseSunday: string;
+}
+
+export interface NoShowBookingRow {
+  id: string;
+  user_id: string | null;
+  booking_number: string | null;
+  vehicle_id: string | null;
+  status: string;
+  payment_status: string | null;
+  pickup_date: string;
+  return_date: string;
+  pickup_type: string | null;
+  delivery_time_slot: string | null;
+  total_price: number | string | null;
+  security_deposit: number | string | null;
+  stripe_payment_intent_id: string | null;
+  customer_info: unknown;
+  vehicles: { name?: string | null } | null;
+}
+
+export interface NoShowBreakdown {
+  paid: boolean;
+  rentCharged: number;
+  noShowFee: number;
+  rentRefund: number;
+  depositRefund: number;
+  totalRefund: number;
+}
+
+export type NoShowResult =
+  | {
+      applied: true;
+      breakdown: NoShowBreakdown;
+      noShowAt: string;
+      refundIds: string[];
+    }
+  | {
+      applied: false;
+      code: "REFUND_UNAVAILABLE" | "STATUS_CHANGED";
+      message: string;
+    };
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const NO_SHOW_STATUSES = ["confirmed"];
+
+export const NO_SHOW_BOOKING_COLUMNS = `id, user_id, booking_number, vehicle_id,
+  status, payment_status, pickup_date, return_date, pickup_type,
+  delivery_time_slot, total_price, security_deposit, stripe_payment_intent_id,
+  customer_info, vehicles(name)`;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d/;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  no_show_fee: "50",
+  delivery_wait_minutes: "30",
+  store_hours_weekday_close: "19:00",
+  store_hours_sunday_close: "17:00",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+function toAmount(value: unknown): number {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+// ============================================
+// CONFIG
+// ============================================
+export async function getNoShowConfig(
+  supabase: SupabaseClient,
+): Promise<NoShowConfig> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  const waitMinutes = parseInt(config.delivery_wait_minutes, 10);
+
+  return {
+    noShowFee: toAmount(config.no_show_fee),
+    deliveryWaitMinutes:
+      Number.isFinite(waitMinutes) && waitMinutes >= 0 ? waitMinutes : 30,
+    storeCloseWeekday: TIME_REGEX.test(config.store_hours_weekday_close)
+      ? config.store_hours_weekday_close.slice(0, 5)
+      : CONFIG_DEFAULTS.store_hours_weekday_close,
+    storeCloseSunday: TIME_REGEX.test(config.store_hours_sunday_close)
+      ? config.store_hours_sunday_close.slice(0, 5)
+      : CONFIG_DEFAULTS.store_hours_sunday_close,
+  };
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * When a confirmed booking becomes a no-show: the end of the delivery wait
+ * (slot + `delivery_wait_minutes`) for deliveries, otherwise store closing
+ * time on the pickup day.
+ */
+export function noShowDeadline(
+  booking: Pick<
+    NoShowBookingRow,
+    "pickup_date" | "pickup_type" | "delivery_time_slot"
+  >,
+  config: NoShowConfig,
+): Date {
+  const pickupDay = toBusinessDateString(new Date(booking.pickup_date));
+  const slot = booking.delivery_time_slot?.slice(0, 5) || "";
+
+  if (booking.pickup_type === "delivery" && TIME_REGEX.test(slot)) {
+    const slotStart = new Date(fromBusinessDateTime(pickupDay, slot));
+    return new Date(
+      slotStart.getTime() + config.deliveryWaitMinutes * 60 * 1000,
+    );
+  }
+
+  const isSunday = new Date(`${pickupDay}T00:00:00Z`).getUTCDay() === 0;
+  return new Date(
+    fromBusinessDateTime(
+      pickupDay,
+      isSunday ? config.storeCloseSunday : config.storeCloseWeekday,
+    ),
+  );
+}
+
+/**
+ * The fee is only retained from the rent (rental + delivery + additional
+ * driver fees); the deposit is returned in full.
+ */
+export function calculateNoShow(
+  booking: Pick<
+    NoShowBookingRow,
+    | "payment_status"
+    | "stripe_payment_intent_id"
+    | "total_price"
+    | "security_deposit"
+  >,
+  noShowFee: number,
+): NoShowBreakdown {
+  const paid =
+    booking.payment_status === "paid" &&
+    Boolean(booking.stripe_payment_intent_id);
+
+  const depositCents = toCents(toAmount(booking.security_deposit));
+  const rentCents = paid
+    ? Math.max(0, toCents(toAmount(booking.total_price)) - depositCents)
+    : 0;
+  const feeCents = paid ? Math.min(toCents(noShowFee), rentCents) : 0;
+  const rentRefundCents = rentCents - feeCents;
+  const depositRefundCents = paid ? depositCents : 0;
+
+  return {
+    paid,
+    rentCharged: fromCents(rentCents),
+    noShowFee: fromCents(feeCents),
+    rentRefund: fromCents(rentRefundCents),
+    depositRefund: fromCents(depositRefundCents),
+    totalRefund: fromCents(rentRefundCents + depositRefundCents),
+  };
+}
+
+// ============================================
+// APPLY
+// ============================================
+
+/**
+ * Mark a confirmed booking as a no-show: refund everything but the fee, move
+ * the booking to `no_show` (which frees its dates), release the vehicle and
+ * email the customer. Refunds use idempotency keys, so a retry is safe.
+ */
+export async function applyNoShow(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: NoShowBookingRow,
+  config: NoShowConfig,
+  options: { markedBy: string | null; reason: string },
+): Promise<NoShowResult> {
+  const breakdown = calculateNoShow(booking, config.noShowFee);
+
+  // 1. Stripe refunds (rent and deposit separately)
+  const refunds: {
+    refund_type: "rent" | "deposit";
+    amount: number;
+    stripe_refund_id: string;
+    stripe_payment_intent_id: string;
+    status: string;
+  }[] = [];
+
+  if (breakdown.paid && breakdown.totalRefund > 0) {
+    const payments = await getBookingPayments(supabase, stripe, booking);
+    const refundableCents = refundableTotal(payments);
+
+    if (toCents(breakdown.totalRefund) > refundableCents) {
+      console.error("[noShow] Refund exceeds refundable amount:", {
+        bookingId: booking.id,
+        requested: toCents(breakdown.totalRefund),
+        refundable: refundableCents,
+      });
+      return {
+        applied: false,
+        code: "REFUND_UNAVAILABLE",
+        message:
+          "The refund can't be issued automatically. Please settle this no-show from Stripe.",
+      };
+    }
+
+    const portions: ["rent" | "deposit", number][] = [
+      ["rent", breakdown.rentRefund],
+      ["deposit", breakdown.depositRefund],
+    ];
+
+    for (const [refundType, amount] of portions) {
+      if (amount <= 0) continue;
+
+      for (const allocation of allocateRefund(payments, toCents(amount))) {
+        const refund = await stripe.refunds.create(
+          {
+            payment_intent: allocation.paymentIntentId,
+            amount: allocation.cents,
+            metadata: {
+              type: "booking_no_show",
+              refund_type: refundType,
+              booking_id: booking.id,
+            },
+          },
+          {
+            idempotencyKey: `no_show_${booking.id}_${refundType}_${allocation.paymentIntentId}`,
+          },
+        );
+
+        refunds.push({
+          refund_type: refundType,
+          amount: fromCents(allocation.cents),
+          stripe_refund_id: refund.id,
+          stripe_payment_intent_id: allocation.paymentIntentId,
+          status: refund.status || "pending",
+        });
+      }
+    }
+  }
+
+  // 2. Booking status (frees the dates for availability)
+  const noShowAt = new Date().toISOString();
+  const bookingUpdate: Record<string, unknown> = {
+    status: "no_show",
+    no_show_at: noShowAt,
+    no_show_by: options.markedBy,
+    no_show_reason: options.reason,
+    no_show_fee_applied: breakdown.noShowFee,
+    rental_refund_amount: breakdown.rentRefund,
+  };
+
+  if (breakdown.paid) {
+    bookingUpdate.payment_status = "refunded";
+    bookingUpdate.security_deposit_amount_returned = breakdown.depositRefund;
+    bookingUpdate.security_deposit_returned = breakdown.depositRefund > 0;
+    bookingUpdate.security_deposit_return_date =
+      breakdown.depositRefund > 0 ? noShowAt : null;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("bookings")
+    .update(bookingUpdate)
+    .eq("id", booking.id)
+    .in("status", NO_SHOW_STATUSES)
+    .select("id")
+    .maybeSingle();
+
+  if (updateError) throw updateError;
+
+  if (!updated) {
+    console.error("[noShow] Booking changed before it could be updated:", {
+      bookingId: booking.id,
+      refunds: refunds.map((r) => r.stripe_refund_id),
+    });
+    return {
+      applied: false,
+      code: "STATUS_CHANGED",
+      message: "This booking is no longer awaiting pickup.",
+    };
+  }
+
+  // 3. Refund ledger
+  if (refunds.length > 0) {
+    const { error: ledgerError } = await supabase
+      .from("booking_refunds")
+      .upsert(
+        refunds.map((refund) => ({
+          booking_id: booking.id,
+          refund_type: refund.refund_type,
+          amount: refund.amount,
+          reason: "no_show",
+          stripe_refund_id: refund.stripe_refund_id,
+          stripe_payment_intent_id: refund.stripe_payment_intent_id,
+          status: refund.status,
+          created_by: options.markedBy,
+        })),
+        { onConflict: "stripe_refund_id" },
+      );
+
+    if (ledgerError) {
+      // Refunds and booking are already settled; staff can reconcile from Stripe
+      console.error("[noShow] Refund ledger insert failed:", ledgerError);
+    }
+  }
+
+  // 4. Vehicle release (webhook marks it reserved on payment)
+  if (booking.vehicle_id) {
+    await releaseVehicle(supabase, booking.vehicle_id);
+  }
+
+  // 5. Customer email
+  await notifyCustomer(booking, breakdown);
+
+  return {
+    applied: true,
+    breakdown,
+    noShowAt,
+    refundIds: refunds.map((r) => r.stripe_refund_id),
+  };
+}
+
+async function notifyCustomer(
+  booking: NoShowBookingRow,
+  breakdown: NoShowBreakdown,
+): Promise<void> {
+  const contact = customerContact(booking);
+  if (!contact.email) return;
+
+  const customMessage = breakdown.paid
+    ? `A no-show fee of ${formatCurrency(breakdown.noShowFee)} was kept from your payment and ${formatCurrency(breakdown.totalRefund)} has been refunded to your original payment method. Refunds usually arrive within 5-10 business days.`
+    : "No payment was taken for this booking.";
+
+  try {
+    await sendTemplateEmail({
+      to: contact.email,
+      subject: `Missed pickup - Booking ${booking.booking_number || ""}`.trim(),
+      template: "booking_no_show",
+      data: {
+        customerName: contact.name,
+        bookingNumber: booking.booking_number || undefined,
+        vehicleName: booking.vehicles?.name || undefined,
+        pickupDate: formatDate(booking.pickup_date),
+        totalAmount: formatCurrency(breakdown.noShowFee),
+        customMessage,
+        actionUrl: `${CUSTOMER_PORTAL_URL}/my-bookings`,
+      },
+    });
+  } catch (emailError) {
+    // The no-show stands; the booking page shows the same details
+    console.error("[noShow] Customer email failed:", {
+      bookingId: booking.id,
+      error: emailError,
+    });
+  }
+}
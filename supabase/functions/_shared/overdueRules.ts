@@ -0,0 +1,178 @@
+// supabase/functions/_shared/overdueRules.ts
+// Overdue rental rules shared by the customer portal (src/services/bookings)
+// and the process-overdue-rentals Edge Function.
+// Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export interface OverdueRules {
+  escalationDays: number; // overdue_escalation_days
+  reminderDays: number[]; // overdue_reminder_days (days after the return date)
+}
+
+export interface OverdueRulesInput {
+  status: string;
+  returnDate: string;
+  actualReturnDate: string | null;
+}
+
+export interface OverdueRatesInput {
+  dailyRate: number | string | null;
+  rentalAmount: number | string | null;
+  rentalDays: number | null;
+}
+
+export interface OverdueResult {
+  isOverdue: boolean;
+  msOverdue: number;
+  /** Started days past the return date (1 as soon as it's overdue) */
+  daysOverdue: number;
+  /** Reminder offsets reached so far */
+  remindersDue: number;
+  escalationDue: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Used when system_config is unreachable. Mirrors the seeded config values.
+ */
+export const DEFAULT_OVERDUE_RULES: OverdueRules = {
+  escalationDays: 7,
+  reminderDays: [0, 1, 3],
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// ============================================
+// HELPERS
+// ============================================
+function toNumber(value: unknown): number {
+  const parsed =
+    typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * "0,1,3" or [0, 1, 3] -> sorted, de-duplicated day offsets
+ */
+export function parseReminderDays(value: unknown): number[] | null {
+  const parts = Array.isArray(value) ? value : String(value ?? "").split(",");
+  const days = parts
+    .map((part) => Number.parseInt(String(part).trim(), 10))
+    .filter((day) => Number.isFinite(day) && day >= 0);
+
+  return days.length > 0
+    ? Array.from(new Set(days)).sort((a, b) => a - b)
+    : null;
+}
+
+/**
+ * Build rules from a config map (parsed values or raw system_config strings)
+ */
+export function overdueRulesFromConfig(
+  config: Record<string, unknown>,
+): OverdueRules {
+  const escalationDays = Number.parseInt(
+    String(config.overdue_escalation_days ?? ""),
+    10,
+  );
+
+  return {
+    escalationDays:
+      Number.isFinite(escalationDays) && escalationDays > 0
+        ? escalationDays
+        : DEFAULT_OVERDUE_RULES.escalationDays,
+    reminderDays:
+      parseReminderDays(config.overdue_reminder_days) ??
+      DEFAULT_OVERDUE_RULES.reminderDays,
+  };
+}
+
+/**
+ * Overdue days are charged at the rate frozen on the booking; older bookings
+ * without one fall back to the average daily rent they paid
+ */
+export function overdueDailyRate(booking: OverdueRatesInput): number {
+  const dailyRate = toNumber(booking.dailyRate);
+  if (dailyRate > 0) return Math.round(dailyRate * 100) / 100;
+
+  const rentalDays = booking.rentalDays || 0;
+  if (rentalDays <= 0) return 0;
+
+  return Math.round((toNumber(booking.rentalAmount) / rentalDays) * 100) / 100;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * The vehicle is still out after its return date
+ */
+export function isOverdueBooking(
+  booking: OverdueRulesInput,
+  now: Date = new Date(),
+): boolean {
+  return (
+    booking.status === "active" &&
+    !booking.actualReturnDate &&
+    new Date(booking.returnDate).getTime() < now.getTime()
+  );
+}
+
+/**
+ * Where an overdue booking stands at `now`
+ */
+export function evaluateOverdue(
+  booking: OverdueRulesInput,
+  rules: OverdueRules = DEFAULT_OVERDUE_RULES,
+  now: Date = new Date(),
+): OverdueResult {
+  if (!isOverdueBooking(booking, now)) {
+    return {
+      isOverdue: false,
+      msOverdue: 0,
+      daysOverdue: 0,
+      remindersDue: 0,
+      escalationDue: false,
+    };
+  }
+
+  const msOverdue = now.getTime() - new Date(booking.returnDate).getTime();
+
+  return {
+    isOverdue: true,
+    msOverdue,
+    daysOverdue: Math.floor(msOverdue / MS_PER_DAY) + 1,
+    remindersDue: rules.reminderDays.filter(
+      (day) => msOverdue >= day * MS_PER_DAY,
+    ).length,
+    escalationDue: msOverdue >= rules.escalationDays * MS_PER_DAY,
+  };
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD, UTC) of every overdue day charged up to `now`:
+ * one per started day after the return date. Dates are stable across runs, so
+ * they double as the ledger's idempotency key.
+ */
+export function overdueChargeDates(
+  booking: OverdueRulesInput,
+  now: Date = new Date(),
+): string[] {
+  const { isOverdue, daysOverdue } = evaluateOverdue(
+    booking,
+    DEFAULT_OVERDUE_RULES,
+    now,
+  );
+  if (!isOverdue) return [];
+
+  const returnTime = new Date(booking.returnDate).getTime();
+  return Array.from({ length: daysOverdue }, (_, i) =>
+    new Date(returnTime + i * MS_PER_DAY).toISOString().split("T")[0],
+  );
+}
@@ -0,0 +1,163 @@
+// supabase/functions/_shared/promoCodes.ts
+// Promo code discounts on the rental amount. Checked and reserved by
+// create-checkout-session, redeemed or released by stripe-webhook and
+// cancel-booking, re-checked against the new pricing by modify-booking.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// TYPES
+// ============================================
+export interface PromoDiscount {
+  promoCodeId: string;
+  code: string;
+  description: string | null;
+  discountType: "percentage" | "fixed";
+  discountValue: number;
+  amount: number;
+}
+
+export type PromoCodeCheck =
+  | { discount: PromoDiscount; error: null }
+  | { discount: null; error: string };
+
+// ============================================
+// CHECK
+// ============================================
+
+/**
+ * Check a code against the server-priced rental. Returns the discount, or
+ * the customer-facing reason it can't be used. `excludeBookingId` leaves
+ * that booking's own use of the code out of the limits.
+ */
+export async function checkPromoCode(
+  supabase: SupabaseClient,
+  input: {
+    code: string;
+    userId: string;
+    vehicleId: string;
+    rentalType: string;
+    rentalDays: number;
+    rentalAmount: number;
+    excludeBookingId?: string;
+  },
+): Promise<PromoCodeCheck> {
+  const { data, error } = await supabase.rpc("apply_promo_code", {
+    p_code: input.code,
+    p_vehicle_id: input.vehicleId,
+    p_rental_type: input.rentalType,
+    p_rental_days: input.rentalDays,
+    p_rental_amount: input.rentalAmount,
+    p_user_id: input.userId,
+    p_exclude_booking_id: input.excludeBookingId ?? null,
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : null;
+  if (!row || row.error || !row.promo_code_id) {
+    return {
+      discount: null,
+      error: row?.error || "This promo code isn't valid.",
+    };
+  }
+
+  return {
+    discount: {
+      promoCodeId: row.promo_code_id,
+      code: row.code,
+      description: row.description,
+      discountType: row.discount_type,
+      discountValue: Number(row.discount_value) || 0,
+      amount: Number(row.discount_amount) || 0,
+    },
+    error: null,
+  };
+}
+
+// ============================================
+// RESERVE / REDEEM / RELEASE / UPDATE
+// ============================================
+
+/**
+ * Claim one use of the code for this checkout, re-checking the limits
+ * atomically. Returns false when the code ran out in the meantime.
+ */
+export async function reservePromoRedemption(
+  supabase: SupabaseClient,
+  redemption: {
+    promoCodeId: string;
+    userId: string;
+    bookingId: string;
+    discountAmount: number;
+    expiresAt: Date;
+  },
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("reserve_promo_redemption", {
+    p_promo_code_id: redemption.promoCodeId,
+    p_user_id: redemption.userId,
+    p_booking_id: redemption.bookingId,
+    p_discount_amount: redemption.discountAmount,
+    p_expires_at: redemption.expiresAt.toISOString(),
+  });
+
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * The booking was paid: its use of the code is final. Converts redemptions
+ * past their checkout expiry too, like vehicle holds.
+ */
+export async function redeemPromoRedemption(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({ status: "redeemed", redeemed_at: new Date().toISOString() })
+    .eq("booking_id", bookingId)
+    .eq("status", "pending");
+
+  if (error) throw error;
+}
+
+/**
+ * Give the use back (checkout expired or booking cancelled).
+ * Safe to call more than once.
+ */
+export async function releasePromoRedemption(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({ status: "released", released_at: new Date().toISOString() })
+    .eq("booking_id", bookingId)
+    .in("status", ["pending", "redeemed"]);
+
+  if (error) throw error;
+}
+
+/**
+ * A modification re-priced the booking: record the discount its use of the
+ * code now gets, or give the use back when the code no longer applies
+ */
+export async function updatePromoRedemption(
+  supabase: SupabaseClient,
+  bookingId: string,
+  discountAmount: number,
+): Promise<void> {
+  if (discountAmount <= 0) {
+    await releasePromoRedemption(supabase, bookingId);
+    return;
+  }
+
+  const { error } = await supabase
+    .from("promo_redemptions")
+    .update({ discount_amount: discountAmount })
+    .eq("booking_id", bookingId)
+    .in("status", ["pending", "redeemed"]);
+
+  if (error) throw error;
+}
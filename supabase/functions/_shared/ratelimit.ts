@@ -34,15 +34,23 @@ export const RATE_LIMITS = {
   PASSWORD_RESET: { requests: 3, window: "24 h" },
   PASSWORD_CHANGE: { requests: 5, window: "1 h" },
   OTP_VERIFY: { requests: 5, window: "5 m" },
+  STUDENT_EMAIL_OTP: { requests: 10, window: "1 h" },
 
   // Business Operations
   BOOKING_CREATE: { requests: 10, window: "1 h" },
   BOOKING_EXTEND: { requests: 5, window: "1 h" },
+  BOOKING_CANCEL: { requests: 10, window: "1 h" },
+  BOOKING_MODIFY: { requests: 5, window: "1 h" },
+  BOOKING_EARLY_RETURN: { requests: 10, window: "1 h" },
+  MONTHLY_NOTICE_RESPONSE: { requests: 10, window: "1 h" },
+  DRIVER_INVITE: { requests: 30, window: "1 h" },
+  BOOKING_SCHEDULE_RETURN: { requests: 10, window: "1 h" },
   PAYMENT_INITIATE: { requests: 5, window: "15 m" },
 
   // File Operations
   FILE_UPLOAD: { requests: 20, window: "1 h" },
   VERIFICATION_UPLOAD: { requests: 10, window: "1 h" },
+  CUSTOMER_VERIFICATION: { requests: 10, window: "1 h" },
 
   // Email (via Resend)
   EMAIL_SEND: { requests: 10, window: "1 h" },
@@ -52,6 +60,10 @@ export const RATE_LIMITS = {
   POS_TRANSACTION: { requests: 20, window: "15 m" },
   TERMINAL_CONNECTION: { requests: 30, window: "15 m" },
 
+  // Booking Operations (Workers)
+  BOOKING_NO_SHOW: { requests: 20, window: "1 h" },
+  STUDENT_ID_REVIEW: { requests: 50, window: "1 h" },
+
   // API Protection
   PUBLIC_API: { requests: 100, window: "1 m" },
   DASHBOARD_REFRESH: { requests: 30, window: "1 m" },
@@ -0,0 +1,58 @@
+// supabase/functions/_shared/studentRules.ts
+// Student ID verification rules shared by the customer portal
+// (src/services/students), create-checkout-session and the student ID Edge
+// Functions. Keep this module dependency-free so both runtimes can import it.
+
+// ============================================
+// TYPES
+// ============================================
+export type StudentVerificationStatus = "pending" | "approved" | "rejected";
+
+export interface StudentVerificationInput {
+  status: StudentVerificationStatus;
+  /** YYYY-MM-DD: last day of the term / card expiry */
+  expiresOn: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const STUDENT_ID_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const STUDENT_ID_ALLOWED_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+];
+
+export const EDU_EMAIL_CODE_LENGTH = 6;
+export const EDU_EMAIL_CODE_TTL_MINUTES = 10;
+export const EDU_EMAIL_MAX_ATTEMPTS = 5;
+
+const EDU_EMAIL_REGEX = /^[^\s@]+@([a-z0-9-]+\.)+edu$/i;
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * True for school addresses (`*.edu`), the only ones we verify by code
+ */
+export function isEduEmail(email: string): boolean {
+  return EDU_EMAIL_REGEX.test(email.trim());
+}
+
+/**
+ * Whether a student ID can back a booking whose last day is `lastDay`
+ * (YYYY-MM-DD). Pending IDs count too: staff review them before pickup and
+ * a rejection re-prices the booking.
+ */
+export function studentIdCoversRental(
+  verification: StudentVerificationInput,
+  lastDay: string,
+): boolean {
+  return (
+    verification.status !== "rejected" && verification.expiresOn >= lastDay
+  );
+}
@@ -0,0 +1,153 @@
+// supabase/functions/_shared/vehicleHolds.ts
+// Short-lived vehicle holds covering the Stripe checkout window. Created by
+// create-checkout-session and modify-booking, released or converted by
+// stripe-webhook.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Stripe checkout session lifetime; Stripe's minimum is 30 minutes */
+export const CHECKOUT_SESSION_MINUTES = 30;
+
+/** Holds outlast the session, so the dates can't be lost mid-payment */
+export const CHECKOUT_HOLD_MINUTES = CHECKOUT_SESSION_MINUTES + 5;
+
+// ============================================
+// SESSION EXPIRY
+// ============================================
+
+/**
+ * `expires_at` for a checkout session created now. Call it right at
+ * `sessions.create`: the margin keeps it past Stripe's 30-minute minimum.
+ */
+export function checkoutSessionExpiresAt(): number {
+  return Math.floor(Date.now() / 1000) + (CHECKOUT_SESSION_MINUTES + 1) * 60;
+}
+
+// ============================================
+// CREATE
+// ============================================
+
+/**
+ * Atomically check the dates and claim them for this checkout.
+ * Returns the hold id, or null when the vehicle is booked or held.
+ * `excludeBookingId` is the booking being modified: it doesn't clash with
+ * itself, and the hold is linked to it.
+ */
+export async function createVehicleHold(
+  supabase: SupabaseClient,
+  hold: {
+    vehicleId: string;
+    userId: string;
+    pickupDate: string;
+    returnDate: string;
+    expiresAt: Date;
+    excludeBookingId?: string;
+  },
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("create_vehicle_hold", {
+    p_vehicle_id: hold.vehicleId,
+    p_user_id: hold.userId,
+    p_pickup_date: hold.pickupDate,
+    p_return_date: hold.returnDate,
+    p_expires_at: hold.expiresAt.toISOString(),
+    p_exclude_booking_id: hold.excludeBookingId ?? null,
+  });
+
+  if (error) throw error;
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Whether the dates are free of other bookings and live holds, leaving out
+ * the booking being modified
+ */
+export async function isVehicleAvailable(
+  supabase: SupabaseClient,
+  check: {
+    vehicleId: string;
+    pickupDate: string;
+    returnDate: string;
+    excludeBookingId?: string;
+  },
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("vehicle_dates_available", {
+    p_vehicle_id: check.vehicleId,
+    p_pickup_date: check.pickupDate,
+    p_return_date: check.returnDate,
+    p_exclude_booking_id: check.excludeBookingId ?? null,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+/**
+ * Link a hold to the pending booking (or modification revision) and its
+ * checkout session
+ */
+export async function attachVehicleHold(
+  supabase: SupabaseClient,
+  holdId: string,
+  links: { bookingId?: string; revisionId?: string; stripeSessionId?: string },
+): Promise<void> {
+  const { error } = await supabase
+    .from("vehicle_holds")
+    .update({
+      ...(links.bookingId ? { booking_id: links.bookingId } : {}),
+      ...(links.revisionId ? { revision_id: links.revisionId } : {}),
+      ...(links.stripeSessionId
+        ? { stripe_session_id: links.stripeSessionId }
+        : {}),
+    })
+    .eq("id", holdId);
+
+  if (error) throw error;
+}
+
+// ============================================
+// RELEASE / CONVERT
+// ============================================
+
+/**
+ * Free the dates of an active hold (checkout expired or failed).
+ * Safe to call more than once.
+ */
+export async function releaseVehicleHold(
+  supabase: SupabaseClient,
+  match: { holdId?: string | null; bookingId?: string | null },
+): Promise<void> {
+  if (!match.holdId && !match.bookingId) return;
+
+  let query = supabase
+    .from("vehicle_holds")
+    .update({ status: "released", released_at: new Date().toISOString() })
+    .eq("status", "active");
+
+  query = match.holdId
+    ? query.eq("id", match.holdId)
+    : query.eq("booking_id", match.bookingId as string);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * Hand the dates over to the paid booking. Converts holds that expired by
+ * time too - the payment completed, so the booking owns the dates.
+ */
+export async function convertVehicleHold(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("vehicle_holds")
+    .update({ status: "converted", converted_at: new Date().toISOString() })
+    .eq("booking_id", bookingId)
+    .eq("status", "active");
+
+  if (error) throw error;
+}
@@ -0,0 +1,46 @@
+// supabase/functions/_shared/vehicleStatus.ts
+// Vehicle fleet status around a booking's lifecycle. stripe-webhook marks a
+// vehicle reserved on payment; cancel-booking and the no-show handlers put
+// it back.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BLOCKING_STATUSES = ["pending", "confirmed", "active"];
+
+// ============================================
+// RELEASE
+// ============================================
+
+/**
+ * Put a reserved vehicle back to available unless another booking holds it.
+ * Failures are logged, not thrown: the booking is already settled by then.
+ */
+export async function releaseVehicle(
+  supabase: SupabaseClient,
+  vehicleId: string,
+): Promise<void> {
+  const { count, error: countError } = await supabase
+    .from("bookings")
+    .select("id", { count: "exact", head: true })
+    .eq("vehicle_id", vehicleId)
+    .in("status", BLOCKING_STATUSES);
+
+  if (countError) {
+    console.error("[vehicleStatus] Vehicle booking check failed:", countError);
+    return;
+  }
+  if ((count || 0) > 0) return;
+
+  const { error: vehicleError } = await supabase
+    .from("vehicles")
+    .update({ status: "available", updated_at: new Date().toISOString() })
+    .eq("id", vehicleId)
+    .eq("status", "reserved");
+
+  if (vehicleError) {
+    console.error("[vehicleStatus] Vehicle release failed:", vehicleError);
+  }
+}
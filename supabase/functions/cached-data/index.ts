@@ -1,9 +1,11 @@
 // supabase/functions/cached-data/index.ts
 // Cached Data API for 4A Rentals Customer Portal
-// Serves cached public data: vehicles, config, delivery locations, reviews
+// Serves cached public data: vehicles, config, delivery locations, reviews,
+// academic terms
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { toBusinessDateString } from "../_shared/dates.ts";
+import { getDeliverySlots } from "../_shared/deliverySlots.ts";
 import {
   cacheGetOrSet,
   cacheDel,
@@ -24,6 +26,9 @@ const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+// Realtime channel clients listen on for config invalidation
+const CONFIG_BROADCAST_CHANNEL = "system-config";
+
 // Use shared date helpers in ../_shared/dates.ts
 
 // ============================================
@@ -202,6 +207,9 @@ function parseRoute(url: URL): RouteMatch {
     if (segments[1] === "price-range") {
       return { handler: "vehicles:priceRange", params: {}, query };
     }
+    if (segments[1] === "availability") {
+      return { handler: "vehicles:availability", params: {}, query };
+    }
     // /vehicles/:id/reviews
     if (segments[2] === "reviews") {
       return {
@@ -218,6 +226,18 @@ function parseRoute(url: URL): RouteMatch {
         query,
       };
     }
+    // /vehicles/:id/availability
+    if (segments[2] === "availability") {
+      return {
+        handler: "vehicles:availabilityWindow",
+        params: { id: segments[1] },
+        query,
+      };
+    }
+    // /vehicles/:id/terms
+    if (segments[2] === "terms") {
+      return { handler: "vehicles:terms", params: { id: segments[1] }, query };
+    }
     // /vehicles/:id/rates
     if (segments[2] === "rates") {
       return { handler: "vehicles:rates", params: { id: segments[1] }, query };
@@ -251,6 +271,22 @@ function parseRoute(url: URL): RouteMatch {
     if (segments[1] === "drivers") {
       return { handler: "config:drivers", params: {}, query };
     }
+    // /config/entries (typed rows for client-side parsing)
+    if (segments[1] === "entries") {
+      return { handler: "config:entries", params: {}, query };
+    }
+    // /config/closures?start&end (closed business_calendar dates)
+    if (segments[1] === "closures") {
+      return { handler: "config:closures", params: {}, query };
+    }
+    // /config/category/:category
+    if (segments[1] === "category" && segments[2]) {
+      return {
+        handler: "config:category",
+        params: { category: segments[2] },
+        query,
+      };
+    }
     // /config/:key
     return { handler: "config:single", params: { key: segments[1] }, query };
   }
@@ -274,10 +310,19 @@ function parseRoute(url: URL): RouteMatch {
     if (segments[2] === "fee") {
       return { handler: "delivery:fee", params: { id: segments[1] }, query };
     }
+    // /delivery-locations/:id/slots
+    if (segments[2] === "slots") {
+      return { handler: "delivery:slots", params: { id: segments[1] }, query };
+    }
     // /delivery-locations/:id
     return { handler: "delivery:single", params: { id: segments[1] }, query };
   }
 
+  // ACADEMIC TERMS ROUTES
+  if (segments[0] === "terms" && segments.length === 1) {
+    return { handler: "terms:list", params: {}, query };
+  }
+
   // WORKERS PORTAL ROUTES
   if (segments[0] === "workers") {
     if (segments[1] === "dashboard-stats") {
@@ -567,6 +612,401 @@ async function handleVehicleRates(vehicleId: string): Promise<unknown> {
   );
 }
 
+// ============================================
+// AVAILABILITY HANDLERS
+// ============================================
+const ACTIVE_BOOKING_STATUSES = ["pending", "confirmed", "active"];
+const CLOSED_DATE_TYPES = ["holiday", "closed", "maintenance"];
+const AVAILABILITY_HORIZON_DAYS = 365;
+const AVAILABILITY_WINDOW_DEFAULT_DAYS = 183;
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+interface BlockedRange {
+  start: string;
+  end: string;
+}
+
+function isValidDateOnly(value: string | undefined): value is string {
+  return (
+    !!value &&
+    DATE_ONLY_REGEX.test(value) &&
+    !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+  );
+}
+
+function addDaysToDateString(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function daysBetweenDateStrings(start: string, end: string): number {
+  return Math.round(
+    (new Date(`${end}T00:00:00Z`).getTime() -
+      new Date(`${start}T00:00:00Z`).getTime()) /
+      (1000 * 60 * 60 * 24),
+  );
+}
+
+function overlapsAny(
+  start: string,
+  end: string,
+  ranges: BlockedRange[],
+): boolean {
+  return ranges.some((range) => start <= range.end && end >= range.start);
+}
+
+interface CalendarClosureRow {
+  calendar_date: string;
+  date_type: string | null;
+  open_time: string | null;
+}
+
+// Same closure rules as the customer booking calendar
+function isClosedCalendarRow(row: CalendarClosureRow): boolean {
+  return (
+    CLOSED_DATE_TYPES.includes(String(row.date_type).toLowerCase()) ||
+    (row.open_time === null && !!row.date_type)
+  );
+}
+
+function getClosureReason(row: {
+  date_type: string | null;
+  title: string | null;
+  customer_note: string | null;
+}): string {
+  if (row.customer_note) return row.customer_note;
+  if (row.title) return row.title;
+  if (row.date_type === "holiday") return "Holiday - Business Closed";
+  if (row.date_type === "maintenance") return "Maintenance Day";
+  return "Business Closed";
+}
+
+async function fetchBufferDays(): Promise<number> {
+  const { data } = await supabase
+    .from("system_config")
+    .select("value")
+    .eq("key", "vehicle_buffer_days")
+    .maybeSingle();
+
+  const parsed = parseInt(data?.value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 2;
+}
+
+function toBookedRange(booking: {
+  pickup_date: string;
+  return_date: string;
+}): BlockedRange {
+  return {
+    start: toBusinessDateString(new Date(booking.pickup_date)),
+    end: toBusinessDateString(new Date(booking.return_date)),
+  };
+}
+
+/**
+ * Live checkout holds (vehicle_holds) block dates like bookings do.
+ * Only vehicle and dates are selected.
+ */
+async function fetchActiveHolds(
+  vehicleId?: string,
+): Promise<{ vehicle_id: string; pickup_date: string; return_date: string }[]> {
+  let query = supabase
+    .from("vehicle_holds")
+    .select("vehicle_id, pickup_date, return_date")
+    .eq("status", "active")
+    .gt("expires_at", new Date().toISOString());
+
+  if (vehicleId) {
+    query = query.eq("vehicle_id", vehicleId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+function padRange(range: BlockedRange, bufferDays: number): BlockedRange {
+  return {
+    start: addDaysToDateString(range.start, -bufferDays),
+    end: addDaysToDateString(range.end, bufferDays),
+  };
+}
+
+/**
+ * Availability of every listed vehicle for a pickup/return date range.
+ * Checks booking and checkout-hold overlaps (padded by vehicle_buffer_days)
+ * and business_calendar closures on the pickup/return days. Unavailable
+ * vehicles get the next pickup date that fits the same rental length.
+ * Only dates are returned - never booking or customer details.
+ */
+async function handleVehiclesAvailability(
+  pickupDate: string,
+  returnDate: string,
+): Promise<unknown> {
+  const cacheKey = generateCacheKey(`${CACHE_PREFIX.VEHICLES}:availability`, {
+    pickup: pickupDate,
+    return: returnDate,
+  });
+
+  return cacheGetOrSet(
+    cacheKey,
+    async () => {
+      const today = toBusinessDateString();
+      const horizonEnd = addDaysToDateString(today, AVAILABILITY_HORIZON_DAYS);
+      const rentalDays = daysBetweenDateStrings(pickupDate, returnDate);
+
+      const [
+        vehiclesResult,
+        bookingsResult,
+        calendarResult,
+        bufferDays,
+        holds,
+      ] = await Promise.all([
+        supabase
+          .from("vehicles")
+          .select("id")
+          .in("status", ["available", "reserved", "rented"]),
+        supabase
+          .from("bookings")
+          .select("vehicle_id, pickup_date, return_date")
+          .in("status", ACTIVE_BOOKING_STATUSES)
+          .gte("return_date", today),
+        supabase
+          .from("business_calendar")
+          .select("calendar_date, date_type, open_time")
+          .gte("calendar_date", today)
+          .lte("calendar_date", horizonEnd),
+        fetchBufferDays(),
+        fetchActiveHolds(),
+      ]);
+
+      if (vehiclesResult.error) throw vehiclesResult.error;
+      if (bookingsResult.error) throw bookingsResult.error;
+      if (calendarResult.error) throw calendarResult.error;
+
+      const closedDates = new Set(
+        (calendarResult.data || [])
+          .filter(isClosedCalendarRow)
+          .map((row) => String(row.calendar_date)),
+      );
+
+      // Booked ranges per vehicle, padded for turnaround
+      const blockedByVehicle = new Map<string, BlockedRange[]>();
+      for (const booking of [...(bookingsResult.data || []), ...holds]) {
+        const ranges = blockedByVehicle.get(booking.vehicle_id) || [];
+        ranges.push(padRange(toBookedRange(booking), bufferDays));
+        blockedByVehicle.set(booking.vehicle_id, ranges);
+      }
+
+      const isOpenRange = (start: string, end: string) =>
+        !closedDates.has(start) && !closedDates.has(end);
+
+      const vehicles = (vehiclesResult.data || []).map((vehicle) => {
+        const ranges = blockedByVehicle.get(vehicle.id) || [];
+        const available =
+          isOpenRange(pickupDate, returnDate) &&
+          !overlapsAny(pickupDate, returnDate, ranges);
+
+        let nextAvailableDate: string | null = null;
+        if (!available) {
+          for (
+            let candidate = addDaysToDateString(pickupDate, 1);
+            candidate <= horizonEnd;
+            candidate = addDaysToDateString(candidate, 1)
+          ) {
+            const candidateReturn = addDaysToDateString(candidate, rentalDays);
+            if (
+              isOpenRange(candidate, candidateReturn) &&
+              !overlapsAny(candidate, candidateReturn, ranges)
+            ) {
+              nextAvailableDate = candidate;
+              break;
+            }
+          }
+        }
+
+        return { vehicleId: vehicle.id, available, nextAvailableDate };
+      });
+
+      return {
+        pickupDate,
+        returnDate,
+        closedDates: [pickupDate, returnDate].filter((date) =>
+          closedDates.has(date),
+        ),
+        vehicles,
+      };
+    },
+    { ttl: CACHE_TTL.FLEET_AVAILABILITY },
+  );
+}
+
+/**
+ * Availability window for a single vehicle, used by the booking, modify
+ * and extension calendars. Booked ranges (bookings plus live checkout
+ * holds) are returned unpadded alongside bufferDays so callers can tell
+ * booked days from turnaround days.
+ * Only dates are returned - never booking ids or customer details.
+ */
+async function handleVehicleAvailabilityWindow(
+  vehicleId: string,
+  start: string,
+  end: string,
+): Promise<unknown> {
+  const cacheKey = generateCacheKey(
+    `${CACHE_PREFIX.VEHICLES}:availability:vehicle:${vehicleId}`,
+    { start, end },
+  );
+
+  return cacheGetOrSet(
+    cacheKey,
+    async () => {
+      const [bookingsResult, calendarResult, bufferDays, holds] =
+        await Promise.all([
+          supabase
+            .from("bookings")
+            .select("pickup_date, return_date")
+            .eq("vehicle_id", vehicleId)
+            .in("status", ACTIVE_BOOKING_STATUSES)
+            .gte("return_date", start)
+            .lte("pickup_date", `${end}T23:59:59`)
+            .order("pickup_date", { ascending: true }),
+          supabase
+            .from("business_calendar")
+            .select(
+              "calendar_date, date_type, title, customer_note, open_time, delivery_available",
+            )
+            .gte("calendar_date", start)
+            .lte("calendar_date", end)
+            .order("calendar_date", { ascending: true }),
+          fetchBufferDays(),
+          fetchActiveHolds(vehicleId),
+        ]);
+
+      if (bookingsResult.error) throw bookingsResult.error;
+      if (calendarResult.error) throw calendarResult.error;
+
+      const calendarRows = calendarResult.data || [];
+
+      return {
+        vehicleId,
+        start,
+        end,
+        bufferDays,
+        blockedRanges: [...(bookingsResult.data || []), ...holds]
+          .map(toBookedRange)
+          .sort((a, b) => a.start.localeCompare(b.start)),
+        closedDates: calendarRows.filter(isClosedCalendarRow).map((row) => ({
+          date: String(row.calendar_date),
+          reason: getClosureReason(row),
+          type:
+            row.date_type === "holiday" || row.date_type === "maintenance"
+              ? row.date_type
+              : "closed",
+        })),
+        deliveryBlackouts: calendarRows
+          .filter((row) => row.delivery_available === false)
+          .map((row) => String(row.calendar_date)),
+      };
+    },
+    { ttl: CACHE_TTL.VEHICLE_AVAILABILITY },
+  );
+}
+
+// ============================================
+// ACADEMIC TERMS HANDLERS
+// ============================================
+interface AcademicTermRow {
+  id: string;
+  school_name: string;
+  season: string;
+  academic_year: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Active terms that haven't ended, soonest first. Terms already under way
+ * are filtered out per request so the cached list doesn't go stale at
+ * midnight.
+ */
+async function handleAcademicTerms(): Promise<AcademicTermRow[]> {
+  const cacheKey = `${CACHE_PREFIX.TERMS}:list`;
+
+  const terms = await cacheGetOrSet(
+    cacheKey,
+    async () => {
+      const { data, error } = await supabase
+        .from("academic_terms")
+        .select(
+          "id, school_name, season, academic_year, name, start_date, end_date",
+        )
+        .eq("is_active", true)
+        .gte("end_date", toBusinessDateString())
+        .order("start_date", { ascending: true })
+        .order("school_name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AcademicTermRow[];
+    },
+    { ttl: CACHE_TTL.ACADEMIC_TERMS },
+  );
+
+  const today = toBusinessDateString();
+  return terms.filter((term) => term.start_date > today);
+}
+
+/**
+ * Upcoming terms with whether this vehicle is free for the whole term:
+ * no booking or checkout hold (padded by vehicle_buffer_days) overlaps it
+ * and the store is open on its first and last day. Built from the cached
+ * term list and availability window, so booking writes show up as soon as
+ * the vehicle's availability is invalidated.
+ */
+async function handleVehicleTerms(vehicleId: string): Promise<unknown> {
+  const today = toBusinessDateString();
+  const horizonEnd = addDaysToDateString(today, AVAILABILITY_HORIZON_DAYS);
+  const terms = (await handleAcademicTerms()).filter(
+    (term) => term.end_date <= horizonEnd,
+  );
+
+  if (terms.length === 0) {
+    return { vehicleId, terms: [] };
+  }
+
+  const lastEnd = terms.reduce(
+    (latest, term) => (term.end_date > latest ? term.end_date : latest),
+    terms[0].end_date,
+  );
+
+  const availability = (await handleVehicleAvailabilityWindow(
+    vehicleId,
+    today,
+    lastEnd,
+  )) as {
+    bufferDays: number;
+    blockedRanges: BlockedRange[];
+    closedDates: { date: string }[];
+  };
+
+  const ranges = availability.blockedRanges.map((range) =>
+    padRange(range, availability.bufferDays),
+  );
+  const closedDates = new Set(availability.closedDates.map((row) => row.date));
+
+  return {
+    vehicleId,
+    terms: terms.map((term) => ({
+      ...term,
+      available:
+        !closedDates.has(term.start_date) &&
+        !closedDates.has(term.end_date) &&
+        !overlapsAny(term.start_date, term.end_date, ranges),
+    })),
+  };
+}
+
 // ============================================
 // REVIEWS HANDLERS
 // ============================================
@@ -586,8 +1026,11 @@ async function handleVehicleReviews(
     async () => {
       const { data, error } = await supabase
         .from("reviews")
-        .select("*")
+        .select(
+          "id, vehicle_id, reservation_id, rating, comment, reviewer_name, is_verified, created_at, updated_at",
+        )
         .eq("vehicle_id", vehicleId)
+        .eq("moderation_status", "approved")
         .order("created_at", { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -617,9 +1060,28 @@ async function handleVehicleReviewStats(vehicleId: string): Promise<unknown> {
         throw error;
       }
 
+      // Distribution is built from approved reviews, matching the
+      // aggregates maintained by update_vehicle_rating()
+      const { data: ratings, error: ratingsError } = await supabase
+        .from("reviews")
+        .select("rating")
+        .eq("vehicle_id", vehicleId)
+        .eq("moderation_status", "approved");
+
+      if (ratingsError) throw ratingsError;
+
+      const ratingDistribution = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
+      (ratings || []).forEach((r) => {
+        const rating = Number(r.rating) as keyof typeof ratingDistribution;
+        if (rating in ratingDistribution) {
+          ratingDistribution[rating] += 1;
+        }
+      });
+
       return {
         averageRating: data.average_rating ? Number(data.average_rating) : null,
         reviewCount: Number(data.review_count) || 0,
+        ratingDistribution,
       };
     },
     { ttl: CACHE_TTL.VEHICLES_LIST },
@@ -674,6 +1136,27 @@ async function handleConfigSingle(key: string): Promise<unknown> {
   );
 }
 
+/**
+ * Get config rows with their data type and bounds so clients can parse
+ * and validate values instead of trusting raw strings
+ */
+async function handleConfigEntries(): Promise<unknown> {
+  const cacheKey = `${CACHE_PREFIX.CONFIG}:entries`;
+
+  return cacheGetOrSet(
+    cacheKey,
+    async () => {
+      const { data, error } = await supabase
+        .from("system_config")
+        .select("key, value, data_type, category, min_value, max_value");
+
+      if (error) throw error;
+      return data || [];
+    },
+    { ttl: CACHE_TTL.SYSTEM_CONFIG },
+  );
+}
+
 /**
  * Get configs by category (FIXED: uses category field, not key prefix)
  */
@@ -703,6 +1186,43 @@ async function handleConfigByCategory(category: string): Promise<unknown> {
   );
 }
 
+/**
+ * Dates the business is closed between start and end, used to count
+ * business days (e.g. the security deposit release date)
+ */
+async function handleConfigClosures(
+  start: string,
+  end: string,
+): Promise<unknown> {
+  const cacheKey = generateCacheKey(
+    `${CACHE_PREFIX.CONFIG}:calendar:closures`,
+    { start, end },
+  );
+
+  return cacheGetOrSet(
+    cacheKey,
+    async () => {
+      const { data, error } = await supabase
+        .from("business_calendar")
+        .select("calendar_date, date_type, open_time")
+        .gte("calendar_date", start)
+        .lte("calendar_date", end)
+        .order("calendar_date", { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        start,
+        end,
+        closedDates: (data || [])
+          .filter(isClosedCalendarRow)
+          .map((row) => String(row.calendar_date)),
+      };
+    },
+    { ttl: CACHE_TTL.BUSINESS_CALENDAR },
+  );
+}
+
 // ============================================
 // DELIVERY LOCATIONS HANDLERS
 // ============================================
@@ -832,10 +1352,41 @@ async function handleDeliveryFee(id: string): Promise<unknown> {
   );
 }
 
+/**
+ * Delivery time slots with remaining capacity for a location and date.
+ * Cleared on booking, calendar and delivery location writes.
+ */
+async function handleDeliverySlots(id: string, date: string): Promise<unknown> {
+  const cacheKey = generateCacheKey(
+    `${CACHE_PREFIX.CONFIG}:delivery-locations:slots`,
+    { id, date },
+  );
+
+  return cacheGetOrSet(cacheKey, () => getDeliverySlots(supabase, id, date), {
+    ttl: CACHE_TTL.DELIVERY_SLOTS,
+  });
+}
+
 // ============================================
 // CACHE INVALIDATION ENDPOINT
 // ============================================
 
+/**
+ * Notify subscribed clients (useConfig) that config values changed.
+ * Best effort: a failed broadcast only delays reload until the client TTL.
+ */
+async function broadcastConfigInvalidated(): Promise<void> {
+  try {
+    await supabase.channel(CONFIG_BROADCAST_CHANNEL).send({
+      type: "broadcast",
+      event: "invalidated",
+      payload: { timestamp: new Date().toISOString() },
+    });
+  } catch (error) {
+    console.error("[INVALIDATE] Config broadcast failed:", error);
+  }
+}
+
 /**
  * Handle cache invalidation requests
  * Called by database triggers via pg_net or manually
@@ -855,14 +1406,35 @@ async function handleInvalidate(
         await cacheDel(`${CACHE_PREFIX.STATS}:dashboard`);
         break;
 
+      case "reviews":
+        // Clear review lists and stats (rating aggregates live on vehicles,
+        // whose own trigger clears the vehicle caches)
+        await cacheDelPattern(`${CACHE_PREFIX.VEHICLES}:reviews:*`);
+        await cacheDelPattern(`${CACHE_PREFIX.VEHICLES}:review-stats:*`);
+        break;
+
       case "bookings":
-        // Clear dashboard stats (has booking counts)
+        // Clear dashboard stats (has booking counts); availability is
+        // cleared per vehicle by the "availability:<vehicleId>" target
         await cacheDel(`${CACHE_PREFIX.STATS}:dashboard`);
         break;
 
+      case "calendar":
+        // Store closures affect every vehicle's availability and the
+        // delivery slots offered each day
+        await cacheDelPattern(`${CACHE_PREFIX.CONFIG}:calendar:*`);
+        await cacheDelPattern(
+          `${CACHE_PREFIX.CONFIG}:delivery-locations:slots:*`,
+        );
+        await cacheDelPattern(`${CACHE_PREFIX.VEHICLES}:availability:*`);
+        break;
+
       case "config":
-        // Clear all config caches
+        // Clear all config caches and tell open clients to reload.
+        // Availability depends on vehicle_buffer_days.
         await cacheDelPattern(`${CACHE_PREFIX.CONFIG}:*`);
+        await cacheDelPattern(`${CACHE_PREFIX.VEHICLES}:availability:*`);
+        await broadcastConfigInvalidated();
         break;
 
       case "delivery-locations":
@@ -870,6 +1442,12 @@ async function handleInvalidate(
         await cacheDelPattern(`${CACHE_PREFIX.CONFIG}:delivery-locations:*`);
         break;
 
+      case "terms":
+        // Clear the academic term list; per-vehicle term availability is
+        // built from it on each request
+        await cacheDelPattern(`${CACHE_PREFIX.TERMS}:*`);
+        break;
+
       case "customers":
         // Clear customer list cache and dashboard stats
         await cacheDelPattern(`${CACHE_PREFIX.CUSTOMERS}:*`);
@@ -879,9 +1457,24 @@ async function handleInvalidate(
       case "all":
         // Nuclear option - clear everything
         await cacheDelPattern("*");
+        await broadcastConfigInvalidated();
         break;
 
       default:
+        if (target.startsWith("availability:")) {
+          // A booking for one vehicle changed: clear its windows and the
+          // fleet date search, leaving other vehicles cached
+          const vehicleId = target.slice("availability:".length);
+          await cacheDelPattern(
+            `${CACHE_PREFIX.VEHICLES}:availability:vehicle:${vehicleId}:*`,
+          );
+          await cacheDelPattern(`${CACHE_PREFIX.VEHICLES}:availability:pickup=*`);
+          // Slot capacity counts deliveries across all vehicles
+          await cacheDelPattern(
+            `${CACHE_PREFIX.CONFIG}:delivery-locations:slots:*`,
+          );
+          break;
+        }
         // Try to delete as a specific key
         await cacheDel(target);
     }
@@ -1229,11 +1822,16 @@ Deno.serve(async (req: Request) => {
               "GET /vehicles/categories",
               "GET /vehicles/category-counts",
               "GET /vehicles/category-pricing",
+              "GET /vehicles/availability?pickup=2024-09-01&return=2024-12-15",
+              "GET /vehicles/:id/availability?start=2024-09-01&end=2025-03-01",
               "GET /vehicles/:id/rates",
+              "GET /vehicles/:id/terms",
               "GET /vehicles/:id/reviews",
               "GET /vehicles/:id/review-stats",
               "GET /config",
               "GET /config/:key",
+              "GET /config/entries",
+              "GET /config/category/:category",
               "GET /config/fees",
               "GET /config/timing",
               "GET /config/store-hours",
@@ -1243,6 +1841,8 @@ Deno.serve(async (req: Request) => {
               "GET /delivery-locations/city/:city",
               "GET /delivery-locations/:id",
               "GET /delivery-locations/:id/fee",
+              "GET /delivery-locations/:id/slots?date=2024-09-01",
+              "GET /terms",
               "--- Workers Portal ---",
               "GET /workers/dashboard-stats",
               "GET /workers/vehicles?status=available",
@@ -1288,6 +1888,44 @@ Deno.serve(async (req: Request) => {
           Number(route.query.max) || 999999,
         );
         break;
+      case "vehicles:availability": {
+        const pickup = route.query.pickup;
+        const ret = route.query.return;
+        if (
+          !isValidDateOnly(pickup) ||
+          !isValidDateOnly(ret) ||
+          ret <= pickup ||
+          pickup < toBusinessDateString()
+        ) {
+          return errorResponse("Invalid pickup or return date", corsHeaders, 400);
+        }
+        data = await handleVehiclesAvailability(pickup, ret);
+        break;
+      }
+      case "vehicles:availabilityWindow": {
+        const today = toBusinessDateString();
+        const start = route.query.start || today;
+        const end =
+          route.query.end ||
+          addDaysToDateString(start, AVAILABILITY_WINDOW_DEFAULT_DAYS);
+        if (
+          !isValidDateOnly(start) ||
+          !isValidDateOnly(end) ||
+          end < start ||
+          daysBetweenDateStrings(start, end) > AVAILABILITY_HORIZON_DAYS
+        ) {
+          return errorResponse("Invalid availability window", corsHeaders, 400);
+        }
+        data = await handleVehicleAvailabilityWindow(
+          route.params.id,
+          start,
+          end,
+        );
+        break;
+      }
+      case "vehicles:terms":
+        data = await handleVehicleTerms(route.params.id);
+        break;
       case "vehicles:rates":
         data = await handleVehicleRates(route.params.id);
         if (data === null) {
@@ -1315,6 +1953,28 @@ Deno.serve(async (req: Request) => {
       case "config:single":
         data = await handleConfigSingle(route.params.key);
         break;
+      case "config:entries":
+        data = await handleConfigEntries();
+        break;
+      case "config:category":
+        data = await handleConfigByCategory(route.params.category);
+        break;
+      case "config:closures": {
+        const start = route.query.start || toBusinessDateString();
+        const end =
+          route.query.end ||
+          addDaysToDateString(start, AVAILABILITY_WINDOW_DEFAULT_DAYS);
+        if (
+          !isValidDateOnly(start) ||
+          !isValidDateOnly(end) ||
+          end < start ||
+          daysBetweenDateStrings(start, end) > AVAILABILITY_HORIZON_DAYS
+        ) {
+          return errorResponse("Invalid date range", corsHeaders, 400);
+        }
+        data = await handleConfigClosures(start, end);
+        break;
+      }
       case "config:fees":
         data = await handleConfigByCategory("fees");
         break;
@@ -1353,6 +2013,19 @@ Deno.serve(async (req: Request) => {
       case "delivery:fee":
         data = await handleDeliveryFee(route.params.id);
         break;
+      case "delivery:slots": {
+        const date = route.query.date;
+        if (!isValidDateOnly(date) || date < toBusinessDateString()) {
+          return errorResponse("Invalid delivery date", corsHeaders, 400);
+        }
+        data = await handleDeliverySlots(route.params.id, date);
+        break;
+      }
+
+      // Academic terms
+      case "terms:list":
+        data = await handleAcademicTerms();
+        break;
 
       // Invalidation (POST only, requires internal API key)
       case "invalidate": {
@@ -0,0 +1,588 @@
+// supabase/functions/cancel-booking/index.ts
+import { createClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import { releasePromoRedemption } from "../_shared/promoCodes.ts";
+import { restoreAccountCredit } from "../_shared/accountCredits.ts";
+import {
+  allocateRefund,
+  getBookingPayments,
+  refundableTotal,
+} from "../_shared/bookingPayments.ts";
+import { releaseVehicleHold } from "../_shared/vehicleHolds.ts";
+import { releaseVehicle } from "../_shared/vehicleStatus.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+// ============================================
+// TYPES
+// ============================================
+interface CancelBookingPayload {
+  bookingId: string;
+  reason?: string;
+  preview?: boolean;
+}
+
+interface CancellableBookingRow {
+  pickup_date: string;
+  payment_status: string | null;
+  stripe_payment_intent_id: string | null;
+  total_price: number | string | null;
+  security_deposit: number | string | null;
+}
+
+interface CancellationBreakdown {
+  paid: boolean;
+  rentCharged: number;
+  cancellationFee: number;
+  rentRefund: number;
+  depositRefund: number;
+  totalRefund: number;
+  hoursUntilPickup: number;
+  cutoffHours: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const CANCELLABLE_STATUSES = ["pending", "confirmed"];
+const DEFAULT_CANCELLATION_FEE = 50;
+const DEFAULT_CUTOFF_HOURS = 24;
+const MAX_REASON_LENGTH = 500;
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function toAmount(value: unknown): number {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Work out the refund split. The fee is only retained from the rent
+ * (rental + delivery + additional driver fees); the deposit is returned in full.
+ */
+function calculateCancellation(
+  booking: CancellableBookingRow,
+  cancellationFee: number,
+  cutoffHours: number,
+): CancellationBreakdown {
+  const hoursUntilPickup =
+    (new Date(booking.pickup_date).getTime() - Date.now()) / (1000 * 60 * 60);
+  const paid =
+    booking.payment_status === "paid" && Boolean(booking.stripe_payment_intent_id);
+
+  const depositCents = toCents(toAmount(booking.security_deposit));
+  const rentCents = paid
+    ? Math.max(0, toCents(toAmount(booking.total_price)) - depositCents)
+    : 0;
+  const feeCents = paid ? Math.min(toCents(cancellationFee), rentCents) : 0;
+  const rentRefundCents = rentCents - feeCents;
+  const depositRefundCents = paid ? depositCents : 0;
+
+  return {
+    paid,
+    rentCharged: fromCents(rentCents),
+    cancellationFee: fromCents(feeCents),
+    rentRefund: fromCents(rentRefundCents),
+    depositRefund: fromCents(depositRefundCents),
+    totalRefund: fromCents(rentRefundCents + depositRefundCents),
+    hoursUntilPickup: Math.floor(hoursUntilPickup),
+    cutoffHours,
+  };
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize clients
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired session" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit("BOOKING_CANCEL", user.id);
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many cancellation requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: CancelBookingPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid request body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { bookingId, preview = false } = payload;
+    const reason =
+      typeof payload.reason === "string"
+        ? payload.reason.trim().slice(0, MAX_REASON_LENGTH)
+        : "";
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return new Response(JSON.stringify({ error: "Invalid booking ID" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // ============================================
+    // 4. FETCH BOOKING (with ownership check)
+    // ============================================
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select(
+        "id, user_id, vehicle_id, status, payment_status, pickup_date, total_price, security_deposit, stripe_payment_intent_id, stripe_session_id",
+      )
+      .eq("id", bookingId)
+      .eq("user_id", user.id) // CRITICAL: Only fetch if user owns the booking
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found or access denied" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (booking.status === "cancelled") {
+      return new Response(
+        JSON.stringify({
+          error: "This booking has already been cancelled.",
+          code: "ALREADY_CANCELLED",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+      return new Response(
+        JSON.stringify({
+          error: "This booking cannot be cancelled.",
+          code: "INVALID_STATUS",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 5. CANCELLATION POLICY (system_config)
+    // ============================================
+    const { data: policyRows } = await supabase
+      .from("system_config")
+      .select("key, value")
+      .in("key", ["cancellation_fee", "modification_cutoff_hours"]);
+
+    const policy = Object.fromEntries(
+      (policyRows || []).map((row) => [row.key, row.value]),
+    );
+
+    const feeValue = Number.parseFloat(policy.cancellation_fee ?? "");
+    const cutoffValue = Number.parseInt(
+      policy.modification_cutoff_hours ?? "",
+      10,
+    );
+    const cancellationFee =
+      Number.isFinite(feeValue) && feeValue >= 0
+        ? feeValue
+        : DEFAULT_CANCELLATION_FEE;
+    const cutoffHours =
+      Number.isFinite(cutoffValue) && cutoffValue >= 0
+        ? cutoffValue
+        : DEFAULT_CUTOFF_HOURS;
+
+    const breakdown = calculateCancellation(
+      booking,
+      cancellationFee,
+      cutoffHours,
+    );
+
+    if (breakdown.hoursUntilPickup < cutoffHours) {
+      return new Response(
+        JSON.stringify({
+          error: `Bookings can't be cancelled online within ${cutoffHours} hours of pickup. Please contact us to cancel.`,
+          code: "PAST_CUTOFF",
+          breakdown,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 6. PREVIEW (no side effects)
+    // ============================================
+    if (preview) {
+      return new Response(JSON.stringify({ preview: true, ...breakdown }), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          ...rateLimitHeaders(rateLimitResult),
+        },
+      });
+    }
+
+    // ============================================
+    // 7a. UNPAID BOOKING: CLOSE ITS CHECKOUT
+    // ============================================
+    // A checkout left open could still take payment after the cancellation
+    if (!breakdown.paid && booking.stripe_session_id) {
+      const session = await stripe.checkout.sessions.retrieve(
+        booking.stripe_session_id,
+      );
+
+      if (session.status === "complete") {
+        return new Response(
+          JSON.stringify({
+            error:
+              "Your payment is still being processed. Please try again in a few minutes.",
+            code: "PAYMENT_PROCESSING",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      if (session.status === "open") {
+        await stripe.checkout.sessions.expire(session.id);
+      }
+    }
+
+    // ============================================
+    // 7b. ISSUE STRIPE REFUNDS (rent and deposit separately)
+    // ============================================
+    const refunds: {
+      refund_type: "rent" | "deposit";
+      amount: number;
+      stripe_refund_id: string;
+      stripe_payment_intent_id: string;
+      status: string;
+    }[] = [];
+
+    if (breakdown.paid && breakdown.totalRefund > 0) {
+      // Modifications may have been paid on their own payment intents
+      const payments = await getBookingPayments(supabase, stripe, booking);
+      const refundableCents = refundableTotal(payments);
+
+      if (toCents(breakdown.totalRefund) > refundableCents) {
+        console.error("[cancel-booking] Refund exceeds refundable amount:", {
+          bookingId,
+          requested: toCents(breakdown.totalRefund),
+          refundable: refundableCents,
+        });
+        return new Response(
+          JSON.stringify({
+            error:
+              "We couldn't process your refund automatically. Please contact us to cancel.",
+            code: "REFUND_UNAVAILABLE",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const portions: ["rent" | "deposit", number][] = [
+        ["rent", breakdown.rentRefund],
+        ["deposit", breakdown.depositRefund],
+      ];
+
+      for (const [refundType, amount] of portions) {
+        if (amount <= 0) continue;
+
+        for (const allocation of allocateRefund(payments, toCents(amount))) {
+          // Idempotency keys make a retried cancellation safe
+          const refund = await stripe.refunds.create(
+            {
+              payment_intent: allocation.paymentIntentId,
+              amount: allocation.cents,
+              reason: "requested_by_customer",
+              metadata: {
+                type: "booking_cancellation",
+                refund_type: refundType,
+                booking_id: bookingId,
+                user_id: user.id,
+              },
+            },
+            {
+              idempotencyKey: `cancel_${bookingId}_${refundType}_${allocation.paymentIntentId}`,
+            },
+          );
+
+          refunds.push({
+            refund_type: refundType,
+            amount: fromCents(allocation.cents),
+            stripe_refund_id: refund.id,
+            stripe_payment_intent_id: allocation.paymentIntentId,
+            status: refund.status || "pending",
+          });
+        }
+      }
+    }
+
+    // ============================================
+    // 8. UPDATE BOOKING
+    // ============================================
+    const cancelledAt = new Date().toISOString();
+    const bookingUpdate: Record<string, unknown> = {
+      status: "cancelled",
+      cancelled_at: cancelledAt,
+      cancelled_by: user.id,
+      cancellation_reason: reason || null,
+      cancellation_fee_applied: breakdown.cancellationFee,
+      rental_refund_amount: breakdown.rentRefund,
+    };
+
+    if (breakdown.paid) {
+      bookingUpdate.payment_status = "refunded";
+      bookingUpdate.security_deposit_amount_returned = breakdown.depositRefund;
+      bookingUpdate.security_deposit_returned = breakdown.depositRefund > 0;
+      bookingUpdate.security_deposit_return_date =
+        breakdown.depositRefund > 0 ? cancelledAt : null;
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("bookings")
+      .update(bookingUpdate)
+      .eq("id", bookingId)
+      .eq("user_id", user.id)
+      .in("status", CANCELLABLE_STATUSES)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      console.error("[cancel-booking] Booking update failed:", {
+        bookingId,
+        error: updateError,
+        refunds: refunds.map((r) => r.stripe_refund_id),
+      });
+      return new Response(
+        JSON.stringify({ error: "Failed to cancel booking" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // The checkout hold of an unpaid booking goes with it
+    if (!breakdown.paid) {
+      try {
+        await releaseVehicleHold(supabase, { bookingId });
+      } catch (holdError) {
+        console.error("[cancel-booking] Hold release failed:", holdError);
+      }
+    }
+
+    // The webhook marked the vehicle reserved on payment
+    if (breakdown.paid && booking.vehicle_id) {
+      await releaseVehicle(supabase, booking.vehicle_id);
+    }
+
+    // A cancelled booking gives its promo code use and account credit back
+    try {
+      await releasePromoRedemption(supabase, bookingId);
+    } catch (promoError) {
+      console.error("[cancel-booking] Promo release failed:", promoError);
+    }
+    try {
+      await restoreAccountCredit(supabase, bookingId, "Booking cancelled");
+    } catch (creditError) {
+      console.error("[cancel-booking] Credit restore failed:", creditError);
+    }
+
+    // ============================================
+    // 9. RECORD REFUNDS
+    // ============================================
+    if (refunds.length > 0) {
+      const { error: ledgerError } = await supabase
+        .from("booking_refunds")
+        .upsert(
+          refunds.map((refund) => ({
+            booking_id: bookingId,
+            refund_type: refund.refund_type,
+            amount: refund.amount,
+            reason: "cancellation",
+            stripe_refund_id: refund.stripe_refund_id,
+            stripe_payment_intent_id: refund.stripe_payment_intent_id,
+            status: refund.status,
+            created_by: user.id,
+          })),
+          { onConflict: "stripe_refund_id" },
+        );
+
+      if (ledgerError) {
+        // Refunds and booking are already settled; staff can reconcile from Stripe
+        console.error("[cancel-booking] Refund ledger insert failed:", ledgerError);
+      }
+    }
+
+    console.log("✅ [cancel-booking] Booking cancelled:", {
+      bookingId,
+      userId: user.id,
+      fee: breakdown.cancellationFee,
+      rentRefund: breakdown.rentRefund,
+      depositRefund: breakdown.depositRefund,
+    });
+
+    // ============================================
+    // 10. RETURN SUCCESS
+    // ============================================
+    return new Response(
+      JSON.stringify({
+        preview: false,
+        ...breakdown,
+        cancelledAt,
+        refundIds: refunds.map((r) => r.stripe_refund_id),
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          ...rateLimitHeaders(rateLimitResult),
+        },
+      },
+    );
+  } catch (error) {
+    console.error("[cancel-booking] Unexpected error:", error);
+
+    return new Response(
+      JSON.stringify({
+        error: "An unexpected error occurred. Please try again.",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
@@ -6,6 +6,12 @@ import {
   rateLimitResponse,
   rateLimitHeaders,
 } from "../_shared/ratelimit.ts";
+import { toBusinessDateString } from "../_shared/dates.ts";
+import {
+  driverEligibilityRulesFromConfig,
+  evaluateDriversEligibility,
+  normalizeLicenseCountry,
+} from "../_shared/driverEligibility.ts";
 
 // ============================================
 // ENVIRONMENT VARIABLES
@@ -15,6 +21,18 @@ const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
 const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 
+// ============================================
+// CONSTANTS
+// ============================================
+const DRIVER_CONFIG_KEYS = [
+  "min_driver_age",
+  "max_additional_drivers",
+  "us_license_only",
+  "young_driver_fee_enabled",
+  "young_driver_fee_under_21",
+  "young_driver_fee_under_25",
+];
+
 // ============================================
 // ALLOWED ORIGINS (Workers Portal)
 // ============================================
@@ -53,6 +71,7 @@ interface CustomerData {
   phone: string;
   dateOfBirth: string;
   driversLicense: string;
+  licenseCountry?: string;
   streetAddress?: string;
   city?: string;
   state?: string;
@@ -68,6 +87,7 @@ interface AdditionalDriverData {
   phone: string;
   dateOfBirth: string;
   driversLicense: string;
+  licenseCountry?: string;
   streetAddress?: string;
   city?: string;
   state?: string;
@@ -85,6 +105,7 @@ interface PricingData {
   securityDeposit: number;
   deliveryFee: number;
   additionalDriverFee: number;
+  youngDriverFee?: number; // Must match the server's driver eligibility check
   totalPrice: number;
   pricingMethod?: string;
 }
@@ -433,6 +454,56 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Walk-in drivers follow the same age and license rules as online
+    // bookings, judged on the pickup date
+    const { data: driverConfigRows } = await supabaseAdmin
+      .from("system_config")
+      .select("key, value")
+      .in("key", DRIVER_CONFIG_KEYS);
+
+    const driverEligibility = evaluateDriversEligibility(
+      [customerData, ...(additionalDrivers || [])],
+      toBusinessDateString(new Date(pickupDate)),
+      driverEligibilityRulesFromConfig(
+        Object.fromEntries(
+          (driverConfigRows || []).map((row) => [row.key, row.value]),
+        ),
+      ),
+    );
+
+    if (!driverEligibility.eligible) {
+      return new Response(
+        JSON.stringify({
+          error: driverEligibility.reasons.join(". "),
+          code: "DRIVER_INELIGIBLE",
+          reasons: driverEligibility.reasons,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // The total charged at the counter must include the surcharge we'd charge
+    // online for the same drivers
+    const clientYoungDriverFee = pricingData.youngDriverFee || 0;
+    if (clientYoungDriverFee !== driverEligibility.youngDriverFee) {
+      return new Response(
+        JSON.stringify({
+          error: `Young driver surcharge should be ${formatCurrency(
+            driverEligibility.youngDriverFee,
+          )}`,
+          code: "YOUNG_DRIVER_FEE_MISMATCH",
+          youngDriverFee: driverEligibility.youngDriverFee,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
     // ============================================
     // 4. VERIFY PRIMARY DRIVER VERIFICATION
     // ============================================
@@ -621,6 +692,7 @@ Deno.serve(async (req: Request) => {
       rental_amount: pricingData.rentalAmount,
       security_deposit: pricingData.securityDeposit,
       additional_driver_fee: pricingData.additionalDriverFee || 0,
+      young_driver_fee: driverEligibility.youngDriverFee,
       total_price: pricingData.totalPrice,
       is_student_booking: customerData.isStudent || false,
       is_walk_in: true,
@@ -669,6 +741,7 @@ Deno.serve(async (req: Request) => {
           email: customerData.email,
           phone: customerData.phone,
           drivers_license: customerData.driversLicense,
+          license_country: normalizeLicenseCountry(customerData.licenseCountry),
           date_of_birth: customerData.dateOfBirth,
           street_address: customerData.streetAddress || null,
           city: customerData.city || null,
@@ -776,6 +849,9 @@ Deno.serve(async (req: Request) => {
             email: additionalDriver.email,
             phone: additionalDriver.phone,
             drivers_license: additionalDriver.driversLicense,
+            license_country: normalizeLicenseCountry(
+              additionalDriver.licenseCountry,
+            ),
             date_of_birth: additionalDriver.dateOfBirth,
             street_address: additionalDriver.streetAddress || null,
             city: additionalDriver.city || null,
@@ -6,6 +6,34 @@ import {
   rateLimitResponse,
   rateLimitHeaders,
 } from "../_shared/ratelimit.ts";
+import { toBusinessDateString } from "../_shared/dates.ts";
+import { validateDeliverySlot } from "../_shared/deliverySlots.ts";
+import { studentIdCoversRental } from "../_shared/studentRules.ts";
+import {
+  DEFAULT_LICENSE_COUNTRY,
+  YOUNG_DRIVER_TIER_LABELS,
+  driverEligibilityRulesFromConfig,
+  driverLabel,
+  evaluateDriversEligibility,
+  normalizeLicenseCountry,
+} from "../_shared/driverEligibility.ts";
+import {
+  CHECKOUT_HOLD_MINUTES,
+  attachVehicleHold,
+  checkoutSessionExpiresAt,
+  createVehicleHold,
+  releaseVehicleHold,
+} from "../_shared/vehicleHolds.ts";
+import {
+  type PromoDiscount,
+  checkPromoCode,
+  reservePromoRedemption,
+} from "../_shared/promoCodes.ts";
+import {
+  applyAccountCredit,
+  getAccountCreditBalance,
+} from "../_shared/accountCredits.ts";
+import { applyLoyaltyBenefits } from "../_shared/loyalty.ts";
 
 // ============================================
 // ENVIRONMENT VARIABLES
@@ -16,6 +44,22 @@ const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
 const CUSTOMER_PORTAL_URL =
   Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
 
+// ============================================
+// CONSTANTS
+// ============================================
+// Fleet statuses that can take a booking for free dates; reserved and rented
+// cars are booked elsewhere in time, which the hold checks
+const BOOKABLE_VEHICLE_STATUSES = ["available", "reserved", "rented"];
+
+const DRIVER_CONFIG_KEYS = [
+  "min_driver_age",
+  "max_additional_drivers",
+  "us_license_only",
+  "young_driver_fee_enabled",
+  "young_driver_fee_under_21",
+  "young_driver_fee_under_25",
+];
+
 // ============================================
 // ALLOWED ORIGINS
 // ============================================
@@ -126,6 +170,7 @@ interface PrimaryDriverInput {
   email: string;
   phone: string;
   driversLicenseNumber: string;
+  licenseCountry?: string;
   dateOfBirth: string;
   streetAddress: string;
   city: string;
@@ -138,8 +183,11 @@ interface AdditionalDriverInput {
   firstName: string;
   lastName: string;
   email: string;
+  /** Email the driver a link to add the rest of their details themselves */
+  invite?: boolean;
   phone: string;
   driversLicenseNumber: string;
+  licenseCountry?: string;
   dateOfBirth: string;
   streetAddress: string;
   city: string;
@@ -156,7 +204,10 @@ interface CreateCheckoutRequest {
   pickupDate: string;
   returnDate: string;
   isStudentBooking?: boolean;
-  studentIdUrl?: string;
+  studentVerificationId?: string;
+  academicTermId?: string;
+  promoCode?: string;
+  useAccountCredit?: boolean;
   primaryDriver: PrimaryDriverInput;
   additionalDrivers?: AdditionalDriverInput[];
 }
@@ -185,6 +236,7 @@ Deno.serve(async (req: Request) => {
     apiVersion: "2024-11-20.acacia",
   });
 
+  let createdHoldId: string | null = null;
   let createdBookingId: string | null = null;
   let createdPrimaryDriverId: string | null = null;
 
@@ -257,7 +309,10 @@ Deno.serve(async (req: Request) => {
       pickupDate,
       returnDate,
       isStudentBooking,
-      studentIdUrl,
+      studentVerificationId,
+      academicTermId,
+      promoCode,
+      useAccountCredit,
       primaryDriver,
       additionalDrivers,
     } = payload;
@@ -322,8 +377,7 @@ Deno.serve(async (req: Request) => {
     // Validate delivery location if delivery
     if (
       pickupType === "delivery" &&
-      deliveryLocationId &&
-      !isValidUUID(deliveryLocationId)
+      (!deliveryLocationId || !isValidUUID(deliveryLocationId))
     ) {
       return new Response(
         JSON.stringify({ error: "Invalid delivery location" }),
@@ -375,10 +429,57 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Validate additional drivers (limit to 3)
-    if (additionalDrivers && additionalDrivers.length > 3) {
+    // Invited drivers only give a name and email at checkout
+    for (const driver of additionalDrivers || []) {
+      if (
+        !driver.firstName ||
+        !driver.lastName ||
+        !driver.email ||
+        !isValidEmail(driver.email)
+      ) {
+        return new Response(
+          JSON.stringify({
+            error: "Each additional driver needs a name and valid email",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // Every driver must meet the age and license rules on the pickup date;
+    // the young driver surcharge is recomputed here, never taken from the
+    // client
+    const { data: driverConfigRows } = await supabaseAdmin
+      .from("system_config")
+      .select("key, value")
+      .in("key", DRIVER_CONFIG_KEYS);
+
+    const driverRules = driverEligibilityRulesFromConfig(
+      Object.fromEntries(
+        (driverConfigRows || []).map((row) => [row.key, row.value]),
+      ),
+    );
+    const driverEligibility = evaluateDriversEligibility(
+      [
+        primaryDriver,
+        ...(additionalDrivers || []).map((driver) =>
+          driver.invite ? { dateOfBirth: "", pending: true } : driver,
+        ),
+      ],
+      toBusinessDateString(parsedPickupDate),
+      driverRules,
+    );
+
+    if (!driverEligibility.eligible) {
       return new Response(
-        JSON.stringify({ error: "Maximum 3 additional drivers allowed" }),
+        JSON.stringify({
+          error: driverEligibility.reasons.join(". "),
+          code: "DRIVER_INELIGIBLE",
+          reasons: driverEligibility.reasons,
+        }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -386,6 +487,94 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Student pricing needs the customer's own student ID, valid through the
+    // last day of the rental (staff review pending IDs before pickup)
+    let studentVerification: {
+      id: string;
+      document_path: string;
+      status: "pending" | "approved" | "rejected";
+    } | null = null;
+
+    if (isStudentBooking) {
+      if (!studentVerificationId || !isValidUUID(studentVerificationId)) {
+        return new Response(
+          JSON.stringify({
+            error: "Please upload your student ID to get student pricing",
+            code: "STUDENT_ID_REQUIRED",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const { data: verification } = await supabaseAdmin
+        .from("student_verifications")
+        .select("id, document_path, status, expires_on")
+        .eq("id", studentVerificationId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (
+        !verification ||
+        !studentIdCoversRental(
+          { status: verification.status, expiresOn: verification.expires_on },
+          toBusinessDateString(parsedReturnDate),
+        )
+      ) {
+        return new Response(
+          JSON.stringify({
+            error:
+              "Your student ID isn't valid through the end of this rental",
+            code: "STUDENT_ID_INVALID",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      studentVerification = verification;
+    }
+
+    // A semester rental covers exactly one active academic term, first day
+    // to last, and is always a student booking
+    let academicTerm: { id: string; name: string } | null = null;
+
+    if (academicTermId) {
+      const { data: term } =
+        isStudentBooking && isValidUUID(academicTermId)
+          ? await supabaseAdmin
+              .from("academic_terms")
+              .select("id, name, start_date, end_date")
+              .eq("id", academicTermId)
+              .eq("is_active", true)
+              .maybeSingle()
+          : { data: null };
+
+      if (
+        !term ||
+        toBusinessDateString(parsedPickupDate) !== term.start_date ||
+        toBusinessDateString(parsedReturnDate) !== term.end_date
+      ) {
+        return new Response(
+          JSON.stringify({
+            error:
+              "The selected term is no longer offered for these dates. Please choose it again.",
+            code: "TERM_INVALID",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      academicTerm = term;
+    }
+
     // ============================================
     // 4. FETCH VEHICLE & VERIFY AVAILABILITY
     // ============================================
@@ -402,7 +591,7 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    if (vehicle.status !== "available") {
+    if (!BOOKABLE_VEHICLE_STATUSES.includes(vehicle.status)) {
       return new Response(
         JSON.stringify({ error: "Vehicle is not available for booking" }),
         {
@@ -412,42 +601,97 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Check for conflicting bookings
-    const { data: conflicts } = await supabaseAdmin
-      .from("bookings")
-      .select("id")
-      .eq("vehicle_id", vehicleId)
-      .in("status", ["pending", "confirmed", "active"])
-      .or(`and(pickup_date.lte.${returnDate},return_date.gte.${pickupDate})`);
-
-    if (conflicts && conflicts.length > 0) {
-      return new Response(
-        JSON.stringify({
-          error: "Vehicle is not available for the selected dates",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
-    }
+    // Date conflicts are checked atomically when the hold is created (step 6)
 
     // ============================================
-    // 5. CALCULATE PRICE SERVER-SIDE (CRITICAL!)
+    // 5. RESOLVE DELIVERY LOCATION & CALCULATE PRICE SERVER-SIDE (CRITICAL!)
     // ============================================
     // NEVER trust prices from frontend!
-    const { data: pricingData, error: pricingError } = await supabaseAdmin.rpc(
-      "calculate_booking_total",
-      {
-        p_vehicle_id: vehicleId,
-        p_pickup_date: pickupDate.split("T")[0],
-        p_return_date: returnDate.split("T")[0],
-        p_is_student: isStudentBooking || false,
-        p_delivery_fee: 0, // Will calculate separately
-        p_additional_drivers: additionalDrivers?.length || 0,
-      },
+    // The delivery fee and address come from the location row, not the payload
+    let deliveryFee = 0;
+    let resolvedPickupLocation = sanitizeString(
+      pickupLocation || "Store Pickup",
     );
 
+    if (pickupType === "delivery") {
+      const { data: deliveryLocation, error: deliveryLocationError } =
+        await supabaseAdmin
+          .from("delivery_locations")
+          .select("id, name, address, city, state, zip_code, delivery_fee")
+          .eq("id", deliveryLocationId)
+          .eq("is_active", true)
+          .maybeSingle();
+
+      if (deliveryLocationError) {
+        console.error("Delivery location lookup error:", deliveryLocationError);
+        return new Response(
+          JSON.stringify({ error: "Failed to verify delivery location" }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      if (!deliveryLocation) {
+        return new Response(
+          JSON.stringify({
+            error: "Selected delivery location is no longer available",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      deliveryFee = Number(deliveryLocation.delivery_fee) || 0;
+      resolvedPickupLocation = sanitizeString(
+        `${deliveryLocation.address}, ${deliveryLocation.city}, ${deliveryLocation.state} ${deliveryLocation.zip_code}`,
+      );
+
+      console.log("🚚 Verified delivery location:", {
+        id: deliveryLocation.id,
+        name: deliveryLocation.name,
+        deliveryFee,
+      });
+
+      // Re-check the slot against hours, calendar and remaining capacity
+      const slotError = await validateDeliverySlot(
+        supabaseAdmin,
+        deliveryLocation.id,
+        toBusinessDateString(new Date(pickupDate)),
+        deliveryTimeSlot,
+      );
+
+      if (slotError) {
+        return new Response(
+          JSON.stringify({ error: slotError, code: "SLOT_UNAVAILABLE" }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // Term rentals are priced for the whole term at the semester rate
+    const { data: pricingData, error: pricingError } = academicTerm
+      ? await supabaseAdmin.rpc("calculate_term_price", {
+          p_vehicle_id: vehicleId,
+          p_term_id: academicTerm.id,
+          p_delivery_fee: deliveryFee,
+          p_additional_drivers: additionalDrivers?.length || 0,
+        })
+      : await supabaseAdmin.rpc("calculate_booking_total", {
+          p_vehicle_id: vehicleId,
+          p_pickup_date: pickupDate.split("T")[0],
+          p_return_date: returnDate.split("T")[0],
+          p_is_student: isStudentBooking || false,
+          p_delivery_fee: deliveryFee,
+          p_additional_drivers: additionalDrivers?.length || 0,
+        });
+
     if (pricingError || !pricingData || pricingData.length === 0) {
       console.error("Pricing calculation error:", pricingError);
       return new Response(
@@ -462,27 +706,69 @@ Deno.serve(async (req: Request) => {
     const pricing = pricingData[0];
     console.log("📊 Server-calculated pricing:", pricing);
 
-    // Calculate delivery fee if applicable
-    let deliveryFee = 0;
-    if (pickupType === "delivery" && deliveryLocationId) {
-      const { data: deliveryLocation } = await supabaseAdmin
-        .from("delivery_locations")
-        .select("fee")
-        .eq("id", deliveryLocationId)
-        .eq("is_active", true)
-        .single();
+    // Loyalty tier benefits come off the fees and deposit, never the rental
+    const loyalty = await applyLoyaltyBenefits(supabaseAdmin, {
+      userId: user.id,
+      deliveryFee,
+      additionalDriverFee: Number(pricing.additional_driver_fee) || 0,
+      securityDeposit: Number(pricing.security_deposit) || 0,
+    });
+    deliveryFee = loyalty.deliveryFee;
 
-      if (deliveryLocation) {
-        deliveryFee = deliveryLocation.fee || 0;
+    // Final amounts (all server-calculated)
+    const rentalAmount = pricing.rental_amount;
+    const securityDeposit = loyalty.securityDeposit;
+    const additionalDriverFee = loyalty.additionalDriverFee;
+    const youngDriverFee = driverEligibility.youngDriverFee;
+
+    // Promo codes are re-checked against the server price and only ever
+    // come off the rental amount
+    let promo: PromoDiscount | null = null;
+
+    if (promoCode && promoCode.trim()) {
+      const promoCheck = await checkPromoCode(supabaseAdmin, {
+        code: sanitizeString(promoCode, 50),
+        userId: user.id,
+        vehicleId,
+        rentalType: pricing.rental_type,
+        rentalDays: pricing.rental_days,
+        rentalAmount,
+      });
+
+      if (!promoCheck.discount) {
+        return new Response(
+          JSON.stringify({ error: promoCheck.error, code: "PROMO_INVALID" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
       }
+
+      promo = promoCheck.discount;
     }
 
-    // Final amounts (all server-calculated)
-    const rentalAmount = pricing.rental_amount;
-    const securityDeposit = pricing.security_deposit;
-    const additionalDriverFee = pricing.additional_driver_fee;
+    const discountAmount = promo?.amount || 0;
+
+    // Account credit covers what's left of the rental after the promo code,
+    // never fees or the deposit; the balance is read here, not trusted
+    const accountCreditApplied = useAccountCredit
+      ? Math.round(
+          Math.min(
+            await getAccountCreditBalance(supabaseAdmin, user.id),
+            Math.max(rentalAmount - discountAmount, 0),
+          ) * 100,
+        ) / 100
+      : 0;
+
     const totalAmount =
-      rentalAmount + securityDeposit + deliveryFee + additionalDriverFee;
+      rentalAmount +
+      securityDeposit +
+      deliveryFee +
+      additionalDriverFee +
+      youngDriverFee -
+      discountAmount -
+      accountCreditApplied;
 
     // Minimum charge validation
     if (totalAmount < 1) {
@@ -497,22 +783,54 @@ Deno.serve(async (req: Request) => {
       securityDeposit,
       deliveryFee,
       additionalDriverFee,
+      youngDriverFee,
+      loyaltyTier: loyalty.tierName,
+      loyaltySavings: loyalty.savings,
+      discountAmount,
+      accountCreditApplied,
       totalAmount,
     });
 
     // ============================================
-    // 6. CREATE BOOKING IN DATABASE
+    // 6. HOLD THE DATES & CREATE BOOKING IN DATABASE
     // ============================================
+    // The hold closes the gap between this check and the payment webhook:
+    // a concurrent checkout for overlapping dates gets null back
+    const holdExpiresAt = new Date(
+      Date.now() + CHECKOUT_HOLD_MINUTES * 60 * 1000,
+    );
+    createdHoldId = await createVehicleHold(supabaseAdmin, {
+      vehicleId,
+      userId: user.id,
+      pickupDate,
+      returnDate,
+      expiresAt: holdExpiresAt,
+    });
+
+    if (!createdHoldId) {
+      return new Response(
+        JSON.stringify({
+          error: "Vehicle is not available for the selected dates",
+          code: "DATES_UNAVAILABLE",
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
     const { data: booking, error: bookingError } = await supabaseAdmin
       .from("bookings")
       .insert({
         user_id: user.id, // Use authenticated user ID, NOT from payload!
         vehicle_id: vehicleId,
-        pickup_location: sanitizeString(pickupLocation || "Store Pickup"),
+        pickup_location: resolvedPickupLocation,
         pickup_date: pickupDate,
         return_date: returnDate,
         pickup_type: pickupType,
-        delivery_location_id: deliveryLocationId || null,
+        delivery_location_id:
+          pickupType === "delivery" ? deliveryLocationId : null,
         delivery_fee: deliveryFee,
         delivery_time_slot: deliveryTimeSlot || null,
         rental_type: pricing.rental_type,
@@ -524,10 +842,19 @@ Deno.serve(async (req: Request) => {
         rental_amount: rentalAmount.toString(),
         security_deposit: securityDeposit.toString(),
         additional_driver_fee: additionalDriverFee.toString(),
+        young_driver_fee: youngDriverFee.toString(),
+        promo_code_id: promo?.promoCodeId || null,
+        promo_code: promo?.code || null,
+        discount_amount: discountAmount.toString(),
+        account_credit_applied: accountCreditApplied.toString(),
+        loyalty_tier_id: loyalty.tierId,
+        loyalty_savings: loyalty.savings.toString(),
         total_price: totalAmount.toString(),
         is_student_booking: isStudentBooking || false,
-        student_id_url: studentIdUrl || null,
-        student_verified: false,
+        student_verification_id: studentVerification?.id || null,
+        student_id_url: studentVerification?.document_path || null,
+        student_verified: studentVerification?.status === "approved",
+        academic_term_id: academicTerm?.id || null,
         status: "pending",
         payment_status: "pending",
         parent_booking_id: null,
@@ -547,6 +874,7 @@ Deno.serve(async (req: Request) => {
 
     if (bookingError) {
       console.error("Booking creation error:", bookingError);
+      await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId });
       return new Response(
         JSON.stringify({ error: "Failed to create booking" }),
         {
@@ -557,6 +885,9 @@ Deno.serve(async (req: Request) => {
     }
 
     createdBookingId = booking.id;
+    await attachVehicleHold(supabaseAdmin, createdHoldId, {
+      bookingId: booking.id,
+    });
     console.log(
       "✅ Booking created:",
       booking.id,
@@ -564,6 +895,59 @@ Deno.serve(async (req: Request) => {
       booking.booking_number,
     );
 
+    // Claim the code's use for as long as the hold; the limits are checked
+    // again under lock in case another checkout took the last one
+    if (promo) {
+      const reserved = await reservePromoRedemption(supabaseAdmin, {
+        promoCodeId: promo.promoCodeId,
+        userId: user.id,
+        bookingId: booking.id,
+        discountAmount,
+        expiresAt: holdExpiresAt,
+      });
+
+      if (!reserved) {
+        await supabaseAdmin.from("bookings").delete().eq("id", booking.id);
+        await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId });
+        return new Response(
+          JSON.stringify({
+            error: "This promo code is no longer available.",
+            code: "PROMO_INVALID",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
+    // Spend the credit now; an expired checkout or a cancellation gives it
+    // back. Deleting the booking on rollback drops the ledger row too.
+    if (accountCreditApplied > 0) {
+      const applied = await applyAccountCredit(supabaseAdmin, {
+        userId: user.id,
+        bookingId: booking.id,
+        amount: accountCreditApplied,
+      });
+
+      if (!applied) {
+        await supabaseAdmin.from("bookings").delete().eq("id", booking.id);
+        await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId });
+        return new Response(
+          JSON.stringify({
+            error:
+              "Your account credit balance changed. Please review your booking and try again.",
+            code: "CREDIT_UNAVAILABLE",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+    }
+
     // ============================================
     // 7. CREATE PRIMARY DRIVER RECORD
     // ============================================
@@ -578,6 +962,9 @@ Deno.serve(async (req: Request) => {
           email: primaryDriver.email.toLowerCase(),
           phone: primaryDriver.phone,
           drivers_license: sanitizeString(primaryDriver.driversLicenseNumber),
+          license_country: normalizeLicenseCountry(
+            primaryDriver.licenseCountry,
+          ),
           date_of_birth: primaryDriver.dateOfBirth,
           street_address: sanitizeString(primaryDriver.streetAddress),
           city: sanitizeString(primaryDriver.city),
@@ -593,6 +980,7 @@ Deno.serve(async (req: Request) => {
       console.error("Primary driver creation error:", primaryDriverError);
       // Rollback booking
       await supabaseAdmin.from("bookings").delete().eq("id", booking.id);
+      await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId });
       return new Response(
         JSON.stringify({ error: "Failed to save driver information" }),
         {
@@ -608,21 +996,49 @@ Deno.serve(async (req: Request) => {
     // 8. CREATE ADDITIONAL DRIVER RECORDS
     // ============================================
     if (additionalDrivers && additionalDrivers.length > 0) {
-      const additionalDriverRecords = additionalDrivers.map((driver) => ({
-        booking_id: booking.id,
-        user_id: null,
-        first_name: sanitizeString(driver.firstName),
-        last_name: sanitizeString(driver.lastName),
-        email: driver.email.toLowerCase(),
-        phone: driver.phone,
-        drivers_license: sanitizeString(driver.driversLicenseNumber),
-        date_of_birth: driver.dateOfBirth,
-        street_address: sanitizeString(driver.streetAddress),
-        city: sanitizeString(driver.city),
-        state: sanitizeString(driver.state),
-        zip_code: sanitizeString(driver.zipCode),
-        is_verified: false,
-      }));
+      const additionalDriverRecords = additionalDrivers.map((driver) => {
+        const record = {
+          booking_id: booking.id,
+          user_id: null,
+          first_name: sanitizeString(driver.firstName),
+          last_name: sanitizeString(driver.lastName),
+          email: driver.email.toLowerCase(),
+          is_verified: false,
+        };
+
+        if (driver.invite) {
+          // The driver fills in the rest from their emailed link
+          return {
+            ...record,
+            phone: null,
+            drivers_license: null,
+            license_country: DEFAULT_LICENSE_COUNTRY,
+            date_of_birth: null,
+            street_address: null,
+            city: null,
+            state: null,
+            zip_code: null,
+            invite_status: "pending",
+            invite_token: crypto.randomUUID(),
+            invite_expires_at: parsedPickupDate.toISOString(),
+          };
+        }
+
+        return {
+          ...record,
+          phone: driver.phone,
+          drivers_license: sanitizeString(driver.driversLicenseNumber),
+          license_country: normalizeLicenseCountry(driver.licenseCountry),
+          date_of_birth: driver.dateOfBirth,
+          street_address: sanitizeString(driver.streetAddress),
+          city: sanitizeString(driver.city),
+          state: sanitizeString(driver.state),
+          zip_code: sanitizeString(driver.zipCode),
+          invite_status: null,
+          invite_token: null,
+          invite_expires_at: null,
+        };
+      });
 
       const { error: additionalDriversError } = await supabaseAdmin
         .from("additional_drivers")
@@ -639,6 +1055,7 @@ Deno.serve(async (req: Request) => {
           .delete()
           .eq("id", primaryDriverRecord.id);
         await supabaseAdmin.from("bookings").delete().eq("id", booking.id);
+        await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId });
         return new Response(
           JSON.stringify({
             error: "Failed to save additional driver information",
@@ -670,7 +1087,13 @@ Deno.serve(async (req: Request) => {
       `${rentalTypeEmoji} ${durationText}`,
       `📅 ${formatDate(pickupDate)} - ${formatDate(returnDate)}`,
       `📍 ${pickupLocationText}`,
+      academicTerm ? `🏫 ${academicTerm.name}` : "",
       isStudentBooking ? "🎓 Student pricing applied" : "",
+      promo ? `🏷️ Promo ${promo.code} applied` : "",
+      accountCreditApplied > 0 ? "🎁 Account credit applied" : "",
+      loyalty.savings > 0
+        ? `⭐ ${loyalty.tierName} member benefits applied`
+        : "",
     ]
       .filter(Boolean)
       .join("\n");
@@ -743,21 +1166,63 @@ Deno.serve(async (req: Request) => {
       });
     }
 
+    // One surcharge line per young driver, so the receipt shows who it's for
+    driverEligibility.drivers.forEach((result, index) => {
+      if (!result.tier || result.fee <= 0) return;
+
+      lineItems.push({
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: `🪪 Young Driver Surcharge - ${driverLabel(index)}`,
+            description: `${YOUNG_DRIVER_TIER_LABELS[result.tier]} (age ${result.age} at pickup)`,
+          },
+          unit_amount: Math.round(result.fee * 100),
+        },
+        quantity: 1,
+      });
+    });
+
     // ============================================
     // 10. CREATE STRIPE CHECKOUT SESSION
     // ============================================
+    // Line items can't be negative, so the promo and account credit go on
+    // as one single-use coupon and Checkout shows it as a discount line
+    const discounts: Stripe.Checkout.SessionCreateParams.Discount[] = [];
+    const couponAmount = discountAmount + accountCreditApplied;
+
+    if (couponAmount > 0) {
+      const couponName = [
+        promo && discountAmount > 0 ? `Promo ${promo.code}` : "",
+        accountCreditApplied > 0 ? "Account credit" : "",
+      ]
+        .filter(Boolean)
+        .join(" + ");
+
+      const coupon = await stripe.coupons.create({
+        amount_off: Math.round(couponAmount * 100),
+        currency: "usd",
+        duration: "once",
+        max_redemptions: 1,
+        name: couponName.slice(0, 40), // Stripe's limit
+      });
+      discounts.push({ coupon: coupon.id });
+    }
+
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ["card"],
       line_items: lineItems,
+      ...(discounts.length > 0 ? { discounts } : {}),
       mode: "payment",
       success_url: `${CUSTOMER_PORTAL_URL}/booking-success?session_id={CHECKOUT_SESSION_ID}&booking_id=${booking.id}`,
       cancel_url: `${CUSTOMER_PORTAL_URL}/vehicles/${vehicleId}?canceled=true`,
       customer_email: primaryDriver.email.toLowerCase(),
       billing_address_collection: "auto",
       phone_number_collection: { enabled: true },
-      expires_at: Math.floor(Date.now() / 1000) + 30 * 60, // 30 minutes
+      expires_at: checkoutSessionExpiresAt(),
       metadata: {
         bookingId: booking.id,
+        holdId: createdHoldId,
         bookingNumber: booking.booking_number || "",
         vehicleId: vehicleId,
         vehicleName: vehicle.name,
@@ -769,29 +1234,40 @@ Deno.serve(async (req: Request) => {
         rentalDays: pricing.rental_days.toString(),
         pricingMethod: pricing.pricing_method,
         isStudentBooking: isStudentBooking ? "true" : "false",
+        academicTermId: academicTerm?.id || "",
         pickupDate: pickupDate,
         returnDate: returnDate,
-        pickupLocation: pickupLocation || "Store",
+        pickupLocation: resolvedPickupLocation,
         pickupType: pickupType,
         // Store server-calculated amounts for webhook verification
         serverRentalAmount: rentalAmount.toString(),
         serverSecurityDeposit: securityDeposit.toString(),
+        serverDeliveryFee: deliveryFee.toString(),
+        serverYoungDriverFee: youngDriverFee.toString(),
+        promoCode: promo?.code || "",
+        serverDiscountAmount: discountAmount.toString(),
+        serverAccountCredit: accountCreditApplied.toString(),
+        loyaltyTier: loyalty.tierName || "",
+        serverLoyaltySavings: loyalty.savings.toString(),
         serverTotalAmount: totalAmount.toString(),
       },
       custom_text: {
         submit: {
           message: isStudentBooking
-            ? "Your booking will be confirmed after payment. Please bring a valid student ID at pickup."
+            ? "Your booking will be confirmed after payment. Our team will review your student ID before pickup."
             : "Your booking will be confirmed immediately after payment.",
         },
       },
     });
 
-    // Update booking with stripe session ID
+    // Update booking and hold with stripe session ID
     await supabaseAdmin
       .from("bookings")
       .update({ stripe_session_id: session.id })
       .eq("id", booking.id);
+    await attachVehicleHold(supabaseAdmin, createdHoldId, {
+      stripeSessionId: session.id,
+    });
 
     console.log("✅ Checkout session created:", session.id);
 
@@ -826,6 +1302,11 @@ Deno.serve(async (req: Request) => {
     if (createdBookingId) {
       await supabaseAdmin.from("bookings").delete().eq("id", createdBookingId);
     }
+    if (createdHoldId) {
+      await releaseVehicleHold(supabaseAdmin, { holdId: createdHoldId }).catch(
+        (holdError) => console.error("Hold release error:", holdError),
+      );
+    }
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,489 @@
+// supabase/functions/customer-identity-verification/index.ts
+// Lets customers finish ID + selfie verification for their own bookings
+// before pickup. "status" lists where each driver stands; "start" opens a
+// Stripe Identity session (hosted page) for one driver. stripe-webhook records
+// the result on driver_verifications exactly as it does for staff sessions.
+import Stripe from "npm:stripe@14";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import {
+  findMatchingVerification,
+  getLatestVerification,
+  isFirstBookingVerificationOnly,
+  startIdentitySession,
+} from "../_shared/identitySessions.ts";
+import type {
+  DriverType,
+  IdentityDriver,
+} from "../_shared/identitySessions.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// Customers can verify until the rental starts
+const VERIFIABLE_BOOKING_STATUSES = ["pending", "confirmed"];
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+  extraHeaders: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...extraHeaders,
+    },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type VerificationAction = "status" | "start";
+
+type CustomerVerificationStatus =
+  | "not_started"
+  | "pending"
+  | "processing"
+  | "verified"
+  | "failed"
+  | "canceled";
+
+interface CustomerVerificationPayload {
+  action: VerificationAction;
+  bookingId: string;
+  driverType?: DriverType;
+  driverId?: string;
+}
+
+interface DriverRow extends IdentityDriver {
+  is_verified: boolean;
+  /** Additional drivers only: set while an emailed invite is outstanding */
+  invite_status?: "pending" | "submitted" | null;
+}
+
+interface DriverVerificationStatus {
+  driverType: DriverType;
+  driverId: string;
+  firstName: string;
+  lastName: string;
+  status: CustomerVerificationStatus;
+  /** Verified on an earlier rental (first_booking_verification_only) */
+  previouslyVerified: boolean;
+  /** Why the last attempt failed, if it did */
+  errorReason: string | null;
+  verifiedAt: string | null;
+  /** Invited drivers: still to enter details ("pending") or done */
+  inviteStatus: "pending" | "submitted" | null;
+}
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+const DRIVER_COLUMNS =
+  "id, first_name, last_name, email, date_of_birth, drivers_license, is_verified";
+
+const ADDITIONAL_DRIVER_COLUMNS = `${DRIVER_COLUMNS}, invite_status`;
+
+async function getDriverStatus(
+  supabase: SupabaseClient,
+  bookingId: string,
+  driverType: DriverType,
+  driver: DriverRow,
+  reusePrevious: boolean,
+  userId: string,
+): Promise<DriverVerificationStatus> {
+  const base = {
+    driverType,
+    driverId: driver.id,
+    firstName: driver.first_name,
+    lastName: driver.last_name,
+    previouslyVerified: false,
+    errorReason: null,
+    verifiedAt: null,
+    inviteStatus: driver.invite_status || null,
+  };
+
+  const latest = await getLatestVerification(
+    supabase,
+    bookingId,
+    driverType,
+    driver.id,
+  );
+
+  if (driver.is_verified) {
+    return {
+      ...base,
+      status: "verified",
+      verifiedAt: latest?.verified_at || null,
+    };
+  }
+
+  if (reusePrevious) {
+    const existing = await findMatchingVerification(supabase, driver, userId);
+    if (existing) {
+      return {
+        ...base,
+        status: "verified",
+        previouslyVerified: true,
+        verifiedAt: existing.verified_at || null,
+      };
+    }
+  }
+
+  if (!latest) {
+    return { ...base, status: "not_started" };
+  }
+
+  return {
+    ...base,
+    status: latest.status as CustomerVerificationStatus,
+    errorReason:
+      latest.status === "failed" ? latest.error_reason || null : null,
+    verifiedAt: latest.verified_at || null,
+  };
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  try {
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    // ============================================
+    // 2. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: CustomerVerificationPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { action, bookingId } = payload;
+
+    if (action !== "status" && action !== "start") {
+      return jsonResponse({ error: "Invalid action" }, corsHeaders, 400);
+    }
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return jsonResponse({ error: "Invalid booking ID" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 3. FETCH BOOKING (must be the caller's)
+    // ============================================
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select("id, user_id, status")
+      .eq("id", bookingId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (bookingError || !booking) {
+      return jsonResponse({ error: "Booking not found" }, corsHeaders, 404);
+    }
+
+    const reusePrevious = await isFirstBookingVerificationOnly(supabase);
+
+    // ============================================
+    // 4a. STATUS
+    // ============================================
+    if (action === "status") {
+      const [primaryResult, additionalResult] = await Promise.all([
+        supabase
+          .from("primary_drivers")
+          .select(DRIVER_COLUMNS)
+          .eq("booking_id", bookingId)
+          .maybeSingle(),
+        supabase
+          .from("additional_drivers")
+          .select(ADDITIONAL_DRIVER_COLUMNS)
+          .eq("booking_id", bookingId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (primaryResult.error || additionalResult.error) {
+        console.error("Driver fetch error:", {
+          primary: primaryResult.error,
+          additional: additionalResult.error,
+        });
+        return jsonResponse(
+          { error: "Failed to load drivers" },
+          corsHeaders,
+          500,
+        );
+      }
+
+      const drivers: Array<{ type: DriverType; row: DriverRow }> = [
+        ...(primaryResult.data
+          ? [{ type: "primary" as const, row: primaryResult.data }]
+          : []),
+        ...(additionalResult.data || []).map((row) => ({
+          type: "additional" as const,
+          row,
+        })),
+      ];
+
+      const statuses = await Promise.all(
+        drivers.map(({ type, row }) =>
+          getDriverStatus(
+            supabase,
+            bookingId,
+            type,
+            row,
+            reusePrevious,
+            user.id,
+          ),
+        ),
+      );
+
+      return jsonResponse(
+        {
+          canVerify: VERIFIABLE_BOOKING_STATUSES.includes(booking.status),
+          drivers: statuses,
+        },
+        corsHeaders,
+      );
+    }
+
+    // ============================================
+    // 4b. START - RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "CUSTOMER_VERIFICATION",
+      user.id,
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many verification attempts. Please try again later.",
+      );
+    }
+
+    const { driverType, driverId } = payload;
+
+    if (driverType !== "primary" && driverType !== "additional") {
+      return jsonResponse({ error: "Invalid driver type" }, corsHeaders, 400);
+    }
+
+    if (!driverId || !isValidUUID(driverId)) {
+      return jsonResponse({ error: "Invalid driver ID" }, corsHeaders, 400);
+    }
+
+    if (!VERIFIABLE_BOOKING_STATUSES.includes(booking.status)) {
+      return jsonResponse(
+        {
+          error: "Identity verification is only available before pickup.",
+          code: "BOOKING_NOT_VERIFIABLE",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 5. FETCH DRIVER (must be on this booking)
+    // ============================================
+    const driverTable =
+      driverType === "primary" ? "primary_drivers" : "additional_drivers";
+
+    const { data: driver, error: driverError } = await supabase
+      .from(driverTable)
+      .select(DRIVER_COLUMNS)
+      .eq("id", driverId)
+      .eq("booking_id", bookingId)
+      .maybeSingle();
+
+    if (driverError || !driver) {
+      console.error("Driver fetch error:", driverError);
+      return jsonResponse({ error: "Driver not found" }, corsHeaders, 404);
+    }
+
+    // ============================================
+    // 6. SKIP IF ALREADY VERIFIED
+    // ============================================
+    if (driver.is_verified) {
+      return jsonResponse(
+        { alreadyVerified: true },
+        corsHeaders,
+        200,
+        rateLimitHeaders(rateLimitResult),
+      );
+    }
+
+    if (reusePrevious) {
+      const existing = await findMatchingVerification(
+        supabase,
+        driver,
+        user.id,
+      );
+
+      if (existing) {
+        console.log(`✅ Reusing earlier verification for driver ${driverId}`);
+
+        await supabase
+          .from(driverTable)
+          .update({
+            is_verified: true,
+            verified_at: new Date().toISOString(),
+          })
+          .eq("id", driverId);
+
+        return jsonResponse(
+          { alreadyVerified: true, previouslyVerified: true },
+          corsHeaders,
+          200,
+          rateLimitHeaders(rateLimitResult),
+        );
+      }
+    }
+
+    // Invited drivers enter their license themselves first
+    if (!driver.drivers_license || !driver.date_of_birth) {
+      return jsonResponse(
+        {
+          error: "This driver hasn't entered their license details yet.",
+          code: "DRIVER_DETAILS_MISSING",
+        },
+        corsHeaders,
+        400,
+        rateLimitHeaders(rateLimitResult),
+      );
+    }
+
+    // ============================================
+    // 7. START OR RESUME STRIPE IDENTITY SESSION
+    // ============================================
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    const session = await startIdentitySession(supabase, stripe, {
+      bookingId,
+      driverType,
+      driver,
+      returnUrl: `${CUSTOMER_PORTAL_URL}/my-bookings?verification=submitted&booking_id=${bookingId}`,
+      metadata: { customer_user_id: user.id },
+    });
+
+    if (session.processing) {
+      return jsonResponse(
+        {
+          error: "Your verification is being reviewed. Check back shortly.",
+          code: "VERIFICATION_PROCESSING",
+        },
+        corsHeaders,
+        409,
+        rateLimitHeaders(rateLimitResult),
+      );
+    }
+
+    // ============================================
+    // 8. RETURN HOSTED VERIFICATION URL
+    // ============================================
+    return jsonResponse(
+      { url: session.url, verificationId: session.verificationId },
+      corsHeaders,
+      200,
+      rateLimitHeaders(rateLimitResult),
+    );
+  } catch (error) {
+    console.error("❌ Customer verification error:", error);
+    return jsonResponse(
+      { error: "Failed to start identity verification" },
+      corsHeaders,
+      500,
+    );
+  }
+});
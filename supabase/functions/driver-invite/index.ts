@@ -0,0 +1,650 @@
+// supabase/functions/driver-invite/index.ts
+// Self-onboarding for invited additional drivers. The emailed invite token
+// authorizes "view", "submit" (license, address, rental terms) and "verify"
+// (Stripe Identity) without an account; "resend" is for the account holder
+// from My Bookings.
+import Stripe from "npm:stripe@14";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  checkRateLimit,
+  getClientIP,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import { toBusinessDateString } from "../_shared/dates.ts";
+import {
+  driverEligibilityRulesFromConfig,
+  evaluateDriverEligibility,
+  normalizeLicenseCountry,
+} from "../_shared/driverEligibility.ts";
+import {
+  INVITABLE_BOOKING_STATUSES,
+  sendDriverInvite,
+} from "../_shared/driverInvites.ts";
+import {
+  findMatchingVerification,
+  getLatestVerification,
+  isFirstBookingVerificationOnly,
+  startIdentitySession,
+} from "../_shared/identitySessions.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// Same keys create-checkout-session judges drivers by
+const DRIVER_CONFIG_KEYS = [
+  "min_driver_age",
+  "max_additional_drivers",
+  "us_license_only",
+  "young_driver_fee_enabled",
+  "young_driver_fee_under_21",
+  "young_driver_fee_under_25",
+];
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type InviteAction = "view" | "submit" | "verify" | "resend";
+
+interface DriverDetailsInput {
+  phone: string;
+  dateOfBirth: string;
+  driversLicenseNumber: string;
+  licenseCountry?: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+interface DriverInvitePayload {
+  action: InviteAction;
+  token?: string;
+  details?: DriverDetailsInput;
+  acceptTerms?: boolean;
+  bookingId?: string;
+  driverId?: string;
+}
+
+interface InviteRow {
+  id: string;
+  booking_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string | null;
+  drivers_license: string | null;
+  license_country: string;
+  date_of_birth: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  is_verified: boolean;
+  invite_status: "pending" | "submitted" | null;
+  invite_expires_at: string | null;
+  terms_accepted_at: string | null;
+  bookings: {
+    id: string;
+    user_id: string;
+    booking_number: string | null;
+    status: string;
+    pickup_date: string;
+    return_date: string;
+    customer_info: Record<string, string> | string | null;
+    vehicles: { name: string } | null;
+  } | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const ACTIONS: InviteAction[] = ["view", "submit", "verify", "resend"];
+
+const INVITE_COLUMNS = `id, booking_id, first_name, last_name, email, phone,
+  drivers_license, license_country, date_of_birth, street_address, city,
+  state, zip_code, is_verified, invite_status, invite_expires_at,
+  terms_accepted_at,
+  bookings(id, user_id, booking_number, status, pickup_date, return_date,
+    customer_info, vehicles(name))`;
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function isValidPhone(phone: string): boolean {
+  const phoneRegex = /^[\d\s\-()+]{7,20}$/;
+  return phoneRegex.test(phone);
+}
+
+function sanitizeString(str: string, maxLength: number = 200): string {
+  return str.slice(0, maxLength).trim();
+}
+
+/** First problem with the submitted details, or null when they're complete */
+function detailsError(details: DriverDetailsInput | undefined): string | null {
+  if (!details) return "Please fill in your details";
+  if (!details.phone || !isValidPhone(details.phone)) {
+    return "Please enter a valid phone number";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(details.dateOfBirth || "")) {
+    return "Please enter your date of birth";
+  }
+  if (!details.driversLicenseNumber?.trim()) {
+    return "Please enter your driver's license number";
+  }
+  if (
+    !details.streetAddress?.trim() ||
+    !details.city?.trim() ||
+    !details.state?.trim() ||
+    !details.zipCode?.trim()
+  ) {
+    return "Please enter your full address";
+  }
+  return null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Invites can be answered until pickup, on bookings that haven't started */
+function isInviteOpen(invite: InviteRow): boolean {
+  if (!invite.invite_status || !invite.bookings) return false;
+  if (!INVITABLE_BOOKING_STATUSES.includes(invite.bookings.status)) {
+    return false;
+  }
+  const expiresAt = invite.invite_expires_at || invite.bookings.pickup_date;
+  return Date.now() < new Date(expiresAt).getTime();
+}
+
+function accountHolderName(
+  customerInfo: Record<string, string> | string | null,
+): string {
+  const info =
+    typeof customerInfo === "string"
+      ? JSON.parse(customerInfo)
+      : customerInfo || {};
+  return `${info.firstName || ""} ${info.lastName || ""}`.trim();
+}
+
+/** Invite as shown on the /driver-invite page */
+async function inviteView(
+  supabase: ReturnType<typeof createClient>,
+  invite: InviteRow,
+) {
+  const booking = invite.bookings!;
+  const reusePrevious = await isFirstBookingVerificationOnly(supabase);
+
+  const latest = await getLatestVerification(
+    supabase,
+    invite.booking_id,
+    "additional",
+    invite.id,
+  );
+  const previous =
+    !invite.is_verified && reusePrevious
+      ? await findMatchingVerification(supabase, invite, null)
+      : null;
+
+  const { data: surcharge } = await supabase
+    .from("booking_charges")
+    .select("amount")
+    .eq("additional_driver_id", invite.id)
+    .eq("charge_type", "young_driver_fee")
+    .neq("status", "waived")
+    .maybeSingle();
+
+  return {
+    firstName: invite.first_name,
+    lastName: invite.last_name,
+    email: invite.email,
+    inviteStatus: invite.invite_status,
+    termsAcceptedAt: invite.terms_accepted_at,
+    canEdit: isInviteOpen(invite) && !invite.is_verified,
+    details: {
+      phone: invite.phone || "",
+      dateOfBirth: invite.date_of_birth || "",
+      driversLicenseNumber: invite.drivers_license || "",
+      licenseCountry: invite.license_country,
+      streetAddress: invite.street_address || "",
+      city: invite.city || "",
+      state: invite.state || "",
+      zipCode: invite.zip_code || "",
+    },
+    verification: {
+      status:
+        invite.is_verified || previous
+          ? "verified"
+          : latest?.status || "not_started",
+      previouslyVerified: !invite.is_verified && !!previous,
+      errorReason:
+        latest?.status === "failed" ? latest.error_reason || null : null,
+    },
+    youngDriverFee: surcharge ? Number(surcharge.amount) : 0,
+    booking: {
+      bookingNumber: booking.booking_number,
+      vehicleName: booking.vehicles?.name || null,
+      pickupDate: booking.pickup_date,
+      returnDate: booking.return_date,
+      accountHolderName: accountHolderName(booking.customer_info),
+    },
+  };
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ============================================
+    // 1. RATE LIMITING (by IP - invite links have no session)
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "DRIVER_INVITE",
+      getClientIP(req),
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many requests. Please try again later.",
+      );
+    }
+
+    const headers = { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) };
+
+    // ============================================
+    // 2. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: DriverInvitePayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { action } = payload;
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse({ error: "Invalid action" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 3. RESEND (account holder, from My Bookings)
+    // ============================================
+    if (action === "resend") {
+      const authHeader = req.headers.get("Authorization") || "";
+      const {
+        data: { user },
+      } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+
+      if (!user) {
+        return jsonResponse(
+          { error: "Authentication required" },
+          corsHeaders,
+          401,
+        );
+      }
+
+      const { bookingId, driverId } = payload;
+      if (
+        !bookingId ||
+        !isValidUUID(bookingId) ||
+        !driverId ||
+        !isValidUUID(driverId)
+      ) {
+        return jsonResponse({ error: "Invalid driver" }, corsHeaders, 400);
+      }
+
+      const { data } = await supabase
+        .from("additional_drivers")
+        .select(INVITE_COLUMNS)
+        .eq("id", driverId)
+        .eq("booking_id", bookingId)
+        .maybeSingle();
+
+      const invite = data as unknown as InviteRow | null;
+
+      if (!invite || invite.bookings?.user_id !== user.id) {
+        return jsonResponse(
+          { error: "Driver not found", code: "INVITE_NOT_FOUND" },
+          corsHeaders,
+          404,
+        );
+      }
+
+      if (invite.invite_status !== "pending" || !isInviteOpen(invite)) {
+        return jsonResponse(
+          {
+            error: "This driver has no open invite to resend.",
+            code: "INVITE_CLOSED",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      await sendDriverInvite(supabase, invite.id);
+      console.log(`📧 Driver invite resent: ${invite.id}`);
+
+      return jsonResponse({ sent: true }, headers);
+    }
+
+    // ============================================
+    // 4. FETCH INVITE (token is the authorization)
+    // ============================================
+    const { token } = payload;
+
+    if (!token || !isValidUUID(token)) {
+      return jsonResponse(
+        { error: "Invite not found", code: "INVITE_NOT_FOUND" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    const { data, error: inviteError } = await supabase
+      .from("additional_drivers")
+      .select(INVITE_COLUMNS)
+      .eq("invite_token", token)
+      .maybeSingle();
+
+    const invite = data as unknown as InviteRow | null;
+
+    if (inviteError || !invite || !invite.bookings) {
+      return jsonResponse(
+        { error: "Invite not found", code: "INVITE_NOT_FOUND" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    // ============================================
+    // 5a. VIEW
+    // ============================================
+    if (action === "view") {
+      return jsonResponse(await inviteView(supabase, invite), headers);
+    }
+
+    if (!isInviteOpen(invite)) {
+      return jsonResponse(
+        {
+          error: "This invite has closed. Please contact the renter or us.",
+          code: "INVITE_CLOSED",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 5b. SUBMIT DETAILS + TERMS
+    // ============================================
+    if (action === "submit") {
+      if (invite.is_verified) {
+        return jsonResponse(
+          {
+            error: "Your ID is already verified for this booking.",
+            code: "ALREADY_VERIFIED",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const validationError = detailsError(payload.details);
+      if (validationError) {
+        return jsonResponse(
+          { error: validationError, code: "INVALID_DETAILS" },
+          corsHeaders,
+          400,
+        );
+      }
+
+      if (payload.acceptTerms !== true) {
+        return jsonResponse(
+          {
+            error: "Please accept the rental terms to continue.",
+            code: "TERMS_REQUIRED",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const details = payload.details!;
+      const licenseCountry = normalizeLicenseCountry(details.licenseCountry);
+
+      // Same age and license rules the renter's drivers met at checkout
+      const { data: driverConfigRows } = await supabase
+        .from("system_config")
+        .select("key, value")
+        .in("key", DRIVER_CONFIG_KEYS);
+
+      const eligibility = evaluateDriverEligibility(
+        { dateOfBirth: details.dateOfBirth, licenseCountry },
+        toBusinessDateString(new Date(invite.bookings.pickup_date)),
+        driverEligibilityRulesFromConfig(
+          Object.fromEntries(
+            (driverConfigRows || []).map((row) => [row.key, row.value]),
+          ),
+        ),
+      );
+
+      if (!eligibility.eligible) {
+        return jsonResponse(
+          {
+            error: eligibility.reasons.join(". "),
+            code: "DRIVER_INELIGIBLE",
+            reasons: eligibility.reasons,
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const { error: updateError } = await supabase
+        .from("additional_drivers")
+        .update({
+          phone: sanitizeString(details.phone, 20),
+          date_of_birth: details.dateOfBirth,
+          drivers_license: sanitizeString(
+            details.driversLicenseNumber,
+          ).toUpperCase(),
+          license_country: licenseCountry,
+          street_address: sanitizeString(details.streetAddress),
+          city: sanitizeString(details.city),
+          state: sanitizeString(details.state, 2).toUpperCase(),
+          zip_code: sanitizeString(details.zipCode, 10),
+          invite_status: "submitted",
+          terms_accepted_at: new Date().toISOString(),
+        })
+        .eq("id", invite.id);
+
+      if (updateError) {
+        console.error("Driver update error:", updateError);
+        return jsonResponse(
+          { error: "Failed to save your details" },
+          corsHeaders,
+          500,
+        );
+      }
+
+      // Young driver surcharge wasn't known at checkout: replace any earlier
+      // one for this driver, collected at pickup or from the deposit
+      await supabase
+        .from("booking_charges")
+        .delete()
+        .eq("additional_driver_id", invite.id)
+        .eq("charge_type", "young_driver_fee")
+        .eq("status", "outstanding");
+
+      if (eligibility.fee > 0) {
+        const { error: chargeError } = await supabase
+          .from("booking_charges")
+          .insert({
+            booking_id: invite.booking_id,
+            user_id: invite.bookings.user_id,
+            additional_driver_id: invite.id,
+            charge_type: "young_driver_fee",
+            amount: eligibility.fee,
+            description: `Young driver surcharge - ${invite.first_name} ${invite.last_name}`,
+          });
+
+        if (chargeError) {
+          console.error("Young driver charge error:", chargeError);
+        }
+      }
+
+      console.log(`✅ Invited driver submitted details: ${invite.id}`);
+
+      const { data: refreshed } = await supabase
+        .from("additional_drivers")
+        .select(INVITE_COLUMNS)
+        .eq("id", invite.id)
+        .single();
+
+      return jsonResponse(
+        await inviteView(supabase, refreshed as unknown as InviteRow),
+        headers,
+      );
+    }
+
+    // ============================================
+    // 5c. VERIFY IDENTITY
+    // ============================================
+    if (invite.invite_status !== "submitted") {
+      return jsonResponse(
+        {
+          error: "Please add your details before verifying your ID.",
+          code: "DRIVER_DETAILS_MISSING",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (invite.is_verified) {
+      return jsonResponse({ alreadyVerified: true }, headers);
+    }
+
+    if (await isFirstBookingVerificationOnly(supabase)) {
+      // Invited drivers have no account here: name and date of birth must match
+      const existing = await findMatchingVerification(supabase, invite, null);
+
+      if (existing) {
+        await supabase
+          .from("additional_drivers")
+          .update({
+            is_verified: true,
+            verified_at: new Date().toISOString(),
+          })
+          .eq("id", invite.id);
+
+        return jsonResponse(
+          { alreadyVerified: true, previouslyVerified: true },
+          headers,
+        );
+      }
+    }
+
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2024-11-20.acacia",
+    });
+
+    const session = await startIdentitySession(supabase, stripe, {
+      bookingId: invite.booking_id,
+      driverType: "additional",
+      driver: invite,
+      returnUrl: `${CUSTOMER_PORTAL_URL}/driver-invite?token=${token}&verification=submitted`,
+      metadata: { invited_driver: "true" },
+    });
+
+    if (session.processing) {
+      return jsonResponse(
+        {
+          error: "Your verification is being reviewed. Check back shortly.",
+          code: "VERIFICATION_PROCESSING",
+        },
+        corsHeaders,
+        409,
+      );
+    }
+
+    return jsonResponse(
+      { url: session.url, verificationId: session.verificationId },
+      headers,
+    );
+  } catch (error) {
+    console.error("❌ Driver invite error:", error);
+    return jsonResponse(
+      { error: "Something went wrong. Please try again." },
+      corsHeaders,
+      500,
+    );
+  }
+});
@@ -0,0 +1,855 @@
+// supabase/functions/early-return/index.ts
+import { createClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import {
+  allocateRefund,
+  getBookingPayments,
+  refundableTotal,
+} from "../_shared/bookingPayments.ts";
+import {
+  businessNow,
+  fromBusinessDateTime,
+  toBusinessDateString,
+} from "../_shared/dates.ts";
+import {
+  validateDeliverySlot,
+  validateStoreTime,
+} from "../_shared/deliverySlots.ts";
+import {
+  calculateEarlyReturn,
+  earlyReturnRentValues,
+  getEarlyReturnConfig,
+  type EarlyReturnQuote,
+} from "../_shared/earlyReturn.ts";
+import { updatePromoRedemption } from "../_shared/promoCodes.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// ALLOWED ORIGINS (Customer + Workers Portal)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "https://workers.4arentals.com",
+  "https://admin.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+  "http://localhost:5175",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type EarlyReturnAction = "preview" | "request" | "cancel" | "confirm";
+
+interface EarlyReturnPayload {
+  action: EarlyReturnAction;
+  bookingId: string;
+  returnDate?: string; // YYYY-MM-DD (business date)
+  returnTime?: string; // HH:MM (delivery slot or store drop-off)
+}
+
+interface EarlyReturnRequestRow {
+  id: string;
+  status: string;
+  requested_return_date: string;
+  return_time: string | null;
+  original_days: number;
+  actual_days: number;
+  billed_days: number;
+  original_amount: number | string;
+  used_amount: number | string;
+  early_return_fee: number | string;
+  refund_amount: number | string;
+  additional_charge: number | string;
+  stripe_session_id: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const ACTIONS: EarlyReturnAction[] = ["preview", "request", "cancel", "confirm"];
+const CUSTOMER_STATUSES = ["active"];
+const CONFIRMABLE_STATUSES = ["active", "inspection"];
+const MIN_CHARGE_CENTS = 50; // Stripe minimum
+const CHARGE_SESSION_HOURS = 23; // Stripe allows up to 24
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function isValidDateString(str: string | undefined): str is string {
+  return (
+    !!str &&
+    /^\d{4}-\d{2}-\d{2}$/.test(str) &&
+    !isNaN(new Date(`${str}T00:00:00Z`).getTime())
+  );
+}
+
+function isValidTime(str: string | undefined): str is string {
+  return !!str && /^([01]\d|2[0-3]):[0-5]\d$/.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * The quote stored when staff confirmed the return; the booking has been
+ * re-priced since, so it can't be recalculated.
+ */
+function quoteFromRequest(row: EarlyReturnRequestRow): EarlyReturnQuote {
+  return {
+    originalDays: row.original_days,
+    actualDays: row.actual_days,
+    daysUnused: Math.max(row.original_days - row.actual_days, 0),
+    billedDays: row.billed_days,
+    originalAmount: Number(row.original_amount) || 0,
+    usedAmount: Number(row.used_amount) || 0,
+    earlyReturnFee: Number(row.early_return_fee) || 0,
+    refundAmount: Number(row.refund_amount) || 0,
+    additionalCharge: Number(row.additional_charge) || 0,
+  };
+}
+
+/**
+ * Stripe can't charge less than MIN_CHARGE_CENTS, so a smaller additional
+ * charge is waived and the return completes without a checkout
+ */
+function waiveBelowMinimum(quote: EarlyReturnQuote): EarlyReturnQuote {
+  const chargeCents = toCents(quote.additionalCharge);
+  return chargeCents > 0 && chargeCents < MIN_CHARGE_CENTS
+    ? { ...quote, additionalCharge: 0 }
+    : quote;
+}
+
+function customerEmail(booking: Record<string, unknown>): string | undefined {
+  try {
+    const info =
+      typeof booking.customer_info === "string"
+        ? JSON.parse(booking.customer_info)
+        : booking.customer_info;
+    return info?.email || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    // Initialize clients
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "BOOKING_EARLY_RETURN",
+      user.id,
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many early return requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: EarlyReturnPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { action, bookingId, returnDate, returnTime } = payload;
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse({ error: "Invalid action" }, corsHeaders, 400);
+    }
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return jsonResponse({ error: "Invalid booking ID" }, corsHeaders, 400);
+    }
+
+    const needsReturnDetails = action === "preview" || action === "request";
+
+    if (needsReturnDetails && !isValidDateString(returnDate)) {
+      return jsonResponse({ error: "Invalid return date" }, corsHeaders, 400);
+    }
+
+    if (action === "request" && !isValidTime(returnTime)) {
+      return jsonResponse({ error: "Invalid return time" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 4. STAFF CHECK (confirm only)
+    // ============================================
+    let workerAccount: { id: string; full_name: string } | null = null;
+
+    if (action === "confirm") {
+      const { data: worker, error: workerError } = await supabase
+        .from("worker_accounts")
+        .select("id, full_name, is_active")
+        .eq("auth_user_id", user.id)
+        .maybeSingle();
+
+      if (workerError || !worker || !worker.is_active) {
+        return jsonResponse(
+          { error: "Unauthorized - Worker account required" },
+          corsHeaders,
+          403,
+        );
+      }
+
+      workerAccount = worker;
+    }
+
+    // ============================================
+    // 5. FETCH BOOKING (customers: ownership check)
+    // ============================================
+    let bookingQuery = supabase
+      .from("bookings")
+      .select("*, vehicles(id, name)")
+      .eq("id", bookingId);
+
+    if (!workerAccount) {
+      // CRITICAL: Customers only see bookings they own
+      bookingQuery = bookingQuery.eq("user_id", user.id);
+    }
+
+    const { data: booking, error: bookingError } =
+      await bookingQuery.maybeSingle();
+
+    if (bookingError || !booking) {
+      return jsonResponse(
+        { error: "Booking not found or access denied" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    const allowedStatuses = workerAccount
+      ? CONFIRMABLE_STATUSES
+      : CUSTOMER_STATUSES;
+
+    if (!allowedStatuses.includes(booking.status)) {
+      return jsonResponse(
+        {
+          error: "Only active rentals can be returned early.",
+          code: "INVALID_STATUS",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (booking.rental_type === "semester") {
+      return jsonResponse(
+        {
+          error: "Semester rentals have fixed dates and cannot be returned early online.",
+          code: "SEMESTER_FIXED_DATES",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (booking.payment_status !== "paid" || !booking.stripe_payment_intent_id) {
+      return jsonResponse(
+        {
+          error: "This booking has an outstanding payment. Please contact us.",
+          code: "NOT_PAID",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    const { data: openRequest } = await supabase
+      .from("early_return_requests")
+      .select(
+        "id, status, requested_return_date, return_time, original_days, actual_days, billed_days, original_amount, used_amount, early_return_fee, refund_amount, additional_charge, stripe_session_id",
+      )
+      .eq("booking_id", bookingId)
+      .in("status", ["requested", "awaiting_payment"])
+      .maybeSingle<EarlyReturnRequestRow>();
+
+    // ============================================
+    // 6. CANCEL (customer withdraws an unconfirmed request)
+    // ============================================
+    if (action === "cancel") {
+      if (!openRequest || openRequest.status !== "requested") {
+        return jsonResponse(
+          {
+            error: "There is no early return request to cancel.",
+            code: "NO_OPEN_REQUEST",
+          },
+          corsHeaders,
+          409,
+        );
+      }
+
+      const { error: cancelError } = await supabase
+        .from("early_return_requests")
+        .update({
+          status: "cancelled",
+          cancelled_at: new Date().toISOString(),
+        })
+        .eq("id", openRequest.id)
+        .eq("status", "requested");
+
+      if (cancelError) {
+        console.error("[early-return] Cancel failed:", cancelError);
+        return jsonResponse(
+          { error: "Failed to cancel early return request" },
+          corsHeaders,
+          500,
+        );
+      }
+
+      return jsonResponse({ cancelled: true, requestId: openRequest.id }, {
+        ...corsHeaders,
+        ...rateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    // ============================================
+    // 7. RETURN DATE & TIME
+    // ============================================
+    if (action === "confirm" && !openRequest) {
+      return jsonResponse(
+        {
+          error: "There is no early return request to confirm.",
+          code: "NO_OPEN_REQUEST",
+        },
+        corsHeaders,
+        409,
+      );
+    }
+
+    // Staff confirm the date and time the customer asked for
+    const targetDate =
+      openRequest && action === "confirm"
+        ? toBusinessDateString(new Date(openRequest.requested_return_date))
+        : (returnDate as string);
+    const targetTime =
+      openRequest && action === "confirm"
+        ? openRequest.return_time
+        : returnTime || null;
+
+    const today = businessNow().toISODate();
+    const originalReturnDay = toBusinessDateString(
+      new Date(booking.return_date),
+    );
+    const pickupDay = toBusinessDateString(new Date(booking.pickup_date));
+
+    if (needsReturnDetails) {
+      if (targetDate < today || targetDate <= pickupDay) {
+        return jsonResponse(
+          {
+            error: "The early return date can't be in the past.",
+            code: "INVALID_RETURN_DATE",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      if (targetDate >= originalReturnDay) {
+        return jsonResponse(
+          {
+            error: "The early return date must be before your current return date.",
+            code: "INVALID_RETURN_DATE",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+    }
+
+    if (action === "request") {
+      if (openRequest) {
+        return jsonResponse(
+          {
+            error: "You already have an early return request for this booking.",
+            code: "REQUEST_EXISTS",
+          },
+          corsHeaders,
+          409,
+        );
+      }
+
+      const slotError =
+        booking.pickup_type === "delivery" && booking.delivery_location_id
+          ? await validateDeliverySlot(
+              supabase,
+              booking.delivery_location_id,
+              targetDate,
+              targetTime,
+              { excludeBookingId: bookingId },
+            )
+          : await validateStoreTime(supabase, targetDate, targetTime);
+
+      if (slotError) {
+        return jsonResponse(
+          { error: slotError, code: "SLOT_UNAVAILABLE" },
+          corsHeaders,
+          409,
+        );
+      }
+    }
+
+    // ============================================
+    // 8. QUOTE (booking's frozen rates + early_return_fee)
+    // ============================================
+    // A confirmed return awaiting payment only needs a fresh checkout link
+    const alreadyConfirmed = openRequest?.status === "awaiting_payment";
+    const config = await getEarlyReturnConfig(supabase);
+
+    const quote: EarlyReturnQuote =
+      action === "confirm" && alreadyConfirmed
+        ? quoteFromRequest(openRequest as EarlyReturnRequestRow)
+        : waiveBelowMinimum(calculateEarlyReturn(booking, targetDate, config));
+
+    const breakdown = {
+      ...quote,
+      returnDate: targetDate,
+      returnTime: targetTime,
+      currentReturnDate: booking.return_date,
+    };
+
+    // ============================================
+    // 9. PREVIEW (no side effects)
+    // ============================================
+    if (action === "preview") {
+      return jsonResponse({ preview: true, ...breakdown }, {
+        ...corsHeaders,
+        ...rateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    // ============================================
+    // 10. REQUEST (customer) - recorded for staff
+    // ============================================
+    if (action === "request") {
+      const { data: created, error: createError } = await supabase
+        .from("early_return_requests")
+        .insert({
+          booking_id: bookingId,
+          user_id: user.id,
+          status: "requested",
+          requested_return_date: fromBusinessDateTime(
+            targetDate,
+            targetTime as string,
+          ),
+          return_time: targetTime,
+          original_return_date: booking.return_date,
+          original_days: quote.originalDays,
+          actual_days: quote.actualDays,
+          billed_days: quote.billedDays,
+          original_amount: quote.originalAmount,
+          used_amount: quote.usedAmount,
+          early_return_fee: quote.earlyReturnFee,
+          refund_amount: quote.refundAmount,
+          additional_charge: quote.additionalCharge,
+        })
+        .select("id, status, created_at")
+        .single();
+
+      if (createError || !created) {
+        console.error("[early-return] Request insert failed:", createError);
+        // Unique index: a request was created concurrently
+        if (createError?.code === "23505") {
+          return jsonResponse(
+            {
+              error: "You already have an early return request for this booking.",
+              code: "REQUEST_EXISTS",
+            },
+            corsHeaders,
+            409,
+          );
+        }
+        return jsonResponse(
+          { error: "Failed to save early return request" },
+          corsHeaders,
+          500,
+        );
+      }
+
+      console.log("[early-return] Request recorded:", {
+        bookingId,
+        requestId: created.id,
+        returnDate: targetDate,
+      });
+
+      return jsonResponse(
+        {
+          preview: false,
+          ...breakdown,
+          requestId: created.id,
+          status: created.status,
+          url: null,
+        },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 11. CONFIRM (staff) - vehicle is back
+    // ============================================
+    const request = openRequest as EarlyReturnRequestRow;
+    const refundCents = toCents(quote.refundAmount);
+    const chargeCents = toCents(quote.additionalCharge);
+
+    const refundIds: string[] = [];
+
+    if (!alreadyConfirmed && refundCents > 0) {
+      // Modifications may have been paid on their own payment intents
+      const payments = await getBookingPayments(supabase, stripe, booking);
+      const refundableCents = refundableTotal(payments);
+
+      if (refundCents > refundableCents) {
+        console.error("[early-return] Refund exceeds refundable amount:", {
+          bookingId,
+          requested: refundCents,
+          refundable: refundableCents,
+        });
+        return jsonResponse(
+          {
+            error: "The refund exceeds what can be refunded on the booking's payments. Please refund manually.",
+            code: "REFUND_UNAVAILABLE",
+          },
+          corsHeaders,
+          409,
+        );
+      }
+
+      for (const allocation of allocateRefund(payments, refundCents)) {
+        const refund = await stripe.refunds.create(
+          {
+            payment_intent: allocation.paymentIntentId,
+            amount: allocation.cents,
+            reason: "requested_by_customer",
+            metadata: {
+              type: "early_return",
+              booking_id: bookingId,
+              request_id: request.id,
+            },
+          },
+          {
+            idempotencyKey: `early_return_${request.id}_${allocation.paymentIntentId}`,
+          },
+        );
+        refundIds.push(refund.id);
+
+        const { error: ledgerError } = await supabase
+          .from("booking_refunds")
+          .upsert(
+            {
+              booking_id: bookingId,
+              refund_type: "rent",
+              amount: fromCents(allocation.cents),
+              reason: "early_return",
+              stripe_refund_id: refund.id,
+              stripe_payment_intent_id: allocation.paymentIntentId,
+              status: refund.status || "pending",
+              created_by: user.id,
+            },
+            { onConflict: "stripe_refund_id" },
+          );
+
+        if (ledgerError) {
+          // Refund is issued; staff can reconcile from Stripe
+          console.error("[early-return] Refund ledger insert failed:", {
+            bookingId,
+            refundId: refund.id,
+            error: ledgerError,
+          });
+        }
+      }
+    }
+
+    if (!alreadyConfirmed) {
+      const newTotalCents =
+        toCents(parseFloat(booking.total_price) || 0) - refundCents + chargeCents;
+
+      const rentValues = earlyReturnRentValues(
+        booking,
+        quote.billedDays,
+        config,
+      );
+
+      const { error: updateError } = await supabase
+        .from("bookings")
+        .update({
+          return_date: request.requested_return_date,
+          rental_days: quote.actualDays,
+          ...rentValues,
+          total_price: fromCents(newTotalCents).toString(),
+          actual_return_date: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", bookingId);
+
+      if (updateError) {
+        console.error("[early-return] Booking update failed:", {
+          bookingId,
+          requestId: request.id,
+          refundIds,
+          error: updateError,
+        });
+        return jsonResponse(
+          { error: "Failed to update booking" },
+          corsHeaders,
+          500,
+        );
+      }
+
+      // The promo code's recorded discount follows the booking's
+      if (booking.promo_code_id) {
+        try {
+          await updatePromoRedemption(
+            supabase,
+            bookingId,
+            rentValues.discount_amount,
+          );
+        } catch (promoError) {
+          console.error("[early-return] Promo update failed:", promoError);
+        }
+      }
+    }
+
+    const confirmation = {
+      confirmed_by: user.id,
+      confirmed_at: new Date().toISOString(),
+      original_days: quote.originalDays,
+      actual_days: quote.actualDays,
+      billed_days: quote.billedDays,
+      original_amount: quote.originalAmount,
+      used_amount: quote.usedAmount,
+      early_return_fee: quote.earlyReturnFee,
+      refund_amount: quote.refundAmount,
+      additional_charge: quote.additionalCharge,
+    };
+
+    // ============================================
+    // 11a. CUSTOMER OWES MORE: STRIPE CHECKOUT
+    // ============================================
+    if (chargeCents > 0) {
+      if (request.stripe_session_id) {
+        try {
+          await stripe.checkout.sessions.expire(request.stripe_session_id);
+        } catch (expireError) {
+          // Already completed or expired sessions cannot be expired
+          console.warn(
+            "[early-return] Could not expire session:",
+            request.stripe_session_id,
+            expireError,
+          );
+        }
+      }
+
+      const vehicleName = booking.vehicles?.name || "Vehicle";
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        mode: "payment",
+        customer_email: customerEmail(booking),
+        client_reference_id: `early_return_${request.id}`,
+        metadata: {
+          type: "early_return_charge",
+          booking_id: bookingId,
+          request_id: request.id,
+          user_id: booking.user_id,
+        },
+        line_items: [
+          {
+            price_data: {
+              currency: "usd",
+              product_data: {
+                name: `Early Return - ${vehicleName}`,
+                description: `Re-priced rental for ${quote.actualDays} days plus early return fee`,
+              },
+              unit_amount: chargeCents,
+            },
+            quantity: 1,
+          },
+        ],
+        success_url: `${CUSTOMER_PORTAL_URL}/my-bookings?early_return=success&booking_id=${bookingId}`,
+        cancel_url: `${CUSTOMER_PORTAL_URL}/my-bookings?early_return=cancelled&booking_id=${bookingId}`,
+        expires_at:
+          Math.floor(Date.now() / 1000) + CHARGE_SESSION_HOURS * 60 * 60,
+      });
+
+      await supabase
+        .from("early_return_requests")
+        .update({
+          ...(alreadyConfirmed ? {} : confirmation),
+          status: "awaiting_payment",
+          stripe_session_id: session.id,
+          stripe_checkout_url: session.url,
+        })
+        .eq("id", request.id);
+
+      console.log("[early-return] Return confirmed, charge pending:", {
+        bookingId,
+        requestId: request.id,
+        worker: workerAccount?.full_name,
+        amountDue: quote.additionalCharge,
+      });
+
+      return jsonResponse(
+        {
+          preview: false,
+          ...breakdown,
+          requestId: request.id,
+          status: "awaiting_payment",
+          url: session.url,
+        },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 11b. REFUND ISSUED (or nothing owed): COMPLETE
+    // ============================================
+    await supabase
+      .from("early_return_requests")
+      .update({
+        ...confirmation,
+        status: "completed",
+        // Split refunds are all in booking_refunds; keep the first here
+        stripe_refund_id: refundIds[0] ?? null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", request.id);
+
+    console.log("[early-return] Return confirmed:", {
+      bookingId,
+      requestId: request.id,
+      worker: workerAccount?.full_name,
+      refundIds,
+      refundAmount: quote.refundAmount,
+    });
+
+    return jsonResponse(
+      {
+        preview: false,
+        ...breakdown,
+        requestId: request.id,
+        status: "completed",
+        url: null,
+        refundIds,
+      },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[early-return] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred. Please try again." },
+      getCorsHeaders(req),
+      500,
+    );
+  }
+});
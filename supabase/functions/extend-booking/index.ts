@@ -6,6 +6,11 @@ import {
   rateLimitResponse,
   rateLimitHeaders,
 } from "../_shared/ratelimit.ts";
+import {
+  evaluateExtensionEligibility,
+  extensionRulesFromConfig,
+  validateExtensionDates,
+} from "../_shared/extensionRules.ts";
 
 // ============================================
 // ENVIRONMENT VARIABLES
@@ -202,44 +207,41 @@ Deno.serve(async (req: Request) => {
     }
 
     // ============================================
-    // 5. BUSINESS VALIDATION
+    // 5. BUSINESS VALIDATION (shared extension rules)
     // ============================================
-    // Check booking status
-    if (booking.status !== "confirmed" && booking.status !== "active") {
-      return new Response(
-        JSON.stringify({
-          error: "Only confirmed or active bookings can be extended",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
-    }
+    const { data: extensionConfigRows } = await supabase
+      .from("system_config")
+      .select("key, value")
+      .in("key", [
+        "max_extensions",
+        "extension_cutoff_days",
+        "extension_min_duration_days",
+        "extension_min_rental_days",
+      ]);
+
+    const extensionRules = extensionRulesFromConfig(
+      Object.fromEntries(
+        (extensionConfigRows || []).map((row) => [row.key, row.value]),
+      ),
+    );
 
-    // Check rental type
-    if (
-      booking.rental_type === "weekly" ||
-      booking.rental_type === "semester"
-    ) {
-      return new Response(
-        JSON.stringify({
-          error:
-            "This rental type cannot be extended online. Please contact support.",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
-    }
+    const eligibility = evaluateExtensionEligibility(
+      {
+        status: booking.status,
+        rentalType: booking.rental_type,
+        rentalDays: booking.rental_days,
+        extensionCount: booking.extension_count,
+        returnDate: booking.return_date,
+      },
+      extensionRules,
+    );
 
-    // Check extension limit
-    if (booking.extension_count >= 5) {
+    if (!eligibility.eligible) {
       return new Response(
         JSON.stringify({
-          error:
-            "Maximum number of extensions reached. Please contact support.",
+          error: eligibility.reasons[0].message,
+          code: eligibility.reasons[0].code,
+          reasons: eligibility.reasons,
         }),
         {
           status: 400,
@@ -248,12 +250,18 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Ensure new return date is after current return date
-    const currentReturnDate = new Date(booking.return_date);
-    if (parsedNewReturnDate <= currentReturnDate) {
+    const dateError = validateExtensionDates(
+      booking.return_date,
+      newReturnDate,
+      extensionRules,
+    );
+
+    if (dateError) {
       return new Response(
         JSON.stringify({
-          error: "New return date must be after the current return date",
+          error: dateError.message,
+          code: dateError.code,
+          reasons: [dateError],
         }),
         {
           status: 400,
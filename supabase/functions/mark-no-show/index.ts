@@ -0,0 +1,297 @@
+// supabase/functions/mark-no-show/index.ts
+// Workers portal: close a confirmed booking as a no-show when the customer
+// didn't turn up, without waiting for process-no-shows. Same fee, refund and
+// vehicle release as the scheduled sweep.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import {
+  applyNoShow,
+  calculateNoShow,
+  getNoShowConfig,
+  noShowDeadline,
+  NO_SHOW_BOOKING_COLUMNS,
+  NO_SHOW_STATUSES,
+  type NoShowBookingRow,
+} from "../_shared/noShow.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+
+// ============================================
+// ALLOWED ORIGINS (Workers Portal)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://workers.4arentals.com",
+  "https://admin.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+  "http://localhost:5175",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+interface MarkNoShowPayload {
+  bookingId: string;
+  reason?: string;
+  preview?: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_REASON_LENGTH = 500;
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    // Initialize clients
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. AUTHENTICATION - Must be a worker
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const { data: workerAccount, error: workerError } = await supabase
+      .from("worker_accounts")
+      .select("id, full_name, is_active")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (workerError || !workerAccount || !workerAccount.is_active) {
+      return jsonResponse(
+        { error: "Unauthorized - Worker account required" },
+        corsHeaders,
+        403,
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "BOOKING_NO_SHOW",
+      workerAccount.id,
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many no-show requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: MarkNoShowPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { bookingId, preview = false } = payload;
+    const reason =
+      typeof payload.reason === "string"
+        ? payload.reason.trim().slice(0, MAX_REASON_LENGTH)
+        : "";
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return jsonResponse({ error: "Invalid booking ID" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 4. FETCH BOOKING
+    // ============================================
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select(NO_SHOW_BOOKING_COLUMNS)
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (bookingError || !booking) {
+      return jsonResponse({ error: "Booking not found" }, corsHeaders, 404);
+    }
+
+    const row = booking as unknown as NoShowBookingRow;
+
+    if (row.status === "no_show") {
+      return jsonResponse(
+        {
+          error: "This booking has already been marked as a no-show.",
+          code: "ALREADY_NO_SHOW",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (!NO_SHOW_STATUSES.includes(row.status)) {
+      return jsonResponse(
+        {
+          error: "Only confirmed bookings awaiting pickup can be marked as a no-show.",
+          code: "INVALID_STATUS",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // Staff can act once the pickup day has started, ahead of the sweep
+    if (new Date(row.pickup_date).getTime() > Date.now()) {
+      return jsonResponse(
+        {
+          error: "The pickup day hasn't started yet.",
+          code: "BEFORE_PICKUP",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 5. PREVIEW (no side effects)
+    // ============================================
+    const config = await getNoShowConfig(supabase);
+
+    if (preview) {
+      return jsonResponse(
+        {
+          preview: true,
+          ...calculateNoShow(row, config.noShowFee),
+          automaticAt: noShowDeadline(row, config).toISOString(),
+        },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 6. APPLY
+    // ============================================
+    const result = await applyNoShow(supabase, stripe, row, config, {
+      markedBy: user.id,
+      reason: reason || `Marked by ${workerAccount.full_name}`,
+    });
+
+    if (!result.applied) {
+      return jsonResponse(
+        { error: result.message, code: result.code },
+        corsHeaders,
+        409,
+      );
+    }
+
+    console.log("✅ [mark-no-show] Booking marked as no-show:", {
+      bookingId,
+      workerId: workerAccount.id,
+      fee: result.breakdown.noShowFee,
+      refund: result.breakdown.totalRefund,
+    });
+
+    // ============================================
+    // 7. RETURN SUCCESS
+    // ============================================
+    return jsonResponse(
+      {
+        preview: false,
+        ...result.breakdown,
+        noShowAt: result.noShowAt,
+        refundIds: result.refundIds,
+      },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[mark-no-show] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred. Please try again." },
+      corsHeaders,
+      500,
+    );
+  }
+});
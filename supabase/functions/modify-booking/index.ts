@@ -0,0 +1,1178 @@
+// supabase/functions/modify-booking/index.ts
+import { createClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import {
+  MODIFIABLE_STATUSES,
+  applyBookingRevision,
+  snapshotBooking,
+  type BookingRevisionValues,
+  type DriverSnapshot,
+} from "../_shared/bookingRevisions.ts";
+import {
+  allocateRefund,
+  getBookingPayments,
+  refundableTotal,
+} from "../_shared/bookingPayments.ts";
+import { toBusinessDateString } from "../_shared/dates.ts";
+import { validateDeliverySlot } from "../_shared/deliverySlots.ts";
+import {
+  driverEligibilityRulesFromConfig,
+  evaluateDriversEligibility,
+  normalizeLicenseCountry,
+} from "../_shared/driverEligibility.ts";
+import { applyLoyaltyBenefits } from "../_shared/loyalty.ts";
+import { checkPromoCode, type PromoDiscount } from "../_shared/promoCodes.ts";
+import {
+  CHECKOUT_HOLD_MINUTES,
+  attachVehicleHold,
+  checkoutSessionExpiresAt,
+  createVehicleHold,
+  isVehicleAvailable,
+  releaseVehicleHold,
+} from "../_shared/vehicleHolds.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+// ============================================
+// TYPES
+// ============================================
+interface DriverInput {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  driversLicenseNumber: string;
+  licenseCountry?: string;
+  dateOfBirth: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  /** Invited by email: only the name and email are known */
+  invite?: boolean;
+}
+
+interface ModifyBookingPayload {
+  bookingId: string;
+  preview?: boolean;
+  pickupDate: string;
+  returnDate: string;
+  pickupType: "store" | "delivery";
+  pickupLocation?: string;
+  deliveryLocationId?: string | null;
+  deliveryTimeSlot?: string | null;
+  primaryDriver: DriverInput;
+  additionalDrivers?: DriverInput[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const DEFAULT_CUTOFF_HOURS = 24;
+const MIN_CHARGE_CENTS = 50; // Stripe minimum
+const DRIVER_CONFIG_KEYS = [
+  "min_driver_age",
+  "max_additional_drivers",
+  "us_license_only",
+  "young_driver_fee_enabled",
+  "young_driver_fee_under_21",
+  "young_driver_fee_under_25",
+];
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function isValidDate(dateStr: string): boolean {
+  const date = new Date(dateStr);
+  return date instanceof Date && !isNaN(date.getTime());
+}
+
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email) && email.length <= 254;
+}
+
+function isValidPhone(phone: string): boolean {
+  const phoneRegex = /^[\d\s()+-]{7,20}$/;
+  return phoneRegex.test(phone);
+}
+
+function sanitizeString(str: string, maxLength: number = 200): string {
+  return String(str || "").slice(0, maxLength).trim();
+}
+
+function isValidDriver(driver: DriverInput | undefined): boolean {
+  return Boolean(
+    driver &&
+      driver.firstName &&
+      driver.lastName &&
+      driver.email &&
+      isValidEmail(driver.email) &&
+      (driver.invite || isCompleteDriver(driver)),
+  );
+}
+
+function isCompleteDriver(driver: DriverInput): boolean {
+  return Boolean(
+    driver.phone &&
+      isValidPhone(driver.phone) &&
+      driver.driversLicenseNumber &&
+      driver.dateOfBirth,
+  );
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * A driver sent without a license country keeps `storedCountry`, the one on
+ * file for them
+ */
+function toDriverSnapshot(
+  driver: DriverInput,
+  storedCountry?: string,
+): DriverSnapshot {
+  if (driver.invite) {
+    return {
+      first_name: sanitizeString(driver.firstName),
+      last_name: sanitizeString(driver.lastName),
+      email: driver.email.toLowerCase().trim(),
+      phone: "",
+      drivers_license: "",
+      date_of_birth: "",
+      street_address: "",
+      city: "",
+      state: "",
+      zip_code: "",
+      invite: true,
+    };
+  }
+
+  return {
+    first_name: sanitizeString(driver.firstName),
+    last_name: sanitizeString(driver.lastName),
+    email: driver.email.toLowerCase().trim(),
+    phone: sanitizeString(driver.phone, 20),
+    drivers_license: sanitizeString(driver.driversLicenseNumber),
+    license_country: normalizeLicenseCountry(
+      driver.licenseCountry || storedCountry,
+    ),
+    date_of_birth: driver.dateOfBirth,
+    street_address: sanitizeString(driver.streetAddress),
+    city: sanitizeString(driver.city),
+    state: sanitizeString(driver.state),
+    zip_code: sanitizeString(driver.zipCode),
+  };
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    // Initialize clients
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired session" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit("BOOKING_MODIFY", user.id);
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many modification requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: ModifyBookingPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return new Response(JSON.stringify({ error: "Invalid request body" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const {
+      bookingId,
+      preview = false,
+      pickupDate,
+      returnDate,
+      pickupType,
+      pickupLocation,
+      deliveryLocationId,
+      deliveryTimeSlot,
+      primaryDriver,
+      additionalDrivers = [],
+    } = payload;
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return new Response(JSON.stringify({ error: "Invalid booking ID" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      !pickupDate ||
+      !returnDate ||
+      !isValidDate(pickupDate) ||
+      !isValidDate(returnDate) ||
+      new Date(returnDate) <= new Date(pickupDate)
+    ) {
+      return new Response(
+        JSON.stringify({ error: "Invalid pickup or return date" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (!["store", "delivery"].includes(pickupType)) {
+      return new Response(JSON.stringify({ error: "Invalid pickup type" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      pickupType === "delivery" &&
+      (!deliveryLocationId || !isValidUUID(deliveryLocationId))
+    ) {
+      return new Response(
+        JSON.stringify({ error: "Invalid delivery location" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (!isValidDriver(primaryDriver) || primaryDriver.invite) {
+      return new Response(
+        JSON.stringify({ error: "Valid primary driver information is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // How many are allowed is a driver eligibility rule (step 5b)
+    if (
+      !Array.isArray(additionalDrivers) ||
+      !additionalDrivers.every(isValidDriver)
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "Additional drivers need complete information",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 4. FETCH BOOKING (with ownership check)
+    // ============================================
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select(
+        "*, vehicles(id, name, image), primary_drivers!booking_id(*), additional_drivers!booking_id(*)",
+      )
+      .eq("id", bookingId)
+      .eq("user_id", user.id) // CRITICAL: Only fetch if user owns the booking
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found or access denied" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (!MODIFIABLE_STATUSES.includes(booking.status)) {
+      return new Response(
+        JSON.stringify({
+          error: "This booking can no longer be modified.",
+          code: "INVALID_STATUS",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (booking.payment_status !== "paid" || !booking.stripe_payment_intent_id) {
+      return new Response(
+        JSON.stringify({
+          error: "Please complete payment for this booking before modifying it.",
+          code: "NOT_PAID",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const datesChanged =
+      new Date(pickupDate).getTime() !== new Date(booking.pickup_date).getTime() ||
+      new Date(returnDate).getTime() !== new Date(booking.return_date).getTime();
+
+    if (booking.rental_type === "semester" && datesChanged) {
+      return new Response(
+        JSON.stringify({
+          error: "Semester rentals have fixed dates and cannot be rescheduled.",
+          code: "SEMESTER_FIXED_DATES",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 5. MODIFICATION CUTOFF (system_config)
+    // ============================================
+    const { data: cutoffConfig } = await supabase
+      .from("system_config")
+      .select("value")
+      .eq("key", "modification_cutoff_hours")
+      .maybeSingle();
+
+    const cutoffValue = Number.parseInt(cutoffConfig?.value ?? "", 10);
+    const cutoffHours =
+      Number.isFinite(cutoffValue) && cutoffValue >= 0
+        ? cutoffValue
+        : DEFAULT_CUTOFF_HOURS;
+
+    const hoursUntil = (date: string) =>
+      (new Date(date).getTime() - Date.now()) / (1000 * 60 * 60);
+
+    if (hoursUntil(booking.pickup_date) < cutoffHours) {
+      return new Response(
+        JSON.stringify({
+          error: `Bookings can't be modified online within ${cutoffHours} hours of pickup. Please contact us.`,
+          code: "PAST_CUTOFF",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (hoursUntil(pickupDate) < cutoffHours) {
+      return new Response(
+        JSON.stringify({
+          error: `The new pickup time must be at least ${cutoffHours} hours from now.`,
+          code: "NEW_PICKUP_TOO_SOON",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 5b. DRIVER ELIGIBILITY (on the new pickup date)
+    // ============================================
+    // Drivers are judged as at checkout and the young driver surcharge is
+    // recomputed. Invited drivers who entered their own details pay theirs
+    // through booking_charges, so it stays out of the booking total.
+    const { data: driverConfigRows } = await supabase
+      .from("system_config")
+      .select("key, value")
+      .in("key", DRIVER_CONFIG_KEYS);
+
+    const driverRules = driverEligibilityRulesFromConfig(
+      Object.fromEntries(
+        (driverConfigRows || []).map((row) => [row.key, row.value]),
+      ),
+    );
+
+    const existingPrimary = Array.isArray(booking.primary_drivers)
+      ? booking.primary_drivers[0]
+      : booking.primary_drivers;
+    const existingAdditional = new Map<string, Record<string, unknown>>(
+      (booking.additional_drivers || []).map(
+        (row: Record<string, unknown>) => [
+          String(row.email).toLowerCase(),
+          row,
+        ],
+      ),
+    );
+    const storedAdditional = (driver: DriverInput) =>
+      existingAdditional.get(driver.email.toLowerCase().trim());
+    const storedCountry = (driver: DriverInput) =>
+      storedAdditional(driver)?.license_country as string | undefined;
+
+    const driverEligibility = evaluateDriversEligibility(
+      [
+        {
+          dateOfBirth: primaryDriver.dateOfBirth,
+          licenseCountry:
+            primaryDriver.licenseCountry || existingPrimary?.license_country,
+        },
+        ...additionalDrivers.map((driver) =>
+          driver.invite
+            ? { dateOfBirth: "", pending: true }
+            : {
+                dateOfBirth: driver.dateOfBirth,
+                licenseCountry: driver.licenseCountry || storedCountry(driver),
+              },
+        ),
+      ],
+      toBusinessDateString(new Date(pickupDate)),
+      driverRules,
+    );
+
+    if (!driverEligibility.eligible) {
+      return new Response(
+        JSON.stringify({
+          error: driverEligibility.reasons.join(". "),
+          code: "DRIVER_INELIGIBLE",
+          reasons: driverEligibility.reasons,
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const youngDriverFee = driverEligibility.drivers.reduce(
+      (sum, result, index) =>
+        index > 0 &&
+        storedAdditional(additionalDrivers[index - 1])?.invite_status ===
+          "submitted"
+          ? sum
+          : sum + result.fee,
+      0,
+    );
+
+    // ============================================
+    // 6. CHECK FOR CONFLICTS (excluding this booking)
+    // ============================================
+    const available = await isVehicleAvailable(supabase, {
+      vehicleId: booking.vehicle_id,
+      pickupDate,
+      returnDate,
+      excludeBookingId: bookingId,
+    });
+
+    if (!available) {
+      return new Response(
+        JSON.stringify({
+          error: "Vehicle is not available for the selected dates",
+          code: "DATES_UNAVAILABLE",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 7. RESOLVE DELIVERY LOCATION & RE-PRICE SERVER-SIDE
+    // ============================================
+    let deliveryFee = 0;
+    let resolvedPickupLocation = sanitizeString(
+      pickupLocation || "Store Pickup",
+    );
+
+    if (pickupType === "delivery") {
+      const { data: deliveryLocation, error: deliveryLocationError } =
+        await supabase
+          .from("delivery_locations")
+          .select("id, address, city, state, zip_code, delivery_fee")
+          .eq("id", deliveryLocationId)
+          .eq("is_active", true)
+          .maybeSingle();
+
+      if (deliveryLocationError) {
+        console.error(
+          "[modify-booking] Delivery location lookup error:",
+          deliveryLocationError,
+        );
+        return new Response(
+          JSON.stringify({ error: "Failed to verify delivery location" }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      if (!deliveryLocation) {
+        return new Response(
+          JSON.stringify({
+            error: "Selected delivery location is no longer available",
+          }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      deliveryFee = Number(deliveryLocation.delivery_fee) || 0;
+      resolvedPickupLocation = sanitizeString(
+        `${deliveryLocation.address}, ${deliveryLocation.city}, ${deliveryLocation.state} ${deliveryLocation.zip_code}`,
+      );
+
+      // Re-check the slot unless the delivery itself is unchanged
+      const deliveryDate = toBusinessDateString(new Date(pickupDate));
+      const deliveryChanged =
+        deliveryTimeSlot !== booking.delivery_time_slot ||
+        deliveryLocationId !== booking.delivery_location_id ||
+        deliveryDate !== toBusinessDateString(new Date(booking.pickup_date));
+
+      if (deliveryChanged) {
+        const slotError = await validateDeliverySlot(
+          supabase,
+          deliveryLocation.id,
+          deliveryDate,
+          deliveryTimeSlot,
+          { excludeBookingId: bookingId },
+        );
+
+        if (slotError) {
+          return new Response(
+            JSON.stringify({ error: slotError, code: "SLOT_UNAVAILABLE" }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            },
+          );
+        }
+      }
+    }
+
+    // CRITICAL: Never trust price from frontend!
+    const { data: pricingData, error: pricingError } = await supabase.rpc(
+      "calculate_booking_total",
+      {
+        p_vehicle_id: booking.vehicle_id,
+        p_pickup_date: pickupDate.split("T")[0],
+        p_return_date: returnDate.split("T")[0],
+        p_is_student: booking.is_student_booking || false,
+        p_delivery_fee: deliveryFee,
+        p_additional_drivers: additionalDrivers.length,
+      },
+    );
+
+    if (pricingError || !pricingData || pricingData.length === 0) {
+      console.error("[modify-booking] Pricing error:", pricingError);
+      return new Response(
+        JSON.stringify({ error: "Failed to calculate booking price" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const pricing = pricingData[0];
+
+    // The customer's current loyalty tier applies to the new fees and deposit
+    const loyalty = await applyLoyaltyBenefits(supabase, {
+      userId: user.id,
+      deliveryFee,
+      additionalDriverFee: Number(pricing.additional_driver_fee) || 0,
+      securityDeposit: Number(pricing.security_deposit) || 0,
+    });
+    deliveryFee = loyalty.deliveryFee;
+
+    // The booking's promo code is re-checked against the new rental; it may
+    // give a different discount, or none once it no longer applies
+    let promo: PromoDiscount | null = null;
+    let promoError: string | null = null;
+
+    if (booking.promo_code) {
+      const promoCheck = await checkPromoCode(supabase, {
+        code: booking.promo_code,
+        userId: user.id,
+        vehicleId: booking.vehicle_id,
+        rentalType: pricing.rental_type,
+        rentalDays: pricing.rental_days,
+        rentalAmount: Number(pricing.rental_amount) || 0,
+        excludeBookingId: bookingId,
+      });
+      promo = promoCheck.discount;
+      promoError = promoCheck.error;
+    }
+
+    // ============================================
+    // 8. BUILD REVISION & PRICE DIFFERENCE
+    // ============================================
+    const primaryDriverRow = Array.isArray(booking.primary_drivers)
+      ? booking.primary_drivers[0] || null
+      : booking.primary_drivers || null;
+
+    const previousValues = snapshotBooking(
+      booking,
+      primaryDriverRow,
+      booking.additional_drivers || [],
+    );
+
+    const newRentalAmount = Number(pricing.rental_amount) || 0;
+    const newSecurityDeposit = loyalty.securityDeposit;
+    const newAdditionalDriverFee = loyalty.additionalDriverFee;
+    // Account credit used at checkout stays on the booking; with the promo
+    // discount it never exceeds the new rent
+    const promoDiscountCents = promo ? toCents(promo.amount) : 0;
+    const discountCents = Math.min(
+      promoDiscountCents + toCents(Number(booking.account_credit_applied) || 0),
+      toCents(newRentalAmount),
+    );
+    const repricedTotalCents =
+      toCents(newRentalAmount) +
+      toCents(newSecurityDeposit) +
+      toCents(deliveryFee) +
+      toCents(newAdditionalDriverFee) +
+      toCents(youngDriverFee) -
+      discountCents;
+
+    // Stripe can't charge less than MIN_CHARGE_CENTS, so a smaller increase
+    // is waived rather than rounded up
+    const currentTotalCents = toCents(previousValues.total_price);
+    const increaseCents = repricedTotalCents - currentTotalCents;
+    const newTotalCents =
+      increaseCents > 0 && increaseCents < MIN_CHARGE_CENTS
+        ? currentTotalCents
+        : repricedTotalCents;
+
+    const newValues: BookingRevisionValues = {
+      pickup_date: pickupDate,
+      return_date: returnDate,
+      pickup_type: pickupType,
+      pickup_location: resolvedPickupLocation,
+      delivery_location_id: pickupType === "delivery" ? deliveryLocationId! : null,
+      delivery_fee: deliveryFee,
+      delivery_time_slot:
+        pickupType === "delivery" ? deliveryTimeSlot || null : null,
+      rental_type: pricing.rental_type,
+      rental_days: pricing.rental_days,
+      pricing_method: pricing.pricing_method,
+      daily_rate: pricing.daily_rate,
+      weekly_rate: pricing.weekly_rate,
+      monthly_rate: pricing.monthly_rate,
+      rental_amount: newRentalAmount,
+      security_deposit: newSecurityDeposit,
+      additional_driver_fee: newAdditionalDriverFee,
+      young_driver_fee: youngDriverFee,
+      promo_code_id: promo?.promoCodeId ?? null,
+      promo_code: promo?.code ?? null,
+      discount_amount: fromCents(promoDiscountCents),
+      loyalty_tier_id: loyalty.tierId,
+      loyalty_savings: loyalty.savings,
+      total_price: fromCents(newTotalCents),
+      primary_driver: toDriverSnapshot(
+        primaryDriver,
+        existingPrimary?.license_country,
+      ),
+      additional_drivers: additionalDrivers.map((driver) =>
+        toDriverSnapshot(driver, storedCountry(driver)),
+      ),
+    };
+
+    const depositDifferenceCents =
+      toCents(newSecurityDeposit) - toCents(previousValues.security_deposit);
+    const differenceCents = newTotalCents - currentTotalCents;
+    const rentDifferenceCents = differenceCents - depositDifferenceCents;
+
+    const breakdown = {
+      currentTotal: previousValues.total_price,
+      newTotal: fromCents(newTotalCents),
+      rentDifference: fromCents(rentDifferenceCents),
+      depositDifference: fromCents(depositDifferenceCents),
+      amountDue: differenceCents > 0 ? fromCents(differenceCents) : 0,
+      refundAmount: differenceCents < 0 ? fromCents(-differenceCents) : 0,
+      rentalDays: pricing.rental_days,
+      rentalType: pricing.rental_type,
+      rentalAmount: newRentalAmount,
+      securityDeposit: newSecurityDeposit,
+      deliveryFee,
+      additionalDriverFee: newAdditionalDriverFee,
+      youngDriverFee,
+      promoCode: promo?.code ?? null,
+      promoDiscount: fromCents(promoDiscountCents),
+      promoError,
+      loyaltySavings: loyalty.savings,
+      cutoffHours,
+    };
+
+    // ============================================
+    // 9. PREVIEW (no side effects)
+    // ============================================
+    if (preview) {
+      return new Response(JSON.stringify({ preview: true, ...breakdown }), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          ...rateLimitHeaders(rateLimitResult),
+        },
+      });
+    }
+
+    // ============================================
+    // 10. SUPERSEDE OPEN REVISIONS & RECORD NEW ONE
+    // ============================================
+    const { data: openRevisions } = await supabase
+      .from("booking_revisions")
+      .select("id, stripe_session_id")
+      .eq("booking_id", bookingId)
+      .eq("status", "pending");
+
+    for (const open of openRevisions || []) {
+      if (open.stripe_session_id) {
+        try {
+          await stripe.checkout.sessions.expire(open.stripe_session_id);
+        } catch (expireError) {
+          // Already completed or expired sessions cannot be expired
+          console.warn(
+            "[modify-booking] Could not expire session:",
+            open.stripe_session_id,
+            expireError,
+          );
+        }
+      }
+    }
+
+    if (openRevisions && openRevisions.length > 0) {
+      await supabase
+        .from("booking_revisions")
+        .update({ status: "cancelled" })
+        .in(
+          "id",
+          openRevisions.map((r) => r.id),
+        )
+        .eq("status", "pending");
+
+      // Their checkouts are gone, so are the dates they were holding
+      await releaseVehicleHold(supabase, { bookingId });
+    }
+
+    const { data: lastRevision } = await supabase
+      .from("booking_revisions")
+      .select("revision_number")
+      .eq("booking_id", bookingId)
+      .order("revision_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: revision, error: revisionError } = await supabase
+      .from("booking_revisions")
+      .insert({
+        booking_id: bookingId,
+        revision_number: (lastRevision?.revision_number || 0) + 1,
+        status: "pending",
+        previous_values: previousValues,
+        new_values: newValues,
+        rent_difference: breakdown.rentDifference,
+        deposit_difference: breakdown.depositDifference,
+        changed_by: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (revisionError || !revision) {
+      console.error("[modify-booking] Revision insert failed:", revisionError);
+      return new Response(
+        JSON.stringify({ error: "Failed to save booking changes" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // ============================================
+    // 11a. PRICE INCREASE: STRIPE CHECKOUT FOR THE DIFFERENCE
+    // ============================================
+    if (differenceCents > 0) {
+      const vehicleName = booking.vehicles?.name || "Vehicle";
+
+      // Keep the new dates while the customer pays
+      const holdId = await createVehicleHold(supabase, {
+        vehicleId: booking.vehicle_id,
+        userId: user.id,
+        pickupDate,
+        returnDate,
+        expiresAt: new Date(Date.now() + CHECKOUT_HOLD_MINUTES * 60 * 1000),
+        excludeBookingId: bookingId,
+      });
+
+      if (!holdId) {
+        await supabase
+          .from("booking_revisions")
+          .update({ status: "cancelled" })
+          .eq("id", revision.id);
+        return new Response(
+          JSON.stringify({
+            error: "Vehicle is not available for the selected dates",
+            code: "DATES_UNAVAILABLE",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        mode: "payment",
+        customer_email: user.email || newValues.primary_driver?.email,
+        client_reference_id: `modification_${revision.id}`,
+        metadata: {
+          type: "booking_modification",
+          booking_id: bookingId,
+          revision_id: revision.id,
+          hold_id: holdId,
+          user_id: user.id,
+          rent_difference: breakdown.rentDifference.toFixed(2),
+          deposit_difference: breakdown.depositDifference.toFixed(2),
+        },
+        line_items: [
+          {
+            price_data: {
+              currency: "usd",
+              product_data: {
+                name: `Booking Changes - ${vehicleName}`,
+                description: `Price difference for your updated booking (new total ${breakdown.newTotal.toFixed(2)} USD)`,
+              },
+              unit_amount: differenceCents,
+            },
+            quantity: 1,
+          },
+        ],
+        success_url: `${CUSTOMER_PORTAL_URL}/my-bookings?modification=success&booking_id=${bookingId}`,
+        cancel_url: `${CUSTOMER_PORTAL_URL}/my-bookings?modification=cancelled&booking_id=${bookingId}`,
+        expires_at: checkoutSessionExpiresAt(),
+      });
+
+      await supabase
+        .from("booking_revisions")
+        .update({ stripe_session_id: session.id })
+        .eq("id", revision.id);
+
+      await attachVehicleHold(supabase, holdId, {
+        revisionId: revision.id,
+        stripeSessionId: session.id,
+      });
+
+      console.log("[modify-booking] Stripe session created:", {
+        sessionId: session.id,
+        bookingId,
+        revisionId: revision.id,
+        amountDue: breakdown.amountDue,
+      });
+
+      return new Response(
+        JSON.stringify({
+          preview: false,
+          ...breakdown,
+          revisionId: revision.id,
+          applied: false,
+          url: session.url,
+          refundIds: [],
+        }),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+            ...rateLimitHeaders(rateLimitResult),
+          },
+        },
+      );
+    }
+
+    // ============================================
+    // 11b. PRICE DECREASE: PARTIAL REFUND (deposit recorded separately)
+    // ============================================
+    const refunds: {
+      refund_type: "rent" | "deposit";
+      amount: number;
+      stripe_refund_id: string;
+      stripe_payment_intent_id: string;
+      status: string;
+    }[] = [];
+
+    if (differenceCents < 0) {
+      const refundCents = -differenceCents;
+      const depositRefundCents = Math.min(
+        Math.max(-depositDifferenceCents, 0),
+        refundCents,
+      );
+      const rentRefundCents = refundCents - depositRefundCents;
+
+      // Earlier modifications may have been paid on their own payment intents
+      const payments = await getBookingPayments(supabase, stripe, booking);
+      const refundableCents = refundableTotal(payments);
+
+      if (refundCents > refundableCents) {
+        console.error("[modify-booking] Refund exceeds refundable amount:", {
+          bookingId,
+          requested: refundCents,
+          refundable: refundableCents,
+        });
+        await supabase
+          .from("booking_revisions")
+          .update({ status: "cancelled" })
+          .eq("id", revision.id);
+        return new Response(
+          JSON.stringify({
+            error:
+              "We couldn't process your refund automatically. Please contact us to change this booking.",
+            code: "REFUND_UNAVAILABLE",
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      const portions: ["rent" | "deposit", number][] = [
+        ["rent", rentRefundCents],
+        ["deposit", depositRefundCents],
+      ];
+
+      for (const [refundType, cents] of portions) {
+        if (cents <= 0) continue;
+
+        for (const allocation of allocateRefund(payments, cents)) {
+          const refund = await stripe.refunds.create(
+            {
+              payment_intent: allocation.paymentIntentId,
+              amount: allocation.cents,
+              reason: "requested_by_customer",
+              metadata: {
+                type: "booking_modification",
+                refund_type: refundType,
+                booking_id: bookingId,
+                revision_id: revision.id,
+                user_id: user.id,
+              },
+            },
+            {
+              idempotencyKey: `modify_${revision.id}_${refundType}_${allocation.paymentIntentId}`,
+            },
+          );
+
+          refunds.push({
+            refund_type: refundType,
+            amount: fromCents(allocation.cents),
+            stripe_refund_id: refund.id,
+            stripe_payment_intent_id: allocation.paymentIntentId,
+            status: refund.status || "pending",
+          });
+        }
+      }
+    }
+
+    // ============================================
+    // 12. APPLY REVISION
+    // ============================================
+    const result = await applyBookingRevision(supabase, revision.id);
+
+    if (!result.applied) {
+      console.error("[modify-booking] Revision not applied:", {
+        bookingId,
+        revisionId: revision.id,
+        reason: result.reason,
+        refunds: refunds.map((r) => r.stripe_refund_id),
+      });
+      return new Response(
+        JSON.stringify({ error: "Failed to update booking" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (refunds.length > 0) {
+      const { error: ledgerError } = await supabase
+        .from("booking_refunds")
+        .upsert(
+          refunds.map((refund) => ({
+            booking_id: bookingId,
+            refund_type: refund.refund_type,
+            amount: refund.amount,
+            reason: "modification",
+            stripe_refund_id: refund.stripe_refund_id,
+            stripe_payment_intent_id: refund.stripe_payment_intent_id,
+            status: refund.status,
+            created_by: user.id,
+          })),
+          { onConflict: "stripe_refund_id" },
+        );
+
+      if (ledgerError) {
+        console.error("[modify-booking] Refund ledger insert failed:", ledgerError);
+      }
+    }
+
+    console.log("✅ [modify-booking] Booking modified:", {
+      bookingId,
+      revisionId: revision.id,
+      refundAmount: breakdown.refundAmount,
+    });
+
+    // ============================================
+    // 13. RETURN SUCCESS
+    // ============================================
+    return new Response(
+      JSON.stringify({
+        preview: false,
+        ...breakdown,
+        revisionId: revision.id,
+        applied: true,
+        url: null,
+        refundIds: refunds.map((r) => r.stripe_refund_id),
+      }),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          ...rateLimitHeaders(rateLimitResult),
+        },
+      },
+    );
+  } catch (error) {
+    console.error("[modify-booking] Unexpected error:", error);
+
+    return new Response(
+      JSON.stringify({
+        error: "An unexpected error occurred. Please try again.",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
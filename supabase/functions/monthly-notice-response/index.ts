@@ -0,0 +1,440 @@
+// supabase/functions/monthly-notice-response/index.ts
+// Customer replies to a monthly rental notice. Authorized by the notice's
+// response token (email links work without logging in); the portal sends the
+// same token with the customer's session.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  getClientIP,
+  getUserIdFromRequest,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import {
+  createRenewalCheckout,
+  getMonthlyNoticeConfig,
+  quoteRenewal,
+  type NoticeBooking,
+} from "../_shared/monthlyNotices.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type NoticeAction = "view" | "continue" | "return";
+type ResponseSource = "email" | "portal";
+
+interface NoticeResponsePayload {
+  token: string;
+  action: NoticeAction;
+  source?: ResponseSource;
+}
+
+interface NoticeRow {
+  id: string;
+  status: string;
+  period_end: string;
+  reply_deadline: string;
+  response_source: string | null;
+  responded_at: string | null;
+  renewal_days: number | null;
+  renewal_amount: number | string | null;
+  stripe_session_id: string | null;
+  checkout_url: string | null;
+  fine_amount: number | string;
+  bookings: (NoticeBooking & { booking_number: string | null }) | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const ACTIONS: NoticeAction[] = ["view", "continue", "return"];
+
+const NOTICE_COLUMNS = `id, status, period_end, reply_deadline, response_source,
+  responded_at, renewal_days, renewal_amount, stripe_session_id, checkout_url,
+  fine_amount,
+  bookings(id, user_id, vehicle_id, booking_number, status, rental_type,
+    rental_days, extension_count, return_date, customer_info, vehicles(name))`;
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function isBeforeDeadline(notice: NoticeRow): boolean {
+  return Date.now() < new Date(notice.reply_deadline).getTime();
+}
+
+function isBeforePeriodEnd(notice: NoticeRow): boolean {
+  return Date.now() < new Date(notice.period_end).getTime();
+}
+
+/** Notice as shown on the response page and in MyBookings */
+function noticeView(
+  notice: NoticeRow,
+  renewal?: { amount: number; days: number },
+) {
+  const canReply =
+    (notice.status === "pending" && isBeforeDeadline(notice)) ||
+    (notice.status === "continuing" &&
+      notice.response_source !== "system" &&
+      isBeforePeriodEnd(notice));
+
+  return {
+    id: notice.id,
+    bookingId: notice.bookings?.id || null,
+    bookingNumber: notice.bookings?.booking_number || null,
+    vehicleName: notice.bookings?.vehicles?.name || null,
+    status: notice.status,
+    periodEnd: notice.period_end,
+    replyDeadline: notice.reply_deadline,
+    responseSource: notice.response_source,
+    respondedAt: notice.responded_at,
+    canContinue:
+      (notice.status === "pending" && isBeforeDeadline(notice)) ||
+      (notice.status === "continuing" && isBeforePeriodEnd(notice)),
+    canReturn: canReply,
+    renewalDays: renewal?.days ?? notice.renewal_days,
+    renewalAmount:
+      renewal?.amount ??
+      (notice.renewal_amount !== null ? Number(notice.renewal_amount) : null),
+    checkoutUrl: notice.checkout_url,
+    fineAmount: Number(notice.fine_amount) || 0,
+  };
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. RATE LIMITING (by IP - email links have no session)
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "MONTHLY_NOTICE_RESPONSE",
+      getClientIP(req),
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 2. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: NoticeResponsePayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { token, action } = payload;
+
+    if (!token || !isValidUUID(token)) {
+      return jsonResponse(
+        { error: "Notice not found", code: "NOTICE_NOT_FOUND" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse({ error: "Invalid action" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 3. FETCH NOTICE (token is the authorization)
+    // ============================================
+    const { data, error: noticeError } = await supabase
+      .from("monthly_rental_notices")
+      .select(NOTICE_COLUMNS)
+      .eq("response_token", token)
+      .maybeSingle();
+
+    const notice = data as unknown as NoticeRow | null;
+
+    if (noticeError || !notice || !notice.bookings) {
+      return jsonResponse(
+        { error: "Notice not found", code: "NOTICE_NOT_FOUND" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    const booking = notice.bookings;
+    const config = await getMonthlyNoticeConfig(supabase);
+
+    // ============================================
+    // 4. VIEW
+    // ============================================
+    if (action === "view") {
+      let renewal: { amount: number; days: number } | undefined;
+
+      if (notice.status === "pending" && isBeforeDeadline(notice)) {
+        const quote = await quoteRenewal(supabase, booking, config);
+        if (quote.ok) renewal = { amount: quote.amount, days: quote.days };
+      }
+
+      return jsonResponse(noticeView(notice, renewal), {
+        ...corsHeaders,
+        ...rateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    // Portal replies only count as such from the booking's owner
+    const userId =
+      payload.source === "portal"
+        ? await getUserIdFromRequest(req, supabase)
+        : null;
+    const source: ResponseSource =
+      userId && userId === booking.user_id ? "portal" : "email";
+
+    const reply = {
+      response_source: source,
+      responded_at: new Date().toISOString(),
+    };
+
+    // ============================================
+    // 5. CONTINUE: RENEWAL CHECKOUT
+    // ============================================
+    if (action === "continue") {
+      const isReissue = notice.status === "continuing";
+
+      if (notice.status !== "pending" && !isReissue) {
+        return jsonResponse(
+          {
+            error: "This notice has already been answered",
+            code: "ALREADY_RESOLVED",
+          },
+          corsHeaders,
+          409,
+        );
+      }
+
+      if (
+        (!isReissue && !isBeforeDeadline(notice)) ||
+        (isReissue && !isBeforePeriodEnd(notice))
+      ) {
+        return jsonResponse(
+          {
+            error: "The reply deadline for this notice has passed",
+            code: "DEADLINE_PASSED",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const quote = await quoteRenewal(supabase, booking, config);
+      if (!quote.ok) {
+        return jsonResponse(
+          { error: quote.message, code: quote.code },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const checkout = await createRenewalCheckout(
+        stripe,
+        booking,
+        { id: notice.id, previousSessionId: notice.stripe_session_id },
+        quote,
+        CUSTOMER_PORTAL_URL,
+      );
+
+      const { data: updated, error: updateError } = await supabase
+        .from("monthly_rental_notices")
+        .update({
+          ...(isReissue ? {} : reply),
+          status: "continuing",
+          renewal_days: quote.days,
+          renewal_amount: quote.amount,
+          stripe_session_id: checkout.sessionId,
+          checkout_url: checkout.url,
+        })
+        .eq("id", notice.id)
+        .eq("status", notice.status)
+        .select(NOTICE_COLUMNS)
+        .maybeSingle();
+
+      if (updateError || !updated) {
+        await stripe.checkout.sessions.expire(checkout.sessionId);
+        return jsonResponse(
+          {
+            error: "This notice has already been answered",
+            code: "ALREADY_RESOLVED",
+          },
+          corsHeaders,
+          409,
+        );
+      }
+
+      console.log("[monthly-notice-response] Renewal checkout created:", {
+        noticeId: notice.id,
+        bookingId: booking.id,
+        source,
+        sessionId: checkout.sessionId,
+        amount: quote.amount,
+      });
+
+      return jsonResponse(
+        { ...noticeView(updated as unknown as NoticeRow), url: checkout.url },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 6. RETURN: RENTAL ENDS ON THE PERIOD END
+    // ============================================
+    if (!noticeView(notice).canReturn) {
+      const deadlinePassed =
+        notice.status === "pending" ||
+        (notice.status === "continuing" && notice.response_source === "system");
+
+      return jsonResponse(
+        deadlinePassed
+          ? {
+              error: "The reply deadline for this notice has passed",
+              code: "DEADLINE_PASSED",
+            }
+          : {
+              error: "This notice has already been answered",
+              code: "ALREADY_RESOLVED",
+            },
+        corsHeaders,
+        deadlinePassed ? 400 : 409,
+      );
+    }
+
+    if (notice.stripe_session_id) {
+      try {
+        await stripe.checkout.sessions.expire(notice.stripe_session_id);
+      } catch (expireError) {
+        // Already completed or expired sessions cannot be expired
+        console.warn(
+          "[monthly-notice-response] Could not expire session:",
+          notice.stripe_session_id,
+          expireError,
+        );
+      }
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("monthly_rental_notices")
+      .update({
+        ...reply,
+        status: "returning",
+        checkout_url: null,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq("id", notice.id)
+      .eq("status", notice.status)
+      .select(NOTICE_COLUMNS)
+      .maybeSingle();
+
+    if (updateError || !updated) {
+      return jsonResponse(
+        {
+          error: "This notice has already been answered",
+          code: "ALREADY_RESOLVED",
+        },
+        corsHeaders,
+        409,
+      );
+    }
+
+    console.log("[monthly-notice-response] Customer returning:", {
+      noticeId: notice.id,
+      bookingId: booking.id,
+      source,
+    });
+
+    return jsonResponse(
+      { ...noticeView(updated as unknown as NoticeRow), url: null },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[monthly-notice-response] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred. Please try again." },
+      corsHeaders,
+      500,
+    );
+  }
+});
@@ -0,0 +1,572 @@
+// supabase/functions/process-deposit-releases/index.ts
+// Scheduled job (X-INTERNAL-API-KEY only): releases the security deposit on
+// completed rentals `deposit_release_business_days` business days after the
+// return. Settles outstanding booking charges and monthly notice fines against
+// the deposit, then refunds the rest through Stripe.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  allocateRefund,
+  getBookingPayments,
+  refundableTotal,
+} from "../_shared/bookingPayments.ts";
+import { toBusinessDateString } from "../_shared/dates.ts";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import { customerContact } from "../_shared/monthlyNotices.ts";
+import {
+  depositReleaseDate,
+  depositRulesFromConfig,
+  type DepositRules,
+} from "../_shared/depositRules.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// TYPES
+// ============================================
+interface DepositBookingRow {
+  id: string;
+  booking_number: string | null;
+  return_date: string;
+  actual_return_date: string | null;
+  security_deposit: number | string | null;
+  stripe_payment_intent_id: string | null;
+  customer_info: unknown;
+  vehicles: { name?: string | null } | null;
+}
+
+interface DeductionInsert {
+  booking_id: string;
+  category: string;
+  description: string;
+  amount: number;
+  source_type: "booking_charge" | "monthly_notice";
+  source_id: string;
+}
+
+interface DepositRefund {
+  refund: Stripe.Refund;
+  paymentIntentId: string;
+}
+
+interface JobSummary {
+  checked: number;
+  released: number;
+  refunded: number;
+  deducted: number;
+  manual: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BATCH_SIZE = 200;
+const CLOSED_DATE_TYPES = ["holiday", "closed", "maintenance"];
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  deposit_release_business_days: "7",
+};
+
+/** Deduction category for each booking_charges charge_type */
+const CHARGE_CATEGORIES: Record<string, string> = {
+  insurance_late_fee: "late_fee",
+  overdue_rental: "overdue",
+};
+
+const BOOKING_COLUMNS = `id, booking_number, return_date, actual_return_date,
+  security_deposit, stripe_payment_intent_id, customer_info, vehicles(name)`;
+
+// ============================================
+// HELPERS
+// ============================================
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function toAmount(value: unknown): number {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/** Business day the vehicle came back (the release countdown starts here) */
+function returnDay(booking: DepositBookingRow): string {
+  return toBusinessDateString(
+    new Date(booking.actual_return_date || booking.return_date),
+  );
+}
+
+async function getDepositRules(
+  supabase: SupabaseClient,
+): Promise<DepositRules> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  return depositRulesFromConfig(config);
+}
+
+/**
+ * Closed business_calendar dates between start and end (same closure rules
+ * as the customer booking calendar)
+ */
+async function getClosedDates(
+  supabase: SupabaseClient,
+  start: string,
+  end: string,
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("business_calendar")
+    .select("calendar_date, date_type, open_time")
+    .gte("calendar_date", start)
+    .lte("calendar_date", end);
+
+  if (error) throw error;
+
+  return new Set(
+    (data || [])
+      .filter(
+        (row) =>
+          CLOSED_DATE_TYPES.includes(String(row.date_type).toLowerCase()) ||
+          (row.open_time === null && !!row.date_type),
+      )
+      .map((row) => String(row.calendar_date)),
+  );
+}
+
+// ============================================
+// 1. DEDUCTIONS
+// ============================================
+
+/**
+ * Settle outstanding charges and monthly notice fines against the deposit,
+ * oldest first, while they fit in what's left of it. Anything that doesn't fit
+ * stays outstanding for staff to collect. Returns the total deducted.
+ */
+async function applyDeductions(
+  supabase: SupabaseClient,
+  booking: DepositBookingRow,
+  deposit: number,
+): Promise<number> {
+  const [existingResult, chargesResult, finesResult] = await Promise.all([
+    supabase
+      .from("booking_deposit_deductions")
+      .select("amount, source_type, source_id")
+      .eq("booking_id", booking.id),
+    supabase
+      .from("booking_charges")
+      .select("id, charge_type, amount, description, created_at")
+      .eq("booking_id", booking.id)
+      .eq("status", "outstanding")
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("monthly_rental_notices")
+      .select("id, fine_amount, period_end")
+      .eq("booking_id", booking.id)
+      .eq("status", "fined")
+      .gt("fine_amount", 0)
+      .order("period_end", { ascending: true }),
+  ]);
+
+  if (existingResult.error) throw existingResult.error;
+  if (chargesResult.error) throw chargesResult.error;
+  if (finesResult.error) throw finesResult.error;
+
+  const existing = existingResult.data || [];
+  const settled = new Set(
+    existing.map((row) => `${row.source_type}:${row.source_id}`),
+  );
+  let deducted = roundCurrency(
+    existing.reduce((sum, row) => sum + toAmount(row.amount), 0),
+  );
+
+  const candidates: DeductionInsert[] = [
+    ...(chargesResult.data || []).map((charge) => ({
+      booking_id: booking.id,
+      category: CHARGE_CATEGORIES[charge.charge_type] || "other",
+      description: charge.description || "Outstanding charge",
+      amount: toAmount(charge.amount),
+      source_type: "booking_charge" as const,
+      source_id: charge.id as string,
+    })),
+    ...(finesResult.data || []).map((notice) => ({
+      booking_id: booking.id,
+      category: "monthly_fine",
+      description: `Monthly notice fine (period ending ${formatDate(notice.period_end)})`,
+      amount: toAmount(notice.fine_amount),
+      source_type: "monthly_notice" as const,
+      source_id: notice.id as string,
+    })),
+  ];
+
+  const rows: DeductionInsert[] = [];
+  for (const candidate of candidates) {
+    if (candidate.amount <= 0) continue;
+    const sourceKey = `${candidate.source_type}:${candidate.source_id}`;
+    if (settled.has(sourceKey)) continue;
+    if (deducted + candidate.amount > deposit) continue;
+    rows.push(candidate);
+    deducted = roundCurrency(deducted + candidate.amount);
+  }
+
+  if (rows.length === 0) return deducted;
+
+  const { error: insertError } = await supabase
+    .from("booking_deposit_deductions")
+    .upsert(rows, {
+      onConflict: "source_type,source_id",
+      ignoreDuplicates: true,
+    });
+
+  if (insertError) throw insertError;
+
+  const chargeIds = rows
+    .filter((row) => row.source_type === "booking_charge")
+    .map((row) => row.source_id);
+
+  if (chargeIds.length > 0) {
+    const { error: chargeError } = await supabase
+      .from("booking_charges")
+      .update({ status: "deducted", settled_at: new Date().toISOString() })
+      .in("id", chargeIds)
+      .eq("status", "outstanding");
+
+    if (chargeError) throw chargeError;
+  }
+
+  return deducted;
+}
+
+// ============================================
+// 2. STRIPE REFUND
+// ============================================
+async function refundDeposit(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: DepositBookingRow,
+  amount: number,
+): Promise<DepositRefund[] | null> {
+  // Modifications may have been paid on their own payment intents
+  const payments = await getBookingPayments(supabase, stripe, booking);
+  const refundableCents = refundableTotal(payments);
+
+  if (toCents(amount) > refundableCents) {
+    console.error(
+      "[process-deposit-releases] Refund exceeds refundable amount:",
+      {
+        bookingId: booking.id,
+        requested: toCents(amount),
+        refundable: refundableCents,
+      },
+    );
+    return null;
+  }
+
+  const refunds: DepositRefund[] = [];
+  for (const allocation of allocateRefund(payments, toCents(amount))) {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: allocation.paymentIntentId,
+        amount: allocation.cents,
+        metadata: {
+          type: "deposit_release",
+          refund_type: "deposit",
+          booking_id: booking.id,
+        },
+      },
+      {
+        idempotencyKey: `deposit_release_${booking.id}_${allocation.paymentIntentId}`,
+      },
+    );
+    refunds.push({ refund, paymentIntentId: allocation.paymentIntentId });
+  }
+
+  return refunds;
+}
+
+/**
+ * Hand the release to staff so the job stops picking the booking up and it
+ * doesn't take a place in every later batch
+ */
+async function markManualRelease(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("bookings")
+    .update({ deposit_release_manual_at: new Date().toISOString() })
+    .eq("id", bookingId)
+    .is("deposit_release_manual_at", null);
+
+  if (error) throw error;
+}
+
+// ============================================
+// 3. CUSTOMER EMAIL
+// ============================================
+async function notifyCustomer(
+  booking: DepositBookingRow,
+  refunded: number,
+  deducted: number,
+): Promise<void> {
+  const contact = customerContact(booking);
+  if (!contact.email) return;
+
+  const customMessage = [
+    deducted > 0
+      ? `${formatCurrency(deducted)} was deducted from your deposit. The itemized statement is on your booking page.`
+      : "",
+    refunded > 0
+      ? "The refund goes back to your original payment method and usually arrives within 5-10 business days."
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  try {
+    await sendTemplateEmail({
+      to: contact.email,
+      subject:
+        `Security deposit released - Booking ${booking.booking_number || ""}`.trim(),
+      template: "deposit_released",
+      data: {
+        customerName: contact.name,
+        bookingNumber: booking.booking_number || undefined,
+        vehicleName: booking.vehicles?.name || undefined,
+        returnDate: formatDate(
+          booking.actual_return_date || booking.return_date,
+        ),
+        totalAmount: formatCurrency(refunded),
+        customMessage,
+        actionUrl: `${CUSTOMER_PORTAL_URL}/my-bookings`,
+      },
+    });
+  } catch (emailError) {
+    // The release stands; the booking page shows the same details
+    console.error("[process-deposit-releases] Customer email failed:", {
+      bookingId: booking.id,
+      error: emailError,
+    });
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  // ============================================
+  // 1. AUTHENTICATION (internal API key only)
+  // ============================================
+  const internalKey = req.headers.get("X-INTERNAL-API-KEY") || "";
+  if (!INTERNAL_API_KEY || internalKey !== INTERNAL_API_KEY) {
+    console.warn("[process-deposit-releases] Unauthorized attempt");
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 2. LOAD CONFIG
+    // ============================================
+    const rules = await getDepositRules(supabase);
+    const today = toBusinessDateString();
+
+    const summary: JobSummary = {
+      checked: 0,
+      released: 0,
+      refunded: 0,
+      deducted: 0,
+      manual: 0,
+      failed: 0,
+    };
+
+    // ============================================
+    // 3. FETCH COMPLETED RENTALS HOLDING A DEPOSIT
+    // ============================================
+    const { data, error } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("status", "completed")
+      .gt("security_deposit", 0)
+      .eq("security_deposit_returned", false)
+      .is("security_deposit_return_date", null)
+      .eq("deposit_hold", false)
+      .is("deposit_release_manual_at", null)
+      .order("return_date", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    const bookings = (data || []) as unknown as DepositBookingRow[];
+    if (bookings.length === 0) {
+      return jsonResponse({ success: true, ...summary });
+    }
+
+    // Closures only matter up to today: a release date past today isn't due
+    // either way
+    const earliestReturn = bookings
+      .map(returnDay)
+      .reduce((min, day) => (day < min ? day : min), today);
+    const closedDates = await getClosedDates(supabase, earliestReturn, today);
+
+    // ============================================
+    // 4. RELEASE DUE DEPOSITS
+    // ============================================
+    for (const booking of bookings) {
+      summary.checked++;
+
+      const releaseDate = depositReleaseDate(
+        returnDay(booking),
+        rules,
+        closedDates,
+      );
+      if (releaseDate > today) continue;
+
+      try {
+        const deposit = toAmount(booking.security_deposit);
+        const deducted = await applyDeductions(supabase, booking, deposit);
+        const refundable = roundCurrency(Math.max(deposit - deducted, 0));
+
+        let refunds: DepositRefund[] = [];
+        if (refundable > 0) {
+          // Cash and terminal payments are refunded by staff
+          if (!booking.stripe_payment_intent_id) {
+            await markManualRelease(supabase, booking.id);
+            summary.manual++;
+            continue;
+          }
+
+          const issued = await refundDeposit(
+            supabase,
+            stripe,
+            booking,
+            refundable,
+          );
+          if (!issued) {
+            await markManualRelease(supabase, booking.id);
+            summary.manual++;
+            continue;
+          }
+          refunds = issued;
+        }
+
+        const releasedAt = new Date().toISOString();
+        const { data: updated, error: updateError } = await supabase
+          .from("bookings")
+          .update({
+            security_deposit_returned: refundable > 0,
+            security_deposit_amount_returned: refundable,
+            security_deposit_return_date: releasedAt,
+          })
+          .eq("id", booking.id)
+          .eq("security_deposit_returned", false)
+          .select("id")
+          .maybeSingle();
+
+        if (updateError) throw updateError;
+        if (!updated) {
+          console.warn("[process-deposit-releases] Already released:", {
+            bookingId: booking.id,
+            refundIds: refunds.map(({ refund }) => refund.id),
+          });
+          continue;
+        }
+
+        if (refunds.length > 0) {
+          const { error: ledgerError } = await supabase
+            .from("booking_refunds")
+            .upsert(
+              refunds.map(({ refund, paymentIntentId }) => ({
+                booking_id: booking.id,
+                refund_type: "deposit",
+                amount: fromCents(refund.amount),
+                reason: "deposit_release",
+                stripe_refund_id: refund.id,
+                stripe_payment_intent_id: paymentIntentId,
+                status: refund.status || "pending",
+              })),
+              { onConflict: "stripe_refund_id" },
+            );
+
+          if (ledgerError) {
+            // Refund and booking are already settled; staff can reconcile
+            console.error(
+              "[process-deposit-releases] Refund ledger insert failed:",
+              ledgerError,
+            );
+          }
+        }
+
+        await notifyCustomer(booking, refundable, deducted);
+
+        summary.released++;
+        summary.refunded = roundCurrency(summary.refunded + refundable);
+        summary.deducted = roundCurrency(summary.deducted + deducted);
+      } catch (bookingError) {
+        console.error("[process-deposit-releases] Booking failed:", {
+          bookingId: booking.id,
+          error: bookingError,
+        });
+        summary.failed++;
+      }
+    }
+
+    console.log("[process-deposit-releases] Run complete:", summary);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("[process-deposit-releases] Unexpected error:", error);
+    return jsonResponse({ error: "Failed to process deposit releases" }, 500);
+  }
+});
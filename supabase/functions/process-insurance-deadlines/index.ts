@@ -0,0 +1,384 @@
+// supabase/functions/process-insurance-deadlines/index.ts
+// Scheduled job (X-INTERNAL-API-KEY only): enforces the proof-of-insurance
+// deadline on active rentals. Sends escalating reminders and, once the grace
+// period is over, accrues the daily late fee into booking_charges until an
+// upload is verified.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import { customerContact } from "../_shared/monthlyNotices.ts";
+import {
+  evaluateInsuranceDeadline,
+  insuranceRulesFromConfig,
+  lateFeeAccrualDates,
+  type InsuranceDeadlineResult,
+  type InsuranceRules,
+  type InsuranceRulesInput,
+} from "../_shared/insuranceRules.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+const BUSINESS_TIMEZONE = Deno.env.get("BUSINESS_TIMEZONE") || "UTC";
+
+// ============================================
+// TYPES
+// ============================================
+interface InsuranceBookingRow {
+  id: string;
+  user_id: string | null;
+  booking_number: string | null;
+  status: string;
+  pickup_date: string;
+  actual_pickup_date: string | null;
+  insurance_uploaded: boolean | null;
+  insurance_uploaded_at: string | null;
+  insurance_verified: boolean | null;
+  insurance_reminder_level: number | null;
+  insurance_last_reminder_at: string | null;
+  customer_info: unknown;
+  vehicles: { name?: string | null } | null;
+}
+
+interface JobSummary {
+  checked: number;
+  feesAccrued: number;
+  remindersSent: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BATCH_SIZE = 500;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const LATE_FEE_CHARGE_TYPE = "insurance_late_fee";
+
+/** Reminder levels: 1 = due, 2 = deadline passed, 3 = late fees accruing */
+const REMINDER_LEVEL_BY_STAGE: Partial<
+  Record<InsuranceDeadlineResult["stage"], number>
+> = {
+  due: 1,
+  grace: 2,
+  accruing: 3,
+};
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  insurance_deadline_hours: "24",
+  insurance_grace_period_hours: "48",
+  insurance_late_fee_daily: "50",
+};
+
+const BOOKING_COLUMNS = `id, user_id, booking_number, status, pickup_date,
+  actual_pickup_date, insurance_uploaded, insurance_uploaded_at,
+  insurance_verified, insurance_reminder_level, insurance_last_reminder_at,
+  customer_info, vehicles(name)`;
+
+// ============================================
+// HELPERS
+// ============================================
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: BUSINESS_TIMEZONE,
+    timeZoneName: "short",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function toRulesInput(booking: InsuranceBookingRow): InsuranceRulesInput {
+  return {
+    status: booking.status,
+    insuranceUploaded: booking.insurance_uploaded || false,
+    insuranceUploadedAt: booking.insurance_uploaded_at,
+    insuranceVerified: booking.insurance_verified || false,
+    pickupDate: booking.pickup_date,
+    actualPickupDate: booking.actual_pickup_date,
+  };
+}
+
+async function getInsuranceRules(
+  supabase: SupabaseClient,
+): Promise<InsuranceRules> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  return insuranceRulesFromConfig(config);
+}
+
+// ============================================
+// 1. ACCRUE LATE FEES
+// ============================================
+async function accrueLateFees(
+  supabase: SupabaseClient,
+  booking: InsuranceBookingRow,
+  rules: InsuranceRules,
+  now: Date,
+): Promise<number> {
+  const dates = lateFeeAccrualDates(toRulesInput(booking), rules, now);
+  if (dates.length === 0) return 0;
+
+  const rows = dates.map((date) => ({
+    booking_id: booking.id,
+    user_id: booking.user_id,
+    charge_type: LATE_FEE_CHARGE_TYPE,
+    amount: rules.lateFeeDaily,
+    description: `Proof of insurance late fee for ${date}`,
+    accrual_date: date,
+  }));
+
+  // One fee per booking and day; days already charged are left alone
+  const { data: created, error } = await supabase
+    .from("booking_charges")
+    .upsert(rows, {
+      onConflict: "booking_id,charge_type,accrual_date",
+      ignoreDuplicates: true,
+    })
+    .select("id");
+
+  if (error) throw error;
+  return (created || []).length;
+}
+
+async function getLateFeeTotal(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("booking_charges")
+    .select("amount")
+    .eq("booking_id", bookingId)
+    .eq("charge_type", LATE_FEE_CHARGE_TYPE)
+    .neq("status", "waived");
+
+  if (error) throw error;
+  return (data || []).reduce((sum, row) => sum + Number(row.amount || 0), 0);
+}
+
+// ============================================
+// 2. ESCALATING REMINDERS
+// ============================================
+
+/**
+ * Each stage is announced once (skipping any the job didn't see), then a
+ * daily reminder while late fees accrue
+ */
+function isReminderDue(
+  booking: InsuranceBookingRow,
+  level: number,
+  now: Date,
+): boolean {
+  const sentLevel = booking.insurance_reminder_level || 0;
+  if (level > sentLevel) return true;
+  if (level < 3 || !booking.insurance_last_reminder_at) return false;
+
+  return (
+    now.getTime() - new Date(booking.insurance_last_reminder_at).getTime() >=
+    MS_PER_DAY
+  );
+}
+
+async function sendReminder(
+  supabase: SupabaseClient,
+  booking: InsuranceBookingRow,
+  deadline: InsuranceDeadlineResult,
+  level: number,
+  rules: InsuranceRules,
+  now: Date,
+): Promise<boolean> {
+  const contact = customerContact(booking);
+  if (!contact.email) {
+    console.warn("[process-insurance-deadlines] No customer email:", {
+      bookingId: booking.id,
+    });
+    return false;
+  }
+
+  const emailData = {
+    customerName: contact.name,
+    bookingNumber: booking.booking_number || undefined,
+    vehicleName: booking.vehicles?.name || undefined,
+    actionUrl: `${CUSTOMER_PORTAL_URL}/my-bookings`,
+  };
+  const feeNote =
+    rules.lateFeeDaily > 0
+      ? `A late fee of ${formatCurrency(rules.lateFeeDaily)} per day applies from ${formatDateTime(deadline.feesStartAt!)}.`
+      : "";
+
+  if (level === 1) {
+    await sendTemplateEmail({
+      to: contact.email,
+      subject: "Please upload your proof of insurance",
+      template: "insurance_reminder",
+      data: {
+        ...emailData,
+        replyDeadline: formatDateTime(deadline.deadline!),
+        customMessage: feeNote,
+      },
+    });
+  } else if (level === 2) {
+    await sendTemplateEmail({
+      to: contact.email,
+      subject: "Your proof of insurance is overdue",
+      template: "insurance_reminder",
+      data: {
+        ...emailData,
+        replyDeadline: formatDateTime(deadline.feesStartAt!),
+        customMessage: `Your upload deadline has passed. ${feeNote}`.trim(),
+      },
+    });
+  } else {
+    const accrued = await getLateFeeTotal(supabase, booking.id);
+    await sendTemplateEmail({
+      to: contact.email,
+      subject: "Insurance late fees are accruing",
+      template: "insurance_late_fee",
+      data: {
+        ...emailData,
+        totalAmount: formatCurrency(accrued),
+        customMessage: `A further ${formatCurrency(rules.lateFeeDaily)} is added each day until proof of insurance is uploaded. Outstanding fees are settled against your security deposit.`,
+      },
+    });
+  }
+
+  const { error } = await supabase
+    .from("bookings")
+    .update({
+      insurance_reminder_level: Math.max(
+        level,
+        booking.insurance_reminder_level || 0,
+      ),
+      insurance_last_reminder_at: now.toISOString(),
+    })
+    .eq("id", booking.id);
+
+  if (error) throw error;
+  return true;
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  // ============================================
+  // 1. AUTHENTICATION (internal API key only)
+  // ============================================
+  const internalKey = req.headers.get("X-INTERNAL-API-KEY") || "";
+  if (!INTERNAL_API_KEY || internalKey !== INTERNAL_API_KEY) {
+    console.warn("[process-insurance-deadlines] Unauthorized attempt");
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ============================================
+    // 2. LOAD CONFIG
+    // ============================================
+    const rules = await getInsuranceRules(supabase);
+
+    // ============================================
+    // 3. FETCH ACTIVE RENTALS WITHOUT VERIFIED INSURANCE
+    // ============================================
+    const { data: bookings, error } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("status", "active")
+      .eq("insurance_verified", false)
+      .order("pickup_date", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    const summary: JobSummary = {
+      checked: 0,
+      feesAccrued: 0,
+      remindersSent: 0,
+      failed: 0,
+    };
+    const now = new Date();
+
+    // ============================================
+    // 4. ACCRUE FEES AND SEND REMINDERS
+    // ============================================
+    for (const booking of (bookings || []) as unknown as InsuranceBookingRow[]) {
+      summary.checked++;
+
+      try {
+        summary.feesAccrued += await accrueLateFees(
+          supabase,
+          booking,
+          rules,
+          now,
+        );
+
+        const deadline = evaluateInsuranceDeadline(
+          toRulesInput(booking),
+          rules,
+          now,
+        );
+        // Without a configured fee, the overdue reminder is the last one
+        const level =
+          deadline.stage === "accruing" && rules.lateFeeDaily <= 0
+            ? 2
+            : REMINDER_LEVEL_BY_STAGE[deadline.stage];
+
+        if (level && isReminderDue(booking, level, now)) {
+          if (
+            await sendReminder(supabase, booking, deadline, level, rules, now)
+          ) {
+            summary.remindersSent++;
+          } else {
+            summary.failed++;
+          }
+        }
+      } catch (bookingError) {
+        console.error("[process-insurance-deadlines] Booking failed:", {
+          bookingId: booking.id,
+          error: bookingError,
+        });
+        summary.failed++;
+      }
+    }
+
+    console.log("[process-insurance-deadlines] Run complete:", summary);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("[process-insurance-deadlines] Unexpected error:", error);
+    return jsonResponse(
+      { error: "Failed to process insurance deadlines" },
+      500,
+    );
+  }
+});
@@ -0,0 +1,441 @@
+// supabase/functions/process-monthly-notices/index.ts
+// Scheduled job (X-INTERNAL-API-KEY only): asks monthly renters ahead of each
+// period end whether they're continuing, then resolves unanswered notices by
+// rolling the booking into a renewal or applying the no-notice fine.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import {
+  addDaysIso,
+  createRenewalCheckout,
+  customerContact,
+  getMonthlyNoticeConfig,
+  isMonthlyBooking,
+  quoteRenewal,
+  replyDeadlineFor,
+  type MonthlyNoticeConfig,
+  type NoticeBooking,
+} from "../_shared/monthlyNotices.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// TYPES
+// ============================================
+interface NoticeRow {
+  id: string;
+  status: string;
+  period_end: string;
+  reply_deadline: string;
+  response_token: string;
+  bookings: (NoticeBooking & { booking_number: string | null }) | null;
+}
+
+interface JobSummary {
+  created: number;
+  sent: number;
+  renewalsIssued: number;
+  fined: number;
+  returning: number;
+  cancelled: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BATCH_SIZE = 100;
+
+const NOTICE_COLUMNS = `id, status, period_end, reply_deadline, response_token,
+  bookings(id, user_id, vehicle_id, booking_number, status, rental_type,
+    rental_days, extension_count, return_date, customer_info, vehicles(name))`;
+
+// ============================================
+// HELPERS
+// ============================================
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function noticeLink(token: string, response: "continue" | "return"): string {
+  return `${CUSTOMER_PORTAL_URL}/rental-notice?token=${token}&response=${response}`;
+}
+
+/** The booking moved on (extended, returned, closed) since the notice */
+function isStale(notice: NoticeRow): boolean {
+  const booking = notice.bookings;
+  return (
+    !booking ||
+    booking.status !== "active" ||
+    new Date(booking.return_date).getTime() !==
+      new Date(notice.period_end).getTime()
+  );
+}
+
+async function closeNotice(
+  supabase: SupabaseClient,
+  noticeId: string,
+  update: Record<string, unknown>,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("monthly_rental_notices")
+    .update({ ...update, resolved_at: new Date().toISOString() })
+    .eq("id", noticeId)
+    .eq("status", "pending")
+    .select("id");
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// ============================================
+// 1. CREATE NOTICES FOR UPCOMING PERIOD ENDS
+// ============================================
+async function createDueNotices(
+  supabase: SupabaseClient,
+  config: MonthlyNoticeConfig,
+  summary: JobSummary,
+): Promise<void> {
+  const now = new Date();
+
+  // Paged so every monthly booking ending within the notice window gets a
+  // notice, however many there are
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data: bookings, error } = await supabase
+      .from("bookings")
+      .select("id, user_id, rental_type, rental_days, return_date")
+      .eq("status", "active")
+      .or(`rental_type.eq.monthly,rental_days.gte.${config.periodDays}`)
+      .gt("return_date", now.toISOString())
+      .lte("return_date", addDaysIso(now.toISOString(), config.noticeDays))
+      .order("return_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    const rows = (bookings || [])
+      .filter((booking) => isMonthlyBooking(booking, config.periodDays))
+      .map((booking) => ({
+        booking_id: booking.id,
+        user_id: booking.user_id,
+        period_end: booking.return_date,
+        reply_deadline: replyDeadlineFor(
+          booking.return_date,
+          config.replyDays,
+          now,
+        ),
+      }));
+
+    if (rows.length > 0) {
+      // One notice per booking and period end; existing ones are left alone
+      const { data: created, error: insertError } = await supabase
+        .from("monthly_rental_notices")
+        .upsert(rows, {
+          onConflict: "booking_id,period_end",
+          ignoreDuplicates: true,
+        })
+        .select("id");
+
+      if (insertError) throw insertError;
+      summary.created += (created || []).length;
+    }
+
+    if ((bookings || []).length < BATCH_SIZE) return;
+  }
+}
+
+// ============================================
+// 2. EMAIL NOTICES NOT SENT YET
+// ============================================
+async function sendPendingNotices(
+  supabase: SupabaseClient,
+  config: MonthlyNoticeConfig,
+  summary: JobSummary,
+): Promise<void> {
+  const now = new Date();
+
+  const { data: notices, error } = await supabase
+    .from("monthly_rental_notices")
+    .select(NOTICE_COLUMNS)
+    .eq("status", "pending")
+    .is("notice_sent_at", null)
+    .gt("period_end", now.toISOString())
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const notice of (notices || []) as unknown as NoticeRow[]) {
+    const booking = notice.bookings;
+    if (!booking) continue;
+
+    const contact = customerContact(booking);
+    if (!contact.email) {
+      console.warn("[process-monthly-notices] No customer email:", {
+        noticeId: notice.id,
+        bookingId: booking.id,
+      });
+      summary.failed++;
+      continue;
+    }
+
+    // The reply window starts when the customer actually gets the email
+    const replyDeadline = replyDeadlineFor(
+      notice.period_end,
+      config.replyDays,
+      now,
+    );
+    const noReplyOutcome =
+      config.noNoticeFine > 0
+        ? `If we don't hear from you by then, your rental will be renewed for another ${config.periodDays} days where possible; otherwise a ${formatCurrency(config.noNoticeFine)} late notice fine applies.`
+        : `If we don't hear from you by then, your rental will be renewed for another ${config.periodDays} days where possible.`;
+
+    try {
+      await sendTemplateEmail({
+        to: contact.email,
+        subject: "Are you keeping your rental?",
+        template: "monthly_notice",
+        data: {
+          customerName: contact.name,
+          bookingNumber: booking.booking_number || undefined,
+          vehicleName: booking.vehicles?.name || undefined,
+          returnDate: formatDate(notice.period_end),
+          replyDeadline: formatDate(replyDeadline),
+          actionUrl: noticeLink(notice.response_token, "continue"),
+          secondaryActionUrl: noticeLink(notice.response_token, "return"),
+          customMessage: noReplyOutcome,
+        },
+      });
+    } catch (sendError) {
+      console.error("[process-monthly-notices] Notice email failed:", {
+        noticeId: notice.id,
+        error: sendError,
+      });
+      summary.failed++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("monthly_rental_notices")
+      .update({
+        notice_sent_at: now.toISOString(),
+        reply_deadline: replyDeadline,
+      })
+      .eq("id", notice.id);
+
+    if (updateError) throw updateError;
+    summary.sent++;
+  }
+}
+
+// ============================================
+// 3. RESOLVE UNANSWERED NOTICES
+// ============================================
+async function resolveExpiredNotices(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  config: MonthlyNoticeConfig,
+  summary: JobSummary,
+): Promise<void> {
+  const { data: notices, error } = await supabase
+    .from("monthly_rental_notices")
+    .select(NOTICE_COLUMNS)
+    .eq("status", "pending")
+    .not("notice_sent_at", "is", null)
+    .lte("reply_deadline", new Date().toISOString())
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const notice of (notices || []) as unknown as NoticeRow[]) {
+    try {
+      if (isStale(notice)) {
+        if (await closeNotice(supabase, notice.id, { status: "cancelled" })) {
+          summary.cancelled++;
+        }
+        continue;
+      }
+
+      const booking = notice.bookings!;
+      const contact = customerContact(booking);
+      const emailData = {
+        customerName: contact.name,
+        bookingNumber: booking.booking_number || undefined,
+        vehicleName: booking.vehicles?.name || undefined,
+      };
+
+      // a) Roll into a renewal when the booking can still be extended
+      const quote = await quoteRenewal(supabase, booking, config);
+
+      if (quote.ok) {
+        const checkout = await createRenewalCheckout(
+          stripe,
+          booking,
+          { id: notice.id },
+          quote,
+          CUSTOMER_PORTAL_URL,
+        );
+
+        const { data: updated, error: updateError } = await supabase
+          .from("monthly_rental_notices")
+          .update({
+            status: "continuing",
+            response_source: "system",
+            renewal_days: quote.days,
+            renewal_amount: quote.amount,
+            stripe_session_id: checkout.sessionId,
+            checkout_url: checkout.url,
+          })
+          .eq("id", notice.id)
+          .eq("status", "pending")
+          .select("id");
+
+        if (updateError) throw updateError;
+
+        if ((updated || []).length === 0) {
+          // The customer replied while we were pricing; drop our link
+          await stripe.checkout.sessions.expire(checkout.sessionId);
+          continue;
+        }
+
+        summary.renewalsIssued++;
+
+        if (contact.email) {
+          await sendTemplateEmail({
+            to: contact.email,
+            subject: "Your next rental period",
+            template: "monthly_renewal",
+            data: {
+              ...emailData,
+              returnDate: formatDate(quote.newReturnDate),
+              totalAmount: formatCurrency(quote.amount),
+              actionUrl: checkout.url,
+              customMessage: `This link expires in 23 hours. You can get a new one from My Bookings until ${formatDate(notice.period_end)}.`,
+            },
+          });
+        }
+        continue;
+      }
+
+      // b) Otherwise the rental ends on the period end, fined if configured
+      if (config.noNoticeFine <= 0) {
+        if (
+          await closeNotice(supabase, notice.id, {
+            status: "returning",
+            response_source: "system",
+          })
+        ) {
+          summary.returning++;
+        }
+        continue;
+      }
+
+      const fined = await closeNotice(supabase, notice.id, {
+        status: "fined",
+        response_source: "system",
+        fine_amount: config.noNoticeFine,
+      });
+      if (!fined) continue;
+
+      summary.fined++;
+
+      if (contact.email) {
+        await sendTemplateEmail({
+          to: contact.email,
+          subject: "Monthly rental notice not received",
+          template: "monthly_notice_fine",
+          data: {
+            ...emailData,
+            returnDate: formatDate(notice.period_end),
+            totalAmount: formatCurrency(config.noNoticeFine),
+            customMessage:
+              "Please return the vehicle by the return date above. The fine is settled against your security deposit.",
+          },
+        });
+      }
+    } catch (resolveError) {
+      console.error("[process-monthly-notices] Resolve failed:", {
+        noticeId: notice.id,
+        error: resolveError,
+      });
+      summary.failed++;
+    }
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  // ============================================
+  // 1. AUTHENTICATION (internal API key only)
+  // ============================================
+  const internalKey = req.headers.get("X-INTERNAL-API-KEY") || "";
+  if (!INTERNAL_API_KEY || internalKey !== INTERNAL_API_KEY) {
+    console.warn("[process-monthly-notices] Unauthorized attempt");
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 2. LOAD CONFIG
+    // ============================================
+    const config = await getMonthlyNoticeConfig(supabase);
+
+    const summary: JobSummary = {
+      created: 0,
+      sent: 0,
+      renewalsIssued: 0,
+      fined: 0,
+      returning: 0,
+      cancelled: 0,
+      failed: 0,
+    };
+
+    // ============================================
+    // 3. RUN STEPS
+    // ============================================
+    await createDueNotices(supabase, config, summary);
+    await sendPendingNotices(supabase, config, summary);
+    await resolveExpiredNotices(supabase, stripe, config, summary);
+
+    console.log("[process-monthly-notices] Run complete:", summary);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("[process-monthly-notices] Unexpected error:", error);
+    return jsonResponse({ error: "Failed to process monthly notices" }, 500);
+  }
+});
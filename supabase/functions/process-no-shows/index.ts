@@ -0,0 +1,198 @@
+// supabase/functions/process-no-shows/index.ts
+// Scheduled job (X-INTERNAL-API-KEY only): closes confirmed bookings whose
+// customer never picked up (store closing time on the pickup day, or the
+// delivery slot plus `delivery_wait_minutes`) as no-shows. Keeps `no_show_fee`
+// from the payment, refunds the rest and releases the vehicle. No-shows whose
+// refund can't be issued automatically are marked for staff.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  applyNoShow,
+  getNoShowConfig,
+  noShowDeadline,
+  NO_SHOW_BOOKING_COLUMNS,
+  NO_SHOW_STATUSES,
+  type NoShowBookingRow,
+} from "../_shared/noShow.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
+
+// ============================================
+// TYPES
+// ============================================
+interface JobSummary {
+  checked: number;
+  noShows: number;
+  feesKept: number;
+  refunded: number;
+  skipped: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BATCH_SIZE = 200;
+
+// ============================================
+// HELPERS
+// ============================================
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Hand the no-show to staff so the job stops picking the booking up and it
+ * doesn't take a place in every later batch
+ */
+async function markManualNoShow(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("bookings")
+    .update({ no_show_manual_at: new Date().toISOString() })
+    .eq("id", bookingId)
+    .is("no_show_manual_at", null);
+
+  if (error) throw error;
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  // ============================================
+  // 1. AUTHENTICATION (internal API key only)
+  // ============================================
+  const internalKey = req.headers.get("X-INTERNAL-API-KEY") || "";
+  if (!INTERNAL_API_KEY || internalKey !== INTERNAL_API_KEY) {
+    console.warn("[process-no-shows] Unauthorized attempt");
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 2. LOAD CONFIG
+    // ============================================
+    const config = await getNoShowConfig(supabase);
+    const now = new Date();
+
+    const summary: JobSummary = {
+      checked: 0,
+      noShows: 0,
+      feesKept: 0,
+      refunded: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    // ============================================
+    // 3. FETCH CONFIRMED BOOKINGS PAST PICKUP
+    // ============================================
+    // pickup_date is stored at the start of the pickup day, so this also
+    // returns today's pickups; the deadline check below filters them. Pages
+    // continue after the last booking seen, past any left confirmed.
+    let lastSeen: NoShowBookingRow | null = null;
+
+    for (;;) {
+      let query = supabase
+        .from("bookings")
+        .select(NO_SHOW_BOOKING_COLUMNS)
+        .in("status", NO_SHOW_STATUSES)
+        .is("no_show_manual_at", null)
+        .lte("pickup_date", now.toISOString())
+        .order("pickup_date", { ascending: true })
+        .order("id", { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (lastSeen) {
+        query = query.or(
+          `pickup_date.gt."${lastSeen.pickup_date}",and(pickup_date.eq."${lastSeen.pickup_date}",id.gt.${lastSeen.id})`,
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const bookings = (data || []) as unknown as NoShowBookingRow[];
+
+      // ============================================
+      // 4. APPLY NO-SHOWS
+      // ============================================
+      for (const booking of bookings) {
+        summary.checked++;
+
+        if (noShowDeadline(booking, config).getTime() > now.getTime()) {
+          continue;
+        }
+
+        try {
+          const result = await applyNoShow(supabase, stripe, booking, config, {
+            markedBy: null,
+            reason: "Not picked up (automatic)",
+          });
+
+          if (!result.applied) {
+            console.warn("[process-no-shows] Booking skipped:", {
+              bookingId: booking.id,
+              code: result.code,
+            });
+            if (result.code === "REFUND_UNAVAILABLE") {
+              await markManualNoShow(supabase, booking.id);
+            }
+            summary.skipped++;
+            continue;
+          }
+
+          summary.noShows++;
+          summary.feesKept = roundCurrency(
+            summary.feesKept + result.breakdown.noShowFee,
+          );
+          summary.refunded = roundCurrency(
+            summary.refunded + result.breakdown.totalRefund,
+          );
+        } catch (bookingError) {
+          console.error("[process-no-shows] Booking failed:", {
+            bookingId: booking.id,
+            error: bookingError,
+          });
+          summary.failed++;
+        }
+      }
+
+      if (bookings.length < BATCH_SIZE) break;
+      lastSeen = bookings[bookings.length - 1];
+    }
+
+    console.log("[process-no-shows] Run complete:", summary);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("[process-no-shows] Unexpected error:", error);
+    return jsonResponse({ error: "Failed to process no-shows" }, 500);
+  }
+});
@@ -0,0 +1,447 @@
+// supabase/functions/process-overdue-rentals/index.ts
+// Scheduled job (X-INTERNAL-API-KEY only): flags active rentals kept past
+// their return date, charges each overdue day at the booking's frozen daily
+// rate, emails reminders on the configured days and escalates long-overdue
+// rentals to staff. Clears the flag once the rental is returned or extended.
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import { customerContact } from "../_shared/monthlyNotices.ts";
+import {
+  evaluateOverdue,
+  overdueChargeDates,
+  overdueDailyRate,
+  overdueRulesFromConfig,
+  type OverdueResult,
+  type OverdueRules,
+  type OverdueRulesInput,
+} from "../_shared/overdueRules.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const INTERNAL_API_KEY = Deno.env.get("INTERNAL_API_KEY") || "";
+const ADMIN_EMAIL = Deno.env.get("ADMIN_EMAIL") || "admin@4arentals.com";
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// TYPES
+// ============================================
+interface OverdueBookingRow {
+  id: string;
+  user_id: string | null;
+  booking_number: string | null;
+  status: string;
+  return_date: string;
+  actual_return_date: string | null;
+  daily_rate: number | string | null;
+  rental_amount: number | string | null;
+  rental_days: number | null;
+  is_overdue: boolean | null;
+  overdue_since: string | null;
+  overdue_reminder_level: number | null;
+  overdue_escalated_at: string | null;
+  scheduled_return_at: string | null;
+  customer_info: unknown;
+  vehicles: { name?: string | null } | null;
+}
+
+interface JobSummary {
+  overdue: number;
+  chargesAdded: number;
+  remindersSent: number;
+  escalated: number;
+  cleared: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const BATCH_SIZE = 500;
+const OVERDUE_CHARGE_TYPE = "overdue_rental";
+
+const CONFIG_DEFAULTS: Record<string, string> = {
+  overdue_escalation_days: "7",
+  overdue_reminder_days: "0,1,3",
+};
+
+const BOOKING_COLUMNS = `id, user_id, booking_number, status, return_date,
+  actual_return_date, daily_rate, rental_amount, rental_days, is_overdue,
+  overdue_since, overdue_reminder_level, overdue_escalated_at,
+  scheduled_return_at, customer_info, vehicles(name)`;
+
+// ============================================
+// HELPERS
+// ============================================
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function toRulesInput(booking: OverdueBookingRow): OverdueRulesInput {
+  return {
+    status: booking.status,
+    returnDate: booking.return_date,
+    actualReturnDate: booking.actual_return_date,
+  };
+}
+
+async function getOverdueRules(
+  supabase: SupabaseClient,
+): Promise<OverdueRules> {
+  const { data, error } = await supabase
+    .from("system_config")
+    .select("key, value")
+    .in("key", Object.keys(CONFIG_DEFAULTS));
+
+  if (error) throw error;
+
+  const config = { ...CONFIG_DEFAULTS };
+  for (const row of data || []) {
+    if (row.value !== null) config[row.key] = String(row.value);
+  }
+
+  return overdueRulesFromConfig(config);
+}
+
+async function getOverdueTotal(
+  supabase: SupabaseClient,
+  bookingId: string,
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("booking_charges")
+    .select("amount")
+    .eq("booking_id", bookingId)
+    .eq("charge_type", OVERDUE_CHARGE_TYPE)
+    .neq("status", "waived");
+
+  if (error) throw error;
+  return (data || []).reduce((sum, row) => sum + Number(row.amount || 0), 0);
+}
+
+// ============================================
+// 1. CHARGE OVERDUE DAYS
+// ============================================
+async function chargeOverdueDays(
+  supabase: SupabaseClient,
+  booking: OverdueBookingRow,
+  now: Date,
+): Promise<number> {
+  const rate = overdueDailyRate({
+    dailyRate: booking.daily_rate,
+    rentalAmount: booking.rental_amount,
+    rentalDays: booking.rental_days,
+  });
+  if (rate <= 0) return 0;
+
+  const rows = overdueChargeDates(toRulesInput(booking), now).map((date) => ({
+    booking_id: booking.id,
+    user_id: booking.user_id,
+    charge_type: OVERDUE_CHARGE_TYPE,
+    amount: rate,
+    description: `Overdue rental day ${date}`,
+    accrual_date: date,
+  }));
+
+  if (rows.length === 0) return 0;
+
+  // One charge per booking and day; days already charged are left alone
+  const { data: created, error } = await supabase
+    .from("booking_charges")
+    .upsert(rows, {
+      onConflict: "booking_id,charge_type,accrual_date",
+      ignoreDuplicates: true,
+    })
+    .select("id");
+
+  if (error) throw error;
+  return (created || []).length;
+}
+
+// ============================================
+// 2. REMINDERS AND ESCALATION
+// ============================================
+async function sendReminder(
+  supabase: SupabaseClient,
+  booking: OverdueBookingRow,
+  overdue: OverdueResult,
+  now: Date,
+): Promise<boolean> {
+  const contact = customerContact(booking);
+  if (!contact.email) {
+    console.warn("[process-overdue-rentals] No customer email:", {
+      bookingId: booking.id,
+    });
+    return false;
+  }
+
+  const rate = overdueDailyRate({
+    dailyRate: booking.daily_rate,
+    rentalAmount: booking.rental_amount,
+    rentalDays: booking.rental_days,
+  });
+  const total = await getOverdueTotal(supabase, booking.id);
+
+  await sendTemplateEmail({
+    to: contact.email,
+    subject: "Your rental is overdue",
+    template: "overdue_reminder",
+    data: {
+      customerName: contact.name,
+      bookingNumber: booking.booking_number || undefined,
+      vehicleName: booking.vehicles?.name || undefined,
+      returnDate: formatDate(booking.return_date),
+      totalAmount: formatCurrency(total),
+      actionUrl: `${CUSTOMER_PORTAL_URL}/my-bookings`,
+      customMessage: `Each further day is charged at ${formatCurrency(rate)}. You can extend your rental or let us know when you'll bring the vehicle back from My Bookings.`,
+    },
+  });
+
+  const { error } = await supabase
+    .from("bookings")
+    .update({
+      overdue_reminder_level: overdue.remindersDue,
+      overdue_last_reminder_at: now.toISOString(),
+    })
+    .eq("id", booking.id);
+
+  if (error) throw error;
+  return true;
+}
+
+async function escalateToStaff(
+  supabase: SupabaseClient,
+  booking: OverdueBookingRow,
+  overdue: OverdueResult,
+  now: Date,
+): Promise<boolean> {
+  // Claim the escalation first so concurrent runs alert staff once
+  const { data: claimed, error } = await supabase
+    .from("bookings")
+    .update({ overdue_escalated_at: now.toISOString() })
+    .eq("id", booking.id)
+    .is("overdue_escalated_at", null)
+    .select("id");
+
+  if (error) throw error;
+  if ((claimed || []).length === 0) return false;
+
+  const contact = customerContact(booking);
+  const total = await getOverdueTotal(supabase, booking.id);
+  const scheduled = booking.scheduled_return_at
+    ? `The customer scheduled a return for ${formatDate(booking.scheduled_return_at)}.`
+    : "The customer hasn't scheduled a return.";
+
+  await sendTemplateEmail({
+    to: ADMIN_EMAIL,
+    subject: `Overdue rental escalated: ${booking.booking_number || booking.id}`,
+    template: "overdue_escalation",
+    data: {
+      customerName: "4A Rentals Team",
+      bookingNumber: booking.booking_number || undefined,
+      vehicleName: booking.vehicles?.name || undefined,
+      returnDate: formatDate(booking.return_date),
+      totalAmount: formatCurrency(total),
+      customMessage: `${overdue.daysOverdue} days overdue. Customer: ${contact.name}${contact.email ? ` (${contact.email})` : ""}. ${scheduled}`,
+    },
+  });
+
+  return true;
+}
+
+// ============================================
+// 3. CLEAR RETURNED / EXTENDED RENTALS
+// ============================================
+async function clearResolvedBookings(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: JobSummary,
+): Promise<void> {
+  const { data: bookings, error } = await supabase
+    .from("bookings")
+    .select(BOOKING_COLUMNS)
+    .eq("is_overdue", true)
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const booking of (bookings || []) as unknown as OverdueBookingRow[]) {
+    if (evaluateOverdue(toRulesInput(booking), undefined, now).isOverdue) {
+      continue;
+    }
+
+    try {
+      const extended =
+        booking.status === "active" &&
+        !booking.actual_return_date &&
+        new Date(booking.return_date).getTime() >= now.getTime();
+
+      if (extended) {
+        // The extension's rent covers the days that were charged as overdue
+        const { error: waiveError } = await supabase
+          .from("booking_charges")
+          .update({ status: "waived", settled_at: now.toISOString() })
+          .eq("booking_id", booking.id)
+          .eq("charge_type", OVERDUE_CHARGE_TYPE)
+          .eq("status", "outstanding")
+          .lt("accrual_date", booking.return_date.split("T")[0]);
+
+        if (waiveError) throw waiveError;
+      }
+
+      // Returned rentals keep their reminder history; extended ones start over
+      const { error: updateError } = await supabase
+        .from("bookings")
+        .update({
+          is_overdue: false,
+          scheduled_return_at: null,
+          ...(extended
+            ? {
+                overdue_reminder_level: 0,
+                overdue_last_reminder_at: null,
+                overdue_escalated_at: null,
+              }
+            : {}),
+        })
+        .eq("id", booking.id);
+
+      if (updateError) throw updateError;
+      summary.cleared++;
+    } catch (clearError) {
+      console.error("[process-overdue-rentals] Clear failed:", {
+        bookingId: booking.id,
+        error: clearError,
+      });
+      summary.failed++;
+    }
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  // ============================================
+  // 1. AUTHENTICATION (internal API key only)
+  // ============================================
+  const internalKey = req.headers.get("X-INTERNAL-API-KEY") || "";
+  if (!INTERNAL_API_KEY || internalKey !== INTERNAL_API_KEY) {
+    console.warn("[process-overdue-rentals] Unauthorized attempt");
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ============================================
+    // 2. LOAD CONFIG
+    // ============================================
+    const rules = await getOverdueRules(supabase);
+    const now = new Date();
+
+    const summary: JobSummary = {
+      overdue: 0,
+      chargesAdded: 0,
+      remindersSent: 0,
+      escalated: 0,
+      cleared: 0,
+      failed: 0,
+    };
+
+    // ============================================
+    // 3. FETCH ACTIVE RENTALS PAST THEIR RETURN DATE
+    // ============================================
+    const { data: bookings, error } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("status", "active")
+      .is("actual_return_date", null)
+      .lt("return_date", now.toISOString())
+      .order("return_date", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    // ============================================
+    // 4. FLAG, CHARGE, REMIND, ESCALATE
+    // ============================================
+    for (const booking of (bookings || []) as unknown as OverdueBookingRow[]) {
+      const overdue = evaluateOverdue(toRulesInput(booking), rules, now);
+      if (!overdue.isOverdue) continue;
+
+      summary.overdue++;
+
+      try {
+        const flagged =
+          booking.is_overdue && booking.overdue_since === booking.return_date;
+
+        if (!flagged) {
+          const { error: flagError } = await supabase
+            .from("bookings")
+            .update({ is_overdue: true, overdue_since: booking.return_date })
+            .eq("id", booking.id);
+
+          if (flagError) throw flagError;
+        }
+
+        summary.chargesAdded += await chargeOverdueDays(supabase, booking, now);
+
+        // One email per run even if several reminder days were missed
+        if (overdue.remindersDue > (booking.overdue_reminder_level || 0)) {
+          if (await sendReminder(supabase, booking, overdue, now)) {
+            summary.remindersSent++;
+          } else {
+            summary.failed++;
+          }
+        }
+
+        if (
+          overdue.escalationDue &&
+          !booking.overdue_escalated_at &&
+          (await escalateToStaff(supabase, booking, overdue, now))
+        ) {
+          summary.escalated++;
+        }
+      } catch (bookingError) {
+        console.error("[process-overdue-rentals] Booking failed:", {
+          bookingId: booking.id,
+          error: bookingError,
+        });
+        summary.failed++;
+      }
+    }
+
+    // ============================================
+    // 5. CLEAR RESOLVED RENTALS
+    // ============================================
+    await clearResolvedBookings(supabase, now, summary);
+
+    console.log("[process-overdue-rentals] Run complete:", summary);
+
+    return jsonResponse({ success: true, ...summary });
+  } catch (error) {
+    console.error("[process-overdue-rentals] Unexpected error:", error);
+    return jsonResponse({ error: "Failed to process overdue rentals" }, 500);
+  }
+});
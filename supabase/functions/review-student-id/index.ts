@@ -0,0 +1,585 @@
+// supabase/functions/review-student-id/index.ts
+// Workers portal: approve or reject a customer's student ID. Approval marks
+// the student discount verified on the bookings it backs; rejection moves
+// those bookings to standard pricing and bills the difference through a
+// Stripe pay link (anything unpaid comes out of the security deposit).
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import Stripe from "npm:stripe@13.10.0";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import { customerContact } from "../_shared/monthlyNotices.ts";
+import { applyLoyaltyBenefits } from "../_shared/loyalty.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const STRIPE_SECRET_KEY = Deno.env.get("STRIPE_SECRET_KEY")!;
+const CUSTOMER_PORTAL_URL =
+  Deno.env.get("CUSTOMER_PORTAL_URL") || "https://4arentals.com";
+
+// ============================================
+// ALLOWED ORIGINS (Workers Portal)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://workers.4arentals.com",
+  "https://admin.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+  "http://localhost:5175",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type ReviewDecision = "approve" | "reject";
+
+interface ReviewStudentIdPayload {
+  verificationId: string;
+  decision: ReviewDecision;
+  reason?: string;
+}
+
+interface StudentBookingRow {
+  id: string;
+  user_id: string;
+  vehicle_id: string;
+  booking_number: string | null;
+  status: string;
+  pickup_date: string;
+  return_date: string;
+  delivery_fee: number | string | null;
+  rental_amount: number | string;
+  additional_driver_fee: number | string | null;
+  total_price: number | string;
+  customer_info: unknown;
+  vehicles: { name: string } | null;
+  additional_drivers: { id: string }[] | null;
+}
+
+interface Adjustment {
+  bookingId: string;
+  bookingNumber: string | null;
+  amount: number;
+  chargeId: string | null;
+  checkoutUrl: string | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_REASON_LENGTH = 500;
+const MIN_CHARGE_CENTS = 50; // Stripe minimum
+const CHARGE_SESSION_HOURS = 23; // Stripe allows up to 24
+
+/** Bookings still to be picked up or on the road */
+const OPEN_STATUSES = ["confirmed", "active"];
+
+const BOOKING_COLUMNS = `id, user_id, vehicle_id, booking_number, status,
+  pickup_date, return_date, delivery_fee, rental_amount,
+  additional_driver_fee, total_price, customer_info, vehicles(name),
+  additional_drivers!booking_id(id)`;
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// ============================================
+// REJECTION: RE-PRICE ONE BOOKING
+// ============================================
+async function repriceBooking(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  booking: StudentBookingRow,
+  reason: string,
+): Promise<Adjustment> {
+  const { data: pricingData, error: pricingError } = await supabase.rpc(
+    "calculate_booking_total",
+    {
+      p_vehicle_id: booking.vehicle_id,
+      p_pickup_date: booking.pickup_date.split("T")[0],
+      p_return_date: booking.return_date.split("T")[0],
+      p_is_student: false,
+      p_delivery_fee: Number(booking.delivery_fee) || 0,
+      p_additional_drivers: (booking.additional_drivers || []).length,
+    },
+  );
+
+  if (pricingError || !pricingData || pricingData.length === 0) {
+    throw pricingError || new Error("Failed to calculate booking price");
+  }
+
+  const pricing = pricingData[0];
+  // Only the driver fee is re-priced here; a loyalty tier may still waive it
+  const { additionalDriverFee } = await applyLoyaltyBenefits(supabase, {
+    userId: booking.user_id,
+    deliveryFee: 0,
+    additionalDriverFee: Number(pricing.additional_driver_fee) || 0,
+    securityDeposit: 0,
+  });
+  const oldRent =
+    (Number(booking.rental_amount) || 0) +
+    (Number(booking.additional_driver_fee) || 0);
+  const newRent = Number(pricing.rental_amount) + additionalDriverFee;
+  const amount = roundMoney(Math.max(newRent - oldRent, 0));
+  const rejectedAt = new Date().toISOString();
+
+  // Guarded on is_student_booking so a repeated review can't bill twice
+  const { data: updated, error: updateError } = await supabase
+    .from("bookings")
+    .update({
+      is_student_booking: false,
+      student_verified: false,
+      student_rejected_at: rejectedAt,
+      student_rejection_reason: reason,
+      rental_type: pricing.rental_type,
+      rental_days: pricing.rental_days,
+      pricing_method: pricing.pricing_method,
+      daily_rate: pricing.daily_rate,
+      weekly_rate: pricing.weekly_rate,
+      monthly_rate: pricing.monthly_rate,
+      rental_amount: Number(pricing.rental_amount).toString(),
+      additional_driver_fee: additionalDriverFee.toString(),
+      total_price: roundMoney(Number(booking.total_price) + amount).toString(),
+      updated_at: rejectedAt,
+    })
+    .eq("id", booking.id)
+    .eq("is_student_booking", true)
+    .select("id");
+
+  if (updateError) throw updateError;
+
+  const adjustment: Adjustment = {
+    bookingId: booking.id,
+    bookingNumber: booking.booking_number,
+    amount,
+    chargeId: null,
+    checkoutUrl: null,
+  };
+
+  if (!updated || updated.length === 0 || amount <= 0) return adjustment;
+
+  const { data: charge, error: chargeError } = await supabase
+    .from("booking_charges")
+    .insert({
+      booking_id: booking.id,
+      user_id: booking.user_id,
+      charge_type: "student_price_adjustment",
+      amount,
+      description: "Standard pricing after student ID review",
+    })
+    .select("id")
+    .single();
+
+  if (chargeError) throw chargeError;
+  adjustment.chargeId = charge.id;
+
+  try {
+    const vehicleName = booking.vehicles?.name || "Vehicle";
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      mode: "payment",
+      customer_email: customerContact(booking).email,
+      client_reference_id: `booking_charge_${charge.id}`,
+      metadata: {
+        type: "booking_charge",
+        booking_id: booking.id,
+        charge_id: charge.id,
+        user_id: booking.user_id,
+      },
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            product_data: {
+              name: `Price Adjustment - ${vehicleName}`,
+              description: "Difference between student and standard pricing",
+            },
+            unit_amount: Math.max(Math.round(amount * 100), MIN_CHARGE_CENTS),
+          },
+          quantity: 1,
+        },
+      ],
+      success_url: `${CUSTOMER_PORTAL_URL}/my-bookings?charge=success&booking_id=${booking.id}`,
+      cancel_url: `${CUSTOMER_PORTAL_URL}/my-bookings?charge=cancelled&booking_id=${booking.id}`,
+      expires_at:
+        Math.floor(Date.now() / 1000) + CHARGE_SESSION_HOURS * 60 * 60,
+    });
+
+    await supabase
+      .from("booking_charges")
+      .update({ stripe_session_id: session.id, checkout_url: session.url })
+      .eq("id", charge.id);
+
+    adjustment.checkoutUrl = session.url;
+  } catch (stripeError) {
+    // The charge stays outstanding and is settled from the deposit
+    console.error(
+      "[review-student-id] Failed to create pay link:",
+      booking.id,
+      stripeError,
+    );
+  }
+
+  return adjustment;
+}
+
+async function notifyRejection(
+  booking: StudentBookingRow,
+  adjustment: Adjustment,
+  reason: string,
+): Promise<void> {
+  const contact = customerContact(booking);
+  if (!contact.email) return;
+
+  const myBookingsUrl = `${CUSTOMER_PORTAL_URL}/my-bookings?booking_id=${booking.id}`;
+
+  try {
+    await sendTemplateEmail({
+      to: contact.email,
+      subject: `Student ID not accepted - Booking ${booking.booking_number || ""}`.trim(),
+      template: "student_id_rejected",
+      data: {
+        customerName: contact.name,
+        bookingNumber: booking.booking_number || undefined,
+        vehicleName: booking.vehicles?.name,
+        pickupDate: formatDate(booking.pickup_date),
+        totalAmount: formatCurrency(adjustment.amount),
+        customMessage: reason ? `Reason: ${reason}` : undefined,
+        actionUrl: adjustment.checkoutUrl || myBookingsUrl,
+        secondaryActionUrl: myBookingsUrl,
+      },
+    });
+  } catch (emailError) {
+    console.error(
+      "[review-student-id] Failed to send rejection email:",
+      booking.id,
+      emailError,
+    );
+  }
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    // Initialize clients
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const stripe = new Stripe(STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16",
+    });
+
+    // ============================================
+    // 1. AUTHENTICATION - Must be a worker
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const { data: workerAccount, error: workerError } = await supabase
+      .from("worker_accounts")
+      .select("id, full_name, is_active")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (workerError || !workerAccount || !workerAccount.is_active) {
+      return jsonResponse(
+        { error: "Unauthorized - Worker account required" },
+        corsHeaders,
+        403,
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "STUDENT_ID_REVIEW",
+      workerAccount.id,
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many review requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: ReviewStudentIdPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { verificationId, decision } = payload;
+    const reason =
+      typeof payload.reason === "string"
+        ? payload.reason.trim().slice(0, MAX_REASON_LENGTH)
+        : "";
+
+    if (!verificationId || !isValidUUID(verificationId)) {
+      return jsonResponse(
+        { error: "Invalid verification ID" },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (decision !== "approve" && decision !== "reject") {
+      return jsonResponse({ error: "Invalid decision" }, corsHeaders, 400);
+    }
+
+    if (decision === "reject" && !reason) {
+      return jsonResponse(
+        { error: "Please give a reason for the rejection." },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 4. FETCH VERIFICATION
+    // ============================================
+    const { data: verification, error: verificationError } = await supabase
+      .from("student_verifications")
+      .select("id, user_id, status")
+      .eq("id", verificationId)
+      .maybeSingle();
+
+    if (verificationError || !verification) {
+      return jsonResponse(
+        { error: "Student ID not found" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    if (verification.status !== "pending") {
+      return jsonResponse(
+        {
+          error: `This student ID has already been ${verification.status}.`,
+          code: "ALREADY_REVIEWED",
+        },
+        corsHeaders,
+        409,
+      );
+    }
+
+    // ============================================
+    // 5. RECORD DECISION
+    // ============================================
+    const reviewedAt = new Date().toISOString();
+
+    const { data: reviewed, error: reviewError } = await supabase
+      .from("student_verifications")
+      .update({
+        status: decision === "approve" ? "approved" : "rejected",
+        reviewed_by: user.id,
+        reviewed_at: reviewedAt,
+        rejection_reason: decision === "reject" ? reason : null,
+      })
+      .eq("id", verificationId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (reviewError || !reviewed || reviewed.length === 0) {
+      return jsonResponse(
+        {
+          error: "This student ID was reviewed by someone else.",
+          code: "ALREADY_REVIEWED",
+        },
+        corsHeaders,
+        409,
+      );
+    }
+
+    // ============================================
+    // 6a. APPROVE: VERIFY LINKED BOOKINGS
+    // ============================================
+    if (decision === "approve") {
+      const { data: verified, error: verifyError } = await supabase
+        .from("bookings")
+        .update({
+          student_verified: true,
+          student_verified_by: user.id,
+          student_verified_at: reviewedAt,
+          updated_at: reviewedAt,
+        })
+        .eq("student_verification_id", verificationId)
+        .eq("is_student_booking", true)
+        .select("id");
+
+      if (verifyError) {
+        console.error(
+          "[review-student-id] Failed to verify bookings:",
+          verifyError,
+        );
+      }
+
+      console.log("✅ [review-student-id] Student ID approved:", {
+        verificationId,
+        workerId: workerAccount.id,
+        bookings: (verified || []).length,
+      });
+
+      return jsonResponse(
+        {
+          status: "approved",
+          bookingIds: (verified || []).map((b) => b.id),
+        },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 6b. REJECT: RE-PRICE OPEN BOOKINGS
+    // ============================================
+    const { data: bookings, error: bookingsError } = await supabase
+      .from("bookings")
+      .select(BOOKING_COLUMNS)
+      .eq("student_verification_id", verificationId)
+      .eq("is_student_booking", true)
+      .in("status", OPEN_STATUSES);
+
+    if (bookingsError) {
+      console.error(
+        "[review-student-id] Failed to load bookings:",
+        bookingsError,
+      );
+    }
+
+    const adjustments: Adjustment[] = [];
+    const failed: string[] = [];
+
+    for (const row of (bookings || []) as unknown as StudentBookingRow[]) {
+      try {
+        const adjustment = await repriceBooking(supabase, stripe, row, reason);
+        adjustments.push(adjustment);
+        await notifyRejection(row, adjustment, reason);
+      } catch (repriceError) {
+        console.error(
+          "[review-student-id] Failed to re-price booking:",
+          row.id,
+          repriceError,
+        );
+        failed.push(row.id);
+      }
+    }
+
+    console.log("✅ [review-student-id] Student ID rejected:", {
+      verificationId,
+      workerId: workerAccount.id,
+      adjusted: adjustments.length,
+      failed: failed.length,
+    });
+
+    // ============================================
+    // 7. RETURN SUCCESS
+    // ============================================
+    return jsonResponse(
+      { status: "rejected", adjustments, failedBookingIds: failed },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[review-student-id] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred. Please try again." },
+      corsHeaders,
+      500,
+    );
+  }
+});
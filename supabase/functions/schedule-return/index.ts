@@ -0,0 +1,305 @@
+// supabase/functions/schedule-return/index.ts
+// Lets a customer with an overdue rental tell us when they'll bring the
+// vehicle back (store drop-off or delivery collection). Overdue charges
+// continue until the vehicle is checked back in.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import { businessNow, fromBusinessDateTime } from "../_shared/dates.ts";
+import {
+  validateDeliverySlot,
+  validateStoreTime,
+} from "../_shared/deliverySlots.ts";
+import { isOverdueBooking } from "../_shared/overdueRules.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// ============================================
+// ALLOWED ORIGINS (Customer + Workers Portal)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "https://workers.4arentals.com",
+  "https://admin.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+  "http://localhost:5175",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+interface ScheduleReturnPayload {
+  bookingId: string;
+  returnDate: string; // YYYY-MM-DD (business date)
+  returnTime: string; // HH:MM (delivery slot or store drop-off)
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAX_SCHEDULE_DAYS = 3; // Overdue vehicles must come back soon
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+function isValidDateString(str: string | undefined): str is string {
+  return (
+    !!str &&
+    /^\d{4}-\d{2}-\d{2}$/.test(str) &&
+    !isNaN(new Date(`${str}T00:00:00Z`).getTime())
+  );
+}
+
+function isValidTime(str: string | undefined): str is string {
+  return !!str && /^([01]\d|2[0-3]):[0-5]\d$/.test(str);
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit(
+      "BOOKING_SCHEDULE_RETURN",
+      user.id,
+    );
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many return scheduling requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: ScheduleReturnPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { bookingId, returnDate, returnTime } = payload;
+
+    if (!bookingId || !isValidUUID(bookingId)) {
+      return jsonResponse({ error: "Invalid booking ID" }, corsHeaders, 400);
+    }
+
+    if (!isValidDateString(returnDate)) {
+      return jsonResponse({ error: "Invalid return date" }, corsHeaders, 400);
+    }
+
+    if (!isValidTime(returnTime)) {
+      return jsonResponse({ error: "Invalid return time" }, corsHeaders, 400);
+    }
+
+    // ============================================
+    // 4. FETCH BOOKING (ownership check)
+    // ============================================
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select(
+        "id, status, return_date, actual_return_date, pickup_type, delivery_location_id",
+      )
+      .eq("id", bookingId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (bookingError || !booking) {
+      return jsonResponse(
+        { error: "Booking not found or access denied" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    if (
+      !isOverdueBooking({
+        status: booking.status,
+        returnDate: booking.return_date,
+        actualReturnDate: booking.actual_return_date,
+      })
+    ) {
+      return jsonResponse(
+        {
+          error: "Only overdue rentals can schedule a return here.",
+          code: "NOT_OVERDUE",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 5. RETURN DATE & TIME
+    // ============================================
+    const today = businessNow();
+    const latest = today.plus({ days: MAX_SCHEDULE_DAYS }).toISODate();
+
+    if (returnDate < (today.toISODate() as string) || returnDate > latest!) {
+      return jsonResponse(
+        {
+          error: `Please choose a return within the next ${MAX_SCHEDULE_DAYS} days.`,
+          code: "INVALID_RETURN_DATE",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    const slotError =
+      booking.pickup_type === "delivery" && booking.delivery_location_id
+        ? await validateDeliverySlot(
+            supabase,
+            booking.delivery_location_id,
+            returnDate,
+            returnTime,
+            { excludeBookingId: bookingId },
+          )
+        : await validateStoreTime(supabase, returnDate, returnTime);
+
+    if (slotError) {
+      return jsonResponse(
+        { error: slotError, code: "SLOT_UNAVAILABLE" },
+        corsHeaders,
+        409,
+      );
+    }
+
+    const scheduledReturnAt = fromBusinessDateTime(returnDate, returnTime);
+
+    if (new Date(scheduledReturnAt).getTime() <= Date.now()) {
+      return jsonResponse(
+        {
+          error: "The return time can't be in the past.",
+          code: "INVALID_RETURN_DATE",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 6. SAVE
+    // ============================================
+    const { error: updateError } = await supabase
+      .from("bookings")
+      .update({ scheduled_return_at: scheduledReturnAt })
+      .eq("id", bookingId)
+      .eq("status", "active");
+
+    if (updateError) {
+      console.error("[schedule-return] Update failed:", updateError);
+      return jsonResponse(
+        { error: "Failed to schedule your return" },
+        corsHeaders,
+        500,
+      );
+    }
+
+    console.log("[schedule-return] Return scheduled:", {
+      bookingId,
+      scheduledReturnAt,
+    });
+
+    return jsonResponse(
+      { scheduledReturnAt },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[schedule-return] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred" },
+      corsHeaders,
+      500,
+    );
+  }
+});
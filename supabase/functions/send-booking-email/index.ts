@@ -6,6 +6,12 @@ import {
   rateLimitHeaders,
   type RateLimitResult,
 } from "../_shared/ratelimit.ts";
+import {
+  generateEmailHtml,
+  sanitizeHtml,
+  type EmailTemplate,
+  type EmailTemplateData,
+} from "../_shared/emailTemplates.ts";
 
 // ============================================
 // ENVIRONMENT VARIABLES
@@ -41,150 +47,6 @@ function getCorsHeaders(req: Request): Record<string, string> {
   };
 }
 
-// ============================================
-// EMAIL TEMPLATES (Pre-defined, secure)
-// ============================================
-type EmailTemplate =
-  | "booking_confirmation"
-  | "booking_reminder"
-  | "booking_cancelled"
-  | "payment_received"
-  | "extension_confirmed"
-  | "return_reminder"
-  | "custom"; // Only for workers with specific use cases
-
-interface EmailTemplateData {
-  customerName: string;
-  bookingNumber?: string;
-  vehicleName?: string;
-  pickupDate?: string;
-  returnDate?: string;
-  totalAmount?: string;
-  customMessage?: string;
-}
-
-function generateEmailHtml(
-  template: EmailTemplate,
-  data: EmailTemplateData,
-): string {
-  const {
-    customerName,
-    bookingNumber,
-    vehicleName,
-    pickupDate,
-    returnDate,
-    totalAmount,
-    customMessage,
-  } = data;
-
-  const baseStyles = `
-    <style>
-      body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-      .header { border-bottom: 3px solid #FFD700; padding-bottom: 10px; margin-bottom: 20px; }
-      .info-box { background: #f5f5f5; padding: 15px; border-radius: 8px; margin: 15px 0; }
-      .footer { color: #999; font-size: 12px; margin-top: 30px; border-top: 1px solid #eee; padding-top: 15px; }
-    </style>
-  `;
-
-  switch (template) {
-    case "booking_confirmation":
-      return `
-        ${baseStyles}
-        <div class="container">
-          <div class="header">
-            <h2>Booking Confirmed! 🎉</h2>
-          </div>
-          <p>Hi ${sanitizeHtml(customerName)},</p>
-          <p>Your booking has been confirmed. Here are your details:</p>
-          <div class="info-box">
-            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
-            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
-            <p><strong>Pickup:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
-            <p><strong>Return:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
-            <p><strong>Total:</strong> ${sanitizeHtml(totalAmount || "N/A")}</p>
-          </div>
-          <p>Please bring a valid driver's license and the payment card used for booking.</p>
-          <div class="footer">
-            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
-          </div>
-        </div>
-      `;
-
-    case "booking_reminder":
-      return `
-        ${baseStyles}
-        <div class="container">
-          <div class="header">
-            <h2>Pickup Reminder 🚗</h2>
-          </div>
-          <p>Hi ${sanitizeHtml(customerName)},</p>
-          <p>This is a reminder that your vehicle pickup is coming up!</p>
-          <div class="info-box">
-            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
-            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
-            <p><strong>Pickup Date:</strong> ${sanitizeHtml(pickupDate || "N/A")}</p>
-          </div>
-          <p>Don't forget to bring your driver's license!</p>
-          <div class="footer">
-            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
-          </div>
-        </div>
-      `;
-
-    case "return_reminder":
-      return `
-        ${baseStyles}
-        <div class="container">
-          <div class="header">
-            <h2>Return Reminder ⏰</h2>
-          </div>
-          <p>Hi ${sanitizeHtml(customerName)},</p>
-          <p>Your rental is due for return soon!</p>
-          <div class="info-box">
-            <p><strong>Booking #:</strong> ${sanitizeHtml(bookingNumber || "N/A")}</p>
-            <p><strong>Vehicle:</strong> ${sanitizeHtml(vehicleName || "N/A")}</p>
-            <p><strong>Return Date:</strong> ${sanitizeHtml(returnDate || "N/A")}</p>
-          </div>
-          <p>Need more time? You can extend your rental from your account.</p>
-          <div class="footer">
-            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
-          </div>
-        </div>
-      `;
-
-    case "custom":
-      // Only allow pre-sanitized custom messages from workers
-      return `
-        ${baseStyles}
-        <div class="container">
-          <div class="header">
-            <h2>Message from 4A Rentals</h2>
-          </div>
-          <p>Hi ${sanitizeHtml(customerName)},</p>
-          <div class="info-box">
-            ${sanitizeHtml(customMessage || "").replace(/\n/g, "<br>")}
-          </div>
-          <div class="footer">
-            <p>Best regards,<br><strong>4A Rentals Team</strong></p>
-          </div>
-        </div>
-      `;
-
-    default:
-      throw new Error("Invalid email template");
-  }
-}
-
-function sanitizeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
-}
-
 function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email) && email.length <= 254;
@@ -337,7 +199,9 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Validate template
+    // Validate template (monthly_*, insurance_*, overdue_*, student_*,
+    // booking_no_show, deposit_released and driver_invite templates are only
+    // sent by other Edge Functions)
     const validTemplates: EmailTemplate[] = [
       "booking_confirmation",
       "booking_reminder",
@@ -2,6 +2,17 @@
 import Stripe from "npm:stripe@14";
 import { createClient } from "npm:@supabase/supabase-js@2";
 import { toBusinessDateString } from "../_shared/dates.ts";
+import { applyBookingRevision } from "../_shared/bookingRevisions.ts";
+import {
+  convertVehicleHold,
+  releaseVehicleHold,
+} from "../_shared/vehicleHolds.ts";
+import { sendPendingDriverInvites } from "../_shared/driverInvites.ts";
+import {
+  redeemPromoRedemption,
+  releasePromoRedemption,
+} from "../_shared/promoCodes.ts";
+import { restoreAccountCredit } from "../_shared/accountCredits.ts";
 
 // ============================================
 // ENVIRONMENT VARIABLES
@@ -578,7 +589,7 @@ async function handleNewBookingPayment(
   // Verify booking exists and hasn't been paid
   const { data: existingBooking } = await supabaseAdmin
     .from("bookings")
-    .select("id, payment_status")
+    .select("id, status, payment_status, security_deposit")
     .eq("id", bookingId)
     .single();
 
@@ -592,6 +603,11 @@ async function handleNewBookingPayment(
     return;
   }
 
+  if (existingBooking.status === "cancelled") {
+    await refundCancelledBookingPayment(session, existingBooking);
+    return;
+  }
+
   // Update booking
   const { data: booking, error: bookingError } = await supabaseAdmin
     .from("bookings")
@@ -612,14 +628,29 @@ async function handleNewBookingPayment(
 
   console.log("✅ Booking marked as paid");
 
-  // Update vehicle status
+  // The booking now owns the dates the checkout hold was keeping
+  try {
+    await convertVehicleHold(supabaseAdmin, bookingId);
+  } catch (holdError) {
+    console.error("❌ Hold conversion error:", holdError);
+  }
+
+  // The promo code's use, reserved at checkout, is now spent
+  try {
+    await redeemPromoRedemption(supabaseAdmin, bookingId);
+  } catch (promoError) {
+    console.error("❌ Promo redemption error:", promoError);
+  }
+
+  // Update vehicle status; a car out on another rental stays rented
   const { error: vehicleError } = await supabaseAdmin
     .from("vehicles")
     .update({
       status: "reserved",
       updated_at: new Date().toISOString(),
     })
-    .eq("id", vehicleId);
+    .eq("id", vehicleId)
+    .eq("status", "available");
 
   if (vehicleError) {
     console.error("❌ Vehicle update error:", vehicleError);
@@ -650,6 +681,95 @@ async function handleNewBookingPayment(
   } catch (emailError) {
     console.error("❌ Email failed:", emailError);
   }
+
+  // Invited additional drivers get their link once the booking is paid
+  try {
+    await sendPendingDriverInvites(supabaseAdmin, bookingId);
+  } catch (inviteError) {
+    console.error("❌ Driver invites failed:", inviteError);
+  }
+}
+
+/**
+ * The customer cancelled while checkout was still open and paid anyway:
+ * the dates, promo code use and credit are already given up, so the whole
+ * payment goes back (rent and deposit recorded separately)
+ */
+async function refundCancelledBookingPayment(
+  session: Stripe.Checkout.Session,
+  booking: { id: string; security_deposit: number | string | null },
+): Promise<void> {
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id || null;
+
+  console.warn("⚠️ Payment for cancelled booking, refunding:", {
+    bookingId: booking.id,
+    paymentIntentId,
+  });
+
+  if (!paymentIntentId) return;
+
+  const paidCents = session.amount_total || 0;
+  const depositCents = Math.min(
+    Math.round((Number(booking.security_deposit) || 0) * 100),
+    paidCents,
+  );
+  const portions: ["rent" | "deposit", number][] = [
+    ["rent", paidCents - depositCents],
+    ["deposit", depositCents],
+  ];
+
+  const ledgerRows = [];
+  for (const [refundType, cents] of portions) {
+    if (cents <= 0) continue;
+
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: cents,
+        reason: "requested_by_customer",
+        metadata: {
+          type: "booking_cancellation",
+          refund_type: refundType,
+          booking_id: booking.id,
+        },
+      },
+      { idempotencyKey: `cancelled_payment_${booking.id}_${refundType}` },
+    );
+
+    ledgerRows.push({
+      booking_id: booking.id,
+      refund_type: refundType,
+      amount: cents / 100,
+      reason: "cancellation",
+      stripe_refund_id: refund.id,
+      stripe_payment_intent_id: paymentIntentId,
+      status: refund.status || "pending",
+    });
+  }
+
+  await supabaseAdmin
+    .from("bookings")
+    .update({
+      payment_status: "refunded",
+      stripe_payment_intent_id: paymentIntentId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", booking.id);
+
+  if (ledgerRows.length > 0) {
+    const { error: ledgerError } = await supabaseAdmin
+      .from("booking_refunds")
+      .upsert(ledgerRows, { onConflict: "stripe_refund_id" });
+
+    if (ledgerError) {
+      console.error("❌ Refund ledger insert failed:", ledgerError);
+    }
+  }
+
+  console.log("✅ Cancelled booking payment refunded:", booking.id);
 }
 
 async function handleExtensionPayment(
@@ -712,6 +832,24 @@ async function handleExtensionPayment(
     additionalDays,
   });
 
+  // Renewal from a monthly rental notice
+  const noticeId = session.metadata?.notice_id;
+  if (noticeId) {
+    const { error: noticeError } = await supabaseAdmin
+      .from("monthly_rental_notices")
+      .update({
+        status: "renewed",
+        checkout_url: null,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq("id", noticeId);
+
+    if (noticeError) {
+      // Booking is extended; the notice only records the outcome
+      console.error("❌ Monthly notice update error:", noticeError);
+    }
+  }
+
   // Send email
   try {
     const customerInfo =
@@ -739,6 +877,140 @@ async function handleExtensionPayment(
   }
 }
 
+async function handleModificationPayment(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  console.log("✏️ Processing modification payment:", session.id);
+
+  const bookingId = session.metadata?.booking_id;
+  const revisionId = session.metadata?.revision_id;
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id || null;
+
+  if (!bookingId || !revisionId) {
+    console.error("❌ Missing modification metadata");
+    return;
+  }
+
+  const result = await applyBookingRevision(
+    supabaseAdmin,
+    revisionId,
+    paymentIntentId,
+  );
+
+  if (result.applied) {
+    console.log("✅ Booking modified:", { bookingId, revisionId });
+    return;
+  }
+
+  // Superseded revision or booking no longer modifiable: give the money back
+  console.warn("⚠️ Modification not applied, refunding:", {
+    bookingId,
+    revisionId,
+    reason: result.reason,
+  });
+
+  if (!paymentIntentId) return;
+
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      reason: "requested_by_customer",
+      metadata: {
+        type: "booking_modification",
+        booking_id: bookingId,
+        revision_id: revisionId,
+      },
+    },
+    { idempotencyKey: `modify_${revisionId}_unapplied` },
+  );
+
+  console.log("✅ Modification payment refunded:", refund.id);
+}
+
+async function handleEarlyReturnPayment(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  console.log("🔙 Processing early return payment:", session.id);
+
+  const requestId = session.metadata?.request_id;
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id || null;
+
+  if (!requestId) {
+    console.error("❌ Missing early return metadata");
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from("early_return_requests")
+    .update({
+      status: "completed",
+      stripe_payment_intent_id: paymentIntentId,
+      stripe_checkout_url: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", requestId)
+    .eq("status", "awaiting_payment");
+
+  if (error) {
+    console.error("❌ Early return update error:", error);
+    throw error;
+  }
+
+  console.log("✅ Early return settled:", {
+    bookingId: session.metadata?.booking_id,
+    requestId,
+  });
+}
+
+async function handleBookingChargePayment(
+  session: Stripe.Checkout.Session,
+): Promise<void> {
+  console.log("🧾 Processing booking charge payment:", session.id);
+
+  const chargeId = session.metadata?.charge_id;
+
+  if (!chargeId) {
+    console.error("❌ Missing booking charge metadata");
+    return;
+  }
+
+  const { data: settled, error } = await supabaseAdmin
+    .from("booking_charges")
+    .update({
+      status: "paid",
+      settled_at: new Date().toISOString(),
+      checkout_url: null,
+    })
+    .eq("id", chargeId)
+    .eq("status", "outstanding")
+    .select("id");
+
+  if (error) {
+    console.error("❌ Booking charge update error:", error);
+    throw error;
+  }
+
+  if (!settled || settled.length === 0) {
+    // Already taken from the deposit (or waived): staff refund the payment
+    console.warn("⚠️ Booking charge was no longer outstanding:", {
+      chargeId,
+      sessionId: session.id,
+    });
+    return;
+  }
+
+  console.log("✅ Booking charge paid:", {
+    bookingId: session.metadata?.booking_id,
+    chargeId,
+  });
+}
+
 // ============================================
 // IDENTITY VERIFICATION HANDLERS
 // ============================================
@@ -1044,6 +1316,12 @@ Deno.serve(async (req: Request) => {
 
         if (session.metadata?.type === "booking_extension") {
           await handleExtensionPayment(session);
+        } else if (session.metadata?.type === "booking_modification") {
+          await handleModificationPayment(session);
+        } else if (session.metadata?.type === "early_return_charge") {
+          await handleEarlyReturnPayment(session);
+        } else if (session.metadata?.type === "booking_charge") {
+          await handleBookingChargePayment(session);
         } else {
           await handleNewBookingPayment(session);
         }
@@ -1055,10 +1333,59 @@ Deno.serve(async (req: Request) => {
         console.log("⏰ Checkout expired:", session.id);
 
         if (session.metadata?.type === "booking_extension") {
+          // Renewals stay 'continuing'; the customer can get a new link
+          if (session.metadata?.notice_id) {
+            await supabaseAdmin
+              .from("monthly_rental_notices")
+              .update({ checkout_url: null })
+              .eq("id", session.metadata.notice_id)
+              .eq("stripe_session_id", session.id);
+          }
           console.log("ℹ️ Extension checkout expired - no changes");
           break;
         }
 
+        if (session.metadata?.type === "booking_modification") {
+          if (session.metadata?.revision_id) {
+            await supabaseAdmin
+              .from("booking_revisions")
+              .update({ status: "expired" })
+              .eq("id", session.metadata.revision_id)
+              .eq("status", "pending");
+          }
+          await releaseVehicleHold(supabaseAdmin, {
+            holdId: session.metadata?.hold_id,
+          });
+          console.log("ℹ️ Modification checkout expired - booking unchanged");
+          break;
+        }
+
+        if (session.metadata?.type === "early_return_charge") {
+          // Still owed; staff can issue a new payment link from the request
+          if (session.metadata?.request_id) {
+            await supabaseAdmin
+              .from("early_return_requests")
+              .update({ stripe_checkout_url: null })
+              .eq("id", session.metadata.request_id)
+              .eq("stripe_session_id", session.id);
+          }
+          console.log("ℹ️ Early return checkout expired - charge still due");
+          break;
+        }
+
+        if (session.metadata?.type === "booking_charge") {
+          // Still owed; taken from the deposit if never paid
+          if (session.metadata?.charge_id) {
+            await supabaseAdmin
+              .from("booking_charges")
+              .update({ checkout_url: null })
+              .eq("id", session.metadata.charge_id)
+              .eq("stripe_session_id", session.id);
+          }
+          console.log("ℹ️ Booking charge checkout expired - charge still due");
+          break;
+        }
+
         const bookingId = session.metadata?.bookingId;
         if (bookingId) {
           await supabaseAdmin
@@ -1069,7 +1396,20 @@ Deno.serve(async (req: Request) => {
             })
             .eq("id", bookingId);
           console.log("✅ Booking marked as expired");
+
+          await releasePromoRedemption(supabaseAdmin, bookingId);
+          await restoreAccountCredit(
+            supabaseAdmin,
+            bookingId,
+            "Checkout expired before payment",
+          );
         }
+
+        await releaseVehicleHold(supabaseAdmin, {
+          holdId: session.metadata?.holdId,
+          bookingId,
+        });
+        console.log("✅ Checkout hold released");
         break;
       }
 
@@ -0,0 +1,391 @@
+// supabase/functions/student-email-otp/index.ts
+// Optional .edu email check for a student ID: emails a one-time code to the
+// school address and, once the customer enters it, marks the address verified
+// on the student_verifications row. Codes are stored hashed.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  checkRateLimit,
+  rateLimitResponse,
+  rateLimitHeaders,
+} from "../_shared/ratelimit.ts";
+import { sendTemplateEmail } from "../_shared/emailTemplates.ts";
+import {
+  EDU_EMAIL_CODE_LENGTH,
+  EDU_EMAIL_CODE_TTL_MINUTES,
+  EDU_EMAIL_MAX_ATTEMPTS,
+  isEduEmail,
+} from "../_shared/studentRules.ts";
+
+// ============================================
+// ENVIRONMENT VARIABLES
+// ============================================
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const BUSINESS_TIMEZONE = Deno.env.get("BUSINESS_TIMEZONE") || "UTC";
+
+// ============================================
+// ALLOWED ORIGINS (Production)
+// ============================================
+const ALLOWED_ORIGINS = [
+  "https://4arentals.com",
+  "https://www.4arentals.com",
+  "http://localhost:5173",
+  "http://localhost:5174",
+];
+
+// ============================================
+// CORS HEADERS HELPER
+// ============================================
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin") || "";
+  const allowedOrigin = ALLOWED_ORIGINS.includes(origin)
+    ? origin
+    : ALLOWED_ORIGINS[0];
+
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin,
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+  };
+}
+
+function jsonResponse(
+  data: unknown,
+  corsHeaders: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================
+// TYPES
+// ============================================
+type OtpAction = "send" | "verify";
+
+interface StudentEmailOtpPayload {
+  action: OtpAction;
+  verificationId: string;
+  email?: string;
+  code?: string;
+}
+
+// ============================================
+// INPUT VALIDATION
+// ============================================
+function isValidUUID(str: string): boolean {
+  const uuidRegex =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function generateCode(): string {
+  const digits = crypto.getRandomValues(new Uint32Array(EDU_EMAIL_CODE_LENGTH));
+  return Array.from(digits, (n) => (n % 10).toString()).join("");
+}
+
+/** SHA-256 of the code, salted with the verification it belongs to */
+async function hashCode(verificationId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${verificationId}:${code}`),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: BUSINESS_TIMEZONE,
+    timeZoneName: "short",
+  });
+}
+
+// ============================================
+// MAIN HANDLER
+// ============================================
+Deno.serve(async (req: Request) => {
+  const corsHeaders = getCorsHeaders(req);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Only allow POST
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, corsHeaders, 405);
+  }
+
+  try {
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ============================================
+    // 1. AUTHENTICATION
+    // ============================================
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return jsonResponse(
+        { error: "Authentication required" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse(
+        { error: "Invalid or expired session" },
+        corsHeaders,
+        401,
+      );
+    }
+
+    // ============================================
+    // 2. RATE LIMITING
+    // ============================================
+    const rateLimitResult = await checkRateLimit("STUDENT_EMAIL_OTP", user.id);
+    if (!rateLimitResult.success) {
+      return rateLimitResponse(
+        rateLimitResult,
+        corsHeaders,
+        "Too many verification requests. Please try again later.",
+      );
+    }
+
+    // ============================================
+    // 3. PARSE & VALIDATE REQUEST
+    // ============================================
+    let payload: StudentEmailOtpPayload;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid request body" }, corsHeaders, 400);
+    }
+
+    const { action, verificationId } = payload;
+
+    if (action !== "send" && action !== "verify") {
+      return jsonResponse({ error: "Invalid action" }, corsHeaders, 400);
+    }
+
+    if (!verificationId || !isValidUUID(verificationId)) {
+      return jsonResponse(
+        { error: "Invalid verification ID" },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 4. FETCH VERIFICATION (must be the caller's)
+    // ============================================
+    const { data: verification, error: verificationError } = await supabase
+      .from("student_verifications")
+      .select("id, user_id, status, edu_email, edu_email_verified_at")
+      .eq("id", verificationId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (verificationError || !verification) {
+      return jsonResponse(
+        { error: "Student ID not found" },
+        corsHeaders,
+        404,
+      );
+    }
+
+    if (verification.status === "rejected") {
+      return jsonResponse(
+        {
+          error: "This student ID was not accepted. Please upload a new one.",
+          code: "VERIFICATION_REJECTED",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    // ============================================
+    // 5a. SEND CODE
+    // ============================================
+    if (action === "send") {
+      const email = (payload.email || "").trim().toLowerCase();
+
+      if (!isEduEmail(email)) {
+        return jsonResponse(
+          {
+            error: "Please enter your school email address (ending in .edu).",
+            code: "INVALID_EMAIL",
+          },
+          corsHeaders,
+          400,
+        );
+      }
+
+      const code = generateCode();
+      const expiresAt = new Date(
+        Date.now() + EDU_EMAIL_CODE_TTL_MINUTES * 60 * 1000,
+      ).toISOString();
+
+      // Only the newest code is valid
+      await supabase
+        .from("student_email_otps")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("verification_id", verificationId)
+        .is("consumed_at", null);
+
+      const { error: insertError } = await supabase
+        .from("student_email_otps")
+        .insert({
+          verification_id: verificationId,
+          email,
+          code_hash: await hashCode(verificationId, code),
+          expires_at: expiresAt,
+        });
+
+      if (insertError) {
+        console.error("[student-email-otp] Failed to store code:", insertError);
+        return jsonResponse(
+          { error: "Unable to send a code right now. Please try again." },
+          corsHeaders,
+          500,
+        );
+      }
+
+      try {
+        await sendTemplateEmail({
+          to: email,
+          subject: "Your 4A Rentals student verification code",
+          template: "student_email_code",
+          data: {
+            customerName:
+              (user.user_metadata?.first_name as string | undefined) ||
+              "there",
+            customMessage: code,
+            replyDeadline: formatDateTime(expiresAt),
+          },
+        });
+      } catch (emailError) {
+        console.error("[student-email-otp] Failed to send code:", emailError);
+        return jsonResponse(
+          { error: "Unable to send a code right now. Please try again." },
+          corsHeaders,
+          502,
+        );
+      }
+
+      return jsonResponse(
+        { sent: true, email, expiresAt },
+        { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    // ============================================
+    // 5b. VERIFY CODE
+    // ============================================
+    const code = (payload.code || "").trim();
+
+    const { data: otp } = await supabase
+      .from("student_email_otps")
+      .select("id, email, code_hash, expires_at, attempts")
+      .eq("verification_id", verificationId)
+      .is("consumed_at", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!otp || new Date(otp.expires_at).getTime() <= Date.now()) {
+      return jsonResponse(
+        {
+          error: "This code has expired. Please request a new one.",
+          code: "CODE_EXPIRED",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if (otp.attempts >= EDU_EMAIL_MAX_ATTEMPTS) {
+      return jsonResponse(
+        {
+          error: "Too many incorrect codes. Please request a new one.",
+          code: "TOO_MANY_ATTEMPTS",
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    if ((await hashCode(verificationId, code)) !== otp.code_hash) {
+      await supabase
+        .from("student_email_otps")
+        .update({ attempts: otp.attempts + 1 })
+        .eq("id", otp.id);
+
+      return jsonResponse(
+        {
+          error: "That code isn't right. Please check the email and try again.",
+          code: "CODE_INVALID",
+          attemptsLeft: Math.max(EDU_EMAIL_MAX_ATTEMPTS - otp.attempts - 1, 0),
+        },
+        corsHeaders,
+        400,
+      );
+    }
+
+    const verifiedAt = new Date().toISOString();
+
+    await supabase
+      .from("student_email_otps")
+      .update({ consumed_at: verifiedAt })
+      .eq("id", otp.id);
+
+    const { error: updateError } = await supabase
+      .from("student_verifications")
+      .update({ edu_email: otp.email, edu_email_verified_at: verifiedAt })
+      .eq("id", verificationId);
+
+    if (updateError) {
+      console.error("[student-email-otp] Failed to verify email:", updateError);
+      return jsonResponse(
+        { error: "Unable to verify your email right now. Please try again." },
+        corsHeaders,
+        500,
+      );
+    }
+
+    console.log("✅ [student-email-otp] School email verified:", {
+      verificationId,
+      userId: user.id,
+    });
+
+    return jsonResponse(
+      { verified: true, email: otp.email, verifiedAt },
+      { ...corsHeaders, ...rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error("[student-email-otp] Unexpected error:", error);
+    return jsonResponse(
+      { error: "An unexpected error occurred. Please try again." },
+      corsHeaders,
+      500,
+    );
+  }
+});
@@ -0,0 +1,313 @@
+/*
+  # Vehicle reviews: verified authorship, moderation and rating aggregates
+
+  1. reviews table
+    - Adds `reservation_id` (FK to bookings) linking each review to the rental it covers
+    - Adds `moderation_status` ('pending' | 'approved' | 'rejected'), `moderation_note`,
+      `moderated_at`, `moderated_by` and `edited_at`
+    - Unique index on `reservation_id`: one review per booking
+
+  2. Write validation (trigger `validate_review_write`)
+    - Customers may only review a vehicle they rented on a `completed` booking they own
+    - Customer edits are limited to rating/comment/reviewer_name, only within
+      `review_edit_window_days` of creation, and send the review back to `pending`
+    - Staff may change moderation fields at any time
+
+  3. Rating aggregates
+    - `update_vehicle_rating()` recomputes `vehicles.average_rating` / `review_count`
+      from APPROVED reviews only, on insert, update and delete
+
+  4. Cache invalidation
+    - Review writes call `invalidate_cache('reviews')`, which clears the
+      `vehicles:reviews:*` and `vehicles:review-stats:*` keys in cached-data
+
+  5. RLS
+    - Public can read approved reviews; authors can read their own
+    - Authenticated users can insert/update their own reviews (trigger enforces rules)
+    - Staff can read and moderate all reviews
+
+  6. Important Notes
+    - Existing reviews are marked `approved` so current ratings keep showing
+    - New config key `review_edit_window_days` (default 14)
+*/
+
+-- ===========================================
+-- 1. Columns and indexes
+-- ===========================================
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS reservation_id uuid REFERENCES public.bookings (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderation_status text NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS moderation_note text,
+  ADD COLUMN IF NOT EXISTS moderated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS moderated_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+ALTER TABLE public.reviews
+  DROP CONSTRAINT IF EXISTS reviews_moderation_status_check;
+ALTER TABLE public.reviews
+  ADD CONSTRAINT reviews_moderation_status_check
+  CHECK (moderation_status IN ('pending', 'approved', 'rejected'));
+
+ALTER TABLE public.reviews
+  DROP CONSTRAINT IF EXISTS reviews_rating_range_check;
+ALTER TABLE public.reviews
+  ADD CONSTRAINT reviews_rating_range_check
+  CHECK (rating BETWEEN 1 AND 5);
+
+-- Keep existing reviews visible
+UPDATE public.reviews
+  SET moderation_status = 'approved'
+  WHERE moderation_status = 'pending' AND moderated_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_reservation_id_unique
+  ON public.reviews (reservation_id)
+  WHERE reservation_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_vehicle_status
+  ON public.reviews (vehicle_id, moderation_status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_user_id
+  ON public.reviews (user_id);
+
+-- ===========================================
+-- 2. Config: edit window
+-- ===========================================
+
+INSERT INTO public.system_config (
+  key, value, data_type, category, label, description, unit,
+  min_value, max_value, is_visible, is_editable, sort_order
+)
+VALUES (
+  'review_edit_window_days', '14', 'integer', 'system',
+  'Review Edit Window',
+  'Days after posting during which a customer may edit their review',
+  'days', 0, 365, true, true, 100
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ===========================================
+-- 3. Write validation
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.validate_review_write()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_uid uuid := (select auth.uid());
+  v_is_staff boolean := false;
+  v_edit_window integer;
+BEGIN
+  -- Service role (edge functions, admin tooling) bypasses customer rules
+  IF v_uid IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_is_staff := COALESCE(public.is_staff_member(), false);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.user_id IS DISTINCT FROM v_uid THEN
+      RAISE EXCEPTION 'You can only write reviews as yourself';
+    END IF;
+
+    IF NEW.reservation_id IS NULL THEN
+      RAISE EXCEPTION 'A completed booking is required to review this vehicle';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = NEW.reservation_id
+        AND b.user_id = v_uid
+        AND b.vehicle_id = NEW.vehicle_id
+        AND b.status = 'completed'
+    ) THEN
+      RAISE EXCEPTION 'A completed booking is required to review this vehicle';
+    END IF;
+
+    NEW.is_verified := true;
+    NEW.moderation_status := 'pending';
+    NEW.moderation_note := NULL;
+    NEW.moderated_at := NULL;
+    NEW.moderated_by := NULL;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- UPDATE
+  IF v_is_staff THEN
+    IF NEW.moderation_status IS DISTINCT FROM OLD.moderation_status THEN
+      NEW.moderated_at := now();
+      NEW.moderated_by := v_uid;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.user_id IS DISTINCT FROM v_uid THEN
+    RAISE EXCEPTION 'You can only edit your own reviews';
+  END IF;
+
+  IF NEW.vehicle_id IS DISTINCT FROM OLD.vehicle_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.reservation_id IS DISTINCT FROM OLD.reservation_id
+    OR NEW.is_verified IS DISTINCT FROM OLD.is_verified THEN
+    RAISE EXCEPTION 'Only the rating and comment of a review can be changed';
+  END IF;
+
+  v_edit_window := COALESCE(public.get_config_int('review_edit_window_days'), 14);
+
+  IF now() > OLD.created_at + make_interval(days => v_edit_window) THEN
+    RAISE EXCEPTION 'The edit window for this review has closed';
+  END IF;
+
+  -- Edited content goes back through moderation
+  NEW.moderation_status := 'pending';
+  NEW.moderation_note := NULL;
+  NEW.moderated_at := NULL;
+  NEW.moderated_by := NULL;
+  NEW.edited_at := now();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_review_write ON public.reviews;
+CREATE TRIGGER trg_validate_review_write
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_review_write();
+
+-- ===========================================
+-- 4. Rating aggregates (approved reviews only)
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.update_vehicle_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_vehicle_ids uuid[];
+  v_vehicle_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_vehicle_ids := ARRAY[OLD.vehicle_id];
+  ELSIF TG_OP = 'UPDATE' AND NEW.vehicle_id IS DISTINCT FROM OLD.vehicle_id THEN
+    v_vehicle_ids := ARRAY[OLD.vehicle_id, NEW.vehicle_id];
+  ELSE
+    v_vehicle_ids := ARRAY[NEW.vehicle_id];
+  END IF;
+
+  FOREACH v_vehicle_id IN ARRAY v_vehicle_ids LOOP
+    UPDATE public.vehicles v
+    SET
+      average_rating = agg.average_rating,
+      review_count = agg.review_count
+    FROM (
+      SELECT
+        ROUND(AVG(r.rating)::numeric, 2) AS average_rating,
+        COUNT(*)::integer AS review_count
+      FROM public.reviews r
+      WHERE r.vehicle_id = v_vehicle_id
+        AND r.moderation_status = 'approved'
+    ) agg
+    WHERE v.id = v_vehicle_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_vehicle_rating_trigger ON public.reviews;
+DROP TRIGGER IF EXISTS trg_update_vehicle_rating ON public.reviews;
+CREATE TRIGGER trg_update_vehicle_rating
+  AFTER INSERT OR UPDATE OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_vehicle_rating();
+
+-- Backfill aggregates for all vehicles
+UPDATE public.vehicles v
+SET
+  average_rating = agg.average_rating,
+  review_count = COALESCE(agg.review_count, 0)
+FROM (
+  SELECT
+    vv.id AS vehicle_id,
+    ROUND(AVG(r.rating)::numeric, 2) AS average_rating,
+    COUNT(r.id)::integer AS review_count
+  FROM public.vehicles vv
+  LEFT JOIN public.reviews r
+    ON r.vehicle_id = vv.id AND r.moderation_status = 'approved'
+  GROUP BY vv.id
+) agg
+WHERE v.id = agg.vehicle_id;
+
+-- ===========================================
+-- 5. Cache invalidation
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.trigger_invalidate_reviews_cache()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.invalidate_cache('reviews');
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invalidate_reviews_cache ON public.reviews;
+CREATE TRIGGER trg_invalidate_reviews_cache
+  AFTER INSERT OR UPDATE OR DELETE ON public.reviews
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.trigger_invalidate_reviews_cache();
+
+-- ===========================================
+-- 6. RLS policies
+-- ===========================================
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view reviews" ON public.reviews;
+DROP POLICY IF EXISTS "Public can view approved reviews" ON public.reviews;
+CREATE POLICY "Public can view approved reviews"
+  ON public.reviews
+  FOR SELECT
+  TO anon, authenticated
+  USING (moderation_status = 'approved');
+
+DROP POLICY IF EXISTS "Users can view their own reviews" ON public.reviews;
+CREATE POLICY "Users can view their own reviews"
+  ON public.reviews
+  FOR SELECT
+  TO authenticated
+  USING ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own reviews" ON public.reviews;
+CREATE POLICY "Users can create their own reviews"
+  ON public.reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own reviews" ON public.reviews;
+CREATE POLICY "Users can update their own reviews"
+  ON public.reviews
+  FOR UPDATE
+  TO authenticated
+  USING ((select auth.uid()) = user_id)
+  WITH CHECK ((select auth.uid()) = user_id);
+
+DROP POLICY IF EXISTS "Staff can manage reviews" ON public.reviews;
+CREATE POLICY "Staff can manage reviews"
+  ON public.reviews
+  FOR ALL
+  TO authenticated
+  USING (public.is_staff_member() = true)
+  WITH CHECK (public.is_staff_member() = true);
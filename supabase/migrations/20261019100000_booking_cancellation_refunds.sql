@@ -0,0 +1,82 @@
+/*
+  # Booking cancellation refunds
+
+  1. booking_refunds table (new)
+    - One row per Stripe refund issued against a booking
+    - `refund_type` separates the rent portion ('rent') from the security deposit ('deposit')
+    - Stores the Stripe refund id, amount and the reason the refund was issued
+
+  2. bookings table
+    - Adds `rental_refund_amount`: rent refunded on cancellation (after the fee)
+    - The deposit refund keeps using `security_deposit_amount_returned`
+
+  3. RLS
+    - Customers can read refunds for their own bookings
+    - Staff can read all refunds
+    - Writes happen through the cancel-booking Edge Function (service role)
+
+  4. Important Notes
+    - Fee and cutoff come from `cancellation_fee` and `modification_cutoff_hours`
+    - The fee is only ever retained from the rent, never from the deposit
+*/
+
+-- ===========================================
+-- 1. Refund ledger
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.booking_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  refund_type text NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'usd',
+  reason text NOT NULL,
+  stripe_refund_id text UNIQUE,
+  stripe_payment_intent_id text,
+  status text NOT NULL DEFAULT 'pending',
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_refunds_type_check
+    CHECK (refund_type IN ('rent', 'deposit')),
+  CONSTRAINT booking_refunds_amount_check
+    CHECK (amount > 0),
+  CONSTRAINT booking_refunds_status_check
+    CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_refunds_booking_id
+  ON public.booking_refunds (booking_id);
+
+-- ===========================================
+-- 2. Booking columns
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS rental_refund_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 3. RLS policies
+-- ===========================================
+
+ALTER TABLE public.booking_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view refunds for their bookings" ON public.booking_refunds;
+CREATE POLICY "Users can view refunds for their bookings"
+  ON public.booking_refunds
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = booking_refunds.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all refunds" ON public.booking_refunds;
+CREATE POLICY "Staff can view all refunds"
+  ON public.booking_refunds
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
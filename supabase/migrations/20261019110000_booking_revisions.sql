@@ -0,0 +1,89 @@
+/*
+  # Booking modifications: revision history
+
+  1. booking_revisions table (new)
+    - One row per customer modification (dates, pickup type/location, drivers)
+    - `previous_values` / `new_values` hold full snapshots, including the rates and
+      `config_snapshot` the booking was priced with, so every change stays auditable
+    - `rent_difference` / `deposit_difference` record the re-priced delta
+      (positive = customer pays, negative = refunded)
+    - `status`: 'pending' (not yet applied, e.g. awaiting Stripe checkout), 'applied',
+      'expired' (checkout expired) or 'cancelled' (superseded / not applicable)
+
+  2. bookings table
+    - Adds `revision_count`
+
+  3. RLS
+    - Customers can read revisions of their own bookings
+    - Staff can read all revisions
+    - Writes happen through the modify-booking Edge Function and the Stripe webhook
+
+  4. Important Notes
+    - The booking's own `config_snapshot` is never rewritten by a modification
+    - Modifications are refused inside `modification_cutoff_hours` of pickup
+*/
+
+-- ===========================================
+-- 1. Revisions table
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.booking_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  previous_values jsonb NOT NULL,
+  new_values jsonb NOT NULL,
+  rent_difference numeric(10, 2) NOT NULL DEFAULT 0,
+  deposit_difference numeric(10, 2) NOT NULL DEFAULT 0,
+  stripe_session_id text,
+  stripe_payment_intent_id text,
+  changed_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  applied_at timestamptz,
+  CONSTRAINT booking_revisions_status_check
+    CHECK (status IN ('pending', 'applied', 'expired', 'cancelled')),
+  CONSTRAINT booking_revisions_number_unique
+    UNIQUE (booking_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_revisions_booking_id
+  ON public.booking_revisions (booking_id, revision_number DESC);
+
+CREATE INDEX IF NOT EXISTS idx_booking_revisions_stripe_session
+  ON public.booking_revisions (stripe_session_id)
+  WHERE stripe_session_id IS NOT NULL;
+
+-- ===========================================
+-- 2. Booking columns
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS revision_count integer NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 3. RLS policies
+-- ===========================================
+
+ALTER TABLE public.booking_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions of their bookings" ON public.booking_revisions;
+CREATE POLICY "Users can view revisions of their bookings"
+  ON public.booking_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = booking_revisions.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all revisions" ON public.booking_revisions;
+CREATE POLICY "Staff can view all revisions"
+  ON public.booking_revisions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
@@ -0,0 +1,74 @@
+/*
+  # Vehicle availability cache invalidation
+
+  1. Per-vehicle availability
+    - cached-data serves `GET /vehicles/:id/availability`, cached per vehicle
+      under `vehicles:availability:vehicle:<id>:*`
+    - Booking writes call `invalidate_cache('availability:<vehicle_id>')`, which
+      clears that vehicle's windows and the fleet date search only
+
+  2. Business calendar
+    - Calendar writes call `invalidate_cache('calendar')`, which clears the
+      calendar caches and every vehicle's availability
+
+  3. Important Notes
+    - Only rows whose vehicle, dates or status change trigger an invalidation
+    - A booking moved to another vehicle invalidates both vehicles
+    - Customers no longer read `bookings` for availability, so the existing
+      own-bookings RLS policies stay unchanged
+*/
+
+-- ===========================================
+-- 1. Booking writes
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.trigger_invalidate_vehicle_availability()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.vehicle_id IS NOT NULL THEN
+    PERFORM public.invalidate_cache('availability:' || NEW.vehicle_id::text);
+  END IF;
+
+  IF TG_OP = 'DELETE'
+     OR (TG_OP = 'UPDATE' AND OLD.vehicle_id IS DISTINCT FROM NEW.vehicle_id) THEN
+    IF OLD.vehicle_id IS NOT NULL THEN
+      PERFORM public.invalidate_cache('availability:' || OLD.vehicle_id::text);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invalidate_vehicle_availability ON public.bookings;
+CREATE TRIGGER trg_invalidate_vehicle_availability
+  AFTER INSERT OR DELETE OR UPDATE OF vehicle_id, pickup_date, return_date, status
+  ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_invalidate_vehicle_availability();
+
+-- ===========================================
+-- 2. Business calendar writes
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.trigger_invalidate_calendar_cache()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.invalidate_cache('calendar');
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invalidate_calendar_cache ON public.business_calendar;
+CREATE TRIGGER trg_invalidate_calendar_cache
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_calendar
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.trigger_invalidate_calendar_cache();
@@ -0,0 +1,141 @@
+/*
+  # Vehicle checkout holds
+
+  1. vehicle_holds table (new)
+    - A short-lived claim on a vehicle's dates while the customer is in Stripe checkout
+    - `status`: 'active', 'converted' (payment completed, the booking took over)
+      or 'released' (checkout expired or failed)
+    - `expires_at` matches the Stripe session's `expires_at`; an active hold past
+      it no longer blocks anything, even if the expiry webhook never arrived
+
+  2. create_vehicle_hold()
+    - Takes a per-vehicle advisory lock, checks overlapping bookings and live holds,
+      then inserts the hold - all in one transaction, so two concurrent checkouts
+      cannot both claim the same dates
+    - Returns the hold id, or NULL when the dates are taken
+    - Service role only (called by create-checkout-session)
+
+  3. Cache invalidation
+    - Hold writes reuse `trigger_invalidate_vehicle_availability()`, so a new or
+      released hold clears that vehicle's cached availability
+
+  4. RLS
+    - Staff can read holds; customers never see them (availability only exposes dates)
+*/
+
+-- ===========================================
+-- 1. Holds table
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.vehicle_holds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id uuid NOT NULL REFERENCES public.vehicles (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  booking_id uuid REFERENCES public.bookings (id) ON DELETE SET NULL,
+  stripe_session_id text,
+  pickup_date timestamptz NOT NULL,
+  return_date timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  converted_at timestamptz,
+  released_at timestamptz,
+  CONSTRAINT vehicle_holds_status_check
+    CHECK (status IN ('active', 'converted', 'released')),
+  CONSTRAINT vehicle_holds_dates_check
+    CHECK (return_date > pickup_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_holds_active
+  ON public.vehicle_holds (vehicle_id, expires_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_holds_booking_id
+  ON public.vehicle_holds (booking_id)
+  WHERE booking_id IS NOT NULL;
+
+-- ===========================================
+-- 2. Atomic hold creation
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.create_vehicle_hold(
+  p_vehicle_id uuid,
+  p_user_id uuid,
+  p_pickup_date timestamptz,
+  p_return_date timestamptz,
+  p_expires_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_hold_id uuid;
+BEGIN
+  -- Serialise checkouts per vehicle; released at the end of the transaction
+  PERFORM pg_advisory_xact_lock(hashtext('vehicle_hold:' || p_vehicle_id::text));
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.vehicle_id = p_vehicle_id
+      AND b.status IN ('pending', 'confirmed', 'active')
+      AND b.pickup_date <= p_return_date
+      AND b.return_date >= p_pickup_date
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.vehicle_holds h
+    WHERE h.vehicle_id = p_vehicle_id
+      AND h.status = 'active'
+      AND h.expires_at > now()
+      AND h.pickup_date <= p_return_date
+      AND h.return_date >= p_pickup_date
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.vehicle_holds (
+    vehicle_id, user_id, pickup_date, return_date, expires_at
+  )
+  VALUES (
+    p_vehicle_id, p_user_id, p_pickup_date, p_return_date, p_expires_at
+  )
+  RETURNING id INTO v_hold_id;
+
+  RETURN v_hold_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_vehicle_hold(uuid, uuid, timestamptz, timestamptz, timestamptz)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_vehicle_hold(uuid, uuid, timestamptz, timestamptz, timestamptz)
+  TO service_role;
+
+-- ===========================================
+-- 3. Cache invalidation
+-- ===========================================
+
+DROP TRIGGER IF EXISTS trg_invalidate_vehicle_availability ON public.vehicle_holds;
+CREATE TRIGGER trg_invalidate_vehicle_availability
+  AFTER INSERT OR DELETE OR UPDATE OF status, expires_at
+  ON public.vehicle_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_invalidate_vehicle_availability();
+
+-- ===========================================
+-- 4. RLS policies
+-- ===========================================
+
+ALTER TABLE public.vehicle_holds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view vehicle holds" ON public.vehicle_holds;
+CREATE POLICY "Staff can view vehicle holds"
+  ON public.vehicle_holds
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
@@ -0,0 +1,61 @@
+/*
+  # Configurable delivery time slots
+
+  1. Slot generation (Edge Functions, `_shared/deliverySlots.ts`)
+    - Slots start `delivery_first_slot_offset_hours` after opening and repeat every
+      `delivery_slot_interval_hours` until closing, using store-hours config or the
+      day's `business_calendar` open/close override
+    - `business_calendar.custom_delivery_slots` replaces generated slots for a day;
+      `delivery_available = false` or a closure removes them
+    - `bookings.delivery_time_slot` now stores the slot start as HH:MM
+
+  2. Capacity
+    - New config key `delivery_slot_capacity` (default 2): active deliveries per slot
+    - `delivery_locations.delivery_slot_capacity` overrides it per location
+
+  3. Per-location availability
+    - `delivery_locations.delivery_window_start` / `delivery_window_end` limit which
+      slots a location offers (NULL = whole day)
+
+  4. Important Notes
+    - Slots are re-validated by create-checkout-session and modify-booking
+    - Existing 'morning' / 'afternoon' / 'evening' values stay readable
+*/
+
+-- ===========================================
+-- 1. Columns
+-- ===========================================
+
+ALTER TABLE public.business_calendar
+  ADD COLUMN IF NOT EXISTS custom_delivery_slots text[];
+
+ALTER TABLE public.delivery_locations
+  ADD COLUMN IF NOT EXISTS delivery_window_start time,
+  ADD COLUMN IF NOT EXISTS delivery_window_end time,
+  ADD COLUMN IF NOT EXISTS delivery_slot_capacity integer;
+
+ALTER TABLE public.delivery_locations
+  DROP CONSTRAINT IF EXISTS delivery_locations_slot_capacity_check;
+ALTER TABLE public.delivery_locations
+  ADD CONSTRAINT delivery_locations_slot_capacity_check
+    CHECK (delivery_slot_capacity IS NULL OR delivery_slot_capacity > 0);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_delivery_slot
+  ON public.bookings (pickup_date, delivery_time_slot)
+  WHERE pickup_type = 'delivery';
+
+-- ===========================================
+-- 2. Config: slot capacity
+-- ===========================================
+
+INSERT INTO public.system_config (
+  key, value, data_type, category, label, description, unit,
+  min_value, max_value, is_visible, is_editable, sort_order
+)
+VALUES (
+  'delivery_slot_capacity', '2', 'integer', 'delivery',
+  'Deliveries per Time Slot',
+  'How many deliveries can be booked into the same delivery time slot',
+  'deliveries', 1, 20, true, true, 40
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,102 @@
+/*
+  # Early returns
+
+  1. early_return_requests table (new)
+    - One row per customer request to end an active rental before its return date
+    - Stores the quote: `original_days` / `actual_days`, `billed_days` (actual days,
+      at least `min_rental_days`), `original_amount` (rent paid), `used_amount` (the
+      shorter term re-priced with the booking's frozen rates), `early_return_fee`,
+      and the resulting `refund_amount` or `additional_charge`
+    - The quote is recalculated when staff confirm, so it reflects any extension
+    - `status`: 'requested' (waiting for staff), 'awaiting_payment' (return confirmed,
+      customer owes `additional_charge`), 'completed' or 'cancelled'
+    - `return_time` is the chosen delivery slot or store drop-off time (HH:MM)
+
+  2. Workflow (early-return Edge Function, stripe-webhook)
+    - Customers preview, request and cancel; staff confirm once the vehicle is back
+    - On confirmation the booking's `return_date`, `rental_days`, `rental_amount`
+      and `total_price` are updated, then the refund is issued (recorded in
+      `booking_refunds` with reason 'early_return') or a Stripe checkout is created
+      for the extra charge
+
+  3. RLS
+    - Customers can read requests for their own bookings; staff can read all
+    - Writes happen through the early-return Edge Function and the Stripe webhook
+
+  4. Important Notes
+    - At most one open ('requested' / 'awaiting_payment') request per booking
+    - Booking status changes (inspection, completed) stay with the return process
+*/
+
+-- ===========================================
+-- 1. Requests table
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.early_return_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'requested',
+  requested_return_date timestamptz NOT NULL,
+  return_time text,
+  original_return_date timestamptz NOT NULL,
+  original_days integer NOT NULL,
+  actual_days integer NOT NULL,
+  billed_days integer NOT NULL,
+  original_amount numeric(10, 2) NOT NULL,
+  used_amount numeric(10, 2) NOT NULL,
+  early_return_fee numeric(10, 2) NOT NULL DEFAULT 0,
+  refund_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  additional_charge numeric(10, 2) NOT NULL DEFAULT 0,
+  stripe_refund_id text,
+  stripe_session_id text,
+  stripe_checkout_url text,
+  stripe_payment_intent_id text,
+  confirmed_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  confirmed_at timestamptz,
+  completed_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT early_return_requests_status_check
+    CHECK (status IN ('requested', 'awaiting_payment', 'completed', 'cancelled')),
+  CONSTRAINT early_return_requests_amounts_check
+    CHECK (refund_amount >= 0 AND additional_charge >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_early_return_requests_booking_id
+  ON public.early_return_requests (booking_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_early_return_requests_one_open
+  ON public.early_return_requests (booking_id)
+  WHERE status IN ('requested', 'awaiting_payment');
+
+CREATE INDEX IF NOT EXISTS idx_early_return_requests_stripe_session
+  ON public.early_return_requests (stripe_session_id)
+  WHERE stripe_session_id IS NOT NULL;
+
+-- ===========================================
+-- 2. RLS policies
+-- ===========================================
+
+ALTER TABLE public.early_return_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view early returns of their bookings" ON public.early_return_requests;
+CREATE POLICY "Users can view early returns of their bookings"
+  ON public.early_return_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = early_return_requests.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all early returns" ON public.early_return_requests;
+CREATE POLICY "Staff can view all early returns"
+  ON public.early_return_requests
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
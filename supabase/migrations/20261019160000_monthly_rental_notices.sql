@@ -0,0 +1,108 @@
+/*
+  # Monthly rental notices
+
+  1. monthly_rental_notices table (new)
+    - One row per monthly booking and period end (`period_end` = the booking's
+      `return_date` when the notice was created), asking whether the customer is
+      continuing for another period or returning the vehicle
+    - Created `monthly_notice_days` before the period ends; the customer has
+      `monthly_notice_reply_days` to reply (`reply_deadline`, never after the period end)
+    - `response_token` is the secret in the email links; the customer portal reads it
+      through RLS and replies with the same token
+    - `status`:
+      - 'pending': notice sent (or queued when `notice_sent_at` is null), no reply yet
+      - 'continuing': renewal checkout issued (`checkout_url`), waiting for payment
+      - 'renewed': renewal paid, the booking was extended by `renewal_days`
+      - 'returning': the vehicle comes back on the period end
+      - 'fined': no reply and the booking could not be rolled over;
+        `fine_amount` (`monthly_no_notice_fine`) is due, settled against the deposit
+      - 'cancelled': the booking changed (extended, returned early, closed) before
+        the notice was resolved
+    - `response_source`: 'email' or 'portal' for customer replies, 'system' when the
+      scheduled job resolved a notice nobody answered
+
+  2. Workflow (process-monthly-notices, monthly-notice-response, stripe-webhook)
+    - process-monthly-notices creates and emails notices, then resolves expired ones:
+      rolled into a renewal when the booking is still extendable and the vehicle is
+      free, otherwise fined
+    - Renewals are `booking_extension` checkouts carrying `notice_id`; the webhook
+      extends the booking and marks the notice renewed
+
+  3. RLS
+    - Customers can read notices for their own bookings; staff can read all
+    - Writes happen through the Edge Functions above
+
+  4. Important Notes
+    - process-monthly-notices must be scheduled (e.g. hourly Supabase cron) with the
+      X-INTERNAL-API-KEY header
+    - A renewal left unpaid past the period end is handled as an overdue return
+*/
+
+-- ===========================================
+-- 1. Notices table
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.monthly_rental_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending',
+  period_end timestamptz NOT NULL,
+  reply_deadline timestamptz NOT NULL,
+  response_token uuid NOT NULL DEFAULT gen_random_uuid(),
+  response_source text,
+  responded_at timestamptz,
+  notice_sent_at timestamptz,
+  renewal_days integer,
+  renewal_amount numeric(10, 2),
+  stripe_session_id text,
+  checkout_url text,
+  fine_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT monthly_rental_notices_status_check
+    CHECK (status IN ('pending', 'continuing', 'renewed', 'returning', 'fined', 'cancelled')),
+  CONSTRAINT monthly_rental_notices_source_check
+    CHECK (response_source IS NULL OR response_source IN ('email', 'portal', 'system')),
+  CONSTRAINT monthly_rental_notices_fine_check
+    CHECK (fine_amount >= 0),
+  CONSTRAINT monthly_rental_notices_period_unique
+    UNIQUE (booking_id, period_end),
+  CONSTRAINT monthly_rental_notices_token_unique
+    UNIQUE (response_token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_monthly_rental_notices_pending
+  ON public.monthly_rental_notices (reply_deadline)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_monthly_rental_notices_stripe_session
+  ON public.monthly_rental_notices (stripe_session_id)
+  WHERE stripe_session_id IS NOT NULL;
+
+-- ===========================================
+-- 2. RLS policies
+-- ===========================================
+
+ALTER TABLE public.monthly_rental_notices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view notices of their bookings" ON public.monthly_rental_notices;
+CREATE POLICY "Users can view notices of their bookings"
+  ON public.monthly_rental_notices
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = monthly_rental_notices.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all monthly notices" ON public.monthly_rental_notices;
+CREATE POLICY "Staff can view all monthly notices"
+  ON public.monthly_rental_notices
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
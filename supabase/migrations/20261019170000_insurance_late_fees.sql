@@ -0,0 +1,104 @@
+/*
+  # Insurance deadline enforcement and late fees
+
+  1. booking_charges table (new)
+    - Ledger of fees charged against a booking after checkout, one row per charge
+    - `charge_type`: 'insurance_late_fee' for now
+    - `accrual_date`: the day a recurring fee is for; unique per booking and charge type,
+      so the scheduled job can re-run (or catch up after missed runs) without
+      double-charging
+    - `status`:
+      - 'outstanding': owed, not settled yet
+      - 'paid': paid by the customer
+      - 'deducted': settled against the security deposit
+      - 'waived': written off by staff
+
+  2. bookings columns
+    - `insurance_reminder_level`: last escalating reminder sent
+      (1 = due, 2 = deadline passed, 3+ = late fees accruing)
+    - `insurance_last_reminder_at`: when that reminder was sent
+
+  3. Workflow (process-insurance-deadlines)
+    - Active bookings without verified insurance get a deadline of
+      `insurance_deadline_hours` after pickup, then `insurance_grace_period_hours`
+      of grace; after that `insurance_late_fee_daily` accrues per started day
+    - Accrual pauses while an upload is under review and stops once it is verified
+    - Rules are shared with the customer portal (_shared/insuranceRules.ts)
+
+  4. RLS
+    - Customers can read charges on their own bookings; staff can read all
+    - Writes happen through the Edge Function (service role) and staff tooling
+
+  5. Important Notes
+    - process-insurance-deadlines must be scheduled (e.g. hourly Supabase cron) with
+      the X-INTERNAL-API-KEY header
+*/
+
+-- ===========================================
+-- 1. Charges ledger
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.booking_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  charge_type text NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  description text,
+  accrual_date date,
+  status text NOT NULL DEFAULT 'outstanding',
+  settled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_charges_type_check
+    CHECK (charge_type IN ('insurance_late_fee')),
+  CONSTRAINT booking_charges_status_check
+    CHECK (status IN ('outstanding', 'paid', 'deducted', 'waived')),
+  CONSTRAINT booking_charges_amount_check
+    CHECK (amount > 0),
+  -- One-off charges leave accrual_date null (nulls never conflict)
+  CONSTRAINT booking_charges_accrual_unique
+    UNIQUE (booking_id, charge_type, accrual_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_charges_outstanding
+  ON public.booking_charges (booking_id)
+  WHERE status = 'outstanding';
+
+-- ===========================================
+-- 2. Reminder tracking on bookings
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS insurance_reminder_level smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS insurance_last_reminder_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_insurance_unverified_active
+  ON public.bookings (pickup_date)
+  WHERE status = 'active' AND insurance_verified = false;
+
+-- ===========================================
+-- 3. RLS policies
+-- ===========================================
+
+ALTER TABLE public.booking_charges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view charges on their bookings" ON public.booking_charges;
+CREATE POLICY "Users can view charges on their bookings"
+  ON public.booking_charges
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = booking_charges.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all booking charges" ON public.booking_charges;
+CREATE POLICY "Staff can view all booking charges"
+  ON public.booking_charges
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
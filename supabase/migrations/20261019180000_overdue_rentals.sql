@@ -0,0 +1,76 @@
+/*
+  # Overdue rentals
+
+  1. bookings columns
+    - `is_overdue`: the vehicle is still out after `return_date` (no `actual_return_date`);
+      set and cleared by process-overdue-rentals
+    - `overdue_since`: the return date the booking went overdue on
+    - `overdue_reminder_level`: reminders sent so far for the current overdue period
+    - `overdue_last_reminder_at`: when the last one was sent
+    - `overdue_escalated_at`: when the booking was escalated to staff
+      (`overdue_escalation_days` after the return date)
+    - `scheduled_return_at`: when the customer says they'll bring the vehicle back
+      (schedule-return); overdue charges continue until the actual return
+
+  2. booking_charges
+    - New `charge_type` 'overdue_rental': one charge per started overdue day at the
+      booking's frozen `daily_rate`, keyed by `accrual_date`
+    - Extending an overdue rental covers those days with rent, so outstanding overdue
+      charges before the new return date are waived
+
+  3. system_config
+    - `overdue_reminder_days`: comma-separated days after the return date on which
+      reminders go out (default '0,1,3')
+
+  4. Important Notes
+    - process-overdue-rentals must be scheduled (e.g. hourly Supabase cron) with the
+      X-INTERNAL-API-KEY header
+    - Overdue rentals can be extended past the usual extension cutoff
+*/
+
+-- ===========================================
+-- 1. Overdue tracking on bookings
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS is_overdue boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS overdue_since timestamptz,
+  ADD COLUMN IF NOT EXISTS overdue_reminder_level smallint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overdue_last_reminder_at timestamptz,
+  ADD COLUMN IF NOT EXISTS overdue_escalated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS scheduled_return_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_active_return_date
+  ON public.bookings (return_date)
+  WHERE status = 'active' AND actual_return_date IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_is_overdue
+  ON public.bookings (overdue_since)
+  WHERE is_overdue = true;
+
+-- ===========================================
+-- 2. Overdue charges
+-- ===========================================
+
+ALTER TABLE public.booking_charges
+  DROP CONSTRAINT IF EXISTS booking_charges_type_check;
+
+ALTER TABLE public.booking_charges
+  ADD CONSTRAINT booking_charges_type_check
+    CHECK (charge_type IN ('insurance_late_fee', 'overdue_rental'));
+
+-- ===========================================
+-- 3. Reminder schedule config
+-- ===========================================
+
+INSERT INTO public.system_config (
+  key, value, data_type, category, label, description, unit,
+  min_value, max_value, is_visible, is_editable, sort_order
+)
+VALUES (
+  'overdue_reminder_days', '0,1,3', 'string', 'overdue',
+  'Overdue Reminder Days',
+  'Days after the return date on which overdue reminders are emailed (comma-separated)',
+  'days', NULL, NULL, true, true, 20
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,52 @@
+/*
+  # Booking no-shows
+
+  1. bookings status
+    - New `status` 'no_show': a confirmed booking the customer never picked up
+    - Availability only counts 'pending', 'confirmed' and 'active' bookings, so a
+      no-show frees its dates (the availability cache trigger fires on status)
+
+  2. bookings columns
+    - `no_show_at`: when the booking was closed as a no-show
+    - `no_show_by`: the worker who marked it (NULL for the scheduled sweep)
+    - `no_show_reason`: worker note, or why the sweep closed it
+    - `no_show_fee_applied`: `no_show_fee` kept from the rent
+    - The refunded rent and deposit reuse `rental_refund_amount` and
+      `security_deposit_amount_returned`; refunds are recorded in booking_refunds
+      with reason 'no_show'
+
+  3. Important Notes
+    - process-no-shows must be scheduled (e.g. every 15 minutes Supabase cron) with
+      the X-INTERNAL-API-KEY header
+    - Store pickups become no-shows at store closing time on the pickup day;
+      deliveries after the slot plus `delivery_wait_minutes`
+    - Workers can close a booking early through mark-no-show
+*/
+
+-- ===========================================
+-- 1. Booking status
+-- ===========================================
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_status_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+    CHECK (status IN (
+      'pending', 'confirmed', 'active', 'inspection', 'completed', 'cancelled',
+      'no_show'
+    ));
+
+-- ===========================================
+-- 2. No-show details
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS no_show_at timestamptz,
+  ADD COLUMN IF NOT EXISTS no_show_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS no_show_reason text,
+  ADD COLUMN IF NOT EXISTS no_show_fee_applied numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_confirmed_pickup_date
+  ON public.bookings (pickup_date)
+  WHERE status = 'confirmed';
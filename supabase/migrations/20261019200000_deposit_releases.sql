@@ -0,0 +1,180 @@
+/*
+  # Security deposit releases and deduction statement
+
+  1. booking_deposit_deductions table (new)
+    - Itemized deductions from a booking's security deposit, one row per item
+    - `category`: 'damage', 'cleaning', 'fuel', 'late_fee', 'overdue',
+      'monthly_fine' or 'other'
+    - `photo_paths`: evidence photos in the 'deposit-deductions' bucket
+      (`<booking_id>/<file>`)
+    - `source_type` / `source_id`: the booking_charges row or
+      monthly_rental_notices fine the item settles (NULL for staff-entered items);
+      unique, so the release job never deducts the same charge twice
+    - A trigger keeps `bookings.security_deposit_deduction` and
+      `bookings.deduction_reason` in sync with the items
+
+  2. bookings columns
+    - `deposit_hold`: staff pause on the automatic release (e.g. a damage claim
+      under review)
+
+  3. Workflow (process-deposit-releases)
+    - Completed rentals release the deposit `deposit_release_business_days` business
+      days after the return, skipping closed business_calendar days
+    - On the release date, outstanding booking_charges and monthly notice fines are
+      deducted, the rest is refunded through Stripe and recorded in booking_refunds
+      with reason 'deposit_release'
+    - Rules are shared with the customer portal (_shared/depositRules.ts)
+
+  4. RLS
+    - Customers can read deductions (and their photos) on their own bookings
+    - Staff can read and add deductions and manage the photos
+
+  5. Important Notes
+    - process-deposit-releases must be scheduled (e.g. daily Supabase cron) with
+      the X-INTERNAL-API-KEY header
+    - Bookings paid outside Stripe are left for staff to settle by hand
+*/
+
+-- ===========================================
+-- 1. Deduction items
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.booking_deposit_deductions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES public.bookings (id) ON DELETE CASCADE,
+  category text NOT NULL DEFAULT 'other',
+  description text NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  photo_paths text[] NOT NULL DEFAULT '{}',
+  source_type text,
+  source_id uuid,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT booking_deposit_deductions_category_check
+    CHECK (category IN (
+      'damage', 'cleaning', 'fuel', 'late_fee', 'overdue', 'monthly_fine', 'other'
+    )),
+  CONSTRAINT booking_deposit_deductions_amount_check
+    CHECK (amount > 0),
+  CONSTRAINT booking_deposit_deductions_source_check
+    CHECK (source_type IS NULL OR source_type IN ('booking_charge', 'monthly_notice')),
+  -- Staff-entered items leave the source null (nulls never conflict)
+  CONSTRAINT booking_deposit_deductions_source_unique
+    UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_deposit_deductions_booking_id
+  ON public.booking_deposit_deductions (booking_id);
+
+-- ===========================================
+-- 2. Keep the booking totals in sync
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.sync_booking_deposit_deduction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_booking uuid := COALESCE(NEW.booking_id, OLD.booking_id);
+BEGIN
+  UPDATE public.bookings b
+  SET
+    security_deposit_deduction = totals.amount,
+    deduction_reason = totals.reasons
+  FROM (
+    SELECT
+      COALESCE(SUM(d.amount), 0) AS amount,
+      string_agg(d.description, '; ' ORDER BY d.created_at) AS reasons
+    FROM public.booking_deposit_deductions d
+    WHERE d.booking_id = target_booking
+  ) totals
+  WHERE b.id = target_booking;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_booking_deposit_deduction
+  ON public.booking_deposit_deductions;
+CREATE TRIGGER trg_sync_booking_deposit_deduction
+  AFTER INSERT OR UPDATE OR DELETE ON public.booking_deposit_deductions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_booking_deposit_deduction();
+
+-- ===========================================
+-- 3. Release hold on bookings
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS deposit_hold boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_deposit_unreleased
+  ON public.bookings (return_date)
+  WHERE status = 'completed' AND security_deposit_returned = false;
+
+-- ===========================================
+-- 4. RLS policies
+-- ===========================================
+
+ALTER TABLE public.booking_deposit_deductions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view deductions on their bookings" ON public.booking_deposit_deductions;
+CREATE POLICY "Users can view deductions on their bookings"
+  ON public.booking_deposit_deductions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id = booking_deposit_deductions.booking_id
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view all deposit deductions" ON public.booking_deposit_deductions;
+CREATE POLICY "Staff can view all deposit deductions"
+  ON public.booking_deposit_deductions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can add deposit deductions" ON public.booking_deposit_deductions;
+CREATE POLICY "Staff can add deposit deductions"
+  ON public.booking_deposit_deductions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_staff_member() = true);
+
+-- ===========================================
+-- 5. Deduction photos (private bucket)
+-- ===========================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('deposit-deductions', 'deposit-deductions', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can view deduction photos for their bookings" ON storage.objects;
+CREATE POLICY "Users can view deduction photos for their bookings"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'deposit-deductions'
+    AND EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.id::text = (storage.foldername(name))[1]
+        AND b.user_id = (select auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can manage deduction photos" ON storage.objects;
+CREATE POLICY "Staff can manage deduction photos"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id = 'deposit-deductions' AND public.is_staff_member() = true)
+  WITH CHECK (bucket_id = 'deposit-deductions' AND public.is_staff_member() = true);
@@ -0,0 +1,191 @@
+/*
+  # Student ID verification pipeline
+
+  1. student_verifications table (new)
+    - One row per student ID a customer uploads, reusable across bookings
+    - `document_path`: the ID in the private 'student-ids' bucket
+      (`<user_id>/<file>`)
+    - `expires_on`: card expiry / end of term; student pricing only applies to
+      rentals that end on or before it
+    - `edu_email` / `edu_email_verified_at`: optional school address confirmed
+      by a one-time code (student-email-otp)
+    - `status`: 'pending', 'approved' or 'rejected' (staff review through
+      review-student-id)
+
+  2. student_email_otps table (new)
+    - Hashed one-time codes for .edu email verification; only the Edge Function
+      (service role) reads or writes them
+
+  3. bookings columns
+    - `student_verification_id`: the ID backing a student-priced booking
+    - `student_rejected_at` / `student_rejection_reason`: set when staff reject
+      the ID and the booking is re-priced at standard rates
+
+  4. booking_charges
+    - New charge type 'student_price_adjustment' (standard minus student price)
+    - `stripe_session_id` / `checkout_url`: pay link for the charge; unpaid
+      adjustments are deducted from the deposit by process-deposit-releases
+
+  5. RLS
+    - Customers can read their own verifications and submit new (pending) ones
+    - Customers can upload and read their own IDs; staff can read all of them
+    - Staff can read and review all verifications
+
+  6. Important Notes
+    - Existing student bookings keep their `student_id_url` and are reviewed at
+      pickup as before
+*/
+
+-- ===========================================
+-- 1. Student verifications
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.student_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  document_path text NOT NULL,
+  school_name text,
+  expires_on date NOT NULL,
+  edu_email text,
+  edu_email_verified_at timestamptz,
+  status text NOT NULL DEFAULT 'pending',
+  reviewed_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  rejection_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT student_verifications_status_check
+    CHECK (status IN ('pending', 'approved', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_verifications_user_id
+  ON public.student_verifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_student_verifications_pending
+  ON public.student_verifications (created_at)
+  WHERE status = 'pending';
+
+-- ===========================================
+-- 2. .edu email codes
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.student_email_otps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  verification_id uuid NOT NULL
+    REFERENCES public.student_verifications (id) ON DELETE CASCADE,
+  email text NOT NULL,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts smallint NOT NULL DEFAULT 0,
+  consumed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_email_otps_verification_id
+  ON public.student_email_otps (verification_id, created_at DESC);
+
+-- ===========================================
+-- 3. Booking columns
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS student_verification_id uuid
+    REFERENCES public.student_verifications (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS student_rejected_at timestamptz,
+  ADD COLUMN IF NOT EXISTS student_rejection_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_student_verification_id
+  ON public.bookings (student_verification_id)
+  WHERE student_verification_id IS NOT NULL;
+
+-- ===========================================
+-- 4. Price adjustment charges
+-- ===========================================
+
+ALTER TABLE public.booking_charges
+  DROP CONSTRAINT IF EXISTS booking_charges_type_check;
+
+ALTER TABLE public.booking_charges
+  ADD CONSTRAINT booking_charges_type_check
+    CHECK (charge_type IN (
+      'insurance_late_fee', 'overdue_rental', 'student_price_adjustment'
+    ));
+
+ALTER TABLE public.booking_charges
+  ADD COLUMN IF NOT EXISTS stripe_session_id text,
+  ADD COLUMN IF NOT EXISTS checkout_url text;
+
+-- ===========================================
+-- 5. RLS policies
+-- ===========================================
+
+ALTER TABLE public.student_verifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_email_otps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their student verifications" ON public.student_verifications;
+CREATE POLICY "Users can view their student verifications"
+  ON public.student_verifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Users can submit student verifications" ON public.student_verifications;
+CREATE POLICY "Users can submit student verifications"
+  ON public.student_verifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND status = 'pending'
+    AND edu_email_verified_at IS NULL
+    AND reviewed_by IS NULL
+  );
+
+DROP POLICY IF EXISTS "Staff can view all student verifications" ON public.student_verifications;
+CREATE POLICY "Staff can view all student verifications"
+  ON public.student_verifications
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can review student verifications" ON public.student_verifications;
+CREATE POLICY "Staff can review student verifications"
+  ON public.student_verifications
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_staff_member() = true)
+  WITH CHECK (public.is_staff_member() = true);
+
+-- ===========================================
+-- 6. Student ID documents (private bucket)
+-- ===========================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('student-ids', 'student-ids', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload their student IDs" ON storage.objects;
+CREATE POLICY "Users can upload their student IDs"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'student-ids'
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+DROP POLICY IF EXISTS "Users can view their student IDs" ON storage.objects;
+CREATE POLICY "Users can view their student IDs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'student-ids'
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+DROP POLICY IF EXISTS "Staff can view student IDs" ON storage.objects;
+CREATE POLICY "Staff can view student IDs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'student-ids' AND public.is_staff_member() = true);
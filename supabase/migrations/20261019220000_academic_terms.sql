@@ -0,0 +1,218 @@
+/*
+  # Semester rentals on an academic-term calendar
+
+  1. academic_terms table (new)
+    - Admin-defined terms per school: `school_name`, `season` ('fall',
+      'spring' or 'summer'), `academic_year`, display `name`
+    - `start_date` / `end_date`: the fixed pickup and return days of a
+      semester rental
+    - `is_active`: hides a term from customers without deleting it
+
+  2. bookings column
+    - `academic_term_id`: the term a semester booking was made for; its dates
+      must match the term's start and end
+
+  3. Pricing (`calculate_term_price`)
+    - Wraps `calculate_booking_total` over the term's dates with student
+      pricing, and charges the vehicle's `semester_rate` for the whole term
+      when one is set
+    - Returns the same columns plus `academic_term_id`, `term_name` and
+      `semester_rate`; `rental_type` and `pricing_method` are 'semester'
+
+  4. Cache invalidation
+    - Term writes call `invalidate_cache('terms')`, which clears the
+      `terms:*` keys in cached-data
+
+  5. RLS
+    - Public can read active terms
+    - Staff can read and manage all terms
+*/
+
+-- ===========================================
+-- 1. Academic terms
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.academic_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  school_name text NOT NULL,
+  season text NOT NULL,
+  academic_year integer NOT NULL,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT academic_terms_season_check
+    CHECK (season IN ('fall', 'spring', 'summer')),
+  CONSTRAINT academic_terms_dates_check CHECK (end_date > start_date),
+  CONSTRAINT academic_terms_school_term_key
+    UNIQUE (school_name, season, academic_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_academic_terms_active_start
+  ON public.academic_terms (start_date)
+  WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_academic_terms_updated_at ON public.academic_terms;
+CREATE TRIGGER update_academic_terms_updated_at
+  BEFORE UPDATE ON public.academic_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- 2. Booking column
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS academic_term_id uuid
+    REFERENCES public.academic_terms (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_academic_term_id
+  ON public.bookings (academic_term_id)
+  WHERE academic_term_id IS NOT NULL;
+
+-- ===========================================
+-- 3. Term pricing
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.calculate_term_price(
+  p_vehicle_id uuid,
+  p_term_id uuid,
+  p_delivery_fee numeric DEFAULT 0,
+  p_additional_drivers integer DEFAULT 0
+)
+RETURNS TABLE (
+  rental_days integer,
+  rental_type text,
+  pricing_method text,
+  daily_rate numeric,
+  weekly_rate numeric,
+  monthly_rate numeric,
+  rental_amount numeric,
+  security_deposit numeric,
+  delivery_fee numeric,
+  additional_driver_fee numeric,
+  subtotal numeric,
+  total_due_now numeric,
+  academic_term_id uuid,
+  term_name text,
+  semester_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_term record;
+  v_semester_rate numeric;
+  v_base record;
+BEGIN
+  SELECT t.id, t.name, t.start_date, t.end_date
+  INTO v_term
+  FROM public.academic_terms t
+  WHERE t.id = p_term_id AND t.is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Academic term % not found', p_term_id;
+  END IF;
+
+  SELECT COALESCE(v.semester_rate, 0)
+  INTO v_semester_rate
+  FROM public.vehicles v
+  WHERE v.id = p_vehicle_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vehicle % not found', p_vehicle_id;
+  END IF;
+
+  SELECT *
+  INTO v_base
+  FROM public.calculate_booking_total(
+    p_vehicle_id,
+    v_term.start_date,
+    v_term.end_date,
+    true,
+    p_delivery_fee,
+    p_additional_drivers
+  )
+  LIMIT 1;
+
+  rental_days := v_base.rental_days;
+  rental_type := 'semester';
+  pricing_method := 'semester';
+  daily_rate := v_base.daily_rate;
+  weekly_rate := v_base.weekly_rate;
+  monthly_rate := v_base.monthly_rate;
+  -- One flat rate covers the whole term
+  rental_amount := CASE
+    WHEN v_semester_rate > 0 THEN v_semester_rate
+    ELSE v_base.rental_amount
+  END;
+  security_deposit := v_base.security_deposit;
+  delivery_fee := v_base.delivery_fee;
+  additional_driver_fee := v_base.additional_driver_fee;
+  subtotal := rental_amount + delivery_fee + additional_driver_fee;
+  total_due_now := subtotal + security_deposit;
+  academic_term_id := v_term.id;
+  term_name := v_term.name;
+  semester_rate := v_semester_rate;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_term_price(uuid, uuid, numeric, integer)
+  TO anon, authenticated;
+
+-- ===========================================
+-- 4. Cache invalidation
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.trigger_invalidate_terms_cache()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.invalidate_cache('terms');
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invalidate_terms_cache ON public.academic_terms;
+CREATE TRIGGER trg_invalidate_terms_cache
+  AFTER INSERT OR UPDATE OR DELETE ON public.academic_terms
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.trigger_invalidate_terms_cache();
+
+-- ===========================================
+-- 5. RLS policies
+-- ===========================================
+
+ALTER TABLE public.academic_terms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can view active academic terms" ON public.academic_terms;
+CREATE POLICY "Public can view active academic terms"
+  ON public.academic_terms
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+DROP POLICY IF EXISTS "Staff can view all academic terms" ON public.academic_terms;
+CREATE POLICY "Staff can view all academic terms"
+  ON public.academic_terms
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can manage academic terms" ON public.academic_terms;
+CREATE POLICY "Staff can manage academic terms"
+  ON public.academic_terms
+  FOR ALL
+  TO authenticated
+  USING (public.is_staff_member() = true)
+  WITH CHECK (public.is_staff_member() = true);
@@ -0,0 +1,59 @@
+/*
+  # Driver eligibility and young driver surcharge
+
+  1. Driver columns
+    - `primary_drivers.license_country` / `additional_drivers.license_country`:
+      ISO alpha-2 code of the issuing country ('OTHER' for unlisted ones);
+      existing drivers default to 'US'
+
+  2. bookings column
+    - `young_driver_fee`: flat surcharge for drivers under 25 on the pickup
+      date, summed over the booking's drivers and included in `total_price`
+
+  3. system_config
+    - `young_driver_fee_under_21`: surcharge per driver aged under 21
+    - `young_driver_fee_under_25`: surcharge per driver aged 21-24
+    - Both apply only while `young_driver_fee_enabled` is on; drivers under
+      `min_driver_age` and, with `us_license_only`, non-US licenses are
+      turned away by create-checkout-session and complete-pos-booking
+*/
+
+-- ===========================================
+-- 1. License country on drivers
+-- ===========================================
+
+ALTER TABLE public.primary_drivers
+  ADD COLUMN IF NOT EXISTS license_country text NOT NULL DEFAULT 'US';
+
+ALTER TABLE public.additional_drivers
+  ADD COLUMN IF NOT EXISTS license_country text NOT NULL DEFAULT 'US';
+
+-- ===========================================
+-- 2. Young driver surcharge on bookings
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS young_driver_fee numeric(10, 2) NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 3. Surcharge tiers config
+-- ===========================================
+
+INSERT INTO public.system_config (
+  key, value, data_type, category, label, description, unit,
+  min_value, max_value, is_visible, is_editable, sort_order
+)
+VALUES
+  (
+    'young_driver_fee_under_21', '100', 'decimal', 'drivers',
+    'Young Driver Fee (Under 21)',
+    'Flat surcharge per rental for each driver under 21 on the pickup date',
+    'USD', 0, 1000, true, true, 50
+  ),
+  (
+    'young_driver_fee_under_25', '50', 'decimal', 'drivers',
+    'Young Driver Fee (21-24)',
+    'Flat surcharge per rental for each driver aged 21 to 24 on the pickup date',
+    'USD', 0, 1000, true, true, 51
+  )
+ON CONFLICT (key) DO NOTHING;
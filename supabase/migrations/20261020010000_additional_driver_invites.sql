@@ -0,0 +1,75 @@
+/*
+  # Additional driver invites
+
+  1. additional_drivers columns
+    - `invite_status`: NULL for drivers the account holder typed in;
+      'pending' once invited by email, 'submitted' after the driver entered
+      their own details and accepted the rental terms
+    - `invite_token`: secret in the emailed /driver-invite link
+    - `invite_sent_at`: last time the invite email went out
+    - `invite_expires_at`: the link stops working at pickup
+    - `terms_accepted_at`: when the driver accepted the rental terms
+    - Details the invited driver fills in later are nullable until then
+
+  2. booking_charges
+    - New 'young_driver_fee' charge type: surcharge for an invited driver
+      under 25, collected at pickup or from the deposit
+    - `additional_driver_id`: the driver a charge is for, so a driver
+      correcting their date of birth replaces their surcharge
+*/
+
+-- ===========================================
+-- 1. Invite columns on additional drivers
+-- ===========================================
+
+ALTER TABLE public.additional_drivers
+  ADD COLUMN IF NOT EXISTS invite_status text,
+  ADD COLUMN IF NOT EXISTS invite_token uuid,
+  ADD COLUMN IF NOT EXISTS invite_sent_at timestamptz,
+  ADD COLUMN IF NOT EXISTS invite_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS terms_accepted_at timestamptz;
+
+ALTER TABLE public.additional_drivers
+  DROP CONSTRAINT IF EXISTS additional_drivers_invite_status_check;
+
+ALTER TABLE public.additional_drivers
+  ADD CONSTRAINT additional_drivers_invite_status_check
+    CHECK (invite_status IS NULL OR invite_status IN ('pending', 'submitted'));
+
+ALTER TABLE public.additional_drivers
+  DROP CONSTRAINT IF EXISTS additional_drivers_invite_token_unique;
+
+ALTER TABLE public.additional_drivers
+  ADD CONSTRAINT additional_drivers_invite_token_unique UNIQUE (invite_token);
+
+-- Invited drivers fill these in themselves
+ALTER TABLE public.additional_drivers
+  ALTER COLUMN phone DROP NOT NULL,
+  ALTER COLUMN drivers_license DROP NOT NULL,
+  ALTER COLUMN date_of_birth DROP NOT NULL,
+  ALTER COLUMN street_address DROP NOT NULL,
+  ALTER COLUMN city DROP NOT NULL,
+  ALTER COLUMN state DROP NOT NULL,
+  ALTER COLUMN zip_code DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_additional_drivers_pending_invites
+  ON public.additional_drivers (booking_id)
+  WHERE invite_status = 'pending';
+
+-- ===========================================
+-- 2. Young driver surcharge charges
+-- ===========================================
+
+ALTER TABLE public.booking_charges
+  DROP CONSTRAINT IF EXISTS booking_charges_type_check;
+
+ALTER TABLE public.booking_charges
+  ADD CONSTRAINT booking_charges_type_check
+    CHECK (charge_type IN (
+      'insurance_late_fee', 'overdue_rental', 'student_price_adjustment',
+      'young_driver_fee'
+    ));
+
+ALTER TABLE public.booking_charges
+  ADD COLUMN IF NOT EXISTS additional_driver_id uuid
+    REFERENCES public.additional_drivers (id) ON DELETE CASCADE;
@@ -0,0 +1,89 @@
+/*
+  # Saved drivers
+
+  1. saved_drivers table (new)
+    - Address book of drivers on a customer account: the renter themselves
+      (`is_primary`, at most one per account) and drivers they add often
+    - License number, issuing country and state, expiry and date of birth,
+      plus contact details and address for one-click autofill of the
+      booking driver forms
+    - One row per license number per account, so saving the same driver
+      again updates it
+
+  2. RLS
+    - Customers manage only their own saved drivers
+
+  3. Important Notes
+    - Booking drivers (primary_drivers / additional_drivers) are still copied
+      onto each booking; editing a saved driver doesn't change past bookings
+*/
+
+-- ===========================================
+-- 1. Saved drivers
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.saved_drivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  is_primary boolean NOT NULL DEFAULT false,
+  first_name text NOT NULL,
+  last_name text NOT NULL,
+  email text,
+  phone text,
+  date_of_birth date,
+  drivers_license text NOT NULL,
+  license_country text NOT NULL DEFAULT 'US',
+  license_state text,
+  license_expiry date,
+  street_address text,
+  city text,
+  state text,
+  zip_code text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT saved_drivers_user_license_unique UNIQUE (user_id, drivers_license)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_drivers_one_primary
+  ON public.saved_drivers (user_id)
+  WHERE is_primary;
+
+DROP TRIGGER IF EXISTS update_saved_drivers_updated_at ON public.saved_drivers;
+CREATE TRIGGER update_saved_drivers_updated_at
+  BEFORE UPDATE ON public.saved_drivers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ===========================================
+-- 2. RLS policies
+-- ===========================================
+
+ALTER TABLE public.saved_drivers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their saved drivers" ON public.saved_drivers;
+CREATE POLICY "Users can view their saved drivers"
+  ON public.saved_drivers
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Users can add saved drivers" ON public.saved_drivers;
+CREATE POLICY "Users can add saved drivers"
+  ON public.saved_drivers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update their saved drivers" ON public.saved_drivers;
+CREATE POLICY "Users can update their saved drivers"
+  ON public.saved_drivers
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete their saved drivers" ON public.saved_drivers;
+CREATE POLICY "Users can delete their saved drivers"
+  ON public.saved_drivers
+  FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
@@ -0,0 +1,378 @@
+/*
+  # Promo codes
+
+  1. promo_codes table (new)
+    - A code customers enter at checkout, optionally tied to the marketing
+      `offers` card that advertises it (`offer_id`)
+    - `discount_type` 'percentage' (of the rental amount) or 'fixed' (USD off
+      the rental amount, never more than it)
+    - Optional scoping: `vehicle_categories`, `vehicle_ids`, `rental_types`
+      ('weekly', 'monthly', 'semester') and `min_rental_days`; NULL means any
+    - `valid_from` / `valid_until`: when the code can be redeemed
+    - `max_redemptions` (all customers) and `max_redemptions_per_user`
+    - Codes are matched case-insensitively and are unique ignoring case
+
+  2. promo_redemptions table (new)
+    - One row per booking that used a code, with the discount it got
+    - `status`: 'pending' while the customer is in Stripe checkout,
+      'redeemed' once paid, 'released' when the checkout expires or the
+      booking is cancelled
+    - A pending redemption counts towards the limits until `expires_at`
+      (the checkout session's expiry), like vehicle holds
+
+  3. bookings columns
+    - `promo_code_id`, `promo_code` and `discount_amount`: the code used and
+      the amount taken off the rental; `total_price` is already net of it
+
+  4. apply_promo_code()
+    - Checks a code against the rental and returns the discount, or the
+      reason it can't be used in `error`
+    - Applied on top of `calculate_booking_total` / `calculate_term_price`
+      by the booking form and create-checkout-session
+    - Per-user limits use the caller's session; the service role passes
+      `p_user_id` instead
+
+  5. reserve_promo_redemption()
+    - Locks the code, re-checks both limits and records a pending
+      redemption in one transaction, so concurrent checkouts can't overrun
+      a limit
+    - Service role only (called by create-checkout-session)
+
+  6. RLS
+    - Staff manage codes and can read redemptions; customers can see their
+      own redemptions. Customers never read codes directly; they only check
+      one through apply_promo_code()
+*/
+
+-- ===========================================
+-- 1. Promo codes
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES public.offers (id) ON DELETE SET NULL,
+  code text NOT NULL,
+  description text,
+  discount_type text NOT NULL,
+  discount_value numeric(10, 2) NOT NULL,
+  vehicle_categories text[],
+  vehicle_ids uuid[],
+  rental_types text[],
+  min_rental_days integer,
+  valid_from timestamptz,
+  valid_until timestamptz,
+  max_redemptions integer,
+  max_redemptions_per_user integer,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT promo_codes_discount_type_check
+    CHECK (discount_type IN ('percentage', 'fixed')),
+  CONSTRAINT promo_codes_discount_value_check
+    CHECK (
+      discount_value > 0
+      AND (discount_type <> 'percentage' OR discount_value <= 100)
+    ),
+  CONSTRAINT promo_codes_rental_types_check
+    CHECK (rental_types <@ ARRAY['weekly', 'monthly', 'semester']::text[]),
+  CONSTRAINT promo_codes_min_rental_days_check
+    CHECK (min_rental_days IS NULL OR min_rental_days > 0),
+  CONSTRAINT promo_codes_validity_check
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from),
+  CONSTRAINT promo_codes_limits_check
+    CHECK (
+      (max_redemptions IS NULL OR max_redemptions > 0)
+      AND (max_redemptions_per_user IS NULL OR max_redemptions_per_user > 0)
+    )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code
+  ON public.promo_codes (upper(code));
+
+CREATE INDEX IF NOT EXISTS idx_promo_codes_offer_id
+  ON public.promo_codes (offer_id)
+  WHERE offer_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- 2. Redemptions
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES public.promo_codes (id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  booking_id uuid REFERENCES public.bookings (id) ON DELETE CASCADE,
+  discount_amount numeric(10, 2) NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  redeemed_at timestamptz,
+  released_at timestamptz,
+  CONSTRAINT promo_redemptions_status_check
+    CHECK (status IN ('pending', 'redeemed', 'released')),
+  CONSTRAINT promo_redemptions_booking_key UNIQUE (booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_status
+  ON public.promo_redemptions (promo_code_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_user_id
+  ON public.promo_redemptions (user_id)
+  WHERE user_id IS NOT NULL;
+
+-- ===========================================
+-- 3. Booking columns
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS promo_code_id uuid
+    REFERENCES public.promo_codes (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS promo_code text,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 4. Checking a code
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.apply_promo_code(
+  p_code text,
+  p_vehicle_id uuid,
+  p_rental_type text,
+  p_rental_days integer,
+  p_rental_amount numeric,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  promo_code_id uuid,
+  code text,
+  description text,
+  discount_type text,
+  discount_value numeric,
+  discount_amount numeric,
+  error text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_promo record;
+  v_category text;
+  v_user_id uuid;
+  v_used integer;
+BEGIN
+  -- Only the service role may check on behalf of another customer
+  v_user_id := CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_user_id
+    ELSE (select auth.uid())
+  END;
+
+  SELECT p.*
+  INTO v_promo
+  FROM public.promo_codes p
+  WHERE upper(p.code) = upper(trim(p_code))
+    AND p.is_active = true;
+
+  IF NOT FOUND THEN
+    error := 'This promo code isn''t valid.';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_promo.valid_from IS NOT NULL AND now() < v_promo.valid_from THEN
+    error := 'This promo code isn''t active yet.';
+  ELSIF v_promo.valid_until IS NOT NULL AND now() >= v_promo.valid_until THEN
+    error := 'This promo code has expired.';
+  ELSIF v_promo.rental_types IS NOT NULL
+    AND NOT (p_rental_type = ANY (v_promo.rental_types)) THEN
+    error := format('This promo code doesn''t apply to %s rentals.', p_rental_type);
+  ELSIF v_promo.min_rental_days IS NOT NULL
+    AND p_rental_days < v_promo.min_rental_days THEN
+    error := format(
+      'This promo code needs a rental of at least %s days.',
+      v_promo.min_rental_days
+    );
+  ELSIF v_promo.vehicle_ids IS NOT NULL
+    AND NOT (p_vehicle_id = ANY (v_promo.vehicle_ids)) THEN
+    error := 'This promo code doesn''t apply to this vehicle.';
+  END IF;
+
+  IF error IS NULL AND v_promo.vehicle_categories IS NOT NULL THEN
+    SELECT v.category
+    INTO v_category
+    FROM public.vehicles v
+    WHERE v.id = p_vehicle_id;
+
+    IF v_category IS NULL
+      OR NOT (v_category = ANY (v_promo.vehicle_categories)) THEN
+      error := 'This promo code doesn''t apply to this vehicle.';
+    END IF;
+  END IF;
+
+  IF error IS NULL AND v_promo.max_redemptions IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_used
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = v_promo.id
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()));
+
+    IF v_used >= v_promo.max_redemptions THEN
+      error := 'This promo code is no longer available.';
+    END IF;
+  END IF;
+
+  IF error IS NULL
+    AND v_promo.max_redemptions_per_user IS NOT NULL
+    AND v_user_id IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_used
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = v_promo.id
+      AND r.user_id = v_user_id
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()));
+
+    IF v_used >= v_promo.max_redemptions_per_user THEN
+      error := 'You''ve already used this promo code.';
+    END IF;
+  END IF;
+
+  IF error IS NOT NULL THEN
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  promo_code_id := v_promo.id;
+  code := upper(v_promo.code);
+  description := v_promo.description;
+  discount_type := v_promo.discount_type;
+  discount_value := v_promo.discount_value;
+  -- Only the rental is discounted, never fees or the deposit
+  discount_amount := LEAST(
+    round(
+      CASE
+        WHEN v_promo.discount_type = 'percentage'
+          THEN p_rental_amount * v_promo.discount_value / 100
+        ELSE v_promo.discount_value
+      END,
+      2
+    ),
+    GREATEST(p_rental_amount, 0)
+  );
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_promo_code(text, uuid, text, integer, numeric, uuid)
+  TO anon, authenticated, service_role;
+
+-- ===========================================
+-- 5. Atomic redemption
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.reserve_promo_redemption(
+  p_promo_code_id uuid,
+  p_user_id uuid,
+  p_booking_id uuid,
+  p_discount_amount numeric,
+  p_expires_at timestamptz
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_promo record;
+  v_redemption_id uuid;
+BEGIN
+  -- Serialise redemptions of this code; released at the end of the transaction
+  SELECT p.id, p.max_redemptions, p.max_redemptions_per_user
+  INTO v_promo
+  FROM public.promo_codes p
+  WHERE p.id = p_promo_code_id AND p.is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL AND (
+    SELECT count(*)
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = p_promo_code_id
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()))
+  ) >= v_promo.max_redemptions THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_promo.max_redemptions_per_user IS NOT NULL AND (
+    SELECT count(*)
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = p_promo_code_id
+      AND r.user_id = p_user_id
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()))
+  ) >= v_promo.max_redemptions_per_user THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.promo_redemptions (
+    promo_code_id, user_id, booking_id, discount_amount, expires_at
+  )
+  VALUES (
+    p_promo_code_id, p_user_id, p_booking_id, p_discount_amount, p_expires_at
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN v_redemption_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_promo_redemption(uuid, uuid, uuid, numeric, timestamptz)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promo_redemption(uuid, uuid, uuid, numeric, timestamptz)
+  TO service_role;
+
+-- ===========================================
+-- 6. RLS policies
+-- ===========================================
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view promo codes" ON public.promo_codes;
+CREATE POLICY "Staff can view promo codes"
+  ON public.promo_codes
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can manage promo codes" ON public.promo_codes;
+CREATE POLICY "Staff can manage promo codes"
+  ON public.promo_codes
+  FOR ALL
+  TO authenticated
+  USING (public.is_staff_member() = true)
+  WITH CHECK (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Users can view their promo redemptions" ON public.promo_redemptions;
+CREATE POLICY "Users can view their promo redemptions"
+  ON public.promo_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Staff can view promo redemptions" ON public.promo_redemptions;
+CREATE POLICY "Staff can view promo redemptions"
+  ON public.promo_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
@@ -0,0 +1,475 @@
+/*
+  # Referral program and account credits
+
+  1. referral_codes
+    - One code per customer, created on first use by get_my_referral_code()
+    - Shared as a landing link (`/?ref=<code>`); the site keeps the code until
+      the visitor signs up and passes it as `referral_code` in the sign-up
+      metadata
+
+  2. referrals
+    - Recorded by a trigger on auth.users when a new account carries a valid
+      `referral_code`; one referrer per customer, never themselves
+    - `pending` until the referred customer's first booking reaches
+      `completed`, then `credited`
+
+  3. account_credits
+    - Append-only ledger: positive rows add credit, negative rows spend it;
+      the balance is the sum
+    - `referral_reward`: issued to the referrer, amount from
+      `referral_credit_amount`
+    - `booking_applied`: credit spent on a booking at checkout
+    - `booking_restored`: credit given back when that checkout expires or the
+      booking is cancelled
+    - `adjustment`: added by staff
+    - Deleting a booking (a failed checkout is rolled back that way) removes
+      its rows, which hands the credit back
+
+  4. bookings column
+    - `account_credit_applied`: credit taken off the rental at checkout,
+      already deducted from `total_price`
+
+  5. Functions
+    - get_my_referral_code(): the caller's code, created if missing
+    - get_account_credit_balance(): the caller's balance; the service role
+      passes `p_user_id` instead
+    - apply_account_credit(): locks the customer's ledger, re-checks the
+      balance and records the spend in one transaction (service role only,
+      called by create-checkout-session)
+    - restore_account_credit(): gives a booking's credit back once (service
+      role only, called by stripe-webhook and cancel-booking)
+
+  6. system_config
+    - `referral_credit_amount`: credit issued per successful referral
+
+  7. RLS
+    - Customers read their own code, referrals and ledger; staff read
+      everything and add adjustments. All other writes go through the
+      functions and triggers above
+*/
+
+-- ===========================================
+-- 1. Referral codes
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.referral_codes (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  code text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_codes_code
+  ON public.referral_codes (upper(code));
+
+-- ===========================================
+-- 2. Referrals
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  referred_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  referral_code text NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  booking_id uuid REFERENCES public.bookings (id) ON DELETE SET NULL,
+  credited_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT referrals_status_check
+    CHECK (status IN ('pending', 'credited')),
+  CONSTRAINT referrals_not_self_check
+    CHECK (referrer_id <> referred_id),
+  CONSTRAINT referrals_referred_key UNIQUE (referred_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id
+  ON public.referrals (referrer_id);
+
+-- ===========================================
+-- 3. Account credit ledger
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.account_credits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  amount numeric(10, 2) NOT NULL,
+  entry_type text NOT NULL,
+  description text,
+  referral_id uuid REFERENCES public.referrals (id) ON DELETE SET NULL,
+  booking_id uuid REFERENCES public.bookings (id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT account_credits_entry_type_check
+    CHECK (
+      entry_type IN (
+        'referral_reward', 'booking_applied', 'booking_restored', 'adjustment'
+      )
+    ),
+  CONSTRAINT account_credits_amount_check
+    CHECK (
+      amount <> 0
+      AND (entry_type <> 'booking_applied' OR amount < 0)
+      AND (entry_type NOT IN ('referral_reward', 'booking_restored') OR amount > 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_credits_user_id
+  ON public.account_credits (user_id, created_at DESC);
+
+-- Each referral pays out once; each booking spends and gets credit back once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_credits_referral_reward
+  ON public.account_credits (referral_id)
+  WHERE entry_type = 'referral_reward';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_credits_booking_applied
+  ON public.account_credits (booking_id)
+  WHERE entry_type = 'booking_applied';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_credits_booking_restored
+  ON public.account_credits (booking_id)
+  WHERE entry_type = 'booking_restored';
+
+-- ===========================================
+-- 4. Booking column
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS account_credit_applied numeric(10, 2) NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 5. Referral codes and sign-ups
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.get_my_referral_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := (select auth.uid());
+  v_code text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT rc.code
+  INTO v_code
+  FROM public.referral_codes rc
+  WHERE rc.user_id = v_user_id;
+
+  -- Eight random hex characters; retry on the rare collision
+  WHILE v_code IS NULL LOOP
+    v_code := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+
+    BEGIN
+      INSERT INTO public.referral_codes (user_id, code)
+      VALUES (v_user_id, v_code);
+    EXCEPTION
+      WHEN unique_violation THEN
+        -- A concurrent call may have created this customer's code
+        SELECT rc.code
+        INTO v_code
+        FROM public.referral_codes rc
+        WHERE rc.user_id = v_user_id;
+    END;
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_my_referral_code() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_referral_code() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_referral_signup()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_code text := upper(trim(NEW.raw_user_meta_data ->> 'referral_code'));
+  v_referrer_id uuid;
+BEGIN
+  IF v_code IS NULL OR v_code = '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT rc.user_id
+  INTO v_referrer_id
+  FROM public.referral_codes rc
+  WHERE upper(rc.code) = v_code;
+
+  IF v_referrer_id IS NOT NULL AND v_referrer_id <> NEW.id THEN
+    INSERT INTO public.referrals (referrer_id, referred_id, referral_code)
+    VALUES (v_referrer_id, NEW.id, v_code)
+    ON CONFLICT (referred_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN others THEN
+    -- A bad referral code must never block a sign-up
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_referred ON auth.users;
+CREATE TRIGGER on_auth_user_referred
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_referral_signup();
+
+-- ===========================================
+-- 6. Referral reward on the first completed booking
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.trigger_issue_referral_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_referral record;
+  v_amount numeric;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only the referred customer's first completed booking counts
+  IF EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.user_id = NEW.user_id
+      AND b.id <> NEW.id
+      AND b.status = 'completed'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.id, r.referrer_id
+  INTO v_referral
+  FROM public.referrals r
+  WHERE r.referred_id = NEW.user_id
+    AND r.status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(NULLIF(sc.value, '')::numeric, 0)
+  INTO v_amount
+  FROM public.system_config sc
+  WHERE sc.key = 'referral_credit_amount';
+
+  UPDATE public.referrals
+  SET status = 'credited',
+      booking_id = NEW.id,
+      credited_at = now()
+  WHERE id = v_referral.id;
+
+  IF COALESCE(v_amount, 0) > 0 THEN
+    INSERT INTO public.account_credits (
+      user_id, amount, entry_type, description, referral_id
+    )
+    VALUES (
+      v_referral.referrer_id,
+      v_amount,
+      'referral_reward',
+      'Referral reward: a friend completed their first rental',
+      v_referral.id
+    )
+    ON CONFLICT (referral_id) WHERE entry_type = 'referral_reward' DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_issue_referral_credit ON public.bookings;
+CREATE TRIGGER trg_issue_referral_credit
+  AFTER UPDATE OF status
+  ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.trigger_issue_referral_credit();
+
+-- ===========================================
+-- 7. Balance and spending
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.get_account_credit_balance(
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  -- Only the service role may read another customer's balance
+  SELECT COALESCE(sum(ac.amount), 0)
+  FROM public.account_credits ac
+  WHERE ac.user_id = CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_user_id
+    ELSE (select auth.uid())
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_account_credit_balance(uuid)
+  TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.apply_account_credit(
+  p_user_id uuid,
+  p_booking_id uuid,
+  p_amount numeric
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN false;
+  END IF;
+
+  -- Serialise spending per customer; released at the end of the transaction
+  PERFORM pg_advisory_xact_lock(hashtext('account_credits:' || p_user_id::text));
+
+  SELECT COALESCE(sum(ac.amount), 0)
+  INTO v_balance
+  FROM public.account_credits ac
+  WHERE ac.user_id = p_user_id;
+
+  IF v_balance < p_amount THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.account_credits (
+    user_id, amount, entry_type, description, booking_id
+  )
+  VALUES (
+    p_user_id, -p_amount, 'booking_applied', 'Applied to a booking', p_booking_id
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_account_credit(uuid, uuid, numeric)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_account_credit(uuid, uuid, numeric)
+  TO service_role;
+
+CREATE OR REPLACE FUNCTION public.restore_account_credit(
+  p_booking_id uuid,
+  p_description text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_restored numeric;
+BEGIN
+  INSERT INTO public.account_credits (
+    user_id, amount, entry_type, description, booking_id
+  )
+  SELECT ac.user_id, -ac.amount, 'booking_restored', p_description, ac.booking_id
+  FROM public.account_credits ac
+  WHERE ac.booking_id = p_booking_id
+    AND ac.entry_type = 'booking_applied'
+  ON CONFLICT (booking_id) WHERE entry_type = 'booking_restored' DO NOTHING
+  RETURNING amount INTO v_restored;
+
+  RETURN COALESCE(v_restored, 0);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.restore_account_credit(uuid, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_account_credit(uuid, text)
+  TO service_role;
+
+-- ===========================================
+-- 8. Reward amount config
+-- ===========================================
+
+INSERT INTO public.system_config (
+  key, value, data_type, category, label, description, unit,
+  min_value, max_value, is_visible, is_editable, sort_order
+)
+VALUES (
+  'referral_credit_amount', '25', 'decimal', 'payment',
+  'Referral Credit',
+  'Account credit issued to a customer when someone they referred completes their first rental',
+  'USD', 0, 500, true, true, 60
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ===========================================
+-- 9. RLS policies
+-- ===========================================
+
+ALTER TABLE public.referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_credits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their referral code" ON public.referral_codes;
+CREATE POLICY "Users can view their referral code"
+  ON public.referral_codes
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Staff can view referral codes" ON public.referral_codes;
+CREATE POLICY "Staff can view referral codes"
+  ON public.referral_codes
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Users can view their referrals" ON public.referrals;
+CREATE POLICY "Users can view their referrals"
+  ON public.referrals
+  FOR SELECT
+  TO authenticated
+  USING (referrer_id = (select auth.uid()) OR referred_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Staff can view referrals" ON public.referrals;
+CREATE POLICY "Staff can view referrals"
+  ON public.referrals
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Users can view their account credits" ON public.account_credits;
+CREATE POLICY "Users can view their account credits"
+  ON public.account_credits
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+DROP POLICY IF EXISTS "Staff can view account credits" ON public.account_credits;
+CREATE POLICY "Staff can view account credits"
+  ON public.account_credits
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can add credit adjustments" ON public.account_credits;
+CREATE POLICY "Staff can add credit adjustments"
+  ON public.account_credits
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_staff_member() = true
+    AND entry_type = 'adjustment'
+  );
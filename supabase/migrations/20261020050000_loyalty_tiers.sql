@@ -0,0 +1,302 @@
+/*
+  # Loyalty tiers
+
+  1. loyalty_tiers table (new)
+    - Tiers a customer reaches through completed rentals: `min_completed_days`
+      (rental days across completed bookings) or `min_completed_spend` (rent
+      paid on them, net of promo codes). Either threshold is enough; NULL
+      means that path doesn't count
+    - `rank` orders the tiers; the highest tier reached wins
+    - Benefits: `waive_additional_driver_fee`, `free_delivery` and
+      `deposit_discount_percent` (off the security deposit)
+    - Seeded with Silver, Gold and Platinum; staff can change or add tiers
+
+  2. bookings columns
+    - `loyalty_tier_id`: the tier the booking was priced at
+    - `loyalty_savings`: fees and deposit waived by the tier. The stored
+      `delivery_fee`, `additional_driver_fee`, `security_deposit` and
+      `total_price` are already net of it
+
+  3. get_loyalty_status()
+    - Completed rental count, days and spend, the current tier with its
+      benefits, and the next tier with what it takes to reach it
+    - Uses the caller's session; the service role passes `p_user_id` instead
+
+  4. calculate_loyalty_benefits()
+    - Applies the customer's tier to the fees and deposit returned by
+      `calculate_booking_total` / `calculate_term_price`, and returns the
+      amounts waived
+    - Called by the booking form (preview), create-checkout-session and
+      modify-booking, which price the booking with the server's result
+
+  5. RLS
+    - Anyone can read active tiers (they're advertised); staff manage them
+*/
+
+-- ===========================================
+-- 1. Loyalty tiers
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.loyalty_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  rank integer NOT NULL,
+  min_completed_days integer,
+  min_completed_spend numeric(10, 2),
+  waive_additional_driver_fee boolean NOT NULL DEFAULT false,
+  free_delivery boolean NOT NULL DEFAULT false,
+  deposit_discount_percent numeric(5, 2) NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT loyalty_tiers_name_key UNIQUE (name),
+  CONSTRAINT loyalty_tiers_rank_key UNIQUE (rank),
+  CONSTRAINT loyalty_tiers_threshold_check
+    CHECK (min_completed_days IS NOT NULL OR min_completed_spend IS NOT NULL),
+  CONSTRAINT loyalty_tiers_min_days_check
+    CHECK (min_completed_days IS NULL OR min_completed_days > 0),
+  CONSTRAINT loyalty_tiers_min_spend_check
+    CHECK (min_completed_spend IS NULL OR min_completed_spend > 0),
+  CONSTRAINT loyalty_tiers_deposit_discount_check
+    CHECK (deposit_discount_percent >= 0 AND deposit_discount_percent <= 100)
+);
+
+DROP TRIGGER IF EXISTS update_loyalty_tiers_updated_at ON public.loyalty_tiers;
+CREATE TRIGGER update_loyalty_tiers_updated_at
+  BEFORE UPDATE ON public.loyalty_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.loyalty_tiers (
+  name, description, rank, min_completed_days, min_completed_spend,
+  waive_additional_driver_fee, free_delivery, deposit_discount_percent
+)
+VALUES
+  (
+    'Silver', 'Additional drivers at no charge',
+    1, 30, 1500, true, false, 0
+  ),
+  (
+    'Gold', 'Free additional drivers and 25% off the security deposit',
+    2, 90, 4500, true, false, 25
+  ),
+  (
+    'Platinum', 'Free additional drivers, free delivery and 50% off the security deposit',
+    3, 180, 9000, true, true, 50
+  )
+ON CONFLICT (name) DO NOTHING;
+
+-- ===========================================
+-- 2. Booking columns
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS loyalty_tier_id uuid
+    REFERENCES public.loyalty_tiers (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS loyalty_savings numeric(10, 2) NOT NULL DEFAULT 0;
+
+-- ===========================================
+-- 3. Loyalty status
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.get_loyalty_status(
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  completed_rentals integer,
+  completed_days integer,
+  completed_spend numeric,
+  tier_id uuid,
+  tier_name text,
+  waive_additional_driver_fee boolean,
+  free_delivery boolean,
+  deposit_discount_percent numeric,
+  next_tier_id uuid,
+  next_tier_name text,
+  next_tier_min_days integer,
+  next_tier_min_spend numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_tier record;
+  v_next record;
+BEGIN
+  -- Only the service role may read another customer's status
+  v_user_id := CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_user_id
+    ELSE (select auth.uid())
+  END;
+
+  SELECT
+    count(*)::integer,
+    COALESCE(sum(b.rental_days), 0)::integer,
+    COALESCE(
+      sum(
+        COALESCE(b.rental_amount::numeric, 0)
+          - COALESCE(b.discount_amount, 0)
+      ),
+      0
+    )
+  INTO completed_rentals, completed_days, completed_spend
+  FROM public.bookings b
+  WHERE v_user_id IS NOT NULL
+    AND b.user_id = v_user_id
+    AND b.status = 'completed';
+
+  SELECT t.*
+  INTO v_tier
+  FROM public.loyalty_tiers t
+  WHERE t.is_active = true
+    AND (
+      completed_days >= t.min_completed_days
+      OR completed_spend >= t.min_completed_spend
+    )
+  ORDER BY t.rank DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    tier_id := v_tier.id;
+    tier_name := v_tier.name;
+    waive_additional_driver_fee := v_tier.waive_additional_driver_fee;
+    free_delivery := v_tier.free_delivery;
+    deposit_discount_percent := v_tier.deposit_discount_percent;
+  ELSE
+    waive_additional_driver_fee := false;
+    free_delivery := false;
+    deposit_discount_percent := 0;
+  END IF;
+
+  SELECT t.*
+  INTO v_next
+  FROM public.loyalty_tiers t
+  WHERE t.is_active = true
+    AND t.rank > COALESCE(v_tier.rank, 0)
+  ORDER BY t.rank
+  LIMIT 1;
+
+  IF FOUND THEN
+    next_tier_id := v_next.id;
+    next_tier_name := v_next.name;
+    next_tier_min_days := v_next.min_completed_days;
+    next_tier_min_spend := v_next.min_completed_spend;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_loyalty_status(uuid)
+  TO authenticated, service_role;
+
+-- ===========================================
+-- 4. Pricing benefits
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.calculate_loyalty_benefits(
+  p_delivery_fee numeric,
+  p_additional_driver_fee numeric,
+  p_security_deposit numeric,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  loyalty_tier_id uuid,
+  tier_name text,
+  delivery_fee numeric,
+  additional_driver_fee numeric,
+  security_deposit numeric,
+  delivery_fee_waived numeric,
+  additional_driver_fee_waived numeric,
+  deposit_discount numeric,
+  total_savings numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_status record;
+BEGIN
+  -- Only the service role may price on behalf of another customer
+  v_user_id := CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_user_id
+    ELSE (select auth.uid())
+  END;
+
+  delivery_fee_waived := 0;
+  additional_driver_fee_waived := 0;
+  deposit_discount := 0;
+
+  -- No session (or no user passed) means no completed rentals, so no tier
+  SELECT s.*
+  INTO v_status
+  FROM public.get_loyalty_status(v_user_id) s;
+
+  IF v_status.tier_id IS NOT NULL THEN
+    loyalty_tier_id := v_status.tier_id;
+    tier_name := v_status.tier_name;
+
+    IF v_status.free_delivery THEN
+      delivery_fee_waived := GREATEST(COALESCE(p_delivery_fee, 0), 0);
+    END IF;
+
+    IF v_status.waive_additional_driver_fee THEN
+      additional_driver_fee_waived :=
+        GREATEST(COALESCE(p_additional_driver_fee, 0), 0);
+    END IF;
+
+    deposit_discount := round(
+      GREATEST(COALESCE(p_security_deposit, 0), 0)
+        * v_status.deposit_discount_percent / 100,
+      2
+    );
+  END IF;
+
+  delivery_fee := COALESCE(p_delivery_fee, 0) - delivery_fee_waived;
+  additional_driver_fee :=
+    COALESCE(p_additional_driver_fee, 0) - additional_driver_fee_waived;
+  security_deposit := COALESCE(p_security_deposit, 0) - deposit_discount;
+  total_savings :=
+    delivery_fee_waived + additional_driver_fee_waived + deposit_discount;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_loyalty_benefits(numeric, numeric, numeric, uuid)
+  TO anon, authenticated, service_role;
+
+-- ===========================================
+-- 5. RLS policies
+-- ===========================================
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active loyalty tiers" ON public.loyalty_tiers;
+CREATE POLICY "Anyone can view active loyalty tiers"
+  ON public.loyalty_tiers
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+DROP POLICY IF EXISTS "Staff can view loyalty tiers" ON public.loyalty_tiers;
+CREATE POLICY "Staff can view loyalty tiers"
+  ON public.loyalty_tiers
+  FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member() = true);
+
+DROP POLICY IF EXISTS "Staff can manage loyalty tiers" ON public.loyalty_tiers;
+CREATE POLICY "Staff can manage loyalty tiers"
+  ON public.loyalty_tiers
+  FOR ALL
+  TO authenticated
+  USING (public.is_staff_member() = true)
+  WITH CHECK (public.is_staff_member() = true);
@@ -0,0 +1,127 @@
+/*
+  # Vehicle holds for paid booking modifications
+
+  1. vehicle_holds column
+    - `revision_id`: the booking revision whose checkout the hold covers; NULL
+      for new-booking checkouts
+
+  2. vehicle_dates_available()
+    - Whether a vehicle is free for the dates: no overlapping pending,
+      confirmed or active booking and no live hold
+    - `p_exclude_booking_id` leaves out the booking being modified and holds
+      linked to it, so a booking never clashes with itself
+    - Service role only (modify-booking, and the re-check when stripe-webhook
+      applies a paid revision)
+
+  3. create_vehicle_hold()
+    - Gains `p_exclude_booking_id` (default NULL) so modify-booking can hold a
+      booking's new dates for the length of the Stripe checkout; such a hold
+      is linked to that booking straight away
+    - Checks through vehicle_dates_available() under the same per-vehicle lock
+*/
+
+-- ===========================================
+-- 1. Revision link
+-- ===========================================
+
+ALTER TABLE public.vehicle_holds
+  ADD COLUMN IF NOT EXISTS revision_id uuid
+    REFERENCES public.booking_revisions (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_holds_revision_id
+  ON public.vehicle_holds (revision_id)
+  WHERE revision_id IS NOT NULL;
+
+-- ===========================================
+-- 2. Availability check
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.vehicle_dates_available(
+  p_vehicle_id uuid,
+  p_pickup_date timestamptz,
+  p_return_date timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.bookings b
+    WHERE b.vehicle_id = p_vehicle_id
+      AND b.status IN ('pending', 'confirmed', 'active')
+      AND b.pickup_date <= p_return_date
+      AND b.return_date >= p_pickup_date
+      AND (p_exclude_booking_id IS NULL OR b.id <> p_exclude_booking_id)
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.vehicle_holds h
+    WHERE h.vehicle_id = p_vehicle_id
+      AND h.status = 'active'
+      AND h.expires_at > now()
+      AND h.pickup_date <= p_return_date
+      AND h.return_date >= p_pickup_date
+      AND (
+        p_exclude_booking_id IS NULL
+        OR h.booking_id IS DISTINCT FROM p_exclude_booking_id
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.vehicle_dates_available(uuid, timestamptz, timestamptz, uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.vehicle_dates_available(uuid, timestamptz, timestamptz, uuid)
+  TO service_role;
+
+-- ===========================================
+-- 3. Hold creation (excluding the modified booking)
+-- ===========================================
+
+DROP FUNCTION IF EXISTS public.create_vehicle_hold(uuid, uuid, timestamptz, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.create_vehicle_hold(
+  p_vehicle_id uuid,
+  p_user_id uuid,
+  p_pickup_date timestamptz,
+  p_return_date timestamptz,
+  p_expires_at timestamptz,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_hold_id uuid;
+BEGIN
+  -- Serialise checkouts per vehicle; released at the end of the transaction
+  PERFORM pg_advisory_xact_lock(hashtext('vehicle_hold:' || p_vehicle_id::text));
+
+  IF NOT public.vehicle_dates_available(
+    p_vehicle_id, p_pickup_date, p_return_date, p_exclude_booking_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.vehicle_holds (
+    vehicle_id, user_id, booking_id, pickup_date, return_date, expires_at
+  )
+  VALUES (
+    p_vehicle_id, p_user_id, p_exclude_booking_id, p_pickup_date,
+    p_return_date, p_expires_at
+  )
+  RETURNING id INTO v_hold_id;
+
+  RETURN v_hold_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_vehicle_hold(uuid, uuid, timestamptz, timestamptz, timestamptz, uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_vehicle_hold(uuid, uuid, timestamptz, timestamptz, timestamptz, uuid)
+  TO service_role;
@@ -0,0 +1,164 @@
+/*
+  # Promo codes on modified bookings
+
+  1. apply_promo_code()
+    - Gains `p_exclude_booking_id` (default NULL): the booking's own
+      redemption doesn't count towards the limits, so modify-booking can
+      re-check the code the booking already uses against its new pricing
+    - Like `p_user_id`, only the service role may pass it
+*/
+
+-- ===========================================
+-- 1. Re-check excluding the booking's own use
+-- ===========================================
+
+DROP FUNCTION IF EXISTS public.apply_promo_code(text, uuid, text, integer, numeric, uuid);
+
+CREATE OR REPLACE FUNCTION public.apply_promo_code(
+  p_code text,
+  p_vehicle_id uuid,
+  p_rental_type text,
+  p_rental_days integer,
+  p_rental_amount numeric,
+  p_user_id uuid DEFAULT NULL,
+  p_exclude_booking_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  promo_code_id uuid,
+  code text,
+  description text,
+  discount_type text,
+  discount_value numeric,
+  discount_amount numeric,
+  error text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_promo record;
+  v_category text;
+  v_user_id uuid;
+  v_exclude_booking_id uuid;
+  v_used integer;
+BEGIN
+  -- Only the service role may check on behalf of another customer
+  v_user_id := CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_user_id
+    ELSE (select auth.uid())
+  END;
+
+  -- ...or leave a booking's own use of the code out of the limits
+  v_exclude_booking_id := CASE
+    WHEN (select auth.role()) = 'service_role' THEN p_exclude_booking_id
+    ELSE NULL
+  END;
+
+  SELECT p.*
+  INTO v_promo
+  FROM public.promo_codes p
+  WHERE upper(p.code) = upper(trim(p_code))
+    AND p.is_active = true;
+
+  IF NOT FOUND THEN
+    error := 'This promo code isn''t valid.';
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  IF v_promo.valid_from IS NOT NULL AND now() < v_promo.valid_from THEN
+    error := 'This promo code isn''t active yet.';
+  ELSIF v_promo.valid_until IS NOT NULL AND now() >= v_promo.valid_until THEN
+    error := 'This promo code has expired.';
+  ELSIF v_promo.rental_types IS NOT NULL
+    AND NOT (p_rental_type = ANY (v_promo.rental_types)) THEN
+    error := format('This promo code doesn''t apply to %s rentals.', p_rental_type);
+  ELSIF v_promo.min_rental_days IS NOT NULL
+    AND p_rental_days < v_promo.min_rental_days THEN
+    error := format(
+      'This promo code needs a rental of at least %s days.',
+      v_promo.min_rental_days
+    );
+  ELSIF v_promo.vehicle_ids IS NOT NULL
+    AND NOT (p_vehicle_id = ANY (v_promo.vehicle_ids)) THEN
+    error := 'This promo code doesn''t apply to this vehicle.';
+  END IF;
+
+  IF error IS NULL AND v_promo.vehicle_categories IS NOT NULL THEN
+    SELECT v.category
+    INTO v_category
+    FROM public.vehicles v
+    WHERE v.id = p_vehicle_id;
+
+    IF v_category IS NULL
+      OR NOT (v_category = ANY (v_promo.vehicle_categories)) THEN
+      error := 'This promo code doesn''t apply to this vehicle.';
+    END IF;
+  END IF;
+
+  IF error IS NULL AND v_promo.max_redemptions IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_used
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = v_promo.id
+      AND (
+        v_exclude_booking_id IS NULL
+        OR r.booking_id IS DISTINCT FROM v_exclude_booking_id
+      )
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()));
+
+    IF v_used >= v_promo.max_redemptions THEN
+      error := 'This promo code is no longer available.';
+    END IF;
+  END IF;
+
+  IF error IS NULL
+    AND v_promo.max_redemptions_per_user IS NOT NULL
+    AND v_user_id IS NOT NULL THEN
+    SELECT count(*)
+    INTO v_used
+    FROM public.promo_redemptions r
+    WHERE r.promo_code_id = v_promo.id
+      AND r.user_id = v_user_id
+      AND (
+        v_exclude_booking_id IS NULL
+        OR r.booking_id IS DISTINCT FROM v_exclude_booking_id
+      )
+      AND (r.status = 'redeemed' OR (r.status = 'pending' AND r.expires_at > now()));
+
+    IF v_used >= v_promo.max_redemptions_per_user THEN
+      error := 'You''ve already used this promo code.';
+    END IF;
+  END IF;
+
+  IF error IS NOT NULL THEN
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  promo_code_id := v_promo.id;
+  code := upper(v_promo.code);
+  description := v_promo.description;
+  discount_type := v_promo.discount_type;
+  discount_value := v_promo.discount_value;
+  -- Only the rental is discounted, never fees or the deposit
+  discount_amount := LEAST(
+    round(
+      CASE
+        WHEN v_promo.discount_type = 'percentage'
+          THEN p_rental_amount * v_promo.discount_value / 100
+        ELSE v_promo.discount_value
+      END,
+      2
+    ),
+    GREATEST(p_rental_amount, 0)
+  );
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_promo_code(text, uuid, text, integer, numeric, uuid, uuid)
+  TO anon, authenticated, service_role;
@@ -0,0 +1,28 @@
+/*
+  # Deposits left for staff to release
+
+  1. bookings column
+    - `deposit_release_manual_at`: when process-deposit-releases handed the
+      deposit to staff (paid outside Stripe, or more than Stripe can still
+      refund); NULL while the job handles it automatically
+    - The job skips these bookings, so they no longer fill its batch and
+      hold back later returns
+
+  2. Important Notes
+    - Staff settle and mark the deposit returned by hand; clearing the column
+      hands the booking back to the job
+*/
+
+-- ===========================================
+-- 1. Manual release marker
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS deposit_release_manual_at timestamptz;
+
+DROP INDEX IF EXISTS public.idx_bookings_deposit_unreleased;
+CREATE INDEX IF NOT EXISTS idx_bookings_deposit_unreleased
+  ON public.bookings (return_date)
+  WHERE status = 'completed'
+    AND security_deposit_returned = false
+    AND deposit_release_manual_at IS NULL;
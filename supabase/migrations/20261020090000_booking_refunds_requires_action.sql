@@ -0,0 +1,20 @@
+/*
+  # Refund ledger: requires_action status
+
+  1. booking_refunds.status
+    - Allows 'requires_action', which Stripe returns for refunds that need
+      the customer to act (e.g. some bank transfers and wallets). Recording
+      such a refund no longer fails the status check after Stripe has
+      already issued it
+*/
+
+-- ===========================================
+-- 1. Status check
+-- ===========================================
+
+ALTER TABLE public.booking_refunds
+  DROP CONSTRAINT IF EXISTS booking_refunds_status_check;
+
+ALTER TABLE public.booking_refunds
+  ADD CONSTRAINT booking_refunds_status_check
+    CHECK (status IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled'));
@@ -0,0 +1,25 @@
+/*
+  # No-shows left for staff
+
+  1. bookings column
+    - `no_show_manual_at`: when process-no-shows handed a no-show to staff
+      because its refund can't be issued automatically; NULL while the job
+      handles the booking
+    - The job skips these bookings, so they no longer fill its batch and
+      hold back later no-shows
+
+  2. Important Notes
+    - Staff settle these from Stripe and mark-no-show; clearing the column
+      hands the booking back to the job
+*/
+
+-- ===========================================
+-- 1. Manual no-show marker
+-- ===========================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS no_show_manual_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_no_show_pending
+  ON public.bookings (pickup_date, id)
+  WHERE status = 'confirmed' AND no_show_manual_at IS NULL;